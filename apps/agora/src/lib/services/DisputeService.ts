@@ -1,5 +1,15 @@
 import { supabase } from '$lib/supabaseClient';
+import {
+  AppealWorkflow,
+  type AppealAuditExport,
+  type AppealDecision,
+  type AppealPriority,
+  type AppealRecord,
+  type Reviewer,
+  type SlaBreach
+} from '@lena/moderation';
 import { PaymentService } from './PaymentService';
+import { SupabaseAppealStore } from './appealStore';
 
 interface DisputeEvidence {
   type: 'text' | 'image' | 'document';
@@ -25,9 +35,16 @@ interface DisputeMessage {
 
 export class DisputeService {
   private paymentService: PaymentService;
+  private appeals: AppealWorkflow;
 
   constructor() {
     this.paymentService = new PaymentService();
+    this.appeals = new AppealWorkflow({
+      store: new SupabaseAppealStore(),
+      reviewers: () => this.getAppealReviewers(),
+      onFinal: appeal => this.applyAppealDecision(appeal),
+      onBreach: breach => this.notifyAppealBreach(breach)
+    });
   }
 
   // Create a new dispute for an order
@@ -228,13 +245,47 @@ export class DisputeService {
     }
   }
 
-  // Appeal a dispute resolution
-  async appealResolution(disputeId: string, reason: string, newEvidence?: DisputeEvidence[]) {
+  // Appeal a dispute resolution. Neither party nor the mediator who resolved it can review the appeal
+  async appealResolution(
+    disputeId: string,
+    appellantId: string,
+    reason: string,
+    newEvidence?: DisputeEvidence[]
+  ): Promise<AppealRecord> {
     try {
+      const { data: dispute, error: disputeError } = await supabase
+        .from('marketplace_disputes')
+        .select('*')
+        .eq('id', disputeId)
+        .single();
+
+      if (disputeError) throw disputeError;
+
+      if (dispute.status !== 'resolved') {
+        throw new Error('Only resolved disputes can be appealed');
+      }
+      if (appellantId !== dispute.initiator_id && appellantId !== dispute.respondent_id) {
+        throw new Error('Only a party to the dispute can appeal its resolution');
+      }
+
+      const appeal = await this.appeals.submit({
+        subjectId: disputeId,
+        appellantId,
+        reason,
+        evidence: newEvidence,
+        conflictedIds: [
+          dispute.initiator_id,
+          dispute.respondent_id,
+          dispute.mediator_id,
+          dispute.resolution?.mediatorId
+        ].filter(Boolean)
+      });
+
       const { error } = await supabase
         .from('marketplace_disputes')
         .update({
           status: 'appealed',
+          appeal_id: appeal.id,
           appeal_reason: reason,
           appeal_evidence: newEvidence,
           appealed_at: new Date().toISOString()
@@ -245,12 +296,92 @@ export class DisputeService {
 
       // Notify relevant parties of appeal
       await this.notifyAppeal(disputeId);
+      return appeal;
     } catch (error) {
       console.error('Failed to appeal resolution:', error);
       throw error;
     }
   }
 
+  // Sets the appeal's priority and needed skills, then assigns a reviewer if one is free
+  async triageAppeal(
+    appealId: string,
+    triagedBy: string,
+    triage: { priority?: AppealPriority; skills?: string[] } = {}
+  ): Promise<AppealRecord> {
+    try {
+      return await this.appeals.triage(appealId, triagedBy, triage);
+    } catch (error) {
+      console.error('Failed to triage appeal:', error);
+      throw error;
+    }
+  }
+
+  async assignAppeal(appealId: string, assignedBy: string, reviewerId?: string): Promise<AppealRecord> {
+    try {
+      return await this.appeals.assign(appealId, assignedBy, reviewerId);
+    } catch (error) {
+      console.error('Failed to assign appeal:', error);
+      throw error;
+    }
+  }
+
+  async decideAppeal(
+    appealId: string,
+    reviewerId: string,
+    decision: AppealDecision,
+    reason: string
+  ): Promise<AppealRecord> {
+    try {
+      return await this.appeals.decide(appealId, reviewerId, decision, reason);
+    } catch (error) {
+      console.error('Failed to decide appeal:', error);
+      throw error;
+    }
+  }
+
+  async escalateAppeal(appealId: string, appellantId: string, reason: string): Promise<AppealRecord> {
+    try {
+      return await this.appeals.escalate(appealId, appellantId, reason);
+    } catch (error) {
+      console.error('Failed to escalate appeal:', error);
+      throw error;
+    }
+  }
+
+  // The appellant accepting a decision, or the second-level reviewer deciding an escalated appeal
+  async finalizeAppeal(
+    appealId: string,
+    actorId: string,
+    decision?: { decision: AppealDecision; reason: string }
+  ): Promise<AppealRecord> {
+    try {
+      return await this.appeals.finalize(appealId, actorId, decision);
+    } catch (error) {
+      console.error('Failed to finalize appeal:', error);
+      throw error;
+    }
+  }
+
+  async getAppealAudit(appealId: string): Promise<AppealAuditExport> {
+    try {
+      return await this.appeals.exportAudit(appealId);
+    } catch (error) {
+      console.error('Failed to export appeal audit trail:', error);
+      throw error;
+    }
+  }
+
+  // Run periodically: alerts on overdue appeals and finalizes decisions nobody escalated
+  async checkAppealSlas(): Promise<SlaBreach[]> {
+    try {
+      return await this.appeals.checkSla();
+    } catch (error) {
+      console.error('Failed to check appeal SLAs:', error);
+      throw error;
+    }
+  }
+
   // Get dispute statistics for a user
   async getUserDisputeStats(userId: string) {
     try {
@@ -274,6 +405,37 @@ export class DisputeService {
   }
 
   // Private helper methods
+  private async getAppealReviewers(): Promise<Reviewer[]> {
+    const { data, error } = await supabase
+      .from('dispute_appeal_reviewers')
+      .select('*');
+
+    if (error) throw error;
+    return data.map(row => ({
+      id: row.user_id,
+      skills: row.skills ?? [],
+      level: row.level,
+      active: row.active,
+      maxLoad: row.max_load ?? undefined
+    }));
+  }
+
+  // An overturned resolution goes back to mediation with a different mediator
+  private async applyAppealDecision(appeal: AppealRecord) {
+    const { error } = await supabase
+      .from('marketplace_disputes')
+      .update(
+        appeal.decision === 'approved'
+          ? { status: 'mediation', mediator_id: null }
+          : { status: 'resolved' }
+      )
+      .eq('id', appeal.subjectId);
+
+    if (error) throw error;
+
+    await this.notifyAppealDecision(appeal);
+  }
+
   private async notifyDisputeParties(dispute: any) {
     // Implementation for notifying parties about new dispute
   }
@@ -290,6 +452,14 @@ export class DisputeService {
     // Implementation for notifying parties about appeal
   }
 
+  private async notifyAppealDecision(appeal: AppealRecord) {
+    // Implementation for notifying parties about the final appeal decision
+  }
+
+  private async notifyAppealBreach(breach: SlaBreach) {
+    console.error('Dispute appeal overdue:', breach.appeal.id, breach.state);
+  }
+
   private async handlePartialRefund(order: any, amount: number) {
     // Implementation for handling partial refund logic
   }
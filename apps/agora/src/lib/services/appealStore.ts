@@ -0,0 +1,149 @@
+import { supabase } from '$lib/supabaseClient';
+import {
+  AppealConflictError,
+  type AppealEvent,
+  type AppealFilter,
+  type AppealRecord,
+  type AppealStore
+} from '@lena/moderation';
+
+/**
+ * Appeals against dispute resolutions, in `dispute_appeals`, with their
+ * audit trail in `dispute_appeal_events`.
+ */
+export class SupabaseAppealStore implements AppealStore {
+  async create(appeal: AppealRecord): Promise<void> {
+    const { error } = await supabase
+      .from('dispute_appeals')
+      .insert([{ id: appeal.id, ...toRow(appeal) }]);
+
+    if (error) throw error;
+  }
+
+  async get(id: string): Promise<AppealRecord | null> {
+    const { data, error } = await supabase
+      .from('dispute_appeals')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromRow(data) : null;
+  }
+
+  async update(appeal: AppealRecord, expectedVersion: number): Promise<void> {
+    const { data, error } = await supabase
+      .from('dispute_appeals')
+      .update(toRow(appeal))
+      .eq('id', appeal.id)
+      .eq('version', expectedVersion)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) throw new AppealConflictError(appeal.id);
+  }
+
+  async list(filter: AppealFilter = {}): Promise<AppealRecord[]> {
+    let request = supabase
+      .from('dispute_appeals')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (filter.states) request = request.in('state', filter.states);
+    if (filter.subjectId) request = request.eq('dispute_id', filter.subjectId);
+    if (filter.appellantId) request = request.eq('appellant_id', filter.appellantId);
+    if (filter.assigneeId) request = request.eq('assignee_id', filter.assigneeId);
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return data.map(fromRow);
+  }
+
+  async appendEvent(event: AppealEvent): Promise<void> {
+    const { error } = await supabase
+      .from('dispute_appeal_events')
+      .insert([{
+        id: event.id,
+        appeal_id: event.appealId,
+        type: event.type,
+        from_state: event.from,
+        to_state: event.to,
+        actor_id: event.actorId,
+        details: event.details,
+        created_at: event.at.toISOString()
+      }]);
+
+    if (error) throw error;
+  }
+
+  async events(appealId: string): Promise<AppealEvent[]> {
+    const { data, error } = await supabase
+      .from('dispute_appeal_events')
+      .select('*')
+      .eq('appeal_id', appealId)
+      .order('seq', { ascending: true });
+
+    if (error) throw error;
+    return data.map(row => ({
+      id: row.id,
+      appealId: row.appeal_id,
+      type: row.type,
+      from: row.from_state ?? undefined,
+      to: row.to_state ?? undefined,
+      actorId: row.actor_id ?? undefined,
+      at: new Date(row.created_at),
+      details: row.details ?? undefined
+    }));
+  }
+}
+
+function toRow(appeal: AppealRecord) {
+  return {
+    dispute_id: appeal.subjectId,
+    appellant_id: appeal.appellantId,
+    reason: appeal.reason,
+    evidence: appeal.evidence ?? null,
+    state: appeal.state,
+    priority: appeal.priority,
+    skills: appeal.skills,
+    conflicted_ids: appeal.conflictedIds,
+    assignee_id: appeal.assigneeId ?? null,
+    level: appeal.level,
+    decision: appeal.decision ?? null,
+    decision_reason: appeal.decisionReason ?? null,
+    decided_by: appeal.decidedBy ?? null,
+    escalation_reason: appeal.escalationReason ?? null,
+    state_entered_at: appeal.stateEnteredAt.toISOString(),
+    deadline_at: appeal.deadlineAt?.toISOString() ?? null,
+    breached_at: appeal.breachedAt?.toISOString() ?? null,
+    created_at: appeal.createdAt.toISOString(),
+    updated_at: appeal.updatedAt.toISOString(),
+    version: appeal.version
+  };
+}
+
+function fromRow(row: any): AppealRecord {
+  return {
+    id: row.id,
+    subjectId: row.dispute_id,
+    appellantId: row.appellant_id,
+    reason: row.reason,
+    evidence: row.evidence ?? undefined,
+    state: row.state,
+    priority: row.priority,
+    skills: row.skills ?? [],
+    conflictedIds: row.conflicted_ids ?? [],
+    assigneeId: row.assignee_id ?? undefined,
+    level: row.level,
+    decision: row.decision ?? undefined,
+    decisionReason: row.decision_reason ?? undefined,
+    decidedBy: row.decided_by ?? undefined,
+    escalationReason: row.escalation_reason ?? undefined,
+    stateEnteredAt: new Date(row.state_entered_at),
+    deadlineAt: row.deadline_at ? new Date(row.deadline_at) : undefined,
+    breachedAt: row.breached_at ? new Date(row.breached_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    version: row.version
+  };
+}
@@ -0,0 +1,123 @@
+-- Appeals against dispute resolutions
+CREATE TABLE dispute_appeals (
+  id UUID PRIMARY KEY,
+  dispute_id UUID NOT NULL REFERENCES marketplace_disputes(id) ON DELETE CASCADE,
+  appellant_id UUID NOT NULL REFERENCES auth.users(id),
+  reason TEXT NOT NULL,
+  evidence JSONB,
+  state TEXT NOT NULL DEFAULT 'submitted' CHECK (state IN ('submitted', 'triaged', 'in_review', 'decided', 'escalated', 'final')),
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+  skills TEXT[] DEFAULT '{}',
+  conflicted_ids TEXT[] DEFAULT '{}',
+  assignee_id UUID REFERENCES auth.users(id),
+  level INTEGER NOT NULL DEFAULT 1 CHECK (level IN (1, 2)),
+  decision TEXT CHECK (decision IN ('approved', 'denied')),
+  decision_reason TEXT,
+  decided_by UUID REFERENCES auth.users(id),
+  escalation_reason TEXT,
+  state_entered_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  deadline_at TIMESTAMP WITH TIME ZONE,
+  breached_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  version INTEGER NOT NULL DEFAULT 1
+);
+
+-- Append-only audit trail
+CREATE TABLE dispute_appeal_events (
+  seq BIGSERIAL PRIMARY KEY,
+  id UUID NOT NULL UNIQUE,
+  appeal_id UUID NOT NULL REFERENCES dispute_appeals(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('submitted', 'transition', 'assigned', 'sla_breach', 'note')),
+  from_state TEXT,
+  to_state TEXT,
+  actor_id UUID,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE dispute_appeal_reviewers (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  skills TEXT[] DEFAULT '{}',
+  level INTEGER NOT NULL DEFAULT 1 CHECK (level IN (1, 2)),
+  active BOOLEAN DEFAULT true,
+  max_load INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE marketplace_disputes ADD COLUMN IF NOT EXISTS appeal_id UUID REFERENCES dispute_appeals(id);
+ALTER TABLE marketplace_disputes ADD COLUMN IF NOT EXISTS appeal_reason TEXT;
+ALTER TABLE marketplace_disputes ADD COLUMN IF NOT EXISTS appeal_evidence JSONB;
+ALTER TABLE marketplace_disputes ADD COLUMN IF NOT EXISTS appealed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create indexes
+CREATE INDEX idx_dispute_appeals_dispute ON dispute_appeals(dispute_id);
+CREATE INDEX idx_dispute_appeals_state ON dispute_appeals(state, deadline_at);
+CREATE INDEX idx_dispute_appeals_assignee ON dispute_appeals(assignee_id) WHERE assignee_id IS NOT NULL;
+CREATE INDEX idx_dispute_appeal_events_appeal ON dispute_appeal_events(appeal_id, seq);
+
+ALTER TABLE dispute_appeals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_appeal_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_appeal_reviewers ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Allow appellants and reviewers to view appeals"
+  ON dispute_appeals FOR SELECT
+  TO authenticated
+  USING (
+    appellant_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM dispute_appeal_reviewers WHERE user_id = auth.uid() AND active)
+  );
+
+CREATE POLICY "Allow dispute parties to appeal"
+  ON dispute_appeals FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    appellant_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM marketplace_disputes
+      WHERE id = dispute_id
+      AND (initiator_id = auth.uid() OR respondent_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Allow appellants and reviewers to update appeals"
+  ON dispute_appeals FOR UPDATE
+  TO authenticated
+  USING (
+    appellant_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM dispute_appeal_reviewers WHERE user_id = auth.uid() AND active)
+  );
+
+CREATE POLICY "Allow appellants and reviewers to view appeal events"
+  ON dispute_appeal_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM dispute_appeals a
+      WHERE a.id = appeal_id
+      AND (
+        a.appellant_id = auth.uid()
+        OR EXISTS (SELECT 1 FROM dispute_appeal_reviewers WHERE user_id = auth.uid() AND active)
+      )
+    )
+  );
+
+CREATE POLICY "Allow appellants and reviewers to record appeal events"
+  ON dispute_appeal_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM dispute_appeals a
+      WHERE a.id = appeal_id
+      AND (
+        a.appellant_id = auth.uid()
+        OR EXISTS (SELECT 1 FROM dispute_appeal_reviewers WHERE user_id = auth.uid() AND active)
+      )
+    )
+  );
+
+CREATE POLICY "Allow authenticated read access to appeal reviewers"
+  ON dispute_appeal_reviewers FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,4 @@
+import { feedSyncService } from '$lib/services/podcast/FeedSyncService';
+
+// Imported shows are re-polled for the life of the server, whether or not their creators are online
+feedSyncService.startPolling();
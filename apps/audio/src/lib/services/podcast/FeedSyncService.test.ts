@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FeedSyncService } from './FeedSyncService';
+
+type Row = Record<string, any>;
+
+// Just enough of the Supabase query builder for podcast and episode rows
+const db = vi.hoisted(() => {
+  const tables = new Map<string, Row[]>();
+  let nextId = 0;
+
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let changes: Row | undefined;
+    let inserted: Row[] | undefined;
+
+    const rows = () => (tables.get(table) ?? []).filter(row => filters.every(filter => filter(row)));
+    const run = () => {
+      if (inserted) {
+        tables.set(table, [...(tables.get(table) ?? []), ...inserted]);
+        return inserted;
+      }
+      const matched = rows();
+      if (changes) matched.forEach(row => Object.assign(row, changes));
+      return matched;
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      not: (column: string) => {
+        filters.push(row => row[column] != null);
+        return builder;
+      },
+      insert: (values: Row | Row[]) => {
+        inserted = [values].flat().map(row => ({ id: `${table}-${++nextId}`, ...row }));
+        return builder;
+      },
+      update: (values: Row) => {
+        changes = values;
+        return builder;
+      },
+      single: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: run(), error: null })
+    };
+    return builder;
+  };
+
+  return { tables, supabase: { from } };
+});
+
+vi.mock('$lib/supabaseClient', () => ({ supabase: db.supabase }));
+
+const FEED_URL = 'https://feeds.test/fieldnotes.xml';
+
+const feed = (items: string[], channel = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+<channel>
+  <title>Field Notes</title>
+  <description>Recordings from the field</description>
+  ${channel}
+  ${items.join('\n')}
+</channel>
+</rss>`;
+
+const item = (guid: string, title: string) => `<item>
+  <guid>${guid}</guid>
+  <title>${title}</title>
+  <enclosure url="https://cdn.test/${guid}.mp3" type="audio/mpeg"/>
+  <itunes:duration>60</itunes:duration>
+</item>`;
+
+const response = (body: string, init: ResponseInit = {}) => new Response(init.status === 304 ? null : body, init);
+
+describe('FeedSyncService', () => {
+  let feeds: FeedSyncService;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    db.tables.clear();
+    feeds = new FeedSyncService();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  const episodes = () => db.tables.get('episodes') ?? [];
+
+  it('imports a show and its episodes from a feed URL', async () => {
+    fetchMock.mockResolvedValueOnce(response(feed([item('ep-1', 'First'), item('ep-2', 'Second')]), {
+      headers: { ETag: '"v1"', 'Last-Modified': 'Tue, 02 Apr 2024 05:00:00 GMT' }
+    }));
+
+    const podcast = await feeds.importFeed('creator-1', { feedUrl: FEED_URL });
+
+    expect(podcast).toMatchObject({
+      creator_id: 'creator-1',
+      title: 'Field Notes',
+      status: 'published',
+      guid: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      source: { feedUrl: FEED_URL, etag: '"v1"', lastModified: 'Tue, 02 Apr 2024 05:00:00 GMT' }
+    });
+    expect(episodes().map(episode => [episode.podcast_id, episode.guid, episode.title])).toEqual([
+      [podcast.id, 'ep-1', 'First'],
+      [podcast.id, 'ep-2', 'Second']
+    ]);
+  });
+
+  it('imports feed files, polling them only when they name their own URL', async () => {
+    const withoutUrl = await feeds.importFeed('creator-1', { content: feed([item('ep-1', 'First')]) });
+    const withUrl = await feeds.importFeed('creator-1', {
+      content: feed([], `<itunes:new-feed-url>${FEED_URL}</itunes:new-feed-url>`)
+    });
+
+    expect(withoutUrl.source).toBeUndefined();
+    expect(withUrl.source).toEqual({ feedUrl: FEED_URL });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses feeds their owner has locked', async () => {
+    await expect(
+      feeds.importFeed('creator-1', { content: feed([], '<podcast:locked>yes</podcast:locked>') })
+    ).rejects.toThrow('locked');
+    expect(db.tables.get('podcasts')).toBeUndefined();
+  });
+
+  it('adds new episodes and updates changed ones, keeping the creator\'s status', async () => {
+    fetchMock.mockResolvedValueOnce(response(feed([item('ep-1', 'First')]), { headers: { ETag: '"v1"' } }));
+    const podcast = await feeds.importFeed('creator-1', { feedUrl: FEED_URL });
+    episodes()[0].status = 'archived';
+
+    fetchMock.mockResolvedValueOnce(response(feed([item('ep-1', 'First, remastered'), item('ep-2', 'Second')]), {
+      headers: { ETag: '"v2"' }
+    }));
+    const result = await feeds.syncFeed(podcast.id);
+
+    expect(fetchMock).toHaveBeenLastCalledWith(FEED_URL, { headers: { 'If-None-Match': '"v1"' } });
+    expect(result).toEqual({ changed: true, added: 1, updated: 1 });
+    expect(episodes().map(({ title, status }) => [title, status])).toEqual([
+      ['First, remastered', 'archived'],
+      ['Second', 'published']
+    ]);
+    expect(db.tables.get('podcasts')![0].source.etag).toBe('"v2"');
+  });
+
+  it('only records the poll when the feed is unchanged', async () => {
+    fetchMock.mockResolvedValueOnce(response(feed([item('ep-1', 'First')]), { headers: { ETag: '"v1"' } }));
+    const podcast = await feeds.importFeed('creator-1', { feedUrl: FEED_URL });
+
+    fetchMock.mockResolvedValueOnce(response('', { status: 304 }));
+    const result = await feeds.syncFeed(podcast.id);
+
+    expect(result).toEqual({ changed: false, added: 0, updated: 0 });
+    expect(db.tables.get('podcasts')![0].source).toMatchObject({ etag: '"v1"', lastPolledAt: expect.any(String) });
+    expect(episodes()).toHaveLength(1);
+  });
+
+  it('follows a feed that has moved', async () => {
+    fetchMock.mockResolvedValueOnce(response(feed([item('ep-1', 'First')]), { headers: { ETag: '"v1"' } }));
+    const podcast = await feeds.importFeed('creator-1', { feedUrl: FEED_URL });
+
+    const movedTo = 'https://new-host.test/feed.xml';
+    fetchMock.mockResolvedValueOnce(response(feed(
+      [item('ep-1', 'First')],
+      `<itunes:new-feed-url>${movedTo}</itunes:new-feed-url>`
+    ), { headers: { ETag: '"v2"' } }));
+    await feeds.syncFeed(podcast.id);
+
+    expect(db.tables.get('podcasts')![0].source).toEqual({ feedUrl: movedTo, lastPolledAt: expect.any(String) });
+  });
+
+  it('keeps polling the other feeds when one fails', async () => {
+    fetchMock.mockResolvedValueOnce(response(feed([item('a-1', 'A')])));
+    await feeds.importFeed('creator-1', { feedUrl: 'https://a.test/feed.xml' });
+    fetchMock.mockResolvedValueOnce(response(feed([item('b-1', 'B')])));
+    await feeds.importFeed('creator-1', { feedUrl: 'https://b.test/feed.xml' });
+    await feeds.importFeed('creator-1', { content: feed([item('c-1', 'C')]) });
+
+    fetchMock
+      .mockResolvedValueOnce(response('Service Unavailable', { status: 503 }))
+      .mockResolvedValueOnce(response(feed([item('b-1', 'B'), item('b-2', 'B again')])));
+    await feeds.syncAll();
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(episodes().map(episode => episode.guid)).toEqual(['a-1', 'b-1', 'c-1', 'b-2']);
+  });
+});
@@ -0,0 +1,284 @@
+import { JSDOM } from 'jsdom';
+import { supabase } from '$lib/supabaseClient';
+import type { Chapter, Episode, FeedSource, FeedSyncResult, Podcast } from './PodcastService';
+import { fromJsonChapters, parseFeed, podcastGuid, type JsonChapters, type ParsedFeed } from './feed';
+
+const DEFAULT_POLL_INTERVAL = 30 * 60 * 1000;
+
+export type FeedImportInput = { feedUrl: string } | { content: string };
+
+/**
+ * Imports shows from external RSS feeds and keeps them in step with their
+ * source. Runs on the server: podcast hosts rarely send CORS headers, and
+ * polling must carry on whether or not the creator has the app open.
+ */
+export class FeedSyncService {
+  private domParser?: DOMParser;
+  private poll?: ReturnType<typeof setInterval>;
+  private polling?: Promise<void>;
+
+  /**
+   * Import a show from its feed URL or the contents of an exported feed
+   * file. Shows imported by URL, or from a file naming its own URL, are
+   * picked up by polling.
+   */
+  async importFeed(creatorId: string, input: FeedImportInput): Promise<Podcast> {
+    try {
+      let feed: ParsedFeed;
+      let source: FeedSource | undefined;
+
+      if ('feedUrl' in input) {
+        ({ feed, source } = (await this.fetchFeed({ feedUrl: input.feedUrl }))!);
+      } else {
+        feed = parseFeed(input.content, this.parser());
+        const feedUrl = feed.newFeedUrl ?? feed.selfUrl;
+        source = feedUrl ? { feedUrl } : undefined;
+      }
+
+      if (feed.podcast.locked) {
+        throw new Error('This feed is locked against importing by its owner');
+      }
+
+      const { data: podcast, error } = await supabase
+        .from('podcasts')
+        .insert({
+          creator_id: creatorId,
+          ...feed.podcast,
+          guid: feed.podcast.guid ?? (source ? await podcastGuid(source.feedUrl) : undefined),
+          source,
+          status: 'published',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await this.syncEpisodes(podcast.id, feed.episodes);
+      return podcast;
+    } catch (error) {
+      console.error('Failed to import feed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-fetch an imported show's feed, skipping the work when the server
+   * reports it unchanged
+   */
+  async syncFeed(podcastId: string): Promise<FeedSyncResult> {
+    try {
+      const { data: podcast, error } = await supabase
+        .from('podcasts')
+        .select('*')
+        .eq('id', podcastId)
+        .single();
+
+      if (error) throw error;
+      if (!podcast.source) throw new Error('Podcast was not imported from a feed');
+
+      const fetched = await this.fetchFeed(podcast.source);
+      if (!fetched) {
+        await this.updateFeedSource(podcastId, {
+          ...podcast.source,
+          lastPolledAt: new Date().toISOString()
+        });
+        return { changed: false, added: 0, updated: 0 };
+      }
+
+      const { feed, source } = fetched;
+      const { error: updateError } = await supabase
+        .from('podcasts')
+        .update({
+          ...feed.podcast,
+          // Keep the guid from import if the feed doesn't declare one
+          guid: feed.podcast.guid ?? podcast.guid,
+          source,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', podcastId);
+
+      if (updateError) throw updateError;
+
+      const counts = await this.syncEpisodes(podcastId, feed.episodes);
+      return { changed: true, ...counts };
+    } catch (error) {
+      console.error('Failed to sync feed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync every imported show, one feed at a time. A feed that fails is
+   * logged and retried on the next run.
+   */
+  async syncAll(): Promise<void> {
+    const { data: podcasts, error } = await supabase
+      .from('podcasts')
+      .select('id')
+      .not('source', 'is', null);
+
+    if (error) throw error;
+
+    for (const { id } of podcasts as Array<{ id: string }>) {
+      await this.syncFeed(id).catch(() => {});
+    }
+  }
+
+  startPolling(intervalMs: number = DEFAULT_POLL_INTERVAL): void {
+    if (this.poll) return;
+
+    this.poll = setInterval(() => {
+      // Skip a tick rather than overlap a run that's still going
+      this.polling ??= this.syncAll()
+        .catch(error => console.error('Failed to poll podcast feeds:', error))
+        .finally(() => {
+          this.polling = undefined;
+        });
+    }, intervalMs);
+  }
+
+  stopPolling(): void {
+    clearInterval(this.poll);
+    this.poll = undefined;
+  }
+
+  /**
+   * Fetch and parse a feed with conditional request headers. Returns null
+   * when the server answers 304 Not Modified.
+   */
+  private async fetchFeed(source: FeedSource): Promise<{ feed: ParsedFeed; source: FeedSource } | null> {
+    const headers: Record<string, string> = {};
+    if (source.etag) headers['If-None-Match'] = source.etag;
+    if (source.lastModified) headers['If-Modified-Since'] = source.lastModified;
+
+    const response = await fetch(source.feedUrl, { headers });
+    if (response.status === 304) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch feed: ${response.status} ${response.statusText}`);
+    }
+
+    const feed = parseFeed(await response.text(), this.parser());
+    const lastPolledAt = new Date().toISOString();
+
+    // A moved feed is polled at its new address from now on, without the old validators
+    if (feed.newFeedUrl && feed.newFeedUrl !== source.feedUrl) {
+      return { feed, source: { feedUrl: feed.newFeedUrl, lastPolledAt } };
+    }
+
+    return {
+      feed,
+      source: {
+        feedUrl: source.feedUrl,
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+        lastPolledAt
+      }
+    };
+  }
+
+  /**
+   * Insert new feed items and update changed ones, matching on guid.
+   * Episodes that drop out of the feed are kept, since many feeds only
+   * list their most recent items.
+   */
+  private async syncEpisodes(
+    podcastId: string,
+    items: ParsedFeed['episodes']
+  ): Promise<{ added: number; updated: number }> {
+    const { data: existing, error } = await supabase
+      .from('episodes')
+      .select('*')
+      .eq('podcast_id', podcastId);
+
+    if (error) throw error;
+
+    const byGuid = new Map<string, Episode>(
+      (existing as Episode[]).filter(episode => episode.guid).map(episode => [episode.guid!, episode])
+    );
+    const inserts: Array<Record<string, unknown>> = [];
+    let updated = 0;
+
+    for (const item of items) {
+      const current = byGuid.get(item.guid);
+      const chapters = item.chaptersUrl && item.chaptersUrl !== current?.chaptersUrl
+        ? await this.fetchChapters(item.chaptersUrl, item.duration ?? 0)
+        : undefined;
+
+      if (!current) {
+        inserts.push({
+          podcast_id: podcastId,
+          ...item,
+          chapters,
+          created_at: new Date().toISOString()
+        });
+        continue;
+      }
+
+      if (!chapters && !this.episodeChanged(current, item)) continue;
+
+      // Status is left alone so creators can archive imported episodes
+      const { status: _, transcript, ...fields } = item;
+      const { error: updateError } = await supabase
+        .from('episodes')
+        .update({
+          ...fields,
+          ...(chapters ? { chapters } : {}),
+          ...(transcript?.url !== current.transcript?.url ? { transcript } : {}),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', current.id);
+
+      if (updateError) throw updateError;
+      updated++;
+    }
+
+    // Insert in batches to stay under request size limits on large back catalogues
+    const batchSize = 100;
+    for (let i = 0; i < inserts.length; i += batchSize) {
+      const { error: insertError } = await supabase
+        .from('episodes')
+        .insert(inserts.slice(i, i + batchSize));
+
+      if (insertError) throw insertError;
+    }
+
+    return { added: inserts.length, updated };
+  }
+
+  private episodeChanged(current: Episode, item: ParsedFeed['episodes'][number]): boolean {
+    const fields = ['title', 'description', 'audioUrl', 'duration', 'coverUrl', 'season', 'episode', 'type', 'explicit', 'publishDate'] as const;
+    return (
+      fields.some(field => item[field] !== undefined && item[field] !== current[field]) ||
+      item.transcript?.url !== current.transcript?.url
+    );
+  }
+
+  private async fetchChapters(url: string, duration: number): Promise<Chapter[] | undefined> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      return fromJsonChapters((await response.json()) as JsonChapters, duration);
+    } catch (error) {
+      // A broken chapters file shouldn't stop the episode being imported
+      console.error(`Failed to fetch chapters from ${url}:`, error);
+      return undefined;
+    }
+  }
+
+  private async updateFeedSource(podcastId: string, source: FeedSource): Promise<void> {
+    const { error } = await supabase
+      .from('podcasts')
+      .update({ source })
+      .eq('id', podcastId);
+
+    if (error) throw error;
+  }
+
+  private parser(): DOMParser {
+    this.domParser ??= new (new JSDOM().window.DOMParser)();
+    return this.domParser;
+  }
+}
+
+export const feedSyncService = new FeedSyncService();
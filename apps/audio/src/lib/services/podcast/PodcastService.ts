@@ -2,8 +2,12 @@ import { browser } from '$app/environment';
 import { writable, derived } from 'svelte/store';
 import { supabase } from '$lib/supabaseClient';
 import { userProfileService } from '../profile/UserProfileService';
+import { generateFeed, podcastGuid, toJsonChapters } from './feed';
 
-interface Podcast {
+// Public bucket for feeds and JSON chapters, read directly by podcast apps
+const FEED_BUCKET = 'podcast-feeds';
+
+export interface Podcast {
   id: string;
   creatorId: string;
   title: string;
@@ -23,17 +27,26 @@ interface Podcast {
   };
   stats: PodcastStats;
   settings: PodcastSettings;
+  // Podcasting 2.0 feed identity and import lock
+  guid?: string;
+  locked?: boolean;
+  // Set for shows imported from an external feed
+  source?: FeedSource;
   status: 'draft' | 'published' | 'archived';
   createdAt: string;
   updatedAt: string;
 }
 
-interface Episode {
+export interface Episode {
   id: string;
   podcastId: string;
+  // Feed item guid; imported episodes keep their original one
+  guid?: string;
   title: string;
   description: string;
   audioUrl: string;
+  enclosureType?: string;
+  enclosureLength?: number;
   duration: number;
   coverUrl?: string;
   season?: number;
@@ -43,13 +56,14 @@ interface Episode {
   publishDate: string;
   stats: EpisodeStats;
   chapters?: Chapter[];
+  chaptersUrl?: string;
   transcript?: Transcript;
   status: 'draft' | 'scheduled' | 'published' | 'archived';
   createdAt: string;
   updatedAt: string;
 }
 
-interface Chapter {
+export interface Chapter {
   id: string;
   title: string;
   startTime: number;
@@ -58,7 +72,7 @@ interface Chapter {
   url?: string;
 }
 
-interface Transcript {
+export interface Transcript {
   id: string;
   language: string;
   format: 'srt' | 'vtt' | 'json';
@@ -72,6 +86,20 @@ interface Transcript {
   isAutoGenerated: boolean;
 }
 
+export interface FeedSource {
+  feedUrl: string;
+  // Validators from the last fetch, for conditional requests
+  etag?: string;
+  lastModified?: string;
+  lastPolledAt?: string;
+}
+
+export interface FeedSyncResult {
+  changed: boolean;
+  added: number;
+  updated: number;
+}
+
 interface PodcastStats {
   subscribers: number;
   totalListens: number;
@@ -462,20 +490,33 @@ export class PodcastService {
   }
 
   // Chapters and Transcripts
-  async updateChapters(episodeId: string, chapters: Chapter[]): Promise<void> {
+  /**
+   * Save chapters and publish them as a Podcasting 2.0 JSON chapters file
+   * for the feed's podcast:chapters tag. Returns the file's URL.
+   */
+  async updateChapters(episodeId: string, chapters: Chapter[]): Promise<string> {
     try {
       this.loading.set(true);
       this.error.set(null);
 
+      const chaptersUrl = await this.uploadFeedFile(
+        `episodes/${episodeId}/chapters.json`,
+        JSON.stringify(toJsonChapters(chapters)),
+        'application/json+chapters'
+      );
+
       const { error } = await supabase
         .from('episodes')
         .update({
           chapters,
+          chaptersUrl,
           updated_at: new Date().toISOString()
         })
         .eq('id', episodeId);
 
       if (error) throw error;
+
+      return chaptersUrl;
     } catch (error) {
       console.error('Failed to update chapters:', error);
       this.error.set('Failed to update chapters');
@@ -508,6 +549,148 @@ export class PodcastService {
     }
   }
 
+  // Feed Publishing
+  async generateFeed(podcastId: string): Promise<string> {
+    const { podcast, episodes } = await this.fetchPodcastWithEpisodes(podcastId);
+    return generateFeed(podcast, episodes, {
+      feedUrl: this.feedUrl(podcastId),
+      ownerName: this.ownerName(podcast)
+    });
+  }
+
+  /**
+   * Write the podcast's RSS feed to public storage and return its URL, the
+   * address to submit to Apple Podcasts, Spotify and podcast indexes
+   */
+  async publishFeed(podcastId: string): Promise<string> {
+    try {
+      this.loading.set(true);
+      this.error.set(null);
+
+      const feedUrl = this.feedUrl(podcastId);
+      const { podcast, episodes } = await this.fetchPodcastWithEpisodes(podcastId);
+
+      // The guid must stay the same even if the feed later moves
+      if (!podcast.guid) {
+        podcast.guid = await podcastGuid(feedUrl);
+        const { error } = await supabase
+          .from('podcasts')
+          .update({ guid: podcast.guid })
+          .eq('id', podcastId);
+
+        if (error) throw error;
+      }
+
+      const feed = generateFeed(podcast, episodes, { feedUrl, ownerName: this.ownerName(podcast) });
+      return await this.uploadFeedFile(`podcasts/${podcastId}/feed.xml`, feed, 'application/rss+xml');
+    } catch (error) {
+      console.error('Failed to publish feed:', error);
+      this.error.set('Failed to publish feed');
+      throw error;
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  // Feed Import
+  /**
+   * Import a show from its feed URL or an exported feed file. The feed is
+   * fetched and kept in sync by the server; see FeedSyncService.
+   */
+  async importFeed(input: string | File): Promise<Podcast> {
+    try {
+      this.loading.set(true);
+      this.error.set(null);
+
+      const body = typeof input === 'string' ? { feedUrl: input } : { content: await input.text() };
+      const podcast = await this.feedRequest<Podcast>('/api/podcasts/import', body);
+
+      this.podcasts.update(podcasts => ({ ...podcasts, [podcast.id]: podcast }));
+      return podcast;
+    } catch (error) {
+      console.error('Failed to import feed:', error);
+      this.error.set('Failed to import feed');
+      throw error;
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  /**
+   * Ask the server to re-fetch an imported show's feed now rather than
+   * waiting for the next poll
+   */
+  async syncFeed(podcastId: string): Promise<FeedSyncResult> {
+    try {
+      return await this.feedRequest<FeedSyncResult>(`/api/podcasts/${podcastId}/sync`);
+    } catch (error) {
+      console.error('Failed to sync feed:', error);
+      throw error;
+    }
+  }
+
+  private async feedRequest<T>(path: string, body?: unknown): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('User not authenticated');
+
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error ?? `${response.status} ${response.statusText}`);
+    return result;
+  }
+
+  private async fetchPodcastWithEpisodes(podcastId: string): Promise<{ podcast: Podcast; episodes: Episode[] }> {
+    const { data: podcast, error } = await supabase
+      .from('podcasts')
+      .select('*')
+      .eq('id', podcastId)
+      .single();
+
+    if (error) throw error;
+
+    const { data: episodes, error: episodesError } = await supabase
+      .from('episodes')
+      .select('*')
+      .eq('podcast_id', podcastId)
+      .order('publish_date', { ascending: false });
+
+    if (episodesError) throw episodesError;
+
+    return { podcast, episodes };
+  }
+
+  private feedUrl(podcastId: string): string {
+    return supabase.storage.from(FEED_BUCKET).getPublicUrl(`podcasts/${podcastId}/feed.xml`).data.publicUrl;
+  }
+
+  private ownerName(podcast: Podcast): string | undefined {
+    const profile = userProfileService.getProfile();
+    return profile?.id === podcast.creatorId ? profile.displayName : undefined;
+  }
+
+  private async uploadFeedFile(path: string, content: string, contentType: string): Promise<string> {
+    const { error } = await supabase.storage
+      .from(FEED_BUCKET)
+      .upload(path, new Blob([content], { type: contentType }), {
+        contentType,
+        upsert: true,
+        // Podcast apps poll often; keep edits visible within minutes
+        cacheControl: '300'
+      });
+
+    if (error) throw error;
+
+    return supabase.storage.from(FEED_BUCKET).getPublicUrl(path).data.publicUrl;
+  }
+
   // Analytics
   async trackListen(episodeId: string, data: {
     duration: number;
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { fromJsonChapters, generateFeed, parseDuration, parseFeed, podcastGuid, toJsonChapters } from './feed';
+import type { Episode, Podcast } from './PodcastService';
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">
+<channel>
+  <title>Field Notes</title>
+  <link>https://fieldnotes.test</link>
+  <atom:link href="https://feeds.test/fieldnotes.xml" rel="self" type="application/rss+xml"/>
+  <description>Recordings from the field</description>
+  <language>en-gb</language>
+  <itunes:image href="https://fieldnotes.test/cover.jpg"/>
+  <itunes:category text="Science"><itunes:category text="Nature"/></itunes:category>
+  <itunes:explicit>no</itunes:explicit>
+  <itunes:keywords>birds, recording</itunes:keywords>
+  <itunes:owner><itunes:name>Ada</itunes:name><itunes:email>ada@fieldnotes.test</itunes:email></itunes:owner>
+  <podcast:guid>4ac1e2a4-1cd9-5a5e-8f9b-5ee1d7c4e2f0</podcast:guid>
+  <podcast:locked>no</podcast:locked>
+  <item>
+    <title>Dawn chorus</title>
+    <description>Recorded at 4am</description>
+    <guid isPermaLink="false">episode-2</guid>
+    <pubDate>Tue, 02 Apr 2024 05:00:00 GMT</pubDate>
+    <enclosure url="https://cdn.test/dawn.m4a" length="2048" type="audio/x-m4a"/>
+    <itunes:duration>1:02:03</itunes:duration>
+    <itunes:season>1</itunes:season>
+    <itunes:episode>2</itunes:episode>
+    <itunes:explicit>yes</itunes:explicit>
+    <podcast:chapters url="https://cdn.test/dawn.json" type="application/json+chapters"/>
+    <podcast:transcript url="https://cdn.test/dawn.json" type="application/json"/>
+    <podcast:transcript url="https://cdn.test/dawn.vtt" type="text/vtt" language="en" rel="captions"/>
+  </item>
+  <item>
+    <title>Show notes only</title>
+  </item>
+  <item>
+    <title>Trailer</title>
+    <enclosure url="https://cdn.test/trailer.mp3" type="audio/mpeg"/>
+    <itunes:episodeType>trailer</itunes:episodeType>
+    <itunes:duration>95</itunes:duration>
+  </item>
+</channel>
+</rss>`;
+
+const parser = new (new JSDOM().window.DOMParser)();
+
+describe('podcast feeds', () => {
+  it('parses channel and episode fields, skipping items without an enclosure', () => {
+    const feed = parseFeed(FEED, parser);
+
+    expect(feed.podcast).toMatchObject({
+      title: 'Field Notes',
+      description: 'Recordings from the field',
+      coverUrl: 'https://fieldnotes.test/cover.jpg',
+      category: 'Science > Nature',
+      language: 'en-gb',
+      explicit: false,
+      tags: ['birds', 'recording'],
+      website: 'https://fieldnotes.test',
+      email: 'ada@fieldnotes.test',
+      guid: '4ac1e2a4-1cd9-5a5e-8f9b-5ee1d7c4e2f0',
+      locked: false
+    });
+    expect(feed.selfUrl).toBe('https://feeds.test/fieldnotes.xml');
+    expect(feed.newFeedUrl).toBeUndefined();
+
+    expect(feed.episodes).toHaveLength(2);
+    expect(feed.episodes[0]).toMatchObject({
+      guid: 'episode-2',
+      title: 'Dawn chorus',
+      audioUrl: 'https://cdn.test/dawn.m4a',
+      enclosureType: 'audio/x-m4a',
+      enclosureLength: 2048,
+      duration: 3723,
+      season: 1,
+      episode: 2,
+      type: 'full',
+      explicit: true,
+      publishDate: '2024-04-02T05:00:00.000Z',
+      chaptersUrl: 'https://cdn.test/dawn.json',
+      transcript: { format: 'vtt', language: 'en', url: 'https://cdn.test/dawn.vtt' }
+    });
+    // Items without a guid are keyed by their enclosure
+    expect(feed.episodes[1]).toMatchObject({ guid: 'https://cdn.test/trailer.mp3', type: 'trailer', duration: 95 });
+  });
+
+  it('rejects documents that are not RSS', () => {
+    expect(() => parseFeed('<html><body>Not a feed</body></html>', parser)).toThrow('Invalid RSS feed');
+    expect(() => parseFeed('<rss><channel>', parser)).toThrow('Invalid RSS feed');
+  });
+
+  it('reads back the feeds it generates', () => {
+    const podcast = {
+      id: 'podcast-1',
+      title: 'Field Notes & Friends',
+      description: 'Recordings <from> the field',
+      coverUrl: 'https://fieldnotes.test/cover.jpg',
+      category: 'Science > Nature',
+      language: 'en',
+      explicit: false,
+      tags: [],
+      email: 'ada@fieldnotes.test',
+      guid: '4ac1e2a4-1cd9-5a5e-8f9b-5ee1d7c4e2f0',
+      locked: true
+    } as unknown as Podcast;
+    const episode = (fields: Partial<Episode>) => ({
+      id: 'episode',
+      podcastId: 'podcast-1',
+      title: 'Dawn chorus',
+      description: 'Recorded at 4am',
+      audioUrl: 'https://cdn.test/dawn.mp3',
+      duration: 600,
+      type: 'full',
+      explicit: false,
+      publishDate: '2024-04-02T05:00:00.000Z',
+      status: 'published',
+      ...fields
+    }) as Episode;
+
+    const xml = generateFeed(podcast, [
+      episode({ id: 'published', season: 1, episode: 1, chaptersUrl: 'https://cdn.test/dawn.json' }),
+      episode({ id: 'draft', status: 'draft' }),
+      episode({ id: 'future', publishDate: new Date(Date.now() + 86_400_000).toISOString() })
+    ], { feedUrl: 'https://feeds.test/fieldnotes.xml', ownerName: 'Ada' });
+
+    const feed = parseFeed(xml, parser);
+    expect(feed.podcast).toMatchObject({
+      title: 'Field Notes & Friends',
+      description: 'Recordings <from> the field',
+      category: 'Science > Nature',
+      guid: podcast.guid,
+      locked: true
+    });
+    expect(feed.selfUrl).toBe('https://feeds.test/fieldnotes.xml');
+    expect(feed.episodes).toEqual([
+      expect.objectContaining({
+        guid: 'published',
+        audioUrl: 'https://cdn.test/dawn.mp3',
+        enclosureType: 'audio/mpeg',
+        duration: 600,
+        season: 1,
+        episode: 1,
+        publishDate: '2024-04-02T05:00:00.000Z',
+        chaptersUrl: 'https://cdn.test/dawn.json'
+      })
+    ]);
+  });
+
+  it('parses durations written as seconds, MM:SS and HH:MM:SS', () => {
+    expect(parseDuration('95')).toBe(95);
+    expect(parseDuration('12:05')).toBe(725);
+    expect(parseDuration('1:02:03')).toBe(3723);
+    expect(parseDuration(undefined)).toBe(0);
+  });
+
+  it('converts chapters to and from JSON chapters', () => {
+    const chapters = fromJsonChapters({
+      version: '1.2.0',
+      chapters: [
+        { startTime: 60, title: 'Birdsong' },
+        { startTime: 0, title: 'Intro' },
+        { startTime: 90, img: 'https://cdn.test/art.jpg', toc: false }
+      ]
+    }, 300);
+
+    expect(chapters.map(({ title, startTime, endTime }) => ({ title, startTime, endTime }))).toEqual([
+      { title: 'Intro', startTime: 0, endTime: 60 },
+      { title: 'Birdsong', startTime: 60, endTime: 300 }
+    ]);
+    expect(fromJsonChapters(toJsonChapters(chapters), 300)).toEqual(
+      chapters.map(chapter => ({ ...chapter, id: expect.any(String) }))
+    );
+  });
+
+  it('derives podcast:guid from the feed URL as the spec does', async () => {
+    expect(await podcastGuid('https://mp3s.nashownotes.com/pc20rss.xml')).toBe('917393e3-1b1e-5cef-ace4-edaa54e1f810');
+    expect(await podcastGuid('http://mp3s.nashownotes.com/pc20rss.xml/')).toBe('917393e3-1b1e-5cef-ace4-edaa54e1f810');
+  });
+});
@@ -0,0 +1,362 @@
+import type { Chapter, Episode, Podcast, Transcript } from './PodcastService';
+
+const ITUNES_NS = 'http://www.itunes.com/dtds/podcast-1.0.dtd';
+const PODCAST_NS = 'https://podcastindex.org/namespace/1.0';
+const CONTENT_NS = 'http://purl.org/rss/1.0/modules/content/';
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+
+// Namespace for podcast:guid UUIDv5s, fixed by the Podcasting 2.0 spec
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+const TRANSCRIPT_TYPES: Record<Transcript['format'], string> = {
+  srt: 'application/srt',
+  vtt: 'text/vtt',
+  json: 'application/json'
+};
+
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/x-m4a',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  opus: 'audio/opus',
+  wav: 'audio/wav',
+  flac: 'audio/flac'
+};
+
+export interface FeedOptions {
+  // Where the feed itself is served, for atom:link and podcast:guid
+  feedUrl: string;
+  ownerName?: string;
+}
+
+export interface ParsedFeed {
+  podcast: Partial<Podcast>;
+  episodes: Array<Partial<Episode> & { guid: string }>;
+  // The feed's own URL, from atom:link rel="self"
+  selfUrl?: string;
+  // Set when the feed has moved, via itunes:new-feed-url
+  newFeedUrl?: string;
+}
+
+/**
+ * Podcasting 2.0 JSON chapters document
+ */
+export interface JsonChapters {
+  version: string;
+  chapters: Array<{
+    startTime: number;
+    endTime?: number;
+    title?: string;
+    img?: string;
+    url?: string;
+    toc?: boolean;
+  }>;
+}
+
+/**
+ * Generate an RSS 2.0 feed with the iTunes and Podcasting 2.0 namespaces,
+ * as accepted by Apple Podcasts, Spotify and podcast indexes. Only
+ * published episodes whose publish date has passed are included.
+ */
+export function generateFeed(podcast: Podcast, episodes: Episode[], options: FeedOptions): string {
+  const { feedUrl, ownerName = podcast.title } = options;
+  const now = Date.now();
+  const items = episodes
+    .filter(episode => episode.status === 'published' && Date.parse(episode.publishDate) <= now)
+    .sort((a, b) => Date.parse(b.publishDate) - Date.parse(a.publishDate));
+
+  const channel = [
+    element('title', podcast.title),
+    element('link', podcast.website || feedUrl),
+    `<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    element('description', podcast.description),
+    element('language', podcast.language),
+    element('lastBuildDate', new Date(now).toUTCString()),
+    element('itunes:author', ownerName),
+    element('itunes:summary', podcast.description),
+    `<itunes:image href="${escapeXml(podcast.coverUrl)}"/>`,
+    category(podcast.category),
+    element('itunes:explicit', podcast.explicit ? 'true' : 'false'),
+    element('itunes:type', 'episodic'),
+    podcast.email
+      ? `<itunes:owner>${element('itunes:name', ownerName)}${element('itunes:email', podcast.email)}</itunes:owner>`
+      : '',
+    podcast.guid ? element('podcast:guid', podcast.guid) : '',
+    podcast.email
+      ? `<podcast:locked owner="${escapeXml(podcast.email)}">${podcast.locked ? 'yes' : 'no'}</podcast:locked>`
+      : element('podcast:locked', podcast.locked ? 'yes' : 'no'),
+    ...items.map(feedItem)
+  ].filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rss version="2.0" xmlns:itunes="${ITUNES_NS}" xmlns:podcast="${PODCAST_NS}" xmlns:content="${CONTENT_NS}" xmlns:atom="${ATOM_NS}">`,
+    '<channel>',
+    ...channel,
+    '</channel>',
+    '</rss>'
+  ].join('\n') + '\n';
+}
+
+function feedItem(episode: Episode): string {
+  const parts = [
+    element('title', episode.title),
+    element('description', episode.description),
+    `<content:encoded><![CDATA[${episode.description.replace(/]]>/g, ']]]]><![CDATA[>')}]]></content:encoded>`,
+    `<guid isPermaLink="false">${escapeXml(episode.guid ?? episode.id)}</guid>`,
+    element('pubDate', new Date(episode.publishDate).toUTCString()),
+    `<enclosure url="${escapeXml(episode.audioUrl)}" length="${episode.enclosureLength ?? 0}" type="${escapeXml(episode.enclosureType ?? audioType(episode.audioUrl))}"/>`,
+    element('itunes:duration', String(Math.round(episode.duration))),
+    element('itunes:episodeType', episode.type),
+    episode.season !== undefined ? element('itunes:season', String(episode.season)) : '',
+    episode.episode !== undefined ? element('itunes:episode', String(episode.episode)) : '',
+    element('itunes:explicit', episode.explicit ? 'true' : 'false'),
+    episode.coverUrl ? `<itunes:image href="${escapeXml(episode.coverUrl)}"/>` : '',
+    episode.chaptersUrl
+      ? `<podcast:chapters url="${escapeXml(episode.chaptersUrl)}" type="application/json+chapters"/>`
+      : '',
+    episode.transcript ? transcriptTag(episode.transcript) : ''
+  ].filter(Boolean);
+
+  return `<item>\n${parts.join('\n')}\n</item>`;
+}
+
+function transcriptTag(transcript: Transcript): string {
+  // Timed formats can be shown as closed captions by apps that support them
+  const rel = transcript.format === 'json' ? '' : ' rel="captions"';
+  return (
+    `<podcast:transcript url="${escapeXml(transcript.url)}" type="${TRANSCRIPT_TYPES[transcript.format]}"` +
+    ` language="${escapeXml(transcript.language)}"${rel}/>`
+  );
+}
+
+/**
+ * Categories use Apple's names; a subcategory is written as
+ * `Category > Subcategory`
+ */
+function category(value: string): string {
+  const [main, sub] = value.split('>').map(part => part.trim());
+  if (!main) return '';
+  return sub
+    ? `<itunes:category text="${escapeXml(main)}"><itunes:category text="${escapeXml(sub)}"/></itunes:category>`
+    : `<itunes:category text="${escapeXml(main)}"/>`;
+}
+
+/**
+ * Parse an RSS feed into podcast and episode fields. Items without an
+ * enclosure aren't episodes and are skipped. Outside the browser, pass a
+ * DOMParser such as jsdom's.
+ */
+export function parseFeed(xml: string, parser: DOMParser = new DOMParser()): ParsedFeed {
+  const doc = parser.parseFromString(xml, 'application/xml');
+  const channel = doc.getElementsByTagName('channel')[0];
+  if (!channel || doc.getElementsByTagName('parsererror').length) {
+    throw new Error('Invalid RSS feed');
+  }
+
+  const owner = itunes(channel, 'owner')[0];
+  const categoryEl = itunes(channel, 'category')[0];
+  const subcategory = categoryEl ? itunes(categoryEl, 'category')[0] : undefined;
+  const locked = podcastNs(channel, 'locked')[0]?.textContent?.trim();
+
+  const podcast: Partial<Podcast> = {
+    title: text(channel, 'title') ?? '',
+    description: text(channel, 'description') ?? itunesText(channel, 'summary') ?? '',
+    coverUrl: itunes(channel, 'image')[0]?.getAttribute('href') ??
+      channel.getElementsByTagName('image')[0]?.getElementsByTagName('url')[0]?.textContent?.trim() ?? '',
+    category: [categoryEl?.getAttribute('text'), subcategory?.getAttribute('text')].filter(Boolean).join(' > '),
+    language: text(channel, 'language') ?? 'en',
+    explicit: isExplicit(itunesText(channel, 'explicit')),
+    tags: (itunesText(channel, 'keywords') ?? '').split(',').map(tag => tag.trim()).filter(Boolean),
+    website: text(channel, 'link'),
+    email: owner ? itunesText(owner, 'email') : undefined,
+    guid: podcastNs(channel, 'guid')[0]?.textContent?.trim(),
+    locked: locked === 'yes'
+  };
+
+  const episodes = Array.from(channel.getElementsByTagName('item'))
+    .map(parseItem)
+    .filter((episode): episode is NonNullable<typeof episode> => !!episode);
+
+  const selfLink = Array.from(channel.getElementsByTagNameNS(ATOM_NS, 'link')).find(
+    link => link.parentElement === channel && link.getAttribute('rel') === 'self'
+  );
+
+  return {
+    podcast,
+    episodes,
+    selfUrl: selfLink?.getAttribute('href') ?? undefined,
+    newFeedUrl: itunesText(channel, 'new-feed-url')
+  };
+}
+
+function parseItem(item: Element): (Partial<Episode> & { guid: string }) | null {
+  const enclosure = item.getElementsByTagName('enclosure')[0];
+  const audioUrl = enclosure?.getAttribute('url');
+  if (!audioUrl) return null;
+
+  const episodeType = itunesText(item, 'episodeType');
+  const season = Number(itunesText(item, 'season'));
+  const number = Number(itunesText(item, 'episode'));
+  const pubDate = Date.parse(text(item, 'pubDate') ?? '');
+  const length = Number(enclosure.getAttribute('length'));
+
+  // Prefer a timed transcript, since the player can show it as captions
+  const transcripts = podcastNs(item, 'transcript');
+  const transcriptEl = transcripts.find(el => el.getAttribute('rel') === 'captions') ?? transcripts[0];
+  const transcriptFormat = transcriptEl ? transcriptFormatOf(transcriptEl.getAttribute('type')) : undefined;
+
+  return {
+    // Feeds without guids are keyed by enclosure, as most podcast apps do
+    guid: text(item, 'guid') ?? audioUrl,
+    title: text(item, 'title') ?? itunesText(item, 'title') ?? '',
+    description: text(item, 'description') ??
+      textNs(item, CONTENT_NS, 'encoded') ?? itunesText(item, 'summary') ?? '',
+    audioUrl,
+    enclosureType: enclosure.getAttribute('type') ?? undefined,
+    enclosureLength: Number.isFinite(length) && length > 0 ? length : undefined,
+    duration: parseDuration(itunesText(item, 'duration')),
+    coverUrl: itunes(item, 'image')[0]?.getAttribute('href') ?? undefined,
+    season: Number.isInteger(season) && season > 0 ? season : undefined,
+    episode: Number.isInteger(number) && number > 0 ? number : undefined,
+    type: episodeType === 'trailer' || episodeType === 'bonus' ? episodeType : 'full',
+    explicit: isExplicit(itunesText(item, 'explicit')),
+    publishDate: new Date(Number.isNaN(pubDate) ? Date.now() : pubDate).toISOString(),
+    chaptersUrl: podcastNs(item, 'chapters')[0]?.getAttribute('url') ?? undefined,
+    transcript: transcriptEl && transcriptFormat
+      ? {
+          id: crypto.randomUUID(),
+          language: transcriptEl.getAttribute('language') ?? '',
+          format: transcriptFormat,
+          url: transcriptEl.getAttribute('url') ?? '',
+          segments: [],
+          isAutoGenerated: false
+        }
+      : undefined,
+    status: 'published'
+  };
+}
+
+/**
+ * Parse `itunes:duration`, which feeds write as seconds, `MM:SS` or
+ * `HH:MM:SS`
+ */
+export function parseDuration(value: string | undefined): number {
+  if (!value) return 0;
+  return value
+    .trim()
+    .split(':')
+    .reduce((total, part) => total * 60 + (Number(part) || 0), 0);
+}
+
+export function toJsonChapters(chapters: Chapter[]): JsonChapters {
+  return {
+    version: '1.2.0',
+    chapters: [...chapters]
+      .sort((a, b) => a.startTime - b.startTime)
+      .map(chapter => ({
+        startTime: chapter.startTime,
+        endTime: chapter.endTime,
+        title: chapter.title,
+        img: chapter.imageUrl,
+        url: chapter.url
+      }))
+  };
+}
+
+/**
+ * Convert a JSON chapters document, filling in end times from the next
+ * chapter's start. Chapters marked `toc: false` are silent markers for
+ * artwork changes and are dropped.
+ */
+export function fromJsonChapters(doc: JsonChapters, duration: number): Chapter[] {
+  const chapters = (doc.chapters ?? [])
+    .filter(chapter => chapter.toc !== false && Number.isFinite(chapter.startTime))
+    .sort((a, b) => a.startTime - b.startTime);
+
+  return chapters.map((chapter, index) => ({
+    id: crypto.randomUUID(),
+    title: chapter.title ?? `Chapter ${index + 1}`,
+    startTime: chapter.startTime,
+    endTime: chapter.endTime ?? chapters[index + 1]?.startTime ?? duration,
+    imageUrl: chapter.img,
+    url: chapter.url
+  }));
+}
+
+/**
+ * The podcast:guid for a feed: a UUIDv5 of its URL without the scheme or
+ * trailing slashes
+ */
+export async function podcastGuid(feedUrl: string): Promise<string> {
+  const name = new TextEncoder().encode(feedUrl.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/\/+$/, ''));
+  const namespace = PODCAST_GUID_NAMESPACE.replace(/-/g, '').match(/../g)!.map(byte => parseInt(byte, 16));
+
+  const input = new Uint8Array(namespace.length + name.length);
+  input.set(namespace);
+  input.set(name, namespace.length);
+
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', input)).slice(0, 16);
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(hash, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function audioType(url: string): string {
+  const extension = new URL(url, 'https://localhost').pathname.split('.').pop()?.toLowerCase() ?? '';
+  return AUDIO_TYPES[extension] ?? 'audio/mpeg';
+}
+
+function transcriptFormatOf(type: string | null): Transcript['format'] | undefined {
+  switch (type) {
+    case 'application/srt':
+    case 'application/x-subrip':
+      return 'srt';
+    case 'text/vtt':
+      return 'vtt';
+    case 'application/json':
+      return 'json';
+  }
+  return undefined;
+}
+
+function isExplicit(value: string | undefined): boolean {
+  return value === 'true' || value === 'yes' || value === 'explicit';
+}
+
+function element(name: string, value: string | undefined): string {
+  return value ? `<${name}>${escapeXml(value)}</${name}>` : '';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Lookups are of direct children only, so item fields aren't mistaken for the channel's
+function text(parent: Element, name: string): string | undefined {
+  const child = Array.from(parent.children).find(el => el.tagName === name);
+  return child?.textContent?.trim() || undefined;
+}
+
+function textNs(parent: Element, namespace: string, name: string): string | undefined {
+  return parent.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim() || undefined;
+}
+
+function itunes(parent: Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS(ITUNES_NS, name)).filter(el => el.parentElement === parent);
+}
+
+function itunesText(parent: Element, name: string): string | undefined {
+  return itunes(parent, name)[0]?.textContent?.trim() || undefined;
+}
+
+function podcastNs(parent: Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS(PODCAST_NS, name)).filter(el => el.parentElement === parent);
+}
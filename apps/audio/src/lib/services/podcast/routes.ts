@@ -0,0 +1,13 @@
+import { supabase } from '$lib/supabaseClient';
+
+/**
+ * The id of the user whose Supabase access token is in the request's
+ * Authorization header, or null when it's missing or invalid
+ */
+export async function requestUserId(request: Request): Promise<string | null> {
+  const token = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user?.id ?? null;
+}
@@ -0,0 +1,28 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabaseClient';
+import { feedSyncService } from '$lib/services/podcast/FeedSyncService';
+import { requestUserId } from '$lib/services/podcast/routes';
+import type { RequestHandler } from './$types';
+
+export const POST: RequestHandler = async ({ params, request }) => {
+  const userId = await requestUserId(request);
+  if (!userId) {
+    return json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data: podcast } = await supabase
+    .from('podcasts')
+    .select('creator_id')
+    .eq('id', params.podcastId)
+    .maybeSingle();
+
+  if (!podcast || podcast.creator_id !== userId) {
+    return json({ error: 'Podcast not found' }, { status: 404 });
+  }
+
+  try {
+    return json(await feedSyncService.syncFeed(params.podcastId));
+  } catch (error) {
+    return json({ error: (error as Error).message || 'Failed to sync feed' }, { status: 502 });
+  }
+};
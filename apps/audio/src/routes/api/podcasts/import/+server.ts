@@ -0,0 +1,28 @@
+import { json } from '@sveltejs/kit';
+import { feedSyncService } from '$lib/services/podcast/FeedSyncService';
+import { requestUserId } from '$lib/services/podcast/routes';
+import type { RequestHandler } from './$types';
+
+export const POST: RequestHandler = async ({ request }) => {
+  const userId = await requestUserId(request);
+  if (!userId) {
+    return json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = typeof body?.feedUrl === 'string'
+    ? { feedUrl: body.feedUrl }
+    : typeof body?.content === 'string'
+      ? { content: body.content }
+      : null;
+
+  if (!input) {
+    return json({ error: 'Expected a feedUrl or the feed content' }, { status: 400 });
+  }
+
+  try {
+    return json(await feedSyncService.importFeed(userId, input), { status: 201 });
+  } catch (error) {
+    return json({ error: (error as Error).message || 'Failed to import feed' }, { status: 502 });
+  }
+};
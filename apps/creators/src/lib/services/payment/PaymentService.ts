@@ -3,6 +3,8 @@ import { writable, derived } from 'svelte/store';
 import { supabase } from '$lib/supabaseClient';
 import type { Stripe, StripeElements, PaymentIntent } from '@stripe/stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
+import { Ledger, Money, accounts, type ReconciliationReport } from '@tiktok-toe/shared';
+import { SupabaseJournalStore } from './ledgerStore';
 
 interface PaymentConfig {
   publicKey: string;
@@ -19,7 +21,7 @@ interface Transaction {
   userId: string;
   type: 'charge' | 'refund' | 'payout' | 'transfer';
   status: 'pending' | 'processing' | 'succeeded' | 'failed';
-  amount: number;
+  amount: Money;
   currency: string;
   description?: string;
   metadata?: Record<string, any>;
@@ -49,9 +51,10 @@ interface PayoutSettings {
   metadata?: Record<string, any>;
 }
 
+// Derived from the ledger journal, never stored or mutated directly
 interface Balance {
-  available: number;
-  pending: number;
+  available: Money;
+  pending: Money;
   currency: string;
   lastUpdated: string;
 }
@@ -59,6 +62,7 @@ interface Balance {
 export class PaymentService {
   private static instance: PaymentService;
   private stripe: Stripe | null = null;
+  private ledger = new Ledger({ store: new SupabaseJournalStore() });
   private elements: StripeElements | null = null;
   private config = writable<PaymentConfig | null>(null);
   private transactions = writable<Transaction[]>([]);
@@ -135,11 +139,10 @@ export class PaymentService {
         filter: `user_id=eq.${user.id}`
       }, this.handlePayoutSettingsChange.bind(this))
       .on('postgres_changes', {
-        event: '*',
+        event: 'INSERT',
         schema: 'public',
-        table: 'balances',
-        filter: `user_id=eq.${user.id}`
-      }, this.handleBalanceChange.bind(this))
+        table: 'ledger_postings'
+      }, payload => this.handlePostingInsert(payload, user.id))
       .subscribe();
   }
 
@@ -151,8 +154,10 @@ export class PaymentService {
     await this.loadPayoutSettings(payload.new.user_id);
   }
 
-  private async handleBalanceChange(payload: any) {
-    await this.loadBalance(payload.new.user_id);
+  private async handlePostingInsert(payload: any, userId: string) {
+    if (payload.new.account?.startsWith(`liability:creator:${userId}:`)) {
+      await this.loadBalance(userId);
+    }
   }
 
   private async loadTransactions(userId: string) {
@@ -163,7 +168,10 @@ export class PaymentService {
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    this.transactions.set(data);
+    this.transactions.set(data.map(row => ({
+      ...row,
+      amount: Money.of(row.amount, row.currency)
+    })));
   }
 
   private async loadPayoutSettings(userId: string) {
@@ -178,21 +186,25 @@ export class PaymentService {
   }
 
   private async loadBalance(userId: string) {
-    const { data, error } = await supabase
-      .from('balances')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
-
-    if (error && error.code !== 'PGRST116') throw error;
-    this.balance.set(data);
+    const currency = this.getConfig()?.currency ?? 'USD';
+    const [available, pending] = await Promise.all([
+      this.ledger.balance(accounts.creatorAvailable(userId), currency),
+      this.ledger.balance(accounts.creatorPending(userId), currency)
+    ]);
+
+    this.balance.set({
+      available,
+      pending,
+      currency: available.currency,
+      lastUpdated: new Date().toISOString()
+    });
   }
 
-  async createPaymentIntent(amount: number, currency: string, metadata?: Record<string, any>): Promise<PaymentIntent> {
+  async createPaymentIntent(amount: Money, metadata?: Record<string, any>): Promise<PaymentIntent> {
     try {
       this.loading.set(true);
       const { data: { clientSecret }, error } = await supabase.functions.invoke('create-payment-intent', {
-        body: { amount, currency, metadata }
+        body: { amount: amount.toJSON(), metadata }
       });
 
       if (error) throw error;
@@ -225,11 +237,19 @@ export class PaymentService {
     }
   }
 
-  async requestRefund(transactionId: string, amount?: number): Promise<void> {
+  /**
+   * Refund a charge, in full unless an amount is given. Pass the same
+   * idempotency key when retrying so the refund is only booked once.
+   */
+  async requestRefund(
+    transactionId: string,
+    amount?: Money,
+    idempotencyKey: string = crypto.randomUUID()
+  ): Promise<void> {
     try {
       this.loading.set(true);
       const { error } = await supabase.functions.invoke('create-refund', {
-        body: { transactionId, amount }
+        body: { transactionId, amount: amount?.toJSON(), idempotencyKey }
       });
 
       if (error) throw error;
@@ -241,11 +261,25 @@ export class PaymentService {
     }
   }
 
-  async createPayout(amount: number, payoutSettingId: string): Promise<void> {
+  /**
+   * Pay out part of the available balance. Pass the same idempotency key
+   * when retrying so the payout is only booked once.
+   */
+  async createPayout(
+    amount: Money,
+    payoutSettingId: string,
+    idempotencyKey: string = crypto.randomUUID()
+  ): Promise<void> {
     try {
       this.loading.set(true);
+
+      const balance = this.getBalance();
+      if (!amount.isPositive() || (balance && amount.greaterThan(balance.available))) {
+        throw new Error(`Payout of ${amount} ${amount.currency} exceeds the available balance`);
+      }
+
       const { error } = await supabase.functions.invoke('create-payout', {
-        body: { amount, payoutSettingId }
+        body: { amount: amount.toJSON(), payoutSettingId, idempotencyKey }
       });
 
       if (error) throw error;
@@ -305,6 +339,41 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Compare the journal against the legacy `balances` row, which was
+   * updated in place before the ledger existed; mismatches show where
+   * the two have drifted apart
+   */
+  async getReconciliationReport(): Promise<ReconciliationReport> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: legacy, error } = await supabase
+      .from('balances')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const expected = legacy
+      ? [
+          {
+            account: accounts.creatorAvailable(user.id),
+            balance: Money.of(legacy.available, legacy.currency),
+            source: 'balances'
+          },
+          {
+            account: accounts.creatorPending(user.id),
+            balance: Money.of(legacy.pending, legacy.currency),
+            source: 'balances'
+          }
+        ]
+      : [];
+
+    return this.ledger.reconcile(expected);
+  }
+
   getStripe(): Stripe | null {
     return this.stripe;
   }
@@ -366,13 +435,17 @@ export class PaymentService {
   defaultPayoutMethod = derived(this.payoutSettings, $settings => 
     $settings.find(setting => setting.defaultMethod) || null
   );
-  totalEarnings = derived(this.transactions, $transactions =>
-    $transactions
-      .filter(t => t.type === 'charge' && t.status === 'succeeded')
-      .reduce((sum, t) => sum + t.amount, 0)
-  );
-  pendingBalance = derived(this.balance, $balance => $balance?.pending || 0);
-  availableBalance = derived(this.balance, $balance => $balance?.available || 0);
+  totalEarnings = derived([this.transactions, this.config], ([$transactions, $config]) => {
+    const currency = $config?.currency ?? 'USD';
+    return Money.sum(
+      $transactions
+        .filter(t => t.type === 'charge' && t.status === 'succeeded' && t.amount.currency === currency)
+        .map(t => t.amount),
+      currency
+    );
+  });
+  pendingBalance = derived(this.balance, $balance => $balance?.pending ?? null);
+  availableBalance = derived(this.balance, $balance => $balance?.available ?? null);
 
   cleanup() {
     // Cleanup subscriptions and state
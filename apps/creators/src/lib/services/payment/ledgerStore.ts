@@ -0,0 +1,84 @@
+import { supabase } from '$lib/supabaseClient';
+import {
+  DuplicateEntryError,
+  fromRecord,
+  toRecord,
+  type JournalEntry,
+  type JournalFilter,
+  type JournalStore
+} from '@tiktok-toe/shared';
+
+/**
+ * Journal entries in Supabase. Entries are written through the
+ * `post_ledger_entry` function, which inserts an entry and its rows in
+ * `ledger_postings` in one transaction; a unique index on
+ * `idempotency_key` rejects duplicates.
+ */
+export class SupabaseJournalStore implements JournalStore {
+  async append(entry: JournalEntry): Promise<void> {
+    const { error } = await supabase.rpc('post_ledger_entry', { entry: toRecord(entry) });
+
+    if (error?.code === '23505') throw new DuplicateEntryError(entry.idempotencyKey);
+    if (error) throw error;
+  }
+
+  async findById(id: string): Promise<JournalEntry | null> {
+    return this.findOne('id', id);
+  }
+
+  async findByIdempotencyKey(key: string): Promise<JournalEntry | null> {
+    return this.findOne('idempotency_key', key);
+  }
+
+  async list(filter: JournalFilter = {}): Promise<JournalEntry[]> {
+    let query = supabase
+      .from('ledger_entries')
+      .select('*')
+      .order('occurred_at', { ascending: true });
+
+    if (filter.relatedEntryId) {
+      query = query.eq('related_entry_id', filter.relatedEntryId);
+    }
+
+    if (filter.accountPrefix) {
+      const { data: postings, error } = await supabase
+        .from('ledger_postings')
+        .select('entry_id')
+        .like('account', `${filter.accountPrefix.replace(/[\\%_]/g, '\\$&')}%`);
+
+      if (error) throw error;
+
+      const entryIds = [...new Set(postings.map(posting => posting.entry_id))];
+      if (!entryIds.length) return [];
+      query = query.in('id', entryIds);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data.map(toEntry);
+  }
+
+  private async findOne(column: string, value: string): Promise<JournalEntry | null> {
+    const { data, error } = await supabase
+      .from('ledger_entries')
+      .select('*')
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toEntry(data) : null;
+  }
+}
+
+function toEntry(row: any): JournalEntry {
+  return fromRecord({
+    id: row.id,
+    idempotencyKey: row.idempotency_key,
+    type: row.type,
+    postings: row.postings,
+    occurredAt: row.occurred_at,
+    relatedEntryId: row.related_entry_id ?? undefined,
+    description: row.description ?? undefined,
+    metadata: row.metadata ?? undefined
+  });
+}
@@ -0,0 +1,109 @@
+-- Double-entry journal for creator money. Entries are append only; balances
+-- are derived from the postings and mistakes are corrected with reversals.
+CREATE TABLE ledger_entries (
+  id UUID PRIMARY KEY,
+  idempotency_key TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('tip', 'subscription', 'payment', 'platform_fee', 'settlement', 'refund', 'payout', 'transfer', 'reversal')),
+  -- The full entry as posted, amounts as decimal strings
+  postings JSONB NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  related_entry_id UUID REFERENCES ledger_entries(id),
+  description TEXT,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per posting, so entries can be found by account
+CREATE TABLE ledger_postings (
+  id BIGSERIAL PRIMARY KEY,
+  entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+  account TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX idx_ledger_entries_idempotency_key ON ledger_entries(idempotency_key);
+CREATE INDEX idx_ledger_entries_related_entry ON ledger_entries(related_entry_id);
+CREATE INDEX idx_ledger_entries_occurred_at ON ledger_entries(occurred_at);
+CREATE INDEX idx_ledger_postings_entry ON ledger_postings(entry_id);
+CREATE INDEX idx_ledger_postings_account ON ledger_postings(account text_pattern_ops);
+
+-- Entries and postings can never be changed once written
+CREATE OR REPLACE FUNCTION reject_ledger_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger % rows are append only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_change();
+
+CREATE TRIGGER ledger_postings_append_only
+  BEFORE UPDATE OR DELETE ON ledger_postings
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_change();
+
+-- Insert an entry and its postings in one transaction. A reused
+-- idempotency key fails with unique_violation (23505).
+CREATE OR REPLACE FUNCTION post_ledger_entry(entry JSONB)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO ledger_entries (
+    id,
+    idempotency_key,
+    type,
+    postings,
+    occurred_at,
+    related_entry_id,
+    description,
+    metadata
+  ) VALUES (
+    (entry->>'id')::UUID,
+    entry->>'idempotencyKey',
+    entry->>'type',
+    entry->'postings',
+    (entry->>'occurredAt')::TIMESTAMP WITH TIME ZONE,
+    (entry->>'relatedEntryId')::UUID,
+    entry->>'description',
+    entry->'metadata'
+  );
+
+  INSERT INTO ledger_postings (entry_id, account, direction, amount, currency)
+  SELECT
+    (entry->>'id')::UUID,
+    posting->>'account',
+    posting->>'direction',
+    (posting->'amount'->>'amount')::NUMERIC,
+    posting->'amount'->>'currency'
+  FROM jsonb_array_elements(entry->'postings') AS posting;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the payment functions post to the ledger
+REVOKE EXECUTE ON FUNCTION post_ledger_entry(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION post_ledger_entry(JSONB) TO service_role;
+
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_postings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow creators to read their own postings"
+  ON ledger_postings FOR SELECT
+  TO authenticated
+  USING (account LIKE 'liability:creator:' || auth.uid() || ':%');
+
+CREATE POLICY "Allow creators to read entries touching their accounts"
+  ON ledger_entries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ledger_postings
+      WHERE ledger_postings.entry_id = ledger_entries.id
+      AND ledger_postings.account LIKE 'liability:creator:' || auth.uid() || ':%'
+    )
+  );
+
+-- Balance updates are pushed to the creator dashboard
+ALTER PUBLICATION supabase_realtime ADD TABLE ledger_postings;
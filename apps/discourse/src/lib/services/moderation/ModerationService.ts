@@ -1,14 +1,30 @@
 import { browser } from '$app/environment';
 import { writable } from 'svelte/store';
 import { supabase } from '$lib/supabaseClient';
+import {
+  PolicyEngine,
+  TOXIC_CONDITIONS,
+  compileCondition,
+  type Condition,
+  type DryRunReport,
+  type ModerationSubject,
+  type PolicyDecision,
+  type PolicyDefinition,
+  type RuleMetrics
+} from '@lena/moderation';
 import { performanceOptimizationService } from '../optimization/PerformanceOptimizationService';
+import { SupabasePolicyStore } from './policyStore';
 
 interface ModerationRule {
   id: string;
   type: 'keyword' | 'pattern' | 'toxicity' | 'spam' | 'custom';
   name: string;
   description: string;
-  pattern: string | RegExp;
+  // Comma-separated terms for keyword rules, a regex for pattern rules and
+  // the score threshold for toxicity rules
+  pattern: string;
+  // Policy condition; required for custom rules, overrides the type's default otherwise
+  condition?: Condition;
   severity: 'low' | 'medium' | 'high' | 'critical';
   action: 'flag' | 'hide' | 'delete' | 'ban';
   automate: boolean;
@@ -16,6 +32,21 @@ interface ModerationRule {
   updatedAt: string;
 }
 
+const POLICY_ID = 'discourse';
+
+// Bursts of posts, or links from brand-new accounts
+const SPAM_CONDITION: Condition = {
+  any: [
+    { rate: { by: 'author.id', window: '1m', over: 5 } },
+    {
+      all: [
+        { accountAge: { under: '1d' } },
+        { field: 'text', matches: 'https?://' }
+      ]
+    }
+  ]
+};
+
 interface ModerationAction {
   id: string;
   type: 'warning' | 'mute' | 'ban' | 'delete';
@@ -78,6 +109,7 @@ interface ModerationStats {
 export class ModerationService {
   private static instance: ModerationService;
   private rules: Map<string, ModerationRule> = new Map();
+  private policyEngine = new PolicyEngine({ policyStore: new SupabasePolicyStore() });
   private actions: Map<string, ModerationAction> = new Map();
   private reports = writable<Report[]>([]);
   private stats = writable<ModerationStats | null>(null);
@@ -116,16 +148,97 @@ export class ModerationService {
 
       this.rules.clear();
       for (const rule of data) {
-        if (rule.pattern && typeof rule.pattern === 'string' && rule.type === 'pattern') {
-          rule.pattern = new RegExp(rule.pattern, 'i');
-        }
         this.rules.set(rule.id, rule);
       }
+
+      await this.syncPolicy();
     } catch (error) {
       console.error('Error loading moderation rules:', error);
     }
   }
 
+  // Publish the automated rules as a new policy version when they've changed
+  private async syncPolicy() {
+    const definition = this.buildPolicy([...this.rules.values()]);
+    const latest = await this.policyEngine.getPolicy(POLICY_ID);
+
+    if (latest && JSON.stringify(latest.rules) === JSON.stringify(definition.rules)) {
+      if (!this.policyEngine.getActivePolicy(POLICY_ID)) {
+        await this.policyEngine.activate(POLICY_ID, latest.version);
+      }
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    await this.policyEngine.publish(definition, user?.id);
+  }
+
+  private buildPolicy(rules: ModerationRule[]): PolicyDefinition {
+    return {
+      id: POLICY_ID,
+      rules: rules
+        .filter(rule => rule.automate)
+        .map(rule => ({
+          id: rule.id,
+          description: rule.name,
+          when: this.toCondition(rule),
+          action: rule.action,
+          severity: rule.severity,
+          reason: rule.type
+        }))
+    };
+  }
+
+  private toCondition(rule: ModerationRule): Condition {
+    if (rule.condition) return rule.condition;
+
+    switch (rule.type) {
+      case 'keyword':
+        return {
+          field: 'text',
+          keywords: rule.pattern.split(',').map(k => k.trim()).filter(Boolean)
+        };
+      case 'pattern':
+        return { field: 'text', matches: rule.pattern };
+      case 'toxicity':
+        return {
+          any: [
+            { field: 'signals.toxicity', gte: Number(rule.pattern) || 0.8 },
+            ...TOXIC_CONDITIONS
+          ]
+        };
+      case 'spam':
+        return SPAM_CONDITION;
+      case 'custom':
+        throw new Error(`Custom rule ${rule.name} has no condition`);
+    }
+  }
+
+  private async loadSubject(content: string, context: {
+    type: string;
+    userId: string;
+    contentId?: string;
+    signals?: Record<string, number>;
+  }): Promise<ModerationSubject> {
+    const { data: author } = await supabase
+      .from('users')
+      .select('reputation, created_at')
+      .eq('id', context.userId)
+      .maybeSingle();
+
+    return {
+      id: context.contentId ?? crypto.randomUUID(),
+      type: context.type,
+      text: content,
+      author: {
+        id: context.userId,
+        reputation: author?.reputation ?? undefined,
+        createdAt: author?.created_at ?? undefined
+      },
+      signals: context.signals
+    };
+  }
+
   private async loadReports() {
     try {
       const { data, error } = await supabase
@@ -259,55 +372,26 @@ export class ModerationService {
   async moderateContent(content: string, context: {
     type: 'discussion' | 'comment' | 'user';
     userId: string;
+    contentId?: string;
+    // Classifier scores, e.g. { toxicity: 0.93 }
+    signals?: Record<string, number>;
   }): Promise<{
     approved: boolean;
     flags: Array<{
       rule: ModerationRule;
       matches: string[];
     }>;
+    decision: PolicyDecision;
   }> {
-    const flags: Array<{
-      rule: ModerationRule;
-      matches: string[];
-    }> = [];
-
-    // Check against each rule
-    for (const rule of this.rules.values()) {
-      if (!rule.automate) continue;
-
-      let matches: string[] = [];
-      switch (rule.type) {
-        case 'keyword':
-          {
-            const keywords = (rule.pattern as string).split(',').map(k => k.trim().toLowerCase());
-            const contentWords = content.toLowerCase().split(/\s+/);
-            matches = keywords.filter(k => contentWords.includes(k));
-          }
-          break;
-
-        case 'pattern':
-          {
-            const pattern = rule.pattern as RegExp;
-            const match = content.match(pattern);
-            if (match) {
-              matches = match;
-            }
-          }
-          break;
-
-        case 'toxicity':
-          // Implement toxicity detection using AI/ML
-          break;
-
-        case 'spam':
-          // Implement spam detection
-          break;
-      }
+    const subject = await this.loadSubject(content, context);
+    const decision = await this.policyEngine.evaluate(subject, POLICY_ID);
 
-      if (matches.length > 0) {
-        flags.push({ rule, matches });
-      }
-    }
+    const flags = decision.matches
+      .filter(match => this.rules.has(match.ruleId))
+      .map(match => ({
+        rule: this.rules.get(match.ruleId)!,
+        matches: match.evidence
+      }));
 
     // Determine if content should be approved
     const approved = !flags.some(flag => 
@@ -316,7 +400,59 @@ export class ModerationService {
       flag.rule.action === 'ban'
     );
 
-    return { approved, flags };
+    return { approved, flags, decision };
+  }
+
+  /**
+   * Run a set of rules over recent discussion points without acting on
+   * them, to see what they would have flagged compared with the live rules
+   */
+  async dryRunRules(
+    rules: ModerationRule[] = [...this.rules.values()],
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<DryRunReport> {
+    const since = options.since ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('discussion_points')
+      .select(`
+        id,
+        content,
+        user_id,
+        created_at,
+        author:user_id(reputation, created_at)
+      `)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(options.limit ?? 1000);
+
+    if (error) throw error;
+
+    const history: ModerationSubject[] = data.map((point: any) => ({
+      id: point.id,
+      type: 'comment',
+      text: point.content,
+      author: {
+        id: point.user_id,
+        reputation: point.author?.reputation ?? undefined,
+        createdAt: point.author?.created_at ?? undefined
+      },
+      createdAt: point.created_at
+    }));
+
+    return this.policyEngine.dryRun(this.buildPolicy(rules), history);
+  }
+
+  getRuleMetrics(): RuleMetrics[] {
+    return this.policyEngine.getMetrics(POLICY_ID);
+  }
+
+  async getPolicyHistory() {
+    return this.policyEngine.getHistory(POLICY_ID);
+  }
+
+  async rollbackPolicy(version: number) {
+    return this.policyEngine.activate(POLICY_ID, version);
   }
 
   async submitReport(report: Omit<Report, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<Report> {
@@ -368,6 +504,9 @@ export class ModerationService {
   }
 
   async addRule(rule: Omit<ModerationRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<ModerationRule> {
+    // Reject invalid regexes and conditions before they're stored
+    compileCondition(this.toCondition(rule as ModerationRule));
+
     const { data, error } = await supabase
       .from('moderation_rules')
       .insert([{
@@ -382,6 +521,7 @@ export class ModerationService {
 
     const moderationRule = data;
     this.rules.set(moderationRule.id, moderationRule);
+    await this.syncPolicy();
     return moderationRule;
   }
 
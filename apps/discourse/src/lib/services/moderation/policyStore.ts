@@ -0,0 +1,60 @@
+import { supabase } from '$lib/supabaseClient';
+import type { Policy, PolicyStore } from '@lena/moderation';
+
+/**
+ * Policy versions in the `moderation_policies` table. The primary key is
+ * (id, version), so a version can't be written twice.
+ */
+export class SupabasePolicyStore implements PolicyStore {
+  async save(policy: Policy): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_policies')
+      .insert([{
+        id: policy.id,
+        version: policy.version,
+        description: policy.description,
+        rules: policy.rules,
+        published_at: policy.publishedAt.toISOString(),
+        published_by: policy.publishedBy
+      }]);
+
+    if (error) throw error;
+  }
+
+  async get(id: string, version?: number): Promise<Policy | null> {
+    let query = supabase
+      .from('moderation_policies')
+      .select('*')
+      .eq('id', id);
+
+    query = version === undefined
+      ? query.order('version', { ascending: false }).limit(1)
+      : query.eq('version', version);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return data ? toPolicy(data) : null;
+  }
+
+  async history(id: string): Promise<Policy[]> {
+    const { data, error } = await supabase
+      .from('moderation_policies')
+      .select('*')
+      .eq('id', id)
+      .order('version', { ascending: true });
+
+    if (error) throw error;
+    return data.map(toPolicy);
+  }
+}
+
+function toPolicy(row: any): Policy {
+  return {
+    id: row.id,
+    version: row.version,
+    description: row.description ?? undefined,
+    rules: row.rules,
+    publishedAt: new Date(row.published_at),
+    publishedBy: row.published_by ?? undefined
+  };
+}
@@ -0,0 +1,6 @@
+import { federationService } from '$lib/services/federation/FederationService';
+
+// The bridge runs for the life of the server, alongside the inbox that feeds it
+federationService
+  .startBridging()
+  .catch(error => console.error('Error starting the AT Protocol ↔ ActivityPub bridge:', error));
@@ -1,3 +1,21 @@
+/**
+ * Uniform double in [0, 1) from the platform CSPRNG. Math.random is not
+ * cryptographically secure, and noise an observer can predict can be
+ * subtracted back out of a release.
+ */
+function secureRandom(): number {
+  const [high, low] = crypto.getRandomValues(new Uint32Array(2));
+  // 53 random bits, the full precision of a double
+  return (high * 2 ** 21 + (low >>> 11)) / 2 ** 53;
+}
+
+/** Uniform double in (0, 1), safe to take the logarithm of */
+function secureRandomNonZero(): number {
+  let u = 0;
+  while (u === 0) u = secureRandom();
+  return u;
+}
+
 class DifferentialPrivacy {
   /**
    * Adds Laplace noise to a numeric value for differential privacy
@@ -21,7 +39,7 @@ class DifferentialPrivacy {
    * @returns A random value from the Laplace distribution
    */
   private generateLaplaceNoise(scale: number): number {
-    const u = Math.random() - 0.5;
+    const u = secureRandomNonZero() - 0.5;
     return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
   }
 
@@ -33,21 +51,22 @@ class DifferentialPrivacy {
    */
   addGeometricNoise(count: number, epsilon: number): number {
     const alpha = Math.exp(-epsilon);
-    let noise = 0;
-    const p = 1 - alpha;
-
-    // Generate geometric noise
-    while (true) {
-      if (Math.random() < p) break;
-      noise += 1;
-    }
 
-    // Randomly choose positive or negative noise
-    if (Math.random() < 0.5) noise = -noise;
+    // The two-sided geometric distribution is the difference of two one-sided draws
+    const noise = this.generateGeometric(alpha) - this.generateGeometric(alpha);
 
     return Math.max(0, count + noise);
   }
 
+  /**
+   * Draws from a one-sided geometric distribution by inverting its CDF
+   * @param alpha Probability of each further step, P(X >= k) = alpha^k
+   * @returns A non-negative integer
+   */
+  private generateGeometric(alpha: number): number {
+    return Math.floor(Math.log(secureRandomNonZero()) / Math.log(alpha));
+  }
+
   /**
    * Implements the Exponential Mechanism for selecting from discrete options
    * @param options Array of possible options
@@ -66,13 +85,15 @@ class DifferentialPrivacy {
       throw new Error('Options and utility scores must have the same length');
     }
 
+    // Shifting by the best score keeps exp() from overflowing; it cancels out when normalising
+    const maxScore = Math.max(...utilityScores);
     const probabilities = utilityScores.map(score =>
-      Math.exp((epsilon * score) / (2 * sensitivity))
+      Math.exp((epsilon * (score - maxScore)) / (2 * sensitivity))
     );
     const sumProb = probabilities.reduce((a, b) => a + b, 0);
     const normalizedProbs = probabilities.map(p => p / sumProb);
 
-    let r = Math.random();
+    let r = secureRandom();
     let cumulativeProb = 0;
     
     for (let i = 0; i < options.length; i++) {
@@ -93,7 +114,7 @@ class DifferentialPrivacy {
    */
   randomizedResponse(value: boolean, epsilon: number): boolean {
     const p = Math.exp(epsilon) / (1 + Math.exp(epsilon));
-    return Math.random() < (value ? p : 1 - p);
+    return secureRandom() < (value ? p : 1 - p);
   }
 
   /**
@@ -132,7 +153,7 @@ class DifferentialPrivacy {
     if (adjustment > 0) {
       // Distribute positive adjustment
       for (let i = 0; i < adjustment; i++) {
-        const category = categories[Math.floor(Math.random() * categories.length)];
+        const category = categories[Math.floor(secureRandom() * categories.length)];
         noisy[category]++;
       }
     } else if (adjustment < 0) {
@@ -140,7 +161,7 @@ class DifferentialPrivacy {
       for (let i = 0; i > adjustment; i--) {
         const validCategories = categories.filter(c => noisy[c] > 0);
         if (validCategories.length === 0) break;
-        const category = validCategories[Math.floor(Math.random() * validCategories.length)];
+        const category = validCategories[Math.floor(secureRandom() * validCategories.length)];
         noisy[category]--;
       }
     }
@@ -172,9 +193,8 @@ class DifferentialPrivacy {
    * @returns A random value from the Gaussian distribution
    */
   private generateGaussianNoise(sigma: number): number {
-    let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
+    const u = secureRandomNonZero();
+    const v = secureRandom();
     
     const multiplier = sigma * Math.sqrt(-2.0 * Math.log(u));
     return multiplier * Math.cos(2.0 * Math.PI * v);
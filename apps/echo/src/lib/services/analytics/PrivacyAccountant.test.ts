@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { differentialPrivacy } from './DifferentialPrivacy';
+import { PrivacyAccountant, PrivacyBudgetExceededError } from './PrivacyAccountant';
+import { composePrivacyLoss, renyiDivergence, type Mechanism } from './privacyComposition';
+import { MemoryPrivacyLedgerStore, type PrivacyCharge } from './privacyLedgerStore';
+
+vi.mock('$lib/supabaseClient', () => ({
+  supabase: {}
+}));
+
+const laplace = (epsilon: number, count = 1): Mechanism[] =>
+  Array.from({ length: count }, () => ({ type: 'laplace' as const, epsilon }));
+
+describe('privacy composition', () => {
+  it('charges a single release exactly its epsilon', () => {
+    expect(composePrivacyLoss(laplace(1), 1e-5).epsilon).toBeCloseTo(1, 10);
+    expect(composePrivacyLoss([], 1e-5).epsilon).toBe(0);
+  });
+
+  it('uses the tightest of basic, advanced and Rényi composition', () => {
+    const loss = composePrivacyLoss(laplace(0.1, 200), 1e-5);
+    expect(loss.basic.epsilon).toBeCloseTo(20, 10);
+    expect(loss.advanced).toBeLessThan(loss.basic.epsilon);
+    expect(loss.renyi).toBeLessThan(loss.advanced!);
+    expect(loss.epsilon).toBe(loss.renyi);
+    expect(loss.delta).toBe(1e-5);
+  });
+
+  it('falls back to basic composition without a delta budget', () => {
+    const loss = composePrivacyLoss(laplace(0.1, 200), 0);
+    expect(loss).toMatchObject({ epsilon: loss.basic.epsilon, delta: 0, advanced: undefined, renyi: undefined });
+  });
+
+  it('bounds Laplace Rényi divergence by epsilon and grows Gaussian linearly', () => {
+    for (const alpha of [1.5, 2, 10, 256]) {
+      const divergence = renyiDivergence({ type: 'laplace', epsilon: 0.5 }, alpha);
+      expect(divergence).toBeGreaterThan(0);
+      expect(divergence).toBeLessThanOrEqual(0.5);
+    }
+    const gaussian: Mechanism = { type: 'gaussian', epsilon: 1, delta: 1e-6 };
+    expect(renyiDivergence(gaussian, 4)).toBeCloseTo(2 * renyiDivergence(gaussian, 2), 10);
+  });
+
+  it('counts Gaussian deltas against the budget', () => {
+    const mechanisms: Mechanism[] = Array.from({ length: 3 }, () => ({ type: 'gaussian', epsilon: 1, delta: 1e-5 }));
+    const loss = composePrivacyLoss(mechanisms, 1e-5);
+    expect(loss.basic.delta).toBeCloseTo(3e-5, 15);
+    expect(loss.advanced).toBeUndefined();
+    expect(loss.epsilon).toBe(loss.renyi);
+  });
+});
+
+describe('PrivacyAccountant', () => {
+  let store: MemoryPrivacyLedgerStore;
+  let accountant: PrivacyAccountant;
+
+  beforeEach(() => {
+    store = new MemoryPrivacyLedgerStore();
+    accountant = new PrivacyAccountant(store, {
+      datasetBudget: { epsilon: 1, delta: 0 },
+      analystBudget: { epsilon: 0.5, delta: 0 }
+    });
+  });
+
+  it('refuses queries once an analyst has spent their budget', async () => {
+    await accountant.answer({ dataset: 'events', analyst: 'ana' }, 'q1', laplace(0.3), () => 1);
+    await expect(
+      accountant.answer({ dataset: 'events', analyst: 'ana' }, 'q2', laplace(0.3), () => 2)
+    ).rejects.toMatchObject({ name: 'PrivacyBudgetExceededError', scope: 'analyst' });
+
+    await accountant.answer({ dataset: 'events', analyst: 'ben' }, 'q2', laplace(0.3), () => 2);
+    expect((await accountant.spent('events', 'ana')).epsilon).toBeCloseTo(0.3, 10);
+    expect((await accountant.spent('events')).epsilon).toBeCloseTo(0.6, 10);
+  });
+
+  it('refuses queries once the dataset budget is spent across analysts', async () => {
+    for (const analyst of ['ana', 'ben', 'cat']) {
+      await accountant.answer({ dataset: 'events', analyst }, `q-${analyst}`, laplace(0.3), () => analyst);
+    }
+    const refused = accountant.answer({ dataset: 'events', analyst: 'dan' }, 'q-dan', laplace(0.3), () => 'dan');
+    await expect(refused).rejects.toBeInstanceOf(PrivacyBudgetExceededError);
+    await expect(refused).rejects.toMatchObject({ scope: 'dataset' });
+
+    // Other datasets have budgets of their own
+    await accountant.answer({ dataset: 'sessions', analyst: 'dan' }, 'q-dan', laplace(0.3), () => 'dan');
+  });
+
+  it('returns the released answer for a repeated query without charging again', async () => {
+    const compute = vi.fn(() => differentialPrivacy.addLaplaceNoise(100, 0.4));
+    const first = await accountant.answer({ dataset: 'events', analyst: 'ana' }, 'count', laplace(0.4), compute);
+    const again = await accountant.answer({ dataset: 'events', analyst: 'ana' }, 'count', laplace(0.4), compute);
+    const other = await accountant.answer({ dataset: 'events', analyst: 'ben' }, 'count', laplace(0.4), compute);
+
+    expect(again).toBe(first);
+    expect(other).toBe(first);
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(store.charges).toHaveLength(1);
+  });
+
+  it('never overspends under concurrent queries', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, (_, i) =>
+        accountant.answer({ dataset: 'events', analyst: `analyst-${i}` }, `q${i}`, laplace(0.3), () => i)
+      )
+    );
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(3);
+    expect((await accountant.spent('events')).epsilon).toBeLessThanOrEqual(1);
+  });
+
+  it('rechecks the budget when another server charged first', async () => {
+    const appendCharge = store.appendCharge.bind(store);
+    let raced = false;
+    vi.spyOn(store, 'appendCharge').mockImplementation(async (charge: PrivacyCharge, expectedCount: number) => {
+      if (!raced) {
+        raced = true;
+        // Another server spends most of the dataset budget between our check and our write
+        await appendCharge({ ...charge, id: 'elsewhere', analyst: 'zed', mechanisms: laplace(0.8) }, expectedCount);
+      }
+      return appendCharge(charge, expectedCount);
+    });
+
+    await expect(
+      accountant.answer({ dataset: 'events', analyst: 'ana' }, 'q', laplace(0.3), () => 1)
+    ).rejects.toMatchObject({ scope: 'dataset' });
+    expect(store.charges.map(c => c.id)).toEqual(['elsewhere']);
+  });
+});
+
+describe('DifferentialPrivacy noise', () => {
+  it('draws from the CSPRNG rather than Math.random', () => {
+    const random = vi.spyOn(Math, 'random');
+    differentialPrivacy.addLaplaceNoise(10, 1);
+    differentialPrivacy.addGeometricNoise(10, 1);
+    differentialPrivacy.exponentialMechanism(['a', 'b'], [1, 2], 1);
+    differentialPrivacy.randomizedResponse(true, 1);
+    differentialPrivacy.gaussianMechanism(10, 1, 1e-5);
+    differentialPrivacy.consistentHistogram({ a: 5, b: 7 }, 1);
+    expect(random).not.toHaveBeenCalled();
+    random.mockRestore();
+  });
+
+  it('samples the two-sided geometric distribution', () => {
+    const epsilon = 1;
+    const alpha = Math.exp(-epsilon);
+    const samples = Array.from({ length: 20000 }, () => differentialPrivacy.addGeometricNoise(1000, epsilon) - 1000);
+
+    const zeros = samples.filter(s => s === 0).length / samples.length;
+    expect(zeros).toBeCloseTo((1 - alpha) / (1 + alpha), 1);
+    expect(samples.reduce((a, b) => a + b, 0) / samples.length).toBeCloseTo(0, 1);
+  });
+
+  it('does not overflow the exponential mechanism on large utilities', () => {
+    expect(differentialPrivacy.exponentialMechanism(['low', 'high'], [0, 5000], 1)).toBe('high');
+  });
+});
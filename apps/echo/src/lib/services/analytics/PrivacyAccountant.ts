@@ -0,0 +1,135 @@
+import { composePrivacyLoss, type Mechanism, type PrivacyBudget, type PrivacyLoss } from './privacyComposition';
+import type { PrivacyCharge, PrivacyLedgerStore } from './privacyLedgerStore';
+
+export class PrivacyBudgetExceededError extends Error {
+  constructor(
+    public scope: 'dataset' | 'analyst',
+    public dataset: string,
+    public analyst: string,
+    /** Epsilon that would have been spent in total had the query run */
+    public requested: number,
+    public budget: PrivacyBudget
+  ) {
+    super(
+      `Privacy budget exhausted for ${scope === 'dataset' ? 'dataset' : `analyst ${analyst} on dataset`} ${dataset}: ` +
+        `${requested.toFixed(3)} > ${budget.epsilon}`
+    );
+    this.name = 'PrivacyBudgetExceededError';
+  }
+}
+
+export interface QueryScope {
+  dataset: string;
+  analyst: string;
+}
+
+interface PrivacyAccountantOptions {
+  /** Lifetime budget of each dataset, across all analysts */
+  datasetBudget: PrivacyBudget;
+  /** Lifetime budget of each analyst on each dataset */
+  analystBudget: PrivacyBudget;
+  now?: () => Date;
+  /** Attempts to append a charge when other servers keep charging the same dataset */
+  maxConflictRetries?: number;
+}
+
+/**
+ * Tracks the cumulative privacy loss of every noisy answer released from a
+ * dataset, per dataset and per analyst, and refuses queries that would
+ * exceed either budget. Repeating a query returns the answer already
+ * released, which costs nothing: it is post-processing of a past release.
+ */
+export class PrivacyAccountant {
+  private options: Required<PrivacyAccountantOptions>;
+  /** Serialises charges per dataset within this process */
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private store: PrivacyLedgerStore,
+    options: PrivacyAccountantOptions
+  ) {
+    this.options = { now: () => new Date(), maxConflictRetries: 5, ...options };
+  }
+
+  /** Privacy loss spent so far on the dataset, or by one analyst on it */
+  async spent(dataset: string, analyst?: string): Promise<PrivacyLoss> {
+    const charges = await this.store.listCharges(dataset);
+    return this.lossOf(charges, analyst);
+  }
+
+  /**
+   * Returns the released answer for `queryKey` if there is one; otherwise
+   * charges `mechanisms` to the budgets and computes a fresh noisy answer.
+   * The charge stands even if `compute` fails, since its noise may have
+   * been drawn.
+   */
+  async answer<T>(
+    scope: QueryScope,
+    queryKey: string,
+    mechanisms: Mechanism[],
+    compute: () => T | Promise<T>
+  ): Promise<T> {
+    return this.withLock(scope.dataset, async () => {
+      const cached = await this.store.getCachedAnswer(scope.dataset, queryKey);
+      if (cached !== undefined) return cached as T;
+
+      await this.chargeUnlocked(scope, mechanisms, queryKey);
+      const answer = await compute();
+      await this.store.saveCachedAnswer(scope.dataset, queryKey, answer);
+      return answer;
+    });
+  }
+
+  /** Charges a release that isn't cached, e.g. a one-off noisy export */
+  async charge(scope: QueryScope, mechanisms: Mechanism[]): Promise<void> {
+    await this.withLock(scope.dataset, () => this.chargeUnlocked(scope, mechanisms));
+  }
+
+  private async chargeUnlocked(scope: QueryScope, mechanisms: Mechanism[], queryKey?: string): Promise<void> {
+    const { datasetBudget, analystBudget, maxConflictRetries } = this.options;
+
+    for (let attempt = 0; attempt <= maxConflictRetries; attempt++) {
+      const charges = await this.store.listCharges(scope.dataset);
+      const charge: PrivacyCharge = {
+        id: crypto.randomUUID(),
+        dataset: scope.dataset,
+        analyst: scope.analyst,
+        mechanisms,
+        queryKey,
+        chargedAt: this.options.now().toISOString()
+      };
+      const after = [...charges, charge];
+
+      const datasetLoss = this.lossOf(after);
+      if (datasetLoss.epsilon > datasetBudget.epsilon) {
+        throw new PrivacyBudgetExceededError('dataset', scope.dataset, scope.analyst, datasetLoss.epsilon, datasetBudget);
+      }
+      const analystLoss = this.lossOf(after, scope.analyst);
+      if (analystLoss.epsilon > analystBudget.epsilon) {
+        throw new PrivacyBudgetExceededError('analyst', scope.dataset, scope.analyst, analystLoss.epsilon, analystBudget);
+      }
+
+      if (await this.store.appendCharge(charge, charges.length)) return;
+    }
+    throw new Error(`Could not record privacy charge for ${scope.dataset}: too many concurrent charges`);
+  }
+
+  private lossOf(charges: PrivacyCharge[], analyst?: string): PrivacyLoss {
+    const budget = analyst ? this.options.analystBudget : this.options.datasetBudget;
+    const mechanisms = charges
+      .filter(charge => !analyst || charge.analyst === analyst)
+      .flatMap(charge => charge.mechanisms);
+    return composePrivacyLoss(mechanisms, budget.delta);
+  }
+
+  private async withLock<T>(dataset: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(dataset) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.locks.set(dataset, next);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(dataset) === next) this.locks.delete(dataset);
+    }
+  }
+}
@@ -1,5 +1,11 @@
 import { supabase } from '$lib/supabaseClient';
 import { differentialPrivacy } from './DifferentialPrivacy';
+import { PrivacyAccountant, PrivacyBudgetExceededError } from './PrivacyAccountant';
+import type { PrivacyBudget } from './privacyComposition';
+import { SupabasePrivacyLedgerStore } from './privacyLedgerStore';
+
+/** Ledger name for the aggregated analytics events */
+const EVENTS_DATASET = 'analytics_events';
 
 interface AnalyticsEvent {
   type: string;
@@ -16,6 +22,10 @@ interface PrivacyConfig {
   minBatchSize: number;
   maxQueryFrequency: number;
   retentionPeriod: number;
+  budgets: {
+    dataset: PrivacyBudget;
+    analyst: PrivacyBudget;
+  };
   anonymizationRules: {
     ipAddress: boolean;
     userAgent: boolean;
@@ -37,11 +47,15 @@ interface AggregateMetrics {
 
 class PrivacyPreservingAnalytics {
   private readonly config: PrivacyConfig = {
-    epsilon: 0.1, // Privacy budget
+    epsilon: 0.1, // Privacy loss per query
     delta: 1e-5, // Privacy failure probability
     minBatchSize: 50, // Minimum number of events for aggregation
     maxQueryFrequency: 3600000, // 1 hour in milliseconds
     retentionPeriod: 90 * 24 * 60 * 60 * 1000, // 90 days in milliseconds
+    budgets: {
+      dataset: { epsilon: 10, delta: 1e-5 }, // Lifetime loss across all analysts
+      analyst: { epsilon: 2, delta: 1e-5 } // Lifetime loss per analyst
+    },
     anonymizationRules: {
       ipAddress: true,
       userAgent: true,
@@ -50,6 +64,11 @@ class PrivacyPreservingAnalytics {
     }
   };
 
+  private readonly accountant = new PrivacyAccountant(new SupabasePrivacyLedgerStore(), {
+    datasetBudget: this.config.budgets.dataset,
+    analystBudget: this.config.budgets.analyst
+  });
+
   private eventBuffer: AnalyticsEvent[] = [];
   private lastAggregation: Date = new Date(0);
   private readonly BUFFER_LIMIT = 1000;
@@ -134,14 +153,11 @@ class PrivacyPreservingAnalytics {
       const now = new Date();
       const metrics = this.computeAggregateMetrics(this.eventBuffer);
 
-      // Add noise to aggregate metrics
-      const noisyMetrics = this.addNoiseToMetrics(metrics);
-
-      // Store aggregated metrics
+      // Store exact aggregates; noise is added when a query releases them, where it is accounted for
       await supabase
         .from('analytics_aggregates')
         .insert({
-          metrics: noisyMetrics,
+          metrics,
           time_range: {
             start: metrics.timeRange.start.toISOString(),
             end: metrics.timeRange.end.toISOString()
@@ -209,21 +225,34 @@ class PrivacyPreservingAnalytics {
     return metrics;
   }
 
-  private addNoiseToMetrics(metrics: AggregateMetrics): AggregateMetrics {
+  /** Number of values addNoiseToMetrics releases, each costing its own share of epsilon */
+  private countStatistics(metrics: AggregateMetrics): number {
+    let count = 2 + Object.keys(metrics.eventCounts).length;
+    for (const value of Object.values(metrics.properties)) {
+      if (typeof value === 'object' && 'avg' in value) {
+        count += 4;
+      } else if (typeof value === 'object') {
+        count += Object.keys(value).length;
+      }
+    }
+    return count;
+  }
+
+  private addNoiseToMetrics(metrics: AggregateMetrics, epsilon: number): AggregateMetrics {
     const noisy = { ...metrics };
 
     // Add noise to counts
     noisy.totalEvents = Math.round(
-      differentialPrivacy.addLaplaceNoise(metrics.totalEvents, this.config.epsilon)
+      differentialPrivacy.addLaplaceNoise(metrics.totalEvents, epsilon)
     );
     noisy.uniqueUsers = Math.round(
-      differentialPrivacy.addLaplaceNoise(metrics.uniqueUsers, this.config.epsilon)
+      differentialPrivacy.addLaplaceNoise(metrics.uniqueUsers, epsilon)
     );
 
     // Add noise to event counts
     for (const [type, count] of Object.entries(metrics.eventCounts)) {
       noisy.eventCounts[type] = Math.round(
-        differentialPrivacy.addLaplaceNoise(count, this.config.epsilon)
+        differentialPrivacy.addLaplaceNoise(count, epsilon)
       );
     }
 
@@ -231,11 +260,11 @@ class PrivacyPreservingAnalytics {
     for (const [key, value] of Object.entries(metrics.properties)) {
       if (typeof value === 'object' && 'avg' in value) {
         noisy.properties[key] = {
-          avg: differentialPrivacy.addLaplaceNoise(value.avg, this.config.epsilon),
-          min: differentialPrivacy.addLaplaceNoise(value.min, this.config.epsilon),
-          max: differentialPrivacy.addLaplaceNoise(value.max, this.config.epsilon),
+          avg: differentialPrivacy.addLaplaceNoise(value.avg, epsilon),
+          min: differentialPrivacy.addLaplaceNoise(value.min, epsilon),
+          max: differentialPrivacy.addLaplaceNoise(value.max, epsilon),
           count: Math.round(
-            differentialPrivacy.addLaplaceNoise(value.count, this.config.epsilon)
+            differentialPrivacy.addLaplaceNoise(value.count, epsilon)
           )
         };
       } else if (typeof value === 'object') {
@@ -243,7 +272,7 @@ class PrivacyPreservingAnalytics {
         noisy.properties[key] = Object.fromEntries(
           Object.entries(value).map(([k, v]) => [
             k,
-            Math.round(differentialPrivacy.addLaplaceNoise(v as number, this.config.epsilon))
+            Math.round(differentialPrivacy.addLaplaceNoise(v as number, epsilon))
           ])
         );
       }
@@ -281,9 +310,15 @@ class PrivacyPreservingAnalytics {
     };
   }
 
+  /**
+   * Answers a metrics query with noise, charged to the analyst's privacy
+   * budget. Asking the same question again returns the same answer for
+   * free; once a budget is spent, PrivacyBudgetExceededError is thrown.
+   */
   async getMetrics(
     timeRange: { start: Date; end: Date },
-    eventTypes?: string[]
+    eventTypes: string[] | undefined,
+    analyst: string
   ): Promise<AggregateMetrics | null> {
     try {
       // Ensure minimum time between queries
@@ -302,11 +337,29 @@ class PrivacyPreservingAnalytics {
       if (!metrics || metrics.length === 0) return null;
 
       // Combine metrics if multiple aggregates exist
-      return this.combineMetrics(
+      const combined = this.combineMetrics(
         metrics.map(m => m.metrics),
         eventTypes
       );
+
+      // The query's epsilon is split evenly across every value it releases
+      const statistics = this.countStatistics(combined);
+      const epsilon = this.config.epsilon / statistics;
+      const queryKey = JSON.stringify({
+        start: timeRange.start.toISOString(),
+        end: timeRange.end.toISOString(),
+        eventTypes: eventTypes ? [...eventTypes].sort() : null,
+        epsilon: this.config.epsilon
+      });
+
+      return await this.accountant.answer(
+        { dataset: EVENTS_DATASET, analyst },
+        queryKey,
+        Array.from({ length: statistics }, () => ({ type: 'laplace' as const, epsilon })),
+        () => this.addNoiseToMetrics(combined, epsilon)
+      );
     } catch (error) {
+      if (error instanceof PrivacyBudgetExceededError) throw error;
       console.error('Error getting metrics:', error);
       return null;
     }
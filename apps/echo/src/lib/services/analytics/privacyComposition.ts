@@ -0,0 +1,109 @@
+/**
+ * Privacy loss of a sequence of differentially private releases. Three
+ * valid bounds are computed and the tightest one is what gets charged:
+ *
+ * - basic composition: epsilons and deltas add up
+ * - advanced composition (Dwork, Rothblum & Vadhan): grows with the square
+ *   root of the number of releases, at the cost of some delta
+ * - Rényi DP (Mironov): composes each mechanism's exact Rényi divergence
+ *   curve, then converts back to (epsilon, delta)
+ */
+
+export type Mechanism =
+  /** Laplace noise with scale sensitivity / epsilon */
+  | { type: 'laplace'; epsilon: number }
+  /** Gaussian noise with the classic calibration sigma = sensitivity * sqrt(2 ln(1.25 / delta)) / epsilon */
+  | { type: 'gaussian'; epsilon: number; delta: number }
+  /** Any other pure epsilon-DP mechanism: geometric, exponential, randomized response */
+  | { type: 'pure'; epsilon: number };
+
+export interface PrivacyBudget {
+  epsilon: number;
+  delta: number;
+}
+
+export interface PrivacyLoss {
+  /** The tightest bound, i.e. what has been spent */
+  epsilon: number;
+  delta: number;
+  basic: PrivacyBudget;
+  /** Undefined when the delta budget leaves no slack for the bound */
+  advanced?: number;
+  renyi?: number;
+}
+
+const RDP_ORDERS = [1.25, 1.5, 1.75, 2, 2.5, 3, 4, 5, 6, 8, 10, 12, 16, 20, 24, 32, 48, 64, 128, 256];
+
+function logSumExp(a: number, b: number): number {
+  const max = Math.max(a, b);
+  return max + Math.log(Math.exp(a - max) + Math.exp(b - max));
+}
+
+function mechanismDelta(mechanism: Mechanism): number {
+  return mechanism.type === 'gaussian' ? mechanism.delta : 0;
+}
+
+/** Rényi divergence of order `alpha` between neighbouring outputs of the mechanism */
+export function renyiDivergence(mechanism: Mechanism, alpha: number): number {
+  const { epsilon } = mechanism;
+  switch (mechanism.type) {
+    case 'laplace': {
+      // Mironov 2017, Proposition 6, with the Laplace scale in units of sensitivity = 1 / epsilon
+      const logTerm = logSumExp(
+        Math.log(alpha / (2 * alpha - 1)) + (alpha - 1) * epsilon,
+        Math.log((alpha - 1) / (2 * alpha - 1)) - alpha * epsilon
+      );
+      return Math.min(epsilon, logTerm / (alpha - 1));
+    }
+    case 'gaussian': {
+      const noiseMultiplier = Math.sqrt(2 * Math.log(1.25 / mechanism.delta)) / epsilon;
+      return alpha / (2 * noiseMultiplier ** 2);
+    }
+    case 'pure':
+      // epsilon-DP implies (epsilon^2 / 2)-zCDP (Bun & Steinke), and trivially epsilon at every order
+      return Math.min(epsilon, (alpha * epsilon ** 2) / 2);
+  }
+}
+
+export function basicComposition(mechanisms: Mechanism[]): PrivacyBudget {
+  return {
+    epsilon: mechanisms.reduce((sum, m) => sum + m.epsilon, 0),
+    delta: mechanisms.reduce((sum, m) => sum + mechanismDelta(m), 0)
+  };
+}
+
+/** Epsilon after advanced composition, spending `slack` of additional delta */
+export function advancedComposition(mechanisms: Mechanism[], slack: number): number {
+  const squares = mechanisms.reduce((sum, m) => sum + m.epsilon ** 2, 0);
+  const drift = mechanisms.reduce((sum, m) => sum + m.epsilon * Math.expm1(m.epsilon), 0);
+  return Math.sqrt(2 * Math.log(1 / slack) * squares) + drift;
+}
+
+/** Epsilon at `delta` from the composed Rényi curve, minimised over orders */
+export function renyiComposition(mechanisms: Mechanism[], delta: number): number {
+  let best = Infinity;
+  for (const alpha of RDP_ORDERS) {
+    const divergence = mechanisms.reduce((sum, m) => sum + renyiDivergence(m, alpha), 0);
+    best = Math.min(best, divergence + Math.log(1 / delta) / (alpha - 1));
+  }
+  return best;
+}
+
+/**
+ * The privacy loss of all `mechanisms` together, as the smallest epsilon
+ * any of the composition theorems proves while staying within `delta`.
+ */
+export function composePrivacyLoss(mechanisms: Mechanism[], delta: number): PrivacyLoss {
+  const basic = basicComposition(mechanisms);
+  if (!mechanisms.length) return { epsilon: 0, delta: 0, basic, advanced: 0, renyi: 0 };
+
+  const slack = delta - basic.delta;
+  const advanced = slack > 0 ? advancedComposition(mechanisms, slack) : undefined;
+  const renyi = delta > 0 ? renyiComposition(mechanisms, delta) : undefined;
+
+  let loss = basic.delta <= delta ? { epsilon: basic.epsilon, delta: basic.delta } : { epsilon: Infinity, delta };
+  if (advanced !== undefined && advanced < loss.epsilon) loss = { epsilon: advanced, delta };
+  if (renyi !== undefined && renyi < loss.epsilon) loss = { epsilon: renyi, delta };
+
+  return { ...loss, basic, advanced, renyi };
+}
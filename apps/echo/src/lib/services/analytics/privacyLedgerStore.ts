@@ -0,0 +1,102 @@
+import { supabase } from '$lib/supabaseClient';
+import type { Mechanism } from './privacyComposition';
+
+/** One release of noisy output, charged to a dataset and the analyst who asked */
+export interface PrivacyCharge {
+  id: string;
+  dataset: string;
+  analyst: string;
+  mechanisms: Mechanism[];
+  queryKey?: string;
+  chargedAt: string;
+}
+
+/**
+ * Persistence for the privacy accountant: an append-only ledger of charges
+ * and the noisy answers already released. Supabase-backed in production;
+ * MemoryPrivacyLedgerStore backs tests.
+ */
+export interface PrivacyLedgerStore {
+  listCharges(dataset: string): Promise<PrivacyCharge[]>;
+  /**
+   * Appends a charge only if the dataset still has `expectedCount` charges,
+   * so two servers can't both spend the last of a budget. False on conflict.
+   */
+  appendCharge(charge: PrivacyCharge, expectedCount: number): Promise<boolean>;
+
+  getCachedAnswer(dataset: string, queryKey: string): Promise<unknown | undefined>;
+  saveCachedAnswer(dataset: string, queryKey: string, answer: unknown): Promise<void>;
+}
+
+export class MemoryPrivacyLedgerStore implements PrivacyLedgerStore {
+  charges: PrivacyCharge[] = [];
+  answers = new Map<string, unknown>();
+
+  async listCharges(dataset: string) {
+    return this.charges.filter(charge => charge.dataset === dataset);
+  }
+
+  async appendCharge(charge: PrivacyCharge, expectedCount: number) {
+    if ((await this.listCharges(charge.dataset)).length !== expectedCount) return false;
+    this.charges.push(charge);
+    return true;
+  }
+
+  async getCachedAnswer(dataset: string, queryKey: string) {
+    return this.answers.get(`${dataset}\n${queryKey}`);
+  }
+
+  async saveCachedAnswer(dataset: string, queryKey: string, answer: unknown) {
+    this.answers.set(`${dataset}\n${queryKey}`, answer);
+  }
+}
+
+export class SupabasePrivacyLedgerStore implements PrivacyLedgerStore {
+  async listCharges(dataset: string): Promise<PrivacyCharge[]> {
+    const { data, error } = await supabase
+      .from('privacy_budget_charges')
+      .select('*')
+      .eq('dataset', dataset)
+      .order('charged_at', { ascending: true });
+    if (error) throw error;
+    return (data ?? []).map(row => ({
+      id: row.id,
+      dataset: row.dataset,
+      analyst: row.analyst,
+      mechanisms: row.mechanisms,
+      queryKey: row.query_key ?? undefined,
+      chargedAt: row.charged_at
+    }));
+  }
+
+  async appendCharge(charge: PrivacyCharge, expectedCount: number): Promise<boolean> {
+    const { data, error } = await supabase.rpc('append_privacy_charge', {
+      p_id: charge.id,
+      p_dataset: charge.dataset,
+      p_analyst: charge.analyst,
+      p_mechanisms: charge.mechanisms,
+      p_query_key: charge.queryKey ?? null,
+      p_charged_at: charge.chargedAt,
+      p_expected_count: expectedCount
+    });
+    if (error) throw error;
+    return data === true;
+  }
+
+  async getCachedAnswer(dataset: string, queryKey: string): Promise<unknown | undefined> {
+    const { data } = await supabase
+      .from('privacy_query_answers')
+      .select('answer')
+      .eq('dataset', dataset)
+      .eq('query_key', queryKey)
+      .maybeSingle();
+    return data?.answer ?? undefined;
+  }
+
+  async saveCachedAnswer(dataset: string, queryKey: string, answer: unknown): Promise<void> {
+    const { error } = await supabase
+      .from('privacy_query_answers')
+      .upsert({ dataset, query_key: queryKey, answer });
+    if (error) throw error;
+  }
+}
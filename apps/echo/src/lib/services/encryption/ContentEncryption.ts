@@ -1,6 +1,7 @@
-import { supabase } from '$lib/supabaseClient';
 import { Buffer } from 'buffer';
 import { webcrypto } from 'crypto';
+import { keyRegistry, type KeyRegistry } from './KeyRegistry';
+import type { KeyVersion } from './keyStore';
 
 interface EncryptionKeys {
   publicKey: JsonWebKey;
@@ -13,11 +14,18 @@ interface EncryptedContent {
   encryptedKey: string;
 }
 
-class ContentEncryptionService {
+/**
+ * Encrypts content for a set of recipients with their RSA key pairs. The
+ * key pairs are versions in the shared KeyRegistry, so rotating one keeps
+ * earlier versions around for content encrypted before the rotation.
+ */
+export class ContentEncryptionService {
   private static readonly ALGORITHM = 'AES-GCM';
   private static readonly KEY_ALGORITHM = 'RSA-OAEP';
   private static readonly KEY_LENGTH = 256;
 
+  constructor(private registry: KeyRegistry) {}
+
   private async generateKeyPair(): Promise<EncryptionKeys> {
     const keyPair = await webcrypto.subtle.generateKey(
       {
@@ -146,68 +154,90 @@ class ContentEncryptionService {
     privateKeyJwk: JsonWebKey
   ): Promise<string> {
     try {
-      // Import the private key
-      const privateKey = await this.importPrivateKey(privateKeyJwk);
-
-      // Decrypt the content key
-      const encryptedKeys = encryptedContent.encryptedKey.split(',');
-      let contentKeyJwk: JsonWebKey | null = null;
+      return await this.decryptWithPrivateKey(encryptedContent, privateKeyJwk);
+    } catch (error) {
+      console.error('Error decrypting content:', error);
+      throw error;
+    }
+  }
 
-      for (const encryptedKey of encryptedKeys) {
-        try {
-          const decryptedKeyBuffer = await webcrypto.subtle.decrypt(
-            {
-              name: ContentEncryptionService.KEY_ALGORITHM
-            },
-            privateKey,
-            Buffer.from(encryptedKey, 'base64')
-          );
-          contentKeyJwk = JSON.parse(
-            Buffer.from(decryptedKeyBuffer).toString()
-          );
-          break;
-        } catch (e) {
-          // Try next key if this one fails
-          continue;
-        }
+  /** Decrypts with whichever of the user's key versions the content was encrypted for */
+  async decryptContentForUser(
+    encryptedContent: EncryptedContent,
+    userId: string
+  ): Promise<string> {
+    const versions = await this.registry.versions(userId, 'sharing');
+    for (const version of versions) {
+      const privateKey = await this.privateKeyOf(version);
+      try {
+        return await this.decryptWithPrivateKey(encryptedContent, privateKey);
+      } catch (e) {
+        // Encrypted for a different version; try the next one
+        continue;
       }
+    }
+    throw new Error('Unable to decrypt content key');
+  }
 
-      if (!contentKeyJwk) {
-        throw new Error('Unable to decrypt content key');
+  private async decryptWithPrivateKey(
+    encryptedContent: EncryptedContent,
+    privateKeyJwk: JsonWebKey
+  ): Promise<string> {
+    // Import the private key
+    const privateKey = await this.importPrivateKey(privateKeyJwk);
+
+    // Decrypt the content key
+    const encryptedKeys = encryptedContent.encryptedKey.split(',');
+    let contentKeyJwk: JsonWebKey | null = null;
+
+    for (const encryptedKey of encryptedKeys) {
+      try {
+        const decryptedKeyBuffer = await webcrypto.subtle.decrypt(
+          {
+            name: ContentEncryptionService.KEY_ALGORITHM
+          },
+          privateKey,
+          Buffer.from(encryptedKey, 'base64')
+        );
+        contentKeyJwk = JSON.parse(
+          Buffer.from(decryptedKeyBuffer).toString()
+        );
+        break;
+      } catch (e) {
+        // Try next key if this one fails
+        continue;
       }
+    }
 
-      // Import the content key
-      const contentKey = await this.importContentKey(contentKeyJwk);
+    if (!contentKeyJwk) {
+      throw new Error('Unable to decrypt content key');
+    }
 
-      // Decrypt the content
-      const decryptedContent = await webcrypto.subtle.decrypt(
-        {
-          name: ContentEncryptionService.ALGORITHM,
-          iv: Buffer.from(encryptedContent.iv, 'base64')
-        },
-        contentKey,
-        Buffer.from(encryptedContent.ciphertext, 'base64')
-      );
+    // Import the content key
+    const contentKey = await this.importContentKey(contentKeyJwk);
 
-      return new TextDecoder().decode(decryptedContent);
-    } catch (error) {
-      console.error('Error decrypting content:', error);
-      throw error;
-    }
+    // Decrypt the content
+    const decryptedContent = await webcrypto.subtle.decrypt(
+      {
+        name: ContentEncryptionService.ALGORITHM,
+        iv: Buffer.from(encryptedContent.iv, 'base64')
+      },
+      contentKey,
+      Buffer.from(encryptedContent.ciphertext, 'base64')
+    );
+
+    return new TextDecoder().decode(decryptedContent);
   }
 
   async generateUserKeys(userId: string): Promise<void> {
     try {
       const keys = await this.generateKeyPair();
 
-      await supabase
-        .from('user_keys')
-        .insert({
-          user_id: userId,
-          public_key: keys.publicKey,
-          private_key: keys.privateKey,
-          created_at: new Date().toISOString()
-        });
+      // Any previous version is retired but kept for decryption
+      await this.registry.createVersion(userId, 'sharing', {
+        secret: new TextEncoder().encode(JSON.stringify(keys.privateKey)),
+        publicKey: keys.publicKey
+      });
     } catch (error) {
       console.error('Error generating user keys:', error);
       throw error;
@@ -216,14 +246,9 @@ class ContentEncryptionService {
 
   async getUserPublicKey(userId: string): Promise<JsonWebKey> {
     try {
-      const { data, error } = await supabase
-        .from('user_keys')
-        .select('public_key')
-        .eq('user_id', userId)
-        .single();
-
-      if (error) throw error;
-      return data.public_key;
+      const version = await this.registry.activeVersion(userId, 'sharing');
+      if (!version?.publicKey) throw new Error(`No sharing key for user ${userId}`);
+      return version.publicKey;
     } catch (error) {
       console.error('Error getting user public key:', error);
       throw error;
@@ -232,32 +257,22 @@ class ContentEncryptionService {
 
   async getUserPrivateKey(userId: string): Promise<JsonWebKey> {
     try {
-      const { data, error } = await supabase
-        .from('user_keys')
-        .select('private_key')
-        .eq('user_id', userId)
-        .single();
-
-      if (error) throw error;
-      return data.private_key;
+      const version = await this.registry.activeVersion(userId, 'sharing');
+      if (!version) throw new Error(`No sharing key for user ${userId}`);
+      return await this.privateKeyOf(version);
     } catch (error) {
       console.error('Error getting user private key:', error);
       throw error;
     }
   }
 
+  private async privateKeyOf(version: KeyVersion): Promise<JsonWebKey> {
+    return JSON.parse(new TextDecoder().decode(await this.registry.secret(version)));
+  }
+
   async rotateUserKeys(userId: string): Promise<void> {
     try {
-      const keys = await this.generateKeyPair();
-
-      await supabase
-        .from('user_keys')
-        .update({
-          public_key: keys.publicKey,
-          private_key: keys.privateKey,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', userId);
+      await this.generateUserKeys(userId);
     } catch (error) {
       console.error('Error rotating user keys:', error);
       throw error;
@@ -372,4 +387,4 @@ class ContentEncryptionService {
   }
 }
 
-export const contentEncryption = new ContentEncryptionService(); 
\ No newline at end of file
+export const contentEncryption = new ContentEncryptionService(keyRegistry); 
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Buffer } from 'buffer';
+import { webcrypto } from 'crypto';
+import { EnvelopeEncryption } from './EnvelopeEncryption';
+import { KeyRegistry } from './KeyRegistry';
+import { ContentEncryptionService } from './ContentEncryption';
+import { MemoryKeyStore, type ContentKey } from './keyStore';
+import type { Sealed } from './envelope';
+import { KeyRotationService } from '../keyRotation';
+
+vi.mock('$lib/supabaseClient', () => ({
+  supabase: {
+    from: () => ({ insert: async () => ({}) })
+  }
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+  env: {}
+}));
+
+const rootKey = Buffer.from(webcrypto.getRandomValues(new Uint8Array(32))).toString('base64');
+
+// Sharing keys are covered separately; RSA key generation is too slow to repeat per test
+const sharingKeys = {
+  generateUserKeys: vi.fn(async () => {}),
+  rotateUserKeys: vi.fn(async () => {})
+} as unknown as ContentEncryptionService;
+
+/** Fails one batch write, like a worker dying mid-rotation */
+class CrashingKeyStore extends MemoryKeyStore {
+  /** Batches still to write before the crash */
+  crashAfter = Infinity;
+
+  async saveContentKeys(keys: ContentKey[]) {
+    if (this.crashAfter-- === 0) throw new Error('connection reset');
+    await super.saveContentKeys(keys);
+  }
+}
+
+describe('envelope encryption', () => {
+  let store: CrashingKeyStore;
+  let registry: KeyRegistry;
+  let envelope: EnvelopeEncryption;
+  let rotation: KeyRotationService;
+
+  const encryptPosts = async (count: number) => {
+    const posts = new Map<string, Sealed>();
+    for (let i = 0; i < count; i++) {
+      const id = `post-${String(i).padStart(3, '0')}`;
+      posts.set(id, await envelope.encrypt('user-1', id, `secret ${id}`));
+    }
+    return posts;
+  };
+
+  beforeEach(() => {
+    store = new CrashingKeyStore();
+    registry = new KeyRegistry(store, { rootKey: () => rootKey });
+    envelope = new EnvelopeEncryption(registry);
+    rotation = new KeyRotationService({
+      registry,
+      contentEncryption: sharingKeys,
+      config: { batchSize: 4, notifyOnRotation: false }
+    });
+  });
+
+  it('round-trips content under a per-item data key', async () => {
+    const sealed = await envelope.encrypt('user-1', 'post-1', 'hello');
+    expect(sealed.ciphertext).not.toContain('hello');
+    expect(await envelope.decrypt('post-1', sealed)).toBe('hello');
+
+    const [version] = await registry.versions('user-1', 'content');
+    expect(version).toMatchObject({ version: 1, status: 'active' });
+    expect(store.contentKeys.get('post-1')?.keyVersionId).toBe(version.id);
+  });
+
+  it('refuses a wrapped key copied onto another row', async () => {
+    const a = await envelope.encrypt('user-1', 'post-a', 'first');
+    await envelope.encrypt('user-1', 'post-b', 'second');
+
+    store.contentKeys.get('post-b')!.wrappedKey = store.contentKeys.get('post-a')!.wrappedKey;
+    await expect(envelope.decrypt('post-b', a)).rejects.toThrow();
+  });
+
+  it('rotates by rewrapping data keys without touching ciphertext', async () => {
+    const posts = await encryptPosts(10);
+    const before = new Map([...store.contentKeys].map(([id, key]) => [id, key.wrappedKey]));
+
+    const job = await rotation.rotateKeys('user-1');
+    expect(job).toMatchObject({ status: 'completed', processed: 10, total: 10 });
+
+    const [current, previous] = await registry.versions('user-1', 'content');
+    expect(current).toMatchObject({ version: 2, status: 'active' });
+    expect(previous).toMatchObject({ version: 1, status: 'retired' });
+
+    for (const [id, sealed] of posts) {
+      const key = store.contentKeys.get(id)!;
+      expect(key.keyVersionId).toBe(current.id);
+      expect(key.wrappedKey).not.toBe(before.get(id));
+      expect(await envelope.decrypt(id, sealed)).toBe(`secret ${id}`);
+    }
+    expect(await rotation.getRotationProgress(job.id)).toMatchObject({ percent: 100 });
+    expect(sharingKeys.rotateUserKeys).toHaveBeenCalledWith('user-1');
+  });
+
+  it('keeps content readable mid-rotation and resumes after a crash', async () => {
+    const posts = await encryptPosts(10);
+    store.crashAfter = 1;
+
+    await expect(rotation.rotateKeys('user-1')).rejects.toThrow('Key rotation failed');
+    const [failed] = await store.listRotationJobs('failed', 'user-1');
+    expect(failed).toMatchObject({ processed: 4, total: 10, error: 'connection reset', cursor: 'post-003' });
+    expect(await rotation.getRotationProgress(failed.id)).toMatchObject({ percent: 40 });
+
+    // Half-rotated: rows reference both versions and all still decrypt
+    const versionIds = new Set([...store.contentKeys.values()].map(k => k.keyVersionId));
+    expect(versionIds.size).toBe(2);
+    for (const [id, sealed] of posts) {
+      expect(await envelope.decrypt(id, sealed)).toBe(`secret ${id}`);
+    }
+
+    const resumed = await rotation.rotateKeys('user-1');
+    expect(resumed).toMatchObject({ id: failed.id, status: 'completed', processed: 10 });
+    expect(await registry.versions('user-1', 'content')).toHaveLength(2);
+    const [current] = await registry.versions('user-1', 'content');
+    expect([...store.contentKeys.values()].every(k => k.keyVersionId === current.id)).toBe(true);
+  });
+
+  it('resumes running jobs left behind by a restart', async () => {
+    await encryptPosts(6);
+    store.crashAfter = 0;
+    await expect(rotation.rotateKeys('user-1')).rejects.toThrow();
+
+    // A process that died outright never gets to mark its job failed
+    const [job] = await store.listRotationJobs('failed');
+    await store.saveRotationJob({ ...job, status: 'running' });
+
+    const [resumed] = await rotation.resumeInterruptedRotations();
+    expect(resumed).toMatchObject({ id: job.id, status: 'completed', processed: 6 });
+  });
+
+  it('rolls a failed rotation back onto the previous key', async () => {
+    const posts = await encryptPosts(10);
+    const [original] = await registry.versions('user-1', 'content');
+
+    store.crashAfter = 1;
+    await expect(rotation.rotateKeys('user-1')).rejects.toThrow();
+
+    const [failed] = await store.listRotationJobs('failed', 'user-1');
+    await expect(rotation.rollbackRotation(failed.id)).resolves.toMatchObject({ status: 'rolled_back' });
+
+    expect(await registry.activeVersion('user-1', 'content')).toMatchObject({ id: original.id });
+    expect((await registry.getVersion(failed.toVersionId)).status).toBe('retired');
+    expect([...store.contentKeys.values()].every(k => k.keyVersionId === original.id)).toBe(true);
+    for (const [id, sealed] of posts) {
+      expect(await envelope.decrypt(id, sealed)).toBe(`secret ${id}`);
+    }
+
+    await expect(rotation.rollbackRotation(failed.id)).rejects.toThrow('Only failed rotations');
+  });
+
+  it('requires a root key', async () => {
+    const unconfigured = new EnvelopeEncryption(new KeyRegistry(new MemoryKeyStore(), { rootKey: () => undefined }));
+    await expect(unconfigured.encrypt('user-1', 'post-1', 'hello')).rejects.toThrow('ENCRYPTION_ROOT_KEY');
+  });
+});
+
+describe('sharing key rotation', () => {
+  it('keeps earlier key pairs for content encrypted before a rotation', async () => {
+    const registry = new KeyRegistry(new MemoryKeyStore(), { rootKey: () => rootKey });
+    const encryption = new ContentEncryptionService(registry);
+
+    await encryption.generateUserKeys('user-1');
+    const sealed = await encryption.encryptContent('before rotation', [await encryption.getUserPublicKey('user-1')]);
+
+    await encryption.rotateUserKeys('user-1');
+    const [current, previous] = await registry.versions('user-1', 'sharing');
+    expect(current).toMatchObject({ version: 2, status: 'active' });
+    expect(previous).toMatchObject({ version: 1, status: 'retired' });
+
+    await expect(encryption.decryptContentForUser(sealed, 'user-1')).resolves.toBe('before rotation');
+  });
+});
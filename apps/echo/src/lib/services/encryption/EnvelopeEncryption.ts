@@ -0,0 +1,38 @@
+import { generateAesKey, open, seal, type Sealed } from './envelope';
+import { keyRegistry, type KeyRegistry } from './KeyRegistry';
+
+/**
+ * Encrypts each content item under its own data key and stores that key
+ * wrapped by the owner's active content KEK. Rotating the KEK then only
+ * rewraps the small key blobs; the content ciphertext never changes.
+ */
+export class EnvelopeEncryption {
+  constructor(private registry: KeyRegistry) {}
+
+  async encrypt(userId: string, contentId: string, plaintext: string): Promise<Sealed> {
+    const version =
+      (await this.registry.activeVersion(userId, 'content')) ??
+      (await this.registry.createVersion(userId, 'content'));
+
+    const dataKey = await generateAesKey();
+    const sealed = await seal(dataKey, new TextEncoder().encode(plaintext), `content:${contentId}`);
+    await this.registry.store.saveContentKey({
+      contentId,
+      userId,
+      keyVersionId: version.id,
+      wrappedKey: await this.registry.wrapDataKey(dataKey, contentId, version)
+    });
+    return sealed;
+  }
+
+  async decrypt(contentId: string, sealed: Sealed): Promise<string> {
+    const contentKey = await this.registry.store.getContentKey(contentId);
+    if (!contentKey) throw new Error(`No data key for content ${contentId}`);
+
+    const version = await this.registry.getVersion(contentKey.keyVersionId);
+    const dataKey = await this.registry.unwrapDataKey(contentKey.wrappedKey, contentId, version);
+    return new TextDecoder().decode(await open(dataKey, sealed, `content:${contentId}`));
+  }
+}
+
+export const envelopeEncryption = new EnvelopeEncryption(keyRegistry);
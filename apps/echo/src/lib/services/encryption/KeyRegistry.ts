@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+import { env } from '$env/dynamic/private';
+import { fromBase64, importAesKey, open, randomKeyBytes, seal, unwrapKey, wrapKey } from './envelope';
+import { SupabaseKeyStore, type KeyPurpose, type KeyStore, type KeyVersion } from './keyStore';
+
+/** Secret material for a new key version; content KEKs are generated when omitted */
+export interface KeyMaterial {
+  secret: Uint8Array;
+  publicKey?: JsonWebKey;
+}
+
+interface KeyRegistryOptions {
+  /** Base64 of the 32-byte root key that seals every stored secret */
+  rootKey: () => string | undefined;
+  now?: () => Date;
+}
+
+/**
+ * The versioned keys of every user, for every purpose. Secrets are stored
+ * sealed by the root key; old versions stay readable after a rotation so
+ * nothing encrypted under them is lost.
+ */
+export class KeyRegistry {
+  readonly store: KeyStore;
+  private rootKey: () => string | undefined;
+  private now: () => Date;
+  private root?: Promise<CryptoKey>;
+
+  constructor(store: KeyStore, options: KeyRegistryOptions) {
+    this.store = store;
+    this.rootKey = options.rootKey;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  private rootCryptoKey(): Promise<CryptoKey> {
+    if (!this.root) {
+      const encoded = this.rootKey();
+      if (!encoded) throw new Error('ENCRYPTION_ROOT_KEY is not configured');
+      const raw = fromBase64(encoded);
+      if (raw.length !== 32) throw new Error('ENCRYPTION_ROOT_KEY must be 32 bytes of base64');
+      this.root = importAesKey(raw);
+    }
+    return this.root;
+  }
+
+  private secretContext(version: Pick<KeyVersion, 'userId' | 'purpose' | 'version'>): string {
+    return `key:${version.userId}:${version.purpose}:${version.version}`;
+  }
+
+  async getVersion(id: string): Promise<KeyVersion> {
+    const version = await this.store.getVersion(id);
+    if (!version) throw new Error(`Unknown key version ${id}`);
+    return version;
+  }
+
+  /** All versions, newest first */
+  async versions(userId: string, purpose: KeyPurpose): Promise<KeyVersion[]> {
+    return this.store.listVersions(userId, purpose);
+  }
+
+  async activeVersion(userId: string, purpose: KeyPurpose): Promise<KeyVersion | null> {
+    const versions = await this.store.listVersions(userId, purpose);
+    return versions.find(v => v.status === 'active') ?? null;
+  }
+
+  /**
+   * Adds a new active version. The previous active version becomes
+   * `retiring` when data must be moved off it (content KEKs) and `retired`
+   * otherwise.
+   */
+  async createVersion(userId: string, purpose: KeyPurpose, material?: KeyMaterial): Promise<KeyVersion> {
+    const versions = await this.store.listVersions(userId, purpose);
+    const previous = versions.find(v => v.status === 'active');
+
+    const secret = material?.secret ?? randomKeyBytes();
+    const number = (versions[0]?.version ?? 0) + 1;
+    const sealed = await seal(
+      await this.rootCryptoKey(),
+      secret,
+      this.secretContext({ userId, purpose, version: number })
+    );
+
+    const version: KeyVersion = {
+      id: randomUUID(),
+      userId,
+      purpose,
+      version: number,
+      status: 'active',
+      wrappedSecret: `${sealed.iv}.${sealed.ciphertext}`,
+      publicKey: material?.publicKey,
+      createdAt: this.now().toISOString()
+    };
+    await this.store.insertVersion(version);
+
+    if (previous) {
+      if (purpose === 'content') {
+        await this.store.setVersionStatus(previous.id, 'retiring');
+      } else {
+        await this.store.setVersionStatus(previous.id, 'retired', version.createdAt);
+      }
+    }
+    return version;
+  }
+
+  async setStatus(id: string, status: KeyVersion['status']): Promise<void> {
+    await this.store.setVersionStatus(id, status, status === 'retired' ? this.now().toISOString() : undefined);
+  }
+
+  async secret(version: KeyVersion): Promise<Uint8Array> {
+    const [iv, ciphertext] = version.wrappedSecret.split('.');
+    return open(await this.rootCryptoKey(), { iv, ciphertext }, this.secretContext(version));
+  }
+
+  /** A content KEK, ready to wrap or unwrap data keys */
+  async keyEncryptionKey(version: KeyVersion): Promise<CryptoKey> {
+    if (version.purpose !== 'content') throw new Error(`Key version ${version.id} is not a content key`);
+    return importAesKey(await this.secret(version));
+  }
+
+  async wrapDataKey(dataKey: CryptoKey, contentId: string, version: KeyVersion, kek?: CryptoKey): Promise<string> {
+    return wrapKey(dataKey, kek ?? (await this.keyEncryptionKey(version)), `content:${contentId}:${version.id}`);
+  }
+
+  async unwrapDataKey(wrapped: string, contentId: string, version: KeyVersion, kek?: CryptoKey): Promise<CryptoKey> {
+    return unwrapKey(wrapped, kek ?? (await this.keyEncryptionKey(version)), `content:${contentId}:${version.id}`);
+  }
+}
+
+export const keyRegistry = new KeyRegistry(new SupabaseKeyStore(), {
+  rootKey: () => env.ENCRYPTION_ROOT_KEY
+});
@@ -0,0 +1,73 @@
+import { Buffer } from 'buffer';
+import { webcrypto } from 'crypto';
+
+/**
+ * Primitives for envelope encryption: content is encrypted under its own
+ * data key (DEK), and the DEK is stored wrapped by a key-encryption key
+ * (KEK). Every wrap binds associated data naming what the blob belongs
+ * to, so a wrapped key copied onto another row fails to unwrap.
+ */
+
+const ALGORITHM = 'AES-GCM';
+const KEY_LENGTH = 256;
+const IV_LENGTH = 12;
+
+export interface Sealed {
+  ciphertext: string;
+  iv: string;
+}
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return Buffer.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).toString('base64');
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'base64'));
+}
+
+/** Raw material for a new 256-bit AES key */
+export function randomKeyBytes(): Uint8Array {
+  return webcrypto.getRandomValues(new Uint8Array(KEY_LENGTH / 8));
+}
+
+export async function generateAesKey(): Promise<CryptoKey> {
+  return await webcrypto.subtle.generateKey({ name: ALGORITHM, length: KEY_LENGTH }, true, [
+    'encrypt',
+    'decrypt'
+  ]);
+}
+
+export async function importAesKey(raw: Uint8Array): Promise<CryptoKey> {
+  return await webcrypto.subtle.importKey('raw', raw, { name: ALGORITHM }, true, ['encrypt', 'decrypt']);
+}
+
+export async function seal(key: CryptoKey, plaintext: Uint8Array, associatedData: string): Promise<Sealed> {
+  const iv = webcrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await webcrypto.subtle.encrypt(
+    { name: ALGORITHM, iv, additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    plaintext
+  );
+  return { ciphertext: toBase64(ciphertext), iv: toBase64(iv) };
+}
+
+export async function open(key: CryptoKey, sealed: Sealed, associatedData: string): Promise<Uint8Array> {
+  const plaintext = await webcrypto.subtle.decrypt(
+    { name: ALGORITHM, iv: fromBase64(sealed.iv), additionalData: new TextEncoder().encode(associatedData) },
+    key,
+    fromBase64(sealed.ciphertext)
+  );
+  return new Uint8Array(plaintext);
+}
+
+/** Wraps a key for storage as `iv.ciphertext` */
+export async function wrapKey(key: CryptoKey, wrappingKey: CryptoKey, associatedData: string): Promise<string> {
+  const raw = new Uint8Array(await webcrypto.subtle.exportKey('raw', key));
+  const sealed = await seal(wrappingKey, raw, associatedData);
+  return `${sealed.iv}.${sealed.ciphertext}`;
+}
+
+export async function unwrapKey(wrapped: string, wrappingKey: CryptoKey, associatedData: string): Promise<CryptoKey> {
+  const [iv, ciphertext] = wrapped.split('.');
+  return await importAesKey(await open(wrappingKey, { iv, ciphertext }, associatedData));
+}
@@ -0,0 +1,290 @@
+import { supabase } from '$lib/supabaseClient';
+
+/** `content` KEKs wrap per-post data keys; `sharing` key pairs encrypt for recipients */
+export type KeyPurpose = 'content' | 'sharing';
+
+/**
+ * `active` keys encrypt new data. `retiring` keys still have data wrapped
+ * under them that a rotation job is moving off; `retired` keys are kept
+ * for decrypting anything that still references them.
+ */
+export type KeyStatus = 'active' | 'retiring' | 'retired';
+
+export interface KeyVersion {
+  id: string;
+  userId: string;
+  purpose: KeyPurpose;
+  version: number;
+  status: KeyStatus;
+  /** The secret half (AES key or RSA private JWK), sealed by the root key */
+  wrappedSecret: string;
+  publicKey?: JsonWebKey;
+  createdAt: string;
+  retiredAt?: string;
+}
+
+/** A content item's data key, wrapped by one of its owner's content KEKs */
+export interface ContentKey {
+  contentId: string;
+  userId: string;
+  keyVersionId: string;
+  wrappedKey: string;
+}
+
+export type RotationStatus = 'running' | 'completed' | 'failed' | 'rolled_back';
+
+export interface RotationJob {
+  id: string;
+  userId: string;
+  fromVersionId: string;
+  toVersionId: string;
+  status: RotationStatus;
+  /** Last content id rewrapped; a resumed job continues after it */
+  cursor?: string;
+  processed: number;
+  total: number;
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for key versions, wrapped data keys and rotation jobs, shared
+ * by KeyRotationService and ContentEncryptionService. Supabase-backed in
+ * production; MemoryKeyStore backs tests.
+ */
+export interface KeyStore {
+  listVersions(userId: string, purpose: KeyPurpose): Promise<KeyVersion[]>;
+  getVersion(id: string): Promise<KeyVersion | null>;
+  insertVersion(version: KeyVersion): Promise<void>;
+  setVersionStatus(id: string, status: KeyStatus, retiredAt?: string): Promise<void>;
+
+  saveContentKey(key: ContentKey): Promise<void>;
+  getContentKey(contentId: string): Promise<ContentKey | null>;
+  /** A page of the data keys wrapped under a version, in content id order */
+  listContentKeys(keyVersionId: string, afterContentId: string | undefined, limit: number): Promise<ContentKey[]>;
+  countContentKeys(keyVersionId: string): Promise<number>;
+  saveContentKeys(keys: ContentKey[]): Promise<void>;
+
+  saveRotationJob(job: RotationJob): Promise<void>;
+  getRotationJob(id: string): Promise<RotationJob | null>;
+  listRotationJobs(status: RotationStatus, userId?: string): Promise<RotationJob[]>;
+}
+
+export class MemoryKeyStore implements KeyStore {
+  versions = new Map<string, KeyVersion>();
+  contentKeys = new Map<string, ContentKey>();
+  jobs = new Map<string, RotationJob>();
+
+  async listVersions(userId: string, purpose: KeyPurpose) {
+    return [...this.versions.values()]
+      .filter(v => v.userId === userId && v.purpose === purpose)
+      .sort((a, b) => b.version - a.version)
+      .map(v => ({ ...v }));
+  }
+
+  async getVersion(id: string) {
+    const version = this.versions.get(id);
+    return version ? { ...version } : null;
+  }
+
+  async insertVersion(version: KeyVersion) {
+    const existing = await this.listVersions(version.userId, version.purpose);
+    if (existing.some(v => v.version === version.version)) {
+      throw new Error(`Key version ${version.version} already exists`);
+    }
+    this.versions.set(version.id, { ...version });
+  }
+
+  async setVersionStatus(id: string, status: KeyStatus, retiredAt?: string) {
+    const version = this.versions.get(id);
+    if (version) Object.assign(version, { status, retiredAt });
+  }
+
+  async saveContentKey(key: ContentKey) {
+    this.contentKeys.set(key.contentId, { ...key });
+  }
+
+  async getContentKey(contentId: string) {
+    const key = this.contentKeys.get(contentId);
+    return key ? { ...key } : null;
+  }
+
+  async listContentKeys(keyVersionId: string, afterContentId: string | undefined, limit: number) {
+    return [...this.contentKeys.values()]
+      .filter(k => k.keyVersionId === keyVersionId && (afterContentId === undefined || k.contentId > afterContentId))
+      .sort((a, b) => (a.contentId < b.contentId ? -1 : 1))
+      .slice(0, limit)
+      .map(k => ({ ...k }));
+  }
+
+  async countContentKeys(keyVersionId: string) {
+    return [...this.contentKeys.values()].filter(k => k.keyVersionId === keyVersionId).length;
+  }
+
+  async saveContentKeys(keys: ContentKey[]) {
+    for (const key of keys) await this.saveContentKey(key);
+  }
+
+  async saveRotationJob(job: RotationJob) {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async getRotationJob(id: string) {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async listRotationJobs(status: RotationStatus, userId?: string) {
+    return [...this.jobs.values()]
+      .filter(job => job.status === status && (!userId || job.userId === userId))
+      .map(job => ({ ...job }));
+  }
+}
+
+export class SupabaseKeyStore implements KeyStore {
+  async listVersions(userId: string, purpose: KeyPurpose): Promise<KeyVersion[]> {
+    const { data, error } = await supabase
+      .from('key_versions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('purpose', purpose)
+      .order('version', { ascending: false });
+    if (error) throw error;
+    return (data ?? []).map(toKeyVersion);
+  }
+
+  async getVersion(id: string): Promise<KeyVersion | null> {
+    const { data } = await supabase.from('key_versions').select('*').eq('id', id).maybeSingle();
+    return data ? toKeyVersion(data) : null;
+  }
+
+  async insertVersion(version: KeyVersion): Promise<void> {
+    const { error } = await supabase.from('key_versions').insert({
+      id: version.id,
+      user_id: version.userId,
+      purpose: version.purpose,
+      version: version.version,
+      status: version.status,
+      wrapped_secret: version.wrappedSecret,
+      public_key: version.publicKey ?? null,
+      created_at: version.createdAt
+    });
+    if (error) throw error;
+  }
+
+  async setVersionStatus(id: string, status: KeyStatus, retiredAt?: string): Promise<void> {
+    const { error } = await supabase
+      .from('key_versions')
+      .update({ status, retired_at: retiredAt ?? null })
+      .eq('id', id);
+    if (error) throw error;
+  }
+
+  async saveContentKey(key: ContentKey): Promise<void> {
+    await this.saveContentKeys([key]);
+  }
+
+  async getContentKey(contentId: string): Promise<ContentKey | null> {
+    const { data } = await supabase.from('content_keys').select('*').eq('content_id', contentId).maybeSingle();
+    return data ? toContentKey(data) : null;
+  }
+
+  async listContentKeys(keyVersionId: string, afterContentId: string | undefined, limit: number): Promise<ContentKey[]> {
+    let query = supabase.from('content_keys').select('*').eq('key_version_id', keyVersionId);
+    if (afterContentId !== undefined) query = query.gt('content_id', afterContentId);
+    const { data, error } = await query.order('content_id', { ascending: true }).limit(limit);
+    if (error) throw error;
+    return (data ?? []).map(toContentKey);
+  }
+
+  async countContentKeys(keyVersionId: string): Promise<number> {
+    const { count } = await supabase
+      .from('content_keys')
+      .select('content_id', { count: 'exact', head: true })
+      .eq('key_version_id', keyVersionId);
+    return count ?? 0;
+  }
+
+  async saveContentKeys(keys: ContentKey[]): Promise<void> {
+    if (!keys.length) return;
+    const { error } = await supabase.from('content_keys').upsert(
+      keys.map(key => ({
+        content_id: key.contentId,
+        user_id: key.userId,
+        key_version_id: key.keyVersionId,
+        wrapped_key: key.wrappedKey
+      }))
+    );
+    if (error) throw error;
+  }
+
+  async saveRotationJob(job: RotationJob): Promise<void> {
+    const { error } = await supabase.from('key_rotation_jobs').upsert({
+      id: job.id,
+      user_id: job.userId,
+      from_version_id: job.fromVersionId,
+      to_version_id: job.toVersionId,
+      status: job.status,
+      cursor: job.cursor ?? null,
+      processed: job.processed,
+      total: job.total,
+      error: job.error ?? null,
+      started_at: job.startedAt,
+      updated_at: job.updatedAt
+    });
+    if (error) throw error;
+  }
+
+  async getRotationJob(id: string): Promise<RotationJob | null> {
+    const { data } = await supabase.from('key_rotation_jobs').select('*').eq('id', id).maybeSingle();
+    return data ? toRotationJob(data) : null;
+  }
+
+  async listRotationJobs(status: RotationStatus, userId?: string): Promise<RotationJob[]> {
+    let query = supabase.from('key_rotation_jobs').select('*').eq('status', status);
+    if (userId) query = query.eq('user_id', userId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []).map(toRotationJob);
+  }
+}
+
+function toKeyVersion(row: any): KeyVersion {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    purpose: row.purpose,
+    version: row.version,
+    status: row.status,
+    wrappedSecret: row.wrapped_secret,
+    publicKey: row.public_key ?? undefined,
+    createdAt: row.created_at,
+    retiredAt: row.retired_at ?? undefined
+  };
+}
+
+function toContentKey(row: any): ContentKey {
+  return {
+    contentId: row.content_id,
+    userId: row.user_id,
+    keyVersionId: row.key_version_id,
+    wrappedKey: row.wrapped_key
+  };
+}
+
+function toRotationJob(row: any): RotationJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    fromVersionId: row.from_version_id,
+    toVersionId: row.to_version_id,
+    status: row.status,
+    cursor: row.cursor ?? undefined,
+    processed: row.processed,
+    total: row.total,
+    error: row.error ?? undefined,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at
+  };
+}
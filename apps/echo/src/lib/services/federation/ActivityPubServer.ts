@@ -0,0 +1,580 @@
+import { randomUUID } from 'node:crypto';
+import {
+  SupabaseActivityPubStore,
+  type ActivityPubStore,
+  type APObject,
+  type LocalActor,
+  type RemoteActor
+} from './activityPubStore';
+import { DeliveryError, DeliveryQueue } from './DeliveryQueue';
+import {
+  SignatureError,
+  parseSignatureHeader,
+  signRequest,
+  verifyRequest,
+  type IncomingRequest,
+  type ParsedSignature
+} from './httpSignatures';
+
+export const AS_CONTEXT = 'https://www.w3.org/ns/activitystreams';
+export const PUBLIC_COLLECTION = 'https://www.w3.org/ns/activitystreams#Public';
+export const ACTIVITY_JSON = 'application/activity+json';
+const SECURITY_CONTEXT = 'https://w3id.org/security/v1';
+const ACCEPT_ACTIVITY = `${ACTIVITY_JSON}, application/ld+json; profile="${AS_CONTEXT}"`;
+const NODEINFO_SCHEMA = 'http://nodeinfo.diaspora.software/ns/schema/2.1';
+
+const PAGE_SIZE = 20;
+const ACTOR_CACHE_MS = 24 * 60 * 60 * 1000;
+
+interface ActivityPubServerOptions {
+  domain: string;
+  store: ActivityPubStore;
+  fetch?: typeof fetch;
+  now?: () => Date;
+  /** Passed to the delivery queue; 0 leaves processing to the caller */
+  deliveryPollIntervalMs?: number;
+  openRegistrations?: boolean;
+}
+
+export interface InboxResult {
+  status: number;
+  error?: string;
+}
+
+/** Told about each post a remote actor creates, after it has been stored */
+export type RemotePostListener = (object: APObject, actor: RemoteActor) => Promise<unknown>;
+
+export function idOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as APObject).id === 'string') {
+    return (value as APObject).id;
+  }
+  return undefined;
+}
+
+export function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * The server side of ActivityPub for echo users: discovery (WebFinger,
+ * NodeInfo), actor documents and collections, a signature-verifying inbox
+ * and signed delivery to remote inboxes.
+ */
+export class ActivityPubServer {
+  readonly domain: string;
+  readonly delivery: DeliveryQueue;
+  private store: ActivityPubStore;
+  private fetch: typeof fetch;
+  private now: () => Date;
+  private openRegistrations: boolean;
+  private remotePostListeners: RemotePostListener[] = [];
+
+  constructor(options: ActivityPubServerOptions) {
+    this.domain = options.domain;
+    this.store = options.store;
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? (() => new Date());
+    this.openRegistrations = options.openRegistrations ?? true;
+    this.delivery = new DeliveryQueue(this.store, job => this.deliver(job), {
+      now: this.now,
+      pollIntervalMs: options.deliveryPollIntervalMs
+    });
+  }
+
+  actorUrl(username: string): string {
+    return `https://${this.domain}/users/${username}`;
+  }
+
+  get sharedInboxUrl(): string {
+    return `https://${this.domain}/inbox`;
+  }
+
+  onRemotePost(listener: RemotePostListener): void {
+    this.remotePostListeners.push(listener);
+  }
+
+  isLocal(uri: string): boolean {
+    return uri.startsWith(`https://${this.domain}/`);
+  }
+
+  private localUsername(uri: string | undefined): string | undefined {
+    const prefix = `https://${this.domain}/users/`;
+    if (!uri?.startsWith(prefix)) return undefined;
+    const username = uri.slice(prefix.length);
+    return username && !username.includes('/') ? username : undefined;
+  }
+
+  private newId(kind: 'activities' | 'objects'): string {
+    return `https://${this.domain}/${kind}/${randomUUID()}`;
+  }
+
+  // Discovery
+
+  async webfinger(resource: string): Promise<APObject | null> {
+    let username: string | undefined;
+    const acct = /^acct:([^@]+)@(.+)$/.exec(resource);
+    if (acct) {
+      if (acct[2].toLowerCase() !== this.domain.toLowerCase()) return null;
+      username = acct[1];
+    } else {
+      username = this.localUsername(resource);
+    }
+
+    const actor = username ? await this.store.getLocalActor(username) : null;
+    if (!actor) return null;
+
+    return {
+      subject: `acct:${actor.username}@${this.domain}`,
+      aliases: [this.actorUrl(actor.username)],
+      links: [{ rel: 'self', type: ACTIVITY_JSON, href: this.actorUrl(actor.username) }]
+    };
+  }
+
+  nodeInfoLinks(): APObject {
+    return { links: [{ rel: NODEINFO_SCHEMA, href: `https://${this.domain}/nodeinfo/2.1` }] };
+  }
+
+  async nodeInfo(): Promise<APObject> {
+    const [users, localPosts] = await Promise.all([
+      this.store.countLocalUsers(),
+      this.store.countLocalPosts()
+    ]);
+    return {
+      version: '2.1',
+      software: { name: 'echo', version: '0.0.1' },
+      protocols: ['activitypub'],
+      services: { inbound: [], outbound: [] },
+      openRegistrations: this.openRegistrations,
+      usage: { users: { total: users }, localPosts },
+      metadata: {}
+    };
+  }
+
+  // Actor and collections
+
+  async actor(username: string): Promise<APObject | null> {
+    const actor = await this.store.getLocalActor(username);
+    if (!actor) return null;
+
+    const id = this.actorUrl(actor.username);
+    return {
+      '@context': [AS_CONTEXT, SECURITY_CONTEXT],
+      id,
+      type: 'Person',
+      preferredUsername: actor.username,
+      name: actor.displayName ?? actor.username,
+      summary: actor.summary,
+      inbox: `${id}/inbox`,
+      outbox: `${id}/outbox`,
+      followers: `${id}/followers`,
+      endpoints: { sharedInbox: this.sharedInboxUrl },
+      icon: actor.avatarUrl ? { type: 'Image', url: actor.avatarUrl } : undefined,
+      publicKey: {
+        id: `${id}#main-key`,
+        owner: id,
+        publicKeyPem: actor.publicKeyPem
+      }
+    };
+  }
+
+  async outbox(username: string, page?: number): Promise<APObject | null> {
+    const actor = await this.store.getLocalActor(username);
+    if (!actor) return null;
+
+    const offset = ((page ?? 1) - 1) * PAGE_SIZE;
+    const { total, items } = await this.store.listOutbox(actor.userId, offset, PAGE_SIZE);
+    return this.collection(`${this.actorUrl(username)}/outbox`, total, page, items);
+  }
+
+  async followers(username: string, page?: number): Promise<APObject | null> {
+    const actor = await this.store.getLocalActor(username);
+    if (!actor) return null;
+
+    const offset = ((page ?? 1) - 1) * PAGE_SIZE;
+    const { total, items } = await this.store.listFollowers(actor.userId, offset, PAGE_SIZE);
+    return this.collection(
+      `${this.actorUrl(username)}/followers`,
+      total,
+      page,
+      items.map(follower => follower.actorId)
+    );
+  }
+
+  private collection(id: string, total: number, page: number | undefined, items: unknown[]): APObject {
+    if (page === undefined) {
+      return { '@context': AS_CONTEXT, id, type: 'OrderedCollection', totalItems: total, first: `${id}?page=1` };
+    }
+    return {
+      '@context': AS_CONTEXT,
+      id: `${id}?page=${page}`,
+      type: 'OrderedCollectionPage',
+      partOf: id,
+      totalItems: total,
+      orderedItems: items,
+      next: page * PAGE_SIZE < total ? `${id}?page=${page + 1}` : undefined,
+      prev: page > 1 ? `${id}?page=${page - 1}` : undefined
+    };
+  }
+
+  // Inbox
+
+  /**
+   * Verifies and processes one inbound activity. `username` is set for a
+   * personal inbox and undefined for the shared inbox. Redeliveries are
+   * acknowledged without being processed twice.
+   */
+  async handleInbox(request: IncomingRequest, username?: string): Promise<InboxResult> {
+    let activity: APObject;
+    try {
+      activity = JSON.parse(request.body ?? '');
+    } catch {
+      return { status: 400, error: 'Invalid JSON' };
+    }
+    const actorId = idOf(activity?.actor);
+    if (typeof activity?.type !== 'string' || !actorId) {
+      return { status: 400, error: 'Not an activity' };
+    }
+    if (username && !(await this.store.getLocalActor(username))) {
+      return { status: 404, error: 'Actor not found' };
+    }
+
+    const header = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'signature')?.[1];
+    if (!header) {
+      return { status: 401, error: 'Missing signature' };
+    }
+
+    let signer: RemoteActor;
+    try {
+      signer = await this.verifySignature(request, parseSignatureHeader(header));
+    } catch (error) {
+      // A deleted actor's key can no longer be fetched; if we never cached it there's nothing to clean up
+      if (activity.type === 'Delete' && idOf(activity.object) === actorId && !(error instanceof SignatureError)) {
+        return { status: 202 };
+      }
+      return { status: 401, error: error instanceof Error ? error.message : 'Invalid signature' };
+    }
+    if (signer.id !== actorId) {
+      return { status: 401, error: 'Signature does not belong to the activity actor' };
+    }
+
+    // Claimed before dispatch so concurrent redeliveries aren't processed twice
+    if (activity.id && !(await this.store.markActivitySeen(activity.id))) {
+      return { status: 202 };
+    }
+
+    try {
+      await this.dispatch(activity, signer);
+    } catch (error) {
+      console.error('Error processing inbox activity:', error);
+      // Let the sender's retry through
+      if (activity.id) {
+        await this.store.unmarkActivitySeen(activity.id).catch(unmarkError => {
+          console.error('Error releasing inbox activity:', unmarkError);
+        });
+      }
+      return { status: 500, error: 'Failed to process activity' };
+    }
+    return { status: 202 };
+  }
+
+  private async verifySignature(request: IncomingRequest, signature: ParsedSignature): Promise<RemoteActor> {
+    const ownerId = signature.keyId.split('#')[0];
+    let actor = await this.fetchActor(ownerId);
+    if (actor.publicKeyId !== signature.keyId) {
+      actor = await this.fetchActor(ownerId, true);
+    }
+
+    try {
+      verifyRequest(request, signature, actor.publicKeyPem, this.now());
+      return actor;
+    } catch (error) {
+      // The actor may have rotated its key since we cached it
+      const refreshed = await this.fetchActor(ownerId, true);
+      if (refreshed.publicKeyPem === actor.publicKeyPem) throw error;
+      verifyRequest(request, signature, refreshed.publicKeyPem, this.now());
+      return refreshed;
+    }
+  }
+
+  private async dispatch(activity: APObject, actor: RemoteActor): Promise<void> {
+    switch (activity.type) {
+      case 'Follow':
+        return this.onFollow(activity, actor);
+      case 'Accept':
+        await this.store.acceptFollowing(idOf(activity.object) ?? '', actor.id);
+        return;
+      case 'Undo':
+        return this.onUndo(activity, actor);
+      case 'Like':
+      case 'Announce': {
+        const objectId = idOf(activity.object);
+        // Boosts of remote posts only matter to timelines, which echo doesn't build from AP yet
+        if (!activity.id || !objectId || !this.isLocal(objectId)) return;
+        await this.store.addInteraction({
+          activityId: activity.id,
+          type: activity.type,
+          actorId: actor.id,
+          objectId
+        });
+        return;
+      }
+      case 'Create': {
+        const object = activity.object;
+        if (!object || typeof object !== 'object' || !object.id) return;
+        if (idOf(object.attributedTo) !== actor.id) return;
+        await this.store.saveRemoteObject(object, actor.id);
+        for (const listener of this.remotePostListeners) {
+          // The post is stored either way; a failing listener must not make the sender redeliver it
+          await listener(object, actor).catch(error => console.error('Error handling remote post:', error));
+        }
+        return;
+      }
+      case 'Delete':
+        return this.onDelete(activity, actor);
+      default:
+        return;
+    }
+  }
+
+  private async onFollow(activity: APObject, actor: RemoteActor): Promise<void> {
+    const username = this.localUsername(idOf(activity.object));
+    const local = username ? await this.store.getLocalActor(username) : null;
+    if (!local || !activity.id) return;
+
+    await this.store.addFollower(local.userId, {
+      actorId: actor.id,
+      inbox: actor.inbox,
+      sharedInbox: actor.sharedInbox,
+      followActivityId: activity.id
+    });
+
+    const accept = {
+      '@context': AS_CONTEXT,
+      id: this.newId('activities'),
+      type: 'Accept',
+      actor: this.actorUrl(local.username),
+      object: activity
+    };
+    await this.delivery.enqueue(local.userId, [actor.inbox], accept);
+  }
+
+  private async onUndo(activity: APObject, actor: RemoteActor): Promise<void> {
+    const inner = activity.object;
+    const innerId = idOf(inner);
+    if (!innerId) return;
+
+    if (inner && typeof inner === 'object') {
+      if (idOf(inner.actor) !== actor.id) return;
+      if (inner.type === 'Follow') {
+        const username = this.localUsername(idOf(inner.object));
+        const local = username ? await this.store.getLocalActor(username) : null;
+        if (local) await this.store.removeFollower(local.userId, actor.id);
+        return;
+      }
+    }
+    await this.store.removeInteraction(innerId, actor.id);
+  }
+
+  private async onDelete(activity: APObject, actor: RemoteActor): Promise<void> {
+    const objectId = idOf(activity.object);
+    if (!objectId) return;
+
+    if (objectId === actor.id) {
+      await this.store.removeFollowerEverywhere(actor.id);
+      await this.store.removeInteractionsByActor(actor.id);
+      await this.store.deleteRemoteObjectsByActor(actor.id);
+      await this.store.deleteRemoteActor(actor.id);
+      return;
+    }
+    await this.store.deleteRemoteObject(objectId, actor.id);
+  }
+
+  // Outbound
+
+  /**
+   * Stores an activity in the user's outbox and queues delivery. Activities
+   * without addressing are public and copied to followers. Followers are
+   * reached through their shared inboxes where they have one, so a post
+   * reaches each remote instance once however many of its users follow.
+   */
+  async publish(userId: string, activity: APObject): Promise<APObject> {
+    const local = await this.store.getLocalActorByUserId(userId);
+    if (!local) {
+      throw new Error('Local actor not found');
+    }
+
+    const actorUrl = this.actorUrl(local.username);
+    const addressing =
+      activity.to === undefined && activity.cc === undefined
+        ? { to: [PUBLIC_COLLECTION], cc: [`${actorUrl}/followers`] }
+        : { to: activity.to, cc: activity.cc };
+    const published: APObject = {
+      '@context': AS_CONTEXT,
+      ...activity,
+      ...addressing,
+      id: activity.id ?? this.newId('activities'),
+      actor: actorUrl
+    };
+    if (published.object && typeof published.object === 'object' && ['Create', 'Update'].includes(published.type!)) {
+      const object: APObject = { ...published.object };
+      if (object.type !== 'Person') {
+        object.id ??= this.newId('objects');
+        object.attributedTo = actorUrl;
+        object.to ??= published.to;
+        object.cc ??= published.cc;
+      }
+      published.object = object;
+    }
+
+    await this.store.addOutboxActivity(userId, published);
+    await this.delivery.enqueue(userId, await this.recipientInboxes(local, published), published);
+    return published;
+  }
+
+  private async recipientInboxes(local: LocalActor, activity: APObject): Promise<Set<string>> {
+    const object = typeof activity.object === 'object' ? activity.object : {};
+    const audience = new Set(
+      [activity.to, activity.cc, object?.to, object?.cc].flatMap(asArray).map(idOf).filter(Boolean) as string[]
+    );
+    const followersUrl = `${this.actorUrl(local.username)}/followers`;
+    const inboxes = new Set<string>();
+
+    if (audience.has(followersUrl) || audience.has(PUBLIC_COLLECTION)) {
+      for (const follower of await this.store.allFollowers(local.userId)) {
+        inboxes.add(follower.sharedInbox ?? follower.inbox);
+      }
+    }
+
+    for (const recipient of audience) {
+      if (recipient === PUBLIC_COLLECTION || this.isLocal(recipient)) continue;
+      try {
+        const remote = await this.fetchActor(recipient);
+        inboxes.add(remote.sharedInbox ?? remote.inbox);
+      } catch (error) {
+        console.error(`Error resolving recipient ${recipient}:`, error);
+      }
+    }
+    return inboxes;
+  }
+
+  async publishProfileUpdate(userId: string): Promise<APObject> {
+    const local = await this.store.getLocalActorByUserId(userId);
+    if (!local) {
+      throw new Error('Local actor not found');
+    }
+    return this.publish(userId, { type: 'Update', object: await this.actor(local.username) });
+  }
+
+  async follow(userId: string, remoteActorId: string): Promise<APObject> {
+    const local = await this.store.getLocalActorByUserId(userId);
+    if (!local) {
+      throw new Error('Local actor not found');
+    }
+    const remote = await this.fetchActor(remoteActorId);
+
+    const activity = {
+      '@context': AS_CONTEXT,
+      id: this.newId('activities'),
+      type: 'Follow',
+      actor: this.actorUrl(local.username),
+      object: remote.id
+    };
+    await this.store.setFollowing(userId, remote.id, activity.id, false);
+    await this.delivery.enqueue(userId, [remote.inbox], activity);
+    return activity;
+  }
+
+  async unfollow(userId: string, remoteActorId: string, followActivityId: string): Promise<void> {
+    const local = await this.store.getLocalActorByUserId(userId);
+    if (!local) {
+      throw new Error('Local actor not found');
+    }
+    const remote = await this.fetchActor(remoteActorId);
+    const actorUrl = this.actorUrl(local.username);
+
+    await this.store.removeFollowing(userId, remote.id);
+    await this.delivery.enqueue(userId, [remote.inbox], {
+      '@context': AS_CONTEXT,
+      id: this.newId('activities'),
+      type: 'Undo',
+      actor: actorUrl,
+      object: { id: followActivityId, type: 'Follow', actor: actorUrl, object: remote.id }
+    });
+  }
+
+  async fetchObject(uri: string): Promise<APObject> {
+    const response = await this.fetch(uri, { headers: { accept: ACCEPT_ACTIVITY } });
+    if (!response.ok) {
+      throw new Error(`Fetching ${uri} failed with status ${response.status}`);
+    }
+    const object = await response.json();
+    // Only trust an id served from its own origin
+    if (typeof object?.id !== 'string' || new URL(object.id).origin !== new URL(response.url || uri).origin) {
+      throw new Error(`Object at ${uri} has a foreign or missing id`);
+    }
+    return object;
+  }
+
+  /** Fetches (or returns the cached) actor; `id` may also be a key document URL */
+  async fetchActor(id: string, refresh: boolean = false): Promise<RemoteActor> {
+    if (!refresh) {
+      const cached = await this.store.getRemoteActor(id);
+      if (cached && this.now().getTime() - Date.parse(cached.fetchedAt) < ACTOR_CACHE_MS) {
+        return cached;
+      }
+    }
+
+    const document = await this.fetchObject(id);
+    if (!document.inbox && typeof document.owner === 'string') {
+      return this.fetchActor(document.owner, refresh);
+    }
+
+    const key = asArray(document.publicKey)[0] as APObject | undefined;
+    if (typeof document.inbox !== 'string' || !key?.id || !key.publicKeyPem) {
+      throw new Error(`${id} is not an actor with a public key`);
+    }
+
+    const actor: RemoteActor = {
+      id: document.id!,
+      inbox: document.inbox,
+      sharedInbox: document.endpoints?.sharedInbox,
+      publicKeyId: key.id,
+      publicKeyPem: key.publicKeyPem,
+      preferredUsername: document.preferredUsername,
+      fetchedAt: this.now().toISOString()
+    };
+    await this.store.saveRemoteActor(actor);
+    return actor;
+  }
+
+  private async deliver(job: { inbox: string; senderUserId: string; activity: APObject }): Promise<void> {
+    const sender = await this.store.getLocalActorByUserId(job.senderUserId);
+    if (!sender) {
+      throw new DeliveryError('Sending actor no longer exists', 410);
+    }
+
+    const body = JSON.stringify(job.activity);
+    const headers = signRequest(
+      { method: 'POST', url: job.inbox, headers: { 'content-type': ACTIVITY_JSON }, body },
+      { keyId: `${this.actorUrl(sender.username)}#main-key`, privateKeyPem: sender.privateKeyPem },
+      this.now()
+    );
+
+    let response: Response;
+    try {
+      response = await this.fetch(job.inbox, { method: 'POST', headers, body });
+    } catch (error) {
+      throw new DeliveryError(`Delivery to ${job.inbox} failed: ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      throw new DeliveryError(`Delivery to ${job.inbox} failed with status ${response.status}`, response.status);
+    }
+  }
+}
+
+export const activityPubServer = new ActivityPubServer({
+  domain: import.meta.env.VITE_ACTIVITYPUB_DOMAIN,
+  store: new SupabaseActivityPubStore()
+});
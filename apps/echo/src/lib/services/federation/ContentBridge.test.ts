@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ContentBridge, type AtPost } from './ContentBridge';
+import { MemoryBridgeStore } from './bridgeStore';
+import { byteLength, htmlToRichText, richTextToHtml } from './richText';
+
+vi.mock('$lib/supabaseClient', () => ({
+  supabase: {}
+}));
+
+const facetText = (text: string, facet: { index: { byteStart: number; byteEnd: number } }) =>
+  new TextDecoder().decode(new TextEncoder().encode(text).slice(facet.index.byteStart, facet.index.byteEnd));
+
+describe('rich text', () => {
+  it('renders facets as escaped HTML and reads them back', () => {
+    const text = '🎉 <hi> @bob.test see https://example.com #cats';
+    const at = (part: string) => {
+      const start = byteLength(text.slice(0, text.indexOf(part)));
+      return { byteStart: start, byteEnd: start + byteLength(part) };
+    };
+    const facets = [
+      { index: at('@bob.test'), features: [{ $type: 'app.bsky.richtext.facet#mention' as const, did: 'did:plc:bob' }] },
+      { index: at('https://example.com'), features: [{ $type: 'app.bsky.richtext.facet#link' as const, uri: 'https://example.com' }] },
+      { index: at('#cats'), features: [{ $type: 'app.bsky.richtext.facet#tag' as const, tag: 'cats' }] }
+    ];
+
+    const html = richTextToHtml(
+      { text, facets },
+      { mentionHref: () => 'https://mastodon.test/users/bob', tagHref: tag => `https://echo.test/tags/${tag}` }
+    );
+    expect(html).toContain('&lt;hi&gt;');
+    expect(html).toContain('<a href="https://mastodon.test/users/bob" class="u-url mention">@bob.test</a>');
+
+    const back = htmlToRichText(html, { mentions: new Map([['https://mastodon.test/users/bob', 'did:plc:bob']]) });
+    expect(back).toEqual({ text, facets });
+  });
+
+  it('drops scripts and markup from remote HTML', () => {
+    const richText = htmlToRichText(
+      '<p>one<script>alert(1)</script> <b onclick="x()">two</b></p><p>three<br/>four &amp; <a href="javascript:x()">five</a></p>'
+    );
+    expect(richText).toEqual({ text: 'one two\n\nthree\nfour & five', facets: [] });
+  });
+});
+
+describe('ContentBridge', () => {
+  let store: MemoryBridgeStore;
+  let bridge: ContentBridge;
+
+  const alice = { did: 'did:plc:alice', actorUri: 'https://echo.test/users/alice', userId: 'user-alice', handle: 'alice.test' };
+  const bob = { did: 'did:plc:bob', actorUri: 'https://mastodon.test/users/bob', handle: 'bob.test' };
+
+  const atPost = (rkey: string, record: Partial<AtPost['record']> = {}): AtPost => ({
+    uri: `at://did:plc:alice/app.bsky.feed.post/${rkey}`,
+    cid: `cid-${rkey}`,
+    authorDid: 'did:plc:alice',
+    record: { text: 'hello', createdAt: '2024-03-30T12:00:00.000Z', ...record }
+  });
+
+  beforeEach(async () => {
+    store = new MemoryBridgeStore();
+    bridge = new ContentBridge({ domain: 'echo.test', store });
+    await store.linkIdentity(alice);
+    await store.linkIdentity(bob);
+  });
+
+  describe('AT Protocol to ActivityPub', () => {
+    it('maps mentions, hashtags, self-labels, replies and quotes', async () => {
+      await store.linkPost({
+        atUri: 'at://did:plc:bob/app.bsky.feed.post/parent',
+        atCid: 'cid-parent',
+        apId: 'https://mastodon.test/notes/parent',
+        origin: 'activitypub'
+      });
+      const text = 'hey @bob.test #art';
+      const result = await bridge.toActivityPub(
+        atPost('reply', {
+          text,
+          facets: [
+            { index: { byteStart: 4, byteEnd: 13 }, features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:bob' }] },
+            { index: { byteStart: 14, byteEnd: 18 }, features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'art' }] }
+          ],
+          reply: {
+            root: { uri: 'at://did:plc:bob/app.bsky.feed.post/parent', cid: 'cid-parent' },
+            parent: { uri: 'at://did:plc:bob/app.bsky.feed.post/parent', cid: 'cid-parent' }
+          },
+          embed: {
+            $type: 'app.bsky.embed.record',
+            record: { uri: 'at://did:plc:carol/app.bsky.feed.post/quoted', cid: 'cid-quoted' }
+          },
+          labels: { $type: 'com.atproto.label.defs#selfLabels', values: [{ val: 'nudity' }] }
+        })
+      );
+
+      expect(result.bridged).toBe(true);
+      if (!result.bridged) return;
+      expect(result.userId).toBe('user-alice');
+      expect(result.object).toMatchObject({
+        attributedTo: 'https://echo.test/users/alice',
+        inReplyTo: 'https://mastodon.test/notes/parent',
+        quote: 'https://bsky.app/profile/did:plc:carol/post/quoted',
+        sensitive: true,
+        summary: 'Nudity'
+      });
+      expect(result.object.tag).toEqual(
+        expect.arrayContaining([
+          { type: 'Mention', href: 'https://mastodon.test/users/bob', name: '@bob.test' },
+          { type: 'Hashtag', href: 'https://echo.test/tags/art', name: '#art' }
+        ])
+      );
+      expect(result.object.content).toContain('class="mention hashtag"');
+      expect(result.object.content).toContain('class="quote-inline"');
+    });
+
+    it('attaches images from plain and quote-with-media embeds, skipping malformed ones', async () => {
+      const image = (link: string) => ({
+        alt: 'a cat',
+        image: { $type: 'blob', ref: { $link: link }, mimeType: 'image/png', size: 1 }
+      });
+      const result = await bridge.toActivityPub(
+        atPost('images', {
+          embed: {
+            $type: 'app.bsky.embed.recordWithMedia',
+            record: { record: { uri: 'at://did:plc:carol/app.bsky.feed.post/quoted', cid: 'cid-quoted' } },
+            media: { $type: 'app.bsky.embed.images', images: [image('bafy-cat'), { alt: 'no blob' }, 'junk'] }
+          }
+        })
+      );
+
+      expect(result.bridged).toBe(true);
+      if (!result.bridged) return;
+      expect(result.object.quote).toBe('https://bsky.app/profile/did:plc:carol/post/quoted');
+      expect(result.object.attachment).toEqual([
+        {
+          type: 'Image',
+          mediaType: 'image/png',
+          url: 'https://cdn.bsky.app/img/feed_fullsize/plain/did:plc:alice/bafy-cat@jpeg',
+          name: 'a cat'
+        }
+      ]);
+    });
+
+    it('skips unlinked authors and posts it has already seen', async () => {
+      const stranger = { ...atPost('x'), authorDid: 'did:plc:stranger' };
+      expect(await bridge.toActivityPub(stranger)).toEqual({ bridged: false, reason: 'unknown-author' });
+
+      const post = atPost('once');
+      await bridge.recordBridgedToActivityPub(post, 'https://echo.test/objects/1');
+      expect(await bridge.toActivityPub(post)).toEqual({ bridged: false, reason: 'already-bridged' });
+    });
+  });
+
+  describe('ActivityPub to AT Protocol', () => {
+    const note = (fields: Record<string, unknown> = {}) => ({
+      id: 'https://mastodon.test/notes/1',
+      type: 'Note',
+      attributedTo: 'https://mastodon.test/users/bob',
+      published: '2024-03-30T12:00:00.000Z',
+      content: '<p>hi</p>',
+      ...fields
+    });
+
+    it('converts Mastodon HTML to facets with byte offsets', async () => {
+      const result = await bridge.toAtproto(
+        note({
+          content:
+            '<p>Café <span class="h-card"><a href="https://echo.test/users/alice" class="u-url mention">@<span>alice</span></a></span> ' +
+            '<a href="https://example.com/long/path" rel="nofollow"><span class="invisible">https://</span><span class="ellipsis">example.com/long</span><span class="invisible">/path</span></a> ' +
+            '<a href="https://mastodon.test/tags/cats" class="mention hashtag" rel="tag">#<span>cats</span></a></p>',
+          tag: [{ type: 'Mention', href: 'https://echo.test/users/alice', name: '@alice@echo.test' }],
+          contentMap: { fr: '' }
+        })
+      );
+
+      expect(result.bridged).toBe(true);
+      if (!result.bridged) return;
+      const { record } = result;
+      expect(record.text).toBe('Café @alice https://example.com/long/path #cats');
+      expect(record.langs).toEqual(['fr']);
+      expect(record.facets!.map(facet => [facetText(record.text, facet), facet.features[0]])).toEqual([
+        ['@alice', { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+        ['https://example.com/long/path', { $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/long/path' }],
+        ['#cats', { $type: 'app.bsky.richtext.facet#tag', tag: 'cats' }]
+      ]);
+    });
+
+    it('keeps content warnings visible and labels sensitive media', async () => {
+      const result = await bridge.toAtproto(
+        note({
+          summary: 'nsfw',
+          sensitive: true,
+          attachment: [{ type: 'Document', mediaType: 'image/png', url: 'https://mastodon.test/media/1.png', name: 'a cat' }]
+        })
+      );
+      if (!result.bridged) throw new Error(result.reason);
+      expect(result.record.text).toBe('CW: nsfw\n\nhi');
+      expect(result.record.labels?.values).toEqual([{ val: 'porn' }]);
+      expect(result.images).toEqual([{ url: 'https://mastodon.test/media/1.png', alt: 'a cat', mediaType: 'image/png' }]);
+    });
+
+    it('threads replies under the AT root and embeds known quotes', async () => {
+      await store.linkPost({
+        atUri: 'at://did:plc:alice/app.bsky.feed.post/child',
+        atCid: 'cid-child',
+        apId: 'https://echo.test/objects/child',
+        origin: 'atproto',
+        rootAtUri: 'at://did:plc:alice/app.bsky.feed.post/root',
+        rootAtCid: 'cid-root'
+      });
+      const result = await bridge.toAtproto(
+        note({
+          inReplyTo: 'https://echo.test/objects/child',
+          quoteUrl: 'https://echo.test/objects/child',
+          content: '<p>agreed<span class="quote-inline"><br>RE: https://echo.test/objects/child</span></p>'
+        })
+      );
+      if (!result.bridged) throw new Error(result.reason);
+      expect(result.record.text).toBe('agreed');
+      expect(result.record.reply).toEqual({
+        root: { uri: 'at://did:plc:alice/app.bsky.feed.post/root', cid: 'cid-root' },
+        parent: { uri: 'at://did:plc:alice/app.bsky.feed.post/child', cid: 'cid-child' }
+      });
+      expect(result.record.embed).toEqual({
+        $type: 'app.bsky.embed.record',
+        record: { uri: 'at://did:plc:alice/app.bsky.feed.post/child', cid: 'cid-child' }
+      });
+
+      expect(await bridge.toAtproto(note({ inReplyTo: 'https://mastodon.test/notes/unknown' }))).toEqual({
+        bridged: false,
+        reason: 'unmapped-parent'
+      });
+    });
+
+    it('truncates long posts with a link to the original', async () => {
+      const result = await bridge.toAtproto(note({ content: `<p>${'word '.repeat(100)}</p>` }));
+      if (!result.bridged) throw new Error(result.reason);
+      expect([...new Intl.Segmenter().segment(result.record.text)].length).toBeLessThanOrEqual(300);
+      expect(result.record.text.endsWith('… https://mastodon.test/notes/1')).toBe(true);
+      expect(result.record.facets!.at(-1)!.features[0]).toEqual({
+        $type: 'app.bsky.richtext.facet#link',
+        uri: 'https://mastodon.test/notes/1'
+      });
+    });
+  });
+
+  describe('echo suppression', () => {
+    it('never bridges a copy back to the network it came from', async () => {
+      const post = atPost('original');
+      const out = await bridge.toActivityPub(post);
+      if (!out.bridged) throw new Error(out.reason);
+      const published = { ...out.object, id: 'https://echo.test/objects/original' };
+      await bridge.recordBridgedToActivityPub(post, published.id);
+      expect(await bridge.toAtproto(published)).toEqual({ bridged: false, reason: 'echo' });
+
+      const remote = {
+        id: 'https://mastodon.test/notes/2',
+        type: 'Note',
+        attributedTo: 'https://mastodon.test/users/bob',
+        content: '<p>from the fediverse</p>'
+      };
+      const bridgedIn = await bridge.toAtproto(remote);
+      if (!bridgedIn.bridged) throw new Error(bridgedIn.reason);
+      const ref = { uri: 'at://did:plc:bob/app.bsky.feed.post/copy', cid: 'cid-copy' };
+      await bridge.recordBridgedToAtproto(remote, ref, bridgedIn.record);
+
+      await store.linkIdentity({ ...bob, userId: 'user-bob' });
+      const copy = { ...ref, authorDid: 'did:plc:bob', record: bridgedIn.record };
+      expect(await bridge.toActivityPub(copy)).toEqual({ bridged: false, reason: 'echo' });
+      expect(await bridge.toAtproto(remote)).toEqual({ bridged: false, reason: 'already-bridged' });
+    });
+
+    it('ignores copies made by other bridges', async () => {
+      expect(
+        await bridge.toAtproto({
+          id: 'https://bsky.brid.gy/convert/ap/at://did:plc:carol/app.bsky.feed.post/1',
+          type: 'Note',
+          attributedTo: 'https://mastodon.test/users/bob'
+        })
+      ).toEqual({ bridged: false, reason: 'echo' });
+
+      const bridgy = atPost('bridgy', { bridgyOriginalUrl: 'https://mastodon.test/notes/3' });
+      expect(await bridge.toActivityPub(bridgy)).toEqual({ bridged: false, reason: 'echo' });
+    });
+  });
+});
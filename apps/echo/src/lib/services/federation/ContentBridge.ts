@@ -0,0 +1,422 @@
+import { AS_CONTEXT, asArray, idOf } from './ActivityPubServer';
+import type { APObject } from './activityPubStore';
+import { SupabaseBridgeStore, type BridgeStore, type IdentityLink } from './bridgeStore';
+import {
+  byteLength,
+  escapeHtml,
+  htmlToRichText,
+  richTextToHtml,
+  truncateRichText,
+  type Facet,
+  type RichText
+} from './richText';
+
+/** Bluesky rejects post text longer than this many graphemes */
+const MAX_AT_GRAPHEMES = 300;
+const QUOTE_LINK_MEDIA_TYPE = `application/ld+json; profile="${AS_CONTEXT}"`;
+/** Hosts of other bridges whose copies must not be bridged again */
+const FOREIGN_BRIDGE_HOSTS = ['bsky.brid.gy'];
+
+export interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+export interface SelfLabels {
+  $type: 'com.atproto.label.defs#selfLabels';
+  values: Array<{ val: string }>;
+}
+
+export interface AtPostRecord {
+  $type?: 'app.bsky.feed.post';
+  text: string;
+  facets?: Facet[];
+  reply?: { root: StrongRef; parent: StrongRef };
+  embed?: unknown;
+  labels?: SelfLabels;
+  langs?: string[];
+  createdAt: string;
+  [field: string]: unknown;
+}
+
+export interface AtPost extends StrongRef {
+  authorDid: string;
+  record: AtPostRecord;
+}
+
+export type SkipReason = 'echo' | 'already-bridged' | 'unknown-author' | 'unmapped-parent';
+
+export type BridgeResult<T> = ({ bridged: true } & T) | { bridged: false; reason: SkipReason };
+
+/** Images the caller uploads as blobs before writing the AT record */
+export interface BridgedImage {
+  url: string;
+  alt: string;
+  mediaType?: string;
+}
+
+/** Content warnings shown on the ActivityPub side for each AT self-label */
+const SELF_LABEL_WARNINGS: Record<string, string> = {
+  porn: 'Adult content',
+  sexual: 'Sexually suggestive',
+  nudity: 'Nudity',
+  'graphic-media': 'Graphic media'
+};
+
+/** Self-labels inferred from the wording of an ActivityPub content warning */
+const WARNING_LABELS: Array<[RegExp, string]> = [
+  [/porn|nsfw|18\+|explicit/i, 'porn'],
+  [/nud(e|ity)/i, 'nudity'],
+  [/sexual|suggestive|lewd/i, 'sexual'],
+  [/gore|blood|graphic|violen/i, 'graphic-media']
+];
+
+function hostOf(uri: string): string | undefined {
+  try {
+    return new URL(uri).host;
+  } catch {
+    return undefined;
+  }
+}
+
+/** at://did/app.bsky.feed.post/rkey → the bsky.app page for it */
+export function atUriToWebUrl(atUri: string): string {
+  const [, did, , rkey] = /^at:\/\/([^/]+)\/([^/]+)\/([^/]+)$/.exec(atUri) ?? [];
+  return did && rkey ? `https://bsky.app/profile/${did}/post/${rkey}` : atUri;
+}
+
+type Fields = Record<string, unknown>;
+
+function fieldsOf(value: unknown): Fields | undefined {
+  return typeof value === 'object' && value !== null ? (value as Fields) : undefined;
+}
+
+function stringOf(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** The objects in a property that may hold one object, several, or bare ids */
+function objectsOf(value: unknown): APObject[] {
+  return asArray(value).filter((item): item is APObject => fieldsOf(item) !== undefined);
+}
+
+/** The AT URI a post quotes, for both plain and with-media record embeds */
+export function quotedAtUri(embed: unknown): string | undefined {
+  const fields = fieldsOf(embed);
+  if (fields?.$type === 'app.bsky.embed.record') return stringOf(fieldsOf(fields.record)?.uri);
+  if (fields?.$type === 'app.bsky.embed.recordWithMedia') {
+    return stringOf(fieldsOf(fieldsOf(fields.record)?.record)?.uri);
+  }
+  return undefined;
+}
+
+/**
+ * The object an ActivityPub post quotes. Implementations disagree on the
+ * property, so all the common ones are checked, then FEP-e232 link tags.
+ */
+export function quotedObjectId(object: APObject): string | undefined {
+  const direct = object.quote ?? object.quoteUrl ?? object.quoteUri ?? object._misskey_quote;
+  if (typeof direct === 'string') return direct;
+  const link = objectsOf(object.tag).find(
+    tag => tag.type === 'Link' && tag.mediaType === QUOTE_LINK_MEDIA_TYPE && typeof tag.href === 'string'
+  );
+  return link?.href;
+}
+
+/** A content warning for AT self-labels, as shown to ActivityPub readers */
+export function selfLabelsToWarning(labels: SelfLabels | undefined): string | undefined {
+  const warnings = (labels?.values ?? [])
+    .map(label => SELF_LABEL_WARNINGS[label.val])
+    .filter(Boolean);
+  return warnings.length ? warnings.join(', ') : undefined;
+}
+
+function warningToSelfLabels(object: APObject): SelfLabels | undefined {
+  const summary = typeof object.summary === 'string' ? object.summary : '';
+  const values = WARNING_LABELS.filter(([pattern]) => pattern.test(summary)).map(([, val]) => ({ val }));
+  // AT has no neutral "sensitive media" label; graphic-media blurs without implying sexual content
+  if (!values.length && object.sensitive && asArray(object.attachment).length) {
+    values.push({ val: 'graphic-media' });
+  }
+  return values.length ? { $type: 'com.atproto.label.defs#selfLabels', values } : undefined;
+}
+
+interface AtImage {
+  alt: string;
+  mimeType?: string;
+  /** CID of the image blob; older records store it bare instead of as a link */
+  cid?: string;
+}
+
+function imagesOf(embed: unknown): AtImage[] {
+  const fields = fieldsOf(embed);
+  if (fields?.$type === 'app.bsky.embed.recordWithMedia') return imagesOf(fields.media);
+  if (fields?.$type !== 'app.bsky.embed.images') return [];
+
+  return asArray(fields.images).flatMap(item => {
+    const image = fieldsOf(item);
+    const blob = fieldsOf(image?.image);
+    if (!blob) return [];
+    return [
+      {
+        alt: stringOf(image?.alt) ?? '',
+        mimeType: stringOf(blob.mimeType),
+        cid: stringOf(fieldsOf(blob.ref)?.$link) ?? stringOf(blob.ref)
+      }
+    ];
+  });
+}
+
+function prefixRichText(prefix: string, richText: RichText): RichText {
+  const shift = byteLength(prefix);
+  return {
+    text: prefix + richText.text,
+    facets: richText.facets.map(facet => ({
+      ...facet,
+      index: { byteStart: facet.index.byteStart + shift, byteEnd: facet.index.byteEnd + shift }
+    }))
+  };
+}
+
+interface ContentBridgeOptions {
+  /** Our ActivityPub domain; objects under it are ours and never bridged in */
+  domain: string;
+  store: BridgeStore;
+}
+
+/**
+ * Converts posts between AT Protocol records and ActivityPub Notes for
+ * people linked on both networks. It maps rich text, mentions, hashtags,
+ * content warnings, replies and quotes, and remembers every post it
+ * bridges so that a copy is never bridged back to where it came from.
+ */
+export class ContentBridge {
+  readonly store: BridgeStore;
+  private domain: string;
+
+  constructor(options: ContentBridgeOptions) {
+    this.domain = options.domain;
+    this.store = options.store;
+  }
+
+  private tagUrl(tag: string): string {
+    return `https://${this.domain}/tags/${encodeURIComponent(tag)}`;
+  }
+
+  // AT Protocol → ActivityPub
+
+  /**
+   * Builds the Note for an AT post. The Note has no id yet; publish it as
+   * `userId`, then call recordBridgedToActivityPub with the id it was given.
+   */
+  async toActivityPub(post: AtPost): Promise<BridgeResult<{ userId: string; object: APObject }>> {
+    const { record } = post;
+    if (record.bridgyOriginalUrl) return { bridged: false, reason: 'echo' };
+    const existing = await this.store.postByAtUri(post.uri);
+    if (existing) {
+      return { bridged: false, reason: existing.origin === 'atproto' ? 'already-bridged' : 'echo' };
+    }
+
+    const author = await this.store.identityByDid(post.authorDid);
+    if (!author?.userId) return { bridged: false, reason: 'unknown-author' };
+
+    const facets = record.facets ?? [];
+    const mentioned = new Map<string, IdentityLink | null>();
+    for (const facet of facets) {
+      for (const feature of facet.features) {
+        if (feature.$type === 'app.bsky.richtext.facet#mention' && !mentioned.has(feature.did)) {
+          mentioned.set(feature.did, await this.store.identityByDid(feature.did));
+        }
+      }
+    }
+    const mentionHref = (did: string) => mentioned.get(did)?.actorUri ?? `https://bsky.app/profile/${did}`;
+
+    let content = richTextToHtml({ text: record.text, facets }, { mentionHref, tagHref: tag => this.tagUrl(tag) });
+    const tag: APObject[] = [];
+    const bytes = new TextEncoder().encode(record.text);
+    for (const facet of facets) {
+      const label = new TextDecoder().decode(bytes.slice(facet.index.byteStart, facet.index.byteEnd));
+      for (const feature of facet.features) {
+        if (feature.$type === 'app.bsky.richtext.facet#mention') {
+          const identity = mentioned.get(feature.did);
+          tag.push({ type: 'Mention', href: mentionHref(feature.did), name: identity?.handle ? `@${identity.handle}` : label });
+        } else if (feature.$type === 'app.bsky.richtext.facet#tag') {
+          tag.push({ type: 'Hashtag', href: this.tagUrl(feature.tag), name: `#${feature.tag}` });
+        }
+      }
+    }
+
+    let inReplyTo: string | undefined;
+    if (record.reply) {
+      const parent = await this.store.postByAtUri(record.reply.parent.uri);
+      inReplyTo = parent?.apId ?? atUriToWebUrl(record.reply.parent.uri);
+    }
+
+    const quoted: Record<string, string> = {};
+    const quotedUri = quotedAtUri(record.embed);
+    if (quotedUri) {
+      const target = (await this.store.postByAtUri(quotedUri))?.apId ?? atUriToWebUrl(quotedUri);
+      // Mastodon, Misskey and FEP-e232 spellings, plus an inline link for everyone else
+      Object.assign(quoted, { quote: target, quoteUrl: target, _misskey_quote: target });
+      tag.push({ type: 'Link', mediaType: QUOTE_LINK_MEDIA_TYPE, href: target, name: `RE: ${target}` });
+      content += `<p class="quote-inline">RE: <a href="${escapeHtml(target)}">${escapeHtml(target)}</a></p>`;
+    }
+
+    const warning = selfLabelsToWarning(record.labels);
+    const object: APObject = {
+      type: 'Note',
+      attributedTo: author.actorUri,
+      content,
+      published: record.createdAt,
+      url: atUriToWebUrl(post.uri),
+      ...(record.langs?.length ? { contentMap: { [record.langs[0]]: content } } : {}),
+      ...(inReplyTo ? { inReplyTo } : {}),
+      ...quoted,
+      tag,
+      sensitive: Boolean(warning),
+      ...(warning ? { summary: warning } : {}),
+      attachment: imagesOf(record.embed)
+        .filter(image => image.cid)
+        .map(image => ({
+          type: 'Image',
+          mediaType: image.mimeType,
+          url: `https://cdn.bsky.app/img/feed_fullsize/plain/${post.authorDid}/${image.cid}@jpeg`,
+          name: image.alt
+        }))
+    };
+    return { bridged: true, userId: author.userId, object };
+  }
+
+  async recordBridgedToActivityPub(post: AtPost, apId: string): Promise<void> {
+    await this.store.linkPost({
+      atUri: post.uri,
+      atCid: post.cid,
+      apId,
+      origin: 'atproto',
+      rootAtUri: post.record.reply?.root.uri ?? post.uri,
+      rootAtCid: post.record.reply?.root.cid ?? post.cid
+    });
+  }
+
+  // ActivityPub → AT Protocol
+
+  /** The DIDs of mentioned actors that are linked to one, keyed by actor URI */
+  async mentionDids(object: APObject): Promise<Map<string, string | undefined>> {
+    const mentions = new Map<string, string | undefined>();
+    for (const tag of objectsOf(object.tag)) {
+      if (tag.type !== 'Mention' || typeof tag.href !== 'string' || mentions.has(tag.href)) continue;
+      mentions.set(tag.href, (await this.store.identityByActor(tag.href))?.did);
+    }
+    return mentions;
+  }
+
+  /**
+   * Builds the AT record for a Note. Images are returned separately since
+   * they must be uploaded as blobs; after writing the record, call
+   * recordBridgedToAtproto with its reference.
+   */
+  async toAtproto(
+    object: APObject
+  ): Promise<BridgeResult<{ authorDid: string; record: AtPostRecord; images: BridgedImage[] }>> {
+    const id = object.id;
+    if (!id || this.isEcho(object)) return { bridged: false, reason: 'echo' };
+    const existing = await this.store.postByApId(id);
+    if (existing) {
+      return { bridged: false, reason: existing.origin === 'activitypub' ? 'already-bridged' : 'echo' };
+    }
+
+    const actorUri = idOf(object.attributedTo);
+    const author = actorUri ? await this.store.identityByActor(actorUri) : null;
+    if (!author) return { bridged: false, reason: 'unknown-author' };
+
+    let reply: AtPostRecord['reply'];
+    const inReplyTo = idOf(object.inReplyTo);
+    if (inReplyTo) {
+      // A reply whose parent AT readers can't see would read as a non sequitur
+      const parent = await this.store.postByApId(inReplyTo);
+      if (!parent) return { bridged: false, reason: 'unmapped-parent' };
+      reply = {
+        root: { uri: parent.rootAtUri ?? parent.atUri, cid: parent.rootAtCid ?? parent.atCid },
+        parent: { uri: parent.atUri, cid: parent.atCid }
+      };
+    }
+
+    const quoteId = quotedObjectId(object);
+    const quoted = quoteId ? await this.store.postByApId(quoteId) : null;
+
+    let richText = htmlToRichText(typeof object.content === 'string' ? object.content : '', {
+      mentions: await this.mentionDids(object),
+      // The inline "RE:" fallback is redundant once the quote is a real embed
+      skipClasses: quoted ? ['quote-inline'] : []
+    });
+    // AT has no content warnings; keep the wording visible so it isn't lost
+    if (typeof object.summary === 'string' && object.summary.trim()) {
+      richText = prefixRichText(`CW: ${object.summary.trim()}\n\n`, richText);
+    }
+    richText = truncateRichText(richText, MAX_AT_GRAPHEMES, idOf(object.url) ?? id);
+
+    const labels = warningToSelfLabels(object);
+    const langs = object.contentMap ? Object.keys(object.contentMap).slice(0, 3) : [];
+    const record: AtPostRecord = {
+      $type: 'app.bsky.feed.post',
+      text: richText.text,
+      createdAt: object.published ?? new Date().toISOString(),
+      ...(richText.facets.length ? { facets: richText.facets } : {}),
+      ...(reply ? { reply } : {}),
+      ...(quoted
+        ? { embed: { $type: 'app.bsky.embed.record', record: { uri: quoted.atUri, cid: quoted.atCid } } }
+        : {}),
+      ...(labels ? { labels } : {}),
+      ...(langs.length ? { langs } : {})
+    };
+
+    const images = objectsOf(object.attachment)
+      .filter(attachment => attachment.type === 'Image' || attachment.mediaType?.startsWith('image/'))
+      .slice(0, 4)
+      .map(attachment => ({
+        url: idOf(attachment.url) ?? attachment.url?.href,
+        alt: attachment.name ?? '',
+        mediaType: attachment.mediaType
+      }))
+      .filter(image => typeof image.url === 'string');
+
+    return { bridged: true, authorDid: author.did, record, images };
+  }
+
+  async recordBridgedToAtproto(object: APObject, ref: StrongRef, record: AtPostRecord): Promise<void> {
+    await this.store.linkPost({
+      atUri: ref.uri,
+      atCid: ref.cid,
+      apId: object.id!,
+      origin: 'activitypub',
+      rootAtUri: record.reply?.root.uri ?? ref.uri,
+      rootAtCid: record.reply?.root.cid ?? ref.cid
+    });
+  }
+
+  /** Links a local post published natively to both networks, so neither copy is bridged */
+  async recordLocalPost(ref: StrongRef, apId: string, root?: StrongRef): Promise<void> {
+    await this.store.linkPost({
+      atUri: ref.uri,
+      atCid: ref.cid,
+      apId,
+      origin: 'local',
+      rootAtUri: root?.uri ?? ref.uri,
+      rootAtCid: root?.cid ?? ref.cid
+    });
+  }
+
+  /** Objects we published, or copies of AT posts made by another bridge */
+  private isEcho(object: APObject): boolean {
+    return [object.id, idOf(object.url)].some(uri => {
+      if (typeof uri !== 'string') return false;
+      const host = hostOf(uri);
+      return host === this.domain || FOREIGN_BRIDGE_HOSTS.includes(host ?? '') || uri.includes('at://');
+    });
+  }
+}
+
+export const contentBridge = new ContentBridge({
+  domain: import.meta.env.VITE_ACTIVITYPUB_DOMAIN,
+  store: new SupabaseBridgeStore()
+});
@@ -0,0 +1,146 @@
+import { randomUUID } from 'node:crypto';
+import type { ActivityPubStore, APObject, DeliveryJob } from './activityPubStore';
+
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+
+  /** 4xx responses other than timeouts and rate limits won't succeed on retry */
+  get permanent(): boolean {
+    return this.status !== undefined && this.status >= 400 && this.status < 500 && ![408, 429].includes(this.status);
+  }
+}
+
+interface DeliveryQueueOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  batchSize?: number;
+  /** Poll interval; 0 disables the timer and processDue must be called manually */
+  pollIntervalMs?: number;
+  now?: () => Date;
+}
+
+export interface DeliveryRun {
+  delivered: number;
+  retried: number;
+  dropped: number;
+}
+
+/**
+ * Durable outbound delivery. Jobs to the same host go one at a time, and a
+ * failing host is backed off as a whole so a down instance doesn't eat a
+ * retry for every queued activity.
+ */
+export class DeliveryQueue {
+  private hostBackoff = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<DeliveryRun> | null = null;
+  private options: Required<DeliveryQueueOptions>;
+
+  constructor(
+    private store: ActivityPubStore,
+    private send: (job: DeliveryJob) => Promise<void>,
+    options: DeliveryQueueOptions = {}
+  ) {
+    this.options = {
+      maxAttempts: 10,
+      baseDelayMs: 30_000,
+      maxDelayMs: 12 * 60 * 60 * 1000,
+      batchSize: 100,
+      pollIntervalMs: 10_000,
+      now: () => new Date(),
+      ...options
+    };
+  }
+
+  async enqueue(senderUserId: string, inboxes: Iterable<string>, activity: APObject): Promise<void> {
+    const nextAttemptAt = this.options.now().toISOString();
+    for (const inbox of new Set(inboxes)) {
+      await this.store.saveDelivery({
+        id: randomUUID(),
+        inbox,
+        senderUserId,
+        activity,
+        attempts: 0,
+        nextAttemptAt
+      });
+    }
+    this.start();
+  }
+
+  start(): void {
+    if (this.timer || this.options.pollIntervalMs <= 0) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => console.error('Error processing deliveries:', error));
+    }, this.options.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Attempts every due delivery once; concurrent calls share one run */
+  processDue(): Promise<DeliveryRun> {
+    this.running ??= this.run().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async run(): Promise<DeliveryRun> {
+    const now = this.options.now();
+    const jobs = await this.store.dueDeliveries(now, this.options.batchSize);
+    const byHost = new Map<string, DeliveryJob[]>();
+    for (const job of jobs) {
+      const host = new URL(job.inbox).host;
+      byHost.set(host, [...(byHost.get(host) ?? []), job]);
+    }
+
+    const result: DeliveryRun = { delivered: 0, retried: 0, dropped: 0 };
+    await Promise.all(
+      [...byHost].map(async ([host, hostJobs]) => {
+        for (const job of hostJobs) {
+          const backoffUntil = this.hostBackoff.get(host) ?? 0;
+          if (backoffUntil > now.getTime()) {
+            await this.store.saveDelivery({ ...job, nextAttemptAt: new Date(backoffUntil).toISOString() });
+            continue;
+          }
+
+          try {
+            await this.send(job);
+            await this.store.deleteDelivery(job.id);
+            this.hostBackoff.delete(host);
+            result.delivered++;
+          } catch (error) {
+            const attempts = job.attempts + 1;
+            if ((error instanceof DeliveryError && error.permanent) || attempts >= this.options.maxAttempts) {
+              console.error(`Dropping delivery to ${job.inbox}:`, error);
+              await this.store.deleteDelivery(job.id);
+              result.dropped++;
+              continue;
+            }
+
+            const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempts - 1));
+            const nextAttempt = now.getTime() + delay;
+            this.hostBackoff.set(host, nextAttempt);
+            await this.store.saveDelivery({
+              ...job,
+              attempts,
+              nextAttemptAt: new Date(nextAttempt).toISOString(),
+              lastError: error instanceof Error ? error.message : String(error)
+            });
+            result.retried++;
+          }
+        }
+      })
+    );
+    return result;
+  }
+}
@@ -1,7 +1,19 @@
 import { supabase } from '$lib/supabaseClient';
 import { BskyAgent } from '@atproto/api';
-import { ActivityPub } from '@activity/client';
-import type { Post, Profile, Activity } from '$lib/types';
+import type { Post, Profile } from '$lib/types';
+import { AS_CONTEXT, activityPubServer, idOf } from './ActivityPubServer';
+import type { APObject } from './activityPubStore';
+import {
+  contentBridge,
+  quotedAtUri,
+  quotedObjectId,
+  selfLabelsToWarning,
+  type AtPost,
+  type BridgedImage,
+  type SkipReason
+} from './ContentBridge';
+import { JetstreamConsumer } from './JetstreamConsumer';
+import { htmlToRichText } from './richText';
 
 interface FederationConfig {
   atProto: {
@@ -11,15 +23,15 @@ interface FederationConfig {
   };
   activityPub: {
     domain: string;
-    privateKey: string;
-    publicKey: string;
   };
+  jetstreamUrl: string;
 }
 
 class FederationService {
   private bskyAgent: BskyAgent;
-  private activityPubClient: ActivityPub;
+  private session: Promise<BskyAgent> | null = null;
   private config: FederationConfig;
+  private jetstream: JetstreamConsumer;
 
   constructor() {
     this.config = {
@@ -29,30 +41,42 @@ class FederationService {
         password: import.meta.env.VITE_ATP_PASSWORD
       },
       activityPub: {
-        domain: import.meta.env.VITE_ACTIVITYPUB_DOMAIN,
-        privateKey: import.meta.env.VITE_ACTIVITYPUB_PRIVATE_KEY,
-        publicKey: import.meta.env.VITE_ACTIVITYPUB_PUBLIC_KEY
-      }
+        domain: import.meta.env.VITE_ACTIVITYPUB_DOMAIN
+      },
+      jetstreamUrl:
+        import.meta.env.VITE_ATP_JETSTREAM_URL ?? 'wss://jetstream2.us-east.bsky.network/subscribe'
     };
+    this.jetstream = new JetstreamConsumer({
+      url: this.config.jetstreamUrl,
+      store: contentBridge.store,
+      onPost: post => this.bridgeATPPost(post)
+    });
   }
 
-  async initialize(): Promise<void> {
-    try {
-      // Initialize AT Protocol client
-      this.bskyAgent = new BskyAgent({
+  /** Signs in to AT Protocol once; later callers share the session */
+  private agent(): Promise<BskyAgent> {
+    this.session ??= (async () => {
+      const agent = new BskyAgent({
         service: this.config.atProto.service
       });
-      await this.bskyAgent.login({
+      await agent.login({
         identifier: this.config.atProto.identifier,
         password: this.config.atProto.password
       });
+      this.bskyAgent = agent;
+      return agent;
+    })().catch(error => {
+      // Let the next caller try again rather than caching the failure
+      this.session = null;
+      throw error;
+    });
+    return this.session;
+  }
 
-      // Initialize ActivityPub client
-      this.activityPubClient = new ActivityPub({
-        domain: this.config.activityPub.domain,
-        privateKey: this.config.activityPub.privateKey,
-        publicKey: this.config.activityPub.publicKey
-      });
+  async initialize(): Promise<void> {
+    try {
+      // Initialize AT Protocol client
+      await this.agent();
 
       // Start federation sync
       this.startFederationSync();
@@ -92,9 +116,14 @@ class FederationService {
         reply: post.replyTo ? { parent: { uri: post.replyTo } } : undefined
       });
 
-      // Federate to ActivityPub
-      const activity = this.createActivityPubActivity(post);
-      await this.activityPubClient.createActivity(activity);
+      // Federate to ActivityPub; delivery to followers is queued
+      const activity = await activityPubServer.publish(
+        post.authorId,
+        this.createActivityPubActivity(post)
+      );
+
+      // The post exists natively on both networks, so neither copy is bridged
+      await contentBridge.recordLocalPost(atpRecord, activity.object.id);
 
       // Store federation IDs
       await supabase
@@ -102,7 +131,7 @@ class FederationService {
         .insert({
           post_id: post.id,
           atp_uri: atpRecord.uri,
-          activitypub_id: activity.id
+          activitypub_id: activity.object.id
         });
     } catch (error) {
       console.error('Error federating post:', error);
@@ -129,7 +158,9 @@ class FederationService {
 
         // Update on ActivityPub
         const activity = this.createActivityPubActivity(post, 'Update');
-        await this.activityPubClient.updateActivity(activity);
+        activity.object.id = federation.activitypub_id;
+        activity.object.updated = new Date().toISOString();
+        await activityPubServer.publish(post.authorId, activity);
       }
     } catch (error) {
       console.error('Error updating federated post:', error);
@@ -151,7 +182,10 @@ class FederationService {
         await this.bskyAgent.deletePost(federation.atp_uri);
 
         // Delete from ActivityPub
-        await this.activityPubClient.deleteActivity(federation.activitypub_id);
+        await activityPubServer.publish(post.authorId, {
+          type: 'Delete',
+          object: { id: federation.activitypub_id, type: 'Tombstone' }
+        });
 
         // Remove federation record
         await supabase
@@ -182,17 +216,16 @@ class FederationService {
     }).filter(Boolean);
   }
 
-  private createActivityPubActivity(post: Post, type: string = 'Create'): Activity {
+  private createActivityPubActivity(post: Post, type: string = 'Create'): APObject {
+    // publish() fills in the actor, public addressing and, for new posts, the object id
     return {
-      '@context': 'https://www.w3.org/ns/activitystreams',
+      '@context': AS_CONTEXT,
       type,
-      actor: `https://${this.config.activityPub.domain}/users/${post.authorId}`,
       object: {
         type: 'Note',
         content: post.content,
-        attributedTo: `https://${this.config.activityPub.domain}/users/${post.authorId}`,
         published: post.createdAt,
-        to: ['https://www.w3.org/ns/activitystreams#Public'],
+        inReplyTo: post.replyTo,
         attachment: post.embeds.map(embed => ({
           type: 'Image',
           url: embed.url,
@@ -210,8 +243,8 @@ class FederationService {
         return this.convertATPToLocalPost(post);
       } else {
         // Import from ActivityPub
-        const activity = await this.activityPubClient.getActivity(uri);
-        return this.convertActivityPubToLocalPost(activity);
+        const object = await activityPubServer.fetchObject(uri);
+        return await this.convertActivityPubToLocalPost(object.type === 'Create' ? object.object : object);
       }
     } catch (error) {
       console.error('Error importing federated post:', error);
@@ -222,6 +255,7 @@ class FederationService {
   private convertATPToLocalPost(atpPost: any): Post {
     return {
       content: atpPost.record.text,
+      facets: atpPost.record.facets ?? [],
       authorId: atpPost.author.did,
       createdAt: new Date(atpPost.record.createdAt),
       embeds: atpPost.record.embed?.images?.map((img: any) => ({
@@ -229,25 +263,111 @@ class FederationService {
         url: img.image.ref,
         alt: img.alt
       })) || [],
-      replyTo: atpPost.record.reply?.parent?.uri
+      contentWarning: selfLabelsToWarning(atpPost.record.labels),
+      replyTo: atpPost.record.reply?.parent?.uri,
+      quoteOf: quotedAtUri(atpPost.record.embed)
     };
   }
 
-  private convertActivityPubToLocalPost(activity: Activity): Post {
-    const object = activity.object as any;
+  private async convertActivityPubToLocalPost(object: APObject): Promise<Post> {
+    // Remote markup is reduced to text and facets; it is never stored as HTML
+    const richText = htmlToRichText(object.content ?? '', {
+      mentions: await contentBridge.mentionDids(object)
+    });
+    const actorUri = idOf(object.attributedTo)!;
+    const identity = await contentBridge.store.identityByActor(actorUri);
+
     return {
-      content: object.content,
-      authorId: object.attributedTo.split('/').pop(),
+      content: richText.text,
+      facets: richText.facets,
+      authorId: identity?.userId ?? identity?.did ?? actorUri,
       createdAt: new Date(object.published),
       embeds: object.attachment?.map((attach: any) => ({
         type: 'image',
         url: attach.url,
         alt: attach.name
       })) || [],
-      replyTo: object.inReplyTo
+      contentWarning: object.summary || (object.sensitive ? 'Sensitive content' : undefined),
+      replyTo: idOf(object.inReplyTo),
+      quoteOf: quotedObjectId(object)
     };
   }
 
+  /**
+   * Bridges posts in both directions for as long as the server runs: remote
+   * ActivityPub posts as they reach the inbox, and linked users' AT posts
+   * as they appear on Jetstream.
+   */
+  async startBridging(): Promise<void> {
+    activityPubServer.onRemotePost(object => this.bridgeActivityPubPost(object));
+    await this.jetstream.start();
+  }
+
+  async stopBridging(): Promise<void> {
+    await this.jetstream.stop();
+  }
+
+  /** Bridges a linked user's Bluesky post to their ActivityPub followers */
+  async bridgeATPPost(post: AtPost): Promise<SkipReason | null> {
+    try {
+      const result = await contentBridge.toActivityPub(post);
+      if (!result.bridged) return result.reason;
+
+      const activity = await activityPubServer.publish(result.userId, {
+        '@context': AS_CONTEXT,
+        type: 'Create',
+        object: result.object
+      });
+      await contentBridge.recordBridgedToActivityPub(post, activity.object.id);
+      return null;
+    } catch (error) {
+      console.error('Error bridging AT Protocol post:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bridges an ActivityPub post to AT Protocol. Records can only be written
+   * to the repo this service is signed in to, so other authors are skipped.
+   */
+  async bridgeActivityPubPost(object: APObject): Promise<SkipReason | null> {
+    try {
+      const result = await contentBridge.toAtproto(object);
+      if (!result.bridged) return result.reason;
+      const agent = await this.agent();
+      if (result.authorDid !== agent.session?.did) return 'unknown-author';
+
+      const media = await this.uploadBridgedImages(result.images);
+      const record = { ...result.record };
+      if (media && record.embed) {
+        record.embed = { $type: 'app.bsky.embed.recordWithMedia', record: record.embed, media };
+      } else if (media) {
+        record.embed = media;
+      }
+
+      const ref = await agent.post(record);
+      await contentBridge.recordBridgedToAtproto(object, ref, record);
+      return null;
+    } catch (error) {
+      console.error('Error bridging ActivityPub post:', error);
+      throw error;
+    }
+  }
+
+  private async uploadBridgedImages(images: BridgedImage[]): Promise<any> {
+    if (!images.length) return undefined;
+    const uploaded = [];
+    for (const image of images) {
+      const response = await fetch(image.url);
+      if (!response.ok) continue;
+      const { data } = await this.bskyAgent.uploadBlob(new Uint8Array(await response.arrayBuffer()), {
+        encoding: image.mediaType ?? response.headers.get('content-type') ?? 'image/jpeg'
+      });
+      uploaded.push({ alt: image.alt, image: data.blob });
+    }
+    return uploaded.length ? { $type: 'app.bsky.embed.images', images: uploaded } : undefined;
+  }
+
   async federateProfile(profile: Profile): Promise<void> {
     try {
       // Update AT Protocol profile
@@ -258,18 +378,7 @@ class FederationService {
       });
 
       // Update ActivityPub profile
-      const actor = {
-        '@context': 'https://www.w3.org/ns/activitystreams',
-        type: 'Person',
-        id: `https://${this.config.activityPub.domain}/users/${profile.id}`,
-        name: profile.displayName,
-        summary: profile.bio,
-        icon: {
-          type: 'Image',
-          url: profile.avatar
-        }
-      };
-      await this.activityPubClient.updateActor(actor);
+      await activityPubServer.publishProfileUpdate(profile.id);
     } catch (error) {
       console.error('Error federating profile:', error);
       throw error;
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import type { AtPost } from './ContentBridge';
+import { JetstreamConsumer, postFromEvent } from './JetstreamConsumer';
+import { MemoryBridgeStore } from './bridgeStore';
+
+vi.mock('$lib/supabaseClient', () => ({
+  supabase: {}
+}));
+
+class FakeSocket extends EventTarget {
+  readonly OPEN = 1;
+  readyState = 0;
+  sent: unknown[] = [];
+  closed = false;
+
+  constructor(readonly url: string) {
+    super();
+  }
+
+  open() {
+    this.readyState = this.OPEN;
+    this.dispatchEvent(new Event('open'));
+  }
+
+  receive(event: unknown) {
+    const message = new Event('message') as Event & { data: string };
+    message.data = typeof event === 'string' ? event : JSON.stringify(event);
+    this.dispatchEvent(message);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+    this.dispatchEvent(new Event('close'));
+  }
+}
+
+const commit = (did: string, rkey: string, record: unknown, time_us = 1_000_000_000) => ({
+  did,
+  time_us,
+  kind: 'commit',
+  commit: { operation: 'create', collection: 'app.bsky.feed.post', rkey, cid: `cid-${rkey}`, record }
+});
+
+describe('JetstreamConsumer', () => {
+  let store: MemoryBridgeStore;
+  let sockets: FakeSocket[];
+  let onPost: Mock<[AtPost], Promise<unknown>>;
+  let consumer: JetstreamConsumer;
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store = new MemoryBridgeStore();
+    await store.linkIdentity({ did: 'did:plc:alice', actorUri: 'https://echo.test/users/alice', userId: 'user-alice' });
+    await store.linkIdentity({ did: 'did:plc:bob', actorUri: 'https://mastodon.test/users/bob' });
+    sockets = [];
+    onPost = vi.fn<[AtPost], Promise<unknown>>().mockResolvedValue(null);
+    consumer = new JetstreamConsumer({
+      url: 'wss://jetstream.test/subscribe',
+      store,
+      onPost,
+      connect: url => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket as unknown as WebSocket;
+      },
+      refreshIntervalMs: 0,
+      reconnectDelayMs: 0
+    });
+  });
+
+  it('subscribes to local accounts only and resumes just before the saved cursor', async () => {
+    await store.saveStreamCursor(60_000_000);
+    await consumer.start();
+
+    const url = new URL(sockets[0].url);
+    expect(url.searchParams.get('cursor')).toBe('55000000');
+    expect(url.searchParams.get('requireHello')).toBe('true');
+
+    sockets[0].open();
+    expect(sockets[0].sent).toEqual([
+      {
+        type: 'options_update',
+        payload: { wantedCollections: ['app.bsky.feed.post'], wantedDids: ['did:plc:alice'] }
+      }
+    ]);
+
+    await store.linkIdentity({ did: 'did:plc:carol', actorUri: 'https://echo.test/users/carol', userId: 'user-carol' });
+    await consumer.refresh();
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].sent[1]).toMatchObject({ payload: { wantedDids: ['did:plc:alice', 'did:plc:carol'] } });
+    await consumer.stop();
+  });
+
+  it('never opens an unfiltered stream', async () => {
+    store.identities = [];
+    await consumer.start();
+
+    expect(sockets).toHaveLength(0);
+    await consumer.stop();
+  });
+
+  it('bridges posts in order and saves the cursor past failures and junk', async () => {
+    onPost.mockRejectedValueOnce(new Error('delivery failed'));
+    await consumer.start();
+    sockets[0].open();
+
+    sockets[0].receive(commit('did:plc:alice', 'one', { text: 'first', createdAt: '2024-04-04T00:00:00Z' }, 1));
+    sockets[0].receive('not json');
+    sockets[0].receive(commit('did:plc:alice', 'bad', { text: 42 }, 2));
+    sockets[0].receive(commit('did:plc:alice', 'two', { text: 'second', createdAt: '2024-04-04T00:00:01Z' }, 3));
+    await consumer.stop();
+
+    expect(onPost.mock.calls.map(([post]) => post.uri)).toEqual([
+      'at://did:plc:alice/app.bsky.feed.post/one',
+      'at://did:plc:alice/app.bsky.feed.post/two'
+    ]);
+    expect(await store.streamCursor()).toBe(3);
+  });
+
+  it('reconnects after the stream drops', async () => {
+    await consumer.start();
+    sockets[0].close();
+    await settle();
+    await settle();
+
+    expect(sockets).toHaveLength(2);
+    await consumer.stop();
+    expect(sockets[1].closed).toBe(true);
+  });
+
+  it('reads only post creations from commit events', () => {
+    const record = { text: 'hi', createdAt: '2024-04-04T00:00:00Z' };
+
+    expect(postFromEvent(commit('did:plc:alice', 'abc', record))).toEqual({
+      uri: 'at://did:plc:alice/app.bsky.feed.post/abc',
+      cid: 'cid-abc',
+      authorDid: 'did:plc:alice',
+      record
+    });
+    const like = commit('did:plc:alice', 'abc', record);
+    like.commit.collection = 'app.bsky.feed.like';
+    expect(postFromEvent(like)).toBeUndefined();
+    expect(postFromEvent({ did: 'did:plc:alice', kind: 'identity' })).toBeUndefined();
+    expect(postFromEvent(null)).toBeUndefined();
+  });
+});
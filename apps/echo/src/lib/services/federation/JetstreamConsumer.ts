@@ -0,0 +1,174 @@
+import type { AtPost, AtPostRecord } from './ContentBridge';
+import type { BridgeStore } from './bridgeStore';
+
+const POST_COLLECTION = 'app.bsky.feed.post';
+/** Cursors are microseconds; resuming a few seconds early covers events in flight at disconnect */
+const CURSOR_REWIND_US = 5_000_000;
+
+interface JetstreamConsumerOptions {
+  /** The Jetstream subscribe endpoint, e.g. wss://jetstream2.us-east.bsky.network/subscribe */
+  url: string;
+  store: BridgeStore;
+  onPost: (post: AtPost) => Promise<unknown>;
+  connect?: (url: string) => WebSocket;
+  /** How often the linked DIDs are re-read; 0 leaves refreshing to the caller */
+  refreshIntervalMs?: number;
+  reconnectDelayMs?: number;
+}
+
+type Fields = Record<string, unknown>;
+
+function fieldsOf(value: unknown): Fields | undefined {
+  return typeof value === 'object' && value !== null ? (value as Fields) : undefined;
+}
+
+/** The post created by a Jetstream commit event, if that is what the event is */
+export function postFromEvent(event: unknown): AtPost | undefined {
+  const fields = fieldsOf(event);
+  const commit = fieldsOf(fields?.commit);
+  const record = fieldsOf(commit?.record);
+  if (fields?.kind !== 'commit' || commit?.operation !== 'create' || commit.collection !== POST_COLLECTION) {
+    return undefined;
+  }
+
+  const { did } = fields;
+  const { rkey, cid } = commit;
+  if (typeof did !== 'string' || typeof rkey !== 'string' || typeof cid !== 'string') return undefined;
+  // Records are whatever the author's client wrote; the bridge needs at least these two
+  if (typeof record?.text !== 'string' || typeof record.createdAt !== 'string') return undefined;
+
+  return {
+    uri: `at://${did}/${POST_COLLECTION}/${rkey}`,
+    cid,
+    authorDid: did,
+    record: record as AtPostRecord
+  };
+}
+
+/**
+ * Follows new posts by linked users on Jetstream, the JSON rendering of
+ * the AT Protocol firehose. Only linked DIDs are subscribed to, and the
+ * cursor is kept in the bridge store so a restart resumes where it stopped.
+ */
+export class JetstreamConsumer {
+  private socket: WebSocket | null = null;
+  private dids: string[] = [];
+  private running = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Events are handled one at a time so the saved cursor never skips past an unhandled post
+  private processing: Promise<void> = Promise.resolve();
+  private options: Required<JetstreamConsumerOptions>;
+
+  constructor(options: JetstreamConsumerOptions) {
+    this.options = {
+      connect: url => new WebSocket(url),
+      refreshIntervalMs: 5 * 60 * 1000,
+      reconnectDelayMs: 5_000,
+      ...options
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    await this.refresh();
+    if (this.options.refreshIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.refresh().catch(error => console.error('Error refreshing bridged accounts:', error));
+      }, this.options.refreshIntervalMs);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearInterval(this.timer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.timer = this.reconnectTimer = null;
+    this.disconnect();
+    await this.processing;
+  }
+
+  /** Re-reads the linked DIDs and updates the subscription, connecting if needed */
+  async refresh(): Promise<void> {
+    const dids = (await this.options.store.localDids()).sort();
+    if (!this.running) return;
+    const changed = dids.join() !== this.dids.join();
+    this.dids = dids;
+
+    // Jetstream reads an empty filter as every account on the network
+    if (!dids.length) {
+      this.disconnect();
+      return;
+    }
+    if (!this.socket) {
+      await this.connect();
+    } else if (changed && this.socket.readyState === this.socket.OPEN) {
+      this.sendOptions(this.socket);
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const cursor = await this.options.store.streamCursor();
+    if (this.socket || !this.running) return;
+
+    const url = new URL(this.options.url);
+    // The DID list can be too long for a URL, so it is sent once the socket opens
+    url.searchParams.set('requireHello', 'true');
+    if (cursor !== null) url.searchParams.set('cursor', String(Math.max(0, cursor - CURSOR_REWIND_US)));
+
+    const socket = this.options.connect(url.toString());
+    this.socket = socket;
+    socket.addEventListener('open', () => this.sendOptions(socket));
+    socket.addEventListener('message', message => {
+      this.processing = this.processing.then(() => this.handle(message.data));
+    });
+    socket.addEventListener('error', () => console.error('Jetstream connection error'));
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (!this.running) return;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.refresh().catch(error => console.error('Error reconnecting to Jetstream:', error));
+      }, this.options.reconnectDelayMs);
+    });
+  }
+
+  private disconnect(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private sendOptions(socket: WebSocket): void {
+    socket.send(
+      JSON.stringify({
+        type: 'options_update',
+        payload: { wantedCollections: [POST_COLLECTION], wantedDids: this.dids }
+      })
+    );
+  }
+
+  private async handle(data: unknown): Promise<void> {
+    let event: unknown;
+    try {
+      event = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    const post = postFromEvent(event);
+    if (post) {
+      // A post that fails to bridge is logged and passed over rather than blocking the stream
+      await this.options.onPost(post).catch(error => console.error(`Error bridging ${post.uri}:`, error));
+    }
+
+    const time = fieldsOf(event)?.time_us;
+    if (typeof time === 'number') {
+      await this.options.store
+        .saveStreamCursor(time)
+        .catch(error => console.error('Error saving the Jetstream cursor:', error));
+    }
+  }
+}
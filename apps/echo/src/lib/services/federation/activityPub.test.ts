@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { ActivityPubServer, PUBLIC_COLLECTION } from './ActivityPubServer';
+import { MemoryActivityPubStore, createActorKeyPair } from './activityPubStore';
+import {
+  MockActivityPubInstance,
+  createNetwork,
+  serveActivityPub,
+  type Network
+} from '../../../test/mockActivityPubInstance';
+
+vi.mock('$lib/supabaseClient', () => ({
+  supabase: {}
+}));
+
+describe('ActivityPub server', () => {
+  let keys: Awaited<ReturnType<typeof createActorKeyPair>>;
+  let network: Network;
+  let store: MemoryActivityPubStore;
+  let server: ActivityPubServer;
+  let mastodon: MockActivityPubInstance;
+  let now: Date;
+
+  const aliceInbox = 'https://echo.test/users/alice/inbox';
+
+  beforeAll(async () => {
+    keys = await createActorKeyPair();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    now = new Date();
+    network = createNetwork();
+    store = new MemoryActivityPubStore();
+    store.actors.set('alice', { userId: 'user-alice', username: 'alice', displayName: 'Alice', ...keys });
+    server = new ActivityPubServer({
+      domain: 'echo.test',
+      store,
+      fetch: network.fetch,
+      now: () => now,
+      deliveryPollIntervalMs: 0
+    });
+    network.hosts.set('echo.test', serveActivityPub(server));
+    mastodon = new MockActivityPubInstance('mastodon.test', network);
+    await mastodon.addActor('bob');
+  });
+
+  const follow = (id = 'https://mastodon.test/activities/follow-1') => ({
+    '@context': 'https://www.w3.org/ns/activitystreams',
+    id,
+    type: 'Follow',
+    actor: 'https://mastodon.test/users/bob',
+    object: 'https://echo.test/users/alice'
+  });
+
+  describe('discovery', () => {
+    it('resolves local users over WebFinger and serves their actor', async () => {
+      const webfinger = await server.webfinger('acct:alice@echo.test');
+      expect(webfinger?.links[0]).toEqual({
+        rel: 'self',
+        type: 'application/activity+json',
+        href: 'https://echo.test/users/alice'
+      });
+      expect(await server.webfinger('acct:alice@elsewhere.test')).toBeNull();
+      expect(await server.webfinger('acct:nobody@echo.test')).toBeNull();
+
+      const actor = await server.actor('alice');
+      expect(actor).toMatchObject({
+        type: 'Person',
+        inbox: aliceInbox,
+        endpoints: { sharedInbox: 'https://echo.test/inbox' },
+        publicKey: { id: 'https://echo.test/users/alice#main-key', publicKeyPem: keys.publicKeyPem }
+      });
+
+      expect(server.nodeInfoLinks().links[0].href).toBe('https://echo.test/nodeinfo/2.1');
+      expect((await server.nodeInfo()).usage.users.total).toBe(1);
+    });
+  });
+
+  describe('inbox', () => {
+    it('accepts a signed Follow and delivers a signed Accept', async () => {
+      const response = await mastodon.send('bob', aliceInbox, follow());
+      expect(response.status).toBe(202);
+
+      const followers = await server.followers('alice', 1);
+      expect(followers?.orderedItems).toEqual(['https://mastodon.test/users/bob']);
+
+      expect(await server.delivery.processDue()).toEqual({ delivered: 1, retried: 0, dropped: 0 });
+      expect(mastodon.received).toHaveLength(1);
+      expect(mastodon.received[0]).toMatchObject({
+        inbox: 'https://mastodon.test/users/bob/inbox',
+        signedBy: 'https://echo.test/users/alice#main-key',
+        activity: { type: 'Accept', object: { id: 'https://mastodon.test/activities/follow-1' } }
+      });
+    });
+
+    it('rejects bad signatures and ignores redeliveries', async () => {
+      const tampered = await mastodon.send('bob', aliceInbox, follow(), body =>
+        body.replace('alice', 'mallory')
+      );
+      expect(tampered.status).toBe(401);
+
+      const mallory = await mastodon.addActor('mallory');
+      const spoofed = await mastodon.send('mallory', aliceInbox, follow());
+      expect(spoofed.status).toBe(401);
+      expect(mallory.id).not.toBe(follow().actor);
+
+      expect((await mastodon.send('bob', aliceInbox, follow())).status).toBe(202);
+      expect((await mastodon.send('bob', aliceInbox, follow())).status).toBe(202);
+      expect(store.deliveries.size).toBe(1);
+    });
+
+    it('processes a retry after a failed delivery', async () => {
+      vi.spyOn(store, 'addFollower').mockRejectedValueOnce(new Error('database down'));
+
+      expect((await mastodon.send('bob', aliceInbox, follow())).status).toBe(500);
+      expect(await store.allFollowers('user-alice')).toEqual([]);
+
+      expect((await mastodon.send('bob', aliceInbox, follow())).status).toBe(202);
+      expect(await store.allFollowers('user-alice')).toHaveLength(1);
+      expect(store.deliveries.size).toBe(1);
+    });
+
+    it('tracks Likes and Announces and honours Undo', async () => {
+      const like = {
+        id: 'https://mastodon.test/activities/like-1',
+        type: 'Like',
+        actor: 'https://mastodon.test/users/bob',
+        object: 'https://echo.test/objects/post-1'
+      };
+      await mastodon.send('bob', 'https://echo.test/inbox', like);
+      await mastodon.send('bob', 'https://echo.test/inbox', {
+        ...like,
+        id: 'https://mastodon.test/activities/boost-1',
+        type: 'Announce'
+      });
+      expect(store.interactions.map(i => i.type)).toEqual(['Like', 'Announce']);
+
+      await mastodon.send('bob', 'https://echo.test/inbox', {
+        id: 'https://mastodon.test/activities/undo-1',
+        type: 'Undo',
+        actor: 'https://mastodon.test/users/bob',
+        object: like
+      });
+      expect(store.interactions.map(i => i.type)).toEqual(['Announce']);
+
+      await mastodon.send('bob', aliceInbox, follow());
+      await mastodon.send('bob', aliceInbox, {
+        id: 'https://mastodon.test/activities/undo-2',
+        type: 'Undo',
+        actor: 'https://mastodon.test/users/bob',
+        object: follow()
+      });
+      expect(await store.allFollowers('user-alice')).toEqual([]);
+    });
+
+    it('purges everything from an actor that deletes itself', async () => {
+      await mastodon.send('bob', aliceInbox, follow());
+      await mastodon.send('bob', 'https://echo.test/inbox', {
+        id: 'https://mastodon.test/activities/create-1',
+        type: 'Create',
+        actor: 'https://mastodon.test/users/bob',
+        object: { id: 'https://mastodon.test/notes/1', type: 'Note', attributedTo: 'https://mastodon.test/users/bob' }
+      });
+      expect(store.remoteObjects.size).toBe(1);
+
+      mastodon.actors.get('bob')!.deleted = true;
+      const response = await mastodon.send('bob', 'https://echo.test/inbox', {
+        id: 'https://mastodon.test/users/bob#delete',
+        type: 'Delete',
+        actor: 'https://mastodon.test/users/bob',
+        object: 'https://mastodon.test/users/bob'
+      });
+
+      expect(response.status).toBe(202);
+      expect(await store.allFollowers('user-alice')).toEqual([]);
+      expect(store.remoteObjects.size).toBe(0);
+      expect(store.remoteActors.has('https://mastodon.test/users/bob')).toBe(false);
+    });
+
+    it('hands stored remote posts to listeners without failing the delivery', async () => {
+      const listener = vi.fn().mockRejectedValue(new Error('bridge down'));
+      server.onRemotePost(listener);
+      const note = { id: 'https://mastodon.test/notes/1', type: 'Note', attributedTo: 'https://mastodon.test/users/bob' };
+
+      const response = await mastodon.send('bob', 'https://echo.test/inbox', {
+        id: 'https://mastodon.test/activities/create-1',
+        type: 'Create',
+        actor: 'https://mastodon.test/users/bob',
+        object: note
+      });
+
+      expect(response.status).toBe(202);
+      expect(store.remoteObjects.size).toBe(1);
+      expect(listener).toHaveBeenCalledWith(note, expect.objectContaining({ id: 'https://mastodon.test/users/bob' }));
+    });
+  });
+
+  describe('delivery', () => {
+    it('fans out through shared inboxes once per instance', async () => {
+      await mastodon.addActor('carol');
+      const pleroma = new MockActivityPubInstance('pleroma.test', network, { sharedInbox: false });
+      await pleroma.addActor('dave');
+
+      await mastodon.send('bob', aliceInbox, follow());
+      await mastodon.send('carol', aliceInbox, {
+        ...follow('https://mastodon.test/activities/follow-2'),
+        actor: 'https://mastodon.test/users/carol'
+      });
+      await pleroma.send('dave', aliceInbox, {
+        ...follow('https://pleroma.test/activities/follow-3'),
+        actor: 'https://pleroma.test/users/dave'
+      });
+      await server.delivery.processDue();
+      mastodon.received = [];
+      pleroma.received = [];
+
+      const published = await server.publish('user-alice', {
+        type: 'Create',
+        object: { type: 'Note', content: 'Hello fediverse' }
+      });
+      expect(published.to).toEqual([PUBLIC_COLLECTION]);
+      expect(published.object.attributedTo).toBe('https://echo.test/users/alice');
+
+      await server.delivery.processDue();
+      expect(mastodon.received.map(d => d.inbox)).toEqual(['https://mastodon.test/inbox']);
+      expect(pleroma.received.map(d => d.inbox)).toEqual(['https://pleroma.test/users/dave/inbox']);
+
+      const outbox = await server.outbox('alice', 1);
+      expect(outbox?.orderedItems[0].id).toBe(published.id);
+    });
+
+    it('backs off a failing host and drops permanent failures', async () => {
+      await mastodon.send('bob', aliceInbox, follow());
+      mastodon.inboxStatus = 503;
+
+      expect(await server.delivery.processDue()).toEqual({ delivered: 0, retried: 1, dropped: 0 });
+      expect(await server.delivery.processDue()).toEqual({ delivered: 0, retried: 0, dropped: 0 });
+
+      now = new Date(now.getTime() + 31_000);
+      mastodon.inboxStatus = 202;
+      expect(await server.delivery.processDue()).toEqual({ delivered: 1, retried: 0, dropped: 0 });
+      expect(mastodon.received).toHaveLength(1);
+
+      await server.publish('user-alice', { type: 'Create', object: { type: 'Note', content: 'Gone' } });
+      mastodon.inboxStatus = 403;
+      expect(await server.delivery.processDue()).toEqual({ delivered: 0, retried: 0, dropped: 1 });
+      expect(store.deliveries.size).toBe(0);
+    });
+
+    it('completes an outgoing follow when the remote accepts', async () => {
+      const activity = await server.follow('user-alice', 'https://mastodon.test/users/bob');
+      await server.delivery.processDue();
+      expect(mastodon.received[0].activity.type).toBe('Follow');
+
+      await mastodon.send('bob', aliceInbox, {
+        id: 'https://mastodon.test/activities/accept-1',
+        type: 'Accept',
+        actor: 'https://mastodon.test/users/bob',
+        object: activity
+      });
+      expect(store.following.get(activity.id!)?.accepted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,556 @@
+import { generateKeyPair } from 'node:crypto';
+import { promisify } from 'node:util';
+import { supabase } from '$lib/supabaseClient';
+
+export type APObject = Record<string, any> & { id?: string; type?: string };
+
+export interface LocalActor {
+  userId: string;
+  username: string;
+  displayName?: string;
+  summary?: string;
+  avatarUrl?: string;
+  publicKeyPem: string;
+  privateKeyPem: string;
+}
+
+export interface RemoteActor {
+  id: string;
+  inbox: string;
+  sharedInbox?: string;
+  publicKeyId: string;
+  publicKeyPem: string;
+  preferredUsername?: string;
+  fetchedAt: string;
+}
+
+export interface Follower {
+  actorId: string;
+  inbox: string;
+  sharedInbox?: string;
+  /** The Follow activity, echoed back in Accept and matched by Undo */
+  followActivityId: string;
+}
+
+export interface Interaction {
+  activityId: string;
+  type: 'Like' | 'Announce';
+  actorId: string;
+  objectId: string;
+}
+
+export interface DeliveryJob {
+  id: string;
+  inbox: string;
+  /** Local user whose key signs the delivery */
+  senderUserId: string;
+  activity: APObject;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface Page<T> {
+  total: number;
+  items: T[];
+}
+
+/**
+ * Persistence for the ActivityPub server. Supabase-backed in production;
+ * MemoryActivityPubStore backs tests and local development.
+ */
+export interface ActivityPubStore {
+  getLocalActor(username: string): Promise<LocalActor | null>;
+  getLocalActorByUserId(userId: string): Promise<LocalActor | null>;
+  countLocalUsers(): Promise<number>;
+  countLocalPosts(): Promise<number>;
+
+  addFollower(userId: string, follower: Follower): Promise<void>;
+  removeFollower(userId: string, actorId: string): Promise<void>;
+  /** Removes the actor from every local user's followers */
+  removeFollowerEverywhere(actorId: string): Promise<void>;
+  listFollowers(userId: string, offset: number, limit: number): Promise<Page<Follower>>;
+  allFollowers(userId: string): Promise<Follower[]>;
+
+  setFollowing(userId: string, actorId: string, followActivityId: string, accepted: boolean): Promise<void>;
+  /** Marks a pending follow accepted; returns false if no such follow was sent */
+  acceptFollowing(followActivityId: string, actorId: string): Promise<boolean>;
+  removeFollowing(userId: string, actorId: string): Promise<void>;
+
+  addOutboxActivity(userId: string, activity: APObject): Promise<void>;
+  listOutbox(userId: string, offset: number, limit: number): Promise<Page<APObject>>;
+
+  addInteraction(interaction: Interaction): Promise<void>;
+  removeInteraction(activityId: string, actorId: string): Promise<void>;
+  removeInteractionsByActor(actorId: string): Promise<void>;
+
+  getRemoteActor(id: string): Promise<RemoteActor | null>;
+  saveRemoteActor(actor: RemoteActor): Promise<void>;
+  deleteRemoteActor(id: string): Promise<void>;
+  /** Keeps a copy of a remote object delivered to us, e.g. a followed account's Note */
+  saveRemoteObject(object: APObject, actorId: string): Promise<void>;
+  /** Drops a remote object, but only if `actorId` is the one who delivered it */
+  deleteRemoteObject(objectId: string, actorId: string): Promise<void>;
+  /** Drops every remote object delivered by the actor */
+  deleteRemoteObjectsByActor(actorId: string): Promise<void>;
+
+  /** Records an inbound activity id; false if it was already processed */
+  markActivitySeen(activityId: string): Promise<boolean>;
+  /** Forgets an activity id so a redelivery is processed again, e.g. after a failure */
+  unmarkActivitySeen(activityId: string): Promise<void>;
+
+  saveDelivery(job: DeliveryJob): Promise<void>;
+  deleteDelivery(id: string): Promise<void>;
+  dueDeliveries(now: Date, limit: number): Promise<DeliveryJob[]>;
+}
+
+const generateRsaKeyPair = promisify(generateKeyPair);
+
+export async function createActorKeyPair(): Promise<{ publicKeyPem: string; privateKeyPem: string }> {
+  const { publicKey, privateKey } = await generateRsaKeyPair('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+  return { publicKeyPem: publicKey, privateKeyPem: privateKey };
+}
+
+export class MemoryActivityPubStore implements ActivityPubStore {
+  actors = new Map<string, LocalActor>();
+  followers = new Map<string, Follower[]>();
+  following = new Map<string, { userId: string; actorId: string; accepted: boolean }>();
+  outbox = new Map<string, APObject[]>();
+  interactions: Interaction[] = [];
+  remoteActors = new Map<string, RemoteActor>();
+  remoteObjects = new Map<string, { object: APObject; actorId: string }>();
+  seen = new Set<string>();
+  deliveries = new Map<string, DeliveryJob>();
+
+  async getLocalActor(username: string) {
+    return this.actors.get(username) ?? null;
+  }
+
+  async getLocalActorByUserId(userId: string) {
+    return [...this.actors.values()].find(actor => actor.userId === userId) ?? null;
+  }
+
+  async countLocalUsers() {
+    return this.actors.size;
+  }
+
+  async countLocalPosts() {
+    return [...this.outbox.values()].reduce(
+      (sum, items) => sum + items.filter(item => item.type === 'Create').length,
+      0
+    );
+  }
+
+  async addFollower(userId: string, follower: Follower) {
+    const list = (this.followers.get(userId) ?? []).filter(f => f.actorId !== follower.actorId);
+    this.followers.set(userId, [...list, follower]);
+  }
+
+  async removeFollower(userId: string, actorId: string) {
+    this.followers.set(userId, (this.followers.get(userId) ?? []).filter(f => f.actorId !== actorId));
+  }
+
+  async removeFollowerEverywhere(actorId: string) {
+    for (const userId of this.followers.keys()) {
+      await this.removeFollower(userId, actorId);
+    }
+  }
+
+  async listFollowers(userId: string, offset: number, limit: number) {
+    const list = this.followers.get(userId) ?? [];
+    return { total: list.length, items: list.slice(offset, offset + limit) };
+  }
+
+  async allFollowers(userId: string) {
+    return this.followers.get(userId) ?? [];
+  }
+
+  async setFollowing(userId: string, actorId: string, followActivityId: string, accepted: boolean) {
+    this.following.set(followActivityId, { userId, actorId, accepted });
+  }
+
+  async acceptFollowing(followActivityId: string, actorId: string) {
+    const follow = this.following.get(followActivityId);
+    if (!follow || follow.actorId !== actorId) return false;
+    follow.accepted = true;
+    return true;
+  }
+
+  async removeFollowing(userId: string, actorId: string) {
+    for (const [id, follow] of this.following) {
+      if (follow.userId === userId && follow.actorId === actorId) this.following.delete(id);
+    }
+  }
+
+  async addOutboxActivity(userId: string, activity: APObject) {
+    this.outbox.set(userId, [activity, ...(this.outbox.get(userId) ?? [])]);
+  }
+
+  async listOutbox(userId: string, offset: number, limit: number) {
+    const list = this.outbox.get(userId) ?? [];
+    return { total: list.length, items: list.slice(offset, offset + limit) };
+  }
+
+  async addInteraction(interaction: Interaction) {
+    this.interactions.push(interaction);
+  }
+
+  async removeInteraction(activityId: string, actorId: string) {
+    this.interactions = this.interactions.filter(i => !(i.activityId === activityId && i.actorId === actorId));
+  }
+
+  async removeInteractionsByActor(actorId: string) {
+    this.interactions = this.interactions.filter(i => i.actorId !== actorId);
+  }
+
+  async getRemoteActor(id: string) {
+    return this.remoteActors.get(id) ?? null;
+  }
+
+  async saveRemoteActor(actor: RemoteActor) {
+    this.remoteActors.set(actor.id, actor);
+  }
+
+  async deleteRemoteActor(id: string) {
+    this.remoteActors.delete(id);
+  }
+
+  async saveRemoteObject(object: APObject, actorId: string) {
+    this.remoteObjects.set(object.id!, { object, actorId });
+  }
+
+  async deleteRemoteObject(objectId: string, actorId: string) {
+    if (this.remoteObjects.get(objectId)?.actorId === actorId) this.remoteObjects.delete(objectId);
+  }
+
+  async deleteRemoteObjectsByActor(actorId: string) {
+    for (const [id, entry] of this.remoteObjects) {
+      if (entry.actorId === actorId) this.remoteObjects.delete(id);
+    }
+  }
+
+  async markActivitySeen(activityId: string) {
+    if (this.seen.has(activityId)) return false;
+    this.seen.add(activityId);
+    return true;
+  }
+
+  async unmarkActivitySeen(activityId: string) {
+    this.seen.delete(activityId);
+  }
+
+  async saveDelivery(job: DeliveryJob) {
+    this.deliveries.set(job.id, { ...job });
+  }
+
+  async deleteDelivery(id: string) {
+    this.deliveries.delete(id);
+  }
+
+  async dueDeliveries(now: Date, limit: number) {
+    return [...this.deliveries.values()]
+      .filter(job => Date.parse(job.nextAttemptAt) <= now.getTime())
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+      .slice(0, limit)
+      .map(job => ({ ...job }));
+  }
+}
+
+export class SupabaseActivityPubStore implements ActivityPubStore {
+  async getLocalActor(username: string): Promise<LocalActor | null> {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id, username, display_name, bio, avatar_url')
+      .eq('username', username)
+      .single();
+    return profile ? this.withKeys(profile) : null;
+  }
+
+  async getLocalActorByUserId(userId: string): Promise<LocalActor | null> {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id, username, display_name, bio, avatar_url')
+      .eq('id', userId)
+      .single();
+    return profile ? this.withKeys(profile) : null;
+  }
+
+  /** Actor keys are created on first use so existing users federate without a backfill */
+  private async withKeys(profile: any): Promise<LocalActor> {
+    let { data: keys } = await supabase
+      .from('activitypub_keys')
+      .select('public_key_pem, private_key_pem')
+      .eq('user_id', profile.id)
+      .single();
+
+    if (!keys) {
+      const pair = await createActorKeyPair();
+      const { error } = await supabase.from('activitypub_keys').insert({
+        user_id: profile.id,
+        public_key_pem: pair.publicKeyPem,
+        private_key_pem: pair.privateKeyPem
+      });
+      if (error) throw error;
+      keys = { public_key_pem: pair.publicKeyPem, private_key_pem: pair.privateKeyPem };
+    }
+
+    return {
+      userId: profile.id,
+      username: profile.username,
+      displayName: profile.display_name ?? undefined,
+      summary: profile.bio ?? undefined,
+      avatarUrl: profile.avatar_url ?? undefined,
+      publicKeyPem: keys.public_key_pem,
+      privateKeyPem: keys.private_key_pem
+    };
+  }
+
+  async countLocalUsers(): Promise<number> {
+    const { count } = await supabase.from('profiles').select('id', { count: 'exact', head: true });
+    return count ?? 0;
+  }
+
+  async countLocalPosts(): Promise<number> {
+    const { count } = await supabase.from('posts').select('id', { count: 'exact', head: true });
+    return count ?? 0;
+  }
+
+  async addFollower(userId: string, follower: Follower): Promise<void> {
+    const { error } = await supabase.from('activitypub_followers').upsert(
+      {
+        user_id: userId,
+        actor_id: follower.actorId,
+        inbox: follower.inbox,
+        shared_inbox: follower.sharedInbox ?? null,
+        follow_activity_id: follower.followActivityId
+      },
+      { onConflict: 'user_id,actor_id' }
+    );
+    if (error) throw error;
+  }
+
+  async removeFollower(userId: string, actorId: string): Promise<void> {
+    await supabase
+      .from('activitypub_followers')
+      .delete()
+      .eq('user_id', userId)
+      .eq('actor_id', actorId);
+  }
+
+  async removeFollowerEverywhere(actorId: string): Promise<void> {
+    await supabase.from('activitypub_followers').delete().eq('actor_id', actorId);
+  }
+
+  async listFollowers(userId: string, offset: number, limit: number): Promise<Page<Follower>> {
+    const { data, count, error } = await supabase
+      .from('activitypub_followers')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return { total: count ?? 0, items: (data ?? []).map(toFollower) };
+  }
+
+  async allFollowers(userId: string): Promise<Follower[]> {
+    const { data, error } = await supabase
+      .from('activitypub_followers')
+      .select('*')
+      .eq('user_id', userId);
+    if (error) throw error;
+    return (data ?? []).map(toFollower);
+  }
+
+  async setFollowing(userId: string, actorId: string, followActivityId: string, accepted: boolean): Promise<void> {
+    const { error } = await supabase.from('activitypub_following').upsert(
+      {
+        user_id: userId,
+        actor_id: actorId,
+        follow_activity_id: followActivityId,
+        accepted
+      },
+      { onConflict: 'user_id,actor_id' }
+    );
+    if (error) throw error;
+  }
+
+  async acceptFollowing(followActivityId: string, actorId: string): Promise<boolean> {
+    const { data } = await supabase
+      .from('activitypub_following')
+      .update({ accepted: true })
+      .eq('follow_activity_id', followActivityId)
+      .eq('actor_id', actorId)
+      .select('user_id');
+    return Boolean(data?.length);
+  }
+
+  async removeFollowing(userId: string, actorId: string): Promise<void> {
+    await supabase
+      .from('activitypub_following')
+      .delete()
+      .eq('user_id', userId)
+      .eq('actor_id', actorId);
+  }
+
+  async addOutboxActivity(userId: string, activity: APObject): Promise<void> {
+    const { error } = await supabase.from('activitypub_outbox').insert({
+      id: activity.id,
+      user_id: userId,
+      type: activity.type,
+      activity
+    });
+    if (error) throw error;
+  }
+
+  async listOutbox(userId: string, offset: number, limit: number): Promise<Page<APObject>> {
+    const { data, count, error } = await supabase
+      .from('activitypub_outbox')
+      .select('activity', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return { total: count ?? 0, items: (data ?? []).map(row => row.activity) };
+  }
+
+  async addInteraction(interaction: Interaction): Promise<void> {
+    const { error } = await supabase.from('activitypub_interactions').upsert({
+      activity_id: interaction.activityId,
+      type: interaction.type,
+      actor_id: interaction.actorId,
+      object_id: interaction.objectId
+    });
+    if (error) throw error;
+  }
+
+  async removeInteraction(activityId: string, actorId: string): Promise<void> {
+    await supabase
+      .from('activitypub_interactions')
+      .delete()
+      .eq('activity_id', activityId)
+      .eq('actor_id', actorId);
+  }
+
+  async removeInteractionsByActor(actorId: string): Promise<void> {
+    await supabase.from('activitypub_interactions').delete().eq('actor_id', actorId);
+  }
+
+  async getRemoteActor(id: string): Promise<RemoteActor | null> {
+    const { data } = await supabase
+      .from('activitypub_remote_actors')
+      .select('*')
+      .eq('id', id)
+      .single();
+    if (!data) return null;
+    return {
+      id: data.id,
+      inbox: data.inbox,
+      sharedInbox: data.shared_inbox ?? undefined,
+      publicKeyId: data.public_key_id,
+      publicKeyPem: data.public_key_pem,
+      preferredUsername: data.preferred_username ?? undefined,
+      fetchedAt: data.fetched_at
+    };
+  }
+
+  async saveRemoteActor(actor: RemoteActor): Promise<void> {
+    const { error } = await supabase.from('activitypub_remote_actors').upsert({
+      id: actor.id,
+      inbox: actor.inbox,
+      shared_inbox: actor.sharedInbox ?? null,
+      public_key_id: actor.publicKeyId,
+      public_key_pem: actor.publicKeyPem,
+      preferred_username: actor.preferredUsername ?? null,
+      fetched_at: actor.fetchedAt
+    });
+    if (error) throw error;
+  }
+
+  async deleteRemoteActor(id: string): Promise<void> {
+    await supabase.from('activitypub_remote_actors').delete().eq('id', id);
+  }
+
+  async saveRemoteObject(object: APObject, actorId: string): Promise<void> {
+    const { error } = await supabase.from('activitypub_remote_objects').upsert({
+      id: object.id,
+      actor_id: actorId,
+      type: object.type,
+      object
+    });
+    if (error) throw error;
+  }
+
+  async deleteRemoteObject(objectId: string, actorId: string): Promise<void> {
+    await supabase
+      .from('activitypub_remote_objects')
+      .delete()
+      .eq('id', objectId)
+      .eq('actor_id', actorId);
+  }
+
+  async deleteRemoteObjectsByActor(actorId: string): Promise<void> {
+    await supabase.from('activitypub_remote_objects').delete().eq('actor_id', actorId);
+  }
+
+  async markActivitySeen(activityId: string): Promise<boolean> {
+    const { error } = await supabase.from('activitypub_inbox_log').insert({ activity_id: activityId });
+    // 23505: unique_violation, i.e. a redelivery
+    if (error?.code === '23505') return false;
+    if (error) throw error;
+    return true;
+  }
+
+  async unmarkActivitySeen(activityId: string): Promise<void> {
+    const { error } = await supabase.from('activitypub_inbox_log').delete().eq('activity_id', activityId);
+    if (error) throw error;
+  }
+
+  async saveDelivery(job: DeliveryJob): Promise<void> {
+    const { error } = await supabase.from('activitypub_deliveries').upsert({
+      id: job.id,
+      inbox: job.inbox,
+      sender_user_id: job.senderUserId,
+      activity: job.activity,
+      attempts: job.attempts,
+      next_attempt_at: job.nextAttemptAt,
+      last_error: job.lastError ?? null
+    });
+    if (error) throw error;
+  }
+
+  async deleteDelivery(id: string): Promise<void> {
+    await supabase.from('activitypub_deliveries').delete().eq('id', id);
+  }
+
+  async dueDeliveries(now: Date, limit: number): Promise<DeliveryJob[]> {
+    const { data, error } = await supabase
+      .from('activitypub_deliveries')
+      .select('*')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+    if (error) throw error;
+    return (data ?? []).map(row => ({
+      id: row.id,
+      inbox: row.inbox,
+      senderUserId: row.sender_user_id,
+      activity: row.activity,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error ?? undefined
+    }));
+  }
+}
+
+function toFollower(row: any): Follower {
+  return {
+    actorId: row.actor_id,
+    inbox: row.inbox,
+    sharedInbox: row.shared_inbox ?? undefined,
+    followActivityId: row.follow_activity_id
+  };
+}
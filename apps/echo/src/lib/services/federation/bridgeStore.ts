@@ -0,0 +1,174 @@
+import { supabase } from '$lib/supabaseClient';
+
+/** One person known on both networks */
+export interface IdentityLink {
+  did: string;
+  actorUri: string;
+  /** Local account that speaks for this identity, if it is one of ours */
+  userId?: string;
+  /** AT handle, used as the mention label on the ActivityPub side */
+  handle?: string;
+}
+
+/** Where a bridged post was first written */
+export type PostOrigin = 'atproto' | 'activitypub' | 'local';
+
+/** One post and its copy on the other network */
+export interface PostLink {
+  atUri: string;
+  atCid: string;
+  apId: string;
+  origin: PostOrigin;
+  /** Thread root on the AT side; AT replies must name it alongside the parent */
+  rootAtUri?: string;
+  rootAtCid?: string;
+}
+
+/**
+ * Persistence for the AT Protocol ↔ ActivityPub bridge. Supabase-backed in
+ * production; MemoryBridgeStore backs tests.
+ */
+export interface BridgeStore {
+  linkIdentity(link: IdentityLink): Promise<void>;
+  identityByDid(did: string): Promise<IdentityLink | null>;
+  identityByActor(actorUri: string): Promise<IdentityLink | null>;
+
+  /** DIDs of identities that belong to a local account; only their AT posts are bridged */
+  localDids(): Promise<string[]>;
+
+  linkPost(link: PostLink): Promise<void>;
+  postByAtUri(atUri: string): Promise<PostLink | null>;
+  postByApId(apId: string): Promise<PostLink | null>;
+
+  /** How far the AT event stream has been read, so a restart resumes there */
+  streamCursor(): Promise<number | null>;
+  saveStreamCursor(cursor: number): Promise<void>;
+}
+
+export class MemoryBridgeStore implements BridgeStore {
+  identities: IdentityLink[] = [];
+  posts: PostLink[] = [];
+  cursor: number | null = null;
+
+  async linkIdentity(link: IdentityLink) {
+    this.identities = this.identities.filter(i => i.did !== link.did && i.actorUri !== link.actorUri);
+    this.identities.push(link);
+  }
+
+  async identityByDid(did: string) {
+    return this.identities.find(i => i.did === did) ?? null;
+  }
+
+  async identityByActor(actorUri: string) {
+    return this.identities.find(i => i.actorUri === actorUri) ?? null;
+  }
+
+  async localDids() {
+    return this.identities.filter(i => i.userId).map(i => i.did);
+  }
+
+  async linkPost(link: PostLink) {
+    this.posts = this.posts.filter(p => p.atUri !== link.atUri && p.apId !== link.apId);
+    this.posts.push(link);
+  }
+
+  async postByAtUri(atUri: string) {
+    return this.posts.find(p => p.atUri === atUri) ?? null;
+  }
+
+  async postByApId(apId: string) {
+    return this.posts.find(p => p.apId === apId) ?? null;
+  }
+
+  async streamCursor() {
+    return this.cursor;
+  }
+
+  async saveStreamCursor(cursor: number) {
+    this.cursor = cursor;
+  }
+}
+
+export class SupabaseBridgeStore implements BridgeStore {
+  async linkIdentity(link: IdentityLink): Promise<void> {
+    const { error } = await supabase.from('bridge_identities').upsert({
+      did: link.did,
+      actor_uri: link.actorUri,
+      user_id: link.userId ?? null,
+      handle: link.handle ?? null
+    });
+    if (error) throw error;
+  }
+
+  async identityByDid(did: string): Promise<IdentityLink | null> {
+    const { data } = await supabase.from('bridge_identities').select('*').eq('did', did).maybeSingle();
+    return data ? toIdentityLink(data) : null;
+  }
+
+  async identityByActor(actorUri: string): Promise<IdentityLink | null> {
+    const { data } = await supabase
+      .from('bridge_identities')
+      .select('*')
+      .eq('actor_uri', actorUri)
+      .maybeSingle();
+    return data ? toIdentityLink(data) : null;
+  }
+
+  async localDids(): Promise<string[]> {
+    const { data, error } = await supabase.from('bridge_identities').select('did').not('user_id', 'is', null);
+    if (error) throw error;
+    return (data ?? []).map(row => row.did);
+  }
+
+  async linkPost(link: PostLink): Promise<void> {
+    const { error } = await supabase.from('bridge_posts').upsert({
+      at_uri: link.atUri,
+      at_cid: link.atCid,
+      ap_id: link.apId,
+      origin: link.origin,
+      root_at_uri: link.rootAtUri ?? null,
+      root_at_cid: link.rootAtCid ?? null
+    });
+    if (error) throw error;
+  }
+
+  async postByAtUri(atUri: string): Promise<PostLink | null> {
+    const { data } = await supabase.from('bridge_posts').select('*').eq('at_uri', atUri).maybeSingle();
+    return data ? toPostLink(data) : null;
+  }
+
+  async postByApId(apId: string): Promise<PostLink | null> {
+    const { data } = await supabase.from('bridge_posts').select('*').eq('ap_id', apId).maybeSingle();
+    return data ? toPostLink(data) : null;
+  }
+
+  async streamCursor(): Promise<number | null> {
+    const { data } = await supabase.from('bridge_stream_cursor').select('cursor').eq('id', 1).maybeSingle();
+    return data ? Number(data.cursor) : null;
+  }
+
+  async saveStreamCursor(cursor: number): Promise<void> {
+    const { error } = await supabase.from('bridge_stream_cursor').upsert({ id: 1, cursor });
+    if (error) throw error;
+  }
+}
+
+function toIdentityLink(row: any): IdentityLink {
+  return {
+    did: row.did,
+    actorUri: row.actor_uri,
+    userId: row.user_id ?? undefined,
+    handle: row.handle ?? undefined
+  };
+}
+
+function toPostLink(row: any): PostLink {
+  return {
+    atUri: row.at_uri,
+    atCid: row.at_cid,
+    apId: row.ap_id,
+    origin: row.origin,
+    rootAtUri: row.root_at_uri ?? undefined,
+    rootAtCid: row.root_at_cid ?? undefined
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Conversion between AT Protocol rich text (plain text plus byte-indexed
+ * facets) and the HTML subset ActivityPub servers exchange. Outgoing HTML
+ * is built from escaped text only; incoming HTML is reduced to text, so no
+ * remote markup ever reaches a client.
+ */
+
+export type FacetFeature =
+  | { $type: 'app.bsky.richtext.facet#mention'; did: string }
+  | { $type: 'app.bsky.richtext.facet#link'; uri: string }
+  | { $type: 'app.bsky.richtext.facet#tag'; tag: string };
+
+export interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: FacetFeature[];
+}
+
+export interface RichText {
+  text: string;
+  facets: Facet[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function byteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isWebUrl(uri: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(uri).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\n/g, '<br>');
+}
+
+interface HtmlLinks {
+  /** AP actor URI (or profile URL) for a mentioned DID */
+  mentionHref(did: string): string;
+  /** Local tag page for a hashtag */
+  tagHref(tag: string): string;
+}
+
+/** Renders text and facets as paragraphs of HTML, Mastodon-style */
+export function richTextToHtml(richText: RichText, links: HtmlLinks): string {
+  const bytes = encoder.encode(richText.text);
+  const facets = [...richText.facets]
+    .filter(f => f.index.byteStart < f.index.byteEnd && f.index.byteEnd <= bytes.length)
+    .sort((a, b) => a.index.byteStart - b.index.byteStart);
+
+  let html = '';
+  let cursor = 0;
+  for (const facet of facets) {
+    // Overlapping facets are invalid; keep the first
+    if (facet.index.byteStart < cursor) continue;
+    html += textToHtml(decoder.decode(bytes.slice(cursor, facet.index.byteStart)));
+
+    const label = decoder.decode(bytes.slice(facet.index.byteStart, facet.index.byteEnd));
+    const feature = facet.features[0];
+    if (feature?.$type === 'app.bsky.richtext.facet#mention') {
+      html += `<span class="h-card"><a href="${escapeHtml(links.mentionHref(feature.did))}" class="u-url mention">${escapeHtml(label)}</a></span>`;
+    } else if (feature?.$type === 'app.bsky.richtext.facet#tag') {
+      html += `<a href="${escapeHtml(links.tagHref(feature.tag))}" class="mention hashtag" rel="tag">${escapeHtml(label)}</a>`;
+    } else if (feature?.$type === 'app.bsky.richtext.facet#link' && isWebUrl(feature.uri)) {
+      html += `<a href="${escapeHtml(feature.uri)}" rel="nofollow noopener noreferrer" target="_blank">${escapeHtml(label)}</a>`;
+    } else {
+      html += textToHtml(label);
+    }
+    cursor = facet.index.byteEnd;
+  }
+  html += textToHtml(decoder.decode(bytes.slice(cursor)));
+
+  return html
+    .split(/(?:<br>){2,}/)
+    .map(paragraph => `<p>${paragraph}</p>`)
+    .join('');
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1].toLowerCase() === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+interface HtmlContext {
+  /** DIDs for mentioned actors, keyed by the href in the HTML */
+  mentions?: Map<string, string | undefined>;
+  /** Elements with these classes are dropped with their content (e.g. inline quote fallbacks) */
+  skipClasses?: string[];
+}
+
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'template', 'iframe', 'object', 'noscript']);
+const BLOCK_ELEMENTS = new Set(['p', 'div', 'blockquote', 'pre', 'ul', 'ol', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/**
+ * Reduces ActivityPub HTML to plain text with facets. Anchors become link,
+ * mention or tag facets; every other element contributes only its text.
+ */
+export function htmlToRichText(html: string, context: HtmlContext = {}): RichText {
+  let text = '';
+  const facets: Facet[] = [];
+  const anchors: Array<{ href: string; className: string; rel: string; start: number }> = [];
+  const skipping: string[] = [];
+
+  const breakTo = (separator: string) => {
+    if (!text) return;
+    const trailing = /\n*$/.exec(text)![0].length;
+    if (trailing < separator.length) text += separator.slice(trailing);
+  };
+
+  for (const match of html.matchAll(/<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)|</g)) {
+    const [token, closing, rawName, rawAttributes, content] = match;
+    if (token.startsWith('<!--')) continue;
+
+    if (content !== undefined || token === '<') {
+      if (!skipping.length) text += decodeEntities(content ?? token);
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const selfClosing = rawAttributes.trim().endsWith('/') || name === 'br' || name === 'img' || name === 'hr';
+    const attributes = parseAttributes(rawAttributes);
+
+    if (skipping.length) {
+      if (closing && name === skipping[skipping.length - 1]) skipping.pop();
+      else if (!closing && !selfClosing && name === skipping[skipping.length - 1]) skipping.push(name);
+      continue;
+    }
+    if (!closing && !selfClosing) {
+      const classes = (attributes.class ?? '').split(/\s+/);
+      if (SKIPPED_ELEMENTS.has(name) || context.skipClasses?.some(c => classes.includes(c))) {
+        skipping.push(name);
+        continue;
+      }
+    }
+
+    if (name === 'br') {
+      text += '\n';
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      breakTo('\n\n');
+    } else if (name === 'li' && !closing) {
+      breakTo('\n');
+      text += '• ';
+    } else if (name === 'a' && !closing) {
+      anchors.push({
+        href: attributes.href ?? '',
+        className: attributes.class ?? '',
+        rel: attributes.rel ?? '',
+        start: byteLength(text)
+      });
+    } else if (name === 'a' && closing) {
+      const anchor = anchors.pop();
+      if (!anchor) continue;
+      const end = byteLength(text);
+      const label = decoder.decode(encoder.encode(text).slice(anchor.start, end));
+      const classes = anchor.className.split(/\s+/);
+      const index = { byteStart: anchor.start, byteEnd: end };
+      if (end <= anchor.start) continue;
+
+      if (classes.includes('hashtag') || anchor.rel.split(/\s+/).includes('tag') || label.startsWith('#')) {
+        facets.push({ index, features: [{ $type: 'app.bsky.richtext.facet#tag', tag: label.replace(/^#/, '') }] });
+      } else if ((classes.includes('mention') || label.startsWith('@')) && context.mentions?.get(anchor.href)) {
+        facets.push({
+          index,
+          features: [{ $type: 'app.bsky.richtext.facet#mention', did: context.mentions.get(anchor.href)! }]
+        });
+      } else if (isWebUrl(anchor.href)) {
+        facets.push({ index, features: [{ $type: 'app.bsky.richtext.facet#link', uri: anchor.href }] });
+      }
+    }
+  }
+
+  // Trailing whitespace can't carry facets, so trimming the end never invalidates one
+  text = text.replace(/\s+$/, '');
+  const length = byteLength(text);
+  return { text, facets: facets.filter(f => f.index.byteEnd <= length) };
+}
+
+/**
+ * Shortens rich text to `maxGraphemes`, dropping facets that would be cut
+ * and appending `suffix` (typically a link to the full post) as a link facet.
+ */
+export function truncateRichText(richText: RichText, maxGraphemes: number, suffixUrl: string): RichText {
+  const segmenter = new Intl.Segmenter();
+  const graphemes = [...segmenter.segment(richText.text)].map(s => s.segment);
+  if (graphemes.length <= maxGraphemes) return richText;
+
+  const suffixLength = [...segmenter.segment(suffixUrl)].length + 2;
+  const kept = graphemes.slice(0, Math.max(0, maxGraphemes - suffixLength)).join('').replace(/\s+$/, '');
+  const text = `${kept}… `;
+  const keptBytes = byteLength(kept);
+  const facets = richText.facets.filter(f => f.index.byteEnd <= keptBytes);
+  const start = byteLength(text);
+  facets.push({
+    index: { byteStart: start, byteEnd: start + byteLength(suffixUrl) },
+    features: [{ $type: 'app.bsky.richtext.facet#link', uri: suffixUrl }]
+  });
+  return { text: text + suffixUrl, facets };
+}
@@ -0,0 +1,28 @@
+import { json } from '@sveltejs/kit';
+import type { InboxResult } from './ActivityPubServer';
+import type { IncomingRequest } from './httpSignatures';
+
+/** Parses ?page=N; undefined when absent, null when invalid */
+export function pageParam(url: URL): number | undefined | null {
+  const value = url.searchParams.get('page');
+  if (value === null) return undefined;
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : null;
+}
+
+export async function toIncomingRequest(request: Request): Promise<IncomingRequest> {
+  const url = new URL(request.url);
+  return {
+    method: request.method,
+    path: url.pathname + url.search,
+    headers: Object.fromEntries(request.headers),
+    body: await request.text()
+  };
+}
+
+export function inboxResponse(result: InboxResult): Response {
+  if (result.error) {
+    return json({ error: result.error }, { status: result.status });
+  }
+  return new Response(null, { status: result.status });
+}
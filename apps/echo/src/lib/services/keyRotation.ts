@@ -1,49 +1,61 @@
+import { randomUUID } from 'crypto';
 import { supabase } from '$lib/supabaseClient';
-import { ethers } from 'ethers';
+import { contentEncryption, type ContentEncryptionService } from './encryption/ContentEncryption';
+import { keyRegistry, type KeyRegistry } from './encryption/KeyRegistry';
+import type { ContentKey, RotationJob } from './encryption/keyStore';
 
 interface KeyRotationConfig {
   rotationInterval: number; // days
-  backupEnabled: boolean;
   notifyOnRotation: boolean;
+  batchSize: number; // data keys rewrapped per batch
 }
 
-interface EncryptionKey {
-  id: string;
-  userId: string;
-  keyType: string;
-  publicKey: string;
-  encryptedPrivateKey: string;
-  version: number;
-  createdAt: string;
-  expiresAt: string | null;
-  metadata: {
-    algorithm: string;
-    keySize: number;
-    rotationId?: string;
-    backupId?: string;
-  };
+interface KeyRotationOptions {
+  registry: KeyRegistry;
+  contentEncryption: ContentEncryptionService;
+  config?: Partial<KeyRotationConfig>;
+  now?: () => Date;
+}
+
+export interface RotationProgress {
+  status: RotationJob['status'];
+  processed: number;
+  total: number;
+  percent: number;
 }
 
-class KeyRotationService {
+/**
+ * Rotates users' key-encryption keys. Content is encrypted under per-item
+ * data keys (see EnvelopeEncryption), so a rotation rewraps those data
+ * keys in batches rather than re-encrypting content. Each rotation is a
+ * persisted job: it records its progress after every batch, resumes after
+ * a crash, and can be rolled back.
+ */
+export class KeyRotationService {
   private defaultConfig: KeyRotationConfig = {
     rotationInterval: 30,
-    backupEnabled: true,
-    notifyOnRotation: true
+    notifyOnRotation: true,
+    batchSize: 500
   };
 
+  private registry: KeyRegistry;
+  private contentEncryption: ContentEncryptionService;
+  private now: () => Date;
+
+  constructor(options: KeyRotationOptions) {
+    this.registry = options.registry;
+    this.contentEncryption = options.contentEncryption;
+    this.defaultConfig = { ...this.defaultConfig, ...options.config };
+    this.now = options.now ?? (() => new Date());
+  }
+
   async initializeKeys(userId: string): Promise<void> {
     try {
-      // Check for existing keys
-      const { data: existingKeys } = await supabase
-        .from('encryption_keys')
-        .select('*')
-        .eq('user_id', userId);
-
-      if (!existingKeys?.length) {
-        // Generate initial key pairs
-        await this.generateKeyPair(userId, 'content');
-        await this.generateKeyPair(userId, 'messaging');
-        await this.generateKeyPair(userId, 'backup');
+      if (!(await this.registry.activeVersion(userId, 'content'))) {
+        await this.registry.createVersion(userId, 'content');
+      }
+      if (!(await this.registry.activeVersion(userId, 'sharing'))) {
+        await this.contentEncryption.generateUserKeys(userId);
       }
     } catch (error) {
       console.error('Failed to initialize keys:', error);
@@ -51,245 +63,153 @@ class KeyRotationService {
     }
   }
 
-  private async generateKeyPair(
-    userId: string,
-    keyType: string,
-    version: number = 1
-  ): Promise<EncryptionKey> {
-    // Generate new key pair
-    const wallet = ethers.Wallet.createRandom();
-    const masterKey = await this.generateMasterKey();
-
-    // Encrypt private key with master key
-    const encryptedPrivateKey = await this.encryptPrivateKey(
-      wallet.privateKey,
-      masterKey
-    );
-
-    // Calculate expiration date
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + this.defaultConfig.rotationInterval);
-
-    const keyData = {
-      user_id: userId,
-      key_type: keyType,
-      public_key: wallet.publicKey,
-      encrypted_private_key: encryptedPrivateKey,
-      version,
-      expires_at: expiresAt.toISOString(),
-      metadata: {
-        algorithm: 'ECDSA',
-        keySize: 256,
-        rotationId: ethers.utils.id(Date.now().toString())
-      }
-    };
-
-    // Store key in database
-    const { data, error } = await supabase
-      .from('encryption_keys')
-      .insert(keyData)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data as EncryptionKey;
-  }
-
-  async rotateKeys(userId: string): Promise<void> {
+  /**
+   * Rotates the user's content KEK and sharing key pair. An unfinished
+   * rotation is resumed instead of starting another.
+   */
+  async rotateKeys(userId: string): Promise<RotationJob> {
     try {
-      // Get all active keys
-      const { data: activeKeys, error: keysError } = await supabase
-        .from('encryption_keys')
-        .select('*')
-        .eq('user_id', userId)
-        .is('expires_at', null);
-
-      if (keysError) throw keysError;
+      const [unfinished] = [
+        ...(await this.registry.store.listRotationJobs('running', userId)),
+        ...(await this.registry.store.listRotationJobs('failed', userId))
+      ];
+      const job = unfinished ?? (await this.startRotation(userId));
+      const finished = await this.runJob(job);
 
-      // Generate new keys for each type
-      for (const key of activeKeys || []) {
-        // Create new key pair
-        const newKey = await this.generateKeyPair(
-          userId,
-          key.key_type,
-          key.version + 1
-        );
-
-        // Re-encrypt content with new key
-        await this.reencryptContent(userId, key, newKey);
-
-        // Mark old key as expired
-        const { error: updateError } = await supabase
-          .from('encryption_keys')
-          .update({ expires_at: new Date().toISOString() })
-          .eq('id', key.id);
-
-        if (updateError) throw updateError;
-
-        // Create backup if enabled
-        if (this.defaultConfig.backupEnabled) {
-          await this.backupKey(newKey);
-        }
-      }
+      // Sharing keys wrap nothing server-side; old versions stay available for decryption
+      if (!unfinished) await this.contentEncryption.rotateUserKeys(userId);
 
-      // Notify user if enabled
       if (this.defaultConfig.notifyOnRotation) {
         await this.notifyKeyRotation(userId);
       }
+      return finished;
     } catch (error) {
       console.error('Failed to rotate keys:', error);
       throw new Error('Key rotation failed');
     }
   }
 
-  private async reencryptContent(
-    userId: string,
-    oldKey: EncryptionKey,
-    newKey: EncryptionKey
-  ): Promise<void> {
-    // Get all content encrypted with old key
-    const { data: content } = await supabase
-      .from('posts')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('encryption_key_id', oldKey.id);
-
-    // Re-encrypt each piece of content
-    for (const item of content || []) {
-      const decrypted = await this.decryptWithKey(item.content, oldKey);
-      const encrypted = await this.encryptWithKey(decrypted, newKey);
+  private async startRotation(userId: string): Promise<RotationJob> {
+    const from =
+      (await this.registry.activeVersion(userId, 'content')) ??
+      (await this.registry.createVersion(userId, 'content'));
+    const to = await this.registry.createVersion(userId, 'content');
+
+    const job: RotationJob = {
+      id: randomUUID(),
+      userId,
+      fromVersionId: from.id,
+      toVersionId: to.id,
+      status: 'running',
+      processed: 0,
+      total: await this.registry.store.countContentKeys(from.id),
+      startedAt: this.now().toISOString(),
+      updatedAt: this.now().toISOString()
+    };
+    await this.registry.store.saveRotationJob(job);
+    return job;
+  }
 
-      await supabase
-        .from('posts')
-        .update({
-          content: encrypted,
-          encryption_key_id: newKey.id,
-          metadata: {
-            ...item.metadata,
-            reencrypted: true,
-            previousKeyId: oldKey.id
-          }
-        })
-        .eq('id', item.id);
+  /** Picks up rotations interrupted by a crash or deploy; call on startup */
+  async resumeInterruptedRotations(): Promise<RotationJob[]> {
+    const jobs = await this.registry.store.listRotationJobs('running');
+    const resumed: RotationJob[] = [];
+    for (const job of jobs) {
+      try {
+        resumed.push(await this.runJob(job));
+      } catch (error) {
+        console.error(`Failed to resume key rotation ${job.id}:`, error);
+      }
     }
+    return resumed;
   }
 
-  private async backupKey(key: EncryptionKey): Promise<void> {
-    // Generate backup key
-    const backupKey = await this.generateKeyPair(key.userId, 'backup');
+  private async runJob(job: RotationJob): Promise<RotationJob> {
+    job = { ...job, status: 'running', error: undefined };
+    try {
+      await this.rewrapAll(job, job.fromVersionId, job.toVersionId, true);
 
-    // Encrypt key data with backup key
-    const encryptedData = await this.encryptWithKey(
-      JSON.stringify({
-        privateKey: key.encryptedPrivateKey,
-        metadata: key.metadata
-      }),
-      backupKey
-    );
+      // Nothing is wrapped under the old KEK any more
+      await this.registry.setStatus(job.fromVersionId, 'retired');
+      job.status = 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      await this.saveJob(job);
+      throw error;
+    }
+    await this.saveJob(job);
+    return job;
+  }
 
-    // Store backup
-    await supabase.from('key_backups').insert({
-      user_id: key.userId,
-      key_id: key.id,
-      backup_key_id: backupKey.id,
-      encrypted_data: encryptedData,
-      metadata: {
-        version: key.version,
-        timestamp: new Date().toISOString()
+  /**
+   * Moves every data key from one KEK version to another, a batch at a
+   * time. Progress is saved after each batch so an interrupted run
+   * continues where it stopped.
+   */
+  private async rewrapAll(job: RotationJob, fromId: string, toId: string, trackProgress: boolean): Promise<void> {
+    const from = await this.registry.getVersion(fromId);
+    const to = await this.registry.getVersion(toId);
+    const fromKek = await this.registry.keyEncryptionKey(from);
+    const toKek = await this.registry.keyEncryptionKey(to);
+
+    let cursor = trackProgress ? job.cursor : undefined;
+    while (true) {
+      const batch = await this.registry.store.listContentKeys(from.id, cursor, this.defaultConfig.batchSize);
+      if (!batch.length) return;
+
+      const rewrapped: ContentKey[] = [];
+      for (const key of batch) {
+        const dataKey = await this.registry.unwrapDataKey(key.wrappedKey, key.contentId, from, fromKek);
+        rewrapped.push({
+          ...key,
+          keyVersionId: to.id,
+          wrappedKey: await this.registry.wrapDataKey(dataKey, key.contentId, to, toKek)
+        });
       }
-    });
-  }
+      await this.registry.store.saveContentKeys(rewrapped);
 
-  private async generateMasterKey(): Promise<CryptoKey> {
-    return crypto.subtle.generateKey(
-      {
-        name: 'AES-GCM',
-        length: 256
-      },
-      true,
-      ['encrypt', 'decrypt']
-    );
+      cursor = batch[batch.length - 1].contentId;
+      if (trackProgress) {
+        job.cursor = cursor;
+        job.processed += batch.length;
+        await this.saveJob(job);
+      }
+    }
   }
 
-  private async encryptPrivateKey(
-    privateKey: string,
-    masterKey: CryptoKey
-  ): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(privateKey);
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-
-    const encrypted = await crypto.subtle.encrypt(
-      {
-        name: 'AES-GCM',
-        iv
-      },
-      masterKey,
-      data
-    );
-
-    return ethers.utils.hexlify(
-      ethers.utils.concat([iv, new Uint8Array(encrypted)])
-    );
+  /**
+   * Undoes a failed rotation: data keys already moved go back to the old
+   * KEK, which becomes active again, and the new KEK is retired.
+   */
+  async rollbackRotation(jobId: string): Promise<RotationJob> {
+    const job = await this.registry.store.getRotationJob(jobId);
+    if (!job) throw new Error(`Unknown key rotation ${jobId}`);
+    if (job.status !== 'failed') throw new Error(`Only failed rotations can be rolled back, not ${job.status}`);
+
+    await this.rewrapAll(job, job.toVersionId, job.fromVersionId, false);
+    await this.registry.setStatus(job.fromVersionId, 'active');
+    await this.registry.setStatus(job.toVersionId, 'retired');
+
+    job.status = 'rolled_back';
+    await this.saveJob(job);
+    return job;
   }
 
-  private async encryptWithKey(
-    data: string,
-    key: EncryptionKey
-  ): Promise<string> {
-    const encoder = new TextEncoder();
-    const encoded = encoder.encode(data);
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      ethers.utils.arrayify(key.publicKey),
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
-
-    const encrypted = await crypto.subtle.encrypt(
-      {
-        name: 'AES-GCM',
-        iv
-      },
-      keyMaterial,
-      encoded
-    );
-
-    return ethers.utils.hexlify(
-      ethers.utils.concat([iv, new Uint8Array(encrypted)])
-    );
+  async getRotationProgress(jobId: string): Promise<RotationProgress | null> {
+    const job = await this.registry.store.getRotationJob(jobId);
+    if (!job) return null;
+    return {
+      status: job.status,
+      processed: job.processed,
+      total: job.total,
+      percent: job.total ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 100
+    };
   }
 
-  private async decryptWithKey(
-    encryptedData: string,
-    key: EncryptionKey
-  ): Promise<string> {
-    const encrypted = ethers.utils.arrayify(encryptedData);
-    const iv = encrypted.slice(0, 12);
-    const data = encrypted.slice(12);
-
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      ethers.utils.arrayify(key.encryptedPrivateKey),
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['decrypt']
-    );
-
-    const decrypted = await crypto.subtle.decrypt(
-      {
-        name: 'AES-GCM',
-        iv
-      },
-      keyMaterial,
-      data
-    );
-
-    const decoder = new TextDecoder();
-    return decoder.decode(decrypted);
+  private async saveJob(job: RotationJob): Promise<void> {
+    job.updatedAt = this.now().toISOString();
+    await this.registry.store.saveRotationJob(job);
   }
 
   private async notifyKeyRotation(userId: string): Promise<void> {
@@ -311,22 +231,16 @@ class KeyRotationService {
 
     setInterval(async () => {
       try {
-        const { data: keys } = await supabase
-          .from('encryption_keys')
-          .select('*')
-          .eq('user_id', userId)
-          .is('expires_at', null);
+        const key = await this.registry.activeVersion(userId, 'content');
+        if (!key) return;
 
-        for (const key of keys || []) {
-          const expiresAt = new Date(key.created_at);
-          expiresAt.setDate(
-            expiresAt.getDate() + this.defaultConfig.rotationInterval
-          );
+        const expiresAt = new Date(key.createdAt);
+        expiresAt.setDate(
+          expiresAt.getDate() + this.defaultConfig.rotationInterval
+        );
 
-          if (expiresAt <= new Date()) {
-            await this.rotateKeys(userId);
-            break;
-          }
+        if (expiresAt <= new Date()) {
+          await this.rotateKeys(userId);
         }
       } catch (error) {
         console.error('Scheduled key rotation failed:', error);
@@ -335,4 +249,4 @@ class KeyRotationService {
   }
 }
 
-export const keyRotationService = new KeyRotationService(); 
\ No newline at end of file
+export const keyRotationService = new KeyRotationService({ registry: keyRegistry, contentEncryption });
@@ -1,5 +1,24 @@
 import { supabase } from '$lib/supabaseClient';
+import {
+  MediaHashList,
+  RemovedMediaQueue,
+  type HashMatch,
+  type MediaHash
+} from '@lena/moderation';
 import { contentAnalysisService } from '../ai/ContentAnalysisService';
+import {
+  DEFAULT_CONSENSUS_CONFIG,
+  detectVotingRings,
+  estimateAccuracy,
+  tallyRound,
+  voteWeight,
+  type CastVote,
+  type ConsensusConfig,
+  type RoundTally,
+  type VoterProfile
+} from './consensus';
+import { SupabaseHashListStore } from './hashListStore';
+import { hashMediaFile } from './mediaHashing';
 
 interface ModerationAction {
   postId: string;
@@ -20,30 +39,62 @@ interface ModerationVote {
 }
 
 interface ModerationThresholds {
-  minVotes: number;
-  minSupportRatio: number;
   minModeratorReputation: number;
-  maxReviewTime: number;
   aiConfidenceThreshold: number;
 }
 
+interface MediaScreening {
+  allowed: boolean;
+  // One per file, null where the type has no media hash; stored with the post
+  hashes: Array<MediaHash | null>;
+  matches: HashMatch[];
+}
+
 interface ModeratorStats {
   totalActions: number;
   accurateActions: number;
   reputation: number;
   specializations: string[];
   lastActive: Date;
+  stake: number;
+  votesResolved: number;
+  votesAgreed: number;
+  votesReversed: number;
 }
 
 class DecentralizedModerationService {
   private readonly thresholds: ModerationThresholds = {
-    minVotes: 3,
-    minSupportRatio: 0.66,
     minModeratorReputation: 0.5,
-    maxReviewTime: 24 * 60 * 60 * 1000, // 24 hours
     aiConfidenceThreshold: 0.9
   };
 
+  private readonly consensus: ConsensusConfig = DEFAULT_CONSENSUS_CONFIG;
+
+  private hashList = new MediaHashList({ store: new SupabaseHashListStore() });
+  private hashListLoaded: Promise<void> | null = null;
+  private removedMedia = new RemovedMediaQueue(
+    this.hashList,
+    item => this.getPostMediaHashes(item.sourceId)
+  );
+
+  /**
+   * Check files against media that has been removed before, ahead of
+   * uploading them. Hashing happens on the device, so nothing is sent
+   * anywhere to do the check.
+   */
+  async screenMedia(files: File[]): Promise<MediaScreening> {
+    try {
+      await this.loadHashList();
+      const hashes = await Promise.all(files.map(hashMediaFile));
+      const matches = hashes.flatMap(hash => (hash ? this.hashList.match(hash).slice(0, 1) : []));
+
+      return { allowed: matches.length === 0, hashes, matches };
+    } catch (error) {
+      console.error('Error screening media:', error);
+      return { allowed: true, hashes: [], matches: [] }; // Default to allowing content if moderation fails
+    }
+  }
+
   async moderateContent(postId: string, content: string): Promise<boolean> {
     try {
       // First, check AI moderation
@@ -135,6 +186,7 @@ class DecentralizedModerationService {
           reason: action.reason,
           evidence: action.evidence,
           confidence: action.confidence,
+          status: 'pending',
           created_at: action.timestamp.toISOString()
         })
         .select()
@@ -157,8 +209,25 @@ class DecentralizedModerationService {
 
   async submitModerationVote(vote: ModerationVote): Promise<void> {
     try {
+      const action = await this.getModerationAction(vote.actionId);
+
+      const closesAt = new Date(action.created_at).getTime() + this.consensus.roundDuration;
+      if (action.status !== 'pending' || vote.timestamp.getTime() >= closesAt) {
+        throw new Error('Voting on this moderation action has closed');
+      }
+
+      if (action.moderator_id === vote.voterId) {
+        throw new Error('Cannot vote on your own moderation action');
+      }
+
+      const [profile] = (await this.getVoterProfiles([vote.voterId])).values();
+      const weight = voteWeight(profile, vote.timestamp, this.consensus);
+      if (!weight.eligible) {
+        throw new Error(`Not eligible to vote: ${weight.reason}`);
+      }
+
       // Record vote
-      await supabase
+      const { error } = await supabase
         .from('moderation_votes')
         .insert({
           action_id: vote.actionId,
@@ -168,45 +237,115 @@ class DecentralizedModerationService {
           created_at: vote.timestamp.toISOString()
         });
 
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('Already voted on this moderation action');
+        }
+        throw error;
+      }
+
       // Check if action has reached consensus
-      await this.checkConsensus(vote.actionId);
+      await this.checkConsensus(action);
     } catch (error) {
       console.error('Error submitting moderation vote:', error);
       throw error;
     }
   }
 
-  private async checkConsensus(actionId: string): Promise<void> {
-    // Get all votes for the action
-    const { data: votes } = await supabase
+  private async checkConsensus(action: any, now = new Date()): Promise<void> {
+    const tally = await this.tallyVotes(action, now);
+
+    if (tally.outcome === 'apply') {
+      await this.applyModerationAction(action);
+    } else if (tally.outcome === 'reject') {
+      await this.rejectModerationAction(action);
+    } else if (tally.outcome === 'escalate') {
+      await this.escalateModerationAction(action, tally);
+    }
+  }
+
+  async tallyVotes(action: any, now = new Date()): Promise<RoundTally> {
+    const { data, error } = await supabase
       .from('moderation_votes')
       .select('*')
-      .eq('action_id', actionId);
+      .eq('action_id', action.id);
+
+    if (error) throw error;
+
+    const votes = (data ?? []).map(toCastVote);
+    const voterIds = votes.map(vote => vote.voterId);
+    const [profiles, rings] = await Promise.all([
+      this.getVoterProfiles(voterIds),
+      this.findVotingRings(voterIds, now)
+    ]);
+
+    return tallyRound({
+      votes,
+      profiles,
+      rings,
+      openedAt: new Date(action.created_at),
+      now,
+      config: this.consensus
+    });
+  }
 
-    if (!votes || votes.length < this.thresholds.minVotes) {
-      return; // Not enough votes yet
-    }
+  // Rings among this round's voters, judged on their recent voting history
+  private async findVotingRings(voterIds: string[], now: Date): Promise<string[][]> {
+    if (voterIds.length < 2) return [];
+
+    const { data, error } = await supabase
+      .from('moderation_votes')
+      .select('*')
+      .in('voter_id', voterIds)
+      .gte('created_at', new Date(now.getTime() - this.consensus.ringLookback).toISOString());
+
+    if (error) throw error;
+    return detectVotingRings((data ?? []).map(toCastVote), this.consensus);
+  }
 
-    // Calculate support ratio
-    const supportVotes = votes.filter(v => v.vote === 'support').length;
-    const supportRatio = supportVotes / votes.length;
+  private async getVoterProfiles(voterIds: string[]): Promise<Map<string, VoterProfile>> {
+    const profiles = new Map<string, VoterProfile>();
+    if (voterIds.length === 0) return profiles;
+
+    const [{ data: stats, error: statsError }, { data: accounts, error: accountsError }] = await Promise.all([
+      supabase
+        .from('moderator_stats')
+        .select('*')
+        .in('moderator_id', voterIds),
+      supabase
+        .from('profiles')
+        .select('id, created_at')
+        .in('id', voterIds)
+    ]);
+
+    if (statsError) throw statsError;
+    if (accountsError) throw accountsError;
+
+    for (const voterId of voterIds) {
+      const row = stats?.find(s => s.moderator_id === voterId);
+      const account = accounts?.find(a => a.id === voterId);
+      profiles.set(voterId, {
+        voterId,
+        accountCreatedAt: account ? new Date(account.created_at) : undefined,
+        stake: row?.stake ?? 0,
+        votesResolved: row?.votes_resolved ?? 0,
+        votesAgreed: row?.votes_agreed ?? 0,
+        votesReversed: row?.votes_reversed ?? 0
+      });
+    }
+    return profiles;
+  }
 
-    // Get the moderation action
-    const { data: action } = await supabase
+  private async getModerationAction(actionId: string): Promise<any> {
+    const { data: action, error } = await supabase
       .from('moderation_actions')
       .select('*')
       .eq('id', actionId)
       .single();
 
-    if (!action) return;
-
-    // If consensus reached, apply the action
-    if (supportRatio >= this.thresholds.minSupportRatio) {
-      await this.applyModerationAction(action);
-    } else if (supportRatio <= (1 - this.thresholds.minSupportRatio)) {
-      // If action is clearly rejected, mark it as rejected
-      await this.rejectModerationAction(action);
-    }
+    if (error) throw error;
+    if (!action) throw new Error('Moderation action not found');
+    return action;
   }
 
   private async applyModerationAction(action: any): Promise<void> {
@@ -220,6 +359,13 @@ class DecentralizedModerationService {
           updated_at: new Date().toISOString()
         })
         .eq('id', action.post_id);
+
+      // Removed media goes on the hash list so it can't simply be posted again
+      this.removedMedia.enqueue({
+        sourceId: action.post_id,
+        reason: action.reason,
+        removedBy: action.moderator_id
+      });
     }
 
     // Update action status
@@ -231,8 +377,26 @@ class DecentralizedModerationService {
       })
       .eq('id', action.id);
 
-    // Update moderator reputation
-    await this.updateModeratorReputation(action.moderator_id, true);
+    await this.recordOutcome(action, true);
+  }
+
+  private loadHashList(): Promise<void> {
+    this.hashListLoaded ??= this.hashList.load().catch(error => {
+      this.hashListLoaded = null;
+      throw error;
+    });
+    return this.hashListLoaded;
+  }
+
+  private async getPostMediaHashes(postId: string): Promise<MediaHash[]> {
+    const { data, error } = await supabase
+      .from('posts')
+      .select('media_hashes')
+      .eq('id', postId)
+      .single();
+
+    if (error) throw error;
+    return (data?.media_hashes ?? []).filter(Boolean);
   }
 
   private async rejectModerationAction(action: any): Promise<void> {
@@ -244,8 +408,151 @@ class DecentralizedModerationService {
       })
       .eq('id', action.id);
 
-    // Update moderator reputation
-    await this.updateModeratorReputation(action.moderator_id, false);
+    await this.recordOutcome(action, false);
+  }
+
+  /**
+   * Hand a round that voting couldn't settle to staff. The action stays
+   * out of voting until someone resolves the escalation.
+   */
+  private async escalateModerationAction(action: any, tally: RoundTally): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_escalations')
+      .insert({
+        action_id: action.id,
+        reason: tally.reason,
+        support_weight: tally.supportWeight,
+        oppose_weight: tally.opposeWeight,
+        suspected_rings: tally.rings,
+        status: 'open',
+        created_at: new Date().toISOString()
+      });
+
+    if (error) throw error;
+
+    await supabase
+      .from('moderation_actions')
+      .update({
+        status: 'escalated',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', action.id);
+  }
+
+  async resolveEscalation(
+    actionId: string,
+    staffId: string,
+    decision: 'apply' | 'reject',
+    notes?: string
+  ): Promise<void> {
+    try {
+      const { data: role } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', staffId)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (!role) {
+        throw new Error('Only staff can resolve moderation escalations');
+      }
+
+      const action = await this.getModerationAction(actionId);
+      if (action.status !== 'escalated') {
+        throw new Error('Moderation action is not escalated');
+      }
+
+      if (decision === 'apply') {
+        await this.applyModerationAction(action);
+      } else {
+        await this.rejectModerationAction(action);
+      }
+
+      await supabase
+        .from('moderation_escalations')
+        .update({
+          status: 'resolved',
+          decision,
+          notes,
+          resolved_by: staffId,
+          resolved_at: new Date().toISOString()
+        })
+        .eq('action_id', actionId)
+        .eq('status', 'open');
+    } catch (error) {
+      console.error('Error resolving moderation escalation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Overturn an applied action, e.g. after a successful appeal. Everyone
+   * who backed it, the moderator included, has it counted against their
+   * accuracy, and those who opposed it are credited.
+   */
+  async reverseModerationAction(actionId: string, reason: string): Promise<void> {
+    try {
+      const action = await this.getModerationAction(actionId);
+      if (action.status !== 'applied') {
+        throw new Error('Only applied moderation actions can be reversed');
+      }
+
+      if (action.action === 'reject') {
+        await supabase
+          .from('posts')
+          .update({
+            status: 'published',
+            moderation_reason: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', action.post_id);
+
+        // The media shouldn't keep blocking uploads either
+        const { data: entries } = await supabase
+          .from('media_hash_list')
+          .select('id')
+          .eq('source_id', action.post_id);
+
+        await Promise.all((entries ?? []).map(entry => this.hashList.remove(entry.id)));
+      }
+
+      await supabase
+        .from('moderation_actions')
+        .update({
+          status: 'reversed',
+          reversal_reason: reason,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', action.id);
+
+      const votes = await this.getVotes(action.id);
+      await Promise.all([
+        ...votes.map(vote => this.reverseModeratorReputation(vote.voter_id, vote.vote === 'support')),
+        this.reverseModeratorReputation(action.moderator_id, true, true)
+      ]);
+    } catch (error) {
+      console.error('Error reversing moderation action:', error);
+      throw error;
+    }
+  }
+
+  // Credit or debit everyone who took part, depending on whether the action stood
+  private async recordOutcome(action: any, upheld: boolean): Promise<void> {
+    const votes = await this.getVotes(action.id);
+    await Promise.all([
+      ...votes.map(vote => this.updateModeratorReputation(vote.voter_id, (vote.vote === 'support') === upheld)),
+      this.updateModeratorReputation(action.moderator_id, upheld, true)
+    ]);
+  }
+
+  private async getVotes(actionId: string): Promise<any[]> {
+    const { data, error } = await supabase
+      .from('moderation_votes')
+      .select('*')
+      .eq('action_id', actionId);
+
+    if (error) throw error;
+    return data ?? [];
   }
 
   private async getModeratorStats(moderatorId: string): Promise<ModeratorStats> {
@@ -262,11 +569,25 @@ class DecentralizedModerationService {
         accurateActions: 0,
         reputation: 0.5, // Start with neutral reputation
         specializations: [],
-        lastActive: new Date()
+        lastActive: new Date(),
+        stake: 0,
+        votesResolved: 0,
+        votesAgreed: 0,
+        votesReversed: 0
       };
     }
 
-    return data;
+    return {
+      totalActions: data.total_actions ?? 0,
+      accurateActions: data.accurate_actions ?? 0,
+      reputation: data.reputation ?? 0.5,
+      specializations: data.specializations ?? [],
+      lastActive: new Date(data.last_active),
+      stake: data.stake ?? 0,
+      votesResolved: data.votes_resolved ?? 0,
+      votesAgreed: data.votes_agreed ?? 0,
+      votesReversed: data.votes_reversed ?? 0
+    };
   }
 
   private async updateModeratorStats(
@@ -287,23 +608,55 @@ class DecentralizedModerationService {
       });
   }
 
+  // Reputation is the same accuracy estimate that weighs this user's votes
   private async updateModeratorReputation(
     moderatorId: string,
-    wasAccurate: boolean
+    wasAccurate: boolean,
+    isAuthor = false
   ): Promise<void> {
     const stats = await this.getModeratorStats(moderatorId);
 
-    const newAccurateActions = stats.accurateActions + (wasAccurate ? 1 : 0);
-    const newReputation = newAccurateActions / (stats.totalActions + 1);
+    await this.saveAccuracy(moderatorId, stats, {
+      accurateActions: stats.accurateActions + (isAuthor && wasAccurate ? 1 : 0),
+      votesResolved: stats.votesResolved + 1,
+      votesAgreed: stats.votesAgreed + (wasAccurate ? 1 : 0)
+    });
+  }
+
+  private async reverseModeratorReputation(
+    moderatorId: string,
+    backedAction: boolean,
+    isAuthor = false
+  ): Promise<void> {
+    const stats = await this.getModeratorStats(moderatorId);
+
+    await this.saveAccuracy(moderatorId, stats, backedAction
+      ? {
+          accurateActions: Math.max(0, stats.accurateActions - (isAuthor ? 1 : 0)),
+          votesAgreed: Math.max(0, stats.votesAgreed - 1),
+          votesReversed: stats.votesReversed + 1
+        }
+      : { votesAgreed: stats.votesAgreed + 1 });
+  }
+
+  private async saveAccuracy(
+    moderatorId: string,
+    stats: ModeratorStats,
+    changes: Partial<ModeratorStats>
+  ): Promise<void> {
+    const next = { ...stats, ...changes };
 
     await supabase
       .from('moderator_stats')
-      .update({
-        accurate_actions: newAccurateActions,
-        reputation: newReputation,
+      .upsert({
+        moderator_id: moderatorId,
+        accurate_actions: next.accurateActions,
+        votes_resolved: next.votesResolved,
+        votes_agreed: next.votesAgreed,
+        votes_reversed: next.votesReversed,
+        reputation: estimateAccuracy({ voterId: moderatorId, ...next }, this.consensus),
         updated_at: new Date().toISOString()
-      })
-      .eq('moderator_id', moderatorId);
+      });
   }
 
   async getModeratorQueue(moderatorId: string): Promise<any[]> {
@@ -340,8 +693,8 @@ class DecentralizedModerationService {
   startPeriodicReview(): void {
     setInterval(async () => {
       try {
-        // Get actions that have been pending for too long
-        const cutoffTime = new Date(Date.now() - this.thresholds.maxReviewTime);
+        // Settle rounds that have run out of time
+        const cutoffTime = new Date(Date.now() - this.consensus.roundDuration);
         
         const { data: pendingActions } = await supabase
           .from('moderation_actions')
@@ -351,28 +704,8 @@ class DecentralizedModerationService {
 
         if (!pendingActions) return;
 
-        // Process each expired action
         for (const action of pendingActions) {
-          // Get votes for this action
-          const { data: votes } = await supabase
-            .from('moderation_votes')
-            .select('*')
-            .eq('action_id', action.id);
-
-          if (!votes || votes.length === 0) {
-            // No votes received, reject the action
-            await this.rejectModerationAction(action);
-          } else {
-            // Apply majority decision
-            const supportVotes = votes.filter(v => v.vote === 'support').length;
-            const supportRatio = supportVotes / votes.length;
-
-            if (supportRatio >= 0.5) {
-              await this.applyModerationAction(action);
-            } else {
-              await this.rejectModerationAction(action);
-            }
-          }
+          await this.checkConsensus(action);
         }
       } catch (error) {
         console.error('Error in periodic moderation review:', error);
@@ -381,4 +714,13 @@ class DecentralizedModerationService {
   }
 }
 
+function toCastVote(row: any): CastVote {
+  return {
+    actionId: row.action_id,
+    voterId: row.voter_id,
+    vote: row.vote,
+    timestamp: new Date(row.created_at)
+  };
+}
+
 export const decentralizedModerationService = new DecentralizedModerationService(); 
\ No newline at end of file
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONSENSUS_CONFIG,
+  detectVotingRings,
+  estimateAccuracy,
+  tallyRound,
+  voteWeight,
+  type CastVote,
+  type VoteChoice,
+  type VoterProfile
+} from './consensus';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2024-04-03T12:00:00Z');
+const openedAt = new Date(now.getTime() - 60 * 60 * 1000);
+
+function profile(voterId: string, overrides: Partial<VoterProfile> = {}): VoterProfile {
+  return {
+    voterId,
+    accountCreatedAt: new Date(now.getTime() - 90 * DAY),
+    stake: 20,
+    votesResolved: 40,
+    votesAgreed: 36,
+    votesReversed: 0,
+    ...overrides
+  };
+}
+
+function vote(voterId: string, choice: VoteChoice, actionId = 'action-1', timestamp = now): CastVote {
+  return { actionId, voterId, vote: choice, timestamp };
+}
+
+function profiles(...list: VoterProfile[]) {
+  return new Map(list.map(p => [p.voterId, p]));
+}
+
+describe('consensus', () => {
+  describe('vote weight', () => {
+    it('should weigh accurate voters more heavily', () => {
+      const accurate = voteWeight(profile('a'), now);
+      const sloppy = voteWeight(profile('b', { votesAgreed: 24 }), now);
+
+      expect(accurate.eligible).toBe(true);
+      expect(accurate.weight).toBeGreaterThan(sloppy.weight);
+    });
+
+    it('should count appeal reversals against accuracy', () => {
+      const clean = estimateAccuracy(profile('a'));
+      const reversed = estimateAccuracy(profile('a', { votesReversed: 5 }));
+
+      expect(reversed).toBeLessThan(clean);
+    });
+
+    it('should give no weight to voters no better than chance', () => {
+      expect(voteWeight(profile('a', { votesAgreed: 15 }), now).weight).toBe(0);
+    });
+
+    it('should cap the weight of any one voter', () => {
+      const weight = voteWeight(profile('a', { votesResolved: 10000, votesAgreed: 10000 }), now);
+      expect(weight.weight).toBe(DEFAULT_CONSENSUS_CONFIG.maxWeight);
+    });
+
+    it('should not let new accounts vote', () => {
+      const weight = voteWeight(profile('a', { accountCreatedAt: new Date(now.getTime() - DAY) }), now);
+      expect(weight).toMatchObject({ eligible: false, weight: 0, reason: 'account too new' });
+    });
+
+    it('should require stake or a track record', () => {
+      const unstaked = voteWeight(profile('a', { stake: 0, votesResolved: 5, votesAgreed: 5 }), now);
+      const veteran = voteWeight(profile('b', { stake: 0 }), now);
+
+      expect(unstaked.eligible).toBe(false);
+      expect(veteran.eligible).toBe(true);
+    });
+  });
+
+  describe('voting ring detection', () => {
+    // Honest voters spread over many actions and vote at their own pace
+    function honestHistory(): CastVote[] {
+      const history: CastVote[] = [];
+      for (let i = 0; i < 30; i++) {
+        ['h1', 'h2', 'h3'].forEach((voter, v) => {
+          if ((i + v) % 3 === 0) return;
+          history.push(vote(voter, 'support', `action-${i}`, new Date(now.getTime() + (i * 60 + v * 17) * 60 * 1000)));
+        });
+      }
+      return history;
+    }
+
+    it('should find voters who vote together in lockstep', () => {
+      const history = honestHistory();
+      for (let i = 0; i < 8; i++) {
+        for (const voter of ['r1', 'r2', 'r3']) {
+          history.push(vote(voter, 'support', `target-${i}`, new Date(now.getTime() + i * DAY)));
+        }
+      }
+
+      expect(detectVotingRings(history)).toEqual([['r1', 'r2', 'r3']]);
+    });
+
+    it('should find voters who pile on within minutes across spread out targets', () => {
+      const history: CastVote[] = [];
+      for (let i = 0; i < 10; i++) {
+        const at = now.getTime() + i * DAY;
+        history.push(vote('r1', 'oppose', `shared-${i}`, new Date(at)));
+        history.push(vote('r2', 'oppose', `shared-${i}`, new Date(at + 60 * 1000)));
+        // Plenty of independent activity keeps their overlap low
+        for (let j = 0; j < 10; j++) {
+          history.push(vote('r1', 'support', `own-r1-${i}-${j}`, new Date(at + j * DAY)));
+          history.push(vote('r2', 'support', `own-r2-${i}-${j}`, new Date(at + j * DAY)));
+        }
+      }
+
+      expect(detectVotingRings(history)).toEqual([['r1', 'r2']]);
+    });
+
+    it('should not flag voters who merely agree', () => {
+      expect(detectVotingRings(honestHistory())).toEqual([]);
+    });
+
+    it('should not flag voters who often disagree', () => {
+      const history: CastVote[] = [];
+      for (let i = 0; i < 10; i++) {
+        history.push(vote('a', 'support', `action-${i}`));
+        history.push(vote('b', i % 2 ? 'support' : 'oppose', `action-${i}`));
+      }
+
+      expect(detectVotingRings(history)).toEqual([]);
+    });
+  });
+
+  describe('rounds', () => {
+    const trusted = profiles(profile('a'), profile('b'), profile('c'), profile('d'));
+
+    it('should apply an action with a clear weighted majority', () => {
+      const tally = tallyRound({
+        votes: [vote('a', 'support'), vote('b', 'support'), vote('c', 'support')],
+        profiles: trusted,
+        openedAt,
+        now
+      });
+
+      expect(tally).toMatchObject({ outcome: 'apply', quorum: true, voters: 3 });
+    });
+
+    it('should reject an action the majority opposes', () => {
+      const tally = tallyRound({
+        votes: [vote('a', 'oppose'), vote('b', 'oppose'), vote('c', 'oppose'), vote('d', 'support')],
+        profiles: trusted,
+        openedAt,
+        now
+      });
+
+      expect(tally.outcome).toBe('reject');
+    });
+
+    it('should ignore fresh accounts piling on', () => {
+      const sybils = Array.from({ length: 20 }, (_, i) =>
+        profile(`sybil-${i}`, { accountCreatedAt: new Date(now.getTime() - DAY), stake: 0, votesResolved: 0, votesAgreed: 0 })
+      );
+
+      const tally = tallyRound({
+        votes: [...sybils.map(s => vote(s.voterId, 'support')), vote('a', 'oppose')],
+        profiles: profiles(...sybils, profile('a')),
+        openedAt,
+        now
+      });
+
+      expect(tally.outcome).toBe('pending');
+      expect(tally.ignoredVoters).toHaveLength(20);
+      expect(tally.quorum).toBe(false);
+    });
+
+    it('should let a more accurate minority outweigh a less accurate majority', () => {
+      const tally = tallyRound({
+        votes: [
+          vote('expert-1', 'oppose'),
+          vote('expert-2', 'oppose'),
+          vote('novice-1', 'support'),
+          vote('novice-2', 'support'),
+          vote('novice-3', 'support')
+        ],
+        profiles: profiles(
+          profile('expert-1', { votesResolved: 200, votesAgreed: 196 }),
+          profile('expert-2', { votesResolved: 200, votesAgreed: 196 }),
+          profile('novice-1', { votesResolved: 0, votesAgreed: 0 }),
+          profile('novice-2', { votesResolved: 0, votesAgreed: 0 }),
+          profile('novice-3', { votesResolved: 0, votesAgreed: 0 })
+        ),
+        openedAt,
+        now
+      });
+
+      expect(tally.outcome).toBe('reject');
+    });
+
+    it('should count a ring as a single voter', () => {
+      const tally = tallyRound({
+        votes: [vote('a', 'support'), vote('b', 'support'), vote('c', 'support')],
+        profiles: trusted,
+        rings: [['a', 'b', 'c']],
+        openedAt,
+        now
+      });
+
+      expect(tally).toMatchObject({ outcome: 'pending', voters: 1, quorum: false });
+    });
+
+    it('should wait while the outcome depends on a ring', () => {
+      // Without the ring it's one vote each way
+      const votes = [vote('a', 'support'), vote('b', 'support'), vote('c', 'support'), vote('d', 'oppose')];
+
+      const open = tallyRound({ votes, profiles: trusted, rings: [['a', 'b']], openedAt, now });
+      expect(open).toMatchObject({ outcome: 'pending', reason: 'waiting for votes outside a suspected voting ring' });
+
+      const closed = tallyRound({
+        votes,
+        profiles: trusted,
+        rings: [['a', 'b']],
+        openedAt,
+        now: new Date(openedAt.getTime() + DEFAULT_CONSENSUS_CONFIG.roundDuration)
+      });
+      expect(closed).toMatchObject({ outcome: 'escalate', reason: 'outcome depends on a suspected voting ring' });
+    });
+
+    it('should keep a contested round open until it closes, then escalate', () => {
+      const votes = [vote('a', 'support'), vote('b', 'support'), vote('c', 'oppose'), vote('d', 'oppose')];
+
+      expect(tallyRound({ votes, profiles: trusted, openedAt, now }).outcome).toBe('pending');
+
+      const closed = tallyRound({
+        votes,
+        profiles: trusted,
+        openedAt,
+        now: new Date(openedAt.getTime() + DEFAULT_CONSENSUS_CONFIG.roundDuration)
+      });
+      expect(closed).toMatchObject({ outcome: 'escalate', reason: 'round closed contested' });
+    });
+
+    it('should reject an action when the round closes without quorum', () => {
+      const tally = tallyRound({
+        votes: [vote('a', 'support')],
+        profiles: trusted,
+        openedAt,
+        now: new Date(openedAt.getTime() + DEFAULT_CONSENSUS_CONFIG.roundDuration)
+      });
+
+      expect(tally).toMatchObject({ outcome: 'reject', reason: 'round closed without quorum' });
+    });
+  });
+});
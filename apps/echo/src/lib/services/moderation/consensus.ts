@@ -0,0 +1,301 @@
+export type VoteChoice = 'support' | 'oppose';
+
+export interface CastVote {
+  actionId: string;
+  voterId: string;
+  vote: VoteChoice;
+  timestamp: Date;
+}
+
+// What we know about a voter when weighing their vote
+export interface VoterProfile {
+  voterId: string;
+  accountCreatedAt?: Date;
+  stake: number;
+  // Votes on actions that have reached a final outcome
+  votesResolved: number;
+  // Of those, how many matched the outcome
+  votesAgreed: number;
+  // Votes that backed a decision later overturned on appeal
+  votesReversed: number;
+}
+
+export interface ConsensusConfig {
+  // Distinct voting blocs needed for quorum; a voting ring counts once
+  minVoters: number;
+  // Total vote weight needed for quorum
+  minWeight: number;
+  minSupportRatio: number;
+  roundDuration: number;
+  minAccountAge: number;
+  // Stake needed to vote, unless the voter has a long enough track record instead
+  minStake: number;
+  minTrackRecord: number;
+  maxWeight: number;
+  // Extra misses counted for each vote overturned on appeal
+  reversalPenalty: number;
+  // Prior for accuracy, as agreed votes out of total pseudo-votes
+  priorAgreed: number;
+  priorTotal: number;
+  // Voting ring detection
+  ringMinSharedVotes: number;
+  ringAgreement: number;
+  ringOverlap: number;
+  ringTiming: number;
+  ringWindow: number;
+  // How far back to look at voting history for rings
+  ringLookback: number;
+}
+
+export const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
+  minVoters: 3,
+  minWeight: 1.5,
+  minSupportRatio: 0.66,
+  roundDuration: 24 * 60 * 60 * 1000, // 24 hours
+  minAccountAge: 14 * 24 * 60 * 60 * 1000, // 14 days
+  minStake: 10,
+  minTrackRecord: 20,
+  maxWeight: 3,
+  reversalPenalty: 2,
+  priorAgreed: 3,
+  priorTotal: 5,
+  ringMinSharedVotes: 5,
+  ringAgreement: 0.9,
+  ringOverlap: 0.5,
+  ringTiming: 0.6,
+  ringWindow: 5 * 60 * 1000, // 5 minutes
+  ringLookback: 30 * 24 * 60 * 60 * 1000 // 30 days
+};
+
+export interface VoteWeight {
+  eligible: boolean;
+  weight: number;
+  accuracy: number;
+  reason?: string;
+}
+
+export type RoundOutcome = 'pending' | 'apply' | 'reject' | 'escalate';
+
+export interface RoundTally {
+  outcome: RoundOutcome;
+  reason: string;
+  supportWeight: number;
+  opposeWeight: number;
+  // Distinct blocs that cast an eligible, weighted vote
+  voters: number;
+  quorum: boolean;
+  supportRatio: number;
+  closesAt: Date;
+  ignoredVoters: string[];
+  rings: string[][];
+}
+
+/**
+ * Estimated chance a voter's vote matches the final outcome. Starts from
+ * a mildly positive prior so new voters aren't weightless, and counts
+ * votes overturned on appeal as extra misses.
+ */
+export function estimateAccuracy(
+  profile: VoterProfile,
+  config: ConsensusConfig = DEFAULT_CONSENSUS_CONFIG
+): number {
+  const total = profile.votesResolved + config.reversalPenalty * profile.votesReversed;
+  return (profile.votesAgreed + config.priorAgreed) / (total + config.priorTotal);
+}
+
+/**
+ * Weight of a voter's vote: the log-odds of their accuracy, which is the
+ * optimal weighting for independent voters of known accuracy. Voters no
+ * better than a coin flip get nothing, and accounts that are too new or
+ * have neither stake nor a track record can't vote at all, so a batch of
+ * fresh accounts carries no weight.
+ */
+export function voteWeight(
+  profile: VoterProfile,
+  now: Date,
+  config: ConsensusConfig = DEFAULT_CONSENSUS_CONFIG
+): VoteWeight {
+  const accuracy = estimateAccuracy(profile, config);
+
+  const age = profile.accountCreatedAt ? now.getTime() - profile.accountCreatedAt.getTime() : 0;
+  if (age < config.minAccountAge) {
+    return { eligible: false, weight: 0, accuracy, reason: 'account too new' };
+  }
+
+  if (profile.stake < config.minStake && profile.votesResolved < config.minTrackRecord) {
+    return { eligible: false, weight: 0, accuracy, reason: 'insufficient stake' };
+  }
+
+  const logOdds = Math.log(accuracy / (1 - accuracy));
+  return {
+    eligible: true,
+    weight: Math.min(config.maxWeight, Math.max(0, logOdds)),
+    accuracy
+  };
+}
+
+/**
+ * Find groups of voters who look coordinated. Two voters are linked when
+ * they share enough votes, nearly always vote the same way, and either
+ * vote on mostly the same actions or cast their votes within minutes of
+ * each other. Honest voters who simply agree with everyone else rarely
+ * also share most of their targets or their timing. Rings are the
+ * connected groups of linked voters.
+ */
+export function detectVotingRings(
+  history: CastVote[],
+  config: ConsensusConfig = DEFAULT_CONSENSUS_CONFIG
+): string[][] {
+  const byVoter = new Map<string, Map<string, CastVote>>();
+  for (const vote of history) {
+    const votes = byVoter.get(vote.voterId) ?? new Map<string, CastVote>();
+    votes.set(vote.actionId, vote);
+    byVoter.set(vote.voterId, votes);
+  }
+
+  const voters = [...byVoter.keys()];
+  const parent = new Map(voters.map(voter => [voter, voter]));
+  const find = (voter: string): string => {
+    let root = voter;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(voter, root);
+    return root;
+  };
+
+  const linked = new Set<string>();
+  for (let i = 0; i < voters.length; i++) {
+    for (let j = i + 1; j < voters.length; j++) {
+      const a = byVoter.get(voters[i])!;
+      const b = byVoter.get(voters[j])!;
+
+      let shared = 0;
+      let agreed = 0;
+      let close = 0;
+      for (const [actionId, vote] of a) {
+        const other = b.get(actionId);
+        if (!other) continue;
+        shared++;
+        if (other.vote === vote.vote) agreed++;
+        if (Math.abs(other.timestamp.getTime() - vote.timestamp.getTime()) <= config.ringWindow) close++;
+      }
+
+      if (shared < config.ringMinSharedVotes || agreed / shared < config.ringAgreement) continue;
+
+      const overlap = shared / (a.size + b.size - shared);
+      if (overlap >= config.ringOverlap || close / shared >= config.ringTiming) {
+        parent.set(find(voters[i]), find(voters[j]));
+        linked.add(voters[i]);
+        linked.add(voters[j]);
+      }
+    }
+  }
+
+  const rings = new Map<string, string[]>();
+  for (const voter of linked) {
+    const root = find(voter);
+    rings.set(root, [...(rings.get(root) ?? []), voter]);
+  }
+  return [...rings.values()].map(ring => ring.sort());
+}
+
+/**
+ * Tally a time-boxed voting round. Each ring votes as a single bloc
+ * carrying its heaviest member's weight. Once there's a quorum a clear
+ * majority decides, even before the round closes; a round that closes
+ * contested, or whose result only stands because of a ring, goes to
+ * staff, and one that closes without a quorum leaves the post alone.
+ */
+export function tallyRound(params: {
+  votes: CastVote[];
+  profiles: Map<string, VoterProfile>;
+  rings?: string[][];
+  openedAt: Date;
+  now: Date;
+  config?: ConsensusConfig;
+}): RoundTally {
+  const { votes, profiles, rings = [], openedAt, now } = params;
+  const config = params.config ?? DEFAULT_CONSENSUS_CONFIG;
+  const closesAt = new Date(openedAt.getTime() + config.roundDuration);
+  const closed = now.getTime() >= closesAt.getTime();
+
+  const ringOf = new Map<string, number>();
+  rings.forEach((ring, index) => ring.forEach(voter => ringOf.set(voter, index)));
+
+  // Bloc key -> the bloc's vote; ring members are folded into one bloc
+  const blocs = new Map<string, { support: number; oppose: number; weight: number; ring: boolean }>();
+  const ignoredVoters: string[] = [];
+
+  for (const vote of votes) {
+    const profile = profiles.get(vote.voterId);
+    const weight = profile ? voteWeight(profile, now, config) : null;
+    if (!weight?.eligible || weight.weight <= 0) {
+      ignoredVoters.push(vote.voterId);
+      continue;
+    }
+
+    const ring = ringOf.get(vote.voterId);
+    const key = ring === undefined ? `voter:${vote.voterId}` : `ring:${ring}`;
+    const bloc = blocs.get(key) ?? { support: 0, oppose: 0, weight: 0, ring: ring !== undefined };
+    bloc[vote.vote] += weight.weight;
+    bloc.weight = Math.max(bloc.weight, weight.weight);
+    blocs.set(key, bloc);
+  }
+
+  const count = (includeRings: boolean) => {
+    let support = 0;
+    let oppose = 0;
+    let voters = 0;
+    for (const bloc of blocs.values()) {
+      if (bloc.ring && !includeRings) continue;
+      voters++;
+      if (bloc.support >= bloc.oppose) support += bloc.weight;
+      else oppose += bloc.weight;
+    }
+    return { support, oppose, voters };
+  };
+
+  const decide = ({ support, oppose, voters }: ReturnType<typeof count>) => {
+    const total = support + oppose;
+    const quorum = voters >= config.minVoters && total >= config.minWeight;
+    const supportRatio = total > 0 ? support / total : 0;
+    const outcome: RoundOutcome | 'contested' | 'no quorum' = !quorum
+      ? 'no quorum'
+      : supportRatio >= config.minSupportRatio
+        ? 'apply'
+        : supportRatio <= 1 - config.minSupportRatio
+          ? 'reject'
+          : 'contested';
+    return { quorum, supportRatio, outcome };
+  };
+
+  const tally = count(true);
+  const decision = decide(tally);
+  const result = {
+    supportWeight: tally.support,
+    opposeWeight: tally.oppose,
+    voters: tally.voters,
+    quorum: decision.quorum,
+    supportRatio: decision.supportRatio,
+    closesAt,
+    ignoredVoters,
+    rings
+  };
+
+  if (decision.outcome === 'apply' || decision.outcome === 'reject') {
+    const withoutRings = decide(count(false));
+    if (withoutRings.outcome !== decision.outcome && [...blocs.values()].some(bloc => bloc.ring)) {
+      return closed
+        ? { ...result, outcome: 'escalate', reason: 'outcome depends on a suspected voting ring' }
+        : { ...result, outcome: 'pending', reason: 'waiting for votes outside a suspected voting ring' };
+    }
+    return { ...result, outcome: decision.outcome, reason: 'weighted majority reached' };
+  }
+
+  if (!closed) {
+    return { ...result, outcome: 'pending', reason: decision.outcome === 'contested' ? 'contested' : 'no quorum yet' };
+  }
+
+  return decision.outcome === 'contested'
+    ? { ...result, outcome: 'escalate', reason: 'round closed contested' }
+    : { ...result, outcome: 'reject', reason: 'round closed without quorum' };
+}
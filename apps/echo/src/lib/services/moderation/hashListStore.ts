@@ -0,0 +1,54 @@
+import { supabase } from '$lib/supabaseClient';
+import type { HashListEntry, HashListStore } from '@lena/moderation';
+
+/**
+ * Removed media hashes in the `media_hash_list` table. Everyone can read
+ * the list, since uploads are checked in the browser; only moderators
+ * can change it.
+ */
+export class SupabaseHashListStore implements HashListStore {
+  async add(entry: HashListEntry): Promise<void> {
+    const { error } = await supabase
+      .from('media_hash_list')
+      .insert([{
+        id: entry.id,
+        kind: entry.hash.kind,
+        hash: entry.hash,
+        source_id: entry.sourceId,
+        reason: entry.reason,
+        added_by: entry.addedBy,
+        added_at: entry.addedAt.toISOString()
+      }]);
+
+    if (error) throw error;
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('media_hash_list')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async list(): Promise<HashListEntry[]> {
+    const { data, error } = await supabase
+      .from('media_hash_list')
+      .select('*');
+
+    if (error) throw error;
+    return data.map(toEntry);
+  }
+}
+
+function toEntry(row: any): HashListEntry {
+  return {
+    id: row.id,
+    hash: row.hash,
+    sourceId: row.source_id ?? undefined,
+    reason: row.reason ?? undefined,
+    addedAt: new Date(row.added_at),
+    addedBy: row.added_by ?? undefined
+  };
+}
@@ -0,0 +1,109 @@
+import {
+  fingerprintAudio,
+  hashImage,
+  hashVideoFrames,
+  toGrayscale,
+  type GrayscaleImage,
+  type MediaHash
+} from '@lena/moderation';
+
+// Images are drawn no larger than this before hashing; the hash only looks at 32x32
+const MAX_IMAGE_SIZE = 512;
+// Video is sampled once a second at this size, for at most ten minutes
+const VIDEO_FRAME_SIZE = 64;
+const MAX_VIDEO_FRAMES = 600;
+
+/**
+ * Perceptual hash of a media file, decoded in the browser so nothing
+ * leaves the device before it has been checked. Returns null for types
+ * that have no media hash.
+ */
+export async function hashMediaFile(file: File): Promise<MediaHash | null> {
+  if (file.type.startsWith('image/')) {
+    const bitmap = await createImageBitmap(file);
+    try {
+      const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+      return hashImage(
+        drawGrayscale(bitmap, Math.round(bitmap.width * scale), Math.round(bitmap.height * scale))
+      );
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  if (file.type.startsWith('video/')) {
+    return hashVideoFrames(await sampleVideoFrames(file));
+  }
+
+  if (file.type.startsWith('audio/')) {
+    const context = new OfflineAudioContext(1, 1, 44100);
+    const audio = await context.decodeAudioData(await file.arrayBuffer());
+    return fingerprintAudio(mixToMono(audio), audio.sampleRate);
+  }
+
+  return null;
+}
+
+function drawGrayscale(source: CanvasImageSource, width: number, height: number): GrayscaleImage {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not available');
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  return toGrayscale(data, canvas.width, canvas.height);
+}
+
+async function sampleVideoFrames(file: File): Promise<GrayscaleImage[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await waitFor(video, 'loadeddata');
+    const frames: GrayscaleImage[] = [];
+    const duration = Math.min(video.duration || 0, MAX_VIDEO_FRAMES);
+
+    for (let time = 0; time < duration; time++) {
+      video.currentTime = time;
+      await waitFor(video, 'seeked');
+      frames.push(drawGrayscale(video, VIDEO_FRAME_SIZE, VIDEO_FRAME_SIZE));
+    }
+    return frames;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+function waitFor(video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = () => {
+      video.removeEventListener(event, onEvent);
+      reject(new Error('Video could not be decoded'));
+    };
+    const onEvent = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+}
+
+function mixToMono(audio: AudioBuffer): Float32Array {
+  const mono = new Float32Array(audio.length);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const samples = audio.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      mono[i] += samples[i] / audio.numberOfChannels;
+    }
+  }
+  return mono;
+}
@@ -0,0 +1,7 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { activityPubServer } from '$lib/services/federation/ActivityPubServer';
+
+export const GET: RequestHandler = async () => {
+  return json(activityPubServer.nodeInfoLinks());
+};
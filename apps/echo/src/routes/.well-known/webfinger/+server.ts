@@ -0,0 +1,18 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { activityPubServer } from '$lib/services/federation/ActivityPubServer';
+
+export const GET: RequestHandler = async ({ url }) => {
+  const resource = url.searchParams.get('resource');
+  if (!resource) {
+    return json({ error: 'Missing resource parameter' }, { status: 400 });
+  }
+
+  const document = await activityPubServer.webfinger(resource);
+  if (!document) {
+    return json({ error: 'Not found' }, { status: 404 });
+  }
+  return json(document, {
+    headers: { 'content-type': 'application/jrd+json', 'access-control-allow-origin': '*' }
+  });
+};
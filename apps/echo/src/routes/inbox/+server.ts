@@ -0,0 +1,9 @@
+import type { RequestHandler } from './$types';
+import { activityPubServer } from '$lib/services/federation/ActivityPubServer';
+import { inboxResponse, toIncomingRequest } from '$lib/services/federation/routes';
+
+// Shared inbox: remote instances deliver once here instead of once per local follower
+export const POST: RequestHandler = async ({ request }) => {
+  const result = await activityPubServer.handleInbox(await toIncomingRequest(request));
+  return inboxResponse(result);
+};
@@ -0,0 +1,11 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { activityPubServer } from '$lib/services/federation/ActivityPubServer';
+
+export const GET: RequestHandler = async () => {
+  return json(await activityPubServer.nodeInfo(), {
+    headers: {
+      'content-type': 'application/json; profile="http://nodeinfo.diaspora.software/ns/schema/2.1#"'
+    }
+  });
+};
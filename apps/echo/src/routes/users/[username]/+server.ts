@@ -0,0 +1,11 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ACTIVITY_JSON, activityPubServer } from '$lib/services/federation/ActivityPubServer';
+
+export const GET: RequestHandler = async ({ params }) => {
+  const actor = await activityPubServer.actor(params.username);
+  if (!actor) {
+    return json({ error: 'Not found' }, { status: 404 });
+  }
+  return json(actor, { headers: { 'content-type': ACTIVITY_JSON } });
+};
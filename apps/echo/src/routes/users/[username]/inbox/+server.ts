@@ -0,0 +1,8 @@
+import type { RequestHandler } from './$types';
+import { activityPubServer } from '$lib/services/federation/ActivityPubServer';
+import { inboxResponse, toIncomingRequest } from '$lib/services/federation/routes';
+
+export const POST: RequestHandler = async ({ params, request }) => {
+  const result = await activityPubServer.handleInbox(await toIncomingRequest(request), params.username);
+  return inboxResponse(result);
+};
@@ -0,0 +1,17 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ACTIVITY_JSON, activityPubServer } from '$lib/services/federation/ActivityPubServer';
+import { pageParam } from '$lib/services/federation/routes';
+
+export const GET: RequestHandler = async ({ params, url }) => {
+  const page = pageParam(url);
+  if (page === null) {
+    return json({ error: 'Invalid page' }, { status: 400 });
+  }
+
+  const outbox = await activityPubServer.outbox(params.username, page);
+  if (!outbox) {
+    return json({ error: 'Not found' }, { status: 404 });
+  }
+  return json(outbox, { headers: { 'content-type': ACTIVITY_JSON } });
+};
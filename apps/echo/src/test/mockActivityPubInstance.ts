@@ -0,0 +1,146 @@
+import type { ActivityPubServer } from '$lib/services/federation/ActivityPubServer';
+import { createActorKeyPair, type APObject } from '$lib/services/federation/activityPubStore';
+import { parseSignatureHeader, signRequest, verifyRequest } from '$lib/services/federation/httpSignatures';
+
+type Handler = (request: Request) => Promise<Response>;
+
+/**
+ * An offline stand-in for the internet: fetch calls are routed to an
+ * in-process handler by host, so a local server and mock remotes can
+ * federate with each other in tests.
+ */
+export function createNetwork() {
+  const hosts = new Map<string, Handler>();
+  const networkFetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const host = new URL(request.url).host;
+    const handler = hosts.get(host);
+    if (!handler) {
+      throw new TypeError(`getaddrinfo ENOTFOUND ${host}`);
+    }
+    return handler(request);
+  };
+  return { hosts, fetch: networkFetch };
+}
+
+export type Network = ReturnType<typeof createNetwork>;
+
+/** Serves an ActivityPubServer the way the SvelteKit routes do */
+export function serveActivityPub(server: ActivityPubServer): Handler {
+  return async request => {
+    const url = new URL(request.url);
+    const [, first, username, collection] = url.pathname.split('/');
+
+    if (request.method === 'POST') {
+      const result = await server.handleInbox(
+        {
+          method: 'POST',
+          path: url.pathname + url.search,
+          headers: Object.fromEntries(request.headers),
+          body: await request.text()
+        },
+        first === 'users' ? username : undefined
+      );
+      return Response.json(result, { status: result.status });
+    }
+
+    if (first === 'users' && username && !collection) {
+      const actor = await server.actor(username);
+      return actor ? Response.json(actor) : new Response(null, { status: 404 });
+    }
+    return new Response(null, { status: 404 });
+  };
+}
+
+interface MockActor {
+  id: string;
+  keyId: string;
+  publicKeyPem: string;
+  privateKeyPem: string;
+  deleted: boolean;
+}
+
+export interface ReceivedDelivery {
+  inbox: string;
+  activity: APObject;
+  signedBy: string;
+}
+
+/**
+ * A minimal remote instance (think Mastodon): it serves actor documents,
+ * verifies the HTTP Signatures on deliveries it receives and can sign
+ * activities of its own.
+ */
+export class MockActivityPubInstance {
+  actors = new Map<string, MockActor>();
+  received: ReceivedDelivery[] = [];
+  /** Status returned by the inbox; set to 5xx to simulate an outage */
+  inboxStatus = 202;
+
+  constructor(
+    readonly host: string,
+    private network: Network,
+    private options: { sharedInbox: boolean } = { sharedInbox: true }
+  ) {
+    network.hosts.set(host, request => this.handle(request));
+  }
+
+  async addActor(username: string): Promise<MockActor> {
+    const id = `https://${this.host}/users/${username}`;
+    const actor = { id, keyId: `${id}#main-key`, ...(await createActorKeyPair()), deleted: false };
+    this.actors.set(username, actor);
+    return actor;
+  }
+
+  /** Signs and delivers an activity from one of this instance's actors */
+  async send(username: string, inbox: string, activity: APObject, tamper?: (body: string) => string) {
+    const actor = this.actors.get(username)!;
+    const body = JSON.stringify(activity);
+    const headers = signRequest(
+      { method: 'POST', url: inbox, headers: { 'content-type': 'application/activity+json' }, body },
+      { keyId: actor.keyId, privateKeyPem: actor.privateKeyPem }
+    );
+    return this.network.fetch(inbox, { method: 'POST', headers, body: tamper ? tamper(body) : body });
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const [, first, username, collection] = url.pathname.split('/');
+
+    if (request.method === 'GET' && first === 'users' && username && !collection) {
+      const actor = this.actors.get(username);
+      if (!actor) return new Response(null, { status: 404 });
+      if (actor.deleted) return new Response(null, { status: 410 });
+      return Response.json({
+        '@context': ['https://www.w3.org/ns/activitystreams', 'https://w3id.org/security/v1'],
+        id: actor.id,
+        type: 'Person',
+        preferredUsername: username,
+        inbox: `${actor.id}/inbox`,
+        endpoints: this.options.sharedInbox ? { sharedInbox: `https://${this.host}/inbox` } : undefined,
+        publicKey: { id: actor.keyId, owner: actor.id, publicKeyPem: actor.publicKeyPem }
+      });
+    }
+
+    if (request.method === 'POST') {
+      if (this.inboxStatus >= 300) return new Response(null, { status: this.inboxStatus });
+
+      const body = await request.text();
+      const headers = Object.fromEntries(request.headers);
+      const signature = parseSignatureHeader(headers.signature ?? '');
+      const signer = await (await this.network.fetch(signature.keyId.split('#')[0])).json();
+      try {
+        verifyRequest(
+          { method: 'POST', path: url.pathname, headers, body },
+          signature,
+          signer.publicKey.publicKeyPem
+        );
+      } catch {
+        return new Response(null, { status: 401 });
+      }
+      this.received.push({ inbox: request.url, activity: JSON.parse(body), signedBy: signature.keyId });
+      return new Response(null, { status: 202 });
+    }
+    return new Response(null, { status: 404 });
+  }
+}
@@ -0,0 +1,108 @@
+-- Create ActivityPub federation tables
+CREATE TABLE activitypub_keys (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key_pem TEXT NOT NULL,
+  private_key_pem TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE activitypub_remote_actors (
+  id TEXT PRIMARY KEY,
+  inbox TEXT NOT NULL,
+  shared_inbox TEXT,
+  public_key_id TEXT NOT NULL,
+  public_key_pem TEXT NOT NULL,
+  preferred_username TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE activitypub_followers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  actor_id TEXT NOT NULL,
+  inbox TEXT NOT NULL,
+  shared_inbox TEXT,
+  follow_activity_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, actor_id)
+);
+
+CREATE TABLE activitypub_following (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  actor_id TEXT NOT NULL,
+  follow_activity_id TEXT NOT NULL,
+  accepted BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, actor_id)
+);
+
+CREATE TABLE activitypub_outbox (
+  id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL,
+  activity JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE activitypub_interactions (
+  activity_id TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('Like', 'Announce')),
+  actor_id TEXT NOT NULL,
+  object_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE activitypub_remote_objects (
+  id TEXT PRIMARY KEY,
+  actor_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  object JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Inbound activity ids, so redeliveries are processed once
+CREATE TABLE activitypub_inbox_log (
+  activity_id TEXT PRIMARY KEY,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE activitypub_deliveries (
+  id UUID PRIMARY KEY,
+  inbox TEXT NOT NULL,
+  sender_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  activity JSONB NOT NULL,
+  attempts INTEGER DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE INDEX idx_activitypub_followers_user ON activitypub_followers(user_id);
+CREATE INDEX idx_activitypub_followers_actor ON activitypub_followers(actor_id);
+CREATE INDEX idx_activitypub_following_activity ON activitypub_following(follow_activity_id);
+CREATE INDEX idx_activitypub_outbox_user ON activitypub_outbox(user_id, created_at);
+CREATE INDEX idx_activitypub_interactions_object ON activitypub_interactions(object_id);
+CREATE INDEX idx_activitypub_interactions_actor ON activitypub_interactions(actor_id);
+CREATE INDEX idx_activitypub_remote_objects_actor ON activitypub_remote_objects(actor_id);
+CREATE INDEX idx_activitypub_deliveries_due ON activitypub_deliveries(next_attempt_at);
+
+-- Federation state is only touched server-side; private keys never leave the service role
+ALTER TABLE activitypub_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_remote_actors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_followers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_following ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_interactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_remote_objects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_inbox_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activitypub_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Followers are public"
+  ON activitypub_followers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Outboxes are public"
+  ON activitypub_outbox FOR SELECT
+  USING (true);
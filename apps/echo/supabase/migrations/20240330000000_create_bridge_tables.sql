@@ -0,0 +1,26 @@
+-- Create AT Protocol <-> ActivityPub bridge tables
+CREATE TABLE bridge_identities (
+  did TEXT PRIMARY KEY,
+  actor_uri TEXT NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  handle TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every bridged post and its copy; the origin column keeps copies from being bridged back
+CREATE TABLE bridge_posts (
+  at_uri TEXT PRIMARY KEY,
+  at_cid TEXT NOT NULL,
+  ap_id TEXT NOT NULL UNIQUE,
+  origin TEXT NOT NULL CHECK (origin IN ('atproto', 'activitypub', 'local')),
+  root_at_uri TEXT,
+  root_at_cid TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE INDEX idx_bridge_identities_user ON bridge_identities(user_id);
+
+-- Bridge state is only touched server-side
+ALTER TABLE bridge_identities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bridge_posts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,50 @@
+-- Create differential privacy budget tables
+CREATE TABLE privacy_budget_charges (
+  id UUID PRIMARY KEY,
+  dataset TEXT NOT NULL,
+  analyst TEXT NOT NULL,
+  mechanisms JSONB NOT NULL,
+  query_key TEXT,
+  charged_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Noisy answers already released; repeating a query returns the same answer at no cost
+CREATE TABLE privacy_query_answers (
+  dataset TEXT NOT NULL,
+  query_key TEXT NOT NULL,
+  answer JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (dataset, query_key)
+);
+
+-- Create indexes
+CREATE INDEX idx_privacy_budget_charges_dataset ON privacy_budget_charges(dataset, charged_at);
+
+-- Appends a charge only if no other charge landed since the caller checked the budget
+CREATE OR REPLACE FUNCTION append_privacy_charge(
+  p_id UUID,
+  p_dataset TEXT,
+  p_analyst TEXT,
+  p_mechanisms JSONB,
+  p_query_key TEXT,
+  p_charged_at TIMESTAMP WITH TIME ZONE,
+  p_expected_count INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Serialise charges per dataset for the rest of the transaction
+  PERFORM pg_advisory_xact_lock(hashtext(p_dataset));
+
+  IF (SELECT COUNT(*) FROM privacy_budget_charges WHERE dataset = p_dataset) <> p_expected_count THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO privacy_budget_charges (id, dataset, analyst, mechanisms, query_key, charged_at)
+  VALUES (p_id, p_dataset, p_analyst, p_mechanisms, p_query_key, p_charged_at);
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The ledger is only touched server-side
+ALTER TABLE privacy_budget_charges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE privacy_query_answers ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,50 @@
+-- Create versioned key tables for envelope encryption
+CREATE TABLE key_versions (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('content', 'sharing')),
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('active', 'retiring', 'retired')),
+  wrapped_secret TEXT NOT NULL,
+  public_key JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  retired_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(user_id, purpose, version)
+);
+
+-- One data key per content item, wrapped by a content key version
+CREATE TABLE content_keys (
+  content_id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_version_id UUID REFERENCES key_versions(id) NOT NULL,
+  wrapped_key TEXT NOT NULL
+);
+
+CREATE TABLE key_rotation_jobs (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_version_id UUID REFERENCES key_versions(id) NOT NULL,
+  to_version_id UUID REFERENCES key_versions(id) NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed', 'rolled_back')),
+  cursor TEXT,
+  processed INTEGER NOT NULL DEFAULT 0,
+  total INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE INDEX idx_key_versions_user ON key_versions(user_id, purpose, version DESC);
+CREATE INDEX idx_content_keys_version ON content_keys(key_version_id, content_id);
+CREATE INDEX idx_key_rotation_jobs_status ON key_rotation_jobs(status, user_id);
+
+-- Wrapped secrets are only touched server-side
+ALTER TABLE key_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE key_rotation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users may read their own rotation progress
+CREATE POLICY "Users can view their key rotations"
+  ON key_rotation_jobs FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,46 @@
+-- Perceptual hashes of removed media, matched against new uploads
+CREATE TABLE media_hash_list (
+  id UUID PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'video', 'audio')),
+  hash JSONB NOT NULL,
+  source_id TEXT,
+  reason TEXT,
+  added_by TEXT,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Hashes taken at upload, so removed posts can be listed without re-fetching their media
+ALTER TABLE posts ADD COLUMN media_hashes JSONB DEFAULT '[]';
+
+-- Create indexes
+CREATE INDEX idx_media_hash_list_source ON media_hash_list(source_id);
+
+ALTER TABLE media_hash_list ENABLE ROW LEVEL SECURITY;
+
+-- Uploads are checked in the browser, so the hashes have to be readable
+CREATE POLICY "Allow authenticated read access to media hash list"
+  ON media_hash_list FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow moderators to add to media hash list"
+  ON media_hash_list FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_id = auth.uid()
+      AND role IN ('moderator', 'admin')
+    )
+  );
+
+CREATE POLICY "Allow moderators to remove from media hash list"
+  ON media_hash_list FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_id = auth.uid()
+      AND role IN ('moderator', 'admin')
+    )
+  );
@@ -0,0 +1,98 @@
+-- Community votes on moderation actions, one per voter
+CREATE TABLE IF NOT EXISTS moderation_votes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  action_id UUID NOT NULL REFERENCES moderation_actions(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL REFERENCES auth.users(id),
+  vote TEXT NOT NULL CHECK (vote IN ('support', 'oppose')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (action_id, voter_id)
+);
+
+CREATE TABLE IF NOT EXISTS moderator_stats (
+  moderator_id TEXT PRIMARY KEY,
+  total_actions INTEGER DEFAULT 0,
+  accurate_actions INTEGER DEFAULT 0,
+  reputation FLOAT DEFAULT 0.5,
+  specializations TEXT[] DEFAULT '{}',
+  last_active TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Voting history that decides how much each vote counts
+ALTER TABLE moderator_stats ADD COLUMN IF NOT EXISTS stake FLOAT DEFAULT 0;
+ALTER TABLE moderator_stats ADD COLUMN IF NOT EXISTS votes_resolved INTEGER DEFAULT 0;
+ALTER TABLE moderator_stats ADD COLUMN IF NOT EXISTS votes_agreed INTEGER DEFAULT 0;
+ALTER TABLE moderator_stats ADD COLUMN IF NOT EXISTS votes_reversed INTEGER DEFAULT 0;
+
+-- Voting rounds run from when the action is created
+ALTER TABLE moderation_actions ADD COLUMN IF NOT EXISTS post_id UUID;
+ALTER TABLE moderation_actions ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'pending'
+  CHECK (status IN ('pending', 'applied', 'rejected', 'escalated', 'reversed'));
+ALTER TABLE moderation_actions ADD COLUMN IF NOT EXISTS reversal_reason TEXT;
+ALTER TABLE moderation_actions ADD COLUMN IF NOT EXISTS applied_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE moderation_actions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+-- Rounds that voting couldn't settle, for staff to decide
+CREATE TABLE moderation_escalations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  action_id UUID NOT NULL REFERENCES moderation_actions(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  support_weight FLOAT NOT NULL DEFAULT 0,
+  oppose_weight FLOAT NOT NULL DEFAULT 0,
+  suspected_rings JSONB DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  decision TEXT CHECK (decision IN ('apply', 'reject')),
+  notes TEXT,
+  resolved_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_moderation_votes_action ON moderation_votes(action_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_votes_voter ON moderation_votes(voter_id, created_at);
+CREATE INDEX idx_moderation_actions_status ON moderation_actions(status, created_at);
+CREATE INDEX idx_moderation_escalations_status ON moderation_escalations(status);
+
+ALTER TABLE moderation_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_escalations ENABLE ROW LEVEL SECURITY;
+
+-- Votes are public so anyone can check how a decision was reached
+CREATE POLICY "Allow authenticated read access to moderation votes"
+  ON moderation_votes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow users to cast their own moderation votes"
+  ON moderation_votes FOR INSERT
+  TO authenticated
+  WITH CHECK (voter_id = auth.uid());
+
+CREATE POLICY "Allow moderators to view escalations"
+  ON moderation_escalations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_id = auth.uid()
+      AND role IN ('moderator', 'admin')
+    )
+  );
+
+-- Any vote can close a round, so any voter's session may record the escalation
+CREATE POLICY "Allow authenticated users to record escalations"
+  ON moderation_escalations FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Allow staff to resolve escalations"
+  ON moderation_escalations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_id = auth.uid()
+      AND role = 'admin'
+    )
+  );
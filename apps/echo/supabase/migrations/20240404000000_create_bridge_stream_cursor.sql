@@ -0,0 +1,9 @@
+-- Position in the AT Protocol event stream the bridge reads linked users' posts from
+CREATE TABLE bridge_stream_cursor (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  -- Jetstream cursors are microseconds since the epoch
+  cursor BIGINT NOT NULL
+);
+
+-- Bridge state is only touched server-side
+ALTER TABLE bridge_stream_cursor ENABLE ROW LEVEL SECURITY;
@@ -1,26 +1,58 @@
 import { SignalProtocolStore } from '@privacyresearch/libsignal-protocol-typescript';
 import { generateKeyPair, KeyPairType } from '@stablelib/x25519';
 import { randomBytes } from '@stablelib/random';
-import { box, secretbox } from '@stablelib/nacl';
+import { box, secretbox, openSecretBox } from '@stablelib/nacl';
+import { hash as sha256 } from '@stablelib/sha256';
+import { hash as sha512 } from '@stablelib/sha512';
 import { encode as encodeBase64, decode as decodeBase64 } from '@stablelib/base64';
+import type { AttachmentKey } from '$lib/types/messaging';
 
-interface KeyBundle {
+// Upload a fresh batch of one-time prekeys once the server holds fewer than this
+const PREKEY_LOW_WATERMARK = 20;
+const PREKEY_BATCH_SIZE = 100;
+// Prekey ids are 24-bit in the Signal protocol
+const MAX_PREKEY_ID = 0xffffff;
+// Hash iterations per safety number fingerprint, as in Signal
+const FINGERPRINT_ITERATIONS = 5200;
+
+export interface OneTimePreKey {
+  keyId: number;
+  publicKey: string;
+}
+
+export interface KeyBundle {
   identityKey: string;
   signedPreKey: {
     keyId: number;
     publicKey: string;
     signature: string;
   };
-  oneTimePreKeys: Array<{
-    keyId: number;
-    publicKey: string;
-  }>;
+  oneTimePreKeys: OneTimePreKey[];
+}
+
+interface TrustedIdentity {
+  identityKey: string;
+  verified: boolean;
+}
+
+/**
+ * A known user presented a different identity key: either they reinstalled
+ * or someone is impersonating them
+ */
+export class IdentityChangedError extends Error {
+  constructor(public userId: string, public identityKey: string) {
+    super(`Identity key changed for ${userId}`);
+    this.name = 'IdentityChangedError';
+  }
 }
 
 export class EncryptionService {
   private store: SignalProtocolStore;
   private identityKeyPair: KeyPairType;
   private registrationId: number;
+  private preKeyIds: number[] = [];
+  private nextPreKeyId = 1;
+  private identities = new Map<string, TrustedIdentity>();
 
   constructor() {
     this.store = new SignalProtocolStore();
@@ -45,10 +77,14 @@ export class EncryptionService {
     });
 
     // Generate one-time prekeys
-    for (let i = 0; i < 100; i++) {
-      const oneTimePreKey = await generateKeyPair();
-      await this.store.storePreKey(i, oneTimePreKey);
-    }
+    await this.generatePreKeys(PREKEY_BATCH_SIZE);
+  }
+
+  /**
+   * Get the user's public identity key
+   */
+  getIdentityKey(): string {
+    return encodeBase64(this.identityKeyPair.publicKey);
   }
 
   /**
@@ -56,33 +92,70 @@ export class EncryptionService {
    */
   async getKeyBundle(): Promise<KeyBundle> {
     const signedPreKey = await this.store.loadSignedPreKey(1);
-    const oneTimePreKeys = await Promise.all(
-      Array.from({ length: 20 }, (_, i) => this.store.loadPreKey(i))
-    );
 
     return {
-      identityKey: encodeBase64(this.identityKeyPair.publicKey),
+      identityKey: this.getIdentityKey(),
       signedPreKey: {
         keyId: 1,
         publicKey: encodeBase64(signedPreKey.keyPair.publicKey),
         signature: encodeBase64(signedPreKey.signature)
       },
-      oneTimePreKeys: oneTimePreKeys.map((key, i) => ({
-        keyId: i,
-        publicKey: encodeBase64(key.publicKey)
-      }))
+      oneTimePreKeys: await this.loadPreKeys()
     };
   }
 
   /**
-   * Establish session with another user
+   * Generate and store one-time prekeys, returning their public halves
+   */
+  private async generatePreKeys(count: number): Promise<OneTimePreKey[]> {
+    const preKeys: OneTimePreKey[] = [];
+    for (let i = 0; i < count; i++) {
+      const keyId = this.nextPreKeyId;
+      this.nextPreKeyId = (this.nextPreKeyId % MAX_PREKEY_ID) + 1;
+
+      const oneTimePreKey = await generateKeyPair();
+      await this.store.storePreKey(keyId, oneTimePreKey);
+      this.preKeyIds.push(keyId);
+      preKeys.push({ keyId, publicKey: encodeBase64(oneTimePreKey.publicKey) });
+    }
+    return preKeys;
+  }
+
+  /**
+   * Load the one-time prekeys that haven't been consumed by a session yet
    */
-  async establishSession(theirBundle: KeyBundle): Promise<void> {
+  private async loadPreKeys(): Promise<OneTimePreKey[]> {
+    const preKeys: OneTimePreKey[] = [];
+    const remaining: number[] = [];
+    for (const keyId of this.preKeyIds) {
+      const key = await this.store.loadPreKey(keyId);
+      if (!key) continue;
+      remaining.push(keyId);
+      preKeys.push({ keyId, publicKey: encodeBase64(key.publicKey) });
+    }
+    this.preKeyIds = remaining;
+    return preKeys;
+  }
+
+  /**
+   * Top up one-time prekeys when the server's supply runs low. Each session
+   * another user starts with us claims one, so the count only goes down.
+   * Returns the new prekeys to upload; empty when none are needed.
+   */
+  async replenishPreKeys(remainingOnServer: number): Promise<OneTimePreKey[]> {
+    if (remainingOnServer >= PREKEY_LOW_WATERMARK) return [];
+    return this.generatePreKeys(PREKEY_BATCH_SIZE - remainingOnServer);
+  }
+
+  /**
+   * Establish session with another user. The bundle carries at most one
+   * one-time prekey, claimed for us by the server; once a user's prekeys
+   * are exhausted the session falls back to the signed prekey alone.
+   */
+  async establishSession(theirBundle: KeyBundle, userId?: string): Promise<void> {
     const theirIdentityKey = decodeBase64(theirBundle.identityKey);
     const theirSignedPreKey = decodeBase64(theirBundle.signedPreKey.publicKey);
-    const theirOneTimePreKey = decodeBase64(
-      theirBundle.oneTimePreKeys[0].publicKey
-    );
+    const [claimedPreKey] = theirBundle.oneTimePreKeys;
 
     // Verify signature
     const isValid = await this.verifySignature(
@@ -95,6 +168,14 @@ export class EncryptionService {
       throw new Error('Invalid signature in key bundle');
     }
 
+    if (userId && this.trustIdentity(userId, theirBundle.identityKey) === 'changed') {
+      throw new IdentityChangedError(userId, theirBundle.identityKey);
+    }
+
+    if (!claimedPreKey) {
+      console.warn('One-time prekeys exhausted, establishing session without one');
+    }
+
     // Create session
     const sessionBuilder = new SessionBuilder(
       this.store,
@@ -109,13 +190,104 @@ export class EncryptionService {
         publicKey: theirSignedPreKey,
         signature: decodeBase64(theirBundle.signedPreKey.signature)
       },
-      oneTimePreKey: {
-        keyId: theirBundle.oneTimePreKeys[0].keyId,
-        publicKey: theirOneTimePreKey
+      oneTimePreKey: claimedPreKey && {
+        keyId: claimedPreKey.keyId,
+        publicKey: decodeBase64(claimedPreKey.publicKey)
       }
     });
   }
 
+  /**
+   * Record the identity key seen for a user the first time. A different key
+   * for a known user is not recorded: it stays untrusted until the user
+   * accepts it with acceptIdentityChange.
+   */
+  trustIdentity(userId: string, identityKey: string): 'new' | 'unchanged' | 'changed' {
+    const known = this.identities.get(userId);
+    if (known?.identityKey === identityKey) return 'unchanged';
+    if (known) return 'changed';
+
+    this.identities.set(userId, { identityKey, verified: false });
+    return 'new';
+  }
+
+  /**
+   * Replace a user's identity key after they confirmed the change. Any
+   * earlier safety number verification no longer applies.
+   */
+  acceptIdentityChange(userId: string, identityKey: string): void {
+    this.identities.set(userId, { identityKey, verified: false });
+  }
+
+  /**
+   * Get the identity key last seen for a user
+   */
+  getTrustedIdentity(userId: string): string | null {
+    return this.identities.get(userId)?.identityKey ?? null;
+  }
+
+  /**
+   * Compute the safety number both users see for their conversation: 60
+   * digits made from a fingerprint of each identity key, ordered so both
+   * sides display the same number.
+   */
+  async getSafetyNumber(ourUserId: string, theirUserId: string): Promise<string> {
+    const theirIdentityKey = this.getTrustedIdentity(theirUserId);
+    if (!theirIdentityKey) throw new Error(`No identity key known for ${theirUserId}`);
+
+    const ours = this.fingerprint(ourUserId, this.identityKeyPair.publicKey);
+    const theirs = this.fingerprint(theirUserId, decodeBase64(theirIdentityKey));
+    return ours < theirs ? ours + theirs : theirs + ours;
+  }
+
+  /**
+   * Mark a user's identity verified if the safety number compared out of
+   * band matches ours
+   */
+  async verifySafetyNumber(
+    ourUserId: string,
+    theirUserId: string,
+    safetyNumber: string
+  ): Promise<boolean> {
+    const expected = await this.getSafetyNumber(ourUserId, theirUserId);
+    const verified = expected === safetyNumber.replace(/\s+/g, '');
+
+    const identity = this.identities.get(theirUserId);
+    if (identity) identity.verified = verified;
+    return verified;
+  }
+
+  /**
+   * Whether a user's current identity key has been verified
+   */
+  isVerified(userId: string): boolean {
+    return this.identities.get(userId)?.verified ?? false;
+  }
+
+  /**
+   * 30 digits identifying one user's identity key
+   */
+  private fingerprint(userId: string, identityKey: Uint8Array): string {
+    const version = new Uint8Array([0, 0]);
+    const stableId = new TextEncoder().encode(userId);
+
+    let digest = sha512(concatBytes(version, identityKey, stableId));
+    for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+      digest = sha512(concatBytes(digest, identityKey));
+    }
+
+    // Six 5-byte chunks, each reduced to five digits
+    let digits = '';
+    for (let chunk = 0; chunk < 6; chunk++) {
+      let value = 0;
+      for (let i = 0; i < 5; i++) {
+        value = value * 256 + digest[chunk * 5 + i];
+      }
+      digits += String(value % 100000).padStart(5, '0');
+    }
+    return digits;
+  }
+
   /**
    * Encrypt message for a recipient
    */
@@ -167,6 +339,51 @@ export class EncryptionService {
     return plaintext;
   }
 
+  /**
+   * Encrypt an attachment such as a voice note under a fresh key. The
+   * ciphertext can be uploaded anywhere; the key travels inside the
+   * end-to-end encrypted message.
+   */
+  async encryptAttachment(data: Uint8Array): Promise<{
+    ciphertext: Uint8Array;
+    key: AttachmentKey;
+  }> {
+    const key = randomBytes(32);
+    const nonce = randomBytes(24);
+    const ciphertext = secretbox(key, nonce, data);
+
+    return {
+      ciphertext,
+      key: {
+        key: encodeBase64(key),
+        nonce: encodeBase64(nonce),
+        digest: encodeBase64(sha256(ciphertext))
+      }
+    };
+  }
+
+  /**
+   * Decrypt an attachment, checking it is the exact upload the sender made
+   */
+  async decryptAttachment(
+    ciphertext: Uint8Array,
+    key: AttachmentKey
+  ): Promise<Uint8Array> {
+    if (encodeBase64(sha256(ciphertext)) !== key.digest) {
+      throw new Error('Attachment digest mismatch');
+    }
+
+    const plaintext = openSecretBox(
+      decodeBase64(key.key),
+      decodeBase64(key.nonce),
+      ciphertext
+    );
+    if (!plaintext) {
+      throw new Error('Failed to decrypt attachment');
+    }
+    return plaintext;
+  }
+
   /**
    * Sign prekey with identity key
    */
@@ -207,5 +424,15 @@ export class EncryptionService {
   }
 }
 
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
 // Create encryption service instance
 export const encryption = new EncryptionService(); 
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ForgedSenderKeyError,
+  GroupEncryptionService,
+  MissingSenderKeyError,
+  type GroupCiphertext,
+  type SenderKeyEnvelope
+} from './groupEncryptionService';
+import { MemorySenderKeyStore } from './senderKeyStore';
+import type { EncryptionService } from './encryptionService';
+
+vi.mock('$app/environment', () => ({ browser: false }));
+
+// The real service needs libsignal sessions; these tests only need the group layer
+vi.mock('./encryptionService', () => ({ encryption: {} }));
+
+/**
+ * Stands in for pairwise Signal sessions: an envelope only opens with the
+ * identity key of the member who sealed it
+ */
+const pairwiseFor = (identityKey: string) =>
+  ({
+    encryptMessage: async (recipientIdentityKey: string, message: string) => ({
+      type: 3,
+      body: JSON.stringify({ from: identityKey, to: recipientIdentityKey, message })
+    }),
+    decryptMessage: async (senderIdentityKey: string, envelope: SenderKeyEnvelope) => {
+      const { from, to, message } = JSON.parse(envelope.body);
+      if (from !== senderIdentityKey || to !== identityKey) {
+        throw new Error('Bad MAC');
+      }
+      return new TextEncoder().encode(message);
+    }
+  }) as unknown as EncryptionService;
+
+const member = (userId: string) => ({
+  userId,
+  identityKey: `${userId}-identity`,
+  store: new MemorySenderKeyStore(),
+  group: null as unknown as GroupEncryptionService
+});
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('group encryption', () => {
+  let alice: ReturnType<typeof member>;
+  let bob: ReturnType<typeof member>;
+  let carol: ReturnType<typeof member>;
+
+  beforeEach(() => {
+    alice = member('alice');
+    bob = member('bob');
+    carol = member('carol');
+    for (const m of [alice, bob, carol]) {
+      m.group = new GroupEncryptionService(pairwiseFor(m.identityKey), m.store);
+    }
+  });
+
+  const distribute = async (
+    from: ReturnType<typeof member>,
+    chatId: string,
+    recipients: ReturnType<typeof member>[]
+  ) => {
+    const { envelopes } = await from.group.rekey(chatId, from.userId, recipients);
+    for (const envelope of envelopes) {
+      const recipient = recipients.find(r => r.userId === envelope.recipientId)!;
+      await recipient.group.processDistribution(chatId, from.userId, from.identityKey, envelope);
+    }
+  };
+
+  it('decrypts messages from every member holding the sender key', async () => {
+    await distribute(alice, 'chat-1', [bob, carol]);
+    const message = await alice.group.encrypt('chat-1', 'hello');
+
+    expect(decode(await bob.group.decrypt('chat-1', 'alice', message))).toBe('hello');
+    expect(decode(await carol.group.decrypt('chat-1', 'alice', message))).toBe('hello');
+  });
+
+  describe('distribution', () => {
+    it('rejects a distribution naming a different sender than its envelope', async () => {
+      // Carol builds a sender key in Alice's name and sends it over her own session
+      const forged = new GroupEncryptionService(pairwiseFor(carol.identityKey));
+      const { envelopes } = await forged.rekey('chat-1', 'alice', [bob]);
+
+      await expect(
+        bob.group.processDistribution('chat-1', 'carol', carol.identityKey, envelopes[0]!)
+      ).rejects.toBeInstanceOf(ForgedSenderKeyError);
+
+      const message = await forged.encrypt('chat-1', 'send me your password');
+      await expect(bob.group.decrypt('chat-1', 'alice', message)).rejects.toBeInstanceOf(
+        MissingSenderKeyError
+      );
+    });
+
+    it('rejects an envelope claiming to come from someone else', async () => {
+      const { envelopes } = await carol.group.rekey('chat-1', 'carol', [bob]);
+
+      await expect(
+        bob.group.processDistribution('chat-1', 'alice', alice.identityKey, envelopes[0]!)
+      ).rejects.toThrow('Bad MAC');
+    });
+
+    it('rejects a distribution for a different chat', async () => {
+      const { envelopes } = await alice.group.rekey('chat-2', 'alice', [bob]);
+
+      await expect(
+        bob.group.processDistribution('chat-1', 'alice', alice.identityKey, envelopes[0]!)
+      ).rejects.toBeInstanceOf(ForgedSenderKeyError);
+
+      const message = await alice.group.encrypt('chat-2', 'wrong room');
+      await expect(bob.group.decrypt('chat-1', 'alice', message)).rejects.toBeInstanceOf(
+        MissingSenderKeyError
+      );
+    });
+  });
+
+  describe('key rotation', () => {
+    it('needs a rekey when membership changes', async () => {
+      await distribute(alice, 'chat-1', [bob, carol]);
+
+      expect(alice.group.needsRekey('chat-1', ['alice', 'bob', 'carol'])).toBe(false);
+      expect(alice.group.needsRekey('chat-1', ['alice', 'bob'])).toBe(true);
+      expect(alice.group.needsRekey('chat-1', ['alice', 'bob', 'carol', 'dave'])).toBe(true);
+    });
+
+    it('keeps removed members out of the new epoch', async () => {
+      await distribute(alice, 'chat-1', [bob, carol]);
+      const before = await alice.group.encrypt('chat-1', 'before');
+
+      await distribute(alice, 'chat-1', [bob]);
+      const after = await alice.group.encrypt('chat-1', 'after');
+
+      expect(after.epoch).toBe(before.epoch + 1);
+      expect(decode(await bob.group.decrypt('chat-1', 'alice', after))).toBe('after');
+      await expect(carol.group.decrypt('chat-1', 'alice', after)).rejects.toBeInstanceOf(
+        MissingSenderKeyError
+      );
+
+      // Messages sent just before the rekey still decrypt
+      expect(decode(await bob.group.decrypt('chat-1', 'alice', before))).toBe('before');
+    });
+
+    it('keeps added members out of earlier epochs', async () => {
+      await distribute(alice, 'chat-1', [bob]);
+      const before = await alice.group.encrypt('chat-1', 'before');
+
+      await distribute(alice, 'chat-1', [bob, carol]);
+
+      await expect(carol.group.decrypt('chat-1', 'alice', before)).rejects.toBeInstanceOf(
+        MissingSenderKeyError
+      );
+    });
+
+    it('stops decrypting a member once they are forgotten', async () => {
+      await distribute(alice, 'chat-1', [bob]);
+      const message = await alice.group.encrypt('chat-1', 'bye');
+
+      await bob.group.forgetMember('chat-1', 'alice');
+
+      await expect(bob.group.decrypt('chat-1', 'alice', message)).rejects.toBeInstanceOf(
+        MissingSenderKeyError
+      );
+    });
+
+    it('rejects tampered ciphertext', async () => {
+      await distribute(alice, 'chat-1', [bob]);
+      const message = await alice.group.encrypt('chat-1', 'hello');
+      const tampered: GroupCiphertext = { ...message, iteration: message.iteration + 1 };
+
+      await expect(bob.group.decrypt('chat-1', 'alice', tampered)).rejects.toThrow(
+        'Invalid sender key signature'
+      );
+    });
+  });
+
+  describe('persistence', () => {
+    it('restores sender keys and ratchet positions after a reload', async () => {
+      await distribute(alice, 'chat-1', [bob]);
+      const first = await alice.group.encrypt('chat-1', 'first');
+      await bob.group.decrypt('chat-1', 'alice', first);
+
+      const reloadedAlice = new GroupEncryptionService(pairwiseFor(alice.identityKey), alice.store);
+      const reloadedBob = new GroupEncryptionService(pairwiseFor(bob.identityKey), bob.store);
+      await reloadedAlice.load();
+      await reloadedBob.load();
+
+      expect(reloadedAlice.needsRekey('chat-1', ['alice', 'bob'])).toBe(false);
+
+      const second = await reloadedAlice.encrypt('chat-1', 'second');
+      expect(second.iteration).toBe(first.iteration + 1);
+      expect(decode(await reloadedBob.decrypt('chat-1', 'alice', second))).toBe('second');
+
+      // The first message key was used before the reload and is gone for good
+      await expect(reloadedBob.decrypt('chat-1', 'alice', first)).rejects.toThrow(
+        'Message key already used or too old'
+      );
+    });
+
+    it('does not restore forgotten members', async () => {
+      await distribute(alice, 'chat-1', [bob]);
+      const message = await alice.group.encrypt('chat-1', 'hello');
+      await bob.group.forgetMember('chat-1', 'alice');
+
+      const reloaded = new GroupEncryptionService(pairwiseFor(bob.identityKey), bob.store);
+      await reloaded.load();
+
+      await expect(reloaded.decrypt('chat-1', 'alice', message)).rejects.toBeInstanceOf(
+        MissingSenderKeyError
+      );
+    });
+  });
+});
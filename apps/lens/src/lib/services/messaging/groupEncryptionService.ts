@@ -0,0 +1,428 @@
+import { randomBytes } from '@stablelib/random';
+import { hmac } from '@stablelib/hmac';
+import { SHA256 } from '@stablelib/sha256';
+import { secretBox, openSecretBox } from '@stablelib/nacl';
+import { generateKeyPair as generateSigningKeyPair, sign, verify } from '@stablelib/ed25519';
+import { encode as encodeBase64, decode as decodeBase64 } from '@stablelib/base64';
+import { wipe } from '@stablelib/wipe';
+import { browser } from '$app/environment';
+import { encryption, type EncryptionService } from './encryptionService';
+import {
+  IndexedDbSenderKeyStore,
+  MemorySenderKeyStore,
+  type SenderKeyStore,
+  type StoredSenderKey
+} from './senderKeyStore';
+
+// Message keys kept for out-of-order delivery, per sender key
+const MAX_SKIPPED_KEYS = 2000;
+// Earlier epochs kept so messages sent just before a rekey still decrypt
+const RETAINED_EPOCHS = 2;
+
+const MESSAGE_KEY_SEED = new Uint8Array([1]);
+const CHAIN_KEY_SEED = new Uint8Array([2]);
+
+interface SenderKeyState {
+  epoch: number;
+  chainKey: Uint8Array;
+  iteration: number;
+  signingPublicKey: Uint8Array;
+  // Only present for our own sender keys
+  signingSecretKey?: Uint8Array;
+  skippedKeys: Map<number, Uint8Array>;
+}
+
+/**
+ * A sender's chain key and signing key, sent to each member over their
+ * pairwise session
+ */
+interface SenderKeyDistribution {
+  chatId: string;
+  senderId: string;
+  epoch: number;
+  iteration: number;
+  chainKey: string;
+  signingKey: string;
+}
+
+export interface GroupCiphertext {
+  epoch: number;
+  iteration: number;
+  nonce: string;
+  ciphertext: string;
+  signature: string;
+}
+
+export interface SenderKeyEnvelope {
+  recipientId: string;
+  type: number;
+  body: string;
+}
+
+export interface GroupMember {
+  userId: string;
+  identityKey: string;
+}
+
+/**
+ * A sender key distribution that claims a different sender or chat than
+ * the envelope it arrived in
+ */
+export class ForgedSenderKeyError extends Error {
+  constructor(public chatId: string, public senderId: string) {
+    super(`Sender key distribution from ${senderId} for chat ${chatId} does not match its envelope`);
+    this.name = 'ForgedSenderKeyError';
+  }
+}
+
+export class MissingSenderKeyError extends Error {
+  constructor(public chatId: string, public senderId: string, public epoch: number) {
+    super(`No sender key from ${senderId} for epoch ${epoch} in chat ${chatId}`);
+    this.name = 'MissingSenderKeyError';
+  }
+}
+
+/**
+ * Group end-to-end encryption with sender keys. Each member encrypts for
+ * the whole group with their own symmetric ratchet, so a message is
+ * encrypted once regardless of group size; the ratchet's chain key is
+ * handed to the other members over pairwise Signal sessions. Membership
+ * changes start a new epoch: removed members never receive the new keys
+ * and added members can't read anything sent before they joined.
+ */
+export class GroupEncryptionService {
+  private ownKeys = new Map<string, SenderKeyState>();
+  private memberKeys = new Map<string, SenderKeyState[]>();
+  private members = new Map<string, string[]>();
+
+  constructor(
+    private pairwise: EncryptionService,
+    private store: SenderKeyStore = new MemorySenderKeyStore()
+  ) {}
+
+  /**
+   * Restore sender keys saved by an earlier session. Call before sending
+   * or decrypting anything.
+   */
+  async load(): Promise<void> {
+    for (const [id, saved] of await this.store.load()) {
+      const [kind, chatId, userId] = id.split('\u0000') as [string, string, string?];
+      const states = saved.states.map(fromStored);
+
+      if (kind === 'own' && states[0]) {
+        this.ownKeys.set(chatId, states[0]);
+        this.members.set(chatId, saved.members ?? []);
+      } else if (kind === 'member' && userId) {
+        this.memberKeys.set(this.memberKey(chatId, userId), states);
+      }
+    }
+  }
+
+  /**
+   * Whether our sender key for a chat must be replaced before sending:
+   * there is none yet, or the membership changed since it was distributed
+   */
+  needsRekey(chatId: string, memberIds: string[]): boolean {
+    const previous = this.members.get(chatId);
+    if (!this.ownKeys.has(chatId) || !previous) return true;
+    return (
+      previous.length !== memberIds.length ||
+      memberIds.some(id => !previous.includes(id))
+    );
+  }
+
+  /**
+   * Start a new sender key epoch and encrypt it for each current member
+   */
+  async rekey(
+    chatId: string,
+    senderId: string,
+    recipients: GroupMember[]
+  ): Promise<{ epoch: number; envelopes: SenderKeyEnvelope[] }> {
+    const previous = this.ownKeys.get(chatId);
+    const signing = generateSigningKeyPair();
+    const state: SenderKeyState = {
+      epoch: (previous?.epoch ?? 0) + 1,
+      chainKey: randomBytes(32),
+      iteration: 0,
+      signingPublicKey: signing.publicKey,
+      signingSecretKey: signing.secretKey,
+      skippedKeys: new Map()
+    };
+
+    if (previous) this.wipeState(previous);
+    this.ownKeys.set(chatId, state);
+    this.members.set(chatId, [senderId, ...recipients.map(r => r.userId)]);
+    await this.saveOwn(chatId);
+
+    const distribution: SenderKeyDistribution = {
+      chatId,
+      senderId,
+      epoch: state.epoch,
+      iteration: state.iteration,
+      chainKey: encodeBase64(state.chainKey),
+      signingKey: encodeBase64(state.signingPublicKey)
+    };
+
+    // Keep a receiving copy so our own messages decrypt when loaded again
+    await this.installSenderKey(distribution);
+
+    const envelopes = await Promise.all(
+      recipients.map(async recipient => {
+        const encrypted = await this.pairwise.encryptMessage(
+          recipient.identityKey,
+          JSON.stringify(distribution)
+        );
+        return {
+          recipientId: recipient.userId,
+          type: encrypted.type,
+          body: encrypted.body
+        };
+      })
+    );
+
+    return { epoch: state.epoch, envelopes };
+  }
+
+  /**
+   * Install a sender key another member distributed to us. The pairwise
+   * session authenticates who sent the envelope, so the distribution
+   * inside must name that same sender and the chat it was fetched for;
+   * otherwise one member could install keys in another's name.
+   */
+  async processDistribution(
+    chatId: string,
+    senderId: string,
+    senderIdentityKey: string,
+    envelope: SenderKeyEnvelope
+  ): Promise<void> {
+    const plaintext = await this.pairwise.decryptMessage(senderIdentityKey, envelope);
+    const distribution: SenderKeyDistribution = JSON.parse(
+      new TextDecoder().decode(plaintext)
+    );
+
+    if (distribution.chatId !== chatId || distribution.senderId !== senderId) {
+      throw new ForgedSenderKeyError(chatId, senderId);
+    }
+    await this.installSenderKey(distribution);
+  }
+
+  private async installSenderKey(distribution: SenderKeyDistribution): Promise<void> {
+    const key = this.memberKey(distribution.chatId, distribution.senderId);
+    const states = (this.memberKeys.get(key) ?? []).filter(
+      state => state.epoch !== distribution.epoch
+    );
+
+    states.unshift({
+      epoch: distribution.epoch,
+      chainKey: decodeBase64(distribution.chainKey),
+      iteration: distribution.iteration,
+      signingPublicKey: decodeBase64(distribution.signingKey),
+      skippedKeys: new Map()
+    });
+    states.sort((a, b) => b.epoch - a.epoch);
+    states.splice(RETAINED_EPOCHS).forEach(state => this.wipeState(state));
+
+    this.memberKeys.set(key, states);
+    await this.saveMember(distribution.chatId, distribution.senderId);
+  }
+
+  /**
+   * Drop a removed member's sender keys so nothing more from them decrypts
+   */
+  async forgetMember(chatId: string, userId: string): Promise<void> {
+    const key = this.memberKey(chatId, userId);
+    this.memberKeys.get(key)?.forEach(state => this.wipeState(state));
+    this.memberKeys.delete(key);
+    await this.store.delete(this.storeId('member', chatId, userId));
+  }
+
+  /**
+   * Encrypt a message for every member holding our current sender key
+   */
+  async encrypt(chatId: string, message: string | Uint8Array): Promise<GroupCiphertext> {
+    const state = this.ownKeys.get(chatId);
+    if (!state?.signingSecretKey) {
+      throw new Error(`No sender key for chat ${chatId}`);
+    }
+
+    const iteration = state.iteration;
+    const messageKey = this.advance(state);
+    const nonce = randomBytes(24);
+    const plaintext = typeof message === 'string'
+      ? new TextEncoder().encode(message)
+      : message;
+    const ciphertext = secretBox(messageKey, nonce, plaintext);
+    wipe(messageKey);
+
+    const signature = sign(
+      state.signingSecretKey,
+      this.signedPayload(state.epoch, iteration, nonce, ciphertext)
+    );
+
+    // Saved before the message leaves, so a reload never reuses a message key
+    await this.saveOwn(chatId);
+
+    return {
+      epoch: state.epoch,
+      iteration,
+      nonce: encodeBase64(nonce),
+      ciphertext: encodeBase64(ciphertext),
+      signature: encodeBase64(signature)
+    };
+  }
+
+  /**
+   * Decrypt a member's message with their sender key for its epoch
+   */
+  async decrypt(
+    chatId: string,
+    senderId: string,
+    message: GroupCiphertext
+  ): Promise<Uint8Array> {
+    const state = this.memberKeys
+      .get(this.memberKey(chatId, senderId))
+      ?.find(s => s.epoch === message.epoch);
+    if (!state) {
+      throw new MissingSenderKeyError(chatId, senderId, message.epoch);
+    }
+
+    const nonce = decodeBase64(message.nonce);
+    const ciphertext = decodeBase64(message.ciphertext);
+    const isValid = verify(
+      state.signingPublicKey,
+      this.signedPayload(message.epoch, message.iteration, nonce, ciphertext),
+      decodeBase64(message.signature)
+    );
+    if (!isValid) {
+      throw new Error('Invalid sender key signature');
+    }
+
+    const messageKey = this.messageKeyFor(state, message.iteration);
+    const plaintext = openSecretBox(messageKey, nonce, ciphertext);
+    wipe(messageKey);
+    await this.saveMember(chatId, senderId);
+
+    if (!plaintext) {
+      throw new Error('Failed to decrypt group message');
+    }
+    return plaintext;
+  }
+
+  /**
+   * Find the message key for an iteration, ratcheting forward and keeping
+   * the keys skipped on the way for messages that arrive late
+   */
+  private messageKeyFor(state: SenderKeyState, iteration: number): Uint8Array {
+    if (iteration < state.iteration) {
+      const skipped = state.skippedKeys.get(iteration);
+      if (!skipped) {
+        throw new Error('Message key already used or too old');
+      }
+      state.skippedKeys.delete(iteration);
+      return skipped;
+    }
+
+    if (iteration - state.iteration > MAX_SKIPPED_KEYS) {
+      throw new Error('Too many skipped messages');
+    }
+
+    while (state.iteration < iteration) {
+      state.skippedKeys.set(state.iteration, this.advance(state));
+    }
+    while (state.skippedKeys.size > MAX_SKIPPED_KEYS) {
+      const oldest = state.skippedKeys.keys().next().value as number;
+      wipe(state.skippedKeys.get(oldest)!);
+      state.skippedKeys.delete(oldest);
+    }
+
+    return this.advance(state);
+  }
+
+  /**
+   * Derive the current message key and move the chain forward; the old
+   * chain key is wiped so earlier messages can't be recovered from it
+   */
+  private advance(state: SenderKeyState): Uint8Array {
+    const messageKey = hmac(SHA256, state.chainKey, MESSAGE_KEY_SEED);
+    const nextChainKey = hmac(SHA256, state.chainKey, CHAIN_KEY_SEED);
+    wipe(state.chainKey);
+    state.chainKey = nextChainKey;
+    state.iteration++;
+    return messageKey;
+  }
+
+  private signedPayload(
+    epoch: number,
+    iteration: number,
+    nonce: Uint8Array,
+    ciphertext: Uint8Array
+  ): Uint8Array {
+    const header = new TextEncoder().encode(`${epoch}:${iteration}:`);
+    const payload = new Uint8Array(header.length + nonce.length + ciphertext.length);
+    payload.set(header, 0);
+    payload.set(nonce, header.length);
+    payload.set(ciphertext, header.length + nonce.length);
+    return payload;
+  }
+
+  private wipeState(state: SenderKeyState): void {
+    wipe(state.chainKey);
+    if (state.signingSecretKey) wipe(state.signingSecretKey);
+    state.skippedKeys.forEach(key => wipe(key));
+    state.skippedKeys.clear();
+  }
+
+  private memberKey(chatId: string, userId: string): string {
+    return `${chatId}:${userId}`;
+  }
+
+  private storeId(kind: 'own' | 'member', chatId: string, userId?: string): string {
+    return [kind, chatId, ...(userId ? [userId] : [])].join('\u0000');
+  }
+
+  private async saveOwn(chatId: string): Promise<void> {
+    const state = this.ownKeys.get(chatId);
+    if (!state) return;
+    await this.store.save(this.storeId('own', chatId), {
+      members: this.members.get(chatId),
+      states: [toStored(state)]
+    });
+  }
+
+  private async saveMember(chatId: string, userId: string): Promise<void> {
+    const states = this.memberKeys.get(this.memberKey(chatId, userId));
+    if (!states) return;
+    await this.store.save(this.storeId('member', chatId, userId), {
+      states: states.map(toStored)
+    });
+  }
+}
+
+function toStored(state: SenderKeyState): StoredSenderKey {
+  return {
+    epoch: state.epoch,
+    chainKey: encodeBase64(state.chainKey),
+    iteration: state.iteration,
+    signingPublicKey: encodeBase64(state.signingPublicKey),
+    signingSecretKey: state.signingSecretKey && encodeBase64(state.signingSecretKey),
+    skippedKeys: Array.from(state.skippedKeys, ([iteration, key]) => [iteration, encodeBase64(key)])
+  };
+}
+
+function fromStored(stored: StoredSenderKey): SenderKeyState {
+  return {
+    epoch: stored.epoch,
+    chainKey: decodeBase64(stored.chainKey),
+    iteration: stored.iteration,
+    signingPublicKey: decodeBase64(stored.signingPublicKey),
+    signingSecretKey: stored.signingSecretKey ? decodeBase64(stored.signingSecretKey) : undefined,
+    skippedKeys: new Map(stored.skippedKeys.map(([iteration, key]) => [iteration, decodeBase64(key)]))
+  };
+}
+
+// Create group encryption service instance
+export const groupEncryption = new GroupEncryptionService(
+  encryption,
+  browser ? new IndexedDbSenderKeyStore() : new MemorySenderKeyStore()
+);
@@ -1,7 +1,19 @@
-import { writable, derived } from 'svelte/store';
+import { writable, derived, get } from 'svelte/store';
 import { supabase } from '$lib/supabase';
 import { api } from '$lib/services/api';
-import { encryption } from './encryptionService';
+import { user } from '$lib/services/auth';
+import {
+  encryption,
+  IdentityChangedError,
+  type KeyBundle,
+  type OneTimePreKey
+} from './encryptionService';
+import {
+  groupEncryption,
+  MissingSenderKeyError,
+  type GroupMember,
+  type SenderKeyEnvelope
+} from './groupEncryptionService';
 import { voice } from './voiceService';
 import type {
   Message,
@@ -15,6 +27,20 @@ import type {
   ChatInvite
 } from '$lib/types/messaging';
 
+interface PendingSenderKey {
+  senderId: string;
+  senderIdentityKey: string;
+  envelope: SenderKeyEnvelope;
+}
+
+// Membership changes that invalidate the chat's sender keys
+const MEMBERSHIP_EVENTS: ChatEvent['type'][] = [
+  'member_joined',
+  'member_left',
+  'member_added',
+  'member_removed'
+];
+
 interface MessagingState {
   chats: Record<string, Chat>;
   messages: Record<string, Record<string, Message>>;
@@ -24,6 +50,8 @@ interface MessagingState {
   reactions: Record<string, MessageReaction[]>;
   events: Record<string, ChatEvent[]>;
   analytics: Record<string, ChatAnalytics>;
+  // New identity keys from known users, refused until the user accepts them
+  identityChanges: Record<string, string>;
   activeChat: string | null;
   loading: boolean;
   error: string | null;
@@ -39,6 +67,7 @@ class MessagingService {
     reactions: {},
     events: {},
     analytics: {},
+    identityChanges: {},
     activeChat: null,
     loading: false,
     error: null
@@ -58,6 +87,12 @@ class MessagingService {
     this.store.update(state => ({ ...state, loading: true }));
 
     try {
+      // Sender keys from earlier sessions, so existing chats still decrypt
+      await groupEncryption.load();
+
+      // Keep enough one-time prekeys on the server for new sessions
+      await this.replenishPreKeys();
+
       // Get user's chats
       const { data: chats } = await api.get<Chat[]>('/chats');
       
@@ -106,6 +141,7 @@ class MessagingService {
         if (chat.settings.encryption) {
           const keyBundle = await encryption.getKeyBundle();
           await api.post(`/chats/${chat.id}/keys`, { keyBundle });
+          await this.rekeyChat(chat);
         }
 
         // Subscribe to updates
@@ -137,25 +173,30 @@ class MessagingService {
     replyTo?: string;
   }): Promise<Message | null> {
     try {
-      const chat = this.store.chats[chatId];
+      const chat = this.getChat(chatId);
       if (!chat) throw new Error('Chat not found');
 
       // Prepare message
-      let messageData = { ...data };
+      let messageData: typeof data & { metadata?: Message['metadata'] } = { ...data };
 
-      // Handle encryption
+      // Handle encryption: one sender key ciphertext for the whole group
       if (chat.settings.encryption) {
-        const encryptedContent = await encryption.encryptMessage(
-          chat.metadata.groupKey || chat.participants[0].userId,
+        if (groupEncryption.needsRekey(chatId, this.memberIds(chat))) {
+          await this.rekeyChat(chat);
+        }
+
+        const encrypted = await groupEncryption.encrypt(
+          chatId,
           JSON.stringify(data.content)
         );
 
-        messageData.content = {
-          ...data.content,
-          metadata: {
-            encryptedKey: encryptedContent.body,
-            type: encryptedContent.type
-          }
+        messageData.content = {};
+        messageData.metadata = {
+          encryptedKey: encrypted.ciphertext,
+          iv: encrypted.nonce,
+          signature: encrypted.signature,
+          epoch: encrypted.epoch,
+          iteration: encrypted.iteration
         };
       }
 
@@ -200,25 +241,14 @@ class MessagingService {
       );
 
       if (messages) {
-        // Decrypt messages if needed
-        const chat = this.store.chats[chatId];
+        // Decrypt messages if needed, one at a time so missing sender keys are fetched once
+        const chat = this.getChat(chatId);
         if (chat?.settings.encryption) {
-          await Promise.all(
-            messages.map(async message => {
-              if (message.metadata.encryptedKey) {
-                const decrypted = await encryption.decryptMessage(
-                  message.senderId,
-                  {
-                    type: message.metadata.type,
-                    body: message.metadata.encryptedKey
-                  }
-                );
-                message.content = JSON.parse(
-                  new TextDecoder().decode(decrypted)
-                );
-              }
-            })
-          );
+          for (const message of messages) {
+            if (message.metadata.encryptedKey) {
+              message.content = await this.decryptContent(message);
+            }
+          }
         }
 
         this.store.update(state => ({
@@ -298,18 +328,9 @@ class MessagingService {
     const { new: message, old: oldMessage, eventType } = payload;
 
     // Decrypt message if needed
-    const chat = this.store.chats[message.chatId];
+    const chat = this.getChat(message.chatId);
     if (chat?.settings.encryption && message.metadata?.encryptedKey) {
-      const decrypted = await encryption.decryptMessage(
-        message.senderId,
-        {
-          type: message.metadata.type,
-          body: message.metadata.encryptedKey
-        }
-      );
-      message.content = JSON.parse(
-        new TextDecoder().decode(decrypted)
-      );
+      message.content = await this.decryptContent(message);
     }
 
     this.store.update(state => {
@@ -349,6 +370,10 @@ class MessagingService {
   private handleEventChange(payload: any): void {
     const { new: event, eventType } = payload;
 
+    if (eventType === 'INSERT' && MEMBERSHIP_EVENTS.includes(event.type)) {
+      this.handleMembershipChange(event);
+    }
+
     this.store.update(state => {
       const chatEvents = state.events[event.chatId] || [];
 
@@ -401,6 +426,253 @@ class MessagingService {
     });
   }
 
+  /**
+   * Add a member to a chat. Encrypted chats rekey so the new member can't
+   * read earlier messages.
+   */
+  async addParticipant(chatId: string, userId: string): Promise<Chat | null> {
+    try {
+      const { data: chat } = await api.post<Chat>(
+        `/chats/${chatId}/participants`,
+        { userId }
+      );
+      if (!chat) return null;
+
+      this.setChat(chat);
+      if (chat.settings.encryption) {
+        await this.rekeyChat(chat);
+      }
+      return chat;
+    } catch (error) {
+      console.error('Failed to add participant:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a member from a chat. Encrypted chats rekey so the removed
+   * member can't read anything sent afterwards.
+   */
+  async removeParticipant(chatId: string, userId: string): Promise<Chat | null> {
+    try {
+      const { data: chat } = await api.delete<Chat>(
+        `/chats/${chatId}/participants/${userId}`
+      );
+      if (!chat) return null;
+
+      this.setChat(chat);
+      if (chat.settings.encryption) {
+        await groupEncryption.forgetMember(chatId, userId);
+        await this.rekeyChat(chat);
+      }
+      return chat;
+    } catch (error) {
+      console.error('Failed to remove participant:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the safety number to compare with another user out of band
+   */
+  async getSafetyNumber(userId: string): Promise<string> {
+    await this.ensureSessions([userId]);
+    return encryption.getSafetyNumber(this.currentUserId(), userId);
+  }
+
+  /**
+   * Mark another user verified if their safety number matches ours
+   */
+  async verifySafetyNumber(userId: string, safetyNumber: string): Promise<boolean> {
+    await this.ensureSessions([userId]);
+    return encryption.verifySafetyNumber(this.currentUserId(), userId, safetyNumber);
+  }
+
+  /**
+   * Trust a user's new identity key after they confirmed the change, e.g.
+   * by comparing safety numbers in person. Their sender keys are fetched
+   * again the next time one of their messages fails to decrypt.
+   */
+  acceptIdentityChange(userId: string): void {
+    const identityKey = get(this.store).identityChanges[userId];
+    if (!identityKey) return;
+
+    encryption.acceptIdentityChange(userId, identityKey);
+    this.store.update(state => {
+      const { [userId]: _, ...identityChanges } = state.identityChanges;
+      return { ...state, identityChanges };
+    });
+  }
+
+  private reportIdentityChange(error: IdentityChangedError): void {
+    this.store.update(state => ({
+      ...state,
+      identityChanges: {
+        ...state.identityChanges,
+        [error.userId]: error.identityKey
+      }
+    }));
+  }
+
+  /**
+   * Start a new sender key epoch for a chat and send it to every other member
+   */
+  private async rekeyChat(chat: Chat): Promise<void> {
+    const currentUserId = this.currentUserId();
+    const recipients = await this.ensureSessions(
+      this.memberIds(chat).filter(id => id !== currentUserId)
+    );
+
+    const { epoch, envelopes } = await groupEncryption.rekey(
+      chat.id,
+      currentUserId,
+      recipients
+    );
+
+    await api.post(`/chats/${chat.id}/sender-keys`, {
+      epoch,
+      senderIdentityKey: encryption.getIdentityKey(),
+      envelopes
+    });
+  }
+
+  /**
+   * Fetch and install sender keys other members have sent us
+   */
+  private async syncSenderKeys(chatId: string): Promise<void> {
+    const { data: pending } = await api.get<PendingSenderKey[]>(
+      `/chats/${chatId}/sender-keys`
+    );
+
+    for (const { senderId, senderIdentityKey, envelope } of pending ?? []) {
+      try {
+        if (encryption.trustIdentity(senderId, senderIdentityKey) === 'changed') {
+          throw new IdentityChangedError(senderId, senderIdentityKey);
+        }
+        await groupEncryption.processDistribution(
+          chatId,
+          senderId,
+          senderIdentityKey,
+          envelope
+        );
+      } catch (error) {
+        if (error instanceof IdentityChangedError) {
+          this.reportIdentityChange(error);
+        }
+        console.error(`Failed to process sender key from ${senderId}:`, error);
+      }
+    }
+
+    // Sessions started by other members consume our one-time prekeys
+    await this.replenishPreKeys();
+  }
+
+  /**
+   * Decrypt a message's content, fetching the sender's key if we don't
+   * have it yet
+   */
+  private async decryptContent(message: Message): Promise<Message['content']> {
+    const ciphertext = {
+      epoch: message.metadata.epoch ?? 0,
+      iteration: message.metadata.iteration ?? 0,
+      nonce: message.metadata.iv!,
+      ciphertext: message.metadata.encryptedKey!,
+      signature: message.metadata.signature!
+    };
+
+    let decrypted: Uint8Array;
+    try {
+      decrypted = await groupEncryption.decrypt(message.chatId, message.senderId, ciphertext);
+    } catch (error) {
+      if (!(error instanceof MissingSenderKeyError)) throw error;
+      await this.syncSenderKeys(message.chatId);
+      decrypted = await groupEncryption.decrypt(message.chatId, message.senderId, ciphertext);
+    }
+
+    return JSON.parse(new TextDecoder().decode(decrypted));
+  }
+
+  /**
+   * Make sure we have a pairwise session with each user, claiming one of
+   * their one-time prekeys for any new session
+   */
+  private async ensureSessions(userIds: string[]): Promise<GroupMember[]> {
+    return Promise.all(
+      userIds.map(async userId => {
+        const known = encryption.getTrustedIdentity(userId);
+        if (known) return { userId, identityKey: known };
+
+        const { data: bundle } = await api.get<KeyBundle>(`/users/${userId}/keys`);
+        if (!bundle) throw new Error(`No key bundle for user ${userId}`);
+
+        await encryption.establishSession(bundle, userId);
+        return { userId, identityKey: bundle.identityKey };
+      })
+    );
+  }
+
+  /**
+   * Upload fresh one-time prekeys if the server is running low
+   */
+  private async replenishPreKeys(): Promise<void> {
+    try {
+      const { data } = await api.get<{ count: number }>('/keys/prekeys/count');
+      const preKeys: OneTimePreKey[] = await encryption.replenishPreKeys(data?.count ?? 0);
+      if (preKeys.length) {
+        await api.post('/keys/prekeys', { oneTimePreKeys: preKeys });
+      }
+    } catch (error) {
+      console.error('Failed to replenish prekeys:', error);
+    }
+  }
+
+  /**
+   * Rekey an encrypted chat after another member changed its membership
+   */
+  private async handleMembershipChange(event: ChatEvent): Promise<void> {
+    try {
+      if (!this.getChat(event.chatId)?.settings.encryption) return;
+
+      if (event.type === 'member_left' || event.type === 'member_removed') {
+        await groupEncryption.forgetMember(event.chatId, event.userId);
+      }
+
+      const { data: chat } = await api.get<Chat>(`/chats/${event.chatId}`);
+      if (!chat) return;
+
+      this.setChat(chat);
+      if (groupEncryption.needsRekey(chat.id, this.memberIds(chat))) {
+        await this.rekeyChat(chat);
+      }
+    } catch (error) {
+      console.error('Failed to rekey chat after membership change:', error);
+    }
+  }
+
+  private getChat(chatId: string): Chat | undefined {
+    return get(this.store).chats[chatId];
+  }
+
+  private setChat(chat: Chat): void {
+    this.store.update(state => ({
+      ...state,
+      chats: {
+        ...state.chats,
+        [chat.id]: chat
+      }
+    }));
+  }
+
+  private memberIds(chat: Chat): string[] {
+    return chat.participants.map(p => p.userId);
+  }
+
+  private currentUserId(): string {
+    const currentUser = get(user);
+    if (!currentUser) throw new Error('No user logged in');
+    return currentUser.id;
+  }
+
   /**
    * Clean up subscriptions
    */
@@ -417,6 +689,7 @@ class MessagingService {
   chats = derived(this.store, $store => $store.chats);
   messages = derived(this.store, $store => $store.messages);
   activeChat = derived(this.store, $store => $store.activeChat);
+  identityChanges = derived(this.store, $store => $store.identityChanges);
   loading = derived(this.store, $store => $store.loading);
   error = derived(this.store, $store => $store.error);
 }
@@ -0,0 +1,96 @@
+const DATABASE_NAME = 'lens-messaging';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'senderKeys';
+
+/**
+ * One sender key epoch, with key material as base64
+ */
+export interface StoredSenderKey {
+  epoch: number;
+  chainKey: string;
+  iteration: number;
+  signingPublicKey: string;
+  // Only present for our own sender keys
+  signingSecretKey?: string;
+  skippedKeys: Array<[number, string]>;
+}
+
+export interface StoredSenderKeys {
+  // Chat members our own key was distributed to
+  members?: string[];
+  // Newest epoch first
+  states: StoredSenderKey[];
+}
+
+/**
+ * Where sender key ratchets are kept between sessions. Chain keys move
+ * forward with every message, so implementations must save in place
+ * rather than append.
+ */
+export interface SenderKeyStore {
+  load(): Promise<Map<string, StoredSenderKeys>>;
+  save(id: string, keys: StoredSenderKeys): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export class MemorySenderKeyStore implements SenderKeyStore {
+  private keys = new Map<string, StoredSenderKeys>();
+
+  async load() {
+    return new Map(Array.from(this.keys, ([id, keys]) => [id, structuredClone(keys)]));
+  }
+
+  async save(id: string, keys: StoredSenderKeys) {
+    this.keys.set(id, structuredClone(keys));
+  }
+
+  async delete(id: string) {
+    this.keys.delete(id);
+  }
+}
+
+/**
+ * Sender keys in the browser's IndexedDB, so encrypted chats survive a
+ * reload. They never leave the device.
+ */
+export class IndexedDbSenderKeyStore implements SenderKeyStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async load(): Promise<Map<string, StoredSenderKeys>> {
+    const store = await this.objectStore('readonly');
+    const [ids, values] = await Promise.all([
+      request(store.getAllKeys()),
+      request<StoredSenderKeys[]>(store.getAll())
+    ]);
+    return new Map(ids.map((id, i) => [String(id), values[i]!]));
+  }
+
+  async save(id: string, keys: StoredSenderKeys): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await request(store.put(keys, id));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await request(store.delete(id));
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this.database ??= new Promise((resolve, reject) => {
+      const open = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      open.onupgradeneeded = () => open.result.createObjectStore(STORE_NAME);
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+
+    const database = await this.database;
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
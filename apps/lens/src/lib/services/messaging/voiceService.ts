@@ -2,6 +2,7 @@ import { writable, derived } from 'svelte/store';
 import type { VoiceRecording, VoiceTranscriptionResult } from '$lib/types/messaging';
 import { api } from '$lib/services/api';
 import { supabase } from '$lib/supabase';
+import { encryption } from './encryptionService';
 
 interface VoiceState {
   recordings: Record<string, VoiceRecording>;
@@ -84,9 +85,11 @@ class VoiceService {
   }
 
   /**
-   * Stop recording and process voice message
+   * Stop recording and process voice message. Recordings for encrypted
+   * chats are encrypted before upload and skip server-side transcription;
+   * the key is returned on the recording for sending inside the message.
    */
-  async stopRecording(): Promise<VoiceRecording | null> {
+  async stopRecording(options: { encrypt?: boolean } = {}): Promise<VoiceRecording | null> {
     return new Promise((resolve) => {
       if (!this.mediaRecorder || !this.store.activeRecording) {
         resolve(null);
@@ -98,10 +101,24 @@ class VoiceService {
           // Create audio blob
           const audioBlob = new Blob(this.chunks, { type: 'audio/webm;codecs=opus' });
           
+          // Encrypt for end-to-end encrypted chats
+          let uploadBlob = audioBlob;
+          let key: VoiceRecording['encryption'];
+          if (options.encrypt) {
+            const encrypted = await encryption.encryptAttachment(
+              new Uint8Array(await audioBlob.arrayBuffer())
+            );
+            uploadBlob = new Blob([encrypted.ciphertext], { type: 'application/octet-stream' });
+            key = encrypted.key;
+          }
+
           // Upload to storage
           const { data: upload, error: uploadError } = await supabase.storage
             .from('voice-messages')
-            .upload(`${this.store.activeRecording}.webm`, audioBlob);
+            .upload(
+              `${this.store.activeRecording}.${key ? 'bin' : 'webm'}`,
+              uploadBlob
+            );
 
           if (uploadError) throw uploadError;
 
@@ -116,11 +133,14 @@ class VoiceService {
             url: publicUrl,
             duration: this.getDuration(audioBlob),
             waveform: this.waveformData,
-            status: 'processing'
+            encryption: key,
+            status: key ? 'ready' : 'processing'
           };
 
-          // Start transcription
-          this.transcribeRecording(recording);
+          // Start transcription; the server can't read encrypted audio
+          if (!key) {
+            this.transcribeRecording(recording);
+          }
 
           // Update store
           this.store.update(state => ({
@@ -175,6 +195,24 @@ class VoiceService {
     }));
   }
 
+  /**
+   * Download and decrypt an encrypted voice message, returning a playable URL
+   */
+  async decryptRecording(recording: VoiceRecording): Promise<string> {
+    if (!recording.encryption) return recording.url;
+
+    const response = await fetch(recording.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download voice message: ${response.status}`);
+    }
+
+    const audio = await encryption.decryptAttachment(
+      new Uint8Array(await response.arrayBuffer()),
+      recording.encryption
+    );
+    return URL.createObjectURL(new Blob([audio], { type: 'audio/webm;codecs=opus' }));
+  }
+
   /**
    * Transcribe voice recording
    */
@@ -48,11 +48,14 @@ export interface Message {
     };
     reactionType?: string;
     replyTo?: string;
+    attachment?: AttachmentKey;
   };
   metadata: {
     encryptedKey?: string;
     iv?: string;
     signature?: string;
+    epoch?: number;
+    iteration?: number;
   };
   status: MessageStatus;
   reactions?: Array<{
@@ -103,9 +106,17 @@ export interface VoiceRecording {
   duration: number;
   waveform: number[];
   transcription?: string;
+  encryption?: AttachmentKey;
   status: 'recording' | 'processing' | 'ready' | 'failed';
 }
 
+// Key for an encrypted attachment, sent inside the encrypted message
+export interface AttachmentKey {
+  key: string;
+  nonce: string;
+  digest: string;
+}
+
 export interface MessageDraft {
   id: string;
   chatId: string;
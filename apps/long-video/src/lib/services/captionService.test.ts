@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CaptionService, CaptionValidationError } from './captionService';
+import { parseCaptions } from '$lib/utils/captions';
+
+// Just enough of the Supabase query builder for caption rows
+const db = vi.hoisted(() => {
+  const tables = new Map<string, Record<string, unknown>[]>();
+
+  const query = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let orderBy: string | undefined;
+    const rows = () =>
+      (tables.get(table) ?? [])
+        .filter(row => filters.every(([column, value]) => row[column] === value))
+        .sort((a, b) => (orderBy ? Number(a[orderBy]) - Number(b[orderBy]) : 0));
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      order: (column: string) => {
+        orderBy = column;
+        return builder;
+      },
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: unknown; error: null }) => unknown) => resolve({ data: rows(), error: null })
+    };
+    return builder;
+  };
+
+  return {
+    tables,
+    supabase: {
+      from: (table: string) => ({
+        ...query(table),
+        insert: async (rows: Record<string, unknown>[]) => {
+          const existing = tables.get(table) ?? [];
+          tables.set(table, [...existing, ...rows.map((row, index) => ({ id: `${table}-${existing.length + index}`, ...row }))]);
+          return { error: null };
+        },
+        upsert: async (row: Record<string, unknown>) => {
+          const rest = (tables.get(table) ?? [])
+            .filter(other => other.video_id !== row.video_id || other.language !== row.language);
+          tables.set(table, [...rest, row]);
+          return { error: null };
+        }
+      })
+    }
+  };
+});
+
+vi.mock('$lib/supabase', () => ({ supabase: db.supabase }));
+
+const WEBVTT = `WEBVTT
+
+REGION
+id:left
+width:40%
+lines:2
+
+STYLE
+::cue { color: white; }
+
+00:00:01.000 --> 00:00:03.000 align:start region:left
+<v Ada><b>First</b></v>
+
+00:00:03.500 --> 00:00:05.000 line:10%
+Second
+`;
+
+const file = (content: string, name: string) => new File([content], name);
+
+describe('CaptionService', () => {
+  let service: CaptionService;
+
+  beforeEach(() => {
+    db.tables.clear();
+    service = new CaptionService('video-1', 'bafy-video');
+  });
+
+  it('keeps cue settings, speakers, regions and styles from import to export', async () => {
+    const { imported, issues } = await service.importCaptions(file(WEBVTT, 'captions.vtt'), 'en');
+
+    expect(imported).toBe(2);
+    expect(issues.every(issue => issue.severity === 'warning')).toBe(true);
+    expect(db.tables.get('captions')?.[0]).toMatchObject({
+      speaker: 'Ada',
+      settings: { align: 'start', region: 'left' },
+      style: { fontWeight: 'bold' }
+    });
+
+    const original = parseCaptions(WEBVTT);
+    const exported = parseCaptions(await service.exportCaptions('en', 'webvtt'));
+    expect(exported.regions).toEqual(original.regions);
+    expect(exported.styles).toEqual(original.styles);
+    expect(exported.cues.map(({ id, ...cue }) => cue)).toEqual(original.cues);
+  });
+
+  it('leaves earlier regions and styles in place when a file has none', async () => {
+    await service.importCaptions(file(WEBVTT, 'captions.vtt'), 'en');
+    await service.importCaptions(file('1\n00:00:06,000 --> 00:00:08,000\nThird\n', 'more.srt'), 'en');
+
+    const track = await service.getTrack('en');
+    expect(track.cues.map(cue => cue.text)).toEqual(['First', 'Second', 'Third']);
+    expect(track.regions.map(region => region.id)).toEqual(['left']);
+    expect(track.styles).toHaveLength(1);
+  });
+
+  it('rejects files with timing errors in strict mode and reports them otherwise', async () => {
+    const overlapping = 'WEBVTT\n\n00:00:01.000 --> 00:00:04.000\nOne\n\n00:00:02.000 --> 00:00:05.000\nTwo\n';
+
+    await expect(service.importCaptions(file(overlapping, 'bad.vtt'), 'en')).rejects.toBeInstanceOf(CaptionValidationError);
+    expect(db.tables.get('captions')).toBeUndefined();
+
+    const { imported, issues } = await service.importCaptions(file(overlapping, 'bad.vtt'), 'en', { strict: false });
+    expect(imported).toBe(2);
+    expect(issues).toContainEqual(expect.objectContaining({ type: 'overlap', severity: 'error' }));
+  });
+});
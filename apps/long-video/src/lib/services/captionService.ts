@@ -1,5 +1,22 @@
 import { supabase } from '$lib/supabase';
 import type { Caption } from '$lib/types';
+import {
+  detectCaptionFormat,
+  emptyTrack,
+  generateCaptions,
+  lintCaptions,
+  parseCaptions,
+  segmentForHls,
+  subtitleMediaTag,
+  type CaptionCue,
+  type CaptionFormat,
+  type CaptionIssue,
+  type CaptionLintOptions,
+  type CaptionTrack,
+  type HlsSegmentOptions
+} from '$lib/utils/captions';
+
+const CAPTION_BUCKET = 'captions';
 
 interface TranscriptionResult {
   text: string;
@@ -8,10 +25,26 @@ interface TranscriptionResult {
   confidence: number;
 }
 
-interface CaptionSegment {
-  text: string;
-  startTime: number;
-  endTime: number;
+export interface ImportCaptionsResult {
+  imported: number;
+  // Readability warnings, plus timing errors when not in strict mode
+  issues: CaptionIssue[];
+}
+
+interface ImportCaptionsOptions {
+  // Detected from the file when omitted
+  format?: CaptionFormat;
+  // Reject files with timing errors such as overlapping or inverted cues
+  strict?: boolean;
+  lint?: CaptionLintOptions;
+}
+
+export class CaptionValidationError extends Error {
+  constructor(public issues: CaptionIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(`Caption file has ${errors.length} error${errors.length === 1 ? '' : 's'}: ${errors[0]?.message}`);
+    this.name = 'CaptionValidationError';
+  }
 }
 
 export class CaptionService {
@@ -113,22 +146,41 @@ export class CaptionService {
   }
 
   /**
-   * Import captions from SRT file
+   * Import captions from an SRT, WebVTT or TTML file. In strict mode
+   * (the default) files with timing errors are rejected; readability
+   * warnings are always returned alongside the import count. WebVTT
+   * regions and STYLE blocks are kept with the track.
    */
-  async importCaptions(file: File, language: string) {
+  async importCaptions(
+    file: File,
+    language: string,
+    options: ImportCaptionsOptions = {}
+  ): Promise<ImportCaptionsResult> {
     try {
+      const { strict = true } = options;
       const text = await file.text();
-      const segments = this.parseSRT(text);
+      const format = options.format ?? detectCaptionFormat(text, file.name);
+      const track = parseCaptions(text, format);
+
+      const issues = lintCaptions(track.cues, options.lint);
+      if (strict && issues.some(issue => issue.severity === 'error')) {
+        throw new CaptionValidationError(issues);
+      }
+
+      const cues = [...track.cues].sort((a, b) => a.startTime - b.startTime);
 
       // Create captions in batches
       const batchSize = 100;
-      for (let i = 0; i < segments.length; i += batchSize) {
-        const batch = segments.slice(i, i + batchSize).map(segment => ({
+      for (let i = 0; i < cues.length; i += batchSize) {
+        const batch = cues.slice(i, i + batchSize).map(cue => ({
           video_id: this.videoId,
           language,
-          text: segment.text,
-          start_time: segment.startTime,
-          end_time: segment.endTime,
+          text: cue.text,
+          start_time: cue.startTime,
+          end_time: cue.endTime,
+          speaker: cue.speaker ?? null,
+          settings: cue.settings ?? null,
+          style: cue.style ?? null,
           is_auto_generated: false
         }));
 
@@ -139,7 +191,21 @@ export class CaptionService {
         if (error) throw error;
       }
 
-      return segments.length;
+      // Files without regions or styles leave those of earlier imports in place
+      if (track.regions.length || track.styles.length) {
+        const { error } = await supabase
+          .from('caption_tracks')
+          .upsert({
+            video_id: this.videoId,
+            language,
+            regions: track.regions,
+            styles: track.styles
+          });
+
+        if (error) throw error;
+      }
+
+      return { imported: cues.length, issues };
     } catch (error) {
       console.error('Failed to import captions:', error);
       throw error;
@@ -147,74 +213,114 @@ export class CaptionService {
   }
 
   /**
-   * Export captions to SRT format
+   * Export captions as SRT, WebVTT or TTML
    */
-  async exportCaptions(language: string): Promise<string> {
-    const captions = await this.getCaptions(language);
-    return this.generateSRT(captions);
+  async exportCaptions(language: string, format: CaptionFormat = 'srt'): Promise<string> {
+    return generateCaptions(await this.getTrack(language), format);
   }
 
   /**
-   * Parse SRT file content
+   * Check stored captions against timing and readability guidelines
    */
-  private parseSRT(content: string): CaptionSegment[] {
-    const segments: CaptionSegment[] = [];
-    const blocks = content.trim().split('\n\n');
+  async validateCaptions(language: string, options?: CaptionLintOptions): Promise<CaptionIssue[]> {
+    return lintCaptions(await this.getCues(language), options);
+  }
 
-    for (const block of blocks) {
-      const lines = block.split('\n');
-      if (lines.length < 3) continue;
+  /**
+   * Segment captions into WebVTT files with an HLS media playlist and
+   * upload them next to each other, so segment URIs resolve relative to
+   * the playlist
+   */
+  async publishHlsSubtitles(language: string, options: HlsSegmentOptions = {}) {
+    try {
+      const { data: video, error } = await supabase
+        .from('videos')
+        .select('duration')
+        .eq('id', this.videoId)
+        .single();
 
-      const times = lines[1].split(' --> ');
-      if (times.length !== 2) continue;
+      if (error) throw error;
 
-      const startTime = this.timeToSeconds(times[0]);
-      const endTime = this.timeToSeconds(times[1]);
-      const text = lines.slice(2).join('\n');
+      const { playlist, segments } = segmentForHls(
+        await this.getTrack(language),
+        { duration: video.duration ?? undefined, ...options }
+      );
 
-      segments.push({ text, startTime, endTime });
-    }
+      const directory = `${this.videoId}/${language}`;
+      for (const segment of segments) {
+        await this.uploadCaptionFile(`${directory}/${segment.uri}`, segment.content, 'text/vtt');
+      }
+      const playlistPath = `${directory}/playlist.m3u8`;
+      await this.uploadCaptionFile(playlistPath, playlist, 'application/vnd.apple.mpegurl');
 
-    return segments;
-  }
+      const { data } = supabase.storage.from(CAPTION_BUCKET).getPublicUrl(playlistPath);
 
-  /**
-   * Generate SRT content from captions
-   */
-  private generateSRT(captions: Caption[]): string {
-    return captions.map((caption, index) => {
-      const number = index + 1;
-      const timeRange = `${this.secondsToTime(caption.startTime)} --> ${this.secondsToTime(caption.endTime)}`;
-      return `${number}\n${timeRange}\n${caption.text}\n`;
-    }).join('\n');
+      return {
+        playlistUrl: data.publicUrl,
+        mediaTag: subtitleMediaTag({ uri: data.publicUrl, language }),
+        segmentCount: segments.length
+      };
+    } catch (error) {
+      console.error('Failed to publish HLS subtitles:', error);
+      throw error;
+    }
   }
 
   /**
-   * Convert SRT timestamp to seconds
+   * Load stored captions for a language as a track, with its WebVTT
+   * regions and styles
    */
-  private timeToSeconds(timeStr: string): number {
-    const [time, ms] = timeStr.split(',');
-    const [hours, minutes, seconds] = time.split(':').map(Number);
-    return hours * 3600 + minutes * 60 + seconds + Number(ms) / 1000;
+  async getTrack(language: string): Promise<CaptionTrack> {
+    const [cues, { data, error }] = await Promise.all([
+      this.getCues(language),
+      supabase
+        .from('caption_tracks')
+        .select('regions, styles')
+        .eq('video_id', this.videoId)
+        .eq('language', language)
+        .maybeSingle()
+    ]);
+
+    if (error) throw error;
+
+    return {
+      ...emptyTrack(language),
+      cues,
+      regions: data?.regions ?? [],
+      styles: data?.styles ?? []
+    };
   }
 
   /**
-   * Convert seconds to SRT timestamp
+   * Load stored captions as cues, in display order
    */
-  private secondsToTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 1000);
+  private async getCues(language: string): Promise<CaptionCue[]> {
+    const { data, error } = await supabase
+      .from('captions')
+      .select('*')
+      .eq('video_id', this.videoId)
+      .eq('language', language)
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
 
-    return `${this.padZero(hours)}:${this.padZero(minutes)}:${this.padZero(secs)},${this.padZero(ms, 3)}`;
+    return data.map(row => ({
+      id: row.id,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      text: row.text,
+      speaker: row.speaker ?? undefined,
+      settings: row.settings ?? undefined,
+      style: row.style ?? undefined
+    }));
   }
 
-  /**
-   * Pad number with leading zeros
-   */
-  private padZero(num: number, length: number = 2): string {
-    return num.toString().padStart(length, '0');
+  private async uploadCaptionFile(path: string, content: string, contentType: string) {
+    const { error } = await supabase.storage
+      .from(CAPTION_BUCKET)
+      .upload(path, new Blob([content], { type: contentType }), { contentType, upsert: true });
+
+    if (error) throw error;
   }
 }
 
@@ -0,0 +1,102 @@
+import { generateWebVTT } from './webvtt';
+import type { CaptionTrack } from './types';
+
+export interface HlsSegmentOptions {
+  // Length of the video in seconds; defaults to the end of the last cue
+  duration?: number;
+  segmentDuration?: number;
+  // MPEG-TS timestamp of the video's first frame, in 90kHz ticks
+  mpegtsOffset?: number;
+  // Prepended to segment file names in the playlist
+  uriPrefix?: string;
+}
+
+export interface HlsSubtitleSegment {
+  uri: string;
+  content: string;
+}
+
+export interface HlsSubtitles {
+  playlist: string;
+  segments: HlsSubtitleSegment[];
+}
+
+const DEFAULT_SEGMENT_DURATION = 6;
+// 10s, the usual start PTS for segments from ffmpeg and most packagers
+const DEFAULT_MPEGTS_OFFSET = 900000;
+
+/**
+ * Split a track into WebVTT segments and a VOD media playlist for HLS.
+ * Cues crossing a segment boundary are repeated in both segments, as the
+ * HLS spec requires; players drop the duplicate.
+ */
+export function segmentForHls(track: CaptionTrack, options: HlsSegmentOptions = {}): HlsSubtitles {
+  const {
+    segmentDuration = DEFAULT_SEGMENT_DURATION,
+    mpegtsOffset = DEFAULT_MPEGTS_OFFSET,
+    uriPrefix = ''
+  } = options;
+  const duration = options.duration ?? Math.max(0, ...track.cues.map(cue => cue.endTime));
+  const timestampMap = `X-TIMESTAMP-MAP=MPEGTS:${mpegtsOffset},LOCAL:00:00:00.000`;
+
+  const segments: HlsSubtitleSegment[] = [];
+  const durations: number[] = [];
+
+  for (let start = 0; start < duration; start += segmentDuration) {
+    const end = Math.min(start + segmentDuration, duration);
+    const cues = track.cues.filter(cue => cue.startTime < end && cue.endTime > start);
+
+    // Empty segments are still written so the playlist covers the whole video
+    segments.push({
+      uri: `${uriPrefix}segment${segments.length}.vtt`,
+      content: generateWebVTT({ ...track, cues }, [timestampMap])
+    });
+    durations.push(end - start);
+  }
+
+  const playlist = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${Math.ceil(Math.max(segmentDuration, ...durations))}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    ...segments.flatMap((segment, i) => [`#EXTINF:${durations[i].toFixed(3)},`, segment.uri]),
+    '#EXT-X-ENDLIST'
+  ].join('\n') + '\n';
+
+  return { playlist, segments };
+}
+
+export interface SubtitleMediaOptions {
+  uri: string;
+  language: string;
+  name?: string;
+  groupId?: string;
+  default?: boolean;
+  autoselect?: boolean;
+}
+
+/**
+ * The `#EXT-X-MEDIA` line advertising a subtitle playlist in a
+ * multivariant playlist
+ */
+export function subtitleMediaTag(options: SubtitleMediaOptions): string {
+  const {
+    uri,
+    language,
+    name = language,
+    groupId = 'subs',
+    autoselect = true
+  } = options;
+  const quote = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+  return '#EXT-X-MEDIA:' + [
+    'TYPE=SUBTITLES',
+    `GROUP-ID=${quote(groupId)}`,
+    `NAME=${quote(name)}`,
+    `LANGUAGE=${quote(language)}`,
+    `DEFAULT=${options.default ? 'YES' : 'NO'}`,
+    `AUTOSELECT=${autoselect || options.default ? 'YES' : 'NO'}`,
+    `URI=${quote(uri)}`
+  ].join(',');
+}
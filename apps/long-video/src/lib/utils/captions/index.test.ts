@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { detectCaptionFormat, generateCaptions, parseCaptions } from './index';
+
+const WEBVTT = `WEBVTT
+Language: en
+
+REGION
+id:speaker
+width:40%
+lines:3
+regionanchor:0%,100%
+viewportanchor:10%,90%
+scroll:up
+
+STYLE
+::cue(.loud) {
+  color: yellow;
+}
+
+intro
+00:00:01.000 --> 00:00:03.500 line:85% position:50% align:center region:speaker
+<v Ada><i>Hello &amp; welcome</i></v>
+
+00:00:04.000 --> 00:00:06.000 vertical:rl
+Second line
+of text
+`;
+
+describe('caption formats', () => {
+  it('round-trips WebVTT with regions, styles, settings and speakers', () => {
+    const track = parseCaptions(WEBVTT);
+
+    expect(track.language).toBe('en');
+    expect(track.regions).toEqual([
+      { id: 'speaker', width: '40%', lines: 3, regionAnchor: '0%,100%', viewportAnchor: '10%,90%', scroll: 'up' }
+    ]);
+    expect(track.styles).toEqual(['::cue(.loud) {\n  color: yellow;\n}']);
+    expect(track.cues[0]).toEqual({
+      id: 'intro',
+      startTime: 1,
+      endTime: 3.5,
+      text: 'Hello & welcome',
+      speaker: 'Ada',
+      style: { fontStyle: 'italic' },
+      settings: { line: '85%', position: '50%', align: 'center', region: 'speaker' }
+    });
+
+    const reparsed = parseCaptions(generateCaptions(track, 'webvtt'), 'webvtt');
+    expect(reparsed.cues).toEqual(track.cues);
+    expect(reparsed.regions).toEqual(track.regions);
+    expect(reparsed.styles).toEqual(track.styles);
+  });
+
+  it('round-trips text, timing and style through SRT', () => {
+    const track = parseCaptions(WEBVTT);
+    const srt = generateCaptions(track, 'srt');
+
+    expect(detectCaptionFormat(srt)).toBe('srt');
+    expect(parseCaptions(srt).cues).toEqual([
+      { id: '1', startTime: 1, endTime: 3.5, text: 'Ada: Hello & welcome', style: { fontStyle: 'italic' } },
+      { id: '2', startTime: 4, endTime: 6, text: 'Second line\nof text' }
+    ]);
+  });
+
+  it('round-trips regions, speakers and styles through TTML', () => {
+    const track = parseCaptions(WEBVTT);
+    const ttml = generateCaptions(track, 'ttml');
+
+    expect(detectCaptionFormat(ttml)).toBe('ttml');
+    const reparsed = parseCaptions(ttml);
+    expect(reparsed.cues.map(({ startTime, endTime, text, speaker, style }) => ({ startTime, endTime, text, speaker, style })))
+      .toEqual(track.cues.map(({ startTime, endTime, text, speaker, style }) => ({ startTime, endTime, text, speaker, style })));
+    expect(reparsed.cues[0].settings?.region).toBe('speaker');
+    expect(reparsed.regions.map(region => region.id)).toContain('speaker');
+  });
+});
@@ -0,0 +1,66 @@
+import { parseSRT, generateSRT } from './srt';
+import { parseTTML, generateTTML } from './ttml';
+import { parseWebVTT, generateWebVTT } from './webvtt';
+import type { CaptionFormat, CaptionTrack } from './types';
+
+export * from './types';
+export { parseSRT, generateSRT } from './srt';
+export { parseTTML, generateTTML, parseTTMLTime } from './ttml';
+export { parseWebVTT, generateWebVTT } from './webvtt';
+export { lintCaptions } from './lint';
+export type { CaptionIssue, CaptionIssueType, CaptionLintOptions } from './lint';
+export { segmentForHls, subtitleMediaTag } from './hls';
+export type { HlsSegmentOptions, HlsSubtitles, HlsSubtitleSegment, SubtitleMediaOptions } from './hls';
+
+const EXTENSIONS: Record<string, CaptionFormat> = {
+  srt: 'srt',
+  vtt: 'webvtt',
+  ttml: 'ttml',
+  dfxp: 'ttml',
+  xml: 'ttml'
+};
+
+export const CAPTION_MIME_TYPES: Record<CaptionFormat, string> = {
+  srt: 'application/x-subrip',
+  webvtt: 'text/vtt',
+  ttml: 'application/ttml+xml'
+};
+
+/**
+ * Work out a caption file's format from its content, falling back to the
+ * file extension
+ */
+export function detectCaptionFormat(content: string, fileName?: string): CaptionFormat {
+  const head = content.replace(/^\uFEFF/, '').trimStart().slice(0, 1024);
+
+  if (/^WEBVTT(\s|$)/.test(head)) return 'webvtt';
+  if (/^(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<(\w+:)?tt[\s>]/.test(head)) return 'ttml';
+  if (/^(\d+\s*\n)?\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(head.replace(/\r\n?/g, '\n'))) return 'srt';
+
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension && EXTENSIONS[extension]) return EXTENSIONS[extension];
+
+  throw new Error('Unrecognized caption format');
+}
+
+export function parseCaptions(content: string, format: CaptionFormat = detectCaptionFormat(content)): CaptionTrack {
+  switch (format) {
+    case 'srt':
+      return parseSRT(content);
+    case 'webvtt':
+      return parseWebVTT(content);
+    case 'ttml':
+      return parseTTML(content);
+  }
+}
+
+export function generateCaptions(track: CaptionTrack, format: CaptionFormat): string {
+  switch (format) {
+    case 'srt':
+      return generateSRT(track);
+    case 'webvtt':
+      return generateWebVTT(track);
+    case 'ttml':
+      return generateTTML(track);
+  }
+}
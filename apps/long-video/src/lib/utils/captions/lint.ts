@@ -0,0 +1,115 @@
+import type { CaptionCue } from './types';
+
+export type CaptionIssueType =
+  | 'empty'
+  | 'invalid_timing'
+  | 'out_of_order'
+  | 'overlap'
+  | 'too_short'
+  | 'too_long'
+  | 'reading_speed'
+  | 'line_length'
+  | 'too_many_lines';
+
+export interface CaptionIssue {
+  cueIndex: number;
+  type: CaptionIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CaptionLintOptions {
+  maxCharsPerSecond?: number;
+  maxLineLength?: number;
+  maxLines?: number;
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+// Common broadcast guidelines: 17 characters per second, two lines of 42
+const DEFAULT_LINT_OPTIONS: Required<CaptionLintOptions> = {
+  maxCharsPerSecond: 17,
+  maxLineLength: 42,
+  maxLines: 2,
+  minDuration: 5 / 6,
+  maxDuration: 7
+};
+
+/**
+ * Check cues for timing mistakes and readability problems. Broken timing
+ * is an error; readability guideline breaches are warnings, since some
+ * content (song lyrics, on-screen text) legitimately exceeds them.
+ */
+export function lintCaptions(cues: CaptionCue[], options: CaptionLintOptions = {}): CaptionIssue[] {
+  const limits = { ...DEFAULT_LINT_OPTIONS, ...options };
+  const issues: CaptionIssue[] = [];
+  const report = (cueIndex: number, type: CaptionIssueType, severity: CaptionIssue['severity'], message: string) => {
+    issues.push({ cueIndex, type, severity, message });
+  };
+
+  cues.forEach((cue, index) => {
+    const duration = cue.endTime - cue.startTime;
+    const text = cue.text.trim();
+
+    if (!text) {
+      report(index, 'empty', 'error', 'Cue has no text');
+    }
+
+    if (!Number.isFinite(duration) || cue.startTime < 0 || duration <= 0) {
+      report(index, 'invalid_timing', 'error', 'Cue must end after it starts');
+      return;
+    }
+
+    const previous = cues[index - 1];
+    if (previous) {
+      if (cue.startTime < previous.startTime) {
+        report(index, 'out_of_order', 'error', 'Cue starts before the previous cue');
+      } else if (cue.startTime < previous.endTime) {
+        // Overlaps are how simultaneous speakers are shown when cues are positioned apart
+        const positioned = !samePosition(cue, previous);
+        report(
+          index,
+          'overlap',
+          positioned ? 'warning' : 'error',
+          `Cue overlaps the previous cue by ${(previous.endTime - cue.startTime).toFixed(3)}s`
+        );
+      }
+    }
+
+    if (duration < limits.minDuration) {
+      report(index, 'too_short', 'warning', `Cue is shown for ${duration.toFixed(2)}s`);
+    } else if (duration > limits.maxDuration) {
+      report(index, 'too_long', 'warning', `Cue is shown for ${duration.toFixed(2)}s`);
+    }
+
+    const lines = text.split('\n');
+    const charsPerSecond = lines.join(' ').length / duration;
+    if (charsPerSecond > limits.maxCharsPerSecond) {
+      report(
+        index,
+        'reading_speed',
+        'warning',
+        `Reading speed is ${charsPerSecond.toFixed(1)} characters per second`
+      );
+    }
+
+    if (lines.length > limits.maxLines) {
+      report(index, 'too_many_lines', 'warning', `Cue has ${lines.length} lines`);
+    }
+
+    const longest = Math.max(...lines.map(line => line.length));
+    if (longest > limits.maxLineLength) {
+      report(index, 'line_length', 'warning', `Line is ${longest} characters long`);
+    }
+  });
+
+  return issues;
+}
+
+function samePosition(a: CaptionCue, b: CaptionCue): boolean {
+  return (
+    a.settings?.region === b.settings?.region &&
+    a.settings?.line === b.settings?.line &&
+    a.settings?.position === b.settings?.position
+  );
+}
@@ -0,0 +1,73 @@
+import type { CaptionStyle } from './types';
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': '\u00A0',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(?:#(\d+)|#x([0-9a-f]+)|\w+);/gi, (entity, dec, hex) => {
+    if (dec) return String.fromCodePoint(Number(dec));
+    if (hex) return String.fromCodePoint(parseInt(hex, 16));
+    return ENTITIES[entity.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Turn inline cue markup into plain text. Bold, italic and underline tags
+ * (and SRT font colours) wrapping the whole cue become its style; other
+ * tags are dropped.
+ */
+export function parseInlineMarkup(markup: string): { text: string; style?: CaptionStyle } {
+  const style: CaptionStyle = {};
+  let inner = markup.trim();
+
+  for (;;) {
+    const wrapped = inner.match(/^<(i|b|u|font)((?:\s[^>]*)?)>([\s\S]*)<\/\1>$/i);
+    // `<i>a</i> b <i>c</i>` starts and ends with a tag without wrapping the cue
+    if (!wrapped || new RegExp(`</${wrapped[1]}>`, 'i').test(wrapped[3])) break;
+
+    const [, tag, attrs, content] = wrapped;
+    switch (tag.toLowerCase()) {
+      case 'i':
+        style.fontStyle = 'italic';
+        break;
+      case 'b':
+        style.fontWeight = 'bold';
+        break;
+      case 'u':
+        style.textDecoration = 'underline';
+        break;
+      case 'font': {
+        const color = attrs.match(/color\s*=\s*["']?([^"'\s>]+)/i);
+        if (color) style.color = color[1];
+        break;
+      }
+    }
+    inner = content.trim();
+  }
+
+  const text = decodeEntities(inner.replace(/<[^>]*>/g, ''));
+  return Object.keys(style).length ? { text, style } : { text };
+}
+
+/**
+ * Wrap escaped cue text in the tags for its italic, bold and underline style
+ */
+export function applyInlineStyle(text: string, style?: CaptionStyle): string {
+  let markup = text;
+  if (style?.textDecoration === 'underline') markup = `<u>${markup}</u>`;
+  if (style?.fontWeight === 'bold') markup = `<b>${markup}</b>`;
+  if (style?.fontStyle === 'italic') markup = `<i>${markup}</i>`;
+  return markup;
+}
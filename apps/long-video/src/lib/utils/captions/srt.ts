@@ -0,0 +1,44 @@
+import { applyInlineStyle, escapeText, parseInlineMarkup } from './markup';
+import { formatTimestamp, parseTimestamp, splitBlocks } from './time';
+import { emptyTrack, type CaptionCue, type CaptionTrack } from './types';
+
+const TIMING = /^(\S+)\s+-->\s+(\S+)/;
+
+/**
+ * Parse SRT. Sequence numbers are optional, and SRT has no positioning,
+ * so only text, timing and whole-cue styling survive.
+ */
+export function parseSRT(content: string): CaptionTrack {
+  const track = emptyTrack();
+
+  for (const block of splitBlocks(content)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING)!;
+    const { text, style } = parseInlineMarkup(lines.slice(timingIndex + 1).join('\n'));
+
+    const cue: CaptionCue = {
+      startTime: parseTimestamp(start),
+      endTime: parseTimestamp(end),
+      text
+    };
+    if (timingIndex === 1) cue.id = lines[0].trim();
+    if (style) cue.style = style;
+    track.cues.push(cue);
+  }
+
+  return track;
+}
+
+/**
+ * Generate SRT. Speakers become a `Name:` prefix since SRT has no voices.
+ */
+export function generateSRT(track: CaptionTrack): string {
+  return track.cues.map((cue, index) => {
+    const timeRange = `${formatTimestamp(cue.startTime, ',')} --> ${formatTimestamp(cue.endTime, ',')}`;
+    const text = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+    return `${index + 1}\n${timeRange}\n${applyInlineStyle(escapeText(text), cue.style)}\n`;
+  }).join('\n');
+}
@@ -0,0 +1,51 @@
+/**
+ * Parse an SRT or WebVTT timestamp (`hh:mm:ss,mmm`, `hh:mm:ss.mmm` or
+ * `mm:ss.mmm`) into seconds
+ */
+export function parseTimestamp(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, '0')) / 1000
+  );
+}
+
+/**
+ * Format seconds as `hh:mm:ss.mmm`, or with a comma before the
+ * milliseconds for SRT
+ */
+export function formatTimestamp(seconds: number, separator: '.' | ',' = '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${padZero(hours)}:${padZero(minutes)}:${padZero(secs)}${separator}${padZero(ms, 3)}`;
+}
+
+/**
+ * Pad a number with leading zeros
+ */
+export function padZero(num: number, length: number = 2): string {
+  return num.toString().padStart(length, '0');
+}
+
+/**
+ * Split caption file content into blank-line separated blocks
+ */
+export function splitBlocks(content: string): string[] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map(block => block.trim())
+    .filter(Boolean);
+}
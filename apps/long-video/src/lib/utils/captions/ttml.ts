@@ -0,0 +1,373 @@
+import { escapeText } from './markup';
+import { formatTimestamp } from './time';
+import {
+  emptyTrack,
+  type CaptionCue,
+  type CaptionRegion,
+  type CaptionStyle,
+  type CaptionTrack,
+  type CueSettings
+} from './types';
+
+const TT_NS = 'http://www.w3.org/ns/ttml';
+const TTS_NS = 'http://www.w3.org/ns/ttml#styling';
+const TTP_NS = 'http://www.w3.org/ns/ttml#parameter';
+const TTM_NS = 'http://www.w3.org/ns/ttml#metadata';
+const IMSC_TEXT_PROFILE = 'http://www.w3.org/ns/ttml/profile/imsc1.1/text';
+
+interface TimeBase {
+  frameRate: number;
+  tickRate: number;
+}
+
+/**
+ * Parse TTML, including IMSC and DFXP files. Regions, inline and
+ * referenced styles, and `ttm:agent` speakers are kept; nested timing on
+ * `body` and `div` is resolved into absolute cue times.
+ */
+export function parseTTML(content: string): CaptionTrack {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'tt' || doc.getElementsByTagName('parsererror').length) {
+    throw new Error('Invalid TTML document');
+  }
+
+  const track = emptyTrack(attr(root, 'lang'));
+  const frameRate = Number(attr(root, 'frameRate') ?? 30) *
+    frameRateMultiplier(attr(root, 'frameRateMultiplier'));
+  const timeBase: TimeBase = {
+    frameRate,
+    tickRate: Number(attr(root, 'tickRate') ?? (attr(root, 'frameRate') ? frameRate : 1))
+  };
+
+  const styles = new Map<string, Element>();
+  for (const style of elements(root, 'style')) {
+    const id = attr(style, 'id');
+    if (id) styles.set(id, style);
+  }
+
+  const agents = new Map<string, string>();
+  for (const agent of elements(root, 'agent')) {
+    const id = attr(agent, 'id');
+    const name = elements(agent, 'name')[0]?.textContent?.trim();
+    if (id) agents.set(id, name || id);
+  }
+
+  for (const region of elements(root, 'region')) {
+    const parsed = toRegion(region);
+    if (parsed) track.regions.push(parsed);
+  }
+
+  for (const p of elements(root, 'p')) {
+    const cue = toCue(p, styles, agents, timeBase);
+    if (cue) track.cues.push(cue);
+  }
+
+  track.cues.sort((a, b) => a.startTime - b.startTime);
+  return track;
+}
+
+function toCue(
+  p: Element,
+  styles: Map<string, Element>,
+  agents: Map<string, string>,
+  timeBase: TimeBase
+): CaptionCue | null {
+  const offset = ancestorOffset(p, timeBase);
+  const begin = attr(p, 'begin');
+  const end = attr(p, 'end');
+  const dur = attr(p, 'dur');
+  if (!begin || (!end && !dur)) return null;
+
+  const startTime = offset + parseTTMLTime(begin, timeBase);
+  const endTime = end
+    ? offset + parseTTMLTime(end, timeBase)
+    : startTime + parseTTMLTime(dur!, timeBase);
+
+  const cue: CaptionCue = { startTime, endTime, text: textOf(p).trim() };
+
+  const id = attr(p, 'id');
+  if (id) cue.id = id;
+
+  const agent = attr(p, 'agent');
+  if (agent) cue.speaker = agents.get(agent) ?? agent;
+
+  // Referenced styles first, then inline attributes, then a span wrapping the whole cue
+  const styled = [
+    ...(attr(p, 'style') ?? '').split(/\s+/).map(ref => styles.get(ref)).filter(Boolean) as Element[],
+    p
+  ];
+  const spans = Array.from(p.children).filter(child => child.localName === 'span');
+  if (spans.length === 1 && textOf(spans[0]).trim() === cue.text) styled.push(spans[0]);
+
+  const style: CaptionStyle = {};
+  const settings: CueSettings = {};
+  for (const el of styled) {
+    Object.assign(style, toStyle(el));
+    const textAlign = attr(el, 'textAlign');
+    if (textAlign) settings.align = textAlign as CueSettings['align'];
+  }
+
+  const region = attr(p, 'region') ?? inheritedRegion(p);
+  if (region) settings.region = region;
+
+  if (Object.keys(style).length) cue.style = style;
+  if (Object.keys(settings).length) cue.settings = settings;
+  return cue;
+}
+
+/**
+ * Begin times of enclosing `div` and `body` elements, which child times
+ * are relative to
+ */
+function ancestorOffset(el: Element, timeBase: TimeBase): number {
+  let offset = 0;
+  for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+    const begin = attr(parent, 'begin');
+    if (begin) offset += parseTTMLTime(begin, timeBase);
+  }
+  return offset;
+}
+
+function inheritedRegion(el: Element): string | undefined {
+  for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+    const region = attr(parent, 'region');
+    if (region) return region;
+  }
+  return undefined;
+}
+
+/**
+ * Text content with `<br/>` as line breaks and whitespace collapsed as
+ * `xml:space="default"` requires
+ */
+function textOf(el: Element): string {
+  let text = '';
+  el.childNodes.forEach(node => {
+    if (node.nodeType === 3) {
+      text += (node.textContent ?? '').replace(/\s+/g, ' ');
+    } else if (node.nodeType === 1) {
+      const child = node as Element;
+      text += child.localName === 'br' ? '\n' : textOf(child);
+    }
+  });
+  return text.replace(/ *\n */g, '\n');
+}
+
+function toStyle(el: Element): CaptionStyle {
+  const style: CaptionStyle = {};
+  const color = attr(el, 'color');
+  const backgroundColor = attr(el, 'backgroundColor');
+  const fontStyle = attr(el, 'fontStyle');
+  const fontWeight = attr(el, 'fontWeight');
+  const textDecoration = attr(el, 'textDecoration');
+
+  if (color) style.color = color;
+  if (backgroundColor) style.backgroundColor = backgroundColor;
+  if (fontStyle === 'italic' || fontStyle === 'normal') style.fontStyle = fontStyle;
+  if (fontWeight === 'bold' || fontWeight === 'normal') style.fontWeight = fontWeight;
+  if (textDecoration) style.textDecoration = textDecoration;
+  return style;
+}
+
+function toRegion(el: Element): CaptionRegion | null {
+  const id = attr(el, 'id');
+  if (!id) return null;
+
+  const region: CaptionRegion = { id, regionAnchor: '0%,0%' };
+  const origin = attr(el, 'origin')?.split(/\s+/);
+  const extent = attr(el, 'extent')?.split(/\s+/);
+
+  if (origin?.length === 2 && origin.every(v => v.endsWith('%'))) {
+    region.viewportAnchor = origin.join(',');
+  }
+  if (extent?.length === 2 && extent.every(v => v.endsWith('%'))) {
+    region.width = extent[0];
+    region.lines = Math.max(1, Math.round(parseFloat(extent[1]) / LINE_HEIGHT_PERCENT));
+  }
+  return region;
+}
+
+/**
+ * Parse a TTML time expression: clock time (`00:00:01.5`, or
+ * `00:00:01:12` with frames) or an offset (`1.5s`, `1500ms`, `36f`, `90t`)
+ */
+export function parseTTMLTime(value: string, timeBase: TimeBase = { frameRate: 30, tickRate: 1 }): number {
+  const expr = value.trim();
+
+  const clock = expr.match(/^(\d{2,}):(\d{2}):(\d{2})(?:(\.\d+)|:(\d{2,})(?:\.(\d+))?)?$/);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    return (
+      Number(hours) * 3600 +
+      Number(minutes) * 60 +
+      Number(seconds) +
+      (fraction ? Number(fraction) : 0) +
+      (frames ? Number(frames) / timeBase.frameRate : 0)
+    );
+  }
+
+  const offset = expr.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (offset) {
+    const amount = Number(offset[1]);
+    switch (offset[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 's': return amount;
+      case 'ms': return amount / 1000;
+      case 'f': return amount / timeBase.frameRate;
+      case 't': return amount / timeBase.tickRate;
+    }
+  }
+
+  throw new Error(`Invalid TTML time expression: ${value}`);
+}
+
+function frameRateMultiplier(value: string | undefined): number {
+  if (!value) return 1;
+  const [numerator, denominator] = value.split(/\s+/).map(Number);
+  return denominator ? numerator / denominator : 1;
+}
+
+// Height of one caption line as a share of the video, for region sizing
+const LINE_HEIGHT_PERCENT = 5.33;
+
+const DEFAULT_REGIONS: CaptionRegion[] = [
+  { id: 'top', width: '80%', lines: 3, regionAnchor: '0%,0%', viewportAnchor: '10%,5%' },
+  { id: 'bottom', width: '80%', lines: 3, regionAnchor: '0%,0%', viewportAnchor: '10%,79%' }
+];
+
+/**
+ * Generate IMSC 1.1 Text profile TTML. Speakers become `ttm:agent`s;
+ * cues without a region are placed at the top or bottom of the frame
+ * according to their WebVTT line setting.
+ */
+export function generateTTML(track: CaptionTrack): string {
+  const agents = new Map<string, string>();
+  for (const cue of track.cues) {
+    if (cue.speaker && !agents.has(cue.speaker)) {
+      agents.set(cue.speaker, `speaker${agents.size + 1}`);
+    }
+  }
+
+  const regions = [
+    ...DEFAULT_REGIONS.filter(d => !track.regions.some(r => r.id === d.id)),
+    ...track.regions
+  ];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="${TT_NS}" xmlns:tts="${TTS_NS}" xmlns:ttp="${TTP_NS}" xmlns:ttm="${TTM_NS}"` +
+      ` ttp:timeBase="media" ttp:contentProfiles="${IMSC_TEXT_PROFILE}"` +
+      ` xml:lang="${escapeAttr(track.language ?? '')}">`,
+    '  <head>'
+  ];
+
+  if (agents.size) {
+    lines.push('    <metadata>');
+    agents.forEach((id, name) => {
+      lines.push(
+        `      <ttm:agent type="person" xml:id="${id}"><ttm:name type="full">${escapeText(name)}</ttm:name></ttm:agent>`
+      );
+    });
+    lines.push('    </metadata>');
+  }
+
+  lines.push('    <layout>');
+  for (const region of regions) {
+    lines.push(`      ${formatRegion(region)}`);
+  }
+  lines.push('    </layout>', '  </head>', '  <body>', '    <div>');
+
+  for (const cue of track.cues) {
+    const attrs = [
+      cue.id ? `xml:id="${escapeAttr(toXmlId(cue.id))}"` : '',
+      `begin="${formatTimestamp(cue.startTime)}"`,
+      `end="${formatTimestamp(cue.endTime)}"`,
+      `region="${escapeAttr(regionFor(cue))}"`,
+      cue.speaker ? `ttm:agent="${agents.get(cue.speaker)}"` : '',
+      ...styleAttrs(cue)
+    ].filter(Boolean);
+
+    const text = cue.text.split('\n').map(escapeText).join('<br/>');
+    lines.push(`      <p ${attrs.join(' ')}>${text}</p>`);
+  }
+
+  lines.push('    </div>', '  </body>', '</tt>');
+  return lines.join('\n') + '\n';
+}
+
+function regionFor(cue: CaptionCue): string {
+  if (cue.settings?.region) return cue.settings.region;
+
+  const line = cue.settings?.line?.split(',')[0];
+  if (line === undefined) return 'bottom';
+
+  // Percentages count from the top; line numbers from the top when positive
+  if (line.endsWith('%')) return parseFloat(line) < 50 ? 'top' : 'bottom';
+  return Number(line) >= 0 ? 'top' : 'bottom';
+}
+
+function styleAttrs(cue: CaptionCue): string[] {
+  const attrs: string[] = [];
+  const { style, settings } = cue;
+
+  if (settings?.align) attrs.push(`tts:textAlign="${settings.align}"`);
+  if (style?.color) attrs.push(`tts:color="${escapeAttr(style.color)}"`);
+  if (style?.backgroundColor) attrs.push(`tts:backgroundColor="${escapeAttr(style.backgroundColor)}"`);
+  if (style?.fontStyle) attrs.push(`tts:fontStyle="${style.fontStyle}"`);
+  if (style?.fontWeight) attrs.push(`tts:fontWeight="${style.fontWeight}"`);
+  if (style?.textDecoration) attrs.push(`tts:textDecoration="${escapeAttr(style.textDecoration)}"`);
+  return attrs;
+}
+
+/**
+ * WebVTT pins a point inside the region (its anchor) to a point on the
+ * video; TTML positions the region's top left corner, so the anchor's
+ * offset is subtracted
+ */
+function formatRegion(region: CaptionRegion): string {
+  const [viewportX, viewportY] = percentages(region.viewportAnchor ?? '10%,79%');
+  const [anchorX, anchorY] = percentages(region.regionAnchor ?? '0%,0%');
+  const width = parseFloat(region.width ?? '80%');
+  const height = Math.min(100, (region.lines ?? 3) * LINE_HEIGHT_PERCENT);
+
+  const x = clampPercent(viewportX - (anchorX * width) / 100);
+  const y = clampPercent(viewportY - (anchorY * height) / 100);
+  const displayAlign = y + height / 2 < 50 ? 'before' : 'after';
+
+  return (
+    `<region xml:id="${escapeAttr(region.id)}" tts:origin="${x}% ${y}%"` +
+    ` tts:extent="${width}% ${height.toFixed(2)}%" tts:displayAlign="${displayAlign}"/>`
+  );
+}
+
+function percentages(pair: string): [number, number] {
+  const [x, y] = pair.split(',').map(value => parseFloat(value));
+  return [x || 0, y || 0];
+}
+
+function clampPercent(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)) * 100) / 100;
+}
+
+// xml:id values must be XML names, which can't start with a digit
+function toXmlId(id: string): string {
+  const name = id.replace(/[^\w.-]/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `c${name}`;
+}
+
+function escapeAttr(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+function attr(el: Element, localName: string): string | undefined {
+  for (const attribute of Array.from(el.attributes)) {
+    if (attribute.localName === localName) return attribute.value;
+  }
+  return undefined;
+}
+
+function elements(root: Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagName('*')).filter(el => el.localName === localName);
+}
@@ -0,0 +1,53 @@
+export type CaptionFormat = 'srt' | 'webvtt' | 'ttml';
+
+/**
+ * WebVTT cue settings; TTML regions and alignment map onto the same fields
+ */
+export interface CueSettings {
+  vertical?: 'rl' | 'lr';
+  line?: string;
+  position?: string;
+  size?: string;
+  align?: 'start' | 'center' | 'end' | 'left' | 'right';
+  region?: string;
+}
+
+export interface CaptionRegion {
+  id: string;
+  width?: string;
+  lines?: number;
+  regionAnchor?: string;
+  viewportAnchor?: string;
+  scroll?: 'up';
+}
+
+export interface CaptionStyle {
+  color?: string;
+  backgroundColor?: string;
+  fontStyle?: 'normal' | 'italic';
+  fontWeight?: 'normal' | 'bold';
+  textDecoration?: string;
+}
+
+export interface CaptionCue {
+  id?: string;
+  startTime: number;
+  endTime: number;
+  // Plain text; lines separated by \n
+  text: string;
+  speaker?: string;
+  settings?: CueSettings;
+  style?: CaptionStyle;
+}
+
+export interface CaptionTrack {
+  cues: CaptionCue[];
+  regions: CaptionRegion[];
+  // WebVTT STYLE blocks, kept verbatim
+  styles: string[];
+  language?: string;
+}
+
+export function emptyTrack(language?: string): CaptionTrack {
+  return { cues: [], regions: [], styles: [], language };
+}
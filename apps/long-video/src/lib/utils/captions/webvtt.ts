@@ -0,0 +1,200 @@
+import { applyInlineStyle, escapeText, parseInlineMarkup } from './markup';
+import { formatTimestamp, parseTimestamp, splitBlocks } from './time';
+import {
+  emptyTrack,
+  type CaptionCue,
+  type CaptionRegion,
+  type CaptionTrack,
+  type CueSettings
+} from './types';
+
+const TIMING = /^(\S+)\s+-->\s+(\S+)(.*)$/;
+const VOICE = /^<v(?:\.[^\s>]+)?\s+([^>]+)>([\s\S]*?)(?:<\/v>)?$/;
+
+/**
+ * Parse WebVTT, keeping cue settings, regions, STYLE blocks and the
+ * speaker of cues spoken by a single `<v>` voice
+ */
+export function parseWebVTT(content: string): CaptionTrack {
+  const track = emptyTrack();
+  const [header, ...blocks] = splitBlocks(content);
+
+  if (!header?.startsWith('WEBVTT')) {
+    throw new Error('Missing WEBVTT header');
+  }
+
+  // Header metadata such as `Language: en`, as written by YouTube and others
+  const language = header.match(/^Language:\s*(\S+)/m);
+  if (language) track.language = language[1];
+
+  for (const block of blocks) {
+    if (/^NOTE(\s|$)/.test(block)) continue;
+
+    if (/^STYLE(\s|$)/.test(block)) {
+      track.styles.push(block.replace(/^STYLE\s*/, ''));
+      continue;
+    }
+
+    if (/^REGION(\s|$)/.test(block)) {
+      const region = parseRegion(block.replace(/^REGION\s*/, ''));
+      if (region) track.regions.push(region);
+      continue;
+    }
+
+    const cue = parseCue(block);
+    if (cue) track.cues.push(cue);
+  }
+
+  return track;
+}
+
+function parseCue(block: string): CaptionCue | null {
+  const lines = block.split('\n');
+  const timingIndex = lines.findIndex(line => line.includes('-->'));
+  if (timingIndex === -1 || timingIndex > 1) return null;
+
+  const timing = lines[timingIndex].match(TIMING);
+  if (!timing) return null;
+
+  const [, start, end, rawSettings] = timing;
+  let payload = lines.slice(timingIndex + 1).join('\n');
+  let speaker: string | undefined;
+
+  const voice = payload.match(VOICE);
+  if (voice && !voice[2].includes('<v')) {
+    speaker = voice[1].trim();
+    payload = voice[2];
+  }
+
+  const { text, style } = parseInlineMarkup(payload);
+  const cue: CaptionCue = {
+    startTime: parseTimestamp(start),
+    endTime: parseTimestamp(end),
+    text
+  };
+
+  if (timingIndex === 1) cue.id = lines[0].trim();
+  if (speaker) cue.speaker = speaker;
+  if (style) cue.style = style;
+
+  const settings = parseSettings(rawSettings);
+  if (settings) cue.settings = settings;
+
+  return cue;
+}
+
+function parseSettings(raw: string): CueSettings | undefined {
+  const settings: CueSettings = {};
+
+  for (const token of raw.trim().split(/\s+/).filter(Boolean)) {
+    const [name, value] = token.split(':');
+    if (!value) continue;
+
+    switch (name) {
+      case 'vertical':
+        if (value === 'rl' || value === 'lr') settings.vertical = value;
+        break;
+      case 'line':
+      case 'position':
+      case 'size':
+      case 'region':
+        settings[name] = value;
+        break;
+      case 'align':
+        if (['start', 'center', 'end', 'left', 'right'].includes(value)) {
+          settings.align = value as CueSettings['align'];
+        }
+        break;
+    }
+  }
+
+  return Object.keys(settings).length ? settings : undefined;
+}
+
+function parseRegion(block: string): CaptionRegion | null {
+  const region: Partial<CaptionRegion> = {};
+
+  for (const token of block.split(/\s+/).filter(Boolean)) {
+    const [name, value] = token.split(':');
+    if (!value) continue;
+
+    switch (name) {
+      case 'id':
+        region.id = value;
+        break;
+      case 'width':
+        region.width = value;
+        break;
+      case 'lines':
+        region.lines = Number(value);
+        break;
+      case 'regionanchor':
+        region.regionAnchor = value;
+        break;
+      case 'viewportanchor':
+        region.viewportAnchor = value;
+        break;
+      case 'scroll':
+        if (value === 'up') region.scroll = 'up';
+        break;
+    }
+  }
+
+  return region.id ? (region as CaptionRegion) : null;
+}
+
+/**
+ * Generate WebVTT with regions, styles, cue settings and `<v>` speaker
+ * spans. `headers` are extra lines for the header block, such as HLS's
+ * `X-TIMESTAMP-MAP`.
+ */
+export function generateWebVTT(track: CaptionTrack, headers: string[] = []): string {
+  const blocks = [['WEBVTT', ...headers].join('\n')];
+
+  for (const region of track.regions) {
+    blocks.push(`REGION\n${formatRegion(region)}`);
+  }
+
+  for (const style of track.styles) {
+    blocks.push(`STYLE\n${style}`);
+  }
+
+  for (const cue of track.cues) {
+    blocks.push(formatCue(cue));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+export function formatCue(cue: CaptionCue): string {
+  const timing = `${formatTimestamp(cue.startTime)} --> ${formatTimestamp(cue.endTime)}`;
+  const settings = formatSettings(cue.settings);
+
+  let payload = applyInlineStyle(escapeText(cue.text), cue.style);
+  if (cue.speaker) {
+    payload = `<v ${escapeText(cue.speaker)}>${payload}</v>`;
+  }
+
+  const lines = [settings ? `${timing} ${settings}` : timing, payload];
+  // Cue ids can't contain "-->" or they'd be read as a timing line
+  if (cue.id && !cue.id.includes('-->')) lines.unshift(cue.id);
+  return lines.join('\n');
+}
+
+function formatSettings(settings?: CueSettings): string {
+  if (!settings) return '';
+  return (['vertical', 'line', 'position', 'size', 'align', 'region'] as const)
+    .filter(name => settings[name] !== undefined)
+    .map(name => `${name}:${settings[name]}`)
+    .join(' ');
+}
+
+function formatRegion(region: CaptionRegion): string {
+  const settings = [`id:${region.id}`];
+  if (region.width) settings.push(`width:${region.width}`);
+  if (region.lines !== undefined) settings.push(`lines:${region.lines}`);
+  if (region.regionAnchor) settings.push(`regionanchor:${region.regionAnchor}`);
+  if (region.viewportAnchor) settings.push(`viewportanchor:${region.viewportAnchor}`);
+  if (region.scroll) settings.push(`scroll:${region.scroll}`);
+  return settings.join('\n');
+}
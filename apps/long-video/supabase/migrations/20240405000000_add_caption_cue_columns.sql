@@ -0,0 +1,35 @@
+-- Captions are stored one row per cue, with the WebVTT/TTML cue settings,
+-- inline style and speaker kept alongside the text
+ALTER TABLE captions
+    DROP CONSTRAINT IF EXISTS captions_video_id_language_key,
+    ALTER COLUMN caption_url DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS text TEXT NOT NULL DEFAULT '',
+    ADD COLUMN IF NOT EXISTS start_time DOUBLE PRECISION NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS end_time DOUBLE PRECISION NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS speaker TEXT,
+    ADD COLUMN IF NOT EXISTS settings JSONB,
+    ADD COLUMN IF NOT EXISTS style JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_captions_video_language_start
+    ON captions(video_id, language, start_time);
+
+-- Track-level WebVTT regions and STYLE blocks, one row per video and language
+CREATE TABLE IF NOT EXISTS caption_tracks (
+    video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+    language VARCHAR(5) NOT NULL,
+    regions JSONB NOT NULL DEFAULT '[]',
+    styles TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (video_id, language)
+);
+
+CREATE TRIGGER update_caption_tracks_updated_at
+    BEFORE UPDATE ON caption_tracks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_captions_updated_at
+    BEFORE UPDATE ON captions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
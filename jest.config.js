@@ -5,6 +5,7 @@ export default {
   moduleNameMapper: {
     '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
     '^@/(.*)$': '<rootDir>/src/$1',
+    '^@lena/moderation/(.*)$': '<rootDir>/packages/moderation/src/$1',
     '^@components/(.*)$': '<rootDir>/src/components/$1',
     '^@features/(.*)$': '<rootDir>/src/features/$1',
     '^@services/(.*)$': '<rootDir>/src/services/$1',
@@ -38,7 +38,8 @@ export const ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/ogg', 'audio/wav'];
 
 // Re-export utility functions
 export { isToxicContent, analyzeContentSimilarity } from '@lena/moderation';
-export { validateContent } from './lib/utils/validation';
+export { validateContent, ContentValidationError } from './lib/utils/validation';
+export { hashMedia, KnownMediaError } from './lib/utils/hashing';
 export { extractMetadata } from './lib/utils/metadata';
 export { generateThumbnail } from './lib/utils/thumbnails';
 export { transcodeVideo } from './lib/utils/transcoding';
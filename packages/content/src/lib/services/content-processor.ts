@@ -3,7 +3,14 @@ import { fetchFile } from '@ffmpeg/util';
 import sharp from 'sharp';
 import * as mobilenet from '@tensorflow-models/mobilenet';
 import * as tf from '@tensorflow/tfjs-node';
-import { ModerationService } from '@lena/moderation';
+import {
+  InMemoryRemovedMediaStore,
+  MediaHashList,
+  ModerationService,
+  RemovedMediaQueue,
+  type MediaHash,
+  type RemovedMediaStore
+} from '@lena/moderation';
 import { StorageService } from '@lena/storage';
 import type {
   ContentMetadata,
@@ -14,12 +21,16 @@ import type {
   ProcessingHooks,
   StorageConfig
 } from '../types';
+import { ContentValidationError, validateContent, type MediaInfo } from '../utils/validation';
+import { hashMedia, KnownMediaError } from '../utils/hashing';
 
 export class ContentProcessor {
   private ffmpeg: FFmpeg;
   private moderationService: ModerationService;
   private storageService: StorageService;
   private model: mobilenet.MobileNet | null = null;
+  private hashList: MediaHashList;
+  private removedMedia: RemovedMediaQueue;
 
   constructor(
     moderationConfig: {
@@ -27,9 +38,15 @@ export class ContentProcessor {
       supabaseUrl: string;
       supabaseKey: string;
     },
-    storageConfig: StorageConfig
+    storageConfig: StorageConfig,
+    // Share one list (with a persistent store) between processors so they agree on what's been removed
+    hashList: MediaHashList = new MediaHashList(),
+    // Takedowns still waiting to be hashed, kept across restarts by a persistent store
+    removedMediaStore: RemovedMediaStore = new InMemoryRemovedMediaStore()
   ) {
     this.ffmpeg = new FFmpeg();
+    this.hashList = hashList;
+    this.removedMedia = new RemovedMediaQueue(hashList, undefined, { store: removedMediaStore });
     this.moderationService = new ModerationService(
       moderationConfig.perspectiveApiKey,
       moderationConfig.supabaseUrl,
@@ -51,6 +68,10 @@ export class ContentProcessor {
     
     // Initialize moderation service
     await this.moderationService.initialize();
+
+    // Index the hashes of media removed so far, then finish takedowns left from last time
+    await this.hashList.load();
+    await this.removedMedia.restore();
   }
 
   async processContent(
@@ -61,6 +82,23 @@ export class ContentProcessor {
     const { onProgress, onAnalysis, onModeration, onComplete, onError } = hooks;
     
     try {
+      // Reject files whose bytes don't match what they claim to be before storing anything
+      let media: MediaInfo | undefined;
+      if (options.type !== 'text') {
+        const validation = await validateContent(content, options);
+        if (!validation.valid) {
+          throw new ContentValidationError(validation.reasons);
+        }
+        media = validation.info;
+      }
+
+      // Likewise turn away re-uploads of media we've already removed
+      const mediaHash = media ? await hashMedia(content, options.type, this.ffmpeg) : null;
+      const knownMatch = mediaHash ? this.hashList.match(mediaHash)[0] : undefined;
+      if (knownMatch) {
+        throw new KnownMediaError(knownMatch);
+      }
+
       // Upload original content
       onProgress?.({ stage: 'upload', progress: 0 });
       const originalUrl = await this.storageService.uploadFile(content, progress => {
@@ -79,6 +117,12 @@ export class ContentProcessor {
       onModeration?.(moderationResult);
       onProgress?.({ stage: 'moderation', progress: 100 });
 
+      // Rejected media goes on the list so the same file can't simply be uploaded again
+      const id = crypto.randomUUID();
+      if (moderationResult.status === 'rejected' && mediaHash) {
+        await this.enqueueRemoved(id, mediaHash, moderationResult.reason);
+      }
+
       // Process content if moderation passed
       let processedUrl = originalUrl;
       let thumbnailUrl: string | undefined;
@@ -93,11 +137,11 @@ export class ContentProcessor {
 
       // Prepare result
       const result: ProcessingResult = {
-        id: crypto.randomUUID(),
+        id,
         originalUrl,
         processedUrl,
         thumbnailUrl,
-        metadata: await this.extractMetadata(content),
+        metadata: await this.extractMetadata(content, media),
         status: moderationResult.status === 'approved' ? 'success' : 'failed',
         moderationResult
       };
@@ -110,6 +154,18 @@ export class ContentProcessor {
     }
   }
 
+  // Add media taken down after upload, hashed from the stored original
+  async removeContent(id: string, content: File | Blob, type: ProcessingOptions['type'], reason?: string) {
+    const mediaHash = await hashMedia(content, type, this.ffmpeg);
+    if (mediaHash) {
+      await this.enqueueRemoved(id, mediaHash, reason);
+    }
+  }
+
+  private async enqueueRemoved(id: string, mediaHash: MediaHash, reason?: string) {
+    await this.removedMedia.enqueue({ sourceId: id, reason, hashes: [mediaHash] });
+  }
+
   private async analyzeContent(content: File | Blob, type: ProcessingOptions['type']): Promise<ContentAnalysis> {
     const analysis: ContentAnalysis = { type };
 
@@ -242,7 +298,7 @@ export class ContentProcessor {
     };
   }
 
-  private async extractMetadata(content: File | Blob): Promise<ContentMetadata> {
+  private async extractMetadata(content: File | Blob, media?: MediaInfo): Promise<ContentMetadata> {
     const metadata: ContentMetadata = {
       size: content.size,
       createdAt: new Date(),
@@ -253,8 +309,15 @@ export class ContentProcessor {
       metadata.title = content.name;
     }
 
-    // Extract more metadata based on file type
-    // This would involve reading file headers, EXIF data, etc.
+    // Container details come from the validation pass, so nothing is parsed twice
+    if (media) {
+      metadata.format = media.format;
+      metadata.duration = media.duration;
+      metadata.encoding = media.codecs[0];
+      if (media.width !== undefined && media.height !== undefined) {
+        metadata.dimensions = { width: media.width, height: media.height };
+      }
+    }
 
     return metadata;
   }
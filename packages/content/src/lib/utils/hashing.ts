@@ -0,0 +1,97 @@
+import sharp from 'sharp';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile } from '@ffmpeg/util';
+import {
+  fingerprintAudio,
+  hashImage,
+  hashVideoFrames,
+  type GrayscaleImage,
+  type HashMatch,
+  type MediaHash
+} from '@lena/moderation';
+import type { ProcessingOptions } from '../types';
+
+// Frames are sampled once a second and shrunk to this size before hashing
+const VIDEO_FRAME_SIZE = 64;
+const AUDIO_SAMPLE_RATE = 11025;
+
+export class KnownMediaError extends Error {
+  constructor(public match: HashMatch) {
+    super(`Content matches media that was removed${match.entry.reason ? ` for ${match.entry.reason}` : ''}`);
+    this.name = 'KnownMediaError';
+  }
+}
+
+/**
+ * Perceptual hash of an image, video or audio file, for matching it
+ * against the list of media we've removed. Everything is decoded
+ * locally; text has no media hash.
+ */
+export async function hashMedia(
+  file: File | Blob,
+  type: ProcessingOptions['type'],
+  ffmpeg: FFmpeg
+): Promise<MediaHash | null> {
+  if (type === 'image') {
+    const { data, info } = await sharp(await file.arrayBuffer())
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return hashImage({ width: info.width, height: info.height, data });
+  }
+
+  if (type !== 'video' && type !== 'audio') {
+    return null;
+  }
+
+  const inputPath = 'hash-input' + getFileExtension(file);
+  const outputPath = type === 'video' ? 'hash-frames.gray' : 'hash-audio.pcm';
+  await ffmpeg.writeFile(inputPath, await fetchFile(file));
+
+  try {
+    if (type === 'video') {
+      await ffmpeg.exec([
+        '-i', inputPath,
+        '-vf', `fps=1,scale=${VIDEO_FRAME_SIZE}:${VIDEO_FRAME_SIZE},format=gray`,
+        '-f', 'rawvideo',
+        outputPath
+      ]);
+      const raw = (await ffmpeg.readFile(outputPath)) as Uint8Array;
+      return hashVideoFrames(splitFrames(raw));
+    }
+
+    await ffmpeg.exec([
+      '-i', inputPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', AUDIO_SAMPLE_RATE.toString(),
+      '-f', 'f32le',
+      outputPath
+    ]);
+    const raw = (await ffmpeg.readFile(outputPath)) as Uint8Array;
+    // Copy so the samples start on a 4-byte boundary
+    const samples = new Float32Array(raw.slice().buffer, 0, raw.byteLength >> 2);
+    return fingerprintAudio(samples, AUDIO_SAMPLE_RATE);
+  } finally {
+    await Promise.allSettled([ffmpeg.deleteFile(inputPath), ffmpeg.deleteFile(outputPath)]);
+  }
+}
+
+function* splitFrames(raw: Uint8Array): Generator<GrayscaleImage> {
+  const frameSize = VIDEO_FRAME_SIZE * VIDEO_FRAME_SIZE;
+  for (let offset = 0; offset + frameSize <= raw.length; offset += frameSize) {
+    yield {
+      width: VIDEO_FRAME_SIZE,
+      height: VIDEO_FRAME_SIZE,
+      data: raw.subarray(offset, offset + frameSize)
+    };
+  }
+}
+
+function getFileExtension(file: File | Blob): string {
+  if (file instanceof File) {
+    return '.' + file.name.split('.').pop();
+  }
+  const type = file.type.split('/')[1];
+  return type ? '.' + type : '';
+}
@@ -0,0 +1,30 @@
+import type { ProcessingOptions } from '../types';
+import {
+  blobSource,
+  validateMedia,
+  type MediaRejection,
+  type MediaValidationResult
+} from '@lena/moderation';
+
+export type { MediaInfo, MediaRejection, MediaValidationResult } from '@lena/moderation';
+
+export class ContentValidationError extends Error {
+  constructor(public reasons: MediaRejection[]) {
+    super(`Invalid content: ${reasons.map(reason => reason.message).join('; ')}`);
+    this.name = 'ContentValidationError';
+  }
+}
+
+// Uses the same container sniffing as the API upload routes so both paths
+// accept and reject exactly the same files
+export async function validateContent(
+  content: File | Blob,
+  options: Pick<ProcessingOptions, 'type' | 'maxSize' | 'maxDuration'>
+): Promise<MediaValidationResult> {
+  return validateMedia(blobSource(content), {
+    declaredType: content.type || undefined,
+    allowedKinds: options.type === 'text' ? undefined : [options.type],
+    maxSize: options.maxSize,
+    maxDuration: options.maxDuration
+  });
+}
@@ -0,0 +1,51 @@
+import type { Appeal, Reviewer } from './types';
+
+/**
+ * Whether a reviewer is too close to an appeal to judge it: the
+ * appellant, whoever made the original decision, and at second level,
+ * whoever decided the first review.
+ */
+export function hasConflict(appeal: Appeal, reviewerId: string): boolean {
+  return (
+    reviewerId === appeal.appellantId ||
+    appeal.conflictedIds.includes(reviewerId) ||
+    (appeal.level === 2 && reviewerId === appeal.decidedBy)
+  );
+}
+
+export function canReview(appeal: Appeal, reviewer: Reviewer, load = 0): boolean {
+  return (
+    reviewer.active &&
+    reviewer.level >= appeal.level &&
+    !hasConflict(appeal, reviewer.id) &&
+    (reviewer.maxLoad === undefined || load < reviewer.maxLoad)
+  );
+}
+
+/**
+ * Picks reviewers for appeals. Reviewers covering more of the appeal's
+ * skills come first; among equally good matches, assignments go round
+ * robin, to whoever was picked longest ago.
+ */
+export class ReviewerAssigner {
+  private lastAssigned = new Map<string, number>();
+  private sequence = 0;
+
+  // load is each reviewer's count of open appeals
+  pick(appeal: Appeal, reviewers: Reviewer[], load: Map<string, number> = new Map()): Reviewer | null {
+    const candidates = reviewers
+      .filter(reviewer => canReview(appeal, reviewer, load.get(reviewer.id) ?? 0))
+      .map(reviewer => ({
+        reviewer,
+        score: appeal.skills.filter(skill => reviewer.skills.includes(skill)).length,
+        turn: this.lastAssigned.get(reviewer.id) ?? -1
+      }))
+      .sort((a, b) => b.score - a.score || a.turn - b.turn || a.reviewer.id.localeCompare(b.reviewer.id));
+
+    return candidates[0]?.reviewer ?? null;
+  }
+
+  record(reviewerId: string) {
+    this.lastAssigned.set(reviewerId, this.sequence++);
+  }
+}
@@ -0,0 +1,25 @@
+export { AppealWorkflow } from './workflow';
+export type { AppealWorkflowOptions, AppealSubmission, AppealTriage } from './workflow';
+export {
+  APPEAL_TRANSITIONS,
+  DEFAULT_APPEAL_SLA,
+  OPEN_APPEAL_STATES,
+  AppealTransitionError,
+  canTransition,
+  deadlineFor
+} from './state-machine';
+export { InMemoryAppealStore, AppealConflictError } from './store';
+export type { AppealStore, AppealFilter } from './store';
+export { ReviewerAssigner, hasConflict, canReview } from './assignment';
+export type {
+  Appeal as AppealRecord,
+  AppealState,
+  AppealDecision,
+  AppealPriority,
+  AppealEvent,
+  AppealEventType,
+  Reviewer,
+  AppealSla,
+  SlaBreach,
+  AppealAuditExport
+} from './types';
@@ -0,0 +1,50 @@
+import type { AppealSla, AppealState } from './types';
+
+export class AppealTransitionError extends Error {
+  constructor(public from: AppealState, public to: AppealState, reason?: string) {
+    super(`Cannot move appeal from ${from} to ${to}${reason ? `: ${reason}` : ''}`);
+    this.name = 'AppealTransitionError';
+  }
+}
+
+// A reviewer can hand an appeal back to triage, e.g. when it needs skills they lack
+export const APPEAL_TRANSITIONS: Record<AppealState, AppealState[]> = {
+  submitted: ['triaged'],
+  triaged: ['in_review'],
+  in_review: ['decided', 'triaged'],
+  decided: ['escalated', 'final'],
+  escalated: ['final'],
+  final: []
+};
+
+export const OPEN_APPEAL_STATES: AppealState[] = ['submitted', 'triaged', 'in_review', 'escalated'];
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Time allowed in each state. A decided appeal becomes final once the
+ * escalation window closes, so its SLA is that window rather than a
+ * deadline anyone can miss.
+ */
+export const DEFAULT_APPEAL_SLA: AppealSla = {
+  submitted: 24 * HOUR,
+  triaged: 24 * HOUR,
+  in_review: 72 * HOUR,
+  decided: 7 * 24 * HOUR,
+  escalated: 5 * 24 * HOUR
+};
+
+export function canTransition(from: AppealState, to: AppealState): boolean {
+  return APPEAL_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: AppealState, to: AppealState): void {
+  if (!canTransition(from, to)) {
+    throw new AppealTransitionError(from, to);
+  }
+}
+
+export function deadlineFor(state: AppealState, enteredAt: Date, sla: AppealSla): Date | undefined {
+  const allowed = sla[state];
+  return allowed === undefined ? undefined : new Date(enteredAt.getTime() + allowed);
+}
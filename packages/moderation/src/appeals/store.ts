@@ -0,0 +1,77 @@
+import type { Appeal, AppealEvent, AppealState } from './types';
+
+export interface AppealFilter {
+  states?: AppealState[];
+  subjectId?: string;
+  appellantId?: string;
+  assigneeId?: string;
+}
+
+export class AppealConflictError extends Error {
+  constructor(public appealId: string) {
+    super(`Appeal ${appealId} was changed by someone else`);
+    this.name = 'AppealConflictError';
+  }
+}
+
+/**
+ * Appeals and their audit trail. Updates are conditional on the version
+ * read, so two reviewers acting at once can't both win; events are only
+ * ever appended.
+ */
+export interface AppealStore {
+  create(appeal: Appeal): Promise<void>;
+  get(id: string): Promise<Appeal | null>;
+  // Saves the appeal if the stored version is still expectedVersion, else throws AppealConflictError
+  update(appeal: Appeal, expectedVersion: number): Promise<void>;
+  // Oldest first
+  list(filter?: AppealFilter): Promise<Appeal[]>;
+  appendEvent(event: AppealEvent): Promise<void>;
+  // Oldest first
+  events(appealId: string): Promise<AppealEvent[]>;
+}
+
+export class InMemoryAppealStore implements AppealStore {
+  private appeals = new Map<string, Appeal>();
+  private log = new Map<string, AppealEvent[]>();
+
+  async create(appeal: Appeal): Promise<void> {
+    if (this.appeals.has(appeal.id)) {
+      throw new Error(`Appeal ${appeal.id} already exists`);
+    }
+    this.appeals.set(appeal.id, { ...appeal });
+  }
+
+  async get(id: string): Promise<Appeal | null> {
+    const appeal = this.appeals.get(id);
+    return appeal ? { ...appeal } : null;
+  }
+
+  async update(appeal: Appeal, expectedVersion: number): Promise<void> {
+    const stored = this.appeals.get(appeal.id);
+    if (!stored || stored.version !== expectedVersion) {
+      throw new AppealConflictError(appeal.id);
+    }
+    this.appeals.set(appeal.id, { ...appeal });
+  }
+
+  async list(filter: AppealFilter = {}): Promise<Appeal[]> {
+    return [...this.appeals.values()]
+      .filter(appeal =>
+        (!filter.states || filter.states.includes(appeal.state)) &&
+        (!filter.subjectId || appeal.subjectId === filter.subjectId) &&
+        (!filter.appellantId || appeal.appellantId === filter.appellantId) &&
+        (!filter.assigneeId || appeal.assigneeId === filter.assigneeId)
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(appeal => ({ ...appeal }));
+  }
+
+  async appendEvent(event: AppealEvent): Promise<void> {
+    this.log.set(event.appealId, [...(this.log.get(event.appealId) ?? []), event]);
+  }
+
+  async events(appealId: string): Promise<AppealEvent[]> {
+    return [...(this.log.get(appealId) ?? [])];
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Appeals against moderation decisions. An appeal is triaged, reviewed
+ * by someone who had no part in the original decision, and decided; the
+ * appellant can then escalate once to a second-level reviewer before the
+ * decision becomes final.
+ */
+export type AppealState = 'submitted' | 'triaged' | 'in_review' | 'decided' | 'escalated' | 'final';
+
+// Approved appeals overturn the original action
+export type AppealDecision = 'approved' | 'denied';
+
+export type AppealPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface Appeal {
+  id: string;
+  // The moderation action, dispute resolution etc. being appealed
+  subjectId: string;
+  appellantId: string;
+  reason: string;
+  evidence?: unknown;
+  state: AppealState;
+  priority: AppealPriority;
+  // Skills a reviewer should have, e.g. a policy area or language
+  skills: string[];
+  // Whoever made the original decision; they can never review it
+  conflictedIds: string[];
+  assigneeId?: string;
+  // 1 for first review, 2 once escalated
+  level: 1 | 2;
+  decision?: AppealDecision;
+  decisionReason?: string;
+  decidedBy?: string;
+  escalationReason?: string;
+  stateEnteredAt: Date;
+  // When the current state's SLA runs out, if it has one
+  deadlineAt?: Date;
+  // Set once the current state's SLA has been reported as breached
+  breachedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  // Bumped on every write, for optimistic concurrency
+  version: number;
+}
+
+export type AppealEventType = 'submitted' | 'transition' | 'assigned' | 'sla_breach' | 'note';
+
+export interface AppealEvent {
+  id: string;
+  appealId: string;
+  type: AppealEventType;
+  from?: AppealState;
+  to?: AppealState;
+  // Missing for events the system raises itself
+  actorId?: string;
+  at: Date;
+  details?: Record<string, unknown>;
+}
+
+export interface Reviewer {
+  id: string;
+  skills: string[];
+  // Level 2 reviewers can also take escalated appeals
+  level: 1 | 2;
+  active: boolean;
+  // Open appeals this reviewer can hold at once
+  maxLoad?: number;
+}
+
+// How long an appeal may sit in each state, in milliseconds
+export type AppealSla = Partial<Record<AppealState, number>>;
+
+export interface SlaBreach {
+  appeal: Appeal;
+  state: AppealState;
+  deadlineAt: Date;
+  overdueBy: number;
+}
+
+export interface AppealAuditExport {
+  appeal: Appeal;
+  events: AppealEvent[];
+  exportedAt: Date;
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AppealTransitionError, canTransition } from './state-machine';
+import { AppealConflictError, InMemoryAppealStore } from './store';
+import type { Reviewer } from './types';
+import { AppealWorkflow } from './workflow';
+
+const HOUR = 60 * 60 * 1000;
+
+const reviewer = (id: string, level: 1 | 2 = 1): Reviewer => ({ id, skills: [], level, active: true });
+
+describe('AppealWorkflow', () => {
+  let store: InMemoryAppealStore;
+  let now: Date;
+  let reviewers: Reviewer[];
+  let workflow: AppealWorkflow;
+
+  const submit = () =>
+    workflow.submit({
+      subjectId: 'action-1',
+      appellantId: 'appellant',
+      reason: 'Taken down by mistake',
+      conflictedIds: ['moderator']
+    });
+
+  // Submitted, triaged and assigned to the first eligible reviewer
+  const inReview = async () => {
+    const appeal = await submit();
+    return workflow.triage(appeal.id, 'triager');
+  };
+
+  const decided = async () => {
+    const appeal = await inReview();
+    return workflow.decide(appeal.id, appeal.assigneeId!, 'denied', 'Policy applied correctly');
+  };
+
+  beforeEach(() => {
+    store = new InMemoryAppealStore();
+    now = new Date('2024-06-01T00:00:00Z');
+    reviewers = [reviewer('moderator'), reviewer('reviewer-1'), reviewer('senior', 2)];
+    workflow = new AppealWorkflow({ store, reviewers: async () => reviewers, now: () => now });
+  });
+
+  describe('transitions', () => {
+    it('follows the transition table', () => {
+      expect(canTransition('submitted', 'triaged')).toBe(true);
+      expect(canTransition('in_review', 'triaged')).toBe(true);
+      expect(canTransition('submitted', 'decided')).toBe(false);
+      expect(canTransition('escalated', 'escalated')).toBe(false);
+      expect(canTransition('final', 'in_review')).toBe(false);
+    });
+
+    it('refuses to decide an appeal that is not in review', async () => {
+      const appeal = await submit();
+
+      await expect(workflow.decide(appeal.id, 'reviewer-1', 'approved', 'ok')).rejects.toBeInstanceOf(
+        AppealTransitionError
+      );
+      expect((await workflow.get(appeal.id))?.state).toBe('submitted');
+    });
+
+    it('refuses to triage an appeal twice', async () => {
+      const appeal = await inReview();
+
+      await expect(workflow.triage(appeal.id, 'triager')).rejects.toThrow(
+        'Cannot move appeal from in_review to triaged'
+      );
+    });
+
+    it('escalates only once', async () => {
+      const appeal = await decided();
+      await workflow.escalate(appeal.id, 'appellant', 'Please look again');
+
+      await expect(workflow.escalate(appeal.id, 'appellant', 'And again')).rejects.toBeInstanceOf(
+        AppealTransitionError
+      );
+    });
+
+    it('refuses to escalate after the window closes', async () => {
+      const appeal = await decided();
+      now = new Date(now.getTime() + 8 * 24 * HOUR);
+
+      await expect(workflow.escalate(appeal.id, 'appellant', 'Too late')).rejects.toThrow(
+        'the escalation window has closed'
+      );
+    });
+
+    it('leaves a final appeal alone', async () => {
+      const appeal = await decided();
+      await workflow.finalize(appeal.id, 'appellant');
+
+      await expect(workflow.escalate(appeal.id, 'appellant', 'Changed my mind')).rejects.toBeInstanceOf(
+        AppealTransitionError
+      );
+      await expect(workflow.finalize(appeal.id, 'appellant')).rejects.toBeInstanceOf(
+        AppealTransitionError
+      );
+    });
+
+    it('needs a second-level decision to finalize an escalated appeal', async () => {
+      const appeal = await decided();
+      const escalated = await workflow.escalate(appeal.id, 'appellant', 'Please look again');
+      expect(escalated.assigneeId).toBe('senior');
+
+      await expect(workflow.finalize(appeal.id, 'senior')).rejects.toThrow(
+        'a second-level decision is required'
+      );
+
+      const final = await workflow.finalize(appeal.id, 'senior', { decision: 'approved', reason: 'Satire' });
+      expect(final).toMatchObject({ state: 'final', decision: 'approved', decidedBy: 'senior' });
+    });
+  });
+
+  describe('reviewers', () => {
+    it('never assigns whoever made the original decision', async () => {
+      const appeal = await inReview();
+
+      expect(appeal.assigneeId).toBe('reviewer-1');
+      await expect(workflow.assign(appeal.id, 'triager', 'moderator')).rejects.toThrow(
+        'conflict of interest'
+      );
+    });
+
+    it('only lets the assigned reviewer decide', async () => {
+      const appeal = await inReview();
+
+      await expect(workflow.decide(appeal.id, 'senior', 'approved', 'ok')).rejects.toThrow(
+        'Only the assigned reviewer can act on this appeal'
+      );
+    });
+  });
+
+  describe('concurrency', () => {
+    it('rejects a write based on a stale version', async () => {
+      const appeal = await inReview();
+      const stale = await store.get(appeal.id);
+      await workflow.addNote(appeal.id, 'reviewer-1', 'Looking now');
+      await workflow.decide(appeal.id, 'reviewer-1', 'approved', 'ok');
+
+      const write = store.update({ ...stale!, version: stale!.version + 1 }, stale!.version);
+      await expect(write).rejects.toBeInstanceOf(AppealConflictError);
+    });
+
+    it('lets only one of two simultaneous decisions win', async () => {
+      const appeal = await inReview();
+      const other = new AppealWorkflow({ store, reviewers: async () => reviewers, now: () => now });
+
+      const results = await Promise.allSettled([
+        workflow.decide(appeal.id, 'reviewer-1', 'approved', 'First'),
+        other.decide(appeal.id, 'reviewer-1', 'denied', 'Second')
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+      expect(rejected.reason).toBeInstanceOf(AppealConflictError);
+
+      const stored = await workflow.get(appeal.id);
+      const transitions = (await store.events(appeal.id)).filter(event => event.to === 'decided');
+      expect(transitions).toHaveLength(1);
+      expect(stored?.version).toBe(appeal.version + 1);
+    });
+  });
+
+  describe('SLAs', () => {
+    it('reports each breach once and finalizes decisions after the window', async () => {
+      const onBreach = vi.fn();
+      const onFinal = vi.fn();
+      workflow = new AppealWorkflow({ store, reviewers: async () => reviewers, now: () => now, onBreach, onFinal });
+
+      const late = await inReview();
+      now = new Date(now.getTime() + 73 * HOUR);
+
+      expect(await workflow.checkSla()).toHaveLength(1);
+      expect(await workflow.checkSla()).toHaveLength(0);
+      expect(onBreach).toHaveBeenCalledTimes(1);
+
+      await workflow.decide(late.id, 'reviewer-1', 'denied', 'ok');
+      now = new Date(now.getTime() + 8 * 24 * HOUR);
+      await workflow.checkSla();
+
+      expect((await workflow.get(late.id))?.state).toBe('final');
+      expect(onFinal).toHaveBeenCalledTimes(1);
+    });
+  });
+});
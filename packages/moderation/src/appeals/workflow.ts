@@ -0,0 +1,378 @@
+import { ReviewerAssigner, canReview, hasConflict } from './assignment';
+import {
+  AppealTransitionError,
+  DEFAULT_APPEAL_SLA,
+  OPEN_APPEAL_STATES,
+  assertTransition,
+  deadlineFor
+} from './state-machine';
+import { InMemoryAppealStore, type AppealFilter, type AppealStore } from './store';
+import type {
+  Appeal,
+  AppealAuditExport,
+  AppealDecision,
+  AppealEvent,
+  AppealEventType,
+  AppealPriority,
+  AppealSla,
+  AppealState,
+  Reviewer,
+  SlaBreach
+} from './types';
+
+export interface AppealWorkflowOptions {
+  store?: AppealStore;
+  // The current reviewer roster
+  reviewers?: () => Promise<Reviewer[]>;
+  sla?: AppealSla;
+  now?: () => Date;
+  onTransition?: (appeal: Appeal, from: AppealState, actorId?: string) => void | Promise<void>;
+  onBreach?: (breach: SlaBreach) => void | Promise<void>;
+  // Carries out the decision once nothing can change it any more
+  onFinal?: (appeal: Appeal) => void | Promise<void>;
+}
+
+export interface AppealSubmission {
+  subjectId: string;
+  appellantId: string;
+  reason: string;
+  evidence?: unknown;
+  // Whoever made the decision being appealed
+  conflictedIds?: string[];
+  skills?: string[];
+  priority?: AppealPriority;
+}
+
+export interface AppealTriage {
+  priority?: AppealPriority;
+  skills?: string[];
+}
+
+/**
+ * Moves appeals through submitted → triaged → in review → decided, then
+ * either straight to final or through one escalation to a second-level
+ * reviewer. Every change is checked against the transition table and
+ * the people involved, stored with optimistic concurrency and written to
+ * the appeal's audit trail.
+ */
+export class AppealWorkflow {
+  private store: AppealStore;
+  private reviewers: () => Promise<Reviewer[]>;
+  private sla: AppealSla;
+  private now: () => Date;
+  private assigner = new ReviewerAssigner();
+
+  constructor(private options: AppealWorkflowOptions = {}) {
+    this.store = options.store ?? new InMemoryAppealStore();
+    this.reviewers = options.reviewers ?? (async () => []);
+    this.sla = options.sla ?? DEFAULT_APPEAL_SLA;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async submit(submission: AppealSubmission): Promise<Appeal> {
+    const existing = await this.store.list({
+      subjectId: submission.subjectId,
+      appellantId: submission.appellantId
+    });
+    if (existing.length > 0) {
+      throw new Error('This decision has already been appealed');
+    }
+
+    const now = this.now();
+    const appeal: Appeal = {
+      id: crypto.randomUUID(),
+      subjectId: submission.subjectId,
+      appellantId: submission.appellantId,
+      reason: submission.reason,
+      evidence: submission.evidence,
+      state: 'submitted',
+      priority: submission.priority ?? 'normal',
+      skills: submission.skills ?? [],
+      conflictedIds: submission.conflictedIds ?? [],
+      level: 1,
+      stateEnteredAt: now,
+      deadlineAt: deadlineFor('submitted', now, this.sla),
+      createdAt: now,
+      updatedAt: now,
+      version: 1
+    };
+
+    await this.store.create(appeal);
+    await this.record(appeal, 'submitted', submission.appellantId, { to: 'submitted' });
+    return appeal;
+  }
+
+  // Sets what the appeal needs, then hands it to a reviewer if one is free
+  async triage(id: string, actorId: string, triage: AppealTriage = {}): Promise<Appeal> {
+    const submitted = await this.load(id);
+    // Appeals in review only go back through returnToTriage, by their reviewer
+    if (submitted.state !== 'submitted') {
+      throw new AppealTransitionError(submitted.state, 'triaged');
+    }
+
+    const appeal = await this.transition(submitted, 'triaged', actorId, {
+      ...(triage.priority && { priority: triage.priority }),
+      ...(triage.skills && { skills: triage.skills })
+    });
+    return this.assign(appeal.id, actorId);
+  }
+
+  /**
+   * Assign a reviewer, or pick one when none is given. Triaged appeals
+   * move into review; assigning an appeal already in review or escalated
+   * reassigns it. Without an eligible reviewer the appeal stays put.
+   */
+  async assign(id: string, actorId?: string, reviewerId?: string): Promise<Appeal> {
+    const appeal = await this.load(id);
+    if (!['triaged', 'in_review', 'escalated'].includes(appeal.state)) {
+      throw new Error(`Cannot assign an appeal that is ${appeal.state}`);
+    }
+
+    const reviewers = await this.reviewers();
+    let reviewer: Reviewer | null;
+    if (reviewerId) {
+      reviewer = reviewers.find(candidate => candidate.id === reviewerId) ?? null;
+      if (!reviewer) throw new Error(`Unknown reviewer ${reviewerId}`);
+      if (hasConflict(appeal, reviewerId)) {
+        throw new Error('Reviewer has a conflict of interest with this appeal');
+      }
+      if (!canReview(appeal, reviewer)) {
+        throw new Error('Reviewer cannot take this appeal');
+      }
+    } else {
+      reviewer = this.assigner.pick(
+        { ...appeal, assigneeId: undefined },
+        reviewers.filter(candidate => candidate.id !== appeal.assigneeId),
+        await this.openLoad()
+      );
+      if (!reviewer) return appeal;
+    }
+
+    this.assigner.record(reviewer.id);
+    const changes = { assigneeId: reviewer.id };
+    const assigned = appeal.state === 'triaged'
+      ? await this.transition(appeal, 'in_review', actorId, changes)
+      : await this.save(appeal, changes);
+
+    await this.record(assigned, 'assigned', actorId, {
+      details: { reviewerId: reviewer.id, previous: appeal.assigneeId }
+    });
+    return assigned;
+  }
+
+  // A reviewer gives an appeal back, e.g. because it needs skills they don't have
+  async returnToTriage(id: string, reviewerId: string, reason: string): Promise<Appeal> {
+    const appeal = await this.load(id);
+    this.assertAssignee(appeal, reviewerId);
+    return this.transition(appeal, 'triaged', reviewerId, { assigneeId: undefined }, { reason });
+  }
+
+  async decide(id: string, reviewerId: string, decision: AppealDecision, reason: string): Promise<Appeal> {
+    const appeal = await this.load(id);
+    if (appeal.state !== 'in_review') {
+      throw new AppealTransitionError(appeal.state, 'decided');
+    }
+    this.assertAssignee(appeal, reviewerId);
+
+    return this.transition(appeal, 'decided', reviewerId, {
+      decision,
+      decisionReason: reason,
+      decidedBy: reviewerId
+    });
+  }
+
+  // The appellant's one request for a second opinion, while the window is open
+  async escalate(id: string, actorId: string, reason: string): Promise<Appeal> {
+    const appeal = await this.load(id);
+    if (appeal.state !== 'decided') {
+      throw new AppealTransitionError(appeal.state, 'escalated');
+    }
+    if (actorId !== appeal.appellantId) {
+      throw new Error('Only the appellant can escalate an appeal');
+    }
+    if (appeal.deadlineAt && this.now() >= appeal.deadlineAt) {
+      throw new AppealTransitionError(appeal.state, 'escalated', 'the escalation window has closed');
+    }
+
+    const escalated = await this.transition(appeal, 'escalated', actorId, {
+      level: 2,
+      assigneeId: undefined,
+      escalationReason: reason
+    });
+    return this.assign(escalated.id);
+  }
+
+  /**
+   * Make a decision final. A first-level decision becomes final when the
+   * appellant accepts it or the escalation window closes; an escalated
+   * appeal needs its second-level reviewer's decision, which replaces
+   * the first.
+   */
+  async finalize(
+    id: string,
+    actorId?: string,
+    decision?: { decision: AppealDecision; reason: string }
+  ): Promise<Appeal> {
+    const appeal = await this.load(id);
+    let final: Appeal;
+
+    if (appeal.state === 'decided') {
+      const windowOpen = appeal.deadlineAt !== undefined && this.now() < appeal.deadlineAt;
+      if (actorId !== appeal.appellantId && windowOpen) {
+        throw new AppealTransitionError(appeal.state, 'final', 'the escalation window is still open');
+      }
+      final = await this.transition(appeal, 'final', actorId, {});
+    } else if (appeal.state === 'escalated') {
+      if (!actorId || !decision) {
+        throw new AppealTransitionError(appeal.state, 'final', 'a second-level decision is required');
+      }
+      this.assertAssignee(appeal, actorId);
+      final = await this.transition(appeal, 'final', actorId, {
+        decision: decision.decision,
+        decisionReason: decision.reason,
+        decidedBy: actorId
+      }, { firstDecision: appeal.decision, firstDecidedBy: appeal.decidedBy });
+    } else {
+      throw new AppealTransitionError(appeal.state, 'final');
+    }
+
+    await this.options.onFinal?.(final);
+    return final;
+  }
+
+  async addNote(id: string, actorId: string, note: string): Promise<void> {
+    await this.record(await this.load(id), 'note', actorId, { details: { note } });
+  }
+
+  /**
+   * Report appeals that have outlived their state's SLA, once per state,
+   * and finalize decisions whose escalation window has closed. Triaged
+   * appeals still waiting for a reviewer get another try at assignment.
+   */
+  async checkSla(): Promise<SlaBreach[]> {
+    const now = this.now();
+    const breaches: SlaBreach[] = [];
+
+    for (const appeal of await this.store.list({ states: [...OPEN_APPEAL_STATES, 'decided'] })) {
+      if (appeal.state === 'triaged' || (appeal.state === 'escalated' && !appeal.assigneeId)) {
+        await this.assign(appeal.id);
+      }
+
+      if (!appeal.deadlineAt || now < appeal.deadlineAt) continue;
+
+      if (appeal.state === 'decided') {
+        await this.finalize(appeal.id);
+        continue;
+      }
+
+      const current = await this.load(appeal.id);
+      if (current.breachedAt || current.state !== appeal.state) continue;
+
+      const breached = await this.save(current, { breachedAt: now });
+      const breach: SlaBreach = {
+        appeal: breached,
+        state: breached.state,
+        deadlineAt: appeal.deadlineAt,
+        overdueBy: now.getTime() - appeal.deadlineAt.getTime()
+      };
+      await this.record(breached, 'sla_breach', undefined, {
+        details: { state: breach.state, deadlineAt: breach.deadlineAt.toISOString(), assigneeId: breached.assigneeId }
+      });
+      await this.options.onBreach?.(breach);
+      breaches.push(breach);
+    }
+
+    return breaches;
+  }
+
+  async get(id: string): Promise<Appeal | null> {
+    return this.store.get(id);
+  }
+
+  async list(filter?: AppealFilter): Promise<Appeal[]> {
+    return this.store.list(filter);
+  }
+
+  async exportAudit(id: string): Promise<AppealAuditExport> {
+    return {
+      appeal: await this.load(id),
+      events: await this.store.events(id),
+      exportedAt: this.now()
+    };
+  }
+
+  private async load(id: string): Promise<Appeal> {
+    const appeal = await this.store.get(id);
+    if (!appeal) throw new Error(`Appeal ${id} not found`);
+    return appeal;
+  }
+
+  private assertAssignee(appeal: Appeal, reviewerId: string) {
+    if (appeal.assigneeId !== reviewerId) {
+      throw new Error('Only the assigned reviewer can act on this appeal');
+    }
+    // The conflicts may have grown since assignment
+    if (hasConflict(appeal, reviewerId)) {
+      throw new Error('Reviewer has a conflict of interest with this appeal');
+    }
+  }
+
+  private async transition(
+    appeal: Appeal,
+    to: AppealState,
+    actorId: string | undefined,
+    changes: Partial<Appeal>,
+    details?: Record<string, unknown>
+  ): Promise<Appeal> {
+    assertTransition(appeal.state, to);
+
+    const now = this.now();
+    const next = await this.save(appeal, {
+      ...changes,
+      state: to,
+      stateEnteredAt: now,
+      deadlineAt: deadlineFor(to, now, this.sla),
+      breachedAt: undefined
+    });
+
+    await this.record(next, 'transition', actorId, { from: appeal.state, to, details });
+    await this.options.onTransition?.(next, appeal.state, actorId);
+    return next;
+  }
+
+  private async save(appeal: Appeal, changes: Partial<Appeal>): Promise<Appeal> {
+    const next: Appeal = {
+      ...appeal,
+      ...changes,
+      updatedAt: this.now(),
+      version: appeal.version + 1
+    };
+    await this.store.update(next, appeal.version);
+    return next;
+  }
+
+  private async record(
+    appeal: Appeal,
+    type: AppealEventType,
+    actorId: string | undefined,
+    fields: Pick<AppealEvent, 'from' | 'to' | 'details'>
+  ): Promise<void> {
+    await this.store.appendEvent({
+      id: crypto.randomUUID(),
+      appealId: appeal.id,
+      type,
+      actorId,
+      at: this.now(),
+      ...fields
+    });
+  }
+
+  private async openLoad(): Promise<Map<string, number>> {
+    const load = new Map<string, number>();
+    for (const appeal of await this.store.list({ states: ['in_review', 'escalated'] })) {
+      if (appeal.assigneeId) load.set(appeal.assigneeId, (load.get(appeal.assigneeId) ?? 0) + 1);
+    }
+    return load;
+  }
+}
+
@@ -0,0 +1,206 @@
+import { popcount32 } from './hamming';
+import type { AudioHash } from './types';
+
+const SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const FRAME_STEP = 1365;
+const MIN_FREQUENCY = 28;
+const MAX_FREQUENCY = 3520;
+// Chroma magnitude of a tone around -60 dBFS; quieter frames count as silence
+const SILENCE = 1;
+
+export interface AudioComparison {
+  similarity: number;
+  // Frames b is shifted by relative to a at the best alignment
+  offset: number;
+}
+
+/**
+ * Chroma-based fingerprint in the spirit of Chromaprint (not compatible
+ * with it), from mono samples in -1..1. Audio is resampled to 11025 Hz
+ * and cut into overlapping 4096-sample frames, about eight a second;
+ * each frame's spectrum is folded into 12 pitch classes, and the
+ * sub-fingerprint records how neighbouring classes compare with each
+ * other and with the previous frame. Pitch classes ignore timbre and
+ * volume, so the fingerprint survives re-encoding, level changes and EQ.
+ */
+export function fingerprintAudio(samples: ArrayLike<number>, sampleRate: number): AudioHash {
+  const audio = resample(samples, sampleRate, SAMPLE_RATE);
+  const window = Float64Array.from(
+    { length: FRAME_SIZE },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1))
+  );
+  const pitchClasses = pitchClassBins();
+
+  const real = new Float64Array(FRAME_SIZE);
+  const imaginary = new Float64Array(FRAME_SIZE);
+  const fingerprint: number[] = [];
+  let previous: Float64Array | null = null;
+
+  for (let start = 0; start + FRAME_SIZE <= audio.length; start += FRAME_STEP) {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = audio[start + i]! * window[i]!;
+      imaginary[i] = 0;
+    }
+    fft(real, imaginary);
+
+    const chroma = new Float64Array(12);
+    for (let bin = 0; bin < pitchClasses.length; bin++) {
+      const pitchClass = pitchClasses[bin]!;
+      if (pitchClass >= 0) {
+        chroma[pitchClass] += real[bin]! ** 2 + imaginary[bin]! ** 2;
+      }
+    }
+    // Silence carries no information and would match every other quiet stretch
+    if (!normalize(chroma)) {
+      previous = null;
+      continue;
+    }
+
+    if (previous) {
+      fingerprint.push(subFingerprint(chroma, previous));
+    }
+    previous = chroma;
+  }
+
+  return { kind: 'audio', fingerprint };
+}
+
+/**
+ * Slide b along a and score the best alignment as 1 minus the bit error
+ * rate. Only offsets where some sub-fingerprints agree exactly are
+ * tried, which is what makes comparing long tracks affordable.
+ */
+export function compareFingerprints(a: number[], b: number[], minOverlap = 16): AudioComparison {
+  const overlapNeeded = Math.min(minOverlap, a.length, b.length);
+  if (!overlapNeeded) return { similarity: 0, offset: 0 };
+
+  const positions = new Map<number, number[]>();
+  a.forEach((value, i) => {
+    const list = positions.get(value);
+    if (list) list.push(i);
+    else positions.set(value, [i]);
+  });
+
+  const votes = new Map<number, number>([[0, 0]]);
+  b.forEach((value, j) => {
+    for (const i of positions.get(value) ?? []) {
+      votes.set(i - j, (votes.get(i - j) ?? 0) + 1);
+    }
+  });
+
+  const offsets = [...votes.entries()]
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, 8)
+    .map(([offset]) => offset);
+
+  let best: AudioComparison = { similarity: 0, offset: 0 };
+  for (const offset of offsets) {
+    const from = Math.max(0, offset);
+    const to = Math.min(a.length, b.length + offset);
+    if (to - from < overlapNeeded) continue;
+
+    let errors = 0;
+    for (let i = from; i < to; i++) {
+      errors += popcount32((a[i]! ^ b[i - offset]!) >>> 0);
+    }
+
+    const similarity = 1 - errors / ((to - from) * 32);
+    if (similarity > best.similarity) {
+      best = { similarity, offset };
+    }
+  }
+  return best;
+}
+
+// 32 bits: 12 for neighbouring classes, 12 for change since the last frame, 8 for pairs a third apart
+function subFingerprint(chroma: Float64Array, previous: Float64Array): number {
+  let bits = 0;
+  let bit = 0;
+  for (let m = 0; m < 12; m++, bit++) {
+    if (chroma[m]! > chroma[(m + 1) % 12]!) bits |= 1 << bit;
+  }
+  for (let m = 0; m < 12; m++, bit++) {
+    if (chroma[m]! > previous[m]!) bits |= 1 << bit;
+  }
+  for (let m = 0; m < 8; m++, bit++) {
+    if (chroma[m]! + chroma[m + 1]! > chroma[(m + 3) % 12]! + chroma[(m + 4) % 12]!) bits |= 1 << bit;
+  }
+  return bits >>> 0;
+}
+
+// Pitch class for each FFT bin, or -1 outside the musical range
+function pitchClassBins(): Int8Array {
+  const bins = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let bin = 1; bin < bins.length; bin++) {
+    const frequency = (bin * SAMPLE_RATE) / FRAME_SIZE;
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue;
+    const note = Math.round(12 * Math.log2(frequency / 440)) + 69;
+    bins[bin] = ((note % 12) + 12) % 12;
+  }
+  return bins;
+}
+
+// Scales to unit length in place; false when there is nothing to scale
+function normalize(values: Float64Array): boolean {
+  let norm = 0;
+  for (let i = 0; i < values.length; i++) norm += values[i]! ** 2;
+  norm = Math.sqrt(norm);
+  if (norm < SILENCE) return false;
+  for (let i = 0; i < values.length; i++) values[i] /= norm;
+  return true;
+}
+
+// Averages the source samples each output sample covers, so it also low-passes when downsampling
+function resample(samples: ArrayLike<number>, from: number, to: number): Float64Array {
+  if (!(from > 0)) throw new Error(`Invalid sample rate ${from}`);
+
+  const ratio = from / to;
+  const output = new Float64Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.max(start + 1, Math.min(samples.length, Math.floor((i + 1) * ratio)));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j]!;
+    output[i] = sum / (end - start);
+  }
+  return output;
+}
+
+// In-place iterative radix-2 FFT
+function fft(real: Float64Array, imaginary: Float64Array) {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j]!, real[i]!];
+      [imaginary[i], imaginary[j]] = [imaginary[j]!, imaginary[i]!];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImaginary = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1;
+      let twiddleImaginary = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const oddReal = real[odd]! * twiddleReal - imaginary[odd]! * twiddleImaginary;
+        const oddImaginary = real[odd]! * twiddleImaginary + imaginary[odd]! * twiddleReal;
+        real[odd] = real[even]! - oddReal;
+        imaginary[odd] = imaginary[even]! - oddImaginary;
+        real[even] += oddReal;
+        imaginary[even] += oddImaginary;
+        [twiddleReal, twiddleImaginary] = [
+          twiddleReal * stepReal - twiddleImaginary * stepImaginary,
+          twiddleReal * stepImaginary + twiddleImaginary * stepReal
+        ];
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+interface BKNode<T> {
+  item: T;
+  children: Map<number, BKNode<T>>;
+}
+
+export interface BKResult<T> {
+  item: T;
+  distance: number;
+}
+
+/**
+ * Burkhard-Keller tree over a metric such as Hamming distance. A radius
+ * search only descends into children whose edge distance is within the
+ * radius of the query's distance to the node (triangle inequality), so
+ * most of the tree is skipped for small radii.
+ */
+export class BKTree<T> {
+  private root: BKNode<T> | null = null;
+  private count = 0;
+
+  constructor(private distance: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(item: T) {
+    this.count++;
+    if (!this.root) {
+      this.root = { item, children: new Map() };
+      return;
+    }
+
+    let node = this.root;
+    for (;;) {
+      const distance = this.distance(item, node.item);
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { item, children: new Map() });
+        return;
+      }
+      node = child;
+    }
+  }
+
+  // Everything within radius of the query, nearest first
+  search(query: T, radius: number): BKResult<T>[] {
+    const results: BKResult<T>[] = [];
+    const pending = this.root ? [this.root] : [];
+
+    while (pending.length) {
+      const node = pending.pop()!;
+      const distance = this.distance(query, node.item);
+      if (distance <= radius) {
+        results.push({ item: node.item, distance });
+      }
+
+      for (const [edge, child] of node.children) {
+        if (edge >= distance - radius && edge <= distance + radius) {
+          pending.push(child);
+        }
+      }
+    }
+
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+}
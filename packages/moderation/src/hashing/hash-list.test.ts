@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryHashListStore, MediaHashList } from './hash-list';
+import type { AudioHash, ImageHash, VideoHash } from './types';
+
+// A hex hash with the lowest `bits` bits set, so it's that many bits from zero
+const hashWithBits = (bits: number) =>
+  (bits ? BigInt.asUintN(64, (1n << BigInt(bits)) - 1n) : 0n).toString(16).padStart(16, '0');
+
+const image = (phashBits: number, dhashBits = 0): ImageHash => ({
+  kind: 'image',
+  phash: hashWithBits(phashBits),
+  dhash: hashWithBits(dhashBits)
+});
+
+const video = (...keyframes: string[]): VideoHash => ({ kind: 'video', keyframes });
+
+// Deterministic sub-fingerprints that share few bits with each other
+const fingerprint = (seed: number, length = 64) => {
+  let state = seed;
+  return Array.from({ length }, () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state;
+  });
+};
+
+const audio = (values: number[]): AudioHash => ({ kind: 'audio', fingerprint: values });
+
+describe('MediaHashList', () => {
+  describe('image matching', () => {
+    it('matches images up to the pHash distance threshold', async () => {
+      const list = new MediaHashList();
+      await list.add(image(0), { sourceId: 'post-1' });
+
+      expect(list.match(image(10))).toHaveLength(1);
+      expect(list.match(image(10))[0]).toMatchObject({ distance: 10, similarity: 1 - 10 / 64 });
+      expect(list.match(image(11))).toEqual([]);
+    });
+
+    it('needs the dHash to agree as well', async () => {
+      const list = new MediaHashList();
+      await list.add(image(0), { sourceId: 'post-1' });
+
+      expect(list.match(image(0, 14))).toHaveLength(1);
+      expect(list.match(image(0, 15))).toEqual([]);
+    });
+
+    it('uses configured thresholds', async () => {
+      const list = new MediaHashList({ thresholds: { imageDistance: 4 } });
+      await list.add(image(0), { sourceId: 'post-1' });
+
+      expect(list.match(image(4))).toHaveLength(1);
+      expect(list.match(image(5))).toEqual([]);
+    });
+
+    it('ranks the closest match first', async () => {
+      const list = new MediaHashList();
+      await list.add(image(8), { sourceId: 'far' });
+      await list.add(image(2), { sourceId: 'near' });
+
+      expect(list.match(image(0)).map(match => match.entry.sourceId)).toEqual(['near', 'far']);
+    });
+  });
+
+  describe('video matching', () => {
+    const shots = ['0000000000000000', 'ffffffff00000000', '00000000ffffffff', 'ffff0000ffff0000', '0000ffff0000ffff'];
+
+    it('matches when enough keyframes line up in order', async () => {
+      const list = new MediaHashList();
+      await list.add(video(...shots), { sourceId: 'post-1' });
+
+      // A clip with three of the five shots
+      expect(list.match(video(shots[1]!, shots[2]!, shots[3]!))).toHaveLength(1);
+      expect(list.match(video(shots[0]!, shots[1]!, 'ffffffffffffffff'))).toHaveLength(1);
+    });
+
+    it('does not match below the similarity threshold or out of order', async () => {
+      const list = new MediaHashList();
+      await list.add(video(...shots), { sourceId: 'post-1' });
+
+      expect(list.match(video(shots[0]!, 'ffffffffffffffff', '0f0f0f0f0f0f0f0f'))).toEqual([]);
+      expect(list.match(video(shots[3]!, shots[2]!, shots[1]!))).toEqual([]);
+    });
+  });
+
+  describe('audio matching', () => {
+    it('matches a re-encoded copy and ignores unrelated audio', async () => {
+      const original = fingerprint(1);
+      const list = new MediaHashList();
+      await list.add(audio(original), { sourceId: 'post-1' });
+
+      // Flip a few bits in every other sub-fingerprint, as lossy re-encoding does
+      const reencoded = original.map((value, i) => (i % 2 ? (value ^ 0b101) >>> 0 : value));
+      expect(list.match(audio(reencoded))).toHaveLength(1);
+      expect(list.match(audio(fingerprint(2)))).toEqual([]);
+    });
+
+    it('does not match when too many bits differ', async () => {
+      const original = fingerprint(1);
+      const list = new MediaHashList();
+      await list.add(audio(original), { sourceId: 'post-1' });
+
+      // Enough shared values to be a candidate, but over a fifth of the bits differ
+      const distorted = original.map((value, i) => (i % 4 ? (value ^ 0xffff) >>> 0 : value));
+      expect(list.match(audio(distorted))).toEqual([]);
+    });
+  });
+
+  describe('entries', () => {
+    it('does not add the same source and hash twice', async () => {
+      const list = new MediaHashList();
+      const first = await list.add(image(0), { sourceId: 'post-1' });
+      const second = await list.add(image(0), { sourceId: 'post-1' });
+
+      expect(second.id).toBe(first.id);
+      expect(list.size).toBe(1);
+    });
+
+    it('stops matching removed entries and reloads from the store', async () => {
+      const store = new InMemoryHashListStore();
+      const list = new MediaHashList({ store });
+      const kept = await list.add(image(0), { sourceId: 'kept' });
+      const appealed = await list.add(image(40), { sourceId: 'appealed' });
+      await list.remove(appealed.id);
+
+      const reloaded = new MediaHashList({ store });
+      await reloaded.load();
+
+      expect(reloaded.match(image(40))).toEqual([]);
+      expect(reloaded.match(image(0)).map(match => match.entry.id)).toEqual([kept.id]);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { compareFingerprints } from './audio-fingerprint';
+import { BKTree } from './bk-tree';
+import { hammingDistance } from './hamming';
+import { keyframeSimilarity } from './video-hash';
+import type { HashListEntry, HashMatch, MatchThresholds, MediaHash } from './types';
+
+/**
+ * Hashes of media that was taken down. Entries are never edited, only
+ * added and removed (e.g. after a successful appeal).
+ */
+export interface HashListStore {
+  add(entry: HashListEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+  list(): Promise<HashListEntry[]>;
+}
+
+export class InMemoryHashListStore implements HashListStore {
+  private entries = new Map<string, HashListEntry>();
+
+  async add(entry: HashListEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async list(): Promise<HashListEntry[]> {
+    return [...this.entries.values()];
+  }
+}
+
+export const DEFAULT_MATCH_THRESHOLDS: MatchThresholds = {
+  imageDistance: 10,
+  dhashDistance: 14,
+  keyframeDistance: 10,
+  videoSimilarity: 0.6,
+  audioSimilarity: 0.8
+};
+
+export interface MediaHashListOptions {
+  store?: HashListStore;
+  thresholds?: Partial<MatchThresholds>;
+  now?: () => Date;
+}
+
+export interface HashListDetails {
+  sourceId?: string;
+  reason?: string;
+  addedBy?: string;
+}
+
+/**
+ * In-memory index over a hash list store. Image pHashes and video
+ * keyframes sit in BK-trees so a lookup only visits hashes that can be
+ * within the distance threshold; audio sub-fingerprints go in an
+ * inverted index, as AcoustID does, and candidates sharing any
+ * sub-fingerprint are then aligned and scored.
+ */
+export class MediaHashList {
+  private store: HashListStore;
+  private thresholds: MatchThresholds;
+  private now: () => Date;
+  private entries = new Map<string, HashListEntry>();
+  private bySource = new Map<string, string>();
+  private images = new HashIndex();
+  private keyframes = new HashIndex();
+  private audio = new Map<number, Set<string>>();
+
+  constructor(options: MediaHashListOptions = {}) {
+    this.store = options.store ?? new InMemoryHashListStore();
+    this.thresholds = { ...DEFAULT_MATCH_THRESHOLDS, ...options.thresholds };
+    this.now = options.now ?? (() => new Date());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Rebuild the indexes from the store
+  async load(): Promise<void> {
+    const entries = await this.store.list();
+    this.entries.clear();
+    this.bySource.clear();
+    this.images = new HashIndex();
+    this.keyframes = new HashIndex();
+    this.audio.clear();
+    entries.forEach(entry => this.index(entry));
+  }
+
+  /**
+   * Add the hash of a removed item. Adding the same source again returns
+   * the existing entry, so retried removals don't pile up duplicates.
+   */
+  async add(hash: MediaHash, details: HashListDetails = {}): Promise<HashListEntry> {
+    const sourceKey = details.sourceId && sourceKeyOf(details.sourceId, hash);
+    const existing = sourceKey && this.bySource.get(sourceKey);
+    if (existing) return this.entries.get(existing)!;
+
+    const entry: HashListEntry = {
+      id: crypto.randomUUID(),
+      hash,
+      ...details,
+      addedAt: this.now()
+    };
+
+    await this.store.add(entry);
+    this.index(entry);
+    return entry;
+  }
+
+  async remove(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    await this.store.remove(id);
+    if (!entry) return;
+
+    this.entries.delete(id);
+    if (entry.sourceId) this.bySource.delete(sourceKeyOf(entry.sourceId, entry.hash));
+
+    const { hash } = entry;
+    if (hash.kind === 'image') {
+      this.images.remove(hash.phash, id);
+    } else if (hash.kind === 'video') {
+      hash.keyframes.forEach(keyframe => this.keyframes.remove(keyframe, id));
+    } else {
+      hash.fingerprint.forEach(value => this.audio.get(value)?.delete(id));
+    }
+  }
+
+  // Listed media resembling the hash, most similar first
+  match(hash: MediaHash): HashMatch[] {
+    const matches = hash.kind === 'image'
+      ? this.matchImage(hash.phash, hash.dhash)
+      : hash.kind === 'video'
+        ? this.matchVideo(hash.keyframes)
+        : this.matchAudio(hash.fingerprint);
+
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private matchImage(phash: string, dhash: string): HashMatch[] {
+    const matches: HashMatch[] = [];
+    for (const { ids, distance } of this.images.search(phash, this.thresholds.imageDistance)) {
+      for (const id of ids) {
+        const entry = this.entries.get(id)!;
+        if (entry.hash.kind !== 'image') continue;
+        if (hammingDistance(dhash, entry.hash.dhash) > this.thresholds.dhashDistance) continue;
+        matches.push({ entry, similarity: 1 - distance / (phash.length * 4), distance });
+      }
+    }
+    return matches;
+  }
+
+  private matchVideo(keyframes: string[]): HashMatch[] {
+    const candidates = new Set<string>();
+    for (const keyframe of keyframes) {
+      for (const { ids } of this.keyframes.search(keyframe, this.thresholds.keyframeDistance)) {
+        ids.forEach(id => candidates.add(id));
+      }
+    }
+
+    const matches: HashMatch[] = [];
+    for (const id of candidates) {
+      const entry = this.entries.get(id)!;
+      if (entry.hash.kind !== 'video') continue;
+      const similarity = keyframeSimilarity(
+        keyframes,
+        entry.hash.keyframes,
+        this.thresholds.keyframeDistance
+      );
+      if (similarity >= this.thresholds.videoSimilarity) {
+        matches.push({ entry, similarity });
+      }
+    }
+    return matches;
+  }
+
+  private matchAudio(fingerprint: number[]): HashMatch[] {
+    const candidates = new Set<string>();
+    for (const value of fingerprint) {
+      this.audio.get(value)?.forEach(id => candidates.add(id));
+    }
+
+    const matches: HashMatch[] = [];
+    for (const id of candidates) {
+      const entry = this.entries.get(id)!;
+      if (entry.hash.kind !== 'audio') continue;
+      const { similarity } = compareFingerprints(entry.hash.fingerprint, fingerprint);
+      if (similarity >= this.thresholds.audioSimilarity) {
+        matches.push({ entry, similarity });
+      }
+    }
+    return matches;
+  }
+
+  private index(entry: HashListEntry) {
+    this.entries.set(entry.id, entry);
+    if (entry.sourceId) this.bySource.set(sourceKeyOf(entry.sourceId, entry.hash), entry.id);
+
+    const { hash } = entry;
+    if (hash.kind === 'image') {
+      this.images.add(hash.phash, entry.id);
+    } else if (hash.kind === 'video') {
+      hash.keyframes.forEach(keyframe => this.keyframes.add(keyframe, entry.id));
+    } else {
+      for (const value of hash.fingerprint) {
+        const ids = this.audio.get(value) ?? new Set<string>();
+        ids.add(entry.id);
+        this.audio.set(value, ids);
+      }
+    }
+  }
+}
+
+// A post can carry several media items, so the source alone isn't unique
+function sourceKeyOf(sourceId: string, hash: MediaHash): string {
+  const value = hash.kind === 'image'
+    ? hash.phash
+    : hash.kind === 'video'
+      ? hash.keyframes.join('')
+      : hash.fingerprint.slice(0, 16).join(',');
+  return `${sourceId}:${hash.kind}:${value}`;
+}
+
+/**
+ * Distinct hashes in a BK-tree, each with the entries that carry it.
+ * BK-trees can't delete, so a removed hash stays in the tree with no
+ * entries until dead hashes outnumber live ones and the tree is rebuilt.
+ */
+class HashIndex {
+  private tree = new BKTree<string>(hammingDistance);
+  private postings = new Map<string, Set<string>>();
+  private dead = 0;
+
+  add(hash: string, id: string) {
+    const ids = this.postings.get(hash);
+    if (ids) {
+      if (!ids.size) this.dead--;
+      ids.add(id);
+      return;
+    }
+    this.postings.set(hash, new Set([id]));
+    this.tree.add(hash);
+  }
+
+  remove(hash: string, id: string) {
+    const ids = this.postings.get(hash);
+    if (!ids?.delete(id) || ids.size) return;
+
+    this.dead++;
+    if (this.dead > this.postings.size - this.dead) this.rebuild();
+  }
+
+  search(hash: string, radius: number): Array<{ ids: Set<string>; distance: number }> {
+    return this.tree
+      .search(hash, radius)
+      .map(({ item, distance }) => ({ ids: this.postings.get(item)!, distance }))
+      .filter(({ ids }) => ids.size > 0);
+  }
+
+  private rebuild() {
+    this.tree = new BKTree<string>(hammingDistance);
+    for (const [hash, ids] of this.postings) {
+      if (ids.size) this.tree.add(hash);
+      else this.postings.delete(hash);
+    }
+    this.dead = 0;
+  }
+}
@@ -0,0 +1,147 @@
+import { bitsToHex } from './hamming';
+import type { ImageHash } from './types';
+
+// One luma value (0-255) per pixel, row by row
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+const DCT_SIZE = 32;
+const DCT_KEEP = 8;
+
+// Cosine basis for the low frequencies of a 32-point DCT-II
+const DCT_BASIS = Array.from({ length: DCT_KEEP }, (_, u) =>
+  Float64Array.from({ length: DCT_SIZE }, (_, x) =>
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE))
+  )
+);
+
+// Rec. 601 luma from interleaved RGB(A) pixels, as canvas and sharp give them
+export function toGrayscale(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels = 4
+): GrayscaleImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const offset = i * channels;
+    data[i] = channels < 3
+      ? pixels[offset]!
+      : 0.299 * pixels[offset]! + 0.587 * pixels[offset + 1]! + 0.114 * pixels[offset + 2]!;
+  }
+  return { width, height, data };
+}
+
+/**
+ * Box-filter resize: every output pixel is the area-weighted mean of
+ * the source pixels it covers, so downscaling doesn't alias the way
+ * nearest-neighbour sampling would.
+ */
+export function resizeGrayscale(image: GrayscaleImage, width: number, height: number): Float64Array {
+  if (image.width < 1 || image.height < 1 || image.data.length < image.width * image.height) {
+    throw new Error(`Invalid ${image.width}x${image.height} image`);
+  }
+
+  const rows = new Float64Array(width * image.height);
+  for (let y = 0; y < image.height; y++) {
+    resampleLine(
+      x => image.data[y * image.width + x]!,
+      image.width,
+      (x, value) => { rows[y * width + x] = value; },
+      width
+    );
+  }
+
+  const output = new Float64Array(width * height);
+  for (let x = 0; x < width; x++) {
+    resampleLine(
+      y => rows[y * width + x]!,
+      image.height,
+      (y, value) => { output[y * width + x] = value; },
+      height
+    );
+  }
+  return output;
+}
+
+/**
+ * Difference hash: shrink to 9x8 and record whether each pixel is
+ * brighter than its left neighbour. Cheap, and robust to rescaling and
+ * recompression.
+ */
+export function dHash(image: GrayscaleImage): string {
+  const pixels = resizeGrayscale(image, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x + 1]! > pixels[y * 9 + x]!);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+/**
+ * Perceptual hash: shrink to 32x32, take the 8x8 lowest frequencies of
+ * its DCT and record which lie above their median. Survives colour
+ * shifts, light filters and small crops better than dHash.
+ */
+export function pHash(image: GrayscaleImage): string {
+  const pixels = resizeGrayscale(image, DCT_SIZE, DCT_SIZE);
+
+  // Separable 2D DCT, computing only the coefficients that are kept
+  const partial = new Float64Array(DCT_KEEP * DCT_SIZE);
+  for (let u = 0; u < DCT_KEEP; u++) {
+    for (let y = 0; y < DCT_SIZE; y++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) {
+        sum += pixels[y * DCT_SIZE + x]! * DCT_BASIS[u]![x]!;
+      }
+      partial[u * DCT_SIZE + y] = sum;
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < DCT_KEEP; v++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        sum += partial[u * DCT_SIZE + y]! * DCT_BASIS[v]![y]!;
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  const median = medianOf(coefficients);
+  return bitsToHex(coefficients.map(coefficient => coefficient > median));
+}
+
+export function hashImage(image: GrayscaleImage): ImageHash {
+  return { kind: 'image', phash: pHash(image), dhash: dHash(image) };
+}
+
+function resampleLine(
+  read: (index: number) => number,
+  sourceLength: number,
+  write: (index: number, value: number) => void,
+  targetLength: number
+) {
+  const scale = sourceLength / targetLength;
+  for (let i = 0; i < targetLength; i++) {
+    const start = i * scale;
+    const end = start + scale;
+    let sum = 0;
+    for (let j = Math.floor(start); j < Math.min(Math.ceil(end), sourceLength); j++) {
+      sum += read(j) * (Math.min(end, j + 1) - Math.max(start, j));
+    }
+    write(i, sum / scale);
+  }
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
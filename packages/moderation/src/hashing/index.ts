@@ -0,0 +1,27 @@
+export { MediaHashList, InMemoryHashListStore, DEFAULT_MATCH_THRESHOLDS } from './hash-list';
+export type { HashListStore, MediaHashListOptions, HashListDetails } from './hash-list';
+export { RemovedMediaQueue, InMemoryRemovedMediaStore } from './removal-queue';
+export type {
+  RemovedMedia,
+  RemovedMediaResolver,
+  RemovedMediaStore,
+  RemovedMediaQueueOptions
+} from './removal-queue';
+export { hashImage, pHash, dHash, toGrayscale, resizeGrayscale } from './image-hash';
+export type { GrayscaleImage } from './image-hash';
+export { hashVideoFrames, keyframeSimilarity } from './video-hash';
+export type { KeyframeOptions } from './video-hash';
+export { fingerprintAudio, compareFingerprints } from './audio-fingerprint';
+export type { AudioComparison } from './audio-fingerprint';
+export { BKTree } from './bk-tree';
+export { hammingDistance } from './hamming';
+export type {
+  MediaKind,
+  ImageHash,
+  VideoHash,
+  AudioHash,
+  MediaHash,
+  HashListEntry,
+  HashMatch,
+  MatchThresholds
+} from './types';
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MediaHashList } from './hash-list';
+import { InMemoryRemovedMediaStore, RemovedMediaQueue } from './removal-queue';
+import type { ImageHash } from './types';
+
+const hash: ImageHash = { kind: 'image', phash: '0f0f0f0f0f0f0f0f', dhash: 'f0f0f0f0f0f0f0f0' };
+
+describe('RemovedMediaQueue', () => {
+  it('adds resolved hashes to the list and clears the store', async () => {
+    const list = new MediaHashList();
+    const store = new InMemoryRemovedMediaStore();
+    const queue = new RemovedMediaQueue(list, async () => [hash], { store });
+
+    await queue.enqueue({ sourceId: 'post-1', reason: 'spam' });
+    await queue.drain();
+
+    expect(list.match(hash)[0]?.entry).toMatchObject({ sourceId: 'post-1', reason: 'spam' });
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('keeps items in the store until they have been hashed', async () => {
+    const store = new InMemoryRemovedMediaStore();
+    let release = () => {};
+    const blocked = new Promise<void>(resolve => (release = resolve));
+    const resolve = async () => {
+      await blocked;
+      return [hash];
+    };
+    const queue = new RemovedMediaQueue(new MediaHashList(), resolve, { store });
+
+    await queue.enqueue({ sourceId: 'post-1' });
+    expect(await store.list()).toEqual([{ sourceId: 'post-1' }]);
+
+    release();
+    await queue.drain();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('picks up stored items after a restart', async () => {
+    const store = new InMemoryRemovedMediaStore();
+    await store.add({ sourceId: 'post-1', hashes: [hash] });
+
+    const list = new MediaHashList();
+    const queue = new RemovedMediaQueue(list, undefined, { store });
+    await queue.restore();
+    await queue.drain();
+
+    expect(list.match(hash)).toHaveLength(1);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('retries failures and gives up after the last attempt', async () => {
+    const store = new InMemoryRemovedMediaStore();
+    const resolve = vi.fn().mockRejectedValue(new Error('Media not found'));
+    const onError = vi.fn();
+    const queue = new RemovedMediaQueue(new MediaHashList(), resolve, {
+      store,
+      maxAttempts: 2,
+      onError
+    });
+
+    await queue.enqueue({ sourceId: 'post-1' });
+    await queue.drain();
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), { sourceId: 'post-1' });
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('does not queue an item that is already waiting', async () => {
+    const resolve = vi.fn().mockResolvedValue([hash]);
+    const queue = new RemovedMediaQueue(new MediaHashList(), resolve);
+
+    queue.enqueue({ sourceId: 'post-1' });
+    queue.enqueue({ sourceId: 'post-1' });
+    await queue.drain();
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,162 @@
+import type { HashListEntry, MediaHash } from './types';
+import type { MediaHashList } from './hash-list';
+
+export interface RemovedMedia {
+  sourceId: string;
+  reason?: string;
+  removedBy?: string;
+  // Hashes already taken at upload; otherwise the resolver finds them
+  hashes?: MediaHash[];
+}
+
+// Hashes of a removed item's media, e.g. read back from where they were stored at upload
+export type RemovedMediaResolver = (item: RemovedMedia) => Promise<MediaHash[]>;
+
+/**
+ * Where queued items wait until they reach the hash list, so a restart
+ * doesn't drop takedowns that were still being hashed
+ */
+export interface RemovedMediaStore {
+  add(item: RemovedMedia): Promise<void>;
+  remove(sourceId: string): Promise<void>;
+  list(): Promise<RemovedMedia[]>;
+}
+
+export class InMemoryRemovedMediaStore implements RemovedMediaStore {
+  private items = new Map<string, RemovedMedia>();
+
+  async add(item: RemovedMedia): Promise<void> {
+    this.items.set(item.sourceId, item);
+  }
+
+  async remove(sourceId: string): Promise<void> {
+    this.items.delete(sourceId);
+  }
+
+  async list(): Promise<RemovedMedia[]> {
+    return [...this.items.values()];
+  }
+}
+
+export interface RemovedMediaQueueOptions {
+  store?: RemovedMediaStore;
+  maxAttempts?: number;
+  onAdded?: (entries: HashListEntry[], item: RemovedMedia) => void;
+  onError?: (error: unknown, item: RemovedMedia) => void;
+}
+
+/**
+ * Feeds removed items into a hash list in the background, so a takedown
+ * doesn't wait on decoding or hashing media. Items are handled one at a
+ * time and retried on failure; an item already waiting isn't queued twice.
+ * Items stay in the store until they're added or given up on, and
+ * `restore` picks them up again after a restart.
+ */
+export class RemovedMediaQueue {
+  private queue: QueuedItem[] = [];
+  private running: Promise<void> | null = null;
+  private store: RemovedMediaStore;
+  private maxAttempts: number;
+
+  constructor(
+    private list: MediaHashList,
+    private resolve: RemovedMediaResolver = async () => [],
+    private options: RemovedMediaQueueOptions = {}
+  ) {
+    this.store = options.store ?? new InMemoryRemovedMediaStore();
+    this.maxAttempts = options.maxAttempts ?? 3;
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  // Resolves once the item is in the store; hashing carries on in the background
+  async enqueue(item: RemovedMedia): Promise<void> {
+    if (this.isQueued(item.sourceId)) return;
+
+    const saved = this.store.add(item);
+    this.queue.push({ item, attempts: 0, saved: saved.catch(() => {}) });
+    this.start();
+    await saved;
+  }
+
+  // Queue the items an earlier process left in the store
+  async restore(): Promise<void> {
+    for (const item of await this.store.list()) {
+      if (this.isQueued(item.sourceId)) continue;
+      this.queue.push({ item, attempts: 0, saved: Promise.resolve() });
+    }
+    if (this.queue.length) this.start();
+  }
+
+  // Resolves once everything queued so far has been added or given up on
+  async drain(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  private start() {
+    if (this.running) return;
+    this.running = this.run().finally(() => {
+      this.running = null;
+      // Picks up anything enqueued after the loop saw an empty queue
+      if (this.queue.length) this.start();
+    });
+  }
+
+  private async run() {
+    for (let next = this.queue[0]; next; next = this.queue[0]) {
+      try {
+        const hashes = next.item.hashes ?? (await this.resolve(next.item));
+        const entries: HashListEntry[] = [];
+        for (const hash of hashes) {
+          entries.push(
+            await this.list.add(hash, {
+              sourceId: next.item.sourceId,
+              reason: next.item.reason,
+              addedBy: next.item.removedBy
+            })
+          );
+        }
+
+        this.queue.shift();
+        await this.settle(next);
+        this.options.onAdded?.(entries, next.item);
+      } catch (error) {
+        this.queue.shift();
+        if (++next.attempts < this.maxAttempts) {
+          this.queue.push(next);
+          continue;
+        }
+
+        await this.settle(next);
+        if (this.options.onError) {
+          this.options.onError(error, next.item);
+        } else {
+          console.error('Error adding removed media to hash list:', error);
+        }
+      }
+    }
+  }
+
+  private isQueued(sourceId: string): boolean {
+    return this.queue.some(queued => queued.item.sourceId === sourceId);
+  }
+
+  // Left in the store if this fails, so the item is retried after a restart
+  private async settle({ item, saved }: QueuedItem) {
+    await saved;
+    await this.store
+      .remove(item.sourceId)
+      .catch(error => console.error('Error removing item from removed media store:', error));
+  }
+}
+
+interface QueuedItem {
+  item: RemovedMedia;
+  attempts: number;
+  // The write to the store, which has to land before the item is removed from it
+  saved: Promise<void>;
+}
@@ -0,0 +1,53 @@
+export type MediaKind = 'image' | 'video' | 'audio';
+
+// 64-bit hashes are kept as 16 hex characters so they serialize as-is
+export interface ImageHash {
+  kind: 'image';
+  phash: string;
+  dhash: string;
+}
+
+// pHashes of the frames where the picture changes, in playback order
+export interface VideoHash {
+  kind: 'video';
+  keyframes: string[];
+}
+
+// One 32-bit sub-fingerprint per analysis frame, in playback order
+export interface AudioHash {
+  kind: 'audio';
+  fingerprint: number[];
+}
+
+export type MediaHash = ImageHash | VideoHash | AudioHash;
+
+export interface HashListEntry {
+  id: string;
+  hash: MediaHash;
+  // The removed item the hash was taken from
+  sourceId?: string;
+  reason?: string;
+  addedAt: Date;
+  addedBy?: string;
+}
+
+export interface HashMatch {
+  entry: HashListEntry;
+  // 0..1, where 1 is an exact match
+  similarity: number;
+  // Bits apart, for image matches
+  distance?: number;
+}
+
+export interface MatchThresholds {
+  // Max pHash bits apart for an image match
+  imageDistance: number;
+  // Max dHash bits apart, checked as well so one hash can't match on its own
+  dhashDistance: number;
+  // Max pHash bits apart for two keyframes to count as the same shot
+  keyframeDistance: number;
+  // Share of the shorter keyframe sequence that has to line up
+  videoSimilarity: number;
+  // 1 - bit error rate over the best alignment
+  audioSimilarity: number;
+}
@@ -0,0 +1,65 @@
+import { hammingDistance } from './hamming';
+import { pHash, type GrayscaleImage } from './image-hash';
+import type { VideoHash } from './types';
+
+export interface KeyframeOptions {
+  // pHash bits a frame must differ from the last keyframe by to start a new shot
+  sceneThreshold?: number;
+  // Longer sequences are thinned evenly down to this many keyframes
+  maxKeyframes?: number;
+}
+
+/**
+ * Hash a video from frames sampled at a steady rate (one a second
+ * works well). Runs of near-identical frames collapse to a single
+ * keyframe, so the sequence follows the edit rather than the frame rate
+ * and re-encodes at a different rate still line up.
+ */
+export function hashVideoFrames(
+  frames: Iterable<GrayscaleImage>,
+  options: KeyframeOptions = {}
+): VideoHash {
+  const { sceneThreshold = 12, maxKeyframes = 120 } = options;
+
+  const keyframes: string[] = [];
+  for (const frame of frames) {
+    const hash = pHash(frame);
+    const previous = keyframes[keyframes.length - 1];
+    if (previous === undefined || hammingDistance(previous, hash) > sceneThreshold) {
+      keyframes.push(hash);
+    }
+  }
+
+  if (keyframes.length <= maxKeyframes) {
+    return { kind: 'video', keyframes };
+  }
+
+  const step = keyframes.length / maxKeyframes;
+  return {
+    kind: 'video',
+    keyframes: Array.from({ length: maxKeyframes }, (_, i) => keyframes[Math.floor(i * step)]!)
+  };
+}
+
+/**
+ * Share of the shorter sequence found, in order, in the other: the
+ * longest common subsequence where keyframes within maxDistance bits
+ * count as equal. Ordering matters so that two videos sharing a few
+ * stock shots don't match, while a clip cut from a longer video does.
+ */
+export function keyframeSimilarity(a: string[], b: string[], maxDistance: number): number {
+  if (!a.length || !b.length) return 0;
+
+  let previous = new Uint16Array(b.length + 1);
+  let current = new Uint16Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = hammingDistance(a[i - 1]!, b[j - 1]!) <= maxDistance
+        ? previous[j - 1]! + 1
+        : Math.max(previous[j]!, current[j - 1]!);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length]! / Math.min(a.length, b.length);
+}
@@ -1,3 +1,5 @@
+import type { ModerationConfig } from './types';
+
 export { ModerationService } from './services/moderation-service';
 export type {
   ContentType,
@@ -10,8 +12,29 @@ export type {
   ModerationStats
 } from './types';
 
+// Policy engine
+export * from './policy';
+
+// Perceptual hashing of known-bad media
+export * from './hashing';
+
+// Appeals against moderation decisions
+export * from './appeals';
+
+// Container sniffing for uploaded media; MediaKind is already exported by the hashing module
+export { sniffMedia, validateMedia, blobSource, bytesSource, MediaValidationError } from './media';
+export type {
+  ByteSource,
+  MediaFormat,
+  MediaInfo,
+  MediaRejection,
+  MediaRejectionCode,
+  MediaValidationOptions,
+  MediaValidationResult
+} from './media';
+
 // Re-export utility functions
-export { isToxicContent } from './utils/content-analysis';
+export { isToxicContent, TOXIC_CONDITIONS } from './utils/content-analysis';
 export { validateContent } from './utils/validation';
 export { formatModerationResult } from './utils/formatting';
 
@@ -0,0 +1,217 @@
+import { MediaReader, matches } from './reader';
+import { riffChunks } from './riff';
+import { MediaInfo, MediaValidationError } from './types';
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  'v1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'v1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'v1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'v2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'v2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  'v2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const MAX_FRAMES = 1_000_000;
+
+/**
+ * Length of a leading ID3v2 tag, or 0 if there is none.
+ */
+export async function id3v2Length(reader: MediaReader): Promise<number> {
+  const header = await reader.peek(0, 10);
+  if (!matches(header, [0x49, 0x44, 0x33]) || header.length < 10) return 0;
+  // Syncsafe integer: 7 bits per byte
+  const size = ((header[6]! & 0x7f) << 21) | ((header[7]! & 0x7f) << 14) | ((header[8]! & 0x7f) << 7) | (header[9]! & 0x7f);
+  const footer = header[5]! & 0x10 ? 10 : 0;
+  return 10 + size + footer;
+}
+
+export function isAdtsHeader(bytes: Uint8Array, offset = 0): boolean {
+  return bytes[offset] === 0xff && ((bytes[offset + 1] ?? 0) & 0xf6) === 0xf0;
+}
+
+export function isMpegAudioHeader(bytes: Uint8Array, offset = 0): boolean {
+  return bytes[offset] === 0xff && ((bytes[offset + 1] ?? 0) & 0xe0) === 0xe0 && ((bytes[offset + 1] ?? 0) & 0x06) !== 0;
+}
+
+function mpegFrame(header: Uint8Array) {
+  const version = (header[1]! >> 3) & 0x03;
+  const layer = 4 - ((header[1]! >> 1) & 0x03);
+  const bitrateIndex = header[2]! >> 4;
+  const sampleRateIndex = (header[2]! >> 2) & 0x03;
+  const padding = (header[2]! >> 1) & 0x01;
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return undefined;
+  }
+
+  const bitrate = MPEG_BITRATES[`${version === 3 ? 'v1' : 'v2'}-${layer}`]![bitrateIndex]! * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version]![sampleRateIndex]!;
+  let length: number;
+  let samples: number;
+  if (layer === 1) {
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+    samples = 384;
+  } else {
+    const lowSampleRate = layer === 3 && version !== 3;
+    length = Math.floor(((lowSampleRate ? 72 : 144) * bitrate) / sampleRate) + padding;
+    samples = lowSampleRate ? 576 : 1152;
+  }
+  return { length, samples, sampleRate, layer };
+}
+
+async function requireAudioTail(reader: MediaReader, offset: number, format: string) {
+  const remaining = reader.size - offset;
+  if (remaining === 0) return;
+  // An ID3v1 tag is the only thing allowed after the last frame
+  if (remaining === 128 && (await reader.ascii(offset, 3)) === 'TAG') return;
+  throw new MediaValidationError('trailing_data', `Unexpected data after ${format} frames at offset ${offset}`);
+}
+
+export async function parseMp3(reader: MediaReader, start: number): Promise<MediaInfo> {
+  let offset = start;
+  let frames = 0;
+  let duration = 0;
+  let layer = 3;
+
+  while (offset < reader.size) {
+    const header = await reader.peek(offset, 4);
+    if (header.length < 4 || !isMpegAudioHeader(header)) break;
+    const frame = mpegFrame(header);
+    if (!frame) {
+      throw new MediaValidationError('malformed', `Invalid MPEG audio frame header at offset ${offset}`);
+    }
+    if (offset + frame.length > reader.size) {
+      throw new MediaValidationError('truncated', `MPEG audio frame at offset ${offset} runs past the end of the file`);
+    }
+    if (++frames > MAX_FRAMES) {
+      throw new MediaValidationError('malformed', 'Too many MPEG audio frames');
+    }
+    layer = frame.layer;
+    duration += frame.samples / frame.sampleRate;
+    offset += frame.length;
+  }
+
+  // One stray sync word is common in random data; two chained frames are not
+  if (frames < 2) {
+    throw new MediaValidationError('unrecognized_format', 'No MPEG audio frames found');
+  }
+  await requireAudioTail(reader, offset, 'MP3');
+  return { kind: 'audio', format: 'mp3', mimeType: 'audio/mpeg', duration, codecs: [`mp${layer}`] };
+}
+
+export async function parseAdts(reader: MediaReader, start: number): Promise<MediaInfo> {
+  let offset = start;
+  let frames = 0;
+  let duration = 0;
+
+  while (offset < reader.size) {
+    const header = await reader.peek(offset, 7);
+    if (header.length < 7 || !isAdtsHeader(header)) break;
+    const sampleRate = ADTS_SAMPLE_RATES[(header[2]! >> 2) & 0x0f];
+    const length = ((header[3]! & 0x03) << 11) | (header[4]! << 3) | (header[5]! >> 5);
+    if (!sampleRate || length < 7) {
+      throw new MediaValidationError('malformed', `Invalid ADTS frame header at offset ${offset}`);
+    }
+    if (offset + length > reader.size) {
+      throw new MediaValidationError('truncated', `ADTS frame at offset ${offset} runs past the end of the file`);
+    }
+    if (++frames > MAX_FRAMES) {
+      throw new MediaValidationError('malformed', 'Too many ADTS frames');
+    }
+    duration += (((header[6]! & 0x03) + 1) * 1024) / sampleRate;
+    offset += length;
+  }
+
+  if (frames < 2) {
+    throw new MediaValidationError('unrecognized_format', 'No ADTS frames found');
+  }
+  await requireAudioTail(reader, offset, 'AAC');
+  return { kind: 'audio', format: 'aac', mimeType: 'audio/aac', duration, codecs: ['mp4a'] };
+}
+
+export async function parseOgg(reader: MediaReader): Promise<MediaInfo> {
+  const info: MediaInfo = { kind: 'audio', format: 'ogg', mimeType: 'audio/ogg', codecs: [] };
+  let offset = 0;
+  let firstSerial: number | undefined;
+  let lastGranule = 0n;
+  let sampleRate: number | undefined;
+  let preSkip = 0;
+  let pages = 0;
+
+  while (offset < reader.size) {
+    if ((await reader.peek(offset, 4)).length < 4 || (await reader.ascii(offset, 4)) !== 'OggS') {
+      throw new MediaValidationError('trailing_data', `Unexpected data after Ogg pages at offset ${offset}`);
+    }
+    const header = await reader.view(offset, 27);
+    const segments = header.getUint8(26);
+    const lacing = await reader.bytes(offset + 27, segments);
+    const bodyStart = offset + 27 + segments;
+    const bodyLength = lacing.reduce((sum, value) => sum + value, 0);
+    if (bodyStart + bodyLength > reader.size) {
+      throw new MediaValidationError('truncated', `Ogg page at offset ${offset} runs past the end of the file`);
+    }
+    if (++pages > MAX_FRAMES) {
+      throw new MediaValidationError('malformed', 'Too many Ogg pages');
+    }
+
+    const serial = header.getUint32(14, true);
+    if (firstSerial === undefined) {
+      firstSerial = serial;
+      const packet = await reader.peek(bodyStart, Math.min(bodyLength, 32));
+      if (matches(packet, [0x01, 0x76, 0x6f, 0x72, 0x62, 0x69, 0x73])) {
+        info.codecs.push('vorbis');
+        sampleRate = new DataView(packet.buffer, packet.byteOffset).getUint32(12, true);
+      } else if (matches(packet, [0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64])) {
+        info.codecs.push('opus');
+        sampleRate = 48000;
+        preSkip = new DataView(packet.buffer, packet.byteOffset).getUint16(10, true);
+      } else if (matches(packet, [0x80, 0x74, 0x68, 0x65, 0x6f, 0x72, 0x61])) {
+        info.codecs.push('theora');
+        info.kind = 'video';
+        info.mimeType = 'video/ogg';
+      } else if (matches(packet, [0x7f, 0x46, 0x4c, 0x41, 0x43])) {
+        info.codecs.push('flac');
+      } else {
+        throw new MediaValidationError('unrecognized_format', 'Unknown Ogg codec');
+      }
+    }
+
+    const granule = header.getBigInt64(6, true);
+    // -1 marks pages where no packet finishes
+    if (serial === firstSerial && granule >= 0n) {
+      lastGranule = granule;
+    }
+    offset = bodyStart + bodyLength;
+  }
+
+  if (sampleRate) {
+    info.duration = Math.max(0, Number(lastGranule) - preSkip) / sampleRate;
+  }
+  return info;
+}
+
+export async function parseWav(reader: MediaReader): Promise<MediaInfo> {
+  const chunks = await riffChunks(reader, 'WAVE');
+  const fmt = chunks.find(chunk => chunk.id === 'fmt ');
+  const data = chunks.find(chunk => chunk.id === 'data');
+  if (!fmt || fmt.size < 16 || !data) {
+    throw new MediaValidationError('malformed', 'WAV is missing its fmt or data chunk');
+  }
+
+  const format = await reader.view(fmt.start, 16);
+  const codec = format.getUint16(0, true);
+  const byteRate = format.getUint32(8, true);
+  const codecNames: Record<number, string> = { 1: 'pcm', 3: 'float', 6: 'alaw', 7: 'mulaw', 0x55: 'mp3', 0xfffe: 'extensible' };
+
+  return {
+    kind: 'audio',
+    format: 'wav',
+    mimeType: 'audio/wav',
+    duration: byteRate > 0 ? data.size / byteRate : undefined,
+    codecs: [codecNames[codec] ?? `0x${codec.toString(16)}`],
+  };
+}
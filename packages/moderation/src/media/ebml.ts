@@ -0,0 +1,173 @@
+import { MediaReader } from './reader';
+import { MediaInfo, MediaValidationError } from './types';
+
+const EBML_HEADER = 0x1a45dfa3;
+const DOC_TYPE = 0x4282;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675;
+
+const MAX_ELEMENTS = 100_000;
+
+interface Element {
+  id: number;
+  start: number;
+  /** Undefined for unknown-size elements, as written by live encoders */
+  size?: number;
+  end: number;
+}
+
+async function readVint(reader: MediaReader, offset: number, keepMarker: boolean) {
+  const first = (await reader.bytes(offset, 1))[0]!;
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) {
+    throw new MediaValidationError('malformed', `Invalid EBML variable-length integer at offset ${offset}`);
+  }
+
+  const bytes = await reader.bytes(offset, length);
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[i]!;
+    allOnes &&= bytes[i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+async function* elements(reader: MediaReader, start: number, end: number): AsyncGenerator<Element> {
+  let offset = start;
+  let count = 0;
+  while (offset < end) {
+    if (++count > MAX_ELEMENTS) {
+      throw new MediaValidationError('malformed', 'Too many EBML elements');
+    }
+    const id = await readVint(reader, offset, true);
+    const size = await readVint(reader, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    if (size.unknown) {
+      yield { id: id.value, start: dataStart, end };
+      return;
+    }
+    const elementEnd = dataStart + size.value;
+    if (elementEnd > end) {
+      throw new MediaValidationError(
+        elementEnd > reader.size ? 'truncated' : 'malformed',
+        `EBML element 0x${id.value.toString(16)} at offset ${offset} runs past its parent`
+      );
+    }
+    yield { id: id.value, start: dataStart, size: size.value, end: elementEnd };
+    offset = elementEnd;
+  }
+}
+
+async function readUint(reader: MediaReader, element: Element): Promise<number> {
+  if (element.end - element.start > 8) {
+    throw new MediaValidationError('malformed', `Oversized integer element at offset ${element.start}`);
+  }
+  const bytes = await reader.bytes(element.start, element.end - element.start);
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+async function readString(reader: MediaReader, element: Element): Promise<string> {
+  if (element.end - element.start > 256) {
+    throw new MediaValidationError('malformed', `Oversized string element at offset ${element.start}`);
+  }
+  return reader.ascii(element.start, element.end - element.start);
+}
+
+async function readFloat(reader: MediaReader, element: Element): Promise<number> {
+  const view = await reader.view(element.start, element.end - element.start);
+  return view.byteLength === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+/**
+ * WebM and Matroska. Reads the EBML header, segment info and track entries;
+ * clusters are bounds-checked but not decoded.
+ */
+export async function parseEbml(reader: MediaReader): Promise<MediaInfo> {
+  const top = elements(reader, 0, reader.size);
+  const header = (await top.next()).value as Element | undefined;
+  if (!header || header.id !== EBML_HEADER) {
+    throw new MediaValidationError('unrecognized_format', 'Missing EBML header');
+  }
+
+  let docType = 'matroska';
+  for await (const element of elements(reader, header.start, header.end)) {
+    if (element.id === DOC_TYPE) {
+      docType = await readString(reader, element);
+    }
+  }
+  if (docType !== 'webm' && docType !== 'matroska') {
+    throw new MediaValidationError('unrecognized_format', `Unsupported EBML document type ${docType}`);
+  }
+
+  const segment = (await top.next()).value as Element | undefined;
+  if (!segment || segment.id !== SEGMENT) {
+    throw new MediaValidationError('malformed', 'Missing Segment element');
+  }
+  // Anything after a sized Segment is not part of the file
+  if (segment.end < reader.size) {
+    throw new MediaValidationError('trailing_data', `Unexpected data at offset ${segment.end}`);
+  }
+
+  const info: MediaInfo = {
+    kind: 'video',
+    format: docType === 'webm' ? 'webm' : 'mkv',
+    mimeType: docType === 'webm' ? 'video/webm' : 'video/x-matroska',
+    codecs: [],
+  };
+  let timecodeScale = 1_000_000;
+  let rawDuration: number | undefined;
+  const trackTypes: number[] = [];
+
+  for await (const child of elements(reader, segment.start, segment.end)) {
+    if (child.id === INFO) {
+      for await (const field of elements(reader, child.start, child.end)) {
+        if (field.id === TIMECODE_SCALE) timecodeScale = await readUint(reader, field);
+        if (field.id === DURATION) rawDuration = await readFloat(reader, field);
+      }
+    } else if (child.id === TRACKS) {
+      for await (const entry of elements(reader, child.start, child.end)) {
+        if (entry.id !== TRACK_ENTRY) continue;
+        for await (const field of elements(reader, entry.start, entry.end)) {
+          if (field.id === TRACK_TYPE) trackTypes.push(await readUint(reader, field));
+          if (field.id === CODEC_ID) info.codecs.push(await readString(reader, field));
+          if (field.id === VIDEO) {
+            for await (const video of elements(reader, field.start, field.end)) {
+              if (video.id === PIXEL_WIDTH) info.width ??= await readUint(reader, video);
+              if (video.id === PIXEL_HEIGHT) info.height ??= await readUint(reader, video);
+            }
+          }
+        }
+      }
+    } else if (child.id === CLUSTER && child.size === undefined) {
+      // Unknown-size clusters can't be skipped without decoding every block
+      break;
+    }
+  }
+
+  if (trackTypes.length === 0) {
+    throw new MediaValidationError('malformed', 'No tracks in segment');
+  }
+  if (!trackTypes.includes(1)) {
+    if (!trackTypes.includes(2)) {
+      throw new MediaValidationError('malformed', 'No audio or video track');
+    }
+    info.kind = 'audio';
+    info.mimeType = docType === 'webm' ? 'audio/webm' : 'audio/x-matroska';
+  }
+  if (rawDuration !== undefined) {
+    info.duration = (rawDuration * timecodeScale) / 1e9;
+  }
+  return info;
+}
@@ -0,0 +1,213 @@
+import { MediaReader } from './reader';
+import { riffChunks } from './riff';
+import { MediaInfo, MediaValidationError } from './types';
+
+const SCAN_CHUNK = 64 * 1024;
+
+async function requireOnlyPadding(reader: MediaReader, offset: number, format: string) {
+  // Some encoders zero-pad; anything else after the end marker is a payload riding along
+  for (let position = offset; position < reader.size; position += SCAN_CHUNK) {
+    const chunk = await reader.peek(position, SCAN_CHUNK);
+    const index = chunk.findIndex(byte => byte !== 0);
+    if (index !== -1) {
+      throw new MediaValidationError('trailing_data', `Unexpected data after ${format} end at offset ${position + index}`);
+    }
+  }
+}
+
+/**
+ * Skips entropy-coded scan data and returns the offset of the next marker.
+ */
+async function skipScanData(reader: MediaReader, offset: number): Promise<number> {
+  for (let position = offset; position < reader.size; position += SCAN_CHUNK - 1) {
+    const chunk = await reader.peek(position, SCAN_CHUNK);
+    for (let i = 0; i < chunk.length - 1; i++) {
+      const next = chunk[i + 1]!;
+      // 0xFF00 is a stuffed byte and RSTn markers live inside the scan
+      if (chunk[i] === 0xff && next !== 0 && !(next >= 0xd0 && next <= 0xd7)) {
+        return position + i;
+      }
+    }
+  }
+  throw new MediaValidationError('truncated', 'JPEG scan data has no end marker');
+}
+
+export async function parseJpeg(reader: MediaReader): Promise<MediaInfo> {
+  const info: MediaInfo = { kind: 'image', format: 'jpeg', mimeType: 'image/jpeg', codecs: [] };
+  let offset = 2;
+
+  for (;;) {
+    let marker = await reader.bytes(offset, 2);
+    if (marker[0] !== 0xff) {
+      throw new MediaValidationError('malformed', `Expected JPEG marker at offset ${offset}`);
+    }
+    // Markers may be preceded by any number of 0xFF fill bytes
+    while (marker[1] === 0xff) {
+      offset++;
+      marker = await reader.bytes(offset, 2);
+    }
+    const type = marker[1]!;
+    offset += 2;
+
+    if (type === 0xd9) {
+      await requireOnlyPadding(reader, offset, 'JPEG');
+      break;
+    }
+    if ((type >= 0xd0 && type <= 0xd7) || type === 0x01) {
+      continue;
+    }
+
+    const length = (await reader.view(offset, 2)).getUint16(0);
+    if (length < 2) {
+      throw new MediaValidationError('malformed', `Invalid JPEG segment length at offset ${offset}`);
+    }
+    await reader.bytes(offset, length);
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (type >= 0xc0 && type <= 0xcf && type !== 0xc4 && type !== 0xc8 && type !== 0xcc) {
+      const frame = await reader.view(offset, 7);
+      info.height ??= frame.getUint16(3);
+      info.width ??= frame.getUint16(5);
+    }
+
+    offset += length;
+    if (type === 0xda) {
+      offset = await skipScanData(reader, offset);
+    }
+  }
+
+  if (info.width === undefined) {
+    throw new MediaValidationError('malformed', 'JPEG has no frame header');
+  }
+  return info;
+}
+
+export async function parsePng(reader: MediaReader): Promise<MediaInfo> {
+  const info: MediaInfo = { kind: 'image', format: 'png', mimeType: 'image/png', codecs: [] };
+  let offset = 8;
+  let first = true;
+
+  for (;;) {
+    const length = (await reader.view(offset, 4)).getUint32(0);
+    const type = await reader.ascii(offset + 4, 4);
+    const end = offset + 12 + length;
+    if (end > reader.size) {
+      throw new MediaValidationError('truncated', `PNG ${type} chunk runs past the end of the file`);
+    }
+    if (first) {
+      if (type !== 'IHDR') {
+        throw new MediaValidationError('malformed', 'PNG must start with IHDR');
+      }
+      const header = await reader.view(offset + 8, 8);
+      info.width = header.getUint32(0);
+      info.height = header.getUint32(4);
+      first = false;
+    }
+    if (type === 'acTL') {
+      info.codecs.push('apng');
+    }
+    offset = end;
+    if (type === 'IEND') break;
+  }
+
+  if (offset < reader.size) {
+    throw new MediaValidationError('trailing_data', `Unexpected data after PNG end at offset ${offset}`);
+  }
+  return info;
+}
+
+async function skipSubBlocks(reader: MediaReader, offset: number): Promise<number> {
+  for (;;) {
+    const size = (await reader.bytes(offset, 1))[0]!;
+    offset += 1 + size;
+    if (size === 0) return offset;
+  }
+}
+
+export async function parseGif(reader: MediaReader): Promise<MediaInfo> {
+  const header = await reader.view(0, 13);
+  const info: MediaInfo = {
+    kind: 'image',
+    format: 'gif',
+    mimeType: 'image/gif',
+    width: header.getUint16(6, true),
+    height: header.getUint16(8, true),
+    codecs: [],
+  };
+
+  const flags = header.getUint8(10);
+  let offset = 13 + (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+  let frames = 0;
+  let delay = 0;
+
+  for (;;) {
+    const separator = (await reader.bytes(offset, 1))[0];
+    if (separator === 0x3b) {
+      offset++;
+      break;
+    }
+    if (separator === 0x21) {
+      const label = (await reader.bytes(offset + 1, 1))[0];
+      if (label === 0xf9) {
+        // Graphic control extension: delay in hundredths of a second
+        delay += (await reader.view(offset + 4, 2)).getUint16(0, true);
+      }
+      offset = await skipSubBlocks(reader, offset + 2);
+    } else if (separator === 0x2c) {
+      const descriptor = await reader.view(offset + 1, 9);
+      const localFlags = descriptor.getUint8(8);
+      offset += 10 + (localFlags & 0x80 ? 3 * 2 ** ((localFlags & 0x07) + 1) : 0);
+      // LZW minimum code size, then the image data sub-blocks
+      offset = await skipSubBlocks(reader, offset + 1);
+      frames++;
+    } else {
+      throw new MediaValidationError('malformed', `Unknown GIF block 0x${separator?.toString(16)} at offset ${offset}`);
+    }
+  }
+
+  await requireOnlyPadding(reader, offset, 'GIF');
+  if (frames === 0) {
+    throw new MediaValidationError('malformed', 'GIF has no frames');
+  }
+  if (frames > 1) {
+    info.duration = delay / 100;
+  }
+  return info;
+}
+
+export async function parseWebp(reader: MediaReader): Promise<MediaInfo> {
+  const info: MediaInfo = { kind: 'image', format: 'webp', mimeType: 'image/webp', codecs: [] };
+  const chunks = await riffChunks(reader, 'WEBP');
+
+  for (const chunk of chunks) {
+    if (chunk.id === 'VP8X' && chunk.size >= 10) {
+      const canvas = await reader.bytes(chunk.start + 4, 6);
+      info.width ??= 1 + (canvas[0]! | (canvas[1]! << 8) | (canvas[2]! << 16));
+      info.height ??= 1 + (canvas[3]! | (canvas[4]! << 8) | (canvas[5]! << 16));
+    } else if (chunk.id === 'VP8 ' && chunk.size >= 10) {
+      const frame = await reader.bytes(chunk.start, 10);
+      if (frame[3] !== 0x9d || frame[4] !== 0x01 || frame[5] !== 0x2a) {
+        throw new MediaValidationError('malformed', 'Invalid VP8 start code');
+      }
+      info.codecs.push('vp8');
+      info.width ??= (frame[6]! | (frame[7]! << 8)) & 0x3fff;
+      info.height ??= (frame[8]! | (frame[9]! << 8)) & 0x3fff;
+    } else if (chunk.id === 'VP8L' && chunk.size >= 5) {
+      const frame = await reader.view(chunk.start, 5);
+      if (frame.getUint8(0) !== 0x2f) {
+        throw new MediaValidationError('malformed', 'Invalid VP8L signature');
+      }
+      const bits = frame.getUint32(1, true);
+      info.codecs.push('vp8l');
+      info.width ??= (bits & 0x3fff) + 1;
+      info.height ??= ((bits >>> 14) & 0x3fff) + 1;
+    } else if (chunk.id === 'ANIM') {
+      info.codecs.push('anim');
+    }
+  }
+
+  if (info.width === undefined) {
+    throw new MediaValidationError('malformed', 'WebP has no image data');
+  }
+  return info;
+}
@@ -0,0 +1,172 @@
+import { id3v2Length, isAdtsHeader, isMpegAudioHeader, parseAdts, parseMp3, parseOgg, parseWav } from './audio';
+import { parseEbml } from './ebml';
+import { parseGif, parseJpeg, parsePng, parseWebp } from './image';
+import { parseIsoBmff } from './isobmff';
+import { ByteSource, MediaReader, asciiAt, matches } from './reader';
+import {
+  MediaFormat,
+  MediaInfo,
+  MediaKind,
+  MediaRejection,
+  MediaValidationError,
+  MediaValidationResult,
+} from './types';
+
+export { blobSource, bytesSource } from './reader';
+export type { ByteSource } from './reader';
+export { MediaValidationError } from './types';
+export type {
+  MediaFormat,
+  MediaInfo,
+  MediaKind,
+  MediaRejection,
+  MediaRejectionCode,
+  MediaValidationResult,
+} from './types';
+
+export interface MediaValidationOptions {
+  /** The client-declared MIME type, checked against what the bytes contain */
+  declaredType?: string;
+  allowedKinds?: MediaKind[];
+  allowedTypes?: string[];
+  maxSize?: number;
+  /** Seconds */
+  maxDuration?: number;
+}
+
+// MIME types clients commonly declare for each container
+const ACCEPTED_TYPES: Record<MediaFormat, string[]> = {
+  mp4: ['video/mp4', 'application/mp4', 'video/x-m4v'],
+  mov: ['video/quicktime'],
+  webm: ['video/webm', 'audio/webm'],
+  mkv: ['video/x-matroska', 'audio/x-matroska', 'video/matroska'],
+  jpeg: ['image/jpeg', 'image/jpg', 'image/pjpeg'],
+  png: ['image/png', 'image/apng'],
+  gif: ['image/gif'],
+  webp: ['image/webp'],
+  heic: ['image/heic', 'image/heif', 'image/heic-sequence'],
+  mp3: ['audio/mpeg', 'audio/mp3', 'audio/mpeg3'],
+  aac: ['audio/aac', 'audio/x-aac', 'audio/aacp'],
+  m4a: ['audio/mp4', 'audio/m4a', 'audio/x-m4a'],
+  ogg: ['audio/ogg', 'video/ogg', 'application/ogg', 'audio/opus', 'audio/vorbis'],
+  wav: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'],
+};
+
+const QUICKTIME_BOXES = ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+// Markup a browser or interpreter would act on if the file were served as text
+const EMBEDDED_MARKUP = /<(script|html|svg|iframe|\?php|!doctype)|%PDF-/i;
+const ZIP_END_OF_CENTRAL_DIRECTORY = [0x50, 0x4b, 0x05, 0x06];
+
+async function parse(reader: MediaReader): Promise<MediaInfo> {
+  const head = await reader.peek(0, 16);
+
+  if (head.length >= 8 && QUICKTIME_BOXES.includes(asciiAt(head, 4, 4))) {
+    return parseIsoBmff(reader);
+  }
+  if (matches(head, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return parseEbml(reader);
+  }
+  if (matches(head, [0xff, 0xd8, 0xff])) {
+    return parseJpeg(reader);
+  }
+  if (matches(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return parsePng(reader);
+  }
+  if (asciiAt(head, 0, 6) === 'GIF87a' || asciiAt(head, 0, 6) === 'GIF89a') {
+    return parseGif(reader);
+  }
+  if (asciiAt(head, 0, 4) === 'RIFF') {
+    const form = asciiAt(head, 8, 4);
+    if (form === 'WEBP') return parseWebp(reader);
+    if (form === 'WAVE') return parseWav(reader);
+  }
+  if (asciiAt(head, 0, 4) === 'OggS') {
+    return parseOgg(reader);
+  }
+
+  const audioStart = await id3v2Length(reader);
+  const frame = await reader.peek(audioStart, 4);
+  if (isAdtsHeader(frame)) {
+    return parseAdts(reader, audioStart);
+  }
+  if (isMpegAudioHeader(frame)) {
+    return parseMp3(reader, audioStart);
+  }
+
+  throw new MediaValidationError('unrecognized_format', 'File does not match any supported media signature');
+}
+
+/**
+ * Structurally valid media can still double as another file type. Catch
+ * the two common carriers: leading markup and a zip directory at the end.
+ */
+async function detectPolyglot(reader: MediaReader): Promise<string | undefined> {
+  const head = await reader.peek(0, 1024);
+  if (EMBEDDED_MARKUP.test(String.fromCharCode(...head))) {
+    return 'File contains markup in its header';
+  }
+
+  const tailStart = Math.max(0, reader.size - 22 - 0xffff);
+  const tail = await reader.peek(tailStart, reader.size - tailStart);
+  for (let i = tail.length - 22; i >= 0; i--) {
+    // Only a directory whose comment runs exactly to EOF is one a zip reader would find
+    if (matches(tail, ZIP_END_OF_CENTRAL_DIRECTORY, i) && i + 22 + (tail[i + 20]! | (tail[i + 21]! << 8)) === tail.length) {
+      return 'File ends with a zip archive directory';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Identifies media from its bytes alone, ignoring any declared type.
+ */
+export async function sniffMedia(source: ByteSource): Promise<MediaInfo> {
+  const reader = new MediaReader(source);
+  const info = await parse(reader);
+  const polyglot = await detectPolyglot(reader);
+  if (polyglot) {
+    throw new MediaValidationError('polyglot', polyglot);
+  }
+  return info;
+}
+
+export async function validateMedia(
+  source: ByteSource,
+  options: MediaValidationOptions = {}
+): Promise<MediaValidationResult> {
+  const reasons: MediaRejection[] = [];
+
+  if (options.maxSize !== undefined && source.size > options.maxSize) {
+    reasons.push({ code: 'too_large', message: `File is ${source.size} bytes; the limit is ${options.maxSize}` });
+    return { valid: false, reasons };
+  }
+
+  let info: MediaInfo;
+  try {
+    info = await sniffMedia(source);
+  } catch (error) {
+    if (!(error instanceof MediaValidationError)) throw error;
+    reasons.push({ code: error.code, message: error.message });
+    return { valid: false, reasons };
+  }
+
+  const accepted = ACCEPTED_TYPES[info.format];
+  const declared = options.declaredType?.split(';')[0]!.trim().toLowerCase();
+  if (declared && declared !== 'application/octet-stream' && !accepted.includes(declared)) {
+    reasons.push({ code: 'type_mismatch', message: `Declared as ${declared} but the file is ${info.mimeType}` });
+  }
+  if (options.allowedKinds && !options.allowedKinds.includes(info.kind)) {
+    reasons.push({ code: 'kind_not_allowed', message: `${info.kind} files are not accepted here` });
+  }
+  if (options.allowedTypes && !options.allowedTypes.some(type => accepted.includes(type))) {
+    reasons.push({ code: 'type_not_allowed', message: `${info.mimeType} files are not accepted here` });
+  }
+  if (options.maxDuration !== undefined && info.duration !== undefined && info.duration > options.maxDuration) {
+    reasons.push({
+      code: 'too_long',
+      message: `Duration of ${info.duration.toFixed(1)}s exceeds the ${options.maxDuration}s limit`,
+    });
+  }
+
+  return { valid: reasons.length === 0, info, reasons };
+}
@@ -0,0 +1,180 @@
+import { MediaReader } from './reader';
+import { MediaInfo, MediaValidationError } from './types';
+
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx'];
+const M4A_BRANDS = ['M4A ', 'M4B ', 'M4P '];
+// QuickTime files predating ftyp open straight into one of these
+const LEGACY_QUICKTIME_BOXES = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+const MAX_BOXES = 100_000;
+
+interface Box {
+  type: string;
+  /** Offset of the payload, after the header */
+  start: number;
+  end: number;
+}
+
+async function* boxes(reader: MediaReader, start: number, end: number): AsyncGenerator<Box> {
+  let offset = start;
+  let count = 0;
+  while (offset < end) {
+    if (++count > MAX_BOXES) {
+      throw new MediaValidationError('malformed', 'Too many boxes');
+    }
+    if (end - offset < 8) {
+      throw new MediaValidationError('malformed', `Stray ${end - offset} bytes at offset ${offset}`);
+    }
+    const header = await reader.view(offset, 8);
+    let size = header.getUint32(0);
+    const type = await reader.ascii(offset + 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = Number((await reader.view(offset + 8, 8)).getBigUint64(0));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) {
+      throw new MediaValidationError('malformed', `Invalid size for ${type} box at offset ${offset}`);
+    }
+    if (offset + size > end) {
+      throw new MediaValidationError(
+        offset + size > reader.size ? 'truncated' : 'malformed',
+        `${type} box at offset ${offset} runs past the end of its container`
+      );
+    }
+
+    yield { type, start: offset + headerSize, end: offset + size };
+    offset += size;
+  }
+}
+
+async function findChild(reader: MediaReader, parent: Box, type: string, skip = 0): Promise<Box | undefined> {
+  for await (const box of boxes(reader, parent.start + skip, parent.end)) {
+    if (box.type === type) return box;
+  }
+  return undefined;
+}
+
+async function findPath(reader: MediaReader, parent: Box, path: string[]): Promise<Box | undefined> {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    // meta is a full box: version and flags precede its children
+    const skip = current.type === 'meta' ? 4 : 0;
+    current = await findChild(reader, current, type, skip);
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+async function readTrack(reader: MediaReader, trak: Box, info: MediaInfo) {
+  const hdlr = await findPath(reader, trak, ['mdia', 'hdlr']);
+  const handler = hdlr ? await reader.ascii(hdlr.start + 8, 4) : undefined;
+
+  const stsd = await findPath(reader, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+  if (stsd && stsd.end - stsd.start >= 16) {
+    const codec = (await reader.ascii(stsd.start + 12, 4)).trim();
+    if (codec && !info.codecs.includes(codec)) info.codecs.push(codec);
+  }
+
+  if (handler === 'vide') {
+    const tkhd = await findChild(reader, trak, 'tkhd');
+    if (tkhd) {
+      const version = (await reader.bytes(tkhd.start, 1))[0];
+      const dimensions = await reader.view(tkhd.start + (version === 1 ? 88 : 76), 8);
+      // 16.16 fixed point
+      info.width ??= dimensions.getUint32(0) >>> 16;
+      info.height ??= dimensions.getUint32(4) >>> 16;
+    }
+  }
+  return handler;
+}
+
+/**
+ * ISO base media files: MP4, QuickTime, M4A and HEIC. Every top-level box
+ * must fit exactly inside the file.
+ */
+export async function parseIsoBmff(reader: MediaReader): Promise<MediaInfo> {
+  const topLevel: Box[] = [];
+  for await (const box of boxes(reader, 0, reader.size)) {
+    topLevel.push(box);
+  }
+
+  const ftyp = topLevel[0]?.type === 'ftyp' ? topLevel[0] : undefined;
+  const majorBrand = ftyp ? await reader.ascii(ftyp.start, 4) : undefined;
+  const compatible: string[] = [];
+  if (ftyp) {
+    for (let offset = ftyp.start + 8; offset + 4 <= ftyp.end; offset += 4) {
+      compatible.push(await reader.ascii(offset, 4));
+    }
+  } else if (!LEGACY_QUICKTIME_BOXES.includes(topLevel[0]?.type ?? '')) {
+    throw new MediaValidationError('unrecognized_format', 'Missing ftyp box');
+  }
+
+  const brands = [majorBrand, ...compatible];
+  if (brands.some(brand => HEIC_BRANDS.includes(brand ?? ''))) {
+    return parseHeic(reader, topLevel);
+  }
+
+  const moov = topLevel.find(box => box.type === 'moov');
+  if (!moov) {
+    throw new MediaValidationError('malformed', 'Missing moov box');
+  }
+
+  const info: MediaInfo = {
+    kind: 'video',
+    format: majorBrand === 'qt  ' || !ftyp ? 'mov' : 'mp4',
+    mimeType: majorBrand === 'qt  ' || !ftyp ? 'video/quicktime' : 'video/mp4',
+    codecs: [],
+  };
+
+  const mvhd = await findChild(reader, moov, 'mvhd');
+  if (mvhd) {
+    const version = (await reader.bytes(mvhd.start, 1))[0];
+    const header = await reader.view(mvhd.start, version === 1 ? 32 : 20);
+    const timescale = header.getUint32(version === 1 ? 20 : 12);
+    const duration = version === 1 ? Number(header.getBigUint64(24)) : header.getUint32(16);
+    if (timescale > 0) info.duration = duration / timescale;
+  }
+
+  const handlers: Array<string | undefined> = [];
+  for await (const box of boxes(reader, moov.start, moov.end)) {
+    if (box.type === 'trak') handlers.push(await readTrack(reader, box, info));
+  }
+  if (handlers.length === 0) {
+    throw new MediaValidationError('malformed', 'No tracks in moov box');
+  }
+
+  if (!handlers.includes('vide')) {
+    if (!handlers.includes('soun')) {
+      throw new MediaValidationError('malformed', 'No audio or video track');
+    }
+    info.kind = 'audio';
+    info.format = 'm4a';
+    info.mimeType = 'audio/mp4';
+  } else if (M4A_BRANDS.includes(majorBrand ?? '')) {
+    throw new MediaValidationError('malformed', 'Audio-only brand with a video track');
+  }
+  return info;
+}
+
+async function parseHeic(reader: MediaReader, topLevel: Box[]): Promise<MediaInfo> {
+  const meta = topLevel.find(box => box.type === 'meta');
+  if (!meta) {
+    throw new MediaValidationError('malformed', 'Missing meta box');
+  }
+
+  const info: MediaInfo = { kind: 'image', format: 'heic', mimeType: 'image/heic', codecs: ['hvc1'] };
+  const ipco = await findPath(reader, meta, ['iprp', 'ipco']);
+  if (ipco) {
+    // The first spatial extent belongs to the primary image in practice
+    const ispe = await findChild(reader, ipco, 'ispe');
+    if (ispe) {
+      const extent = await reader.view(ispe.start + 4, 8);
+      info.width = extent.getUint32(0);
+      info.height = extent.getUint32(4);
+    }
+  }
+  return info;
+}
@@ -0,0 +1,88 @@
+import { MediaValidationError } from './types';
+
+/**
+ * Random access to the bytes being validated. Containers like MP4 keep their
+ * index at the end, so parsers seek rather than stream.
+ */
+export interface ByteSource {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+export function bytesSource(bytes: Uint8Array): ByteSource {
+  return {
+    size: bytes.length,
+    read: async (offset, length) => bytes.subarray(offset, offset + length),
+  };
+}
+
+export function blobSource(blob: Blob): ByteSource {
+  return {
+    size: blob.size,
+    read: async (offset, length) =>
+      new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+  };
+}
+
+const BLOCK_SIZE = 64 * 1024;
+
+/**
+ * Block-cached reader over a ByteSource. Frame-walking parsers issue many
+ * tiny reads, which would otherwise each hit the backing store.
+ */
+export class MediaReader {
+  private blockOffset = -1;
+  private block = new Uint8Array(0);
+
+  constructor(private source: ByteSource) {}
+
+  get size() {
+    return this.source.size;
+  }
+
+  /**
+   * Reads exactly `length` bytes, failing as truncated if the file ends first.
+   */
+  async bytes(offset: number, length: number): Promise<Uint8Array> {
+    if (offset < 0 || offset + length > this.source.size) {
+      throw new MediaValidationError('truncated', `Unexpected end of file at byte ${offset + length}`);
+    }
+    if (length > BLOCK_SIZE) {
+      return this.source.read(offset, length);
+    }
+    if (offset < this.blockOffset || offset + length > this.blockOffset + this.block.length) {
+      this.blockOffset = offset;
+      this.block = await this.source.read(offset, Math.min(BLOCK_SIZE, this.source.size - offset));
+    }
+    const start = offset - this.blockOffset;
+    return this.block.subarray(start, start + length);
+  }
+
+  /**
+   * Reads up to `length` bytes without treating a short file as an error.
+   */
+  async peek(offset: number, length: number): Promise<Uint8Array> {
+    return this.bytes(offset, Math.max(0, Math.min(length, this.source.size - offset)));
+  }
+
+  async view(offset: number, length: number): Promise<DataView> {
+    const bytes = await this.bytes(offset, length);
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  async ascii(offset: number, length: number): Promise<string> {
+    return String.fromCharCode(...(await this.bytes(offset, length)));
+  }
+}
+
+export function matches(bytes: Uint8Array, signature: ArrayLike<number>, offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[offset + i] !== signature[i]) return false;
+  }
+  return true;
+}
+
+export function asciiAt(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
@@ -0,0 +1,44 @@
+import { MediaReader } from './reader';
+import { MediaValidationError } from './types';
+
+export interface RiffChunk {
+  id: string;
+  start: number;
+  size: number;
+}
+
+/**
+ * Validates the RIFF envelope and returns its chunks. The declared RIFF size
+ * must cover the file exactly (allowing a pad byte), so appended payloads are
+ * caught here.
+ */
+export async function riffChunks(reader: MediaReader, form: string): Promise<RiffChunk[]> {
+  const header = await reader.view(0, 12);
+  const riffEnd = 8 + header.getUint32(4, true);
+  if ((await reader.ascii(8, 4)) !== form) {
+    throw new MediaValidationError('unrecognized_format', `Not a RIFF ${form} file`);
+  }
+  if (riffEnd > reader.size) {
+    throw new MediaValidationError('truncated', `RIFF declares ${riffEnd} bytes but the file has ${reader.size}`);
+  }
+  if (reader.size > riffEnd + 1) {
+    throw new MediaValidationError('trailing_data', `Unexpected data after RIFF end at offset ${riffEnd}`);
+  }
+
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= riffEnd) {
+    const size = (await reader.view(offset + 4, 4)).getUint32(0, true);
+    const chunk = { id: await reader.ascii(offset, 4), start: offset + 8, size };
+    if (chunk.start + size > riffEnd) {
+      throw new MediaValidationError('truncated', `${chunk.id} chunk runs past the end of the file`);
+    }
+    chunks.push(chunk);
+    // Chunks are word aligned
+    offset = chunk.start + size + (size % 2);
+    if (chunks.length > 10_000) {
+      throw new MediaValidationError('malformed', 'Too many RIFF chunks');
+    }
+  }
+  return chunks;
+}
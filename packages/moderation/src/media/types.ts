@@ -0,0 +1,61 @@
+export type MediaKind = 'video' | 'image' | 'audio';
+
+export type MediaFormat =
+  | 'mp4'
+  | 'mov'
+  | 'webm'
+  | 'mkv'
+  | 'jpeg'
+  | 'png'
+  | 'gif'
+  | 'webp'
+  | 'heic'
+  | 'mp3'
+  | 'aac'
+  | 'm4a'
+  | 'ogg'
+  | 'wav';
+
+export interface MediaInfo {
+  kind: MediaKind;
+  format: MediaFormat;
+  mimeType: string;
+  /** Seconds */
+  duration?: number;
+  width?: number;
+  height?: number;
+  codecs: string[];
+}
+
+export type MediaRejectionCode =
+  | 'unrecognized_format'
+  | 'truncated'
+  | 'trailing_data'
+  | 'polyglot'
+  | 'malformed'
+  | 'type_mismatch'
+  | 'kind_not_allowed'
+  | 'type_not_allowed'
+  | 'too_large'
+  | 'too_long';
+
+export interface MediaRejection {
+  code: MediaRejectionCode;
+  message: string;
+}
+
+export interface MediaValidationResult {
+  valid: boolean;
+  info?: MediaInfo;
+  reasons: MediaRejection[];
+}
+
+export class MediaValidationError extends Error {
+  constructor(
+    public code: MediaRejectionCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MediaValidationError';
+  }
+}
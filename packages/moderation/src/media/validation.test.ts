@@ -0,0 +1,276 @@
+import { describe, it, expect } from 'vitest';
+import { blobSource, bytesSource, sniffMedia, validateMedia } from './index';
+
+const u16be = (value: number) => Buffer.from([value >> 8, value & 0xff]);
+const u32be = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+const u16le = (value: number) => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+};
+const u32le = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+};
+
+const box = (type: string, ...payload: Buffer[]) => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([u32be(body.length + 8), Buffer.from(type, 'latin1'), body]);
+};
+
+const mp4 = ({ handler = 'vide', codec = 'avc1' } = {}) => {
+  const mvhd = Buffer.alloc(100);
+  mvhd.writeUInt32BE(1000, 12);
+  mvhd.writeUInt32BE(5000, 16);
+  const tkhd = Buffer.alloc(84);
+  tkhd.writeUInt32BE(1280 << 16, 76);
+  tkhd.writeUInt32BE(720 << 16, 80);
+  const hdlr = Buffer.alloc(25);
+  hdlr.write(handler, 8, 'latin1');
+  const stsd = Buffer.alloc(16);
+  stsd.writeUInt32BE(1, 4);
+  stsd.write(codec, 12, 'latin1');
+
+  return Buffer.concat([
+    box('ftyp', Buffer.from(handler === 'vide' ? 'isom' : 'M4A ', 'latin1'), u32be(0x200), Buffer.from('isommp41')),
+    box(
+      'moov',
+      box('mvhd', mvhd),
+      box('trak', box('tkhd', tkhd), box('mdia', box('hdlr', hdlr), box('minf', box('stbl', box('stsd', stsd)))))
+    ),
+    box('mdat', Buffer.alloc(64, 0x11)),
+  ]);
+};
+
+const heic = () =>
+  Buffer.concat([
+    box('ftyp', Buffer.from('heic'), u32be(0), Buffer.from('mif1heic')),
+    box('meta', Buffer.alloc(4), box('iprp', box('ipco', box('ispe', Buffer.alloc(4), u32be(4032), u32be(3024))))),
+    box('mdat', Buffer.alloc(32, 0x22)),
+  ]);
+
+const ebml = (id: number[], ...payload: Buffer[]) => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([Buffer.from(id), Buffer.from([0x40 | (body.length >> 8), body.length & 0xff]), body]);
+};
+
+const webm = () => {
+  const duration = Buffer.alloc(8);
+  duration.writeDoubleBE(2500);
+  return Buffer.concat([
+    ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], Buffer.from('webm'))),
+    ebml(
+      [0x18, 0x53, 0x80, 0x67],
+      ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x2a, 0xd7, 0xb1], Buffer.from([0x0f, 0x42, 0x40])), ebml([0x44, 0x89], duration)),
+      ebml(
+        [0x16, 0x54, 0xae, 0x6b],
+        ebml(
+          [0xae],
+          ebml([0x83], Buffer.from([1])),
+          ebml([0x86], Buffer.from('V_VP9')),
+          ebml([0xe0], ebml([0xb0], u16be(640)), ebml([0xba], u16be(360)))
+        )
+      ),
+      ebml([0x1f, 0x43, 0xb6, 0x75], ebml([0xe7], Buffer.from([0])))
+    ),
+  ]);
+};
+
+const jpeg = () =>
+  Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    Buffer.from([0xff, 0xc0]),
+    u16be(11),
+    Buffer.from([8]),
+    u16be(480),
+    u16be(640),
+    Buffer.from([1, 1, 0x11, 0]),
+    Buffer.from([0xff, 0xda]),
+    u16be(8),
+    Buffer.from([1, 1, 0, 0, 0x3f, 0]),
+    Buffer.from([0x12, 0xff, 0x00, 0x34]),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+
+const pngChunk = (type: string, data: Buffer) =>
+  Buffer.concat([u32be(data.length), Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+
+const png = () =>
+  Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', Buffer.concat([u32be(32), u32be(16), Buffer.from([8, 6, 0, 0, 0])])),
+    pngChunk('IDAT', Buffer.alloc(10)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+
+const gif = (comment?: string) =>
+  Buffer.concat([
+    Buffer.from('GIF89a'),
+    u16le(10),
+    u16le(20),
+    Buffer.from([0, 0, 0]),
+    ...(comment ? [Buffer.from([0x21, 0xfe, comment.length]), Buffer.from(comment), Buffer.from([0])] : []),
+    Buffer.from([0x2c]),
+    Buffer.alloc(8),
+    Buffer.from([0, 2, 1, 0, 0, 0x3b]),
+  ]);
+
+const riff = (form: string, ...chunks: Buffer[]) => {
+  const body = Buffer.concat([Buffer.from(form), ...chunks]);
+  return Buffer.concat([Buffer.from('RIFF'), u32le(body.length), body]);
+};
+const riffChunk = (id: string, data: Buffer) => Buffer.concat([Buffer.from(id), u32le(data.length), data]);
+
+const webp = () => {
+  const bits = (99 & 0x3fff) | ((49 & 0x3fff) << 14);
+  return riff('WEBP', riffChunk('VP8L', Buffer.concat([Buffer.from([0x2f]), u32le(bits), Buffer.alloc(1)])));
+};
+
+const wav = () =>
+  riff(
+    'WAVE',
+    riffChunk('fmt ', Buffer.concat([u16le(1), u16le(1), u32le(8000), u32le(16000), u16le(2), u16le(16)])),
+    riffChunk('data', Buffer.alloc(1600))
+  );
+
+const mp3 = (frames = 3) => {
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  return Buffer.concat(Array.from({ length: frames }, () => frame));
+};
+
+const aac = () => {
+  const frame = Buffer.alloc(20);
+  frame.set([0xff, 0xf1, 0x50, 0x80, 0x02, 0x9f, 0xfc]);
+  return Buffer.concat([frame, frame]);
+};
+
+const oggPage = (granule: bigint, body: Buffer) => {
+  const header = Buffer.alloc(27);
+  header.write('OggS');
+  header.writeBigInt64LE(granule, 6);
+  header.writeUInt32LE(7, 14);
+  header[26] = 1;
+  return Buffer.concat([header, Buffer.from([body.length]), body]);
+};
+
+const ogg = () =>
+  Buffer.concat([
+    oggPage(0n, Buffer.concat([Buffer.from('OpusHead'), Buffer.from([1, 1]), u16le(312), u32le(48000), Buffer.alloc(3)])),
+    oggPage(48312n, Buffer.alloc(40, 0x33)),
+  ]);
+
+// A minimal zip end-of-central-directory record, as appended by polyglot tools
+const zipTail = () => Buffer.concat([Buffer.from([0x50, 0x4b, 0x05, 0x06]), Buffer.alloc(18)]);
+
+const sniff = (bytes: Buffer) => sniffMedia(bytesSource(bytes));
+const rejection = async (bytes: Buffer, options = {}) => (await validateMedia(bytesSource(bytes), options)).reasons;
+
+describe('media validation', () => {
+  it('identifies containers and reads their dimensions, duration and codecs', async () => {
+    await expect(sniff(mp4())).resolves.toEqual({
+      kind: 'video',
+      format: 'mp4',
+      mimeType: 'video/mp4',
+      duration: 5,
+      width: 1280,
+      height: 720,
+      codecs: ['avc1'],
+    });
+    await expect(sniff(mp4({ handler: 'soun', codec: 'mp4a' }))).resolves.toMatchObject({
+      kind: 'audio',
+      format: 'm4a',
+      codecs: ['mp4a'],
+    });
+    await expect(sniff(heic())).resolves.toMatchObject({ format: 'heic', width: 4032, height: 3024 });
+    await expect(sniff(webm())).resolves.toMatchObject({
+      kind: 'video',
+      format: 'webm',
+      duration: 2.5,
+      width: 640,
+      height: 360,
+      codecs: ['V_VP9'],
+    });
+    await expect(sniff(jpeg())).resolves.toMatchObject({ format: 'jpeg', width: 640, height: 480 });
+    await expect(sniff(png())).resolves.toMatchObject({ format: 'png', width: 32, height: 16 });
+    await expect(sniff(gif())).resolves.toMatchObject({ format: 'gif', width: 10, height: 20 });
+    await expect(sniff(webp())).resolves.toMatchObject({ format: 'webp', width: 100, height: 50, codecs: ['vp8l'] });
+  });
+
+  it('identifies audio formats and computes their duration', async () => {
+    const mpeg = await sniff(mp3());
+    expect(mpeg).toMatchObject({ kind: 'audio', format: 'mp3', codecs: ['mp3'] });
+    expect(mpeg.duration).toBeCloseTo((3 * 1152) / 44100);
+
+    const adts = await sniff(aac());
+    expect(adts).toMatchObject({ format: 'aac' });
+    expect(adts.duration).toBeCloseTo(2048 / 44100);
+
+    await expect(sniff(ogg())).resolves.toMatchObject({ format: 'ogg', codecs: ['opus'], duration: 1 });
+    await expect(sniff(wav())).resolves.toMatchObject({ format: 'wav', codecs: ['pcm'], duration: 0.1 });
+
+    // A leading ID3 tag is skipped
+    const id3 = Buffer.concat([Buffer.from('ID3'), Buffer.from([3, 0, 0, 0, 0, 0, 10]), Buffer.alloc(10), mp3()]);
+    await expect(sniff(id3)).resolves.toMatchObject({ format: 'mp3' });
+  });
+
+  it('reads from blobs', async () => {
+    const blob = new Blob([png()], { type: 'image/png' });
+    await expect(sniffMedia(blobSource(blob))).resolves.toMatchObject({ format: 'png' });
+  });
+
+  it('rejects unrecognized and truncated files', async () => {
+    expect(await rejection(Buffer.from('just some text, not a video'))).toEqual([
+      expect.objectContaining({ code: 'unrecognized_format' }),
+    ]);
+
+    const file = mp4();
+    expect(await rejection(file.subarray(0, file.length - 10))).toEqual([expect.objectContaining({ code: 'truncated' })]);
+    const image = png();
+    expect(await rejection(image.subarray(0, image.length - 12))).toEqual([expect.objectContaining({ code: 'truncated' })]);
+    expect((await rejection(webm().subarray(0, 40)))[0]?.code).toBe('truncated');
+    expect((await rejection(wav().subarray(0, 100)))[0]?.code).toBe('truncated');
+  });
+
+  it('rejects data appended after the end of the media', async () => {
+    for (const file of [png(), jpeg(), gif(), webm(), wav(), mp3(), ogg()]) {
+      const [reason] = await rejection(Buffer.concat([file, zipTail()]));
+      expect(reason?.code).toBe('trailing_data');
+    }
+    // Zero padding is tolerated where encoders produce it
+    expect(await rejection(Buffer.concat([jpeg(), Buffer.alloc(16)]))).toEqual([]);
+  });
+
+  it('rejects polyglots hidden inside structurally valid media', async () => {
+    const withZip = mp4();
+    const hidden = Buffer.concat([withZip.subarray(0, withZip.length - 72), box('mdat', Buffer.alloc(42), zipTail())]);
+    expect(await rejection(hidden)).toEqual([expect.objectContaining({ code: 'polyglot' })]);
+
+    expect(await rejection(gif('<script>alert(1)</script>'))).toEqual([expect.objectContaining({ code: 'polyglot' })]);
+  });
+
+  it('checks the declared type and caller limits against the sniffed file', async () => {
+    expect(await rejection(png(), { declaredType: 'image/jpeg' })).toEqual([
+      expect.objectContaining({ code: 'type_mismatch' }),
+    ]);
+    expect(await rejection(mp3(), { declaredType: 'audio/mp3' })).toEqual([]);
+    expect(await rejection(png(), { declaredType: 'image/png; charset=binary' })).toEqual([]);
+
+    expect(await rejection(mp4({ handler: 'soun', codec: 'mp4a' }), { allowedKinds: ['video'] })).toEqual([
+      expect.objectContaining({ code: 'kind_not_allowed' }),
+    ]);
+    expect(await rejection(gif(), { allowedTypes: ['image/png', 'image/jpeg'] })).toEqual([
+      expect.objectContaining({ code: 'type_not_allowed' }),
+    ]);
+    expect(await rejection(mp4(), { maxDuration: 3 })).toEqual([expect.objectContaining({ code: 'too_long' })]);
+    expect(await rejection(mp4(), { maxSize: 100 })).toEqual([expect.objectContaining({ code: 'too_large' })]);
+
+    const result = await validateMedia(bytesSource(webm()), { declaredType: 'video/webm', allowedKinds: ['video'] });
+    expect(result).toMatchObject({ valid: true, reasons: [], info: { format: 'webm' } });
+  });
+});
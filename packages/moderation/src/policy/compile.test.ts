@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { compileCondition, compilePolicy, parseDuration, PolicyValidationError } from './compile';
+import { normalizeText } from './normalize';
+import type { Condition, ModerationSubject, Policy } from './types';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const subject = (overrides: Partial<ModerationSubject> = {}): ModerationSubject => ({
+  id: 'post-1',
+  type: 'post',
+  text: '',
+  author: { id: 'author-1' },
+  ...overrides
+});
+
+const evaluate = (condition: Condition, target: ModerationSubject, rateCounts = new Map<string, number>()) =>
+  compileCondition(condition)({ subject: target, now: NOW, rateCounts });
+
+const policy = (rules: Policy['rules']): Policy => ({
+  id: 'policy',
+  version: 1,
+  publishedAt: NOW,
+  rules
+});
+
+describe('normalizeText', () => {
+  it('folds leetspeak touching a letter', () => {
+    expect(normalizeText('H4te')).toBe('hate');
+    expect(normalizeText('h@t3 $pam')).toBe('hate spam');
+  });
+
+  it('leaves standalone numbers alone', () => {
+    expect(normalizeText('Top 10 of 2024')).toBe('top 10 of 2024');
+  });
+
+  it('can keep leetspeak as written', () => {
+    expect(normalizeText('H4te', { leetspeak: false })).toBe('h4te');
+  });
+
+  it('folds full-width letters, diacritics and lookalikes', () => {
+    expect(normalizeText('ＨＡＴＥ')).toBe('hate');
+    expect(normalizeText('Crème Brûlée')).toBe('creme brulee');
+    // Cyrillic а and е
+    expect(normalizeText('h\u0430t\u0435')).toBe('hate');
+  });
+
+  it('removes invisible characters', () => {
+    expect(normalizeText('ha\u200Bte\u00AD')).toBe('hate');
+  });
+});
+
+describe('compileCondition', () => {
+  it('matches keywords as whole words on normalized text', () => {
+    const condition: Condition = { field: 'text', keywords: ['hate', 'ass'] };
+
+    expect(evaluate(condition, subject({ text: 'I h4te this' }))).toEqual(['hate']);
+    expect(evaluate(condition, subject({ text: 'First class' }))).toBeNull();
+  });
+
+  it('can match keywords without normalizing', () => {
+    const condition: Condition = { field: 'text', keywords: ['hate'], normalize: false };
+
+    expect(evaluate(condition, subject({ text: 'I h4te this' }))).toBeNull();
+    expect(evaluate(condition, subject({ text: 'I HATE this' }))).toEqual(['HATE']);
+  });
+
+  it('returns every pattern match as evidence', () => {
+    const condition: Condition = { field: 'text', matches: 'fr[e]+ money' };
+
+    expect(evaluate(condition, subject({ text: 'FREE money, fr33 money' }))).toEqual([
+      'free money',
+      'free money'
+    ]);
+  });
+
+  it('compares fields by dotted path', () => {
+    const condition: Condition = { field: 'signals.toxicity', gte: 0.8 };
+
+    expect(evaluate(condition, subject({ signals: { toxicity: 0.9 } }))).toEqual(['signals.toxicity=0.9']);
+    expect(evaluate(condition, subject({ signals: { toxicity: 0.2 } }))).toBeNull();
+    expect(evaluate(condition, subject())).toBeNull();
+  });
+
+  it('combines conditions with all, any and not', () => {
+    const condition: Condition = {
+      all: [
+        { any: [{ field: 'text', keywords: ['scam'] }, { field: 'text', keywords: ['spam'] }] },
+        { not: { reputation: { atLeast: 50 } } }
+      ]
+    };
+
+    expect(evaluate(condition, subject({ text: 'total scam', author: { id: 'a', reputation: 10 } }))).toEqual([
+      'scam'
+    ]);
+    expect(evaluate(condition, subject({ text: 'total scam', author: { id: 'a', reputation: 80 } }))).toBeNull();
+    expect(evaluate(condition, subject({ text: 'all good', author: { id: 'a', reputation: 10 } }))).toBeNull();
+  });
+
+  it('checks account age against the evaluation time', () => {
+    const condition: Condition = { accountAge: { under: '1d' } };
+    const createdAt = (hoursAgo: number) => new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000);
+
+    expect(evaluate(condition, subject({ author: { id: 'a', createdAt: createdAt(2) } }))).toEqual([
+      'accountAge=2h'
+    ]);
+    expect(evaluate(condition, subject({ author: { id: 'a', createdAt: createdAt(48) } }))).toBeNull();
+  });
+
+  it('reads rate counts by field and window', () => {
+    const condition: Condition = { rate: { by: 'author.id', window: '1m', over: 2 } };
+    const counts = (count: number) => new Map([[`author.id@${60 * 1000}`, count]]);
+
+    expect(evaluate(condition, subject(), counts(3))).toEqual(['3 by author.id within 1m']);
+    expect(evaluate(condition, subject(), counts(2))).toBeNull();
+  });
+
+  it('rejects malformed conditions with their path', () => {
+    expect(() => compileCondition({ field: 'text', matches: '(' })).toThrow(PolicyValidationError);
+    expect(() => compileCondition({ field: 'text', keywords: [] })).toThrow('condition.keywords');
+    expect(() => compileCondition({ all: [] })).toThrow('condition.all: must be a non-empty list');
+    expect(() => compileCondition({ field: 'text', like: 'x' } as unknown as Condition)).toThrow(
+      'unknown operator like'
+    );
+  });
+});
+
+describe('compilePolicy', () => {
+  it('rejects unknown actions and duplicate rule ids', () => {
+    const when: Condition = { field: 'text', keywords: ['spam'] };
+
+    expect(() =>
+      compilePolicy(policy([{ id: 'r1', when, action: 'shame' as never, severity: 'low' }]))
+    ).toThrow('rules[0].action: unknown action shame');
+    expect(() =>
+      compilePolicy(
+        policy([
+          { id: 'r1', when, action: 'flag', severity: 'low' },
+          { id: 'r1', when, action: 'hide', severity: 'medium' }
+        ])
+      )
+    ).toThrow('rules[1]: duplicate rule id r1');
+  });
+
+  it('collects each rate window once', () => {
+    const rate: Condition = { rate: { by: 'author.id', window: '10m', over: 5 } };
+    const compiled = compilePolicy(
+      policy([
+        { id: 'r1', when: rate, action: 'flag', severity: 'low' },
+        { id: 'r2', when: { all: [rate, { reputation: { below: 10 } }] }, action: 'hide', severity: 'medium' }
+      ])
+    );
+
+    expect(compiled.rateWindows).toEqual([{ by: 'author.id', windowMs: 10 * 60 * 1000 }]);
+  });
+});
+
+describe('parseDuration', () => {
+  it('parses units and plain milliseconds', () => {
+    expect(parseDuration('30s')).toBe(30 * 1000);
+    expect(parseDuration('1.5h')).toBe(90 * 60 * 1000);
+    expect(parseDuration(250)).toBe(250);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseDuration('10 minutes')).toThrow(PolicyValidationError);
+    expect(() => parseDuration(-1)).toThrow(PolicyValidationError);
+  });
+});
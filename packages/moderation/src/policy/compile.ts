@@ -0,0 +1,325 @@
+import { normalizeText } from './normalize';
+import {
+  POLICY_ACTIONS,
+  type Comparison,
+  type Condition,
+  type Duration,
+  type ModerationSubject,
+  type Policy,
+  type PolicyRule
+} from './types';
+
+export interface EvaluationContext {
+  subject: ModerationSubject;
+  // When the subject is evaluated as happening; its creation time in a dry run
+  now: Date;
+  // Counts for every rate condition in the policy, keyed by rateKey()
+  rateCounts: Map<string, number>;
+}
+
+// Evidence for a match, or null when the condition doesn't hold
+export type Evaluator = (context: EvaluationContext) => string[] | null;
+
+export interface RateWindow {
+  by: string;
+  windowMs: number;
+}
+
+export interface CompiledRule {
+  rule: PolicyRule;
+  test: Evaluator;
+}
+
+export interface CompiledPolicy {
+  policy: Policy;
+  rules: CompiledRule[];
+  rateWindows: RateWindow[];
+}
+
+export class PolicyValidationError extends Error {
+  constructor(public path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'PolicyValidationError';
+  }
+}
+
+const COMPARISON_KEYS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'exists'];
+const REGEX_FLAGS = /^[imsu]*$/;
+const DURATION = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/;
+const DURATION_UNITS = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Validate a policy and compile its conditions, so regexes are built once
+ * rather than on every evaluation. Throws PolicyValidationError naming the
+ * offending rule and condition.
+ */
+export function compilePolicy(policy: Policy): CompiledPolicy {
+  const rateWindows = new Map<string, RateWindow>();
+  const ruleIds = new Set<string>();
+
+  const rules = policy.rules.map((rule, index) => {
+    const path = `rules[${index}]`;
+    if (!rule.id) throw new PolicyValidationError(path, 'rule id is required');
+    if (ruleIds.has(rule.id)) throw new PolicyValidationError(path, `duplicate rule id ${rule.id}`);
+    if (!POLICY_ACTIONS.includes(rule.action)) {
+      throw new PolicyValidationError(`${path}.action`, `unknown action ${rule.action}`);
+    }
+    ruleIds.add(rule.id);
+
+    const test = compileCondition(rule.when, `${path}.when`, window => {
+      rateWindows.set(rateKey(window.by, window.windowMs), window);
+    });
+    return { rule, test };
+  });
+
+  return { policy, rules, rateWindows: [...rateWindows.values()] };
+}
+
+export function compileCondition(
+  condition: Condition,
+  path = 'condition',
+  onRate: (window: RateWindow) => void = () => {}
+): Evaluator {
+  if (!condition || typeof condition !== 'object') {
+    throw new PolicyValidationError(path, 'condition must be an object');
+  }
+
+  if ('all' in condition) {
+    const children = compileList(condition.all, `${path}.all`, onRate);
+    return context => {
+      const evidence: string[] = [];
+      for (const child of children) {
+        const result = child(context);
+        if (!result) return null;
+        evidence.push(...result);
+      }
+      return evidence;
+    };
+  }
+
+  if ('any' in condition) {
+    const children = compileList(condition.any, `${path}.any`, onRate);
+    return context => {
+      const results = children
+        .map(child => child(context))
+        .filter((result): result is string[] => result !== null);
+      return results.length ? results.flat() : null;
+    };
+  }
+
+  if ('not' in condition) {
+    const child = compileCondition(condition.not, `${path}.not`, onRate);
+    return context => (child(context) ? null : []);
+  }
+
+  if ('reputation' in condition) {
+    const { below, atLeast } = condition.reputation;
+    if (below === undefined && atLeast === undefined) {
+      throw new PolicyValidationError(path, 'reputation needs below or atLeast');
+    }
+    return ({ subject }) => {
+      const reputation = subject.author.reputation;
+      if (reputation === undefined) return null;
+      if (below !== undefined && !(reputation < below)) return null;
+      if (atLeast !== undefined && !(reputation >= atLeast)) return null;
+      return [`reputation=${reputation}`];
+    };
+  }
+
+  if ('accountAge' in condition) {
+    const under = optionalDuration(condition.accountAge.under, `${path}.accountAge.under`);
+    const over = optionalDuration(condition.accountAge.over, `${path}.accountAge.over`);
+    if (under === undefined && over === undefined) {
+      throw new PolicyValidationError(path, 'accountAge needs under or over');
+    }
+    return ({ subject, now }) => {
+      if (!subject.author.createdAt) return null;
+      const age = now.getTime() - new Date(subject.author.createdAt).getTime();
+      if (Number.isNaN(age)) return null;
+      if (under !== undefined && !(age < under)) return null;
+      if (over !== undefined && !(age > over)) return null;
+      return [`accountAge=${formatAge(age)}`];
+    };
+  }
+
+  if ('rate' in condition) {
+    const { by, over } = condition.rate;
+    if (!by) throw new PolicyValidationError(`${path}.rate.by`, 'field path is required');
+    if (!Number.isFinite(over) || over < 0) {
+      throw new PolicyValidationError(`${path}.rate.over`, 'must be a non-negative number');
+    }
+    const windowMs = parseDuration(condition.rate.window, `${path}.rate.window`);
+    onRate({ by, windowMs });
+
+    const key = rateKey(by, windowMs);
+    return ({ rateCounts }) => {
+      const count = rateCounts.get(key) ?? 0;
+      return count > over ? [`${count} by ${by} within ${condition.rate.window}`] : null;
+    };
+  }
+
+  if (!('field' in condition) || typeof condition.field !== 'string' || !condition.field) {
+    throw new PolicyValidationError(path, 'unrecognized condition');
+  }
+  const { field } = condition;
+
+  if ('matches' in condition) {
+    const flags = condition.flags ?? '';
+    if (!REGEX_FLAGS.test(flags)) {
+      throw new PolicyValidationError(`${path}.flags`, `unsupported regex flags ${flags}`);
+    }
+    const normalize = condition.normalize !== false;
+    const pattern = buildRegex(
+      condition.matches,
+      uniqueFlags(`${flags}gu${normalize ? 'i' : ''}`),
+      `${path}.matches`
+    );
+
+    return ({ subject }) => {
+      const value = getField(subject, field);
+      if (typeof value !== 'string') return null;
+      const text = normalize ? normalizeText(value) : value;
+      const matches = Array.from(text.matchAll(pattern), match => match[0]);
+      return matches.length ? matches : null;
+    };
+  }
+
+  if ('keywords' in condition) {
+    if (!Array.isArray(condition.keywords) || !condition.keywords.length) {
+      throw new PolicyValidationError(`${path}.keywords`, 'must be a non-empty list');
+    }
+    const normalize = condition.normalize !== false;
+    const terms = condition.keywords.map(keyword =>
+      escapeRegex(normalize ? normalizeText(keyword) : keyword.toLowerCase())
+    );
+    // Whole words only: "ass" shouldn't match "class"
+    const pattern = buildRegex(
+      `(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`,
+      'giu',
+      `${path}.keywords`
+    );
+
+    return ({ subject }) => {
+      const value = getField(subject, field);
+      if (typeof value !== 'string') return null;
+      const text = normalize ? normalizeText(value) : value;
+      const matches = [...new Set(Array.from(text.matchAll(pattern), match => match[0]))];
+      return matches.length ? matches : null;
+    };
+  }
+
+  return compileComparison(field, condition, path);
+}
+
+export function parseDuration(duration: Duration, path = 'duration'): number {
+  if (typeof duration === 'number' && Number.isFinite(duration) && duration >= 0) {
+    return duration;
+  }
+
+  const match = typeof duration === 'string' ? DURATION.exec(duration.trim()) : null;
+  if (!match) {
+    throw new PolicyValidationError(path, `invalid duration ${String(duration)}`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] as keyof typeof DURATION_UNITS];
+}
+
+export function rateKey(by: string, windowMs: number): string {
+  return `${by}@${windowMs}`;
+}
+
+export function getField(subject: ModerationSubject, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) => (value !== null && typeof value === 'object' ? (value as any)[key] : undefined),
+      subject
+    );
+}
+
+function compileComparison(field: string, comparison: Comparison, path: string): Evaluator {
+  const operators = Object.keys(comparison).filter(key => key !== 'field');
+  if (!operators.length) {
+    throw new PolicyValidationError(path, `no comparison for ${field}`);
+  }
+
+  const unknown = operators.find(key => !COMPARISON_KEYS.includes(key));
+  if (unknown) {
+    throw new PolicyValidationError(path, `unknown operator ${unknown}`);
+  }
+
+  if (comparison.in !== undefined && !Array.isArray(comparison.in)) {
+    throw new PolicyValidationError(`${path}.in`, 'must be a list');
+  }
+
+  const contains = comparison.contains === undefined ? undefined : normalizeText(comparison.contains);
+
+  return ({ subject }) => {
+    const value = getField(subject, field);
+    const { eq, neq, gt, gte, lt, lte, exists } = comparison;
+
+    if (exists !== undefined && (value !== undefined && value !== null) !== exists) return null;
+    if ('eq' in comparison && value !== eq) return null;
+    if ('neq' in comparison && value === neq) return null;
+    if (comparison.in && !comparison.in.includes(value)) return null;
+
+    if (gt !== undefined || gte !== undefined || lt !== undefined || lte !== undefined) {
+      if (typeof value !== 'number') return null;
+      if (gt !== undefined && !(value > gt)) return null;
+      if (gte !== undefined && !(value >= gte)) return null;
+      if (lt !== undefined && !(value < lt)) return null;
+      if (lte !== undefined && !(value <= lte)) return null;
+    }
+
+    if (contains !== undefined) {
+      const found = Array.isArray(value)
+        ? value.some(item => typeof item === 'string' && normalizeText(item) === contains)
+        : typeof value === 'string' && normalizeText(value).includes(contains);
+      if (!found) return null;
+    }
+
+    return [`${field}=${JSON.stringify(value)}`];
+  };
+}
+
+function compileList(
+  conditions: Condition[],
+  path: string,
+  onRate: (window: RateWindow) => void
+): Evaluator[] {
+  if (!Array.isArray(conditions) || !conditions.length) {
+    throw new PolicyValidationError(path, 'must be a non-empty list');
+  }
+  return conditions.map((condition, index) => compileCondition(condition, `${path}[${index}]`, onRate));
+}
+
+function optionalDuration(duration: Duration | undefined, path: string): number | undefined {
+  return duration === undefined ? undefined : parseDuration(duration, path);
+}
+
+function buildRegex(source: string, flags: string, path: string): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new PolicyValidationError(path, (error as Error).message);
+  }
+}
+
+function uniqueFlags(flags: string): string {
+  return [...new Set(flags)].join('');
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function formatAge(milliseconds: number): string {
+  const days = milliseconds / DURATION_UNITS.d;
+  return days >= 1 ? `${Math.floor(days)}d` : `${Math.floor(milliseconds / DURATION_UNITS.h)}h`;
+}
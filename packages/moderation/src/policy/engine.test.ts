@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PolicyValidationError } from './compile';
+import { PolicyEngine, mostSevere } from './engine';
+import { InMemoryPolicyStore } from './store';
+import type { ModerationSubject, PolicyDefinition } from './types';
+
+const MINUTE = 60 * 1000;
+
+const post = (id: string, text: string, at?: Date, authorId = 'author-1'): ModerationSubject => ({
+  id,
+  type: 'post',
+  text,
+  author: { id: authorId },
+  createdAt: at
+});
+
+const spamPolicy: PolicyDefinition = {
+  id: 'spam',
+  rules: [
+    { id: 'keywords', when: { field: 'text', keywords: ['scam'] }, action: 'flag', severity: 'low' },
+    { id: 'links', when: { field: 'text', matches: 'bit\\.ly/\\w+' }, action: 'hide', severity: 'medium' }
+  ]
+};
+
+const stricter: PolicyDefinition = {
+  ...spamPolicy,
+  rules: spamPolicy.rules.map(rule => (rule.id === 'keywords' ? { ...rule, action: 'block' as const } : rule))
+};
+
+describe('PolicyEngine', () => {
+  let store: InMemoryPolicyStore;
+  let now: Date;
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    store = new InMemoryPolicyStore();
+    now = new Date('2024-06-01T00:00:00Z');
+    engine = new PolicyEngine({ policyStore: store, now: () => now });
+  });
+
+  it('takes the most severe action among matching rules', async () => {
+    await engine.publish(spamPolicy, 'admin');
+
+    const decision = await engine.evaluate(post('p1', 'scam at bit.ly/abc'), 'spam');
+
+    expect(decision.action).toBe('hide');
+    expect(decision.matches.map(match => match.ruleId)).toEqual(['keywords', 'links']);
+    expect(decision.policyVersion).toBe(1);
+    expect((await engine.evaluate(post('p2', 'hello'), 'spam')).action).toBeNull();
+  });
+
+  it('skips disabled rules', async () => {
+    await engine.publish({
+      ...spamPolicy,
+      rules: spamPolicy.rules.map(rule => (rule.id === 'links' ? { ...rule, enabled: false } : rule))
+    });
+
+    const decision = await engine.evaluate(post('p1', 'scam at bit.ly/abc'), 'spam');
+
+    expect(decision.action).toBe('flag');
+    expect(engine.getMetrics('spam').map(metrics => metrics.ruleId)).toEqual(['keywords']);
+  });
+
+  it('counts evaluations and hits per rule', async () => {
+    await engine.publish(spamPolicy);
+
+    await engine.evaluate(post('p1', 'scam'), 'spam');
+    await engine.evaluate(post('p2', 'hello'), 'spam');
+
+    const keywords = engine.getMetrics('spam').find(metrics => metrics.ruleId === 'keywords');
+    expect(keywords).toMatchObject({ evaluations: 2, hits: 1, lastHitAt: now });
+
+    engine.resetMetrics('spam');
+    expect(engine.getMetrics()).toEqual([]);
+  });
+
+  it('applies rate limits within the window', async () => {
+    await engine.publish({
+      id: 'flood',
+      rules: [
+        {
+          id: 'burst',
+          when: { rate: { by: 'author.id', window: '1m', over: 2 } },
+          action: 'review',
+          severity: 'medium'
+        }
+      ]
+    });
+
+    const actions = [];
+    for (const id of ['p1', 'p2', 'p3']) {
+      actions.push((await engine.evaluate(post(id, 'hi'), 'flood')).action);
+    }
+    expect(actions).toEqual([null, null, 'review']);
+
+    // Another author has their own count
+    expect((await engine.evaluate(post('p4', 'hi', undefined, 'author-2'), 'flood')).action).toBeNull();
+
+    now = new Date(now.getTime() + 2 * MINUTE);
+    expect((await engine.evaluate(post('p5', 'hi'), 'flood')).action).toBeNull();
+  });
+
+  describe('versions', () => {
+    it('publishes immutable, increasing versions', async () => {
+      await engine.publish(spamPolicy, 'admin');
+      const second = await engine.publish(stricter, 'admin');
+
+      expect(second.version).toBe(2);
+      expect((await engine.getHistory('spam')).map(policy => policy.version)).toEqual([1, 2]);
+      expect(engine.getActivePolicy('spam')?.version).toBe(2);
+      await expect(store.save({ ...second, rules: [] })).rejects.toThrow('already exists');
+    });
+
+    it('rolls back to an earlier version', async () => {
+      await engine.publish(spamPolicy);
+      await engine.publish(stricter);
+      expect((await engine.evaluate(post('p1', 'scam'), 'spam')).action).toBe('block');
+
+      const restored = await engine.activate('spam', 1);
+
+      expect(restored.version).toBe(1);
+      expect(engine.getActivePolicy('spam')?.version).toBe(1);
+      const decision = await engine.evaluate(post('p2', 'scam'), 'spam');
+      expect(decision).toMatchObject({ action: 'flag', policyVersion: 1 });
+      // Rolling back doesn't rewrite history
+      expect(await engine.getHistory('spam')).toHaveLength(2);
+    });
+
+    it('refuses to activate a version that was never published', async () => {
+      await engine.publish(spamPolicy);
+
+      await expect(engine.activate('spam', 7)).rejects.toThrow('Policy spam version 7 not found');
+      expect(engine.getActivePolicy('spam')?.version).toBe(1);
+    });
+
+    it('does not store a policy that fails validation', async () => {
+      await engine.publish(spamPolicy);
+
+      await expect(
+        engine.publish({
+          id: 'spam',
+          rules: [{ id: 'bad', when: { field: 'text', matches: '(' }, action: 'flag', severity: 'low' }]
+        })
+      ).rejects.toBeInstanceOf(PolicyValidationError);
+      expect(await engine.getHistory('spam')).toHaveLength(1);
+      expect(engine.getActivePolicy('spam')?.version).toBe(1);
+    });
+
+    it('loads the latest stored version when none is active', async () => {
+      await new PolicyEngine({ policyStore: store }).publish(spamPolicy);
+
+      const decision = await engine.evaluate(post('p1', 'scam'), 'spam');
+
+      expect(decision).toMatchObject({ action: 'flag', policyVersion: 1 });
+      await expect(engine.evaluate(post('p2', 'scam'), 'missing')).rejects.toThrow('Policy missing not found');
+    });
+  });
+
+  describe('dryRun', () => {
+    const history = [
+      post('h1', 'scam', new Date('2024-05-01T00:00:00Z')),
+      post('h2', 'bit.ly/xyz', new Date('2024-05-01T00:01:00Z')),
+      post('h3', 'hello', new Date('2024-05-01T00:02:00Z'))
+    ];
+
+    it('reports what a draft would have done', async () => {
+      const report = await engine.dryRun(spamPolicy, history);
+
+      expect(report).toMatchObject({
+        policyId: 'spam',
+        policyVersion: 1,
+        baselineVersion: undefined,
+        evaluated: 3,
+        actioned: 2,
+        byAction: { flag: 1, hide: 1 },
+        byRule: { keywords: 1, links: 1 },
+        changed: []
+      });
+      expect(await engine.getHistory('spam')).toEqual([]);
+    });
+
+    it('compares a candidate with the active version', async () => {
+      await engine.publish(spamPolicy);
+
+      const report = await engine.dryRun(stricter, history);
+
+      expect(report.policyVersion).toBe(2);
+      expect(report.baselineVersion).toBe(1);
+      expect(report.changed).toEqual([{ subjectId: 'h1', from: 'flag', to: 'block' }]);
+      // The candidate is neither stored nor activated
+      expect(engine.getActivePolicy('spam')?.version).toBe(1);
+    });
+
+    it('leaves live metrics and rate counts alone', async () => {
+      const flood: PolicyDefinition = {
+        id: 'flood',
+        rules: [
+          {
+            id: 'burst',
+            when: { rate: { by: 'author.id', window: '10m', over: 1 } },
+            action: 'review',
+            severity: 'medium'
+          }
+        ]
+      };
+      await engine.publish(flood);
+
+      // Rates in a dry run follow each subject's creation time
+      const report = await engine.dryRun(flood, history);
+      expect(report.decisions.map(decision => decision.action)).toEqual([null, 'review', 'review']);
+
+      expect(engine.getMetrics('flood')).toEqual([]);
+      expect((await engine.evaluate(post('p1', 'hi'), 'flood')).action).toBeNull();
+    });
+
+    it('accepts history as an async iterable', async () => {
+      async function* stream() {
+        yield* history;
+      }
+
+      expect((await engine.dryRun(spamPolicy, stream())).evaluated).toBe(3);
+    });
+  });
+});
+
+describe('mostSevere', () => {
+  it('orders actions from flag to ban', () => {
+    expect(mostSevere(['hide', 'flag', 'block', 'review'])).toBe('block');
+    expect(mostSevere([])).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  compilePolicy,
+  getField,
+  rateKey,
+  type CompiledPolicy,
+  type EvaluationContext
+} from './compile';
+import { InMemoryPolicyStore, InMemoryRateStore, type PolicyStore, type RateStore } from './store';
+import {
+  POLICY_ACTIONS,
+  type DryRunReport,
+  type ModerationSubject,
+  type Policy,
+  type PolicyAction,
+  type PolicyDecision,
+  type PolicyDefinition,
+  type RuleMatch,
+  type RuleMetrics
+} from './types';
+
+export interface PolicyEngineOptions {
+  policyStore?: PolicyStore;
+  rateStore?: RateStore;
+  now?: () => Date;
+}
+
+/**
+ * Evaluates moderation subjects against versioned policies. Publishing a
+ * policy creates a new immutable version and makes it active; an older
+ * version can be reactivated to roll back. Candidates can be dry-run
+ * against historical content before they go live.
+ */
+export class PolicyEngine {
+  private policyStore: PolicyStore;
+  private rateStore: RateStore;
+  private now: () => Date;
+  private active = new Map<string, CompiledPolicy>();
+  private metrics = new Map<string, RuleMetrics>();
+
+  constructor(options: PolicyEngineOptions = {}) {
+    this.policyStore = options.policyStore ?? new InMemoryPolicyStore();
+    this.rateStore = options.rateStore ?? new InMemoryRateStore();
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // Validates, stores and activates the next version of a policy
+  async publish(definition: PolicyDefinition, publishedBy?: string): Promise<Policy> {
+    const latest = await this.policyStore.get(definition.id);
+    const policy: Policy = {
+      ...definition,
+      version: (latest?.version ?? 0) + 1,
+      publishedAt: this.now(),
+      publishedBy
+    };
+
+    const compiled = compilePolicy(policy);
+    await this.policyStore.save(policy);
+    this.active.set(policy.id, compiled);
+    return policy;
+  }
+
+  // Make a stored version the live one, e.g. to roll back a bad publish
+  async activate(id: string, version?: number): Promise<Policy> {
+    const policy = await this.policyStore.get(id, version);
+    if (!policy) {
+      throw new Error(`Policy ${id}${version === undefined ? '' : ` version ${version}`} not found`);
+    }
+    this.active.set(id, compilePolicy(policy));
+    return policy;
+  }
+
+  getActivePolicy(id: string): Policy | null {
+    return this.active.get(id)?.policy ?? null;
+  }
+
+  async getPolicy(id: string, version?: number): Promise<Policy | null> {
+    return this.policyStore.get(id, version);
+  }
+
+  async getHistory(id: string): Promise<Policy[]> {
+    return this.policyStore.history(id);
+  }
+
+  /**
+   * Evaluate a subject against the active version of a policy. Counts
+   * toward rate conditions and per-rule metrics.
+   */
+  async evaluate(subject: ModerationSubject, policyId: string): Promise<PolicyDecision> {
+    const compiled = this.active.get(policyId) ?? (await this.loadLatest(policyId));
+    const decision = await this.run(compiled, subject, this.rateStore, this.now());
+
+    for (const { rule } of compiled.rules) {
+      if (rule.enabled === false) continue;
+
+      const key = metricsKey(compiled.policy, rule.id);
+      const metrics = this.metrics.get(key) ?? {
+        policyId: compiled.policy.id,
+        policyVersion: compiled.policy.version,
+        ruleId: rule.id,
+        evaluations: 0,
+        hits: 0
+      };
+
+      metrics.evaluations++;
+      if (decision.matches.some(match => match.ruleId === rule.id)) {
+        metrics.hits++;
+        metrics.lastHitAt = decision.evaluatedAt;
+      }
+      this.metrics.set(key, metrics);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Report what a policy would have done to historical content, oldest
+   * first, without touching live rate counts or metrics. A draft
+   * definition is checked as the next version; the outcome is compared
+   * with the active version when there is one.
+   */
+  async dryRun(
+    candidate: PolicyDefinition | Policy,
+    history: Iterable<ModerationSubject> | AsyncIterable<ModerationSubject>
+  ): Promise<DryRunReport> {
+    const compiled = compilePolicy(
+      'version' in candidate
+        ? (candidate as Policy)
+        : {
+            ...candidate,
+            version: ((await this.policyStore.get(candidate.id))?.version ?? 0) + 1,
+            publishedAt: this.now()
+          }
+    );
+    const baseline = this.active.get(candidate.id);
+    const candidateRates = new InMemoryRateStore();
+    const baselineRates = new InMemoryRateStore();
+
+    const report: DryRunReport = {
+      policyId: compiled.policy.id,
+      policyVersion: compiled.policy.version,
+      baselineVersion: baseline?.policy.version,
+      evaluated: 0,
+      actioned: 0,
+      byAction: {},
+      byRule: {},
+      decisions: [],
+      changed: []
+    };
+
+    for await (const subject of history) {
+      const at = subject.createdAt ? new Date(subject.createdAt) : this.now();
+      const decision = await this.run(compiled, subject, candidateRates, at);
+
+      report.evaluated++;
+      report.decisions.push(decision);
+      if (decision.action) {
+        report.actioned++;
+        report.byAction[decision.action] = (report.byAction[decision.action] ?? 0) + 1;
+      }
+      for (const match of decision.matches) {
+        report.byRule[match.ruleId] = (report.byRule[match.ruleId] ?? 0) + 1;
+      }
+
+      if (baseline) {
+        const previous = await this.run(baseline, subject, baselineRates, at);
+        if (previous.action !== decision.action) {
+          report.changed.push({ subjectId: subject.id, from: previous.action, to: decision.action });
+        }
+      }
+    }
+
+    return report;
+  }
+
+  getMetrics(policyId?: string): RuleMetrics[] {
+    return [...this.metrics.values()]
+      .filter(metrics => !policyId || metrics.policyId === policyId)
+      .map(metrics => ({ ...metrics }));
+  }
+
+  resetMetrics(policyId?: string) {
+    for (const [key, metrics] of this.metrics) {
+      if (!policyId || metrics.policyId === policyId) {
+        this.metrics.delete(key);
+      }
+    }
+  }
+
+  private async loadLatest(policyId: string): Promise<CompiledPolicy> {
+    const policy = await this.policyStore.get(policyId);
+    if (!policy) throw new Error(`Policy ${policyId} not found`);
+
+    const compiled = compilePolicy(policy);
+    this.active.set(policyId, compiled);
+    return compiled;
+  }
+
+  private async run(
+    compiled: CompiledPolicy,
+    subject: ModerationSubject,
+    rateStore: RateStore,
+    now: Date
+  ): Promise<PolicyDecision> {
+    const context: EvaluationContext = {
+      subject,
+      now,
+      rateCounts: await this.countRates(compiled, subject, rateStore, now)
+    };
+
+    const matches: RuleMatch[] = [];
+    for (const { rule, test } of compiled.rules) {
+      if (rule.enabled === false) continue;
+
+      const evidence = test(context);
+      if (evidence) {
+        matches.push({
+          ruleId: rule.id,
+          action: rule.action,
+          severity: rule.severity,
+          reason: rule.reason,
+          evidence
+        });
+      }
+    }
+
+    return {
+      subjectId: subject.id,
+      policyId: compiled.policy.id,
+      policyVersion: compiled.policy.version,
+      action: mostSevere(matches.map(match => match.action)),
+      matches,
+      evaluatedAt: now
+    };
+  }
+
+  // Records the subject once per rate key, then counts each window including it
+  private async countRates(
+    compiled: CompiledPolicy,
+    subject: ModerationSubject,
+    rateStore: RateStore,
+    now: Date
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    const recorded = new Set<string>();
+
+    for (const { by, windowMs } of compiled.rateWindows) {
+      const value = getField(subject, by);
+      if (value === undefined || value === null) continue;
+
+      const storeKey = `${compiled.policy.id}:${by}=${String(value)}`;
+      if (!recorded.has(storeKey)) {
+        await rateStore.record(storeKey, now);
+        recorded.add(storeKey);
+      }
+
+      counts.set(
+        rateKey(by, windowMs),
+        await rateStore.count(storeKey, new Date(now.getTime() - windowMs), now)
+      );
+    }
+
+    return counts;
+  }
+}
+
+export function mostSevere(actions: PolicyAction[]): PolicyAction | null {
+  return actions.reduce<PolicyAction | null>(
+    (worst, action) =>
+      worst === null || POLICY_ACTIONS.indexOf(action) > POLICY_ACTIONS.indexOf(worst) ? action : worst,
+    null
+  );
+}
+
+function metricsKey(policy: Policy, ruleId: string): string {
+  return `${policy.id}@${policy.version}#${ruleId}`;
+}
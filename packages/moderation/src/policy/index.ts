@@ -0,0 +1,21 @@
+export { PolicyEngine, mostSevere } from './engine';
+export type { PolicyEngineOptions } from './engine';
+export { compilePolicy, compileCondition, parseDuration, PolicyValidationError } from './compile';
+export { InMemoryPolicyStore, InMemoryRateStore } from './store';
+export type { PolicyStore, RateStore } from './store';
+export { normalizeText } from './normalize';
+export { POLICY_ACTIONS } from './types';
+export type {
+  Condition,
+  Duration,
+  PolicyAction,
+  PolicyRule,
+  RuleSeverity,
+  PolicyDefinition,
+  Policy,
+  ModerationSubject,
+  RuleMatch,
+  PolicyDecision,
+  RuleMetrics,
+  DryRunReport
+} from './types';
@@ -0,0 +1,67 @@
+// Characters commonly substituted for letters to dodge filters
+const LEET_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '2': 'z',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '6': 'g',
+  '7': 't',
+  '8': 'b',
+  '9': 'g',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+  '|': 'l',
+  '+': 't',
+  '€': 'e',
+  '£': 'l'
+};
+
+// Latin lookalikes from other scripts that NFKC leaves alone
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o',
+  'р': 'p', 'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j',
+  'ѕ': 's', 'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x'
+};
+
+const INVISIBLE = /[\u00AD\u034F\u061C\u115F\u1160\u17B4\u17B5\u180E\u200B-\u200F\u202A-\u202E\u2060-\u206F\uFEFF]/g;
+const COMBINING_MARKS = /\p{M}+/gu;
+
+export interface NormalizeOptions {
+  leetspeak?: boolean;
+}
+
+/**
+ * Fold text for matching: NFKC (full-width and styled letters become
+ * plain ones), lower case, diacritics and invisible characters removed,
+ * Cyrillic/Greek lookalikes mapped to Latin and, by default, leetspeak
+ * digits and symbols mapped to the letters they stand for.
+ */
+export function normalizeText(text: string, options: NormalizeOptions = {}): string {
+  const { leetspeak = true } = options;
+
+  let folded = text
+    .normalize('NFKC')
+    .replace(INVISIBLE, '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '')
+    .normalize('NFC');
+
+  folded = Array.from(folded, char => CONFUSABLES[char] ?? char).join('');
+
+  if (leetspeak) {
+    // Only fold symbols touching a letter, so plain numbers stay numbers
+    folded = folded.replace(/[0-9@$!|+€£]+/g, (run, offset: number, whole: string) => {
+      const before = whole[offset - 1] ?? '';
+      const after = whole[offset + run.length] ?? '';
+      if (!/\p{L}/u.test(before) && !/\p{L}/u.test(after)) return run;
+      return Array.from(run, char => LEET_MAP[char] ?? char).join('');
+    });
+  }
+
+  return folded;
+}
@@ -0,0 +1,70 @@
+import type { Policy } from './types';
+
+/**
+ * Published policy versions. Versions are immutable: saving an id and
+ * version that already exist must fail.
+ */
+export interface PolicyStore {
+  save(policy: Policy): Promise<void>;
+  // The highest version when no version is given
+  get(id: string, version?: number): Promise<Policy | null>;
+  // Every version of a policy, oldest first
+  history(id: string): Promise<Policy[]>;
+}
+
+/**
+ * Timestamps of subjects seen per key, for rate conditions. A shared
+ * store (e.g. Redis sorted sets) lets limits hold across instances.
+ */
+export interface RateStore {
+  record(key: string, at: Date): Promise<void>;
+  count(key: string, since: Date, until: Date): Promise<number>;
+}
+
+export class InMemoryPolicyStore implements PolicyStore {
+  private versions = new Map<string, Policy[]>();
+
+  async save(policy: Policy): Promise<void> {
+    const versions = this.versions.get(policy.id) ?? [];
+    if (versions.some(existing => existing.version === policy.version)) {
+      throw new Error(`Policy ${policy.id} version ${policy.version} already exists`);
+    }
+    this.versions.set(
+      policy.id,
+      [...versions, policy].sort((a, b) => a.version - b.version)
+    );
+  }
+
+  async get(id: string, version?: number): Promise<Policy | null> {
+    const versions = this.versions.get(id) ?? [];
+    if (version === undefined) return versions[versions.length - 1] ?? null;
+    return versions.find(policy => policy.version === version) ?? null;
+  }
+
+  async history(id: string): Promise<Policy[]> {
+    return [...(this.versions.get(id) ?? [])];
+  }
+}
+
+export class InMemoryRateStore implements RateStore {
+  private events = new Map<string, number[]>();
+
+  // Events older than this, relative to the newest one, are forgotten
+  constructor(private retentionMs = 24 * 60 * 60 * 1000) {}
+
+  async record(key: string, at: Date): Promise<void> {
+    const time = at.getTime();
+    const cutoff = time - this.retentionMs;
+    const events = (this.events.get(key) ?? []).filter(event => event >= cutoff);
+
+    events.push(time);
+    events.sort((a, b) => a - b);
+    this.events.set(key, events);
+  }
+
+  async count(key: string, since: Date, until: Date): Promise<number> {
+    const from = since.getTime();
+    const to = until.getTime();
+    return (this.events.get(key) ?? []).filter(event => event >= from && event <= to).length;
+  }
+}
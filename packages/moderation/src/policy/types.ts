@@ -0,0 +1,167 @@
+/**
+ * Moderation policy language. Policies are plain JSON so they can be
+ * stored, diffed and versioned; conditions compose with all/any/not.
+ */
+
+// Milliseconds, or a string like '30s', '10m', '1h', '7d'
+export type Duration = number | string;
+
+export type Comparison = {
+  eq?: unknown;
+  neq?: unknown;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  in?: unknown[];
+  contains?: string;
+  exists?: boolean;
+};
+
+// A dotted path into the subject, e.g. 'text', 'author.id', 'signals.toxicity'
+export type FieldPath = string;
+
+export type FieldCondition = { field: FieldPath } & Comparison;
+
+/**
+ * Regex test. Unless normalize is false, the field is Unicode-normalized
+ * (NFKC, case and diacritics folded, invisible characters removed) and
+ * leetspeak-folded before matching.
+ */
+export interface PatternCondition {
+  field: FieldPath;
+  matches: string;
+  flags?: string;
+  normalize?: boolean;
+}
+
+// Whole-word match against any of the terms, on normalized text
+export interface KeywordCondition {
+  field: FieldPath;
+  keywords: string[];
+  normalize?: boolean;
+}
+
+export interface ReputationCondition {
+  reputation: { below?: number; atLeast?: number };
+}
+
+export interface AccountAgeCondition {
+  accountAge: { under?: Duration; over?: Duration };
+}
+
+/**
+ * True when more than `over` subjects sharing the value at `by` were
+ * seen within `window`, the current one included
+ */
+export interface RateCondition {
+  rate: { by: FieldPath; window: Duration; over: number };
+}
+
+export interface AllCondition {
+  all: Condition[];
+}
+
+export interface AnyCondition {
+  any: Condition[];
+}
+
+export interface NotCondition {
+  not: Condition;
+}
+
+export type Condition =
+  | AllCondition
+  | AnyCondition
+  | NotCondition
+  | PatternCondition
+  | KeywordCondition
+  | FieldCondition
+  | ReputationCondition
+  | AccountAgeCondition
+  | RateCondition;
+
+// Ordered from least to most severe; a decision takes the most severe match
+export const POLICY_ACTIONS = ['flag', 'review', 'hide', 'block', 'delete', 'ban'] as const;
+
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
+
+export type RuleSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  when: Condition;
+  action: PolicyAction;
+  severity: RuleSeverity;
+  reason?: string;
+  enabled?: boolean;
+}
+
+export interface PolicyDefinition {
+  id: string;
+  description?: string;
+  rules: PolicyRule[];
+}
+
+export interface Policy extends PolicyDefinition {
+  version: number;
+  publishedAt: Date;
+  publishedBy?: string;
+}
+
+export interface ModerationSubject {
+  id: string;
+  type: string;
+  text?: string;
+  author: {
+    id: string;
+    reputation?: number;
+    createdAt?: Date | string;
+  };
+  createdAt?: Date | string;
+  // Scores from classifiers and anything else rules may refer to
+  signals?: Record<string, number>;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  action: PolicyAction;
+  severity: RuleSeverity;
+  reason?: string;
+  evidence: string[];
+}
+
+export interface PolicyDecision {
+  subjectId: string;
+  policyId: string;
+  policyVersion: number;
+  // Most severe matched action, or null when nothing matched
+  action: PolicyAction | null;
+  matches: RuleMatch[];
+  evaluatedAt: Date;
+}
+
+export interface RuleMetrics {
+  policyId: string;
+  policyVersion: number;
+  ruleId: string;
+  evaluations: number;
+  hits: number;
+  lastHitAt?: Date;
+}
+
+export interface DryRunReport {
+  policyId: string;
+  policyVersion: number;
+  // The live version the candidate was compared against, if any
+  baselineVersion?: number;
+  evaluated: number;
+  actioned: number;
+  byAction: Partial<Record<PolicyAction, number>>;
+  byRule: Record<string, number>;
+  decisions: PolicyDecision[];
+  // Subjects whose outcome differs from the baseline
+  changed: Array<{ subjectId: string; from: PolicyAction | null; to: PolicyAction | null }>;
+}
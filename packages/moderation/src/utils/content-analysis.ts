@@ -1,16 +1,21 @@
 import * as natural from 'natural';
+import { compileCondition } from '../policy/compile';
+import type { Condition } from '../policy/types';
 import type { ContentType } from '../types';
 
 const tokenizer = new natural.WordTokenizer();
 const tfidf = new natural.TfIdf();
 
-// Toxic words and patterns (simplified example - in production, use a comprehensive database)
-const TOXIC_PATTERNS = [
-  /\b(hate|kill|death)\b/i,
-  /\b(racist|sexist)\b/i,
-  /\b(spam|scam)\b/i
+// Toxic terms (simplified example - in production, use a comprehensive database).
+// Matched on normalized text, so "h4te" or full-width letters still count.
+export const TOXIC_CONDITIONS: Condition[] = [
+  { field: 'text', keywords: ['hate', 'kill', 'death'] },
+  { field: 'text', keywords: ['racist', 'sexist'] },
+  { field: 'text', keywords: ['spam', 'scam'] }
 ];
 
+const TOXIC_PATTERNS = TOXIC_CONDITIONS.map(condition => compileCondition(condition));
+
 export function isToxicContent(content: string, type: ContentType = 'text'): {
   isToxic: boolean;
   confidence: number;
@@ -25,10 +30,15 @@ export function isToxicContent(content: string, type: ContentType = 'text'): {
   let toxicScore = 0;
 
   // Check for toxic patterns
+  const context = {
+    subject: { id: '', type, text: content, author: { id: '' } },
+    now: new Date(),
+    rateCounts: new Map<string, number>()
+  };
   TOXIC_PATTERNS.forEach(pattern => {
-    const match = content.match(pattern);
+    const [match] = pattern(context) ?? [];
     if (match) {
-      matches.push(match[0]);
+      matches.push(match);
       toxicScore += 0.3; // Increment score for each toxic pattern
     }
   });
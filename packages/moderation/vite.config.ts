@@ -0,0 +1,33 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+export default defineConfig({
+  build: {
+    lib: {
+      // Subpath entries let the root API service load single modules
+      // without pulling in the ML-backed moderation service
+      entry: {
+        index: path.resolve(__dirname, 'src/index.ts'),
+        media: path.resolve(__dirname, 'src/media/index.ts'),
+        policy: path.resolve(__dirname, 'src/policy/index.ts'),
+        hashing: path.resolve(__dirname, 'src/hashing/index.ts'),
+        appeals: path.resolve(__dirname, 'src/appeals/index.ts')
+      },
+      // The root API service is CommonJS, so it requires the cjs build
+      formats: ['es', 'cjs']
+    },
+    rollupOptions: {
+      external: [
+        '@tensorflow/tfjs',
+        '@tensorflow-models/toxicity',
+        'perspective-api-client',
+        'natural',
+        '@supabase/supabase-js'
+      ]
+    }
+  },
+  test: {
+    globals: true,
+    environment: 'node'
+  }
+});
@@ -0,0 +1,280 @@
+import { Money } from '../ledger/Money';
+import { InMemoryJournalStore, fromRecord, toRecord } from '../ledger/Journal';
+import {
+  Ledger,
+  accounts,
+  IdempotencyConflictError,
+  InsufficientFundsError
+} from '../ledger/Ledger';
+
+const usd = (amount: string) => Money.of(amount, 'USD');
+
+describe('Ledger', () => {
+  describe('Money', () => {
+    it('should add decimal amounts exactly', () => {
+      const total = Money.of(0.1, 'USD').add(Money.of(0.2, 'USD'));
+      expect(total.toString()).toBe('0.30');
+      expect(total.equals(usd('0.3'))).toBe(true);
+    });
+
+    it('should reject strings more precise than the currency', () => {
+      expect(() => usd('1.005')).toThrow('more than 2 decimal places');
+      expect(usd('1.500').toString()).toBe('1.50');
+      expect(Money.of('0.000000000000000001', 'ETH').minor).toBe(1n);
+      expect(Money.of('1500', 'JPY').toString()).toBe('1500');
+    });
+
+    it('should round with banker\'s rounding by default', () => {
+      expect(usd('0.25').multiply('0.5').toString()).toBe('0.12');
+      expect(usd('0.35').multiply('0.5').toString()).toBe('0.18');
+      expect(usd('0.25').multiply('0.5', 'half_up').toString()).toBe('0.13');
+      expect(usd('-0.25').multiply('0.5', 'half_up').toString()).toBe('-0.13');
+    });
+
+    it('should allocate without losing minor units', () => {
+      const parts = usd('100.00').allocate([1, 1, 1]);
+      expect(parts.map(part => part.toString())).toEqual(['33.34', '33.33', '33.33']);
+      expect(Money.sum(parts, 'USD').equals(usd('100'))).toBe(true);
+    });
+
+    it('should refuse to mix currencies', () => {
+      expect(() => usd('1').add(Money.of('1', 'EUR'))).toThrow('Currency mismatch');
+      expect(() => Money.of('1', 'XYZ')).toThrow('Unknown currency');
+    });
+  });
+
+  describe('Postings', () => {
+    let ledger: Ledger;
+
+    beforeEach(() => {
+      ledger = new Ledger();
+    });
+
+    it('should split a tip between creator and platform', async () => {
+      await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 1000,
+        provider: 'stripe'
+      });
+
+      expect((await ledger.balance(accounts.cash('stripe'), 'USD')).toString()).toBe('10.00');
+      expect((await ledger.balance(accounts.creatorPending('alice'), 'USD')).toString()).toBe('9.00');
+      expect((await ledger.balance(accounts.platformFees, 'USD')).toString()).toBe('1.00');
+    });
+
+    it('should reject unbalanced entries', async () => {
+      await expect(ledger.post({
+        idempotencyKey: 'bad',
+        type: 'transfer',
+        postings: [
+          { account: accounts.cash('stripe'), direction: 'debit', amount: usd('5') },
+          { account: accounts.platformFees, direction: 'credit', amount: usd('4.99') }
+        ]
+      })).rejects.toThrow('unbalanced');
+    });
+
+    it('should return the original entry when an idempotency key is retried', async () => {
+      const input = {
+        idempotencyKey: 'sub-1',
+        creatorId: 'alice',
+        amount: usd('5.00'),
+        feeBasisPoints: 500,
+        provider: 'stripe'
+      };
+
+      const first = await ledger.recordSubscription(input);
+      const retry = await ledger.recordSubscription(input);
+
+      expect(retry.id).toBe(first.id);
+      expect((await ledger.balance(accounts.cash('stripe'), 'USD')).toString()).toBe('5.00');
+      await expect(ledger.recordSubscription({ ...input, amount: usd('6.00') }))
+        .rejects.toBeInstanceOf(IdempotencyConflictError);
+    });
+
+    it('should keep posted entries immutable', async () => {
+      const entry = await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 0,
+        provider: 'stripe'
+      });
+
+      expect(Object.isFrozen(entry)).toBe(true);
+      expect(Object.isFrozen(entry.postings)).toBe(true);
+      expect(() => (entry.postings as any).push({})).toThrow();
+    });
+
+    it('should only pay out available funds', async () => {
+      await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('20.00'),
+        feeBasisPoints: 1000,
+        provider: 'stripe'
+      });
+
+      await expect(ledger.recordPayout({
+        idempotencyKey: 'payout-1',
+        creatorId: 'alice',
+        amount: usd('18.00'),
+        provider: 'stripe'
+      })).rejects.toBeInstanceOf(InsufficientFundsError);
+
+      await ledger.settle({ idempotencyKey: 'settle-1', creatorId: 'alice', amount: usd('18.00') });
+      await ledger.recordPayout({
+        idempotencyKey: 'payout-1',
+        creatorId: 'alice',
+        amount: usd('18.00'),
+        provider: 'stripe'
+      });
+
+      expect((await ledger.balance(accounts.creatorAvailable('alice'), 'USD')).isZero()).toBe(true);
+      expect((await ledger.balance(accounts.cash('stripe'), 'USD')).toString()).toBe('2.00');
+    });
+
+    it('should not overdraw when payouts race', async () => {
+      await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 0,
+        provider: 'stripe'
+      });
+      await ledger.settle({ idempotencyKey: 'settle-1', creatorId: 'alice', amount: usd('10.00') });
+
+      const results = await Promise.allSettled(['a', 'b'].map(key => ledger.recordPayout({
+        idempotencyKey: `payout-${key}`,
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        provider: 'stripe'
+      })));
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    });
+  });
+
+  describe('Refunds and Reversals', () => {
+    let ledger: Ledger;
+
+    beforeEach(() => {
+      ledger = new Ledger();
+    });
+
+    it('should claw back the fee in proportion to a partial refund', async () => {
+      const tip = await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 1500,
+        provider: 'stripe'
+      });
+
+      await ledger.recordRefund({ idempotencyKey: 'refund-1', entryId: tip.id, amount: usd('3.33') });
+
+      const pending = await ledger.balance(accounts.creatorPending('alice'), 'USD');
+      const fees = await ledger.balance(accounts.platformFees, 'USD');
+      expect(pending.add(fees).toString()).toBe('6.67');
+      expect(fees.toString()).toBe('1.00');
+
+      await expect(ledger.recordRefund({ idempotencyKey: 'refund-2', entryId: tip.id, amount: usd('6.68') }))
+        .rejects.toThrow('exceeds');
+
+      await ledger.recordRefund({ idempotencyKey: 'refund-2', entryId: tip.id });
+      expect((await ledger.balance(accounts.cash('stripe'), 'USD')).isZero()).toBe(true);
+      expect((await ledger.balance(accounts.platformFees, 'USD')).isZero()).toBe(true);
+    });
+
+    it('should take refunds from available funds once pending is spent', async () => {
+      const tip = await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 0,
+        provider: 'stripe'
+      });
+      await ledger.settle({ idempotencyKey: 'settle-1', creatorId: 'alice', amount: usd('10.00') });
+      await ledger.recordPayout({
+        idempotencyKey: 'payout-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        provider: 'stripe'
+      });
+
+      await ledger.recordRefund({ idempotencyKey: 'refund-1', entryId: tip.id });
+
+      const report = await ledger.reconcile();
+      expect(report.balanced).toBe(true);
+      expect(report.negativeBalances.map(row => [row.account, row.balance.toString()])).toEqual(
+        expect.arrayContaining([
+          [accounts.creatorAvailable('alice'), '-10.00'],
+          [accounts.cash('stripe'), '-10.00']
+        ])
+      );
+    });
+
+    it('should reverse an entry only once', async () => {
+      const tip = await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 1000,
+        provider: 'stripe'
+      });
+
+      await ledger.reverse(tip.id, 'reverse-1');
+      await expect(ledger.reverse(tip.id, 'reverse-2')).rejects.toThrow('already reversed');
+
+      const balances = await ledger.balances();
+      expect(balances.every(row => row.balance.isZero())).toBe(true);
+    });
+  });
+
+  describe('Reconciliation', () => {
+    it('should flag balances that disagree with the journal', async () => {
+      const ledger = new Ledger();
+      await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 1000,
+        provider: 'stripe'
+      });
+
+      const report = await ledger.reconcile([
+        { account: accounts.creatorPending('alice'), balance: usd('9.00') },
+        { account: accounts.cash('stripe'), balance: usd('10.01'), source: 'stripe' },
+        { account: accounts.creatorAvailable('bob'), balance: usd('5.00') }
+      ]);
+
+      expect(report.balanced).toBe(true);
+      expect(report.mismatches.map(m => [m.account, m.difference.toString()])).toEqual([
+        [accounts.cash('stripe'), '-0.01'],
+        [accounts.creatorAvailable('bob'), '-5.00']
+      ]);
+    });
+
+    it('should detect entries that were tampered with in storage', async () => {
+      const store = new InMemoryJournalStore();
+      const ledger = new Ledger({ store });
+      const tip = await ledger.recordTip({
+        idempotencyKey: 'tip-1',
+        creatorId: 'alice',
+        amount: usd('10.00'),
+        feeBasisPoints: 1000,
+        provider: 'stripe'
+      });
+
+      const record = toRecord(tip);
+      record.postings[0]!.amount = { amount: '11.00', currency: 'USD' };
+      const tampered = fromRecord({ ...record, id: 'tampered', idempotencyKey: 'tampered' });
+      await store.append(tampered);
+
+      const report = await ledger.reconcile();
+      expect(report.balanced).toBe(false);
+      expect(report.unbalancedEntries).toEqual(['tampered']);
+    });
+  });
+});
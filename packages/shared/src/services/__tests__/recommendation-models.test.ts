@@ -0,0 +1,185 @@
+import { CandidateGenerator } from '../discovery/CandidateGenerator';
+import { CoEngagementIndex } from '../discovery/CoEngagementIndex';
+import { itemSimilarity, mmrRerank } from '../discovery/Diversity';
+import { ImplicitMatrixFactorization } from '../discovery/MatrixFactorization';
+import {
+  toInteractions,
+  trainRecommendationModels,
+  type EngagementEvent
+} from '../discovery/RecommendationModels';
+
+const now = new Date('2024-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 86400000).toISOString();
+
+// Two taste clusters: users u0-u9 engage with music items, u10-u19 with sport
+const clusteredEvents = (): EngagementEvent[] => {
+  const events: EngagementEvent[] = [];
+  for (let u = 0; u < 20; u++) {
+    const prefix = u < 10 ? 'music' : 'sport';
+    for (let i = 0; i < 5; i++) {
+      // Each user skips one item of their cluster, so it can be predicted
+      if (i === u % 5) continue;
+      events.push({ userId: `u${u}`, itemId: `${prefix}-${i}`, type: 'like', createdAt: daysAgo(1) });
+    }
+  }
+  return events;
+};
+
+const item = (id: string, userId: string, tags: string[] = [], hoursAgo = 0) => ({
+  id,
+  userId,
+  tags,
+  categories: [],
+  createdAt: new Date(now.getTime() - hoursAgo * 3600000).toISOString()
+});
+
+describe('Recommendation Models', () => {
+  describe('Engagement Log', () => {
+    it('should sum engagement per user and item with time decay', () => {
+      const interactions = toInteractions([
+        { userId: 'a', itemId: 'x', type: 'like', createdAt: daysAgo(0) },
+        { userId: 'a', itemId: 'x', type: 'share', createdAt: daysAgo(30) },
+        { userId: 'a', itemId: 'y', type: 'view', createdAt: daysAgo(60) }
+      ], undefined, now);
+
+      expect(interactions).toHaveLength(2);
+      expect(interactions[0].weight).toBeCloseTo(3 + 5 / 2);
+      expect(interactions[1].weight).toBeCloseTo(1 / 4);
+    });
+
+    it('should let not interested override earlier engagement', () => {
+      const [interaction] = toInteractions([
+        { userId: 'a', itemId: 'x', type: 'share', createdAt: daysAgo(1) },
+        { userId: 'a', itemId: 'x', type: 'not_interested', createdAt: daysAgo(0) }
+      ], undefined, now);
+
+      expect(interaction.weight).toBe(-5);
+    });
+  });
+
+  describe('Matrix Factorization', () => {
+    it('should predict unseen items from the same taste cluster', () => {
+      const model = ImplicitMatrixFactorization.train(
+        toInteractions(clusteredEvents(), undefined, now),
+        { factors: 2, iterations: 15 }
+      );
+
+      // u0 skipped music-0, u10 skipped sport-0
+      expect(model.score('u0', 'music-0')).toBeGreaterThan(model.score('u0', 'sport-0') + 0.3);
+      expect(model.score('u10', 'sport-0')).toBeGreaterThan(model.score('u10', 'music-0') + 0.3);
+    });
+
+    it('should score unknown users and items as zero', () => {
+      const model = ImplicitMatrixFactorization.train(
+        toInteractions(clusteredEvents(), undefined, now),
+        { factors: 2 }
+      );
+
+      expect(model.hasUser('stranger')).toBe(false);
+      expect(model.score('stranger', 'music-0')).toBe(0);
+      expect(model.score('u0', 'unknown')).toBe(0);
+    });
+
+    it('should learn from not interested feedback', () => {
+      const events = clusteredEvents();
+      const before = trainRecommendationModels(events, { factorization: { factors: 2 } }, now);
+      events.push({ userId: 'u0', itemId: 'music-0', type: 'not_interested', createdAt: daysAgo(0) });
+      const after = trainRecommendationModels(events, { factorization: { factors: 2 } }, now);
+
+      expect(after.factorization.score('u0', 'music-0'))
+        .toBeLessThan(before.factorization.score('u0', 'music-0'));
+    });
+  });
+
+  describe('Co-Engagement', () => {
+    it('should find neighbours engaged with by the same users', () => {
+      const index = CoEngagementIndex.build(toInteractions(clusteredEvents(), undefined, now));
+
+      const neighbours = index.neighbours('music-1');
+      expect(neighbours.length).toBe(4);
+      expect(neighbours.every(n => n.itemId.startsWith('music-'))).toBe(true);
+      expect(neighbours[0].similarity).toBeLessThanOrEqual(1);
+    });
+
+    it('should ignore pairs below minimum support', () => {
+      const index = CoEngagementIndex.build([
+        { userId: 'a', itemId: 'x', weight: 1 },
+        { userId: 'a', itemId: 'y', weight: 1 }
+      ]);
+
+      expect(index.neighbours('x')).toEqual([]);
+    });
+  });
+
+  describe('Candidate Generation', () => {
+    const catalogue = [
+      item('followed-old', 'creator-1', [], 48),
+      item('followed-new', 'creator-1', [], 1),
+      item('neighbour', 'creator-2', [], 100),
+      item('hot', 'creator-3', [], 10),
+      item('fresh', 'creator-4', [], 0),
+      item('blocked', 'creator-5', [], 0)
+    ];
+    const trending = new Map([['hot', 100], ['fresh', 1]]);
+    const coEngagement = CoEngagementIndex.build([
+      { userId: 'a', itemId: 'seed', weight: 1 },
+      { userId: 'a', itemId: 'neighbour', weight: 1 },
+      { userId: 'b', itemId: 'seed', weight: 1 },
+      { userId: 'b', itemId: 'neighbour', weight: 1 }
+    ]);
+
+    it('should merge followed, neighbour, trending and fresh sources', () => {
+      const generator = new CandidateGenerator({ trendingPoolSize: 1, freshPoolSize: 1 });
+      generator.rebuild(catalogue, trending);
+
+      const candidates = generator.generate({
+        followedCreators: ['creator-1'],
+        seedItems: ['seed'],
+        blockedCreators: ['creator-5'],
+        excludedItems: new Set()
+      }, coEngagement);
+
+      expect(Object.fromEntries(candidates)).toEqual({
+        'followed-new': ['followed'],
+        'followed-old': ['followed'],
+        neighbour: ['neighbours'],
+        hot: ['trending'],
+        fresh: ['fresh']
+      });
+    });
+
+    it('should skip excluded items and stop at the candidate limit', () => {
+      const generator = new CandidateGenerator({ maxCandidates: 2 });
+      generator.rebuild(catalogue, trending);
+
+      const candidates = generator.generate({
+        followedCreators: ['creator-1'],
+        seedItems: [],
+        blockedCreators: [],
+        excludedItems: new Set(['followed-new'])
+      }, CoEngagementIndex.empty());
+
+      expect(Array.from(candidates.keys())).toEqual(['followed-old', 'hot']);
+    });
+  });
+
+  describe('Diversity', () => {
+    it('should interleave creators instead of ranking one creator first', () => {
+      const ranked = [
+        { item: item('a1', 'a', ['cats']), score: 1 },
+        { item: item('a2', 'a', ['cats']), score: 0.95 },
+        { item: item('a3', 'a', ['cats']), score: 0.9 },
+        { item: item('b1', 'b', ['cars']), score: 0.8 }
+      ];
+
+      expect(mmrRerank(ranked, 4, 1).map(i => i.id)).toEqual(['a1', 'a2', 'a3', 'b1']);
+      expect(mmrRerank(ranked, 2, 0.5).map(i => i.id)).toEqual(['a1', 'b1']);
+    });
+
+    it('should rate items by creator and content overlap', () => {
+      expect(itemSimilarity(item('x', 'a', ['cats']), item('y', 'a', ['cats']))).toBe(1);
+      expect(itemSimilarity(item('x', 'a', ['cats']), item('y', 'b', ['dogs']))).toBe(0);
+      expect(itemSimilarity(item('x', 'a', ['cats']), item('y', 'b', ['cats', 'dogs']))).toBe(0.25);
+    });
+  });
+});
@@ -351,7 +351,7 @@ describe('Recommendation Service', () => {
       // Fast-forward time
       jest.advanceTimersByTime(60000);
 
-      expect(supabase.from).toHaveBeenCalledTimes(4); // 2 initial + 2 refresh
+      expect(supabase.from).toHaveBeenCalledTimes(5); // 3 initial + 2 refresh
 
       recommendationService.cleanup();
 
@@ -359,7 +359,7 @@ describe('Recommendation Service', () => {
       jest.advanceTimersByTime(60000);
 
       // No additional calls after cleanup
-      expect(supabase.from).toHaveBeenCalledTimes(4);
+      expect(supabase.from).toHaveBeenCalledTimes(5);
 
       jest.useRealTimers();
     });
@@ -1,4 +1,6 @@
 import { searchService } from '../search/SearchService';
+import { HashingEmbeddingProvider } from '../search/EmbeddingProvider';
+import { HnswIndex } from '../search/HnswIndex';
 
 describe('Search Service', () => {
   beforeEach(async () => {
@@ -154,6 +156,32 @@ describe('Search Service', () => {
       expect(results.hits.items[0].title).toBe('First Document');
     });
 
+    it('should count a transposed letter as a single edit', async () => {
+      const results = await searchService.search('test_index', {
+        query: 'Frist',
+        searchType: 'fuzzy'
+      });
+
+      expect(results.hits.total).toBe(1);
+      expect(results.hits.items[0].title).toBe('First Document');
+    });
+
+    it('should match every term of a multi-term fuzzy query', async () => {
+      const results = await searchService.search('test_index', {
+        query: 'docuemnt secnod',
+        searchType: 'fuzzy'
+      });
+
+      expect(results.hits.total).toBe(1);
+      expect(results.hits.items[0].title).toBe('Second Document');
+
+      const unrelated = await searchService.search('test_index', {
+        query: 'first second',
+        searchType: 'fuzzy'
+      });
+      expect(unrelated.hits.total).toBe(0);
+    });
+
     it('should perform semantic search', async () => {
       const results = await searchService.search('test_index', {
         query: 'initial document',
@@ -234,6 +262,269 @@ describe('Search Service', () => {
     });
   });
 
+  describe('Relevance Ranking', () => {
+    beforeEach(async () => {
+      searchService.createIndex({
+        name: 'ranked_index',
+        mapping: {
+          title: { type: 'text', analyzer: 'english', boost: 2 },
+          body: { type: 'text', analyzer: 'english' },
+          tags: { type: 'keyword' }
+        }
+      });
+
+      await searchService.index('ranked_index', [
+        { id: '1', title: 'Cooking pasta at home', body: 'A quick weeknight dinner' },
+        { id: '2', title: 'Weeknight dinner ideas', body: 'Pasta, pasta and more pasta' },
+        { id: '3', title: 'Travel diaries', body: 'Eating street food in Naples' },
+        { id: '4', title: 'Home workouts', body: 'No equipment needed', tags: ['fitness'] }
+      ]);
+    });
+
+    it('should rank documents by BM25 score', async () => {
+      const results = await searchService.search<any>('ranked_index', {
+        query: 'pasta'
+      });
+
+      expect(results.hits.items.map(item => item.id)).toEqual(['1', '2']);
+    });
+
+    it('should apply per-query field boosts', async () => {
+      const results = await searchService.search<any>('ranked_index', {
+        query: 'pasta',
+        boosts: { title: 0.1, body: 5 }
+      });
+
+      expect(results.hits.items[0].id).toBe('2');
+    });
+
+    it('should match phrases in order', async () => {
+      const results = await searchService.search<any>('ranked_index', {
+        query: '"weeknight dinner"'
+      });
+      expect(results.hits.items.map(item => item.id).sort()).toEqual(['1', '2']);
+
+      const reversed = await searchService.search<any>('ranked_index', {
+        query: '"dinner weeknight"'
+      });
+      expect(reversed.hits.total).toBe(0);
+    });
+
+    it('should expand prefix queries', async () => {
+      const results = await searchService.search<any>('ranked_index', {
+        query: 'trav*'
+      });
+
+      expect(results.hits.items.map(item => item.id)).toEqual(['3']);
+    });
+
+    it('should support field, required and excluded clauses', async () => {
+      const fielded = await searchService.search<any>('ranked_index', {
+        query: 'title:home'
+      });
+      expect(fielded.hits.items.map(item => item.id).sort()).toEqual(['1', '4']);
+
+      const combined = await searchService.search<any>('ranked_index', {
+        query: '+home -tags:fitness'
+      });
+      expect(combined.hits.items.map(item => item.id)).toEqual(['1']);
+    });
+
+    it('should drop stop words with the english analyzer', async () => {
+      const results = await searchService.search('ranked_index', {
+        query: 'the'
+      });
+
+      expect(results.hits.total).toBe(0);
+    });
+
+    it('should keep the gaps left by dropped stop words in phrases', async () => {
+      await searchService.index('ranked_index', [
+        { id: '5', title: 'Fables', body: 'The quick fox' },
+        { id: '6', title: 'Fables', body: 'Quick the fox' }
+      ]);
+
+      const adjacent = await searchService.search<any>('ranked_index', {
+        query: '"quick fox"'
+      });
+      expect(adjacent.hits.items.map(item => item.id)).toEqual(['5']);
+
+      const gapped = await searchService.search<any>('ranked_index', {
+        query: '"quick the fox"'
+      });
+      expect(gapped.hits.items.map(item => item.id)).toEqual(['6']);
+    });
+
+    it('should replace documents re-indexed with the same id', async () => {
+      await searchService.index('ranked_index', [
+        { id: '3', title: 'Pasta in Naples', body: 'Eating street food' }
+      ]);
+
+      const results = await searchService.search<any>('ranked_index', {
+        query: 'travel'
+      });
+      expect(results.hits.total).toBe(0);
+
+      const updated = await searchService.search<any>('ranked_index', {
+        query: 'pasta'
+      });
+      expect(updated.hits.items.map(item => item.id)).toContain('3');
+    });
+
+    it('should delete documents from the index', async () => {
+      const deleted = await searchService.delete('ranked_index', ['1', 'missing']);
+      expect(deleted).toBe(1);
+
+      const results = await searchService.search<any>('ranked_index', {
+        query: 'pasta'
+      });
+      expect(results.hits.items.map(item => item.id)).toEqual(['2']);
+    });
+
+    it('should use custom analyzers from index settings', async () => {
+      searchService.createIndex({
+        name: 'autocomplete_index',
+        mapping: {
+          name: { type: 'text', analyzer: 'autocomplete', searchAnalyzer: 'standard' }
+        },
+        settings: {
+          analysis: {
+            analyzer: {
+              autocomplete: {
+                tokenizer: 'edge_tokenizer',
+                filter: ['lowercase']
+              }
+            },
+            tokenizer: {
+              edge_tokenizer: { type: 'edge_ngram', min_gram: 2, max_gram: 10 }
+            }
+          }
+        }
+      });
+
+      await searchService.index('autocomplete_index', [
+        { name: 'Skateboarding' },
+        { name: 'Skiing' }
+      ]);
+
+      const results = await searchService.search('autocomplete_index', {
+        query: 'Skat'
+      });
+      expect(results.hits.total).toBe(1);
+    });
+
+    it('should reject unknown analyzers', () => {
+      expect(() => searchService.createIndex({
+        name: 'broken_index',
+        mapping: {
+          title: { type: 'text', analyzer: 'missing' }
+        }
+      })).toThrow('Unknown analyzer missing');
+    });
+  });
+
+  describe('Semantic Search', () => {
+    beforeEach(async () => {
+      searchService.createIndex({
+        name: 'semantic_index',
+        mapping: {
+          title: { type: 'text' },
+          embedding: { type: 'dense_vector', dims: 384 }
+        }
+      });
+
+      await searchService.index('semantic_index', [
+        { id: 'skate', title: 'Skateboarding tricks for beginners' },
+        { id: 'bake', title: 'Baking sourdough bread' },
+        { id: 'guitar', title: 'Guitar chords explained' },
+        { id: 'skater', title: 'Pro skateboarders at the skatepark' }
+      ], { generateEmbeddings: true });
+    });
+
+    it('should generate normalised, deterministic embeddings', async () => {
+      const provider = new HashingEmbeddingProvider();
+      const [first, second] = await provider.embed(['Skateboarding', 'Skateboarding']);
+
+      expect(Array.from(first!)).toEqual(Array.from(second!));
+      const norm = Math.sqrt(first!.reduce((sum, v) => sum + v * v, 0));
+      expect(norm).toBeCloseTo(1, 5);
+    });
+
+    it('should rank morphologically related documents first', async () => {
+      const results = await searchService.search<any>('semantic_index', {
+        query: 'skateboarder',
+        searchType: 'semantic',
+        semanticWeight: 1
+      });
+
+      expect(results.hits.items.slice(0, 2).map(item => item.id).sort())
+        .toEqual(['skate', 'skater']);
+    });
+
+    it('should blend lexical scores into hybrid ranking', async () => {
+      const results = await searchService.search<any>('semantic_index', {
+        query: 'bread',
+        searchType: 'semantic',
+        semanticWeight: 0.5
+      });
+
+      expect(results.hits.items[0].id).toBe('bake');
+    });
+
+    it('should drop deleted documents from vector results', async () => {
+      await searchService.delete('semantic_index', ['skate', 'skater']);
+
+      const results = await searchService.search<any>('semantic_index', {
+        query: 'skateboarding',
+        searchType: 'semantic',
+        semanticWeight: 1
+      });
+
+      expect(results.hits.items.map(item => item.id)).not.toContain('skate');
+      expect(results.hits.items.map(item => item.id)).not.toContain('skater');
+    });
+
+    it('should reject providers whose dimensions do not match the mapping', async () => {
+      await searchService.cleanup();
+      searchService.setEmbeddingProvider(new HashingEmbeddingProvider({ dimensions: 64 }));
+      searchService.createIndex({
+        name: 'semantic_index',
+        mapping: {
+          title: { type: 'text' },
+          embedding: { type: 'dense_vector', dims: 384 }
+        }
+      });
+
+      await expect(searchService.index('semantic_index', [{ title: 'Test' }], {
+        generateEmbeddings: true
+      })).rejects.toThrow('expects 384');
+
+      searchService.setEmbeddingProvider(new HashingEmbeddingProvider());
+    });
+
+    it('should find nearest neighbours with the HNSW index', () => {
+      const hnsw = new HnswIndex({ m: 8, efConstruction: 64 });
+      const random = (seed: number) => () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647 - 0.5;
+      };
+      const next = random(7);
+      const vectors = Array.from({ length: 500 }, () =>
+        Float32Array.from({ length: 16 }, next)
+      );
+      vectors.forEach((vector, i) => hnsw.add(String(i), vector));
+
+      let hits = 0;
+      for (let q = 0; q < 20; q++) {
+        const query = vectors[q * 10]!;
+        const [best] = hnsw.search(query, 1);
+        if (best?.id === String(q * 10)) hits++;
+      }
+
+      expect(hits).toBeGreaterThanOrEqual(19);
+    });
+  });
+
   describe('Aggregations', () => {
     beforeEach(async () => {
       searchService.createIndex({
@@ -1,4 +1,6 @@
-import { tracingService } from '../monitoring/TracingService';
+import { tracingService, samplers } from '../monitoring/TracingService';
+import { OTLPHttpJsonExporter } from '../monitoring/OTLPExporter';
+import { parseTraceParent, parseTraceState, parseBaggage } from '../monitoring/TraceContext';
 import { configService } from '../config/GlobalConfig';
 
 describe('Tracing Service', () => {
@@ -197,6 +199,201 @@ describe('Tracing Service', () => {
     });
   });
 
+  describe('W3C Trace Context', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    it('should generate spec-sized trace and span ids', () => {
+      const span = tracingService.startSpan('test-operation');
+      expect(span.getContext().traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(span.getContext().spanId).toMatch(/^[0-9a-f]{16}$/);
+      span.end();
+    });
+
+    it('should reject malformed traceparent headers', () => {
+      expect(parseTraceParent(traceparent)).toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        sampled: true
+      });
+      expect(parseTraceParent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+      expect(parseTraceParent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeNull();
+      expect(parseTraceParent(`${traceparent}-extra`)).toBeNull();
+      expect(parseTraceParent(`01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01-extra`)).not.toBeNull();
+    });
+
+    it('should drop invalid tracestate and keep valid baggage members', () => {
+      expect(parseTraceState('rojo=00f067aa0ba902b7, congo=t61rcWkgMzE')).toBe('rojo=00f067aa0ba902b7,congo=t61rcWkgMzE');
+      expect(parseTraceState('rojo=1,rojo=2')).toBeUndefined();
+      expect(parseBaggage('user.id=alice%20b;ttl=60, bad key=1,region=eu')).toEqual({
+        'user.id': 'alice b',
+        region: 'eu'
+      });
+    });
+
+    it('should round-trip context through headers', () => {
+      const context = tracingService.extract({
+        traceparent,
+        tracestate: 'rojo=00f067aa0ba902b7',
+        baggage: 'user.id=alice'
+      });
+
+      const span = tracingService.startSpan('test-operation', { parentContext: context });
+      const headers: Record<string, string> = {};
+      tracingService.inject(span.getContext(), headers);
+
+      expect(headers.traceparent).toBe(`00-4bf92f3577b34da6a3ce929d0e0e4736-${span.getContext().spanId}-01`);
+      expect(headers.tracestate).toBe('rojo=00f067aa0ba902b7');
+      expect(headers.baggage).toBe('user.id=alice');
+      span.end();
+    });
+
+    it('should continue the incoming trace in middleware', () => {
+      const middleware = tracingService.createMiddleware();
+      const req = {
+        method: 'GET',
+        path: '/test',
+        url: '/test',
+        headers: { traceparent }
+      };
+      const res = {
+        setHeader: jest.fn(),
+        getHeader: jest.fn(),
+        statusCode: 200,
+        end: jest.fn()
+      };
+
+      let active: any;
+      middleware(req, res, () => {
+        active = tracingService.getActiveContext();
+      });
+
+      expect(active.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+      expect(active.parentSpanId).toBe('00f067aa0ba902b7');
+      expect(active.sampled).toBe(true);
+      res.end();
+    });
+
+    it('should propagate the active context on outgoing fetch calls', async () => {
+      const fetchImpl = jest.fn().mockResolvedValue({ status: 200 });
+      const instrumented = tracingService.instrumentFetch(fetchImpl);
+
+      await tracingService.trace('parent-operation', async span => {
+        await instrumented('https://api.test.com/items', { method: 'POST' });
+
+        const headers: Headers = fetchImpl.mock.calls[0][1].headers;
+        const sent = parseTraceParent(headers.get('traceparent'));
+        expect(sent?.traceId).toBe(span.getContext().traceId);
+        expect(sent?.spanId).not.toBe(span.getContext().spanId);
+      });
+    });
+
+    it('should propagate context through axios interceptors', async () => {
+      const handlers: any = {};
+      const instance = {
+        interceptors: {
+          request: { use: (fn: any) => { handlers.request = fn; return 0; } },
+          response: { use: (ok: any, fail: any) => { handlers.ok = ok; handlers.fail = fail; return 0; } }
+        }
+      };
+
+      tracingService.instrumentAxios(instance);
+      const config = handlers.request({ method: 'get', url: '/items' });
+      expect(parseTraceParent(config.headers.traceparent)).not.toBeNull();
+
+      await expect(handlers.fail({ config, response: { status: 503 } })).rejects.toBeDefined();
+    });
+  });
+
+  describe('Samplers', () => {
+    it('should sample by trace id ratio', () => {
+      const sampler = samplers.traceIdRatio(0.5);
+      expect(sampler('4bf92f3577b34da6a300000000000000')).toBe(true);
+      expect(sampler('4bf92f3577b34da6a3ffffffffffffff')).toBe(false);
+      expect(samplers.traceIdRatio(1)('4bf92f3577b34da6a3ffffffffffffff')).toBe(true);
+      expect(samplers.traceIdRatio(0)('4bf92f3577b34da6a300000000000000')).toBe(false);
+    });
+
+    it('should follow the parent decision', () => {
+      const sampler = samplers.parentBased(samplers.alwaysOff());
+      const parent = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), sampled: true, baggage: {} };
+
+      expect(sampler(parent.traceId, parent)).toBe(true);
+      expect(sampler(parent.traceId, { ...parent, sampled: false })).toBe(false);
+      expect(sampler(parent.traceId)).toBe(false);
+    });
+
+    it('should only export sampled spans', () => {
+      const exporter = { export: jest.fn() };
+      tracingService.registerTracer('never', samplers.alwaysOff(), exporter);
+
+      tracingService.startSpan('test-operation', { tracer: 'never' }).end();
+      expect(exporter.export).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('OTLP Export', () => {
+    const createSpan = (tracer: string) => {
+      const span = tracingService.startSpan('otlp-operation', {
+        tracer,
+        kind: 'server',
+        attributes: { 'http.status_code': 200, ratio: 0.5 }
+      });
+      span.addEvent('processing');
+      span.end();
+      return span;
+    };
+
+    it('should batch spans into OTLP/HTTP JSON requests', async () => {
+      const fetchImpl = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      const exporter = new OTLPHttpJsonExporter({
+        url: 'http://collector:4318/v1/traces',
+        resource: { 'service.name': 'test' },
+        maxExportBatchSize: 2,
+        fetch: fetchImpl
+      });
+      tracingService.registerTracer('otlp-batch', samplers.alwaysOn(), exporter);
+
+      const spans = [createSpan('otlp-batch'), createSpan('otlp-batch'), createSpan('otlp-batch')];
+      await exporter.forceFlush();
+
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+      const [url, init] = fetchImpl.mock.calls[0];
+      expect(url).toBe('http://collector:4318/v1/traces');
+
+      const body = JSON.parse(init.body);
+      const resourceSpans = body.resourceSpans[0];
+      expect(resourceSpans.resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'test' } }
+      ]);
+
+      const exported = resourceSpans.scopeSpans[0].spans;
+      expect(exported).toHaveLength(2);
+      expect(exported[0].traceId).toBe(spans[0].getContext().traceId);
+      expect(exported[0].kind).toBe(2);
+      expect(exported[0].startTimeUnixNano).toMatch(/^\d+000000$/);
+      expect(exported[0].attributes).toEqual(expect.arrayContaining([
+        { key: 'http.status_code', value: { intValue: '200' } },
+        { key: 'ratio', value: { doubleValue: 0.5 } }
+      ]));
+      expect(exported[0].events[0].name).toBe('processing');
+    });
+
+    it('should retry retryable responses and drop spans when the queue is full', async () => {
+      const fetchImpl = jest.fn()
+        .mockResolvedValueOnce({ ok: false, status: 503, headers: { get: () => null } })
+        .mockResolvedValue({ ok: true, status: 200 });
+      const exporter = new OTLPHttpJsonExporter({ maxQueueSize: 1, fetch: fetchImpl });
+      tracingService.registerTracer('otlp-retry', samplers.alwaysOn(), exporter);
+
+      createSpan('otlp-retry');
+      createSpan('otlp-retry');
+      await exporter.forceFlush();
+
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+      expect(exporter.getDroppedSpanCount()).toBe(1);
+    });
+  });
+
   describe('Async Operation Tracing', () => {
     it('should trace async operations', async () => {
       const result = await tracingService.trace('async-operation', async (span) => {
@@ -85,6 +85,12 @@ interface MonitoringConfig {
   tracing: {
     enabled: boolean;
     samplingRate: number;
+    otlp?: {
+      enabled: boolean;
+      // Full OTLP/HTTP traces URL
+      endpoint: string;
+      headers?: Record<string, string>;
+    };
   };
 }
 
@@ -260,7 +266,11 @@ class ConfigService {
         },
         tracing: {
           enabled: true,
-          samplingRate: 0.1
+          samplingRate: 0.1,
+          otlp: {
+            enabled: process.env.OTEL_EXPORTER_OTLP_ENDPOINT !== undefined,
+            endpoint: `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318'}/v1/traces`
+          }
         }
       },
       web3: {
@@ -0,0 +1,126 @@
+import type { CoEngagementIndex } from './CoEngagementIndex';
+
+export interface CandidateItem {
+  id: string;
+  userId: string;
+  createdAt: string;
+}
+
+export type CandidateSource = 'followed' | 'neighbours' | 'trending' | 'fresh';
+
+export interface CandidateConfig {
+  // Newest items kept per creator for followed-creator retrieval
+  perCreator: number;
+  // Recent engagements used as seeds for neighbour retrieval
+  maxSeeds: number;
+  neighboursPerSeed: number;
+  trendingPoolSize: number;
+  freshPoolSize: number;
+  maxCandidates: number;
+}
+
+export const DEFAULT_CANDIDATE_CONFIG: CandidateConfig = {
+  perCreator: 20,
+  maxSeeds: 20,
+  neighboursPerSeed: 20,
+  trendingPoolSize: 300,
+  freshPoolSize: 300,
+  maxCandidates: 1000
+};
+
+export interface CandidateRequest {
+  followedCreators: string[];
+  // Most significant first
+  seedItems: string[];
+  blockedCreators: string[];
+  excludedItems: Set<string>;
+}
+
+/**
+ * First stage of the recommendation pipeline. Pools are rebuilt when the
+ * catalogue is reloaded, so the work per request is bounded by the pool
+ * sizes rather than by the size of the catalogue.
+ */
+export class CandidateGenerator {
+  private config: CandidateConfig;
+  private creators = new Map<string, string>();
+  private byCreator = new Map<string, string[]>();
+  private trendingPool: string[] = [];
+  private freshPool: string[] = [];
+
+  constructor(config: Partial<CandidateConfig> = {}) {
+    this.config = { ...DEFAULT_CANDIDATE_CONFIG, ...config };
+  }
+
+  rebuild(items: Iterable<CandidateItem>, trendingScores: Map<string, number>) {
+    const newestFirst = Array.from(items).sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+
+    const creators = new Map<string, string>();
+    const byCreator = new Map<string, string[]>();
+    for (const item of newestFirst) {
+      creators.set(item.id, item.userId);
+      const list = byCreator.get(item.userId) ?? [];
+      if (list.length < this.config.perCreator) list.push(item.id);
+      byCreator.set(item.userId, list);
+    }
+
+    this.creators = creators;
+    this.byCreator = byCreator;
+    this.freshPool = newestFirst
+      .slice(0, this.config.freshPoolSize)
+      .map(item => item.id);
+    this.trendingPool = newestFirst
+      .map(item => item.id)
+      .sort((a, b) => (trendingScores.get(b) ?? 0) - (trendingScores.get(a) ?? 0))
+      .slice(0, this.config.trendingPoolSize);
+  }
+
+  /**
+   * Candidate item IDs, each with the sources that proposed it
+   */
+  generate(
+    request: CandidateRequest,
+    coEngagement: CoEngagementIndex
+  ): Map<string, CandidateSource[]> {
+    const candidates = new Map<string, CandidateSource[]>();
+    const blocked = new Set(request.blockedCreators);
+
+    const add = (itemId: string, source: CandidateSource) => {
+      const existing = candidates.get(itemId);
+      if (existing) {
+        if (!existing.includes(source)) existing.push(source);
+        return;
+      }
+      if (candidates.size >= this.config.maxCandidates) return;
+
+      const creator = this.creators.get(itemId);
+      if (creator === undefined || blocked.has(creator)) return;
+      if (request.excludedItems.has(itemId)) return;
+      candidates.set(itemId, [source]);
+    };
+
+    for (const creator of request.followedCreators) {
+      for (const itemId of this.byCreator.get(creator) ?? []) add(itemId, 'followed');
+    }
+
+    for (const seed of request.seedItems.slice(0, this.config.maxSeeds)) {
+      for (const { itemId } of coEngagement.neighbours(seed, this.config.neighboursPerSeed)) {
+        add(itemId, 'neighbours');
+      }
+    }
+
+    for (const itemId of this.trendingPool) add(itemId, 'trending');
+    for (const itemId of this.freshPool) add(itemId, 'fresh');
+
+    return candidates;
+  }
+
+  clear() {
+    this.creators.clear();
+    this.byCreator.clear();
+    this.trendingPool = [];
+    this.freshPool = [];
+  }
+}
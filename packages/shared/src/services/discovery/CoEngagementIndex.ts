@@ -0,0 +1,103 @@
+import type { Interaction } from './MatrixFactorization';
+
+export interface CoEngagementConfig {
+  // Neighbours kept per item
+  neighbours: number;
+  // Only a user's strongest engagements count, which bounds the pair count
+  maxItemsPerUser: number;
+  // Users who must have engaged with both items before they're neighbours
+  minSupport: number;
+}
+
+export const DEFAULT_CO_ENGAGEMENT_CONFIG: CoEngagementConfig = {
+  neighbours: 50,
+  maxItemsPerUser: 50,
+  minSupport: 2
+};
+
+export interface Neighbour {
+  itemId: string;
+  similarity: number;
+}
+
+/**
+ * Item-item neighbours from co-engagement: two items are similar when the
+ * same users engaged with both, normalised by how popular each is (cosine
+ * over binary engagement vectors). Built offline; lookups are a map read.
+ */
+export class CoEngagementIndex {
+  private constructor(private neighbourLists: Map<string, Neighbour[]>) {}
+
+  static empty(): CoEngagementIndex {
+    return new CoEngagementIndex(new Map());
+  }
+
+  static build(
+    interactions: Interaction[],
+    config: Partial<CoEngagementConfig> = {}
+  ): CoEngagementIndex {
+    const { neighbours, maxItemsPerUser, minSupport } = {
+      ...DEFAULT_CO_ENGAGEMENT_CONFIG,
+      ...config
+    };
+
+    const byUser = new Map<string, Interaction[]>();
+    for (const interaction of interactions) {
+      if (interaction.weight <= 0) continue;
+      const list = byUser.get(interaction.userId) ?? [];
+      list.push(interaction);
+      byUser.set(interaction.userId, list);
+    }
+
+    const itemUsers = new Map<string, number>();
+    const pairs = new Map<string, Map<string, number>>();
+    const addPair = (a: string, b: string) => {
+      const row = pairs.get(a) ?? new Map<string, number>();
+      row.set(b, (row.get(b) ?? 0) + 1);
+      pairs.set(a, row);
+    };
+
+    for (const list of byUser.values()) {
+      const items = list
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, maxItemsPerUser)
+        .map(interaction => interaction.itemId);
+
+      for (const item of items) {
+        itemUsers.set(item, (itemUsers.get(item) ?? 0) + 1);
+      }
+      for (let a = 0; a < items.length; a++) {
+        for (let b = a + 1; b < items.length; b++) {
+          addPair(items[a], items[b]);
+          addPair(items[b], items[a]);
+        }
+      }
+    }
+
+    const neighbourLists = new Map<string, Neighbour[]>();
+    for (const [item, row] of pairs) {
+      const candidates: Neighbour[] = [];
+      for (const [other, count] of row) {
+        if (count < minSupport) continue;
+        candidates.push({
+          itemId: other,
+          similarity: count / Math.sqrt(itemUsers.get(item)! * itemUsers.get(other)!)
+        });
+      }
+      if (candidates.length === 0) continue;
+      candidates.sort((a, b) => b.similarity - a.similarity);
+      neighbourLists.set(item, candidates.slice(0, neighbours));
+    }
+
+    return new CoEngagementIndex(neighbourLists);
+  }
+
+  get size(): number {
+    return this.neighbourLists.size;
+  }
+
+  neighbours(itemId: string, limit?: number): Neighbour[] {
+    const list = this.neighbourLists.get(itemId) ?? [];
+    return limit === undefined ? list : list.slice(0, limit);
+  }
+}
@@ -0,0 +1,101 @@
+export interface DiversityItem {
+  id: string;
+  userId: string;
+  tags: string[];
+  categories: string[];
+  embedding?: Float32Array;
+}
+
+export interface ScoredItem<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * How alike two items are, in [0, 1]: half for sharing a creator, half for
+ * content, using embeddings when both have them and tag/category overlap
+ * otherwise
+ */
+export function itemSimilarity(a: DiversityItem, b: DiversityItem): number {
+  const creator = a.userId === b.userId ? 1 : 0;
+  const content = a.embedding && b.embedding
+    ? Math.max(0, cosine(a.embedding, b.embedding))
+    : jaccard([...a.tags, ...a.categories], [...b.tags, ...b.categories]);
+
+  return (creator + content) / 2;
+}
+
+/**
+ * Maximal marginal relevance: greedily picks the item that best trades its
+ * relevance against its similarity to what has already been picked.
+ * `lambda` = 1 is plain relevance order; lower values diversify harder.
+ * Scores are min-max normalised first so lambda means the same thing
+ * whatever scale the ranker uses.
+ */
+export function mmrRerank<T extends DiversityItem>(
+  ranked: ScoredItem<T>[],
+  count: number,
+  lambda: number,
+  similarity: (a: T, b: T) => number = itemSimilarity
+): T[] {
+  if (ranked.length === 0 || count <= 0) return [];
+
+  const scores = ranked.map(({ score }) => score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min || 1;
+  const relevance = scores.map(score => (score - min) / range);
+
+  const remaining = ranked.map((_, index) => index);
+  const maxSimilarity = new Float64Array(ranked.length);
+  const selected: T[] = [];
+
+  while (selected.length < count && remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+    for (let position = 0; position < remaining.length; position++) {
+      const index = remaining[position];
+      const value = lambda * relevance[index] - (1 - lambda) * maxSimilarity[index];
+      if (value > bestValue) {
+        bestValue = value;
+        best = position;
+      }
+    }
+
+    const [picked] = remaining.splice(best, 1);
+    const item = ranked[picked].item;
+    selected.push(item);
+
+    for (const index of remaining) {
+      maxSimilarity[index] = Math.max(
+        maxSimilarity[index],
+        similarity(ranked[index].item, item)
+      );
+    }
+  }
+
+  return selected;
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  for (const value of setA) {
+    if (setB.has(value)) shared++;
+  }
+  return shared / (setA.size + setB.size - shared);
+}
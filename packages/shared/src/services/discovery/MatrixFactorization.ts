@@ -0,0 +1,225 @@
+/**
+ * One aggregated user-item signal. Positive weights are engagement, negative
+ * weights are explicit "not interested" feedback.
+ */
+export interface Interaction {
+  userId: string;
+  itemId: string;
+  weight: number;
+}
+
+export interface FactorizationConfig {
+  factors: number;
+  regularization: number;
+  // Confidence grows as 1 + alpha * |weight|
+  alpha: number;
+  iterations: number;
+  seed: number;
+}
+
+export const DEFAULT_FACTORIZATION_CONFIG: FactorizationConfig = {
+  factors: 32,
+  regularization: 10,
+  alpha: 20,
+  iterations: 10,
+  seed: 42
+};
+
+interface Entry {
+  index: number;
+  preference: number;
+  confidence: number;
+}
+
+/**
+ * Implicit-feedback matrix factorisation trained with alternating least
+ * squares (Hu, Koren & Volinsky, 2008). Every unobserved user-item pair is
+ * treated as a weak negative; observed engagement is a positive with
+ * confidence proportional to its weight, and "not interested" is a negative
+ * with the same kind of confidence.
+ *
+ * Training is meant to run offline. Scoring is a single dot product.
+ */
+export class ImplicitMatrixFactorization {
+  private constructor(
+    readonly factors: number,
+    private userIndex: Map<string, number>,
+    private itemIndex: Map<string, number>,
+    private userFactors: Float64Array,
+    private itemFactors: Float64Array
+  ) {}
+
+  static train(
+    interactions: Interaction[],
+    config: Partial<FactorizationConfig> = {}
+  ): ImplicitMatrixFactorization {
+    const { factors, regularization, alpha, iterations, seed } = {
+      ...DEFAULT_FACTORIZATION_CONFIG,
+      ...config
+    };
+
+    const userIndex = new Map<string, number>();
+    const itemIndex = new Map<string, number>();
+    for (const { userId, itemId } of interactions) {
+      if (!userIndex.has(userId)) userIndex.set(userId, userIndex.size);
+      if (!itemIndex.has(itemId)) itemIndex.set(itemId, itemIndex.size);
+    }
+
+    const byUser: Entry[][] = Array.from({ length: userIndex.size }, () => []);
+    const byItem: Entry[][] = Array.from({ length: itemIndex.size }, () => []);
+    for (const { userId, itemId, weight } of interactions) {
+      if (weight === 0) continue;
+      const u = userIndex.get(userId)!;
+      const i = itemIndex.get(itemId)!;
+      const preference = weight > 0 ? 1 : 0;
+      const confidence = 1 + alpha * Math.abs(weight);
+      byUser[u].push({ index: i, preference, confidence });
+      byItem[i].push({ index: u, preference, confidence });
+    }
+
+    const random = mulberry32(seed);
+    const init = (n: number) => {
+      const values = new Float64Array(n * factors);
+      for (let k = 0; k < values.length; k++) {
+        values[k] = (random() - 0.5) * 0.01;
+      }
+      return values;
+    };
+    const userFactors = init(userIndex.size);
+    const itemFactors = init(itemIndex.size);
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      solve(userFactors, itemFactors, byUser, factors, regularization);
+      solve(itemFactors, userFactors, byItem, factors, regularization);
+    }
+
+    return new ImplicitMatrixFactorization(
+      factors,
+      userIndex,
+      itemIndex,
+      userFactors,
+      itemFactors
+    );
+  }
+
+  hasUser(userId: string): boolean {
+    return this.userIndex.has(userId);
+  }
+
+  get userCount(): number {
+    return this.userIndex.size;
+  }
+
+  get itemCount(): number {
+    return this.itemIndex.size;
+  }
+
+  /**
+   * Predicted preference in [0, 1], or 0 when either side is unknown to the
+   * model (new users and new items)
+   */
+  score(userId: string, itemId: string): number {
+    const u = this.userIndex.get(userId);
+    const i = this.itemIndex.get(itemId);
+    if (u === undefined || i === undefined) return 0;
+
+    let dot = 0;
+    for (let k = 0; k < this.factors; k++) {
+      dot += this.userFactors[u * this.factors + k] * this.itemFactors[i * this.factors + k];
+    }
+    return Math.min(1, Math.max(0, dot));
+  }
+}
+
+/**
+ * One half-step of ALS: recompute every row of `target` with `fixed` held
+ * constant. Uses the YᵀY + Yᵀ(Cᵤ - I)Y decomposition so each row only pays
+ * for its own observed entries.
+ */
+function solve(
+  target: Float64Array,
+  fixed: Float64Array,
+  rows: Entry[][],
+  factors: number,
+  regularization: number
+) {
+  const gram = new Float64Array(factors * factors);
+  const fixedRows = fixed.length / factors;
+  for (let r = 0; r < fixedRows; r++) {
+    const offset = r * factors;
+    for (let a = 0; a < factors; a++) {
+      const va = fixed[offset + a];
+      for (let b = a; b < factors; b++) {
+        gram[a * factors + b] += va * fixed[offset + b];
+      }
+    }
+  }
+  for (let a = 0; a < factors; a++) {
+    for (let b = 0; b < a; b++) gram[a * factors + b] = gram[b * factors + a];
+  }
+
+  const matrix = new Float64Array(factors * factors);
+  const rhs = new Float64Array(factors);
+
+  for (let row = 0; row < rows.length; row++) {
+    matrix.set(gram);
+    rhs.fill(0);
+    for (let a = 0; a < factors; a++) matrix[a * factors + a] += regularization;
+
+    for (const { index, preference, confidence } of rows[row]) {
+      const offset = index * factors;
+      const extra = confidence - 1;
+      for (let a = 0; a < factors; a++) {
+        const va = fixed[offset + a];
+        rhs[a] += confidence * preference * va;
+        const scaled = extra * va;
+        for (let b = 0; b < factors; b++) {
+          matrix[a * factors + b] += scaled * fixed[offset + b];
+        }
+      }
+    }
+
+    choleskySolve(matrix, rhs, factors);
+    target.set(rhs, row * factors);
+  }
+}
+
+/**
+ * Solves Ax = b in place for a symmetric positive definite A, leaving x in b
+ */
+function choleskySolve(matrix: Float64Array, rhs: Float64Array, n: number) {
+  for (let j = 0; j < n; j++) {
+    let diagonal = matrix[j * n + j];
+    for (let k = 0; k < j; k++) diagonal -= matrix[j * n + k] ** 2;
+    const pivot = Math.sqrt(Math.max(diagonal, 1e-12));
+    matrix[j * n + j] = pivot;
+
+    for (let i = j + 1; i < n; i++) {
+      let value = matrix[i * n + j];
+      for (let k = 0; k < j; k++) value -= matrix[i * n + k] * matrix[j * n + k];
+      matrix[i * n + j] = value / pivot;
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    let value = rhs[i];
+    for (let k = 0; k < i; k++) value -= matrix[i * n + k] * rhs[k];
+    rhs[i] = value / matrix[i * n + i];
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    let value = rhs[i];
+    for (let k = i + 1; k < n; k++) value -= matrix[k * n + i] * rhs[k];
+    rhs[i] = value / matrix[i * n + i];
+  }
+}
+
+function mulberry32(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,110 @@
+import { CoEngagementIndex, type CoEngagementConfig } from './CoEngagementIndex';
+import {
+  ImplicitMatrixFactorization,
+  type FactorizationConfig,
+  type Interaction
+} from './MatrixFactorization';
+
+export type EngagementType =
+  | 'view'
+  | 'complete'
+  | 'like'
+  | 'comment'
+  | 'share'
+  | 'not_interested';
+
+export interface EngagementEvent {
+  userId: string;
+  itemId: string;
+  type: EngagementType;
+  createdAt: string;
+}
+
+export interface TrainingConfig {
+  weights: Record<EngagementType, number>;
+  // Older engagement counts for less; a signal this old counts half
+  halfLifeDays: number;
+  factorization: Partial<FactorizationConfig>;
+  coEngagement: Partial<CoEngagementConfig>;
+}
+
+export const DEFAULT_TRAINING_CONFIG: TrainingConfig = {
+  weights: {
+    view: 1,
+    complete: 2,
+    like: 3,
+    comment: 4,
+    share: 5,
+    not_interested: -5
+  },
+  halfLifeDays: 30,
+  factorization: {},
+  coEngagement: {}
+};
+
+export interface RecommendationModels {
+  factorization: ImplicitMatrixFactorization;
+  coEngagement: CoEngagementIndex;
+  trainedAt: Date;
+  eventCount: number;
+}
+
+/**
+ * Collapses an engagement log into one signal per user and item. Positive
+ * engagement is summed with exponential time decay; a "not interested" from
+ * the user replaces whatever engagement came before it.
+ */
+export function toInteractions(
+  events: EngagementEvent[],
+  config: Pick<TrainingConfig, 'weights' | 'halfLifeDays'> = DEFAULT_TRAINING_CONFIG,
+  now: Date = new Date()
+): Interaction[] {
+  const halfLife = config.halfLifeDays * 24 * 60 * 60 * 1000;
+  const totals = new Map<string, Interaction & { dismissed: boolean }>();
+
+  for (const event of events) {
+    const key = `${event.userId}\u0000${event.itemId}`;
+    const entry = totals.get(key) ?? {
+      userId: event.userId,
+      itemId: event.itemId,
+      weight: 0,
+      dismissed: false
+    };
+    totals.set(key, entry);
+
+    if (event.type === 'not_interested') {
+      entry.dismissed = true;
+      continue;
+    }
+
+    const age = Math.max(0, now.getTime() - new Date(event.createdAt).getTime());
+    entry.weight += (config.weights[event.type] ?? 0) * Math.pow(0.5, age / halfLife);
+  }
+
+  return Array.from(totals.values()).map(({ userId, itemId, weight, dismissed }) => ({
+    userId,
+    itemId,
+    weight: dismissed ? config.weights.not_interested : weight
+  }));
+}
+
+/**
+ * Trains the collaborative models from an engagement log. This is the
+ * expensive step and belongs in a background job; the result is immutable
+ * and can be swapped in atomically.
+ */
+export function trainRecommendationModels(
+  events: EngagementEvent[],
+  config: Partial<TrainingConfig> = {},
+  now: Date = new Date()
+): RecommendationModels {
+  const settings = { ...DEFAULT_TRAINING_CONFIG, ...config };
+  const interactions = toInteractions(events, settings, now);
+
+  return {
+    factorization: ImplicitMatrixFactorization.train(interactions, settings.factorization),
+    coEngagement: CoEngagementIndex.build(interactions, settings.coEngagement),
+    trainedAt: now,
+    eventCount: events.length
+  };
+}
@@ -2,12 +2,29 @@ import { EventEmitter } from 'events';
 import { supabase } from '../../supabase';
 import { AIOptimizer } from '../optimization/AIOptimizer';
 import { PlatformCache } from '../optimization/cache/PlatformCache';
+import {
+  CandidateGenerator,
+  type CandidateConfig,
+  type CandidateSource
+} from './CandidateGenerator';
+import { CoEngagementIndex } from './CoEngagementIndex';
+import { itemSimilarity, mmrRerank, type ScoredItem } from './Diversity';
+import {
+  trainRecommendationModels,
+  type EngagementEvent,
+  type RecommendationModels,
+  type TrainingConfig
+} from './RecommendationModels';
 
 interface RecommendationConfig {
   maxRecommendations: number;
   cacheTimeout: number;
   refreshInterval: number;
+  modelUpdateInterval: number;
+  // Most recent engagement events the models are trained on
+  trainingEventLimit: number;
   weights: {
+    collaborative: number;
     contentSimilarity: number;
     userPreference: number;
     trending: number;
@@ -19,6 +36,14 @@ interface RecommendationConfig {
     maxAge: number;
     qualityThreshold: number;
   };
+  // Exponent on age in hours that trending scores are divided by
+  trendingGravity: number;
+  // MMR trade-off: 1 ranks purely on score, lower values diversify
+  diversity: number;
+  // Subtracted, scaled by similarity, for items like ones the user dismissed
+  notInterestedPenalty: number;
+  candidates: Partial<CandidateConfig>;
+  training: Partial<TrainingConfig>;
 }
 
 interface ContentItem {
@@ -60,6 +85,9 @@ interface UserProfile {
     categoryAffinities: Record<string, number>;
     creatorAffinities: Record<string, number>;
   };
+  feedback: {
+    notInterested: string[];
+  };
 }
 
 interface RecommendationResult {
@@ -67,6 +95,7 @@ interface RecommendationResult {
   explanation: {
     factors: Record<string, number>;
     filters: string[];
+    sources: Partial<Record<CandidateSource, number>>;
   };
 }
 
@@ -77,14 +106,22 @@ export class RecommendationService extends EventEmitter {
   private aiOptimizer: AIOptimizer;
   private contentIndex: Map<string, ContentItem> = new Map();
   private userProfiles: Map<string, UserProfile> = new Map();
+  private candidateGenerator: CandidateGenerator;
+  private trendingScores: Map<string, number> = new Map();
+  private maxTrendingScore = 0;
+  private models: RecommendationModels | null = null;
+  private feedbackVersions: Map<string, number> = new Map();
   private refreshInterval: NodeJS.Timer | null = null;
+  private modelInterval: NodeJS.Timer | null = null;
   private isRefreshing = false;
+  private isTraining = false;
 
   private constructor() {
     super();
     this.setupConfig();
     this.setupCache();
     this.setupAIOptimizer();
+    this.setupCandidateGenerator();
   }
 
   static getInstance(): RecommendationService {
@@ -99,10 +136,13 @@ export class RecommendationService extends EventEmitter {
       maxRecommendations: 100,
       cacheTimeout: 300000, // 5 minutes
       refreshInterval: 60000, // 1 minute
+      modelUpdateInterval: 3600000, // 1 hour
+      trainingEventLimit: 500000,
       weights: {
-        contentSimilarity: 0.3,
-        userPreference: 0.25,
-        trending: 0.2,
+        collaborative: 0.25,
+        contentSimilarity: 0.2,
+        userPreference: 0.15,
+        trending: 0.15,
         recency: 0.15,
         engagement: 0.1
       },
@@ -110,7 +150,12 @@ export class RecommendationService extends EventEmitter {
         minEngagementRate: 0.01,
         maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
         qualityThreshold: 0.7
-      }
+      },
+      trendingGravity: 1.5,
+      diversity: 0.7,
+      notInterestedPenalty: 0.5,
+      candidates: {},
+      training: {}
     };
   }
 
@@ -132,9 +177,14 @@ export class RecommendationService extends EventEmitter {
     }, undefined, undefined, this.cache);
   }
 
+  private setupCandidateGenerator() {
+    this.candidateGenerator = new CandidateGenerator(this.config.candidates);
+  }
+
   async initialize() {
     await this.loadContentIndex();
     await this.loadUserProfiles();
+    await this.retrainModels();
     this.startPeriodicRefresh();
   }
 
@@ -150,12 +200,25 @@ export class RecommendationService extends EventEmitter {
     for (const item of data) {
       this.contentIndex.set(item.id, this.transformContentItem(item));
     }
+
+    this.rebuildCandidatePools();
+  }
+
+  private rebuildCandidatePools() {
+    this.trendingScores.clear();
+    this.maxTrendingScore = 0;
+    for (const item of this.contentIndex.values()) {
+      const score = this.calculateTrendingScore(item);
+      this.trendingScores.set(item.id, score);
+      this.maxTrendingScore = Math.max(this.maxTrendingScore, score);
+    }
+    this.candidateGenerator.rebuild(this.contentIndex.values(), this.trendingScores);
   }
 
   private async loadUserProfiles() {
     const { data, error } = await supabase
       .from('user_profiles')
-      .select('*')
+      .select('*, recommendation_feedback(item_id)')
       .limit(10000);
 
     if (error) throw error;
@@ -169,6 +232,9 @@ export class RecommendationService extends EventEmitter {
     this.refreshInterval = setInterval(() => {
       this.refreshRecommendations();
     }, this.config.refreshInterval);
+    this.modelInterval = setInterval(() => {
+      this.retrainModels();
+    }, this.config.modelUpdateInterval);
   }
 
   private async refreshRecommendations() {
@@ -186,6 +252,64 @@ export class RecommendationService extends EventEmitter {
     }
   }
 
+  private async retrainModels() {
+    if (this.isTraining) return;
+    this.isTraining = true;
+
+    try {
+      await this.trainModels();
+    } catch (error) {
+      // Ranking carries on without the collaborative factor, or with the last model
+      console.error('Failed to train recommendation models:', error);
+    } finally {
+      this.isTraining = false;
+    }
+  }
+
+  /**
+   * Retrains collaborative filtering and co-engagement neighbours from the
+   * engagement log plus everyone's "not interested" feedback
+   */
+  async trainModels(): Promise<RecommendationModels> {
+    const { data, error } = await supabase
+      .from('content_engagements')
+      .select('user_id, item_id, type, created_at')
+      .order('created_at', { ascending: false })
+      .limit(this.config.trainingEventLimit);
+
+    if (error) throw error;
+
+    const now = new Date();
+    const events: EngagementEvent[] = data.map(row => ({
+      userId: row.user_id,
+      itemId: row.item_id,
+      type: row.type,
+      createdAt: row.created_at
+    }));
+    for (const user of this.userProfiles.values()) {
+      for (const itemId of user.feedback.notInterested) {
+        events.push({
+          userId: user.id,
+          itemId,
+          type: 'not_interested',
+          createdAt: now.toISOString()
+        });
+      }
+    }
+
+    const models = trainRecommendationModels(events, this.config.training, now);
+    this.loadModels(models);
+    return models;
+  }
+
+  /**
+   * Swaps in models trained elsewhere, such as by a batch job
+   */
+  loadModels(models: RecommendationModels) {
+    this.models = models;
+    this.cache.clear();
+  }
+
   async getRecommendations(
     userId: string,
     options: {
@@ -193,27 +317,43 @@ export class RecommendationService extends EventEmitter {
       offset?: number;
       filters?: Partial<RecommendationConfig['filters']>;
       weights?: Partial<RecommendationConfig['weights']>;
+      diversity?: number;
     } = {}
   ): Promise<RecommendationResult> {
-    const cacheKey = `recommendations:${userId}:${JSON.stringify(options)}`;
+    const feedbackVersion = this.feedbackVersions.get(userId) || 0;
+    const cacheKey = `recommendations:${userId}:${feedbackVersion}:${JSON.stringify(options)}`;
     const cached = await this.cache.get(cacheKey);
     if (cached) return cached;
 
     const user = this.userProfiles.get(userId);
     if (!user) throw new Error('User profile not found');
 
-    const items = Array.from(this.contentIndex.values());
-    const rankedItems = await this.rankItems(items, user, options);
-    const filteredItems = this.filterItems(rankedItems, user, options.filters);
-    
+    const offset = options.offset || 0;
+    const limit = options.limit || this.config.maxRecommendations;
+
+    const candidates = this.generateCandidates(user);
+    const items = Array.from(candidates.keys(), id => this.contentIndex.get(id)!);
+    const filteredItems = this.filterItems(items, user, options.filters);
+    const scoredItems = await this.rankItems(filteredItems, user, options);
+    const diversifiedItems = mmrRerank(
+      scoredItems,
+      offset + limit,
+      options.diversity ?? this.config.diversity
+    ).slice(offset);
+
+    const sources: Partial<Record<CandidateSource, number>> = {};
+    for (const item of diversifiedItems) {
+      for (const source of candidates.get(item.id)!) {
+        sources[source] = (sources[source] || 0) + 1;
+      }
+    }
+
     const result: RecommendationResult = {
-      items: filteredItems.slice(
-        options.offset || 0,
-        (options.offset || 0) + (options.limit || this.config.maxRecommendations)
-      ),
+      items: diversifiedItems,
       explanation: {
         factors: options.weights || this.config.weights,
-        filters: Object.keys(options.filters || this.config.filters)
+        filters: Object.keys(options.filters || this.config.filters),
+        sources
       }
     };
 
@@ -221,21 +361,75 @@ export class RecommendationService extends EventEmitter {
     return result;
   }
 
+  /**
+   * Marks an item as not interesting to the user. It is never recommended to
+   * them again, similar items are demoted straight away, and the next
+   * training run learns from it.
+   */
+  async markNotInterested(userId: string, itemId: string, reason?: string) {
+    const user = this.userProfiles.get(userId);
+    if (!user) throw new Error('User profile not found');
+
+    const item = this.contentIndex.get(itemId);
+    if (!item) throw new Error('Content item not found');
+
+    if (user.feedback.notInterested.includes(itemId)) return;
+
+    const { error } = await supabase
+      .from('recommendation_feedback')
+      .insert([{
+        user_id: userId,
+        item_id: itemId,
+        creator_id: item.userId,
+        reason: reason || null,
+        created_at: new Date().toISOString()
+      }]);
+
+    if (error) throw error;
+
+    user.feedback.notInterested.push(itemId);
+    this.feedbackVersions.set(userId, (this.feedbackVersions.get(userId) || 0) + 1);
+  }
+
+  private generateCandidates(user: UserProfile) {
+    // Most recent engagement first, strongest signals ahead of views
+    const seedItems = [
+      ...[...user.history.shares].reverse(),
+      ...[...user.history.likes].reverse(),
+      ...[...user.history.views].reverse()
+    ];
+
+    return this.candidateGenerator.generate(
+      {
+        followedCreators: user.preferences.creators,
+        seedItems,
+        blockedCreators: user.preferences.blockedCreators,
+        excludedItems: new Set(user.feedback.notInterested)
+      },
+      this.models?.coEngagement ?? CoEngagementIndex.empty()
+    );
+  }
+
   private async rankItems(
     items: ContentItem[],
     user: UserProfile,
     options: {
       weights?: Partial<RecommendationConfig['weights']>;
     }
-  ): Promise<ContentItem[]> {
+  ): Promise<ScoredItem<ContentItem>[]> {
     const weights = { ...this.config.weights, ...options.weights };
-    
-    const scoredItems = await Promise.all(
+    const dismissed = user.feedback.notInterested
+      .slice(-50)
+      .map(id => this.contentIndex.get(id))
+      .filter((item): item is ContentItem => item !== undefined);
+
+    return Promise.all(
       items.map(async item => {
         const scores = {
+          collaborative: this.models?.factorization.score(user.id, item.id) ?? 0,
           contentSimilarity: await this.calculateContentSimilarity(item, user),
           userPreference: this.calculateUserPreference(item, user),
-          trending: this.calculateTrendingScore(item),
+          trending: this.normalizedTrendingScore(item),
           recency: this.calculateRecencyScore(item),
           engagement: this.calculateEngagementScore(item)
         };
@@ -245,13 +439,14 @@ export class RecommendationService extends EventEmitter {
           0
         );
 
-        return { item, score: totalScore };
+        const penalty = dismissed.reduce(
+          (max, other) => Math.max(max, itemSimilarity(item, other)),
+          0
+        ) * this.config.notInterestedPenalty;
+
+        return { item, score: totalScore - penalty };
       })
     );
-
-    return scoredItems
-      .sort((a, b) => b.score - a.score)
-      .map(({ item }) => item);
   }
 
   private filterItems(
@@ -313,7 +508,7 @@ export class RecommendationService extends EventEmitter {
     const categoryAffinity = item.categories.reduce(
       (sum, category) => sum + (user.metrics.categoryAffinities[category] || 0),
       0
-    ) / item.categories.length;
+    ) / Math.max(1, item.categories.length);
 
     const creatorAffinity = user.metrics.creatorAffinities[item.userId] || 0;
 
@@ -321,16 +516,24 @@ export class RecommendationService extends EventEmitter {
   }
 
   private calculateTrendingScore(item: ContentItem): number {
-    // Calculate trending score based on recent engagement
+    // Engagement decayed by age in hours, so new items aren't swamped by old totals
     const views = item.metrics.views;
     const engagement = item.metrics.likes + item.metrics.shares + item.metrics.comments;
     const watchTime = item.metrics.watchTime;
+    const ageHours = Math.max(0, Date.now() - new Date(item.createdAt).getTime()) / 3600000;
 
     return (
       (views * 0.4) +
       (engagement * 0.4) +
       (watchTime * 0.2)
-    ) / (Date.now() - new Date(item.createdAt).getTime());
+    ) / Math.pow(ageHours + 2, this.config.trendingGravity);
+  }
+
+  private normalizedTrendingScore(item: ContentItem): number {
+    // Scores are computed when the catalogue loads; log scale keeps one viral item from flattening the rest
+    const score = this.trendingScores.get(item.id) ?? this.calculateTrendingScore(item);
+    if (this.maxTrendingScore <= 0) return 0;
+    return Math.min(1, Math.log1p(score) / Math.log1p(this.maxTrendingScore));
   }
 
   private calculateRecencyScore(item: ContentItem): number {
@@ -399,12 +602,19 @@ export class RecommendationService extends EventEmitter {
         averageWatchTime: raw.average_watch_time || 0,
         categoryAffinities: raw.category_affinities || {},
         creatorAffinities: raw.creator_affinities || {}
+      },
+      feedback: {
+        notInterested: (raw.recommendation_feedback || []).map((row: any) => row.item_id)
       }
     };
   }
 
   updateConfig(config: Partial<RecommendationConfig>) {
     this.config = { ...this.config, ...config };
+    if (config.candidates || config.trendingGravity !== undefined) {
+      this.setupCandidateGenerator();
+      this.rebuildCandidatePools();
+    }
   }
 
   cleanup() {
@@ -412,9 +622,18 @@ export class RecommendationService extends EventEmitter {
       clearInterval(this.refreshInterval);
       this.refreshInterval = null;
     }
+    if (this.modelInterval) {
+      clearInterval(this.modelInterval);
+      this.modelInterval = null;
+    }
     this.cache.clear();
     this.contentIndex.clear();
     this.userProfiles.clear();
+    this.candidateGenerator.clear();
+    this.trendingScores.clear();
+    this.maxTrendingScore = 0;
+    this.models = null;
+    this.feedbackVersions.clear();
   }
 }
 
@@ -0,0 +1,132 @@
+import { Money, type MoneyJSON } from './Money';
+
+export type EntryType =
+  | 'tip'
+  | 'subscription'
+  | 'payment'
+  | 'platform_fee'
+  | 'settlement'
+  | 'refund'
+  | 'payout'
+  | 'transfer'
+  | 'reversal';
+
+export type Direction = 'debit' | 'credit';
+
+export interface Posting {
+  readonly account: string;
+  readonly direction: Direction;
+  readonly amount: Money;
+}
+
+export interface JournalEntry {
+  readonly id: string;
+  readonly idempotencyKey: string;
+  readonly type: EntryType;
+  readonly postings: readonly Posting[];
+  readonly occurredAt: string;
+  // The entry this one refunds or reverses
+  readonly relatedEntryId?: string;
+  readonly description?: string;
+  readonly metadata?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Serialized form of an entry, with amounts as decimal strings
+ */
+export interface JournalEntryRecord extends Omit<JournalEntry, 'postings'> {
+  postings: Array<{ account: string; direction: Direction; amount: MoneyJSON }>;
+}
+
+export interface JournalFilter {
+  accountPrefix?: string;
+  relatedEntryId?: string;
+}
+
+/**
+ * Append-only storage for journal entries. Implementations must reject a
+ * second entry with an existing idempotency key atomically (a unique
+ * index, in a database) by throwing DuplicateEntryError, and must never
+ * update or delete entries.
+ */
+export interface JournalStore {
+  append(entry: JournalEntry): Promise<void>;
+  findById(id: string): Promise<JournalEntry | null>;
+  findByIdempotencyKey(key: string): Promise<JournalEntry | null>;
+  list(filter?: JournalFilter): Promise<JournalEntry[]>;
+}
+
+export class DuplicateEntryError extends Error {
+  constructor(public idempotencyKey: string) {
+    super(`Journal entry already exists for idempotency key ${idempotencyKey}`);
+    this.name = 'DuplicateEntryError';
+  }
+}
+
+export class InMemoryJournalStore implements JournalStore {
+  private entries: JournalEntry[] = [];
+  private byId = new Map<string, JournalEntry>();
+  private byKey = new Map<string, JournalEntry>();
+
+  async append(entry: JournalEntry): Promise<void> {
+    if (this.byKey.has(entry.idempotencyKey)) {
+      throw new DuplicateEntryError(entry.idempotencyKey);
+    }
+    this.entries.push(entry);
+    this.byId.set(entry.id, entry);
+    this.byKey.set(entry.idempotencyKey, entry);
+  }
+
+  async findById(id: string): Promise<JournalEntry | null> {
+    return this.byId.get(id) ?? null;
+  }
+
+  async findByIdempotencyKey(key: string): Promise<JournalEntry | null> {
+    return this.byKey.get(key) ?? null;
+  }
+
+  async list(filter: JournalFilter = {}): Promise<JournalEntry[]> {
+    return this.entries.filter(entry => matches(entry, filter));
+  }
+}
+
+export function matches(entry: JournalEntry, filter: JournalFilter): boolean {
+  const { accountPrefix, relatedEntryId } = filter;
+  return (
+    (!accountPrefix || entry.postings.some(posting => posting.account.startsWith(accountPrefix))) &&
+    (!relatedEntryId || entry.relatedEntryId === relatedEntryId)
+  );
+}
+
+export function toRecord(entry: JournalEntry): JournalEntryRecord {
+  return {
+    ...entry,
+    postings: entry.postings.map(posting => ({
+      account: posting.account,
+      direction: posting.direction,
+      amount: posting.amount.toJSON()
+    }))
+  };
+}
+
+/**
+ * Rebuild an entry from storage. The result is frozen, so a loaded entry
+ * can't be altered in memory either.
+ */
+export function fromRecord(record: JournalEntryRecord): JournalEntry {
+  return freezeEntry({
+    ...record,
+    postings: record.postings.map(posting => ({
+      account: posting.account,
+      direction: posting.direction,
+      amount: Money.fromJSON(posting.amount)
+    }))
+  });
+}
+
+export function freezeEntry(entry: JournalEntry): JournalEntry {
+  entry.postings.forEach(posting => Object.freeze(posting));
+  Object.freeze(entry.postings);
+  if (entry.metadata) Object.freeze(entry.metadata);
+  return Object.freeze(entry);
+}
@@ -0,0 +1,580 @@
+import {
+  DuplicateEntryError,
+  InMemoryJournalStore,
+  freezeEntry,
+  type EntryType,
+  type JournalEntry,
+  type JournalStore,
+  type Posting
+} from './Journal';
+import { Money } from './Money';
+
+export type AccountType = 'asset' | 'liability' | 'revenue' | 'expense' | 'equity';
+
+/**
+ * Account names start with their type, so a balance's sign can be read
+ * off the name: `asset:cash:stripe`, `liability:creator:<id>:available`
+ */
+export const accounts = {
+  cash: (provider: string) => `asset:cash:${provider}`,
+  creatorPending: (creatorId: string) => `liability:creator:${creatorId}:pending`,
+  creatorAvailable: (creatorId: string) => `liability:creator:${creatorId}:available`,
+  platformFees: 'revenue:platform:fees'
+};
+
+const ACCOUNT_TYPES: AccountType[] = ['asset', 'liability', 'revenue', 'expense', 'equity'];
+
+export function accountType(account: string): AccountType {
+  const type = account.split(':')[0] as AccountType;
+  if (!ACCOUNT_TYPES.includes(type)) {
+    throw new Error(`Account ${account} must start with one of ${ACCOUNT_TYPES.join(', ')}`);
+  }
+  return type;
+}
+
+export interface EntryDraft {
+  idempotencyKey: string;
+  type: EntryType;
+  postings: Posting[];
+  occurredAt?: string;
+  relatedEntryId?: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChargeInput {
+  idempotencyKey: string;
+  creatorId: string;
+  // Gross amount paid, before the platform fee
+  amount: Money;
+  feeBasisPoints: number;
+  provider: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreatorAmountInput {
+  idempotencyKey: string;
+  creatorId: string;
+  amount: Money;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PayoutInput extends CreatorAmountInput {
+  provider: string;
+}
+
+export interface TransferInput {
+  idempotencyKey: string;
+  fromCreatorId: string;
+  toCreatorId: string;
+  amount: Money;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RefundInput {
+  idempotencyKey: string;
+  entryId: string;
+  // Defaults to whatever hasn't been refunded yet
+  amount?: Money;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AccountBalance {
+  account: string;
+  balance: Money;
+}
+
+export interface ExpectedBalance extends AccountBalance {
+  // Where the expected figure came from, e.g. a processor statement
+  source?: string;
+}
+
+export interface BalanceMismatch {
+  account: string;
+  expected: Money;
+  actual: Money;
+  // actual - expected
+  difference: Money;
+  source?: string;
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  entryCount: number;
+  // Total debits equal total credits in every currency
+  balanced: boolean;
+  trialBalance: Array<{ currency: string; debits: Money; credits: Money }>;
+  unbalancedEntries: string[];
+  negativeBalances: AccountBalance[];
+  mismatches: BalanceMismatch[];
+}
+
+export interface LedgerOptions {
+  store?: JournalStore;
+  now?: () => Date;
+  generateId?: () => string;
+}
+
+export class IdempotencyConflictError extends Error {
+  constructor(public idempotencyKey: string) {
+    super(`Idempotency key ${idempotencyKey} was already used for a different entry`);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(public account: string, public available: Money, public requested: Money) {
+    super(`Insufficient funds in ${account}: ${available} available, ${requested} requested`);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+const CHARGE_TYPES: EntryType[] = ['tip', 'subscription', 'payment'];
+const CREATOR_PENDING = /^liability:creator:(.+):pending$/;
+
+/**
+ * Double-entry journal for creator money. Entries are immutable once
+ * posted and balances are always derived from them; mistakes are
+ * corrected by posting a reversal. Every entry carries an idempotency
+ * key, so retried requests return the original entry instead of
+ * double-posting.
+ */
+export class Ledger {
+  private store: JournalStore;
+  private now: () => Date;
+  private generateId: () => string;
+  // Serializes posts so balance checks and appends can't interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: LedgerOptions = {}) {
+    this.store = options.store ?? new InMemoryJournalStore();
+    this.now = options.now ?? (() => new Date());
+    this.generateId = options.generateId ?? (() => globalThis.crypto.randomUUID());
+  }
+
+  /**
+   * Post a balanced entry. Posting the same draft again under its
+   * idempotency key returns the original entry; reusing the key for
+   * different postings throws IdempotencyConflictError.
+   */
+  async post(draft: EntryDraft): Promise<JournalEntry> {
+    return this.exclusive(() => this.append(draft));
+  }
+
+  async recordTip(input: ChargeInput): Promise<JournalEntry> {
+    return this.exclusive(() => this.append(this.chargeDraft('tip', input)));
+  }
+
+  async recordSubscription(input: ChargeInput): Promise<JournalEntry> {
+    return this.exclusive(() => this.append(this.chargeDraft('subscription', input)));
+  }
+
+  /**
+   * A one-off purchase from a creator, such as a commerce order
+   */
+  async recordPayment(input: ChargeInput): Promise<JournalEntry> {
+    return this.exclusive(() => this.append(this.chargeDraft('payment', input)));
+  }
+
+  /**
+   * Move cleared funds from a creator's pending balance to available
+   */
+  async settle(input: CreatorAmountInput): Promise<JournalEntry> {
+    return this.exclusive(async () => {
+      if (!(await this.replay(input.idempotencyKey))) {
+        await this.requireFunds(accounts.creatorPending(input.creatorId), input.amount);
+      }
+      return this.append(this.settleDraft(input));
+    });
+  }
+
+  async chargePlatformFee(input: CreatorAmountInput): Promise<JournalEntry> {
+    return this.exclusive(() => this.append({
+      idempotencyKey: input.idempotencyKey,
+      type: 'platform_fee',
+      postings: [
+        debit(accounts.creatorAvailable(input.creatorId), input.amount),
+        credit(accounts.platformFees, input.amount)
+      ],
+      description: input.description,
+      metadata: { ...input.metadata, creatorId: input.creatorId }
+    }));
+  }
+
+  async recordPayout(input: PayoutInput): Promise<JournalEntry> {
+    return this.exclusive(async () => {
+      const draft: EntryDraft = {
+        idempotencyKey: input.idempotencyKey,
+        type: 'payout',
+        postings: [
+          debit(accounts.creatorAvailable(input.creatorId), input.amount),
+          credit(accounts.cash(input.provider), input.amount)
+        ],
+        description: input.description,
+        metadata: { ...input.metadata, creatorId: input.creatorId }
+      };
+
+      if (!(await this.replay(input.idempotencyKey))) {
+        await this.requireFunds(accounts.creatorAvailable(input.creatorId), input.amount);
+      }
+      return this.append(draft);
+    });
+  }
+
+  async transfer(input: TransferInput): Promise<JournalEntry> {
+    return this.exclusive(async () => {
+      const from = accounts.creatorAvailable(input.fromCreatorId);
+      const draft: EntryDraft = {
+        idempotencyKey: input.idempotencyKey,
+        type: 'transfer',
+        postings: [debit(from, input.amount), credit(accounts.creatorAvailable(input.toCreatorId), input.amount)],
+        description: input.description,
+        metadata: input.metadata
+      };
+
+      if (!(await this.replay(input.idempotencyKey))) {
+        await this.requireFunds(from, input.amount);
+      }
+      return this.append(draft);
+    });
+  }
+
+  /**
+   * Refund all or part of a tip, subscription or payment. The creator's
+   * share and the platform fee are clawed back in proportion to the
+   * original split; the creator's share comes out of pending funds first,
+   * then available, which may go negative if it was already paid out.
+   */
+  async recordRefund(input: RefundInput): Promise<JournalEntry> {
+    return this.exclusive(async () => {
+      const existing = await this.store.findByIdempotencyKey(input.idempotencyKey);
+      if (existing) {
+        if (existing.type !== 'refund' || existing.relatedEntryId !== input.entryId) {
+          throw new IdempotencyConflictError(input.idempotencyKey);
+        }
+        return existing;
+      }
+
+      const original = await this.store.findById(input.entryId);
+      if (!original || !CHARGE_TYPES.includes(original.type)) {
+        throw new Error(`Entry ${input.entryId} is not a refundable charge`);
+      }
+
+      const cashPosting = original.postings.find(p => p.direction === 'debit' && accountType(p.account) === 'asset');
+      const creatorPosting = original.postings.find(p => CREATOR_PENDING.test(p.account));
+      if (!cashPosting || !creatorPosting) {
+        throw new Error(`Entry ${input.entryId} has no cash and creator postings`);
+      }
+      const feePosting = original.postings.find(p => p.account === accounts.platformFees);
+      const creatorId = creatorPosting.account.match(CREATOR_PENDING)![1]!;
+      const currency = cashPosting.amount.currency;
+
+      const refunds = await this.store.list({ relatedEntryId: original.id });
+      const refunded = Money.sum(
+        refunds
+          .filter(entry => entry.type === 'refund')
+          .flatMap(entry => entry.postings.filter(p => p.account === cashPosting.account && p.direction === 'credit'))
+          .map(p => p.amount),
+        currency
+      );
+      const remaining = cashPosting.amount.subtract(refunded);
+      const amount = input.amount ?? remaining;
+
+      if (!amount.isPositive() || amount.greaterThan(remaining)) {
+        throw new Error(`Refund of ${amount} ${currency} exceeds the ${remaining} ${currency} left on ${original.id}`);
+      }
+
+      const [creatorShare, feeShare] = amount.allocate([
+        creatorPosting.amount.minor,
+        feePosting?.amount.minor ?? 0n
+      ]) as [Money, Money];
+
+      const pending = await this.balance(accounts.creatorPending(creatorId), currency);
+      const fromPending = pending.isPositive()
+        ? (pending.lessThan(creatorShare) ? pending : creatorShare)
+        : Money.zero(currency);
+      const fromAvailable = creatorShare.subtract(fromPending);
+
+      return this.append({
+        idempotencyKey: input.idempotencyKey,
+        type: 'refund',
+        relatedEntryId: original.id,
+        postings: [
+          debit(accounts.creatorPending(creatorId), fromPending),
+          debit(accounts.creatorAvailable(creatorId), fromAvailable),
+          debit(accounts.platformFees, feeShare),
+          credit(cashPosting.account, amount)
+        ].filter(posting => !posting.amount.isZero()),
+        description: input.description,
+        metadata: { ...input.metadata, creatorId }
+      });
+    });
+  }
+
+  /**
+   * Post the mirror image of an entry, cancelling its effect on every
+   * balance. An entry can only be reversed once.
+   */
+  async reverse(entryId: string, idempotencyKey: string, description?: string): Promise<JournalEntry> {
+    return this.exclusive(async () => {
+      const original = await this.store.findById(entryId);
+      if (!original) throw new Error(`Entry ${entryId} not found`);
+      if (original.type === 'reversal') throw new Error(`Entry ${entryId} is itself a reversal`);
+
+      const related = await this.store.list({ relatedEntryId: entryId });
+      const previous = related.find(entry => entry.type === 'reversal');
+      if (previous && previous.idempotencyKey !== idempotencyKey) {
+        throw new Error(`Entry ${entryId} was already reversed by ${previous.id}`);
+      }
+
+      return this.append({
+        idempotencyKey,
+        type: 'reversal',
+        relatedEntryId: entryId,
+        postings: original.postings.map(posting =>
+          posting.direction === 'debit' ? credit(posting.account, posting.amount) : debit(posting.account, posting.amount)
+        ),
+        description: description ?? `Reversal of ${entryId}`
+      });
+    });
+  }
+
+  /**
+   * An account's balance in one currency, positive on its normal side:
+   * debits for assets and expenses, credits for everything else
+   */
+  async balance(account: string, currency: string): Promise<Money> {
+    const entries = await this.store.list({ accountPrefix: account });
+    const postings = entries
+      .flatMap(entry => entry.postings)
+      .filter(posting => posting.account === account && posting.amount.currency === currency.toUpperCase());
+    return signedTotal(account, postings, currency.toUpperCase());
+  }
+
+  /**
+   * Balances of every account (optionally under a prefix) that has
+   * postings, one row per account and currency
+   */
+  async balances(accountPrefix?: string): Promise<AccountBalance[]> {
+    const entries = await this.store.list({ accountPrefix });
+    const grouped = new Map<string, Posting[]>();
+
+    for (const posting of entries.flatMap(entry => entry.postings)) {
+      if (accountPrefix && !posting.account.startsWith(accountPrefix)) continue;
+      const key = `${posting.account}\u0000${posting.amount.currency}`;
+      grouped.set(key, [...(grouped.get(key) ?? []), posting]);
+    }
+
+    return [...grouped.entries()].map(([key, postings]) => {
+      const [account, currency] = key.split('\u0000') as [string, string];
+      return { account, balance: signedTotal(account, postings, currency) };
+    });
+  }
+
+  async getEntry(id: string): Promise<JournalEntry | null> {
+    return this.store.findById(id);
+  }
+
+  async getEntryByIdempotencyKey(key: string): Promise<JournalEntry | null> {
+    return this.store.findByIdempotencyKey(key);
+  }
+
+  /**
+   * Check the journal's integrity and compare derived balances with
+   * figures from elsewhere (processor statements, legacy balance rows).
+   * Accounts missing from the journal are treated as zero.
+   */
+  async reconcile(expected: ExpectedBalance[] = []): Promise<ReconciliationReport> {
+    const entries = await this.store.list();
+    const totals = new Map<string, { debits: Money; credits: Money }>();
+    const unbalancedEntries: string[] = [];
+
+    for (const entry of entries) {
+      if (!isBalanced(entry.postings)) unbalancedEntries.push(entry.id);
+
+      for (const posting of entry.postings) {
+        const { currency } = posting.amount;
+        const total = totals.get(currency) ?? { debits: Money.zero(currency), credits: Money.zero(currency) };
+        if (posting.direction === 'debit') total.debits = total.debits.add(posting.amount);
+        else total.credits = total.credits.add(posting.amount);
+        totals.set(currency, total);
+      }
+    }
+
+    const trialBalance = [...totals.entries()].map(([currency, total]) => ({ currency, ...total }));
+    const balances = await this.balances();
+
+    const mismatches: BalanceMismatch[] = [];
+    for (const { account, balance: expectedBalance, source } of expected) {
+      const actual = balances.find(
+        row => row.account === account && row.balance.currency === expectedBalance.currency
+      )?.balance ?? Money.zero(expectedBalance.currency);
+
+      if (!actual.equals(expectedBalance)) {
+        mismatches.push({
+          account,
+          expected: expectedBalance,
+          actual,
+          difference: actual.subtract(expectedBalance),
+          source
+        });
+      }
+    }
+
+    return {
+      generatedAt: this.now().toISOString(),
+      entryCount: entries.length,
+      balanced: trialBalance.every(row => row.debits.equals(row.credits)),
+      trialBalance,
+      unbalancedEntries,
+      negativeBalances: balances.filter(row => row.balance.isNegative()),
+      mismatches
+    };
+  }
+
+  private chargeDraft(type: EntryType, input: ChargeInput): EntryDraft {
+    const { amount, feeBasisPoints } = input;
+    if (!Number.isInteger(feeBasisPoints) || feeBasisPoints < 0 || feeBasisPoints > 10000) {
+      throw new Error(`Fee must be between 0 and 10000 basis points: ${feeBasisPoints}`);
+    }
+
+    const fee = amount.basisPoints(feeBasisPoints);
+    return {
+      idempotencyKey: input.idempotencyKey,
+      type,
+      postings: [
+        debit(accounts.cash(input.provider), amount),
+        credit(accounts.creatorPending(input.creatorId), amount.subtract(fee)),
+        credit(accounts.platformFees, fee)
+      ].filter(posting => !posting.amount.isZero()),
+      description: input.description,
+      metadata: { ...input.metadata, creatorId: input.creatorId, feeBasisPoints }
+    };
+  }
+
+  private settleDraft(input: CreatorAmountInput): EntryDraft {
+    return {
+      idempotencyKey: input.idempotencyKey,
+      type: 'settlement',
+      postings: [
+        debit(accounts.creatorPending(input.creatorId), input.amount),
+        credit(accounts.creatorAvailable(input.creatorId), input.amount)
+      ],
+      description: input.description,
+      metadata: { ...input.metadata, creatorId: input.creatorId }
+    };
+  }
+
+  private async append(draft: EntryDraft): Promise<JournalEntry> {
+    validate(draft);
+
+    const existing = await this.store.findByIdempotencyKey(draft.idempotencyKey);
+    if (existing) return sameEntry(existing, draft);
+
+    const entry = freezeEntry({
+      id: this.generateId(),
+      idempotencyKey: draft.idempotencyKey,
+      type: draft.type,
+      postings: draft.postings.map(posting => ({ ...posting })),
+      occurredAt: draft.occurredAt ?? this.now().toISOString(),
+      relatedEntryId: draft.relatedEntryId,
+      description: draft.description,
+      metadata: draft.metadata ? { ...draft.metadata } : undefined
+    });
+
+    try {
+      await this.store.append(entry);
+      return entry;
+    } catch (error) {
+      // Another process posted the same key between our lookup and append
+      if (error instanceof DuplicateEntryError) {
+        const winner = await this.store.findByIdempotencyKey(draft.idempotencyKey);
+        if (winner) return sameEntry(winner, draft);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether an idempotency key has already been used; retries skip the
+   * funds check, since the original post already passed it
+   */
+  private async replay(idempotencyKey: string): Promise<boolean> {
+    return !!(await this.store.findByIdempotencyKey(idempotencyKey));
+  }
+
+  private async requireFunds(account: string, amount: Money): Promise<void> {
+    const available = await this.balance(account, amount.currency);
+    if (available.lessThan(amount)) {
+      throw new InsufficientFundsError(account, available, amount);
+    }
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function debit(account: string, amount: Money): Posting {
+  return { account, direction: 'debit', amount };
+}
+
+function credit(account: string, amount: Money): Posting {
+  return { account, direction: 'credit', amount };
+}
+
+function validate(draft: EntryDraft): void {
+  if (!draft.idempotencyKey) {
+    throw new Error('Journal entries need an idempotency key');
+  }
+  if (draft.postings.length < 2) {
+    throw new Error('Journal entries need at least two postings');
+  }
+  for (const posting of draft.postings) {
+    accountType(posting.account);
+    if (!posting.amount.isPositive()) {
+      throw new Error(`Posting to ${posting.account} must be a positive amount, got ${posting.amount}`);
+    }
+  }
+  if (!isBalanced(draft.postings)) {
+    throw new Error(`Entry ${draft.idempotencyKey} is unbalanced: debits and credits differ`);
+  }
+}
+
+function isBalanced(postings: readonly Posting[]): boolean {
+  const net = new Map<string, bigint>();
+  for (const { direction, amount } of postings) {
+    const signed = direction === 'debit' ? amount.minor : -amount.minor;
+    net.set(amount.currency, (net.get(amount.currency) ?? 0n) + signed);
+  }
+  return [...net.values()].every(value => value === 0n);
+}
+
+function signedTotal(account: string, postings: Posting[], currency: string): Money {
+  const debitNormal = ['asset', 'expense'].includes(accountType(account));
+  return postings.reduce((total, posting) => {
+    const increases = (posting.direction === 'debit') === debitNormal;
+    return increases ? total.add(posting.amount) : total.subtract(posting.amount);
+  }, Money.zero(currency));
+}
+
+function fingerprint(entry: Pick<JournalEntry, 'type' | 'postings' | 'relatedEntryId'>): string {
+  return JSON.stringify({
+    type: entry.type,
+    relatedEntryId: entry.relatedEntryId ?? null,
+    postings: entry.postings.map(p => [p.account, p.direction, p.amount.currency, p.amount.minor.toString()])
+  });
+}
+
+function sameEntry(existing: JournalEntry, draft: EntryDraft): JournalEntry {
+  if (fingerprint(existing) !== fingerprint(draft)) {
+    throw new IdempotencyConflictError(draft.idempotencyKey);
+  }
+  return existing;
+}
@@ -0,0 +1,268 @@
+export type RoundingMode = 'half_even' | 'half_up' | 'down' | 'up';
+
+export interface MoneyJSON {
+  amount: string;
+  currency: string;
+}
+
+// Minor unit digits per currency: cents for fiat, satoshi/wei for crypto
+const CURRENCY_DECIMALS = new Map<string, number>([
+  ['USD', 2],
+  ['EUR', 2],
+  ['GBP', 2],
+  ['CAD', 2],
+  ['AUD', 2],
+  ['CHF', 2],
+  ['JPY', 0],
+  ['KRW', 0],
+  ['BTC', 8],
+  ['ETH', 18],
+  ['USDC', 6],
+  ['SOL', 9]
+]);
+
+export function registerCurrency(code: string, decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    throw new Error(`Invalid decimals for ${code}: ${decimals}`);
+  }
+  CURRENCY_DECIMALS.set(code.toUpperCase(), decimals);
+}
+
+export function currencyDecimals(code: string): number {
+  const decimals = CURRENCY_DECIMALS.get(code.toUpperCase());
+  if (decimals === undefined) {
+    throw new Error(`Unknown currency: ${code}`);
+  }
+  return decimals;
+}
+
+/**
+ * An exact amount of one currency, held as an integer count of its minor
+ * unit. Arithmetic never goes through floating point; anything that can
+ * produce fractions of a minor unit takes an explicit rounding mode.
+ */
+export class Money {
+  readonly currency: string;
+  readonly minor: bigint;
+
+  private constructor(minor: bigint, currency: string) {
+    this.minor = minor;
+    this.currency = currency;
+    Object.freeze(this);
+  }
+
+  /**
+   * Parse a decimal amount. Strings must not be more precise than the
+   * currency allows; numbers are legacy float amounts and are rounded to
+   * the nearest minor unit.
+   */
+  static of(amount: string | number, currency: string, rounding: RoundingMode = 'half_even'): Money {
+    const code = currency.toUpperCase();
+    const decimals = currencyDecimals(code);
+
+    if (typeof amount === 'number') {
+      if (!Number.isFinite(amount)) throw new Error(`Invalid amount: ${amount}`);
+      // String() gives the shortest decimal that round-trips, so 0.1 parses as 0.1
+      const { units, scale } = parseDecimal(String(amount));
+      return new Money(rescale(units, scale, decimals, rounding), code);
+    }
+
+    const { units, scale } = parseDecimal(amount);
+    if (scale > decimals && units % 10n ** BigInt(scale - decimals) !== 0n) {
+      throw new Error(`${amount} has more than ${decimals} decimal places for ${code}`);
+    }
+    return new Money(rescale(units, scale, decimals, rounding), code);
+  }
+
+  static fromMinor(minor: bigint | number | string, currency: string): Money {
+    const code = currency.toUpperCase();
+    currencyDecimals(code);
+    if (typeof minor === 'number' && !Number.isSafeInteger(minor)) {
+      throw new Error(`Minor units must be a safe integer: ${minor}`);
+    }
+    return new Money(BigInt(minor), code);
+  }
+
+  static zero(currency: string): Money {
+    return Money.fromMinor(0n, currency);
+  }
+
+  static fromJSON(json: MoneyJSON): Money {
+    return Money.of(json.amount, json.currency);
+  }
+
+  static sum(values: Money[], currency: string): Money {
+    return values.reduce((total, value) => total.add(value), Money.zero(currency));
+  }
+
+  get decimals(): number {
+    return currencyDecimals(this.currency);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  abs(): Money {
+    return this.minor < 0n ? this.negate() : this;
+  }
+
+  /**
+   * Multiply by a decimal factor such as an exchange rate, rounding the
+   * result to a whole minor unit
+   */
+  multiply(factor: string | number, rounding: RoundingMode = 'half_even'): Money {
+    const { units, scale } = parseDecimal(String(factor));
+    return new Money(divide(this.minor * units, 10n ** BigInt(scale), rounding), this.currency);
+  }
+
+  /**
+   * A share of this amount in basis points (1/100 of a percent), as used
+   * for fee rates
+   */
+  basisPoints(bps: number, rounding: RoundingMode = 'half_even'): Money {
+    if (!Number.isInteger(bps)) throw new Error(`Basis points must be an integer: ${bps}`);
+    return new Money(divide(this.minor * BigInt(bps), 10000n, rounding), this.currency);
+  }
+
+  /**
+   * Split into parts proportional to `ratios` that sum exactly to this
+   * amount. Leftover minor units go to the parts with the largest
+   * remainders, so no cent is created or lost.
+   */
+  allocate(ratios: Array<number | bigint>): Money[] {
+    const weights = ratios.map(ratio => BigInt(ratio));
+    const total = weights.reduce((sum, weight) => sum + weight, 0n);
+    if (!weights.length || total <= 0n || weights.some(weight => weight < 0n)) {
+      throw new Error('Allocation ratios must be non-negative with a positive total');
+    }
+
+    const sign = this.minor < 0n ? -1n : 1n;
+    const amount = this.minor * sign;
+    const shares = weights.map(weight => (amount * weight) / total);
+    const remainders = weights.map((weight, index) => ({ index, remainder: (amount * weight) % total }));
+
+    let leftover = amount - shares.reduce((sum, share) => sum + share, 0n);
+    remainders.sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1));
+    for (const { index } of remainders) {
+      if (leftover === 0n) break;
+      shares[index] = shares[index]! + 1n;
+      leftover--;
+    }
+
+    return shares.map(share => new Money(share * sign, this.currency));
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    return this.minor === other.minor ? 0 : this.minor < other.minor ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  isZero(): boolean {
+    return this.minor === 0n;
+  }
+
+  isPositive(): boolean {
+    return this.minor > 0n;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0n;
+  }
+
+  /**
+   * The exact decimal amount, e.g. `"12.30"`
+   */
+  toString(): string {
+    const decimals = this.decimals;
+    const digits = (this.minor < 0n ? -this.minor : this.minor).toString().padStart(decimals + 1, '0');
+    const sign = this.minor < 0n ? '-' : '';
+    return decimals
+      ? `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`
+      : `${sign}${digits}`;
+  }
+
+  /**
+   * Approximate value for display and charts only; never feed it back
+   * into calculations
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): MoneyJSON {
+    return { amount: this.toString(), currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} and ${other.currency}`);
+    }
+  }
+}
+
+/**
+ * A decimal string as an integer and a power-of-ten scale, accepting the
+ * exponent notation String() uses for very small and large numbers
+ */
+function parseDecimal(value: string): { units: bigint; scale: number } {
+  const match = value.trim().match(/^([+-])?(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  let units = BigInt(whole! + fraction);
+  let scale = fraction.length - Number(exponent);
+  if (scale < 0) {
+    units *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { units: sign === '-' ? -units : units, scale };
+}
+
+function rescale(units: bigint, scale: number, decimals: number, rounding: RoundingMode): bigint {
+  return scale <= decimals
+    ? units * 10n ** BigInt(decimals - scale)
+    : divide(units, 10n ** BigInt(scale - decimals), rounding);
+}
+
+function divide(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  const negative = numerator < 0n !== denominator < 0n;
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+
+  let quotient = n / d;
+  const remainder = n % d;
+  if (remainder !== 0n) {
+    const twice = remainder * 2n;
+    const roundAway =
+      rounding === 'up' ||
+      (rounding === 'half_up' && twice >= d) ||
+      (rounding === 'half_even' && (twice > d || (twice === d && quotient % 2n === 1n)));
+    if (roundAway) quotient++;
+  }
+  return negative ? -quotient : quotient;
+}
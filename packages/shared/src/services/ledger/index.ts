@@ -0,0 +1,3 @@
+export * from './Money';
+export * from './Journal';
+export * from './Ledger';
@@ -0,0 +1,239 @@
+import type { Span, SpanExporter, SpanKind } from './TracingService';
+
+export interface OTLPExporterOptions {
+  // Full traces endpoint of an OTLP/HTTP receiver
+  url?: string;
+  headers?: Record<string, string>;
+  // Resource attributes, e.g. service.name
+  resource?: Record<string, any>;
+  scope?: { name: string; version?: string };
+  maxQueueSize?: number;
+  maxExportBatchSize?: number;
+  scheduledDelayMs?: number;
+  exportTimeoutMs?: number;
+  maxRetries?: number;
+  fetch?: typeof fetch;
+  // Called when a batch is dropped after failing to send
+  onExportFailure?: (message: string, details: Record<string, any>) => void;
+}
+
+type AnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: AnyValue[] } };
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+const SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5
+};
+
+const STATUS_CODE = { unset: 0, ok: 1, error: 2 };
+
+// Responses the OTLP spec marks as retryable
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+
+/**
+ * Batching OTLP/HTTP exporter using the JSON encoding. Spans are queued
+ * and sent when a batch fills up or the scheduled delay passes; when the
+ * queue is full new spans are dropped rather than blocking the caller.
+ */
+export class OTLPHttpJsonExporter implements SpanExporter {
+  private url: string;
+  private headers: Record<string, string>;
+  private resource: KeyValue[];
+  private scope: { name: string; version?: string };
+  private maxQueueSize: number;
+  private maxExportBatchSize: number;
+  private scheduledDelayMs: number;
+  private exportTimeoutMs: number;
+  private maxRetries: number;
+  private fetch: typeof fetch;
+  private onExportFailure?: (message: string, details: Record<string, any>) => void;
+
+  private queue: Span[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  // Batches are sent one at a time, in order
+  private sending: Promise<void> = Promise.resolve();
+  private droppedSpans = 0;
+  private stopped = false;
+
+  constructor(options: OTLPExporterOptions = {}) {
+    this.url = options.url ?? 'http://localhost:4318/v1/traces';
+    this.headers = options.headers ?? {};
+    this.resource = toKeyValues(options.resource ?? {});
+    this.scope = options.scope ?? { name: '@tiktok-toe/shared' };
+    this.maxQueueSize = options.maxQueueSize ?? 2048;
+    this.maxExportBatchSize = options.maxExportBatchSize ?? 512;
+    this.scheduledDelayMs = options.scheduledDelayMs ?? 5000;
+    this.exportTimeoutMs = options.exportTimeoutMs ?? 10000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.fetch = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this.onExportFailure = options.onExportFailure;
+  }
+
+  export(span: Span): void {
+    if (this.stopped) return;
+
+    if (this.queue.length >= this.maxQueueSize) {
+      this.droppedSpans++;
+      return;
+    }
+
+    this.queue.push(span);
+    if (this.queue.length >= this.maxExportBatchSize) {
+      void this.forceFlush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.forceFlush(), this.scheduledDelayMs);
+      // Don't keep the process alive just to export spans
+      (this.timer as any).unref?.();
+    }
+  }
+
+  // Send everything queued so far
+  forceFlush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.queue.length) {
+      const batch = this.queue.splice(0, this.maxExportBatchSize);
+      this.sending = this.sending.then(() => this.send(batch));
+    }
+
+    return this.sending;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+    this.stopped = true;
+  }
+
+  getDroppedSpanCount(): number {
+    return this.droppedSpans;
+  }
+
+  private async send(batch: Span[]): Promise<void> {
+    const body = JSON.stringify(this.toRequest(batch));
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      let retryAfterMs: number | undefined;
+
+      try {
+        const response = await this.fetch(this.url, {
+          method: 'POST',
+          headers: { ...this.headers, 'Content-Type': 'application/json' },
+          body,
+          signal: AbortSignal.timeout(this.exportTimeoutMs)
+        });
+
+        if (response.ok) return;
+        if (!RETRYABLE_STATUS.has(response.status)) {
+          this.reportFailure(batch, `collector responded ${response.status}`);
+          return;
+        }
+
+        const retryAfter = Number(response.headers.get('retry-after'));
+        if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+      } catch (error) {
+        if (attempt === this.maxRetries) {
+          this.reportFailure(batch, error instanceof Error ? error.message : String(error));
+          return;
+        }
+      }
+
+      if (attempt < this.maxRetries) {
+        await new Promise(resolve => setTimeout(resolve, retryAfterMs ?? 100 * 2 ** attempt));
+      }
+    }
+
+    this.reportFailure(batch, 'retries exhausted');
+  }
+
+  private reportFailure(batch: Span[], reason: string) {
+    this.droppedSpans += batch.length;
+    this.onExportFailure?.(`Failed to export ${batch.length} spans: ${reason}`, {
+      component: 'OTLPHttpJsonExporter',
+      url: this.url
+    });
+  }
+
+  private toRequest(batch: Span[]) {
+    return {
+      resourceSpans: [
+        {
+          resource: { attributes: this.resource },
+          scopeSpans: [
+            {
+              scope: this.scope,
+              spans: batch.map(toOTLPSpan)
+            }
+          ]
+        }
+      ]
+    };
+  }
+}
+
+function toOTLPSpan(span: Span) {
+  const context = span.getContext();
+  const data = span.getData();
+  const status = data.status === 'cancelled' ? 'unset' : data.status;
+
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    parentSpanId: context.parentSpanId,
+    traceState: context.traceState,
+    name: data.name,
+    kind: SPAN_KIND[data.kind],
+    startTimeUnixNano: toUnixNano(data.startTime),
+    endTimeUnixNano: toUnixNano(data.endTime ?? data.startTime),
+    attributes: toKeyValues(data.attributes),
+    events: data.events.map(event => ({
+      timeUnixNano: toUnixNano(event.timestamp),
+      name: event.name,
+      attributes: toKeyValues(event.attributes ?? {})
+    })),
+    links: data.links.map(link => ({
+      traceId: link.context.traceId,
+      spanId: link.context.spanId,
+      traceState: link.context.traceState,
+      attributes: toKeyValues(link.attributes ?? {})
+    })),
+    status: {
+      code: STATUS_CODE[status],
+      message: data.attributes['status.description']
+    }
+  };
+}
+
+// Nanosecond timestamps don't fit in a double, so OTLP/JSON sends them as strings
+function toUnixNano(milliseconds: number): string {
+  return (BigInt(Math.trunc(milliseconds)) * 1_000_000n).toString();
+}
+
+function toKeyValues(attributes: Record<string, any>): KeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toAnyValue(value: unknown): AnyValue {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'bigint') return { intValue: value.toString() };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  if (typeof value === 'string') return { stringValue: value };
+  return { stringValue: JSON.stringify(value) };
+}
@@ -0,0 +1,194 @@
+// W3C Trace Context (https://www.w3.org/TR/trace-context/) and Baggage
+// (https://www.w3.org/TR/baggage/) header parsing and formatting
+
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+export const BAGGAGE_HEADER = 'baggage';
+
+export interface TraceParent {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+// Incoming headers: a Node/Express header record or a fetch Headers object
+export type HeaderSource =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | undefined>;
+
+// Outgoing headers: anything with set(), or a plain record
+export type HeaderTarget =
+  | { set(name: string, value: string): void }
+  | Record<string, string>;
+
+const TRACE_ID = /^[0-9a-f]{32}$/;
+const SPAN_ID = /^[0-9a-f]{16}$/;
+const VERSION = /^[0-9a-f]{2}$/;
+const FLAGS = /^[0-9a-f]{2}$/;
+const SAMPLED_FLAG = 0x01;
+
+const TRACESTATE_MAX_MEMBERS = 32;
+const TRACESTATE_KEY =
+  /^(?:[a-z0-9][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+const TRACESTATE_VALUE = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+const BAGGAGE_MAX_MEMBERS = 180;
+const BAGGAGE_MAX_BYTES = 8192;
+const BAGGAGE_KEY = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export function isValidTraceId(traceId: string): boolean {
+  return TRACE_ID.test(traceId) && !/^0+$/.test(traceId);
+}
+
+export function isValidSpanId(spanId: string): boolean {
+  return SPAN_ID.test(spanId) && !/^0+$/.test(spanId);
+}
+
+// 16 random bytes, never all zero
+export function generateTraceId(): string {
+  return randomId(16);
+}
+
+// 8 random bytes, never all zero
+export function generateSpanId(): string {
+  return randomId(8);
+}
+
+/**
+ * Parse a traceparent header. Returns null for anything malformed,
+ * including repeated headers, in which case the request starts a new
+ * trace.
+ */
+export function parseTraceParent(header: string | null | undefined): TraceParent | null {
+  if (!header) return null;
+
+  const value = header.trim();
+  const [version, traceId, spanId, flags] = value.split('-');
+  if (!version || !VERSION.test(version) || version === 'ff') return null;
+
+  // Version 00 is exactly 55 characters; later versions may append fields
+  if (version === '00' ? value.length !== 55 : value.length < 55 || (value.length > 55 && value[55] !== '-')) {
+    return null;
+  }
+
+  if (!traceId || !isValidTraceId(traceId)) return null;
+  if (!spanId || !isValidSpanId(spanId)) return null;
+  if (!flags || !FLAGS.test(flags)) return null;
+
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & SAMPLED_FLAG) === SAMPLED_FLAG
+  };
+}
+
+export function formatTraceParent(context: TraceParent): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Validate and normalize a tracestate header. An invalid or oversized
+ * list is dropped entirely rather than forwarded half-parsed.
+ */
+export function parseTraceState(header: string | null | undefined): string | undefined {
+  if (!header) return undefined;
+
+  const keys = new Set<string>();
+  const members: string[] = [];
+
+  for (const raw of header.split(',')) {
+    const member = raw.trim();
+    if (!member) continue;
+
+    const separator = member.indexOf('=');
+    const key = member.slice(0, separator);
+    const value = member.slice(separator + 1);
+    if (separator < 1 || !TRACESTATE_KEY.test(key) || !TRACESTATE_VALUE.test(value) || keys.has(key)) {
+      return undefined;
+    }
+
+    keys.add(key);
+    members.push(`${key}=${value}`);
+  }
+
+  if (!members.length || members.length > TRACESTATE_MAX_MEMBERS) return undefined;
+  return members.join(',');
+}
+
+/**
+ * Parse a baggage header into key/value pairs. Member properties are
+ * not kept, and members that don't parse are skipped.
+ */
+export function parseBaggage(header: string | null | undefined): Record<string, string> {
+  const baggage: Record<string, string> = {};
+  if (!header) return baggage;
+
+  for (const member of header.split(',').slice(0, BAGGAGE_MAX_MEMBERS)) {
+    const [pair = ''] = member.split(';');
+    const separator = pair.indexOf('=');
+    if (separator < 1) continue;
+
+    const key = pair.slice(0, separator).trim();
+    if (!BAGGAGE_KEY.test(key)) continue;
+
+    try {
+      baggage[key] = decodeURIComponent(pair.slice(separator + 1).trim());
+    } catch {
+      // Malformed percent-encoding
+    }
+  }
+
+  return baggage;
+}
+
+// Members that would push the header past the spec limits are left out
+export function formatBaggage(baggage: Record<string, string>): string | undefined {
+  const members: string[] = [];
+  let size = 0;
+
+  for (const [key, value] of Object.entries(baggage)) {
+    if (!BAGGAGE_KEY.test(key)) continue;
+
+    const member = `${key}=${encodeURIComponent(value)}`;
+    const added = member.length + (members.length ? 1 : 0);
+    if (members.length >= BAGGAGE_MAX_MEMBERS || size + added > BAGGAGE_MAX_BYTES) break;
+
+    members.push(member);
+    size += added;
+  }
+
+  return members.length ? members.join(',') : undefined;
+}
+
+/**
+ * Read a header. Repeated headers come back as a comma-separated list,
+ * which is how both list headers combine and a repeated traceparent
+ * becomes invalid.
+ */
+export function getHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find(candidate => candidate.toLowerCase() === name);
+  const value = key === undefined ? undefined : record[key];
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+export function setHeader(headers: HeaderTarget, name: string, value: string): void {
+  if (typeof headers.set === 'function') {
+    (headers as { set(name: string, value: string): void }).set(name, value);
+  } else {
+    (headers as Record<string, string>)[name] = value;
+  }
+}
+
+function randomId(bytes: number): string {
+  const buffer = new Uint8Array(bytes);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer.every(byte => byte === 0));
+
+  return Array.from(buffer, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -1,18 +1,42 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { EventEmitter } from 'events';
 import { configService } from '../config/GlobalConfig';
 import { errorService } from '../error/ErrorService';
 import { loggingService } from '../logging/LoggingService';
-
-interface SpanContext {
+import { OTLPHttpJsonExporter } from './OTLPExporter';
+import {
+  BAGGAGE_HEADER,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  formatBaggage,
+  formatTraceParent,
+  generateSpanId,
+  generateTraceId,
+  getHeader,
+  parseBaggage,
+  parseTraceParent,
+  parseTraceState,
+  setHeader,
+  type HeaderSource,
+  type HeaderTarget
+} from './TraceContext';
+
+export interface SpanContext {
   traceId: string;
   spanId: string;
   parentSpanId?: string;
   sampled: boolean;
   baggage: Record<string, string>;
+  traceState?: string;
+  // Extracted from an incoming request rather than started in-process
+  remote?: boolean;
 }
 
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
 interface SpanData {
   name: string;
+  kind: SpanKind;
   startTime: number;
   endTime?: number;
   status: 'ok' | 'error' | 'cancelled';
@@ -21,6 +45,13 @@ interface SpanData {
   links: SpanLink[];
 }
 
+export interface SpanOptions {
+  tracer?: string;
+  parentContext?: SpanContext;
+  kind?: SpanKind;
+  attributes?: Record<string, any>;
+}
+
 interface SpanEvent {
   name: string;
   timestamp: number;
@@ -32,7 +63,33 @@ interface SpanLink {
   attributes?: Record<string, any>;
 }
 
-class Span {
+/**
+ * Decides whether a new span is sampled. A parent context is passed
+ * when there is one, local or extracted from a request.
+ */
+export type Sampler = (traceId: string, parentContext?: SpanContext) => boolean;
+
+export const samplers = {
+  alwaysOn: (): Sampler => () => true,
+  alwaysOff: (): Sampler => () => false,
+
+  // Samples a fixed share of traces, decided by the random low 56 bits of
+  // the trace ID, so every service with the same ratio agrees
+  traceIdRatio(ratio: number): Sampler {
+    const bound = Math.min(Math.max(ratio, 0), 1);
+    const threshold = BigInt(Math.round(bound * 2 ** 56));
+    return traceId =>
+      /^[0-9a-f]{32}$/.test(traceId) && BigInt(`0x${traceId.slice(18)}`) < threshold;
+  },
+
+  // Follows the parent's decision and only asks root when starting a trace
+  parentBased(root: Sampler): Sampler {
+    return (traceId, parentContext) =>
+      parentContext ? parentContext.sampled : root(traceId);
+  }
+};
+
+export class Span {
   private context: SpanContext;
   private data: SpanData;
   private tracer: Tracer;
@@ -41,7 +98,8 @@ class Span {
     tracer: Tracer,
     name: string,
     context: SpanContext,
-    parentContext?: SpanContext
+    parentContext?: SpanContext,
+    kind: SpanKind = 'internal'
   ) {
     this.tracer = tracer;
     this.context = {
@@ -50,6 +108,7 @@ class Span {
     };
     this.data = {
       name,
+      kind,
       startTime: Date.now(),
       status: 'ok',
       attributes: {},
@@ -102,54 +161,65 @@ class Span {
 class Tracer {
   private spans: Map<string, Span> = new Map();
   private activeSpans: Map<string, Span> = new Map();
-  private sampler: (traceId: string) => boolean;
+  private sampler: Sampler;
   private exporter: SpanExporter;
 
-  constructor(sampler: (traceId: string) => boolean, exporter: SpanExporter) {
+  constructor(sampler: Sampler, exporter: SpanExporter) {
     this.sampler = sampler;
     this.exporter = exporter;
   }
 
-  startSpan(name: string, parentContext?: SpanContext): Span {
-    const traceId = parentContext?.traceId || this.generateTraceId();
-    const spanId = this.generateSpanId();
+  startSpan(name: string, parentContext?: SpanContext, kind?: SpanKind): Span {
+    const traceId = parentContext?.traceId || generateTraceId();
+    const spanId = generateSpanId();
     const context: SpanContext = {
       traceId,
       spanId,
-      sampled: this.sampler(traceId),
-      baggage: parentContext?.baggage || {}
+      sampled: this.sampler(traceId, parentContext),
+      baggage: parentContext?.baggage || {},
+      traceState: parentContext?.traceState
     };
 
-    const span = new Span(this, name, context, parentContext);
+    const span = new Span(this, name, context, parentContext, kind);
     this.activeSpans.set(spanId, span);
     return span;
   }
 
   endSpan(span: Span) {
-    const spanId = span.getContext().spanId;
-    this.activeSpans.delete(spanId);
-    this.spans.set(spanId, span);
-    this.exporter.export(span);
+    const context = span.getContext();
+    this.activeSpans.delete(context.spanId);
+    this.spans.set(context.spanId, span);
+    if (context.sampled) {
+      this.exporter.export(span);
+    }
   }
 
   getActiveSpan(spanId: string): Span | undefined {
     return this.activeSpans.get(spanId);
   }
 
-  private generateTraceId(): string {
-    return crypto.randomUUID();
-  }
-
-  private generateSpanId(): string {
-    return crypto.randomUUID().split('-')[0];
+  getExporter(): SpanExporter {
+    return this.exporter;
   }
 }
 
-interface SpanExporter {
+export interface SpanExporter {
   export(span: Span): void;
+  forceFlush?(): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+// Structural subset of an axios instance, so axios isn't a dependency
+interface AxiosLike {
+  interceptors: {
+    request: { use(onFulfilled: (config: any) => any): number };
+    response: {
+      use(onFulfilled: (response: any) => any, onRejected: (error: any) => any): number;
+    };
+  };
 }
 
-class ConsoleSpanExporter implements SpanExporter {
+export class ConsoleSpanExporter implements SpanExporter {
   export(span: Span) {
     const context = span.getContext();
     const data = span.getData();
@@ -169,11 +239,12 @@ class ConsoleSpanExporter implements SpanExporter {
 class TracingService extends EventEmitter {
   private static instance: TracingService;
   private tracers: Map<string, Tracer> = new Map();
-  private defaultTracer: Tracer;
+  private defaultTracer?: Tracer;
+  // The span context current for the running async call chain
+  private contextStorage = new AsyncLocalStorage<SpanContext>();
 
   private constructor() {
     super();
-    this.setupDefaultTracer();
   }
 
   static getInstance(): TracingService {
@@ -183,17 +254,44 @@ class TracingService extends EventEmitter {
     return TracingService.instance;
   }
 
-  private setupDefaultTracer() {
-    const sampler = (traceId: string) => {
-      // Default sampling strategy: sample 10% of traces
-      return parseInt(traceId.substring(0, 2), 16) < 26; // 10% of 256
-    };
+  /**
+   * Build the default tracer from config. Runs on the first span if not
+   * called explicitly, since config isn't loaded when this module is.
+   */
+  init() {
+    if (!this.defaultTracer) {
+      this.setupDefaultTracer();
+    }
+  }
 
-    this.defaultTracer = new Tracer(sampler, new ConsoleSpanExporter());
+  private setupDefaultTracer() {
+    const { tracing } = configService.get('monitoring');
+    const platform = configService.get('platform');
+
+    // Incoming sampling decisions are honoured; new traces are sampled at the configured rate
+    const sampler = samplers.parentBased(
+      samplers.traceIdRatio(tracing.enabled ? tracing.samplingRate : 0)
+    );
+
+    const exporter = tracing.otlp?.enabled
+      ? new OTLPHttpJsonExporter({
+          url: tracing.otlp.endpoint,
+          headers: tracing.otlp.headers,
+          resource: {
+            'service.name': platform.name,
+            'service.version': platform.version,
+            'deployment.environment': platform.environment
+          },
+          // An event rather than a log call, so importing tracing doesn't load the logging service
+          onExportFailure: (message, details) => this.emit('exportFailure', { message, ...details })
+        })
+      : new ConsoleSpanExporter();
+
+    this.defaultTracer = new Tracer(sampler, exporter);
     this.tracers.set('default', this.defaultTracer);
   }
 
-  registerTracer(name: string, sampler: (traceId: string) => boolean, exporter: SpanExporter) {
+  registerTracer(name: string, sampler: Sampler, exporter: SpanExporter) {
     if (this.tracers.has(name)) {
       throw new Error(`Tracer ${name} already exists`);
     }
@@ -201,6 +299,9 @@ class TracingService extends EventEmitter {
   }
 
   getTracer(name: string = 'default'): Tracer {
+    if (name === 'default') {
+      this.init();
+    }
     const tracer = this.tracers.get(name);
     if (!tracer) {
       throw new Error(`Tracer ${name} not found`);
@@ -208,14 +309,15 @@ class TracingService extends EventEmitter {
     return tracer;
   }
 
-  startSpan(name: string, options: {
-    tracer?: string;
-    parentContext?: SpanContext;
-    attributes?: Record<string, any>;
-  } = {}): Span {
+  // Spans without an explicit parent continue the active context, if any
+  startSpan(name: string, options: SpanOptions = {}): Span {
     try {
       const tracer = this.getTracer(options.tracer);
-      const span = tracer.startSpan(name, options.parentContext);
+      const span = tracer.startSpan(
+        name,
+        options.parentContext ?? this.getActiveContext(),
+        options.kind
+      );
       
       if (options.attributes) {
         span.setAttributes(options.attributes);
@@ -239,20 +341,25 @@ class TracingService extends EventEmitter {
     }
   }
 
+  getActiveContext(): SpanContext | undefined {
+    return this.contextStorage.getStore();
+  }
+
+  // Run fn with context active, so spans started inside it become children
+  withContext<T>(context: SpanContext, fn: () => T): T {
+    return this.contextStorage.run(context, fn);
+  }
+
   // Convenience method for wrapping async functions with tracing
   async trace<T>(
     name: string,
     operation: (span: Span) => Promise<T>,
-    options: {
-      tracer?: string;
-      parentContext?: SpanContext;
-      attributes?: Record<string, any>;
-    } = {}
+    options: SpanOptions = {}
   ): Promise<T> {
     const span = this.startSpan(name, options);
 
     try {
-      const result = await operation(span);
+      const result = await this.withContext(span.getContext(), () => operation(span));
       span.setStatus('ok');
       return result;
     } catch (error) {
@@ -268,6 +375,132 @@ class TracingService extends EventEmitter {
     }
   }
 
+  /**
+   * Read the W3C traceparent, tracestate and baggage headers. Returns
+   * undefined when there is no valid traceparent, so a new trace starts.
+   */
+  extract(headers: HeaderSource): SpanContext | undefined {
+    const parent = parseTraceParent(getHeader(headers, TRACEPARENT_HEADER));
+    if (!parent) return undefined;
+
+    return {
+      ...parent,
+      baggage: parseBaggage(getHeader(headers, BAGGAGE_HEADER)),
+      traceState: parseTraceState(getHeader(headers, TRACESTATE_HEADER)),
+      remote: true
+    };
+  }
+
+  // Write context as W3C headers for an outgoing request
+  inject(context: SpanContext, headers: HeaderTarget): void {
+    setHeader(headers, TRACEPARENT_HEADER, formatTraceParent(context));
+
+    if (context.traceState) {
+      setHeader(headers, TRACESTATE_HEADER, context.traceState);
+    }
+
+    const baggage = formatBaggage(context.baggage);
+    if (baggage) {
+      setHeader(headers, BAGGAGE_HEADER, baggage);
+    }
+  }
+
+  /**
+   * Wrap fetch so every request gets a client span and carries its
+   * context in the W3C headers
+   */
+  instrumentFetch(fetchImpl: typeof fetch = globalThis.fetch, options: { tracer?: string } = {}): typeof fetch {
+    return async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const request = typeof Request !== 'undefined' && input instanceof Request ? input : undefined;
+      const method = (init.method ?? request?.method ?? 'GET').toUpperCase();
+      const url = new URL(request?.url ?? String(input), 'http://localhost');
+
+      const span = this.startSpan(`HTTP ${method}`, {
+        tracer: options.tracer,
+        kind: 'client',
+        attributes: {
+          'http.method': method,
+          'http.url': request?.url ?? String(input),
+          'http.host': url.host
+        }
+      });
+
+      const headers = new Headers(init.headers ?? request?.headers);
+      this.inject(span.getContext(), headers);
+
+      try {
+        const response = await fetchImpl(input, { ...init, headers });
+        span.setAttributes({ 'http.status_code': response.status });
+        span.setStatus(response.status >= 400 ? 'error' : 'ok');
+        return response;
+      } catch (error) {
+        span.setStatus('error', error.message);
+        span.setAttributes({ 'error.type': error.name, 'error.message': error.message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    };
+  }
+
+  // Same as instrumentFetch, via axios request and response interceptors
+  instrumentAxios<T extends AxiosLike>(instance: T, options: { tracer?: string } = {}): T {
+    const spans = new WeakMap<object, Span>();
+
+    const finish = (config: any, statusCode?: number, error?: any) => {
+      const span = config && spans.get(config);
+      if (!span) return;
+
+      spans.delete(config);
+      if (statusCode !== undefined) {
+        span.setAttributes({ 'http.status_code': statusCode });
+      }
+      if (error && statusCode === undefined) {
+        span.setStatus('error', error.message);
+      } else {
+        span.setStatus(statusCode !== undefined && statusCode >= 400 ? 'error' : 'ok');
+      }
+      span.end();
+    };
+
+    instance.interceptors.request.use(config => {
+      const method = (config.method ?? 'get').toUpperCase();
+      const span = this.startSpan(`HTTP ${method}`, {
+        tracer: options.tracer,
+        kind: 'client',
+        attributes: {
+          'http.method': method,
+          'http.url': config.baseURL ? `${config.baseURL}${config.url ?? ''}` : config.url
+        }
+      });
+
+      config.headers = config.headers ?? {};
+      this.inject(span.getContext(), config.headers);
+      spans.set(config, span);
+      return config;
+    });
+
+    instance.interceptors.response.use(
+      response => {
+        finish(response.config, response.status);
+        return response;
+      },
+      error => {
+        finish(error.config, error.response?.status, error);
+        return Promise.reject(error);
+      }
+    );
+
+    return instance;
+  }
+
+  // Send any spans the exporters are still holding, e.g. before shutdown
+  async flush(): Promise<void> {
+    await Promise.all(
+      [...this.tracers.values()].map(tracer => tracer.getExporter().forceFlush?.())
+    );
+  }
+
   // Helper method for HTTP request tracing
   createMiddleware(options: {
     tracer?: string;
@@ -278,8 +511,11 @@ class TracingService extends EventEmitter {
         return next();
       }
 
+      // Continue the caller's trace when it sent a valid traceparent
       const span = this.startSpan(`HTTP ${req.method} ${req.path}`, {
         tracer: options.tracer,
+        parentContext: this.extract(req.headers),
+        kind: 'server',
         attributes: {
           'http.method': req.method,
           'http.url': req.url,
@@ -307,7 +543,7 @@ class TracingService extends EventEmitter {
         originalEnd.apply(res, args);
       };
 
-      next();
+      this.withContext(context, () => next());
     };
   }
 }
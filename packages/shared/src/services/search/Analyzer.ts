@@ -0,0 +1,146 @@
+export interface Token {
+  term: string;
+  position: number;
+}
+
+export interface AnalysisSettings {
+  analyzer?: Record<string, any>;
+  tokenizer?: Record<string, any>;
+  filter?: Record<string, any>;
+}
+
+type Tokenizer = (text: string) => string[];
+// Filters see each token's position so dropping one leaves a gap, like Lucene's
+// position increments, and phrases can't match across removed words
+type TokenFilter = (tokens: Token[]) => Token[];
+
+export type Analyzer = (value: unknown) => Token[];
+
+const ENGLISH_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in',
+  'into', 'is', 'it', 'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the',
+  'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'will', 'with'
+]);
+
+const BUILT_IN_ANALYZERS: Record<string, { tokenizer: string; filter: string[] }> = {
+  standard: { tokenizer: 'standard', filter: ['lowercase'] },
+  simple: { tokenizer: 'letter', filter: ['lowercase'] },
+  whitespace: { tokenizer: 'whitespace', filter: [] },
+  keyword: { tokenizer: 'keyword', filter: [] },
+  english: { tokenizer: 'standard', filter: ['lowercase', 'asciifolding', 'stop'] }
+};
+
+function ngrams(text: string, minGram: number, maxGram: number, edgeOnly: boolean): string[] {
+  const grams: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const chars = Array.from(word);
+    const starts = edgeOnly ? 1 : chars.length;
+    for (let start = 0; start < starts; start++) {
+      for (let size = minGram; size <= maxGram && start + size <= chars.length; size++) {
+        grams.push(chars.slice(start, start + size).join(''));
+      }
+    }
+  }
+  return grams;
+}
+
+function createTokenizer(name: string, settings: AnalysisSettings): Tokenizer {
+  const custom = settings.tokenizer?.[name];
+  const type = custom?.type ?? name;
+
+  switch (type) {
+    case 'standard':
+      return text => text.match(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu) ?? [];
+    case 'letter':
+      return text => text.match(/\p{L}+/gu) ?? [];
+    case 'whitespace':
+      return text => text.split(/\s+/).filter(Boolean);
+    case 'keyword':
+      return text => (text.length > 0 ? [text] : []);
+    case 'ngram':
+      return text => ngrams(text, custom?.min_gram ?? 1, custom?.max_gram ?? 2, false);
+    case 'edge_ngram':
+      return text => ngrams(text, custom?.min_gram ?? 1, custom?.max_gram ?? 2, true);
+    default:
+      throw new Error(`Unknown tokenizer ${name}`);
+  }
+}
+
+function createTokenFilter(name: string, settings: AnalysisSettings): TokenFilter {
+  const custom = settings.filter?.[name];
+  const type = custom?.type ?? name;
+
+  switch (type) {
+    case 'lowercase':
+      return tokens => tokens.map(token => ({ ...token, term: token.term.toLowerCase() }));
+    case 'asciifolding':
+      return tokens =>
+        tokens.map(token => ({ ...token, term: token.term.normalize('NFKD').replace(/\p{M}/gu, '') }));
+    case 'stop': {
+      const stopWords = Array.isArray(custom?.stopwords)
+        ? new Set<string>(custom.stopwords)
+        : ENGLISH_STOP_WORDS;
+      return tokens => tokens.filter(token => !stopWords.has(token.term));
+    }
+    case 'length': {
+      const min = custom?.min ?? 0;
+      const max = custom?.max ?? Number.MAX_SAFE_INTEGER;
+      return tokens => tokens.filter(({ term }) => term.length >= min && term.length <= max);
+    }
+    case 'trim':
+      return tokens =>
+        tokens.map(token => ({ ...token, term: token.term.trim() })).filter(token => token.term);
+    default:
+      throw new Error(`Unknown token filter ${name}`);
+  }
+}
+
+function toText(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value.flatMap(toText);
+  if (typeof value === 'string') return [value];
+  if (typeof value === 'number' || typeof value === 'boolean') return [String(value)];
+  return [];
+}
+
+export class AnalyzerRegistry {
+  private cache: Map<string, Analyzer> = new Map();
+
+  constructor(private settings: AnalysisSettings = {}) {}
+
+  get(name = 'standard'): Analyzer {
+    let analyzer = this.cache.get(name);
+    if (!analyzer) {
+      analyzer = this.build(name);
+      this.cache.set(name, analyzer);
+    }
+    return analyzer;
+  }
+
+  private build(name: string): Analyzer {
+    const definition = this.settings.analyzer?.[name] ?? BUILT_IN_ANALYZERS[name];
+    if (!definition) {
+      throw new Error(`Unknown analyzer ${name}`);
+    }
+
+    const tokenizer = createTokenizer(definition.tokenizer ?? 'standard', this.settings);
+    const filters = ((definition.filter ?? []) as string[]).map(filter =>
+      createTokenFilter(filter, this.settings)
+    );
+
+    return (value: unknown) => {
+      const tokens: Token[] = [];
+      let position = 0;
+
+      // Array values are indexed as separate runs so phrases can't span elements
+      for (const text of toText(value)) {
+        const terms = tokenizer(text);
+        const run = terms.map((term, index) => ({ term, position: position + index }));
+        tokens.push(...filters.reduce((acc, filter) => filter(acc), run));
+        position += terms.length + 100;
+      }
+
+      return tokens;
+    };
+  }
+}
@@ -0,0 +1,91 @@
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+interface HashingEmbeddingOptions {
+  dimensions?: number;
+  minGram?: number;
+  maxGram?: number;
+  wordWeight?: number;
+}
+
+// 32-bit FNV-1a; stable across processes so vectors can be persisted and compared later
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i]! * vector[i]!;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = vector[i]! / norm;
+    }
+  }
+  return vector;
+}
+
+/**
+ * Offline embeddings built with the hashing trick over word unigrams and
+ * character n-grams. Not a language model, but deterministic and good enough
+ * to group morphologically related text in dev and test.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly dimensions: number;
+  private minGram: number;
+  private maxGram: number;
+  private wordWeight: number;
+
+  constructor(options: HashingEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions ?? 384;
+    this.minGram = options.minGram ?? 3;
+    this.maxGram = options.maxGram ?? 5;
+    this.wordWeight = options.wordWeight ?? 2;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): Float32Array {
+    const features = new Map<string, number>();
+    const words = text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const word of words) {
+      features.set(`w:${word}`, (features.get(`w:${word}`) ?? 0) + this.wordWeight);
+
+      const padded = `<${word}>`;
+      for (let size = this.minGram; size <= this.maxGram; size++) {
+        for (let start = 0; start + size <= padded.length; start++) {
+          const gram = `g:${padded.slice(start, start + size)}`;
+          features.set(gram, (features.get(gram) ?? 0) + 1);
+        }
+      }
+    }
+
+    const vector = new Float32Array(this.dimensions);
+    for (const [feature, count] of features) {
+      // A second hash picks the sign so collisions cancel out instead of piling up
+      const bucket = fnv1a(feature) % this.dimensions;
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      vector[bucket] = vector[bucket]! + sign * (1 + Math.log(count));
+    }
+
+    return normalizeVector(vector);
+  }
+}
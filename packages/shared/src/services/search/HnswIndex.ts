@@ -0,0 +1,235 @@
+import { normalizeVector } from './EmbeddingProvider';
+
+interface HnswOptions {
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+  seed?: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+export interface VectorMatch {
+  id: string;
+  similarity: number;
+}
+
+// mulberry32, so graphs built from the same inserts are identical run to run
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function insertSorted(list: Candidate[], candidate: Candidate) {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid]!.distance < candidate.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+/**
+ * Hierarchical navigable small world graph over unit vectors, using cosine
+ * distance. Deletes are tombstoned and the graph is rebuilt once more than
+ * half of its nodes are dead.
+ */
+export class HnswIndex {
+  private nodes: HnswNode[] = [];
+  private idToNode: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private m: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelMultiplier: number;
+  private random: () => number;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.random = createRandom(options.seed ?? 42);
+  }
+
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  add(id: string, vector: ArrayLike<number>) {
+    if (this.idToNode.has(id)) {
+      this.remove(id);
+    }
+
+    const index = this.nodes.length;
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector: normalizeVector(Float32Array.from(vector)),
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    };
+    this.nodes.push(node);
+    this.idToNode.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entryPoints: Candidate[] = [{
+      node: this.entryPoint,
+      distance: this.distance(node.vector, this.entryPoint)
+    }];
+
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entryPoints = this.searchLayer(node.vector, entryPoints, 1, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entryPoints, this.efConstruction, layer);
+      const maxConnections = layer === 0 ? this.m * 2 : this.m;
+      node.neighbors[layer] = candidates.slice(0, this.m).map(candidate => candidate.node);
+
+      for (const neighbor of node.neighbors[layer]!) {
+        const links = this.nodes[neighbor]!.neighbors[layer]!;
+        links.push(index);
+        if (links.length > maxConnections) {
+          this.pruneLinks(neighbor, layer, maxConnections);
+        }
+      }
+      entryPoints = candidates;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(id: string): boolean {
+    const index = this.idToNode.get(id);
+    if (index === undefined) return false;
+
+    this.nodes[index]!.deleted = true;
+    this.idToNode.delete(id);
+    this.deletedCount++;
+
+    // Tombstones still route searches; rebuild before they dominate the graph
+    if (this.deletedCount > this.nodes.length / 2) {
+      this.rebuild();
+    }
+    return true;
+  }
+
+  search(query: ArrayLike<number>, k: number, ef = this.efSearch): VectorMatch[] {
+    if (this.idToNode.size === 0 || k <= 0) return [];
+
+    const vector = normalizeVector(Float32Array.from(query));
+    let entryPoints: Candidate[] = [{
+      node: this.entryPoint,
+      distance: this.distance(vector, this.entryPoint)
+    }];
+
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entryPoints = this.searchLayer(vector, entryPoints, 1, layer);
+    }
+
+    return this.searchLayer(vector, entryPoints, Math.max(ef, k + this.deletedCount), 0)
+      .filter(candidate => !this.nodes[candidate.node]!.deleted)
+      .slice(0, k)
+      .map(candidate => ({
+        id: this.nodes[candidate.node]!.id,
+        similarity: 1 - candidate.distance
+      }));
+  }
+
+  clear() {
+    this.nodes = [];
+    this.idToNode.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+  }
+
+  private rebuild() {
+    const live = this.nodes.filter(node => !node.deleted);
+    this.clear();
+    live.forEach(node => this.add(node.id, node.vector));
+  }
+
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: Candidate[],
+    ef: number,
+    layer: number
+  ): Candidate[] {
+    const visited = new Set(entryPoints.map(candidate => candidate.node));
+    const candidates = [...entryPoints].sort((a, b) => a.distance - b.distance);
+    const results = [...candidates].slice(0, ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      const furthest = results[results.length - 1]!;
+      if (current.distance > furthest.distance && results.length >= ef) break;
+
+      for (const neighbor of this.nodes[current.node]!.neighbors[layer] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = this.distance(query, neighbor);
+        if (results.length < ef || distance < results[results.length - 1]!.distance) {
+          const candidate = { node: neighbor, distance };
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private pruneLinks(index: number, layer: number, maxConnections: number) {
+    const node = this.nodes[index]!;
+    node.neighbors[layer] = node.neighbors[layer]!
+      .map(neighbor => ({ node: neighbor, distance: this.distance(node.vector, neighbor) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxConnections)
+      .map(candidate => candidate.node);
+  }
+
+  private distance(query: Float32Array, index: number): number {
+    const vector = this.nodes[index]!.vector;
+    let dot = 0;
+    for (let i = 0; i < query.length; i++) {
+      dot += query[i]! * (vector[i] ?? 0);
+    }
+    return 1 - dot;
+  }
+}
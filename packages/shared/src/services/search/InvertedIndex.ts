@@ -0,0 +1,357 @@
+import { AnalyzerRegistry, Token } from './Analyzer';
+
+export interface IndexedField {
+  name: string;
+  path: string;
+  analyzer: string;
+  searchAnalyzer: string;
+  boost: number;
+}
+
+export type QueryClause = {
+  type: 'term' | 'phrase' | 'prefix';
+  text: string;
+  field?: string;
+  occur: 'should' | 'must' | 'must_not';
+};
+
+export interface BM25Options {
+  k1: number;
+  b: number;
+}
+
+interface FieldStats {
+  docCount: number;
+  totalLength: number;
+}
+
+// field -> term -> docId -> positions
+type Postings = Map<string, Map<string, Map<string, number[]>>>;
+
+const MAX_PREFIX_EXPANSIONS = 256;
+
+export function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  const pattern = /([+-]?)(?:([\w.]+):)?(?:"([^"]*)"|(\S+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, modifier, field, phrase, word] = match;
+    const occur = modifier === '+' ? 'must' : modifier === '-' ? 'must_not' : 'should';
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        clauses.push({ type: 'phrase', text: phrase, field, occur });
+      }
+    } else if (word && word !== '*') {
+      if (word.length > 1 && word.endsWith('*')) {
+        clauses.push({ type: 'prefix', text: word.slice(0, -1), field, occur });
+      } else {
+        clauses.push({ type: 'term', text: word, field, occur });
+      }
+    }
+  }
+
+  return clauses;
+}
+
+function getPath(doc: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => value?.[key], doc);
+}
+
+export class InvertedIndex {
+  private fields: Map<string, IndexedField> = new Map();
+  private postings: Postings = new Map();
+  private fieldStats: Map<string, FieldStats> = new Map();
+  private docFieldLengths: Map<string, Map<string, number>> = new Map();
+  private docTerms: Map<string, Map<string, Set<string>>> = new Map();
+  private sortedTerms: Map<string, string[]> = new Map();
+
+  constructor(
+    private analyzers: AnalyzerRegistry,
+    private bm25: BM25Options = { k1: 1.2, b: 0.75 }
+  ) {}
+
+  defineField(field: IndexedField) {
+    // Resolve eagerly so a bad mapping fails at index creation, not at query time
+    this.analyzers.get(field.analyzer);
+    this.analyzers.get(field.searchAnalyzer);
+    this.fields.set(field.name, field);
+    this.postings.set(field.name, new Map());
+    this.fieldStats.set(field.name, { docCount: 0, totalLength: 0 });
+  }
+
+  hasField(name: string): boolean {
+    return this.fields.has(name);
+  }
+
+  get size(): number {
+    return this.docFieldLengths.size;
+  }
+
+  add(docId: string, doc: Record<string, any>) {
+    if (this.docFieldLengths.has(docId)) {
+      this.remove(docId);
+    }
+
+    const lengths = new Map<string, number>();
+    const terms = new Map<string, Set<string>>();
+
+    for (const field of this.fields.values()) {
+      const tokens = this.analyzers.get(field.analyzer)(getPath(doc, field.path));
+      if (tokens.length === 0) continue;
+
+      const fieldPostings = this.postings.get(field.name)!;
+      const fieldTerms = new Set<string>();
+
+      for (const { term, position } of tokens) {
+        let termPostings = fieldPostings.get(term);
+        if (!termPostings) {
+          termPostings = new Map();
+          fieldPostings.set(term, termPostings);
+          this.sortedTerms.delete(field.name);
+        }
+        let positions = termPostings.get(docId);
+        if (!positions) {
+          positions = [];
+          termPostings.set(docId, positions);
+        }
+        positions.push(position);
+        fieldTerms.add(term);
+      }
+
+      const stats = this.fieldStats.get(field.name)!;
+      stats.docCount++;
+      stats.totalLength += tokens.length;
+      lengths.set(field.name, tokens.length);
+      terms.set(field.name, fieldTerms);
+    }
+
+    this.docFieldLengths.set(docId, lengths);
+    this.docTerms.set(docId, terms);
+  }
+
+  remove(docId: string): boolean {
+    const lengths = this.docFieldLengths.get(docId);
+    const terms = this.docTerms.get(docId);
+    if (!lengths || !terms) return false;
+
+    for (const [fieldName, fieldTerms] of terms) {
+      const fieldPostings = this.postings.get(fieldName)!;
+      for (const term of fieldTerms) {
+        const termPostings = fieldPostings.get(term);
+        termPostings?.delete(docId);
+        if (termPostings && termPostings.size === 0) {
+          fieldPostings.delete(term);
+          this.sortedTerms.delete(fieldName);
+        }
+      }
+
+      const stats = this.fieldStats.get(fieldName)!;
+      stats.docCount--;
+      stats.totalLength -= lengths.get(fieldName) ?? 0;
+    }
+
+    this.docFieldLengths.delete(docId);
+    this.docTerms.delete(docId);
+    return true;
+  }
+
+  clear() {
+    for (const fieldPostings of this.postings.values()) {
+      fieldPostings.clear();
+    }
+    for (const stats of this.fieldStats.values()) {
+      stats.docCount = 0;
+      stats.totalLength = 0;
+    }
+    this.docFieldLengths.clear();
+    this.docTerms.clear();
+    this.sortedTerms.clear();
+  }
+
+  search(
+    clauses: QueryClause[],
+    options: { fields?: string[]; boosts?: Record<string, number> } = {}
+  ): Map<string, number> {
+    const scores = new Map<string, number>();
+    const required: Set<string>[] = [];
+    const excluded = new Set<string>();
+    let hasPositive = false;
+
+    for (const clause of clauses) {
+      const fieldNames = clause.field
+        ? this.resolveField(clause.field)
+        : options.fields ?? Array.from(this.fields.keys());
+      const matches = new Map<string, number>();
+
+      for (const fieldName of fieldNames) {
+        const field = this.fields.get(fieldName);
+        if (!field) continue;
+        const boost = field.boost * (options.boosts?.[fieldName] ?? 1);
+        const fieldScores = this.scoreClause(field, clause);
+
+        for (const [docId, score] of fieldScores) {
+          matches.set(docId, (matches.get(docId) ?? 0) + score * boost);
+        }
+      }
+
+      if (clause.occur === 'must_not') {
+        matches.forEach((_, docId) => excluded.add(docId));
+        continue;
+      }
+
+      hasPositive = true;
+      if (clause.occur === 'must') {
+        required.push(new Set(matches.keys()));
+      }
+      for (const [docId, score] of matches) {
+        scores.set(docId, (scores.get(docId) ?? 0) + score);
+      }
+    }
+
+    // A purely negative query matches everything that isn't excluded
+    if (!hasPositive) {
+      for (const docId of this.docFieldLengths.keys()) {
+        scores.set(docId, 0);
+      }
+    }
+
+    for (const docId of Array.from(scores.keys())) {
+      if (excluded.has(docId) || required.some(set => !set.has(docId))) {
+        scores.delete(docId);
+      }
+    }
+
+    return scores;
+  }
+
+  private resolveField(name: string): string[] {
+    if (this.fields.has(name)) return [name];
+    // `title:foo` also searches the text sub-fields declared under title
+    return Array.from(this.fields.values())
+      .filter(field => field.path === name)
+      .map(field => field.name);
+  }
+
+  private scoreClause(field: IndexedField, clause: QueryClause): Map<string, number> {
+    switch (clause.type) {
+      case 'phrase':
+        return this.scorePhrase(field, this.analyzers.get(field.searchAnalyzer)(clause.text));
+      case 'prefix':
+        return this.scorePrefix(field, clause.text);
+      default:
+        return this.scoreTerms(field, this.analyzers.get(field.searchAnalyzer)(clause.text));
+    }
+  }
+
+  private scoreTerms(field: IndexedField, tokens: Token[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const fieldPostings = this.postings.get(field.name)!;
+
+    for (const term of new Set(tokens.map(token => token.term))) {
+      const termPostings = fieldPostings.get(term);
+      if (!termPostings) continue;
+      const idf = this.idf(field.name, termPostings.size);
+
+      for (const [docId, positions] of termPostings) {
+        const score = this.bm25Score(field.name, docId, positions.length, idf);
+        scores.set(docId, (scores.get(docId) ?? 0) + score);
+      }
+    }
+
+    return scores;
+  }
+
+  private scorePhrase(field: IndexedField, tokens: Token[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (tokens.length === 0) return scores;
+    if (tokens.length === 1) return this.scoreTerms(field, tokens);
+
+    const fieldPostings = this.postings.get(field.name)!;
+    const termPostings = tokens.map(token => fieldPostings.get(token.term));
+    if (termPostings.some(postings => !postings)) return scores;
+
+    const lists = termPostings as Map<string, number[]>[];
+    const rarest = lists.reduce((a, b) => (b.size < a.size ? b : a));
+    const idf = lists.reduce((sum, postings) => sum + this.idf(field.name, postings.size), 0);
+    const offsets = tokens.map(token => token.position - tokens[0]!.position);
+
+    for (const docId of rarest.keys()) {
+      const positionSets = lists.map(postings => postings.get(docId));
+      if (positionSets.some(positions => !positions)) continue;
+
+      const lookups = positionSets.slice(1).map(positions => new Set(positions));
+      const frequency = positionSets[0]!.filter(start =>
+        lookups.every((lookup, i) => lookup.has(start + offsets[i + 1]!))
+      ).length;
+
+      if (frequency > 0) {
+        scores.set(docId, this.bm25Score(field.name, docId, frequency, idf));
+      }
+    }
+
+    return scores;
+  }
+
+  private scorePrefix(field: IndexedField, text: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const analyzed = this.analyzers.get(field.searchAnalyzer)(text);
+    const prefix = analyzed.length === 1 ? analyzed[0]!.term : text.toLowerCase();
+    if (!prefix) return scores;
+
+    const fieldPostings = this.postings.get(field.name)!;
+    const terms = this.getSortedTerms(field.name);
+
+    // Binary search for the first term >= prefix, then walk forward while it still matches
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (terms[mid]! < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    for (
+      let i = low, expanded = 0;
+      i < terms.length && terms[i]!.startsWith(prefix) && expanded < MAX_PREFIX_EXPANSIONS;
+      i++, expanded++
+    ) {
+      const termPostings = fieldPostings.get(terms[i]!)!;
+      const idf = this.idf(field.name, termPostings.size);
+
+      // Best expansion wins so a common prefix doesn't inflate scores
+      for (const [docId, positions] of termPostings) {
+        const score = this.bm25Score(field.name, docId, positions.length, idf);
+        if (score > (scores.get(docId) ?? 0)) {
+          scores.set(docId, score);
+        }
+      }
+    }
+
+    return scores;
+  }
+
+  private getSortedTerms(fieldName: string): string[] {
+    let terms = this.sortedTerms.get(fieldName);
+    if (!terms) {
+      terms = Array.from(this.postings.get(fieldName)!.keys()).sort();
+      this.sortedTerms.set(fieldName, terms);
+    }
+    return terms;
+  }
+
+  private idf(fieldName: string, documentFrequency: number): number {
+    const docCount = this.fieldStats.get(fieldName)!.docCount;
+    return Math.log(1 + (docCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private bm25Score(fieldName: string, docId: string, frequency: number, idf: number): number {
+    const { k1, b } = this.bm25;
+    const stats = this.fieldStats.get(fieldName)!;
+    const averageLength = stats.docCount > 0 ? stats.totalLength / stats.docCount : 1;
+    const length = this.docFieldLengths.get(docId)?.get(fieldName) ?? 0;
+    const norm = k1 * (1 - b + (b * length) / averageLength);
+    return idf * ((frequency * (k1 + 1)) / (frequency + norm));
+  }
+}
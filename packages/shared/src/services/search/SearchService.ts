@@ -3,6 +3,10 @@ import { configService } from '../config/GlobalConfig';
 import { errorService } from '../error/ErrorService';
 import { loggingService } from '../logging/LoggingService';
 import { tracingService } from '../monitoring/TracingService';
+import { AnalyzerRegistry } from './Analyzer';
+import { EmbeddingProvider, HashingEmbeddingProvider } from './EmbeddingProvider';
+import { HnswIndex } from './HnswIndex';
+import { InvertedIndex, parseQuery } from './InvertedIndex';
 
 interface SearchOptions {
   query: string;
@@ -17,6 +21,10 @@ interface SearchOptions {
   excludeFields?: string[];
   searchType?: 'exact' | 'fuzzy' | 'semantic';
   fuzzyThreshold?: number;
+  fields?: string[];
+  boosts?: Record<string, number>;
+  semanticWeight?: number;
+  vectorCandidates?: number;
   aggregations?: {
     field: string;
     type: 'terms' | 'range' | 'date_histogram';
@@ -40,13 +48,18 @@ interface SearchResult<T> {
 
 interface SearchIndex {
   name: string;
+  idField?: string;
   mapping: Record<string, {
     type: string;
     analyzer?: string;
     searchAnalyzer?: string;
+    boost?: number;
+    dims?: number;
     fields?: Record<string, {
       type: string;
       analyzer?: string;
+      searchAnalyzer?: string;
+      boost?: number;
     }>;
   }>;
   settings?: {
@@ -63,8 +76,12 @@ interface SearchIndex {
 class SearchService extends EventEmitter {
   private static instance: SearchService;
   private indices: Map<string, SearchIndex> = new Map();
-  private data: Map<string, any[]> = new Map();
-  private vectorStore: Map<string, Float32Array[]> = new Map();
+  private data: Map<string, Map<string, any>> = new Map();
+  private invertedIndices: Map<string, InvertedIndex> = new Map();
+  private vectorStore: Map<string, Map<string, Float32Array>> = new Map();
+  private vectorIndices: Map<string, HnswIndex> = new Map();
+  private embeddingProvider: EmbeddingProvider = new HashingEmbeddingProvider();
+  private generatedIds = 0;
 
   private constructor() {
     super();
@@ -79,6 +96,23 @@ class SearchService extends EventEmitter {
   }
 
   private setupDefaultIndices() {
+    const ngramAnalysis = {
+      analyzer: {
+        ngram_analyzer: {
+          type: 'custom',
+          tokenizer: 'ngram_tokenizer',
+          filter: ['lowercase']
+        }
+      },
+      tokenizer: {
+        ngram_tokenizer: {
+          type: 'ngram',
+          min_gram: 2,
+          max_gram: 3
+        }
+      }
+    };
+
     // Users index
     this.createIndex({
       name: 'users',
@@ -102,22 +136,7 @@ class SearchService extends EventEmitter {
         lastActive: { type: 'date' }
       },
       settings: {
-        analysis: {
-          analyzer: {
-            ngram_analyzer: {
-              type: 'custom',
-              tokenizer: 'ngram_tokenizer',
-              filter: ['lowercase']
-            }
-          },
-          tokenizer: {
-            ngram_tokenizer: {
-              type: 'ngram',
-              min_gram: 2,
-              max_gram: 3
-            }
-          }
-        }
+        analysis: ngramAnalysis
       }
     });
 
@@ -145,6 +164,9 @@ class SearchService extends EventEmitter {
         status: { type: 'keyword' },
         contentType: { type: 'keyword' },
         embedding: { type: 'dense_vector', dims: 384 }
+      },
+      settings: {
+        analysis: ngramAnalysis
       }
     });
   }
@@ -153,9 +175,58 @@ class SearchService extends EventEmitter {
     if (this.indices.has(index.name)) {
       throw new Error(`Index ${index.name} already exists`);
     }
+
+    const invertedIndex = new InvertedIndex(new AnalyzerRegistry(index.settings?.analysis));
+    for (const [field, config] of Object.entries(index.mapping)) {
+      if (config.type === 'text' || config.type === 'keyword') {
+        invertedIndex.defineField(this.toIndexedField(field, field, config));
+      }
+      for (const [subField, subConfig] of Object.entries(config.fields || {})) {
+        if (subConfig.type === 'text' || subConfig.type === 'keyword') {
+          invertedIndex.defineField(this.toIndexedField(`${field}.${subField}`, field, subConfig));
+        }
+      }
+    }
+
     this.indices.set(index.name, index);
-    this.data.set(index.name, []);
-    this.vectorStore.set(index.name, []);
+    this.data.set(index.name, new Map());
+    this.invertedIndices.set(index.name, invertedIndex);
+    this.vectorStore.set(index.name, new Map());
+    this.vectorIndices.set(index.name, new HnswIndex());
+  }
+
+  setEmbeddingProvider(provider: EmbeddingProvider) {
+    // Vectors from different providers aren't comparable, so only empty stores may switch
+    for (const [indexName, vectors] of this.vectorStore) {
+      if (vectors.size > 0) {
+        throw new Error(`Index ${indexName} already holds embeddings from ${this.embeddingProvider.name}`);
+      }
+    }
+    this.embeddingProvider = provider;
+  }
+
+  private toIndexedField(
+    name: string,
+    path: string,
+    config: { type: string; analyzer?: string; searchAnalyzer?: string; boost?: number }
+  ) {
+    // Keyword fields are matched verbatim unless the mapping says otherwise
+    const analyzer = config.analyzer || (config.type === 'keyword' ? 'keyword' : 'standard');
+    return {
+      name,
+      path,
+      analyzer,
+      searchAnalyzer: config.searchAnalyzer || analyzer,
+      boost: config.boost ?? 1
+    };
+  }
+
+  private getDocumentId(index: SearchIndex, doc: Record<string, any>): string {
+    const id = doc[index.idField || 'id'];
+    if (id !== undefined && id !== null) {
+      return String(id);
+    }
+    return `_generated_${++this.generatedIds}`;
   }
 
   async index<T extends Record<string, any>>(
@@ -181,23 +252,45 @@ class SearchService extends EventEmitter {
         documents.forEach(doc => this.validateDocument(doc, index.mapping));
 
         // Generate embeddings if needed
-        if (options.generateEmbeddings && index.mapping.embedding) {
-          const embeddings = await this.generateEmbeddings(documents);
-          documents.forEach((doc, i) => {
-            doc.embedding = embeddings[i];
+        const embeddings = options.generateEmbeddings
+          ? await this.generateEmbeddings(index, documents)
+          : [];
+        if (index.mapping.embedding) {
+          embeddings.forEach((embedding, i) => {
+            (documents[i] as Record<string, any>).embedding = embedding;
           });
         }
 
-        // Store documents
-        const existingData = this.data.get(indexName) || [];
-        this.data.set(indexName, [...existingData, ...documents]);
+        // Store documents, replacing any previous version with the same id
+        const store = this.data.get(indexName)!;
+        const invertedIndex = this.invertedIndices.get(indexName)!;
+        const vectors = this.vectorStore.get(indexName)!;
+        const vectorIndex = this.vectorIndices.get(indexName)!;
 
-        // Store embeddings separately for vector search
-        if (options.generateEmbeddings) {
-          const existingVectors = this.vectorStore.get(indexName) || [];
-          const newVectors = documents.map(doc => doc.embedding);
-          this.vectorStore.set(indexName, [...existingVectors, ...newVectors]);
-        }
+        documents.forEach((doc, i) => {
+          const id = this.getDocumentId(index, doc);
+
+          // Unmapped string fields are indexed as full text, like a dynamic mapping
+          for (const [field, value] of Object.entries(doc)) {
+            if (!index.mapping[field] && !invertedIndex.hasField(field) && this.isTextValue(value)) {
+              invertedIndex.defineField(this.toIndexedField(field, field, { type: 'text' }));
+            }
+          }
+
+          store.set(id, doc);
+          invertedIndex.add(id, doc);
+
+          // Store embeddings separately for vector search
+          const embedding = embeddings[i] || (index.mapping.embedding && doc.embedding);
+          if (embedding) {
+            const vector = Float32Array.from(embedding as ArrayLike<number>);
+            vectors.set(id, vector);
+            vectorIndex.add(id, vector);
+          } else {
+            vectors.delete(id);
+            vectorIndex.remove(id);
+          }
+        });
 
         this.emit('documents_indexed', {
           index: indexName,
@@ -217,6 +310,46 @@ class SearchService extends EventEmitter {
     });
   }
 
+  async delete(indexName: string, ids: string[]) {
+    return tracingService.trace('search.delete', async (span) => {
+      const store = this.data.get(indexName);
+      if (!store) {
+        throw new Error(`Index ${indexName} not found`);
+      }
+
+      span.setAttributes({
+        'index.name': indexName,
+        'documents.count': ids.length
+      });
+
+      const invertedIndex = this.invertedIndices.get(indexName)!;
+      const vectors = this.vectorStore.get(indexName)!;
+      const vectorIndex = this.vectorIndices.get(indexName)!;
+      let deleted = 0;
+
+      ids.forEach(id => {
+        if (store.delete(id)) {
+          invertedIndex.remove(id);
+          vectors.delete(id);
+          vectorIndex.remove(id);
+          deleted++;
+        }
+      });
+
+      this.emit('documents_deleted', {
+        index: indexName,
+        count: deleted
+      });
+
+      return deleted;
+    });
+  }
+
+  private isTextValue(value: unknown): boolean {
+    return typeof value === 'string' ||
+      (Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string'));
+  }
+
   private validateDocument(doc: Record<string, any>, mapping: SearchIndex['mapping']) {
     for (const [field, config] of Object.entries(mapping)) {
       if (doc[field] !== undefined) {
@@ -224,7 +357,7 @@ class SearchService extends EventEmitter {
         switch (config.type) {
           case 'keyword':
           case 'text':
-            if (typeof doc[field] !== 'string') {
+            if (!this.isTextValue(doc[field])) {
               throw new Error(`Field ${field} must be a string`);
             }
             break;
@@ -234,7 +367,10 @@ class SearchService extends EventEmitter {
             }
             break;
           case 'dense_vector':
-            if (!Array.isArray(doc[field]) || doc[field].length !== config.dims) {
+            if (
+              !(Array.isArray(doc[field]) || ArrayBuffer.isView(doc[field])) ||
+              doc[field].length !== config.dims
+            ) {
               throw new Error(`Field ${field} must be a vector of length ${config.dims}`);
             }
             break;
@@ -243,10 +379,31 @@ class SearchService extends EventEmitter {
     }
   }
 
-  private async generateEmbeddings(documents: Record<string, any>[]): Promise<Float32Array[]> {
-    // This would typically call an external embedding service
-    // For now, return mock embeddings
-    return documents.map(() => new Float32Array(384).fill(0));
+  private async generateEmbeddings(
+    index: SearchIndex,
+    documents: Record<string, any>[]
+  ): Promise<Float32Array[]> {
+    const dims = index.mapping.embedding?.dims;
+    if (dims !== undefined && dims !== this.embeddingProvider.dimensions) {
+      throw new Error(
+        `Embedding provider ${this.embeddingProvider.name} produces ${this.embeddingProvider.dimensions} dimensions, index ${index.name} expects ${dims}`
+      );
+    }
+
+    const idField = index.idField || 'id';
+    const texts = documents.map(doc =>
+      Object.entries(doc)
+        .filter(([field, value]) => {
+          const type = index.mapping[field]?.type;
+          return field !== idField &&
+            (type === undefined || type === 'text' || type === 'keyword') &&
+            this.isTextValue(value);
+        })
+        .map(([, value]) => ([] as string[]).concat(value).join(' '))
+        .join('\n')
+    );
+
+    return this.embeddingProvider.embed(texts);
   }
 
   async search<T>(indexName: string, options: SearchOptions): Promise<SearchResult<T>> {
@@ -264,21 +421,21 @@ class SearchService extends EventEmitter {
         });
 
         const startTime = Date.now();
-        let results = this.data.get(indexName) || [];
+        let results: any[];
 
         // Apply search
         switch (options.searchType) {
           case 'exact':
-            results = this.exactSearch(results, options);
+            results = this.exactSearch(this.getDocuments(indexName), options);
             break;
           case 'fuzzy':
-            results = this.fuzzySearch(results, options);
+            results = this.fuzzySearch(this.getDocuments(indexName), options);
             break;
           case 'semantic':
-            results = await this.semanticSearch(indexName, results, options);
+            results = await this.semanticSearch(indexName, options);
             break;
           default:
-            results = this.defaultSearch(results, options);
+            results = this.defaultSearch(indexName, options);
         }
 
         // Apply filters
@@ -351,55 +508,106 @@ class SearchService extends EventEmitter {
     });
   }
 
+  // Every query term must be within the edit distance threshold of a term in the same field
   private fuzzySearch(data: any[], options: SearchOptions): any[] {
     const threshold = options.fuzzyThreshold || 0.2;
+    const terms = (text: string) => text.toLowerCase().split(/\W+/).filter(Boolean);
+    const queryTerms = terms(options.query);
+    if (queryTerms.length === 0) return [];
+
     return data.filter(item => {
-      return Object.entries(item).some(([field, value]) => {
-        if (typeof value === 'string') {
-          return this.calculateLevenshteinDistance(
-            value.toLowerCase(),
-            options.query.toLowerCase()
-          ) <= threshold * Math.max(value.length, options.query.length);
-        }
-        return false;
+      return Object.values(item).some(value => {
+        if (typeof value !== 'string') return false;
+
+        const valueTerms = terms(value);
+        return queryTerms.every(queryTerm =>
+          valueTerms.some(valueTerm =>
+            this.calculateLevenshteinDistance(valueTerm, queryTerm) <=
+              threshold * Math.max(valueTerm.length, queryTerm.length)
+          )
+        );
       });
     });
   }
 
-  private async semanticSearch(indexName: string, data: any[], options: SearchOptions): Promise<any[]> {
-    // Generate query embedding
-    const queryEmbedding = await this.generateEmbeddings([{ text: options.query }]);
-    const vectors = this.vectorStore.get(indexName) || [];
+  private getDocuments(indexName: string): any[] {
+    return Array.from(this.data.get(indexName)?.values() || []);
+  }
 
-    // Calculate cosine similarity with all vectors
-    const similarities = vectors.map(vector => 
-      this.calculateCosineSimilarity(queryEmbedding[0], vector)
-    );
+  private async semanticSearch(indexName: string, options: SearchOptions): Promise<any[]> {
+    const store = this.data.get(indexName)!;
+    const vectors = this.vectorStore.get(indexName)!;
+    const semanticWeight = Math.min(1, Math.max(0, options.semanticWeight ?? 0.7));
+    const candidateCount = options.vectorCandidates ||
+      Math.max(100, (options.page || 1) * (options.limit || 10));
+
+    // Approximate nearest neighbours give the vector candidates
+    const [queryEmbedding] = await this.embeddingProvider.embed([options.query]);
+    const similarities = new Map<string, number>();
+    for (const match of this.vectorIndices.get(indexName)!.search(queryEmbedding!, candidateCount)) {
+      if (match.similarity > 0) {
+        similarities.set(match.id, match.similarity);
+      }
+    }
 
-    // Sort data by similarity
-    return data
-      .map((item, index) => ({ item, similarity: similarities[index] }))
-      .sort((a, b) => b.similarity - a.similarity)
-      .map(({ item }) => item);
+    // Lexical candidates are blended in, and score documents that have no vector at all
+    const lexical = this.lexicalScores(indexName, options) || new Map<string, number>();
+    const maxLexical = Math.max(0, ...lexical.values());
+
+    const blended = new Map<string, number>();
+    for (const id of new Set([...similarities.keys(), ...lexical.keys()])) {
+      let similarity = similarities.get(id);
+      const vector = vectors.get(id);
+      if (similarity === undefined && vector) {
+        similarity = this.calculateCosineSimilarity(queryEmbedding!, vector);
+      }
+
+      const lexicalScore = maxLexical > 0 ? (lexical.get(id) || 0) / maxLexical : 0;
+      const score = vector
+        ? semanticWeight * Math.max(0, similarity || 0) + (1 - semanticWeight) * lexicalScore
+        : (1 - semanticWeight) * lexicalScore;
+      blended.set(id, score);
+    }
+
+    return Array.from(blended.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => store.get(id));
   }
 
-  private defaultSearch(data: any[], options: SearchOptions): any[] {
-    const query = options.query.toLowerCase();
-    return data.filter(item => {
-      return Object.entries(item).some(([field, value]) => {
-        if (typeof value === 'string') {
-          return value.toLowerCase().includes(query);
-        }
-        return false;
-      });
+  private lexicalScores(indexName: string, options: SearchOptions): Map<string, number> | null {
+    const clauses = parseQuery(options.query);
+    if (clauses.length === 0) {
+      return null;
+    }
+
+    return this.invertedIndices.get(indexName)!.search(clauses, {
+      fields: options.fields,
+      boosts: options.boosts
     });
   }
 
+  private defaultSearch(indexName: string, options: SearchOptions): any[] {
+    const store = this.data.get(indexName)!;
+    const scores = this.lexicalScores(indexName, options);
+
+    // An empty or `*` query matches every document in insertion order
+    if (!scores) {
+      return Array.from(store.values());
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => store.get(id));
+  }
+
   private applyFilters(data: any[], filters: Record<string, any>): any[] {
     return data.filter(item => {
       return Object.entries(filters).every(([field, value]) => {
         if (Array.isArray(value)) {
-          return value.includes(item[field]);
+          // Multi-valued keyword fields match if any of their values is listed
+          return Array.isArray(item[field])
+            ? item[field].some((v: unknown) => value.includes(v))
+            : value.includes(item[field]);
         }
         if (typeof value === 'object') {
           const { gt, gte, lt, lte } = value;
@@ -559,6 +767,15 @@ class SearchService extends EventEmitter {
             matrix[i - 1][j] + 1
           );
         }
+
+        // Swapping two adjacent characters is a single typo
+        if (
+          i > 1 && j > 1 &&
+          b.charAt(i - 1) === a.charAt(j - 2) &&
+          b.charAt(i - 2) === a.charAt(j - 1)
+        ) {
+          matrix[i][j] = Math.min(matrix[i][j], matrix[i - 2][j - 2] + 1);
+        }
       }
     }
 
@@ -576,6 +793,11 @@ class SearchService extends EventEmitter {
       normB += b[i] * b[i];
     }
 
+    // Zero vectors (empty text) are orthogonal to everything rather than NaN
+    if (normA === 0 || normB === 0) {
+      return 0;
+    }
+
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
@@ -583,7 +805,9 @@ class SearchService extends EventEmitter {
   async cleanup() {
     this.indices.clear();
     this.data.clear();
+    this.invertedIndices.clear();
     this.vectorStore.clear();
+    this.vectorIndices.clear();
   }
 }
 
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+export default defineConfig({
+  build: {
+    lib: {
+      // The ledger has its own entry so the root API service can load it
+      // without the browser-side services
+      entry: {
+        index: path.resolve(__dirname, 'src/index.ts'),
+        ledger: path.resolve(__dirname, 'src/services/ledger/index.ts')
+      },
+      // The root API service is CommonJS, so it requires the cjs build
+      formats: ['es', 'cjs']
+    }
+  }
+});
@@ -0,0 +1,51 @@
+import { createHash } from 'crypto';
+import { CID } from 'multiformats/cid';
+import * as raw from 'multiformats/codecs/raw';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { create as createDigest } from 'multiformats/hashes/digest';
+
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Read a file in parts so large uploads never sit in memory whole
+ */
+export async function* readParts(
+  file: Blob,
+  partSize: number = DEFAULT_PART_SIZE
+): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < file.size; offset += partSize) {
+    const part = file.slice(offset, Math.min(offset + partSize, file.size));
+    yield new Uint8Array(await part.arrayBuffer());
+  }
+}
+
+/**
+ * Content identifier for a file: a CIDv1 over the raw bytes' SHA-256, so
+ * identical uploads share one key on every content-addressed provider
+ */
+export async function computeCid(
+  file: Blob,
+  partSize: number = DEFAULT_PART_SIZE
+): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const part of readParts(file, partSize)) {
+    hash.update(part);
+  }
+  return cidFromSha256(new Uint8Array(hash.digest()));
+}
+
+export function cidFromSha256(hash: Uint8Array): string {
+  return CID.create(1, raw.code, createDigest(sha256.code, hash)).toString();
+}
+
+/**
+ * Parse a CID from untrusted input; anything else is rejected before it
+ * reaches a storage key or file path
+ */
+export function assertCid(cid: string): string {
+  try {
+    return CID.parse(cid).toString();
+  } catch {
+    throw new Error(`Invalid CID: ${cid}`);
+  }
+}
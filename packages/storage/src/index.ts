@@ -1,6 +1,8 @@
 export { StorageService } from './storage-service';
 export { IpfsProvider } from './providers/ipfs';
 export { Web3StorageProvider } from './providers/web3storage';
+export { IpfsReplicator, InMemoryReplicationStore } from './replication';
+export type { ReplicationStore, ReplicationSource } from './replication';
 export type {
   StorageProvider,
   StorageConfig,
@@ -9,5 +11,13 @@ export type {
   UploadResult,
   StorageStats,
   StorageEventType,
-  StorageEventPayload
-} from './types'; 
\ No newline at end of file
+  StorageEventPayload,
+  S3Config,
+  LocalStorageConfig,
+  ReplicationPolicy,
+  ReplicationState,
+  ReplicationStatus,
+  ByteRange,
+  PresignOptions,
+  ListOptions
+} from './types';
@@ -0,0 +1,277 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdir, open, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { assertCid, cidFromSha256, readParts, DEFAULT_PART_SIZE } from '../content-id';
+import type {
+  ByteRange,
+  ListOptions,
+  LocalStorageConfig,
+  PresignOptions,
+  StorageFile,
+  UploadOptions,
+  UploadResult
+} from '../types';
+
+const DEFAULT_PRESIGN_EXPIRY = 60 * 60;
+
+interface LocalFileMetadata {
+  cid: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  metadata?: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Content-addressed storage on the local filesystem, for development and
+ * self-hosting. Blobs live under `blobs/<cid>` with a JSON sidecar in
+ * `meta/`; uploads stream to `tmp/` first so a crash never leaves a
+ * partial blob under a real CID.
+ */
+export class LocalFsProvider {
+  private root: string;
+  private baseUrl: string;
+  private signingSecret: string;
+
+  constructor(config: LocalStorageConfig) {
+    this.root = config.root;
+    this.baseUrl = config.baseUrl.replace(/\/$/, '');
+    this.signingSecret = config.signingSecret;
+  }
+
+  async upload(
+    file: File | Blob,
+    options: UploadOptions = { provider: 'local' }
+  ): Promise<UploadResult> {
+    const tmpPath = join(this.root, 'tmp', randomUUID());
+    try {
+      await this.ensureDirectories();
+      const { onProgress } = options;
+
+      // Hash while writing so the file is read only once
+      const hash = createHash('sha256');
+      const handle = await open(tmpPath, 'w');
+      let uploadedSize = 0;
+      try {
+        for await (const part of readParts(file, DEFAULT_PART_SIZE)) {
+          hash.update(part);
+          await handle.write(part);
+          uploadedSize += part.length;
+          onProgress?.(Math.min(99, Math.round((uploadedSize / file.size) * 100)));
+        }
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      const cid = cidFromSha256(new Uint8Array(hash.digest()));
+      const existing = await this.readMetadata(cid);
+      if (existing) {
+        await rm(tmpPath, { force: true });
+      } else {
+        await rename(tmpPath, this.blobPath(cid));
+        const now = new Date().toISOString();
+        await this.writeMetadata({
+          cid,
+          name: file instanceof File ? file.name : cid,
+          size: file.size,
+          mimeType: file.type || 'application/octet-stream',
+          metadata: options.metadata,
+          createdAt: now,
+          updatedAt: now
+        });
+      }
+
+      onProgress?.(100);
+
+      return {
+        cid,
+        url: `${this.baseUrl}/${cid}`,
+        size: file.size,
+        mimeType: file.type,
+        metadata: options.metadata
+      };
+    } catch (error) {
+      await rm(tmpPath, { force: true });
+      throw new Error(`Local upload failed: ${error.message}`);
+    }
+  }
+
+  async uploadDirectory(
+    files: File[],
+    options: UploadOptions = { provider: 'local' }
+  ): Promise<UploadResult[]> {
+    try {
+      const results: UploadResult[] = [];
+      let totalSize = 0;
+      files.forEach(file => totalSize += file.size);
+      let uploadedSize = 0;
+
+      for (const file of files) {
+        const result = await this.upload(file, {
+          ...options,
+          onProgress: (progress) => {
+            const fileProgress = (progress * file.size) / totalSize;
+            options.onProgress?.(Math.round((uploadedSize / totalSize * 100) + fileProgress));
+          }
+        });
+        results.push(result);
+        uploadedSize += file.size;
+      }
+
+      return results;
+    } catch (error) {
+      throw new Error(`Local directory upload failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Read a file, or just the requested byte range of it
+   */
+  async download(cid: string, range?: ByteRange): Promise<Uint8Array> {
+    try {
+      const path = this.blobPath(cid);
+      if (!range) {
+        return new Uint8Array(await readFile(path));
+      }
+
+      const { size } = await stat(path);
+      const end = Math.min(range.end ?? size - 1, size - 1);
+      if (range.start < 0 || range.start > end) {
+        throw new Error(`Range ${range.start}-${range.end ?? ''} not satisfiable for ${size} bytes`);
+      }
+
+      const buffer = new Uint8Array(end - range.start + 1);
+      const handle = await open(path, 'r');
+      try {
+        await handle.read(buffer, 0, buffer.length, range.start);
+      } finally {
+        await handle.close();
+      }
+      return buffer;
+    } catch (error) {
+      throw new Error(`Local download failed: ${error.message}`);
+    }
+  }
+
+  async getFile(cid: string): Promise<StorageFile> {
+    try {
+      const meta = await this.readMetadata(assertCid(cid));
+      if (!meta) throw new Error(`File not found: ${cid}`);
+      return this.toStorageFile(meta);
+    } catch (error) {
+      throw new Error(`Failed to get local file info: ${error.message}`);
+    }
+  }
+
+  /**
+   * List files newest first, optionally only those uploaded before a date
+   */
+  async listFiles(options: ListOptions = {}): Promise<StorageFile[]> {
+    try {
+      const { before, maxResults = 100 } = options;
+      await this.ensureDirectories();
+
+      const entries = await readdir(join(this.root, 'meta'));
+      const files = await Promise.all(
+        entries
+          .filter(entry => entry.endsWith('.json'))
+          .map(entry => this.readMetadata(entry.slice(0, -'.json'.length)))
+      );
+
+      return files
+        .filter((meta): meta is LocalFileMetadata => !!meta && (!before || meta.createdAt < before))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, maxResults)
+        .map(meta => this.toStorageFile(meta));
+    } catch (error) {
+      throw new Error(`Failed to list local files: ${error.message}`);
+    }
+  }
+
+  async deleteFile(cid: string): Promise<void> {
+    try {
+      await rm(this.blobPath(cid), { force: true });
+      await rm(this.metadataPath(cid), { force: true });
+    } catch (error) {
+      throw new Error(`Failed to delete local file: ${error.message}`);
+    }
+  }
+
+  /**
+   * A time-limited URL for reading a file, checked with verifyPresignedUrl
+   * by whatever serves the directory. Uploads go through upload(), since a
+   * blob's key is only known once its content has been hashed.
+   */
+  async getPresignedUrl(cid: string, options: PresignOptions = {}): Promise<string> {
+    const { expiresIn = DEFAULT_PRESIGN_EXPIRY } = options;
+    const key = assertCid(cid);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    return `${this.baseUrl}/${key}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  /**
+   * Check a presigned URL, returning the CID it grants access to or null
+   * if it is forged or expired
+   */
+  verifyPresignedUrl(url: string): string | null {
+    const parsed = new URL(url, this.baseUrl);
+    const cid = parsed.pathname.split('/').pop() ?? '';
+    const expires = Number(parsed.searchParams.get('expires'));
+    const signature = Buffer.from(parsed.searchParams.get('signature') ?? '', 'hex');
+
+    if (!expires || expires < Date.now() / 1000) return null;
+
+    const expected = Buffer.from(this.sign(cid, expires), 'hex');
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      return null;
+    }
+    return cid;
+  }
+
+  private sign(cid: string, expires: number): string {
+    return createHmac('sha256', this.signingSecret).update(`${cid}:${expires}`).digest('hex');
+  }
+
+  private toStorageFile(meta: LocalFileMetadata): StorageFile {
+    return {
+      cid: meta.cid,
+      name: meta.name,
+      size: meta.size,
+      mimeType: meta.mimeType,
+      url: `${this.baseUrl}/${meta.cid}`,
+      metadata: meta.metadata,
+      createdAt: new Date(meta.createdAt),
+      updatedAt: new Date(meta.updatedAt)
+    };
+  }
+
+  private async readMetadata(cid: string): Promise<LocalFileMetadata | null> {
+    try {
+      return JSON.parse(await readFile(this.metadataPath(cid), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeMetadata(meta: LocalFileMetadata): Promise<void> {
+    await writeFile(this.metadataPath(meta.cid), JSON.stringify(meta));
+  }
+
+  private blobPath(cid: string): string {
+    return join(this.root, 'blobs', assertCid(cid));
+  }
+
+  private metadataPath(cid: string): string {
+    return join(this.root, 'meta', `${assertCid(cid)}.json`);
+  }
+
+  private async ensureDirectories(): Promise<void> {
+    await Promise.all(
+      ['blobs', 'meta', 'tmp'].map(dir => mkdir(join(this.root, dir), { recursive: true }))
+    );
+  }
+}
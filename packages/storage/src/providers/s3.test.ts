@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { S3Provider } from './s3';
+import { computeCid } from '../content-id';
+
+describe('S3Provider', () => {
+  const s3 = new S3Provider({
+    endPoint: 's3.test',
+    accessKey: 'access',
+    secretKey: 'secret',
+    bucket: 'media',
+    region: 'us-east-1'
+  });
+
+  it('presigns time-limited reads of a content-addressed key', async () => {
+    const cid = await computeCid(new Blob(['hello']));
+    const url = new URL(await s3.getPresignedUrl(cid, { expiresIn: 120 }));
+
+    expect(url.origin + url.pathname).toBe(`https://s3.test/media/${cid}`);
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('120');
+    expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('refuses keys that are not CIDs', async () => {
+    await expect(s3.getPresignedUrl('../other-bucket/secret')).rejects.toThrow('Invalid CID');
+  });
+});
@@ -0,0 +1,233 @@
+import { Client as MinioClient } from 'minio';
+import { Readable } from 'stream';
+import { assertCid, computeCid, readParts, DEFAULT_PART_SIZE } from '../content-id';
+import type {
+  ByteRange,
+  ListOptions,
+  PresignOptions,
+  S3Config,
+  StorageFile,
+  UploadOptions,
+  UploadResult
+} from '../types';
+
+// S3 rejects multipart parts smaller than this, other than the last
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_PRESIGN_EXPIRY = 60 * 60;
+
+export class S3Provider {
+  private client: MinioClient;
+  private bucket: string;
+  private region?: string;
+  private publicUrl: string;
+  private partSize: number;
+  private bucketReady?: Promise<void>;
+
+  constructor(config: S3Config) {
+    this.partSize = Math.max(config.partSize ?? DEFAULT_PART_SIZE, MIN_PART_SIZE);
+    this.client = new MinioClient({
+      endPoint: config.endPoint,
+      port: config.port,
+      useSSL: config.useSSL ?? true,
+      accessKey: config.accessKey,
+      secretKey: config.secretKey,
+      region: config.region,
+      // Uploads larger than one part go through multipart upload
+      partSize: this.partSize
+    });
+    this.bucket = config.bucket;
+    this.region = config.region;
+
+    const protocol = config.useSSL === false ? 'http' : 'https';
+    const port = config.port ? `:${config.port}` : '';
+    this.publicUrl = (config.publicUrl ?? `${protocol}://${config.endPoint}${port}/${config.bucket}`)
+      .replace(/\/$/, '');
+  }
+
+  async upload(
+    file: File | Blob,
+    options: UploadOptions = { provider: 's3' }
+  ): Promise<UploadResult> {
+    try {
+      await this.ensureBucket();
+      const { onProgress } = options;
+
+      // Objects are keyed by content, so re-uploading the same bytes is a no-op
+      const cid = await computeCid(file, this.partSize);
+      if (!(await this.exists(cid))) {
+        const parts = readParts(file, this.partSize);
+        let uploadedSize = 0;
+        const body = Readable.from((async function* () {
+          for await (const part of parts) {
+            uploadedSize += part.length;
+            onProgress?.(Math.min(99, Math.round((uploadedSize / file.size) * 100)));
+            yield Buffer.from(part);
+          }
+        })());
+
+        await this.client.putObject(this.bucket, cid, body, file.size, {
+          'Content-Type': file.type || 'application/octet-stream',
+          'X-Amz-Meta-Name': encodeURIComponent(file instanceof File ? file.name : cid),
+          'X-Amz-Meta-Metadata': encodeURIComponent(JSON.stringify(options.metadata ?? {}))
+        });
+      }
+
+      onProgress?.(100);
+
+      return {
+        cid,
+        url: `${this.publicUrl}/${cid}`,
+        size: file.size,
+        mimeType: file.type,
+        metadata: options.metadata
+      };
+    } catch (error) {
+      throw new Error(`S3 upload failed: ${error.message}`);
+    }
+  }
+
+  async uploadDirectory(
+    files: File[],
+    options: UploadOptions = { provider: 's3' }
+  ): Promise<UploadResult[]> {
+    try {
+      const results: UploadResult[] = [];
+      let totalSize = 0;
+      files.forEach(file => totalSize += file.size);
+      let uploadedSize = 0;
+
+      for (const file of files) {
+        const result = await this.upload(file, {
+          ...options,
+          onProgress: (progress) => {
+            const fileProgress = (progress * file.size) / totalSize;
+            options.onProgress?.(Math.round((uploadedSize / totalSize * 100) + fileProgress));
+          }
+        });
+        results.push(result);
+        uploadedSize += file.size;
+      }
+
+      return results;
+    } catch (error) {
+      throw new Error(`S3 directory upload failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Download a file, or just the requested byte range of it
+   */
+  async download(cid: string, range?: ByteRange): Promise<Uint8Array> {
+    try {
+      const key = assertCid(cid);
+      const stream = range
+        ? await this.client.getPartialObject(
+            this.bucket,
+            key,
+            range.start,
+            range.end !== undefined ? range.end - range.start + 1 : undefined
+          )
+        : await this.client.getObject(this.bucket, key);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return new Uint8Array(Buffer.concat(chunks));
+    } catch (error) {
+      throw new Error(`S3 download failed: ${error.message}`);
+    }
+  }
+
+  async getFile(cid: string): Promise<StorageFile> {
+    try {
+      const key = assertCid(cid);
+      const stat = await this.client.statObject(this.bucket, key);
+      const meta = stat.metaData ?? {};
+
+      return {
+        cid: key,
+        name: meta.name ? decodeURIComponent(meta.name) : key,
+        size: stat.size,
+        mimeType: meta['content-type'] ?? 'application/octet-stream',
+        url: `${this.publicUrl}/${key}`,
+        metadata: meta.metadata ? JSON.parse(decodeURIComponent(meta.metadata)) : undefined,
+        createdAt: new Date(stat.lastModified),
+        updatedAt: new Date(stat.lastModified)
+      };
+    } catch (error) {
+      throw new Error(`Failed to get S3 file info: ${error.message}`);
+    }
+  }
+
+  /**
+   * List files newest first, optionally only those uploaded before a date
+   */
+  async listFiles(options: ListOptions = {}): Promise<StorageFile[]> {
+    try {
+      const { before, maxResults = 100 } = options;
+      const cutoff = before ? new Date(before) : null;
+
+      const objects: Array<{ name: string; lastModified: Date }> = [];
+      for await (const object of this.client.listObjectsV2(this.bucket, '', true)) {
+        if (!object.name || (cutoff && object.lastModified >= cutoff)) continue;
+        objects.push({ name: object.name, lastModified: object.lastModified });
+      }
+
+      const newest = objects
+        .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime())
+        .slice(0, maxResults);
+
+      return await Promise.all(newest.map(object => this.getFile(object.name)));
+    } catch (error) {
+      throw new Error(`Failed to list S3 files: ${error.message}`);
+    }
+  }
+
+  async deleteFile(cid: string): Promise<void> {
+    try {
+      await this.client.removeObject(this.bucket, assertCid(cid));
+    } catch (error) {
+      throw new Error(`Failed to delete S3 file: ${error.message}`);
+    }
+  }
+
+  /**
+   * A time-limited URL for reading a file. Uploads go through upload(): S3
+   * can't check that bytes PUT to a presigned URL hash to the key they
+   * were signed for, so a client could store anything under any CID.
+   */
+  async getPresignedUrl(cid: string, options: PresignOptions = {}): Promise<string> {
+    try {
+      const { expiresIn = DEFAULT_PRESIGN_EXPIRY } = options;
+      return await this.client.presignedGetObject(this.bucket, assertCid(cid), expiresIn);
+    } catch (error) {
+      throw new Error(`Failed to presign S3 URL: ${error.message}`);
+    }
+  }
+
+  private async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.statObject(this.bucket, key);
+      return true;
+    } catch (error) {
+      if (error.code === 'NotFound' || error.code === 'NoSuchKey') return false;
+      throw error;
+    }
+  }
+
+  private ensureBucket(): Promise<void> {
+    if (!this.bucketReady) {
+      this.bucketReady = (async () => {
+        if (!(await this.client.bucketExists(this.bucket))) {
+          await this.client.makeBucket(this.bucket, this.region ?? 'us-east-1');
+        }
+      })();
+      // Let a failed check be retried on the next upload
+      this.bucketReady.catch(() => {
+        this.bucketReady = undefined;
+      });
+    }
+    return this.bucketReady;
+  }
+}
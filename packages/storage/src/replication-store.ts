@@ -0,0 +1,56 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { ReplicationStore } from './replication';
+import type { ReplicationStatus } from './types';
+
+/**
+ * Replication jobs kept in one JSON file. Writes are serialised and go
+ * through a temporary file, so a crash mid-write leaves the previous
+ * state intact rather than a truncated file.
+ */
+export class FileReplicationStore implements ReplicationStore {
+  private statuses?: Promise<Map<string, ReplicationStatus>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async get(cid: string): Promise<ReplicationStatus | undefined> {
+    const status = (await this.load()).get(cid);
+    return status ? { ...status } : undefined;
+  }
+
+  async save(status: ReplicationStatus): Promise<void> {
+    const statuses = await this.load();
+    statuses.set(status.cid, { ...status });
+
+    const write = this.writing.then(() => this.write(statuses));
+    this.writing = write.catch(() => undefined);
+    await write;
+  }
+
+  async unsettled(): Promise<ReplicationStatus[]> {
+    return [...(await this.load()).values()]
+      .filter(status => status.state === 'pending' || status.state === 'replicating')
+      .map(status => ({ ...status }));
+  }
+
+  private load(): Promise<Map<string, ReplicationStatus>> {
+    this.statuses ??= readFile(this.path, 'utf8').then(
+      contents => new Map((JSON.parse(contents) as ReplicationStatus[]).map(status => [status.cid, status])),
+      error => {
+        if (error.code === 'ENOENT') return new Map();
+        // Let the next call retry rather than caching the failure
+        this.statuses = undefined;
+        throw error;
+      }
+    );
+    return this.statuses;
+  }
+
+  private async write(statuses: Map<string, ReplicationStatus>): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify([...statuses.values()]));
+    await rename(tmpPath, this.path);
+  }
+}
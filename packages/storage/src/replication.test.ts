@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryReplicationStore, IpfsReplicator } from './replication';
+import { FileReplicationStore } from './replication-store';
+import type { IpfsProvider } from './providers/ipfs';
+import type { ReplicationPolicy } from './types';
+
+const fakeIpfs = () => ({
+  upload: vi.fn().mockResolvedValue({ cid: 'bafy-ipfs' }),
+  pin: vi.fn().mockResolvedValue(undefined)
+});
+
+const replicator = (
+  ipfs: ReturnType<typeof fakeIpfs>,
+  policy: Partial<ReplicationPolicy> = {},
+  onSettled = vi.fn()
+) =>
+  new IpfsReplicator(
+    ipfs as unknown as IpfsProvider,
+    { providers: ['s3'], retryDelayMs: 0, ...policy },
+    async cid => new Blob([cid]),
+    onSettled
+  );
+
+describe('IpfsReplicator', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('mirrors and pins queued files once', async () => {
+    const ipfs = fakeIpfs();
+    const onSettled = vi.fn();
+    const jobs = replicator(ipfs, { pin: true }, onSettled);
+
+    await jobs.enqueue('bafy-a', 's3');
+    await jobs.enqueue('bafy-a', 's3');
+    await jobs.drain();
+
+    expect(ipfs.upload).toHaveBeenCalledTimes(1);
+    expect(ipfs.pin).toHaveBeenCalledWith('bafy-ipfs');
+    expect(await jobs.getStatus('bafy-a')).toMatchObject({ state: 'replicated', ipfsCid: 'bafy-ipfs', attempts: 1 });
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ state: 'replicated' }));
+  });
+
+  it('retries, then marks the job failed', async () => {
+    const ipfs = fakeIpfs();
+    ipfs.upload.mockRejectedValue(new Error('node unreachable'));
+    const onSettled = vi.fn();
+    const jobs = replicator(ipfs, { maxAttempts: 3 }, onSettled);
+
+    await jobs.enqueue('bafy-a', 's3');
+    await jobs.drain();
+
+    expect(ipfs.upload).toHaveBeenCalledTimes(3);
+    expect(await jobs.getStatus('bafy-a')).toMatchObject({ state: 'failed', attempts: 3, error: 'node unreachable' });
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ state: 'failed' }), expect.any(Error));
+  });
+
+  it('only replicates from the providers in the policy', () => {
+    const jobs = replicator(fakeIpfs());
+
+    expect(jobs.shouldReplicate('s3')).toBe(true);
+    expect(jobs.shouldReplicate('local')).toBe(false);
+    expect(jobs.shouldReplicate('ipfs')).toBe(false);
+  });
+
+  it('resumes unfinished jobs from the store after a restart', async () => {
+    const store = new InMemoryReplicationStore();
+    await store.save({ cid: 'bafy-queued', provider: 's3', state: 'pending', attempts: 0 });
+    await store.save({ cid: 'bafy-interrupted', provider: 's3', state: 'replicating', attempts: 1 });
+    await store.save({ cid: 'bafy-done', provider: 's3', state: 'replicated', attempts: 1, ipfsCid: 'bafy-ipfs' });
+
+    const ipfs = fakeIpfs();
+    const jobs = replicator(ipfs, { store });
+    await jobs.restore();
+    await jobs.drain();
+
+    expect(ipfs.upload).toHaveBeenCalledTimes(2);
+    expect(await store.unsettled()).toEqual([]);
+    expect(await store.get('bafy-interrupted')).toMatchObject({ state: 'replicated', attempts: 2 });
+  });
+
+  it('keeps jobs on disk across instances', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'replication-'));
+    const path = join(dir, 'jobs', 'replication.json');
+
+    const ipfs = fakeIpfs();
+    ipfs.upload.mockReturnValue(new Promise(() => {}));
+    const crashed = replicator(ipfs, { store: new FileReplicationStore(path) });
+    await crashed.enqueue('bafy-a', 's3');
+    await vi.waitFor(() => expect(ipfs.upload).toHaveBeenCalled());
+
+    const restarted = replicator(fakeIpfs(), { store: new FileReplicationStore(path) });
+    expect(await restarted.getStatus('bafy-a')).toMatchObject({ state: 'replicating', attempts: 1 });
+    await restarted.restore();
+    await restarted.drain();
+
+    const reloaded = new FileReplicationStore(path);
+    expect(await reloaded.get('bafy-a')).toMatchObject({ state: 'replicated', attempts: 2 });
+    expect(await reloaded.unsettled()).toEqual([]);
+  });
+});
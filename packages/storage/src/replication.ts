@@ -0,0 +1,157 @@
+import type { IpfsProvider } from './providers/ipfs';
+import type { ReplicationPolicy, ReplicationStatus, StorageProvider } from './types';
+
+/**
+ * Where replication jobs are kept, so files queued before a restart are
+ * still mirrored after it. FileReplicationStore (from the server entry)
+ * persists to disk; InMemoryReplicationStore is for tests and browsers.
+ */
+export interface ReplicationStore {
+  get(cid: string): Promise<ReplicationStatus | undefined>;
+  save(status: ReplicationStatus): Promise<void>;
+  // Jobs that were queued or running and haven't settled yet
+  unsettled(): Promise<ReplicationStatus[]>;
+}
+
+export class InMemoryReplicationStore implements ReplicationStore {
+  private statuses = new Map<string, ReplicationStatus>();
+
+  async get(cid: string): Promise<ReplicationStatus | undefined> {
+    const status = this.statuses.get(cid);
+    return status ? { ...status } : undefined;
+  }
+
+  async save(status: ReplicationStatus): Promise<void> {
+    this.statuses.set(status.cid, { ...status });
+  }
+
+  async unsettled(): Promise<ReplicationStatus[]> {
+    return [...this.statuses.values()]
+      .filter(status => status.state === 'pending' || status.state === 'replicating')
+      .map(status => ({ ...status }));
+  }
+}
+
+// Reads a queued file back from the provider it was uploaded to
+export type ReplicationSource = (cid: string, provider: StorageProvider) => Promise<Blob>;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Mirrors files to IPFS in the background. Jobs run one at a time so a
+ * burst of uploads doesn't saturate the IPFS node; failed attempts are
+ * retried with exponential backoff before the job is marked failed.
+ */
+export class IpfsReplicator {
+  private store: ReplicationStore;
+  private queue: string[] = [];
+  private running?: Promise<void>;
+
+  constructor(
+    private ipfs: IpfsProvider,
+    private policy: ReplicationPolicy,
+    private source: ReplicationSource,
+    private onSettled: (status: ReplicationStatus, error?: Error) => void
+  ) {
+    this.store = policy.store ?? new InMemoryReplicationStore();
+  }
+
+  shouldReplicate(provider: StorageProvider): boolean {
+    return provider !== 'ipfs' && this.policy.providers.includes(provider);
+  }
+
+  /**
+   * Queue a file for mirroring. The job is saved before it is queued and
+   * the file is read back from its provider when the job runs, so nothing
+   * is held in memory and a restart loses nothing.
+   */
+  async enqueue(cid: string, provider: StorageProvider): Promise<ReplicationStatus> {
+    const existing = await this.store.get(cid);
+    if (existing && existing.state !== 'failed') {
+      return existing;
+    }
+
+    const status: ReplicationStatus = { cid, provider, state: 'pending', attempts: 0 };
+    await this.store.save(status);
+    this.schedule(cid);
+    return { ...status };
+  }
+
+  /**
+   * Re-queue jobs a previous process didn't finish. Call once on startup.
+   */
+  async restore(): Promise<void> {
+    for (const status of await this.store.unsettled()) {
+      this.schedule(status.cid);
+    }
+  }
+
+  getStatus(cid: string): Promise<ReplicationStatus | undefined> {
+    return this.store.get(cid);
+  }
+
+  // Resolves once every queued job has settled
+  async drain(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  private schedule(cid: string): void {
+    if (this.queue.includes(cid)) return;
+    this.queue.push(cid);
+    this.running ??= this.run().finally(() => {
+      this.running = undefined;
+    });
+  }
+
+  private async run(): Promise<void> {
+    let cid: string | undefined;
+    while ((cid = this.queue.shift())) {
+      const status = await this.store.get(cid).catch(() => undefined);
+      if (status && status.state !== 'replicated' && status.state !== 'failed') {
+        await this.replicate(status);
+      }
+    }
+  }
+
+  private async replicate(status: ReplicationStatus): Promise<void> {
+    const maxAttempts = this.policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const retryDelayMs = this.policy.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    status.state = 'replicating';
+
+    try {
+      while (status.attempts < maxAttempts) {
+        status.attempts++;
+        // Attempts are saved as they start so a restart doesn't grant a crashing job a fresh budget
+        await this.store.save(status);
+        try {
+          const result = await this.ipfs.upload(await this.source(status.cid, status.provider));
+          if (this.policy.pin) {
+            await this.ipfs.pin(result.cid);
+          }
+
+          status.state = 'replicated';
+          status.ipfsCid = result.cid;
+          status.error = undefined;
+          await this.store.save(status);
+          this.onSettled({ ...status });
+          return;
+        } catch (error) {
+          status.error = error.message;
+          if (status.attempts < maxAttempts) {
+            await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (status.attempts - 1)));
+          }
+        }
+      }
+
+      status.state = 'failed';
+      await this.store.save(status);
+      this.onSettled({ ...status }, new Error(`Replication of ${status.cid} failed: ${status.error}`));
+    } catch (error) {
+      // The store itself failed; the job stays unsettled there and is picked up by the next restore
+      this.onSettled({ ...status }, error as Error);
+    }
+  }
+}
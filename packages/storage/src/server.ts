@@ -0,0 +1,7 @@
+// Node-only parts of the package: they use fs, crypto and the MinIO client,
+// so they are kept out of the main entry that browser code imports
+export * from './index';
+export { S3Provider } from './providers/s3';
+export { LocalFsProvider } from './providers/local';
+export { FileReplicationStore } from './replication-store';
+export { computeCid } from './content-id';
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StorageService } from './storage-service';
+import { InMemoryReplicationStore } from './replication';
+import { LocalFsProvider } from './providers/local';
+import type { LocalStorageConfig, StorageEventPayload } from './types';
+
+const ipfs = vi.hoisted(() => ({
+  upload: vi.fn(),
+  pin: vi.fn()
+}));
+
+vi.mock('./providers/ipfs', () => ({
+  IpfsProvider: vi.fn(() => ipfs)
+}));
+vi.mock('./providers/web3storage', () => ({ Web3StorageProvider: vi.fn() }));
+vi.mock('browser-image-compression', () => ({ default: vi.fn() }));
+
+describe('StorageService', () => {
+  let root: string;
+  let local: LocalStorageConfig;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'storage-'));
+    local = { root, baseUrl: 'https://files.test', signingSecret: 'secret' };
+    ipfs.upload.mockReset().mockResolvedValue({ cid: 'bafy-ipfs' });
+    ipfs.pin.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('stores files under their content hash and reads byte ranges back', async () => {
+    const storage = new StorageService({ local });
+    const file = new File(['hello world'], 'hello.txt', { type: 'text/plain' });
+
+    const first = await storage.upload(file, { provider: 'local' });
+    const again = await storage.upload(file, { provider: 'local' });
+
+    expect(again.cid).toBe(first.cid);
+    expect(first.url).toBe(`https://files.test/${first.cid}`);
+    expect(await storage.getFile(first.cid, 'local')).toMatchObject({ name: 'hello.txt', size: 11 });
+    expect(new TextDecoder().decode(await storage.download(first.cid, 'local', { start: 6 }))).toBe('world');
+    expect(await storage.listFiles('local')).toHaveLength(1);
+  });
+
+  it('presigns reads that the local provider accepts until they expire', async () => {
+    const storage = new StorageService({ local });
+    const { cid } = await storage.upload(new Blob(['data']), { provider: 'local' });
+
+    const url = await storage.getPresignedUrl(cid, 'local', { expiresIn: 60 });
+    const verifier = new LocalFsProvider(local);
+    expect(verifier.verifyPresignedUrl(url)).toBe(cid);
+    expect(verifier.verifyPresignedUrl(url.replace(/signature=\w/, 'signature=0'))).toBeNull();
+
+    vi.useFakeTimers({ now: Date.now() + 61_000 });
+    try {
+      expect(verifier.verifyPresignedUrl(url)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects providers that are not configured', async () => {
+    const storage = new StorageService({});
+
+    await expect(storage.upload(new Blob(['x']), { provider: 's3' })).rejects.toThrow('S3 provider not configured');
+    await expect(storage.download('bafy', 'local')).rejects.toThrow('Local storage provider not configured');
+  });
+
+  it('queues uploads for replication and reports when they settle', async () => {
+    const store = new InMemoryReplicationStore();
+    const storage = new StorageService({
+      local,
+      ipfsGateway: 'https://ipfs.test',
+      replication: { providers: ['local'], pin: true, retryDelayMs: 0, store }
+    });
+    const settled = new Promise<StorageEventPayload>(resolve => storage.onStorageEvent('REPLICATION_COMPLETED', resolve));
+
+    const { cid } = await storage.upload(new File(['mirror me'], 'mirror.txt'), { provider: 'local' });
+    const { replication } = await settled;
+
+    expect(replication).toMatchObject({ cid, state: 'replicated', ipfsCid: 'bafy-ipfs' });
+    expect(await storage.getReplicationStatus(cid)).toMatchObject({ state: 'replicated' });
+    const mirrored: File = ipfs.upload.mock.calls[0][0];
+    expect(mirrored.name).toBe('mirror.txt');
+    expect(await mirrored.text()).toBe('mirror me');
+    expect(ipfs.pin).toHaveBeenCalledWith('bafy-ipfs');
+  });
+});
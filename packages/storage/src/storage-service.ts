@@ -1,5 +1,8 @@
 import { IpfsProvider } from './providers/ipfs';
 import { Web3StorageProvider } from './providers/web3storage';
+import type { S3Provider } from './providers/s3';
+import type { LocalFsProvider } from './providers/local';
+import { IpfsReplicator } from './replication';
 import imageCompression from 'browser-image-compression';
 import type {
   StorageConfig,
@@ -8,15 +11,25 @@ import type {
   UploadOptions,
   UploadResult,
   StorageEventType,
-  StorageEventPayload
+  StorageEventPayload,
+  ByteRange,
+  ListOptions,
+  PresignOptions,
+  ReplicationStatus
 } from './types';
 
+type ObjectStore = S3Provider | LocalFsProvider;
+type ObjectStoreProvider = 's3' | 'local';
+
 export class StorageService {
   private ipfsProvider?: IpfsProvider;
   private web3StorageProvider?: Web3StorageProvider;
+  // S3 and local storage need Node, so they are imported on first use and never reach browser bundles
+  private objectStores: Partial<Record<ObjectStoreProvider, Promise<ObjectStore>>> = {};
+  private replicator?: IpfsReplicator;
   private eventListeners: Map<StorageEventType, Set<(payload: StorageEventPayload) => void>> = new Map();
 
-  constructor(config: StorageConfig) {
+  constructor(private config: StorageConfig) {
     if (config.ipfsGateway) {
       this.ipfsProvider = new IpfsProvider(config.ipfsGateway);
     }
@@ -24,6 +37,36 @@ export class StorageService {
     if (config.web3StorageToken) {
       this.web3StorageProvider = new Web3StorageProvider(config.web3StorageToken);
     }
+
+    if (config.replication) {
+      if (!this.ipfsProvider) {
+        throw new Error('Replication requires an IPFS provider');
+      }
+      this.replicator = new IpfsReplicator(
+        this.ipfsProvider,
+        config.replication,
+        async (cid, provider) => {
+          const store = await this.getObjectStore(provider);
+          const [data, file] = await Promise.all([store.download(cid), store.getFile(cid)]);
+          return new File([data], file.name, { type: file.mimeType });
+        },
+        (replication, error) => {
+          if (error) {
+            this.emitEvent('REPLICATION_FAILED', { replication, error });
+          } else {
+            this.emitEvent('REPLICATION_COMPLETED', { replication });
+          }
+        }
+      );
+    }
+  }
+
+  /**
+   * Pick up replication jobs left unfinished by a previous process. Call
+   * once on startup when the replication policy has a persistent store.
+   */
+  async resumeReplication(): Promise<void> {
+    await this.replicator?.restore();
   }
 
   async upload(
@@ -73,10 +116,23 @@ export class StorageService {
           });
           break;
 
+        case 's3':
+        case 'local':
+          result = await (await this.getObjectStore(options.provider)).upload(processedFile, {
+            ...options,
+            onProgress: (progress) => {
+              this.emitEvent('UPLOAD_PROGRESS', { progress });
+              options.onProgress?.(progress);
+            }
+          });
+          break;
+
         default:
           throw new Error(`Unsupported storage provider: ${options.provider}`);
       }
 
+      await this.replicate(result.cid, options.provider);
+
       this.emitEvent('UPLOAD_COMPLETED', {
         file: {
           ...result,
@@ -98,7 +154,7 @@ export class StorageService {
     options: UploadOptions
   ): Promise<UploadResult[]> {
     try {
-      const provider = this.getProvider(options.provider);
+      const provider = await this.getProvider(options.provider);
       const results = await provider.uploadDirectory(files, {
         ...options,
         onProgress: (progress) => {
@@ -107,6 +163,10 @@ export class StorageService {
         }
       });
 
+      for (const result of results) {
+        await this.replicate(result.cid, options.provider);
+      }
+
       this.emitEvent('UPLOAD_COMPLETED', {
         file: {
           ...results[0],
@@ -125,17 +185,20 @@ export class StorageService {
 
   async getFile(cid: string, provider: StorageProvider): Promise<StorageFile> {
     try {
-      return await this.getProvider(provider).getFile(cid);
+      return await (await this.getProvider(provider)).getFile(cid);
     } catch (error) {
       throw new Error(`Failed to get file info: ${error.message}`);
     }
   }
 
-  async listFiles(provider: StorageProvider, options: { before?: string; maxResults?: number } = {}): Promise<StorageFile[]> {
+  async listFiles(provider: StorageProvider, options: ListOptions = {}): Promise<StorageFile[]> {
     try {
       if (provider === 'web3.storage' && this.web3StorageProvider) {
         return await this.web3StorageProvider.list(options);
       }
+      if (provider === 's3' || provider === 'local') {
+        return await (await this.getObjectStore(provider)).listFiles(options);
+      }
       throw new Error(`Listing files not supported for provider: ${provider}`);
     } catch (error) {
       throw new Error(`Failed to list files: ${error.message}`);
@@ -148,6 +211,8 @@ export class StorageService {
         await this.web3StorageProvider.delete(cid);
       } else if (provider === 'ipfs' && this.ipfsProvider) {
         await this.ipfsProvider.unpin(cid);
+      } else if (provider === 's3' || provider === 'local') {
+        await (await this.getObjectStore(provider)).deleteFile(cid);
       } else {
         throw new Error(`Deletion not supported for provider: ${provider}`);
       }
@@ -156,6 +221,35 @@ export class StorageService {
     }
   }
 
+  /**
+   * Download a file, or one byte range of it, from an object store
+   */
+  async download(cid: string, provider: StorageProvider, range?: ByteRange): Promise<Uint8Array> {
+    try {
+      this.emitEvent('DOWNLOAD_STARTED', {});
+      const data = provider === 'ipfs' && !range && this.ipfsProvider
+        ? await this.ipfsProvider.download(cid)
+        : await (await this.getObjectStore(provider)).download(cid, range);
+      this.emitEvent('DOWNLOAD_COMPLETED', {});
+      return data;
+    } catch (error) {
+      this.emitEvent('DOWNLOAD_FAILED', { error });
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+  }
+
+  async getPresignedUrl(cid: string, provider: StorageProvider, options: PresignOptions = {}): Promise<string> {
+    try {
+      return await (await this.getObjectStore(provider)).getPresignedUrl(cid, options);
+    } catch (error) {
+      throw new Error(`Failed to create presigned URL: ${error.message}`);
+    }
+  }
+
+  async getReplicationStatus(cid: string): Promise<ReplicationStatus | undefined> {
+    return this.replicator?.getStatus(cid);
+  }
+
   onStorageEvent(type: StorageEventType, callback: (payload: StorageEventPayload) => void): () => void {
     if (!this.eventListeners.has(type)) {
       this.eventListeners.set(type, new Set());
@@ -168,7 +262,45 @@ export class StorageService {
     };
   }
 
-  private getProvider(provider: StorageProvider): IpfsProvider | Web3StorageProvider {
+  private async replicate(cid: string, provider: StorageProvider): Promise<void> {
+    if (!this.replicator?.shouldReplicate(provider)) return;
+    try {
+      await this.replicator.enqueue(cid, provider);
+    } catch (error) {
+      // The upload itself succeeded; only its mirror is missing
+      const reason = error as Error;
+      this.emitEvent('REPLICATION_FAILED', {
+        replication: { cid, provider, state: 'failed', attempts: 0, error: reason.message },
+        error: reason
+      });
+    }
+  }
+
+  private getObjectStore(provider: StorageProvider): Promise<ObjectStore> {
+    if (provider !== 's3' && provider !== 'local') {
+      return Promise.reject(new Error(`Operation not supported for provider: ${provider}`));
+    }
+    this.objectStores[provider] ??= this.loadObjectStore(provider);
+    return this.objectStores[provider]!;
+  }
+
+  private async loadObjectStore(provider: ObjectStoreProvider): Promise<ObjectStore> {
+    if (provider === 's3') {
+      if (!this.config.s3) {
+        throw new Error('S3 provider not configured');
+      }
+      const { S3Provider } = await import('./providers/s3');
+      return new S3Provider(this.config.s3);
+    }
+
+    if (!this.config.local) {
+      throw new Error('Local storage provider not configured');
+    }
+    const { LocalFsProvider } = await import('./providers/local');
+    return new LocalFsProvider(this.config.local);
+  }
+
+  private async getProvider(provider: StorageProvider): Promise<IpfsProvider | Web3StorageProvider | ObjectStore> {
     switch (provider) {
       case 'ipfs':
         if (!this.ipfsProvider) {
@@ -182,6 +314,10 @@ export class StorageService {
         }
         return this.web3StorageProvider;
 
+      case 's3':
+      case 'local':
+        return this.getObjectStore(provider);
+
       default:
         throw new Error(`Unsupported storage provider: ${provider}`);
     }
@@ -1,10 +1,78 @@
-export type StorageProvider = 'ipfs' | 'web3.storage' | 'supabase';
+import type { ReplicationStore } from './replication';
+
+export type StorageProvider = 'ipfs' | 'web3.storage' | 'supabase' | 's3' | 'local';
 
 export interface StorageConfig {
   ipfsGateway?: string;
   web3StorageToken?: string;
   supabaseUrl?: string;
   supabaseKey?: string;
+  s3?: S3Config;
+  local?: LocalStorageConfig;
+  replication?: ReplicationPolicy;
+}
+
+// Any S3-compatible endpoint: AWS, MinIO, R2...
+export interface S3Config {
+  endPoint: string;
+  port?: number;
+  useSSL?: boolean;
+  accessKey: string;
+  secretKey: string;
+  bucket: string;
+  region?: string;
+  // Base URL objects are served from; defaults to the endpoint itself
+  publicUrl?: string;
+  // Part size for multipart uploads, in bytes
+  partSize?: number;
+}
+
+export interface LocalStorageConfig {
+  // Directory blobs and their metadata are written to
+  root: string;
+  // Base URL the directory is served from
+  baseUrl: string;
+  // Secret for signing presigned URLs
+  signingSecret: string;
+}
+
+// Mirrors uploads from the listed providers to IPFS in the background
+export interface ReplicationPolicy {
+  providers: StorageProvider[];
+  pin?: boolean;
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  // Where queued jobs are kept; defaults to memory, which a restart loses
+  store?: ReplicationStore;
+}
+
+export type ReplicationState = 'pending' | 'replicating' | 'replicated' | 'failed';
+
+export interface ReplicationStatus {
+  cid: string;
+  provider: StorageProvider;
+  state: ReplicationState;
+  attempts: number;
+  ipfsCid?: string;
+  error?: string;
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+// Presigned URLs are read-only: a blob's key is its content hash, which
+// only the upload itself can establish
+export interface PresignOptions {
+  // Seconds until the URL expires
+  expiresIn?: number;
+}
+
+export interface ListOptions {
+  before?: string;
+  maxResults?: number;
 }
 
 export interface UploadOptions {
@@ -48,11 +116,14 @@ export type StorageEventType =
   | 'UPLOAD_FAILED'
   | 'DOWNLOAD_STARTED'
   | 'DOWNLOAD_COMPLETED'
-  | 'DOWNLOAD_FAILED';
+  | 'DOWNLOAD_FAILED'
+  | 'REPLICATION_COMPLETED'
+  | 'REPLICATION_FAILED';
 
 export interface StorageEventPayload {
   type: StorageEventType;
   file?: StorageFile;
   progress?: number;
   error?: Error;
+  replication?: ReplicationStatus;
 } 
\ No newline at end of file
@@ -4,29 +4,30 @@ import path from 'path';
 export default defineConfig({
   build: {
     lib: {
-      entry: path.resolve(__dirname, 'src/index.ts'),
-      name: 'LenaStorage',
-      fileName: 'index'
+      // The server entry adds the Node-only providers; see src/server.ts
+      entry: {
+        index: path.resolve(__dirname, 'src/index.ts'),
+        server: path.resolve(__dirname, 'src/server.ts')
+      },
+      formats: ['es']
     },
     rollupOptions: {
       external: [
         'ipfs-http-client',
         '@web3.storage/w3up-client',
         'multiformats',
+        /^multiformats\//,
         'uint8arrays',
+        /^uint8arrays\//,
         '@supabase/storage-js',
-        'browser-image-compression'
-      ],
-      output: {
-        globals: {
-          'ipfs-http-client': 'IpfsHttpClient',
-          '@web3.storage/w3up-client': 'Web3Storage',
-          'multiformats': 'Multiformats',
-          'uint8arrays': 'Uint8arrays',
-          '@supabase/storage-js': 'SupabaseStorage',
-          'browser-image-compression': 'BrowserImageCompression'
-        }
-      }
+        'browser-image-compression',
+        'minio',
+        /^node:/,
+        'crypto',
+        'fs/promises',
+        'path',
+        'stream'
+      ]
     }
   },
   test: {
@@ -0,0 +1,22 @@
+export interface AppealConfig {
+  // Hours an appeal may spend in each state; a decided appeal can be escalated until its time is up
+  slaHours: {
+    submitted: number;
+    triaged: number;
+    in_review: number;
+    decided: number;
+    escalated: number;
+  };
+  slaCheckIntervalMinutes: number;
+}
+
+export const appealConfig: AppealConfig = {
+  slaHours: {
+    submitted: 24,
+    triaged: 24,
+    in_review: 72,
+    decided: 168,
+    escalated: 120,
+  },
+  slaCheckIntervalMinutes: 15,
+};
@@ -0,0 +1,62 @@
+-- Record who took each moderation action, so they can't review an appeal against it
+ALTER TABLE mod_actions
+ADD COLUMN IF NOT EXISTS moderator_did TEXT;
+
+-- Appeals Table
+CREATE TABLE IF NOT EXISTS appeals (
+    id UUID PRIMARY KEY,
+    action_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    evidence JSONB,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Appeal workflow state
+ALTER TABLE appeals
+ADD COLUMN IF NOT EXISTS state TEXT NOT NULL DEFAULT 'submitted' CHECK (state IN ('submitted', 'triaged', 'in_review', 'decided', 'escalated', 'final')),
+ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+ADD COLUMN IF NOT EXISTS skills TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS conflicted_ids TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS assignee_id TEXT,
+ADD COLUMN IF NOT EXISTS level INTEGER NOT NULL DEFAULT 1 CHECK (level IN (1, 2)),
+ADD COLUMN IF NOT EXISTS decision TEXT CHECK (decision IN ('approved', 'denied')),
+ADD COLUMN IF NOT EXISTS decision_reason TEXT,
+ADD COLUMN IF NOT EXISTS decided_by TEXT,
+ADD COLUMN IF NOT EXISTS escalation_reason TEXT,
+ADD COLUMN IF NOT EXISTS state_entered_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN IF NOT EXISTS deadline_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS breached_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Appeal Audit Trail Table, append only
+CREATE TABLE appeal_events (
+    seq BIGSERIAL PRIMARY KEY,
+    id UUID NOT NULL UNIQUE,
+    appeal_id UUID NOT NULL REFERENCES appeals(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('submitted', 'transition', 'assigned', 'sla_breach', 'note')),
+    from_state TEXT,
+    to_state TEXT,
+    actor_id TEXT,
+    details JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Appeal Reviewers Table
+CREATE TABLE appeal_reviewers (
+    did TEXT PRIMARY KEY,
+    skills TEXT[] DEFAULT '{}',
+    level INTEGER NOT NULL DEFAULT 1 CHECK (level IN (1, 2)),
+    active BOOLEAN DEFAULT true,
+    max_load INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for appeals
+CREATE INDEX IF NOT EXISTS idx_appeals_user ON appeals(user_id);
+CREATE INDEX IF NOT EXISTS idx_appeals_action ON appeals(action_id);
+CREATE INDEX idx_appeals_state ON appeals(state, deadline_at);
+CREATE INDEX idx_appeals_assignee ON appeals(assignee_id) WHERE assignee_id IS NOT NULL;
+CREATE INDEX idx_appeal_events_appeal ON appeal_events(appeal_id, seq);
@@ -0,0 +1,44 @@
+-- Ledger Entries Table, append only
+CREATE TABLE ledger_entries (
+    id UUID PRIMARY KEY,
+    idempotency_key TEXT NOT NULL UNIQUE,
+    type TEXT NOT NULL CHECK (type IN ('tip', 'subscription', 'payment', 'platform_fee', 'settlement', 'refund', 'payout', 'transfer', 'reversal')),
+    postings JSONB NOT NULL,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    related_entry_id UUID REFERENCES ledger_entries(id),
+    description TEXT,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Ledger Postings Table, one row per posting so entries can be found by account
+CREATE TABLE ledger_postings (
+    id BIGSERIAL PRIMARY KEY,
+    entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+    account TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+    amount NUMERIC NOT NULL CHECK (amount > 0),
+    currency TEXT NOT NULL
+);
+
+-- Create indexes for the ledger
+CREATE INDEX idx_ledger_entries_related_entry ON ledger_entries(related_entry_id);
+CREATE INDEX idx_ledger_entries_occurred_at ON ledger_entries(occurred_at);
+CREATE INDEX idx_ledger_postings_entry ON ledger_postings(entry_id);
+CREATE INDEX idx_ledger_postings_account ON ledger_postings(account text_pattern_ops);
+
+-- Entries and postings can never be changed once written
+CREATE OR REPLACE FUNCTION reject_ledger_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Ledger % rows are append only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_entries_append_only
+    BEFORE UPDATE OR DELETE ON ledger_entries
+    FOR EACH ROW EXECUTE FUNCTION reject_ledger_change();
+
+CREATE TRIGGER ledger_postings_append_only
+    BEFORE UPDATE OR DELETE ON ledger_postings
+    FOR EACH ROW EXECUTE FUNCTION reject_ledger_change();
@@ -1,11 +1,26 @@
 import { writable, type Writable } from 'svelte/store';
+import {
+  Ledger,
+  Money,
+  type AccountBalance,
+  type Posting
+} from '@tiktok-toe/shared/ledger';
+import { ledger } from '../../../services/ledger';
 import type { Transaction } from './types';
 
+const WALLET = 'asset:wallet:available';
+const STAKED = 'asset:wallet:staked';
+const EXTERNAL = 'equity:wallet:external';
+const REWARDS = 'revenue:wallet:rewards';
+const FEES = 'expense:wallet:fees';
+
 class WalletService {
   private _transactionHistory: Writable<Transaction[]>;
+  private _balances: Writable<AccountBalance[]>;
 
-  constructor() {
+  constructor(private ledger: Ledger) {
     this._transactionHistory = writable([]);
+    this._balances = writable([]);
     this.loadTransactionHistory();
   }
 
@@ -15,6 +30,13 @@ class WalletService {
     };
   }
 
+  // Derived from the completed transactions, one row per wallet account and currency
+  get balances() {
+    return {
+      subscribe: this._balances.subscribe
+    };
+  }
+
   private async loadTransactionHistory() {
     // TODO: Replace with actual API call
     const mockTransactions: Transaction[] = [
@@ -22,53 +44,101 @@ class WalletService {
         id: '1',
         type: 'receive',
         status: 'completed',
-        amount: 0.5,
+        amount: Money.of('0.5', 'ETH'),
         currency: 'ETH',
         timestamp: new Date().getTime() - 1000 * 60 * 5, // 5 minutes ago
-        fee: 0.001
+        fee: Money.of('0.001', 'ETH')
       },
       {
         id: '2',
         type: 'send',
         status: 'pending',
-        amount: 100,
+        amount: Money.of('100', 'USD'),
         currency: 'USD',
         timestamp: new Date().getTime() - 1000 * 60 * 30, // 30 minutes ago
-        fee: 1
+        fee: Money.of('1', 'USD')
       },
       {
         id: '3',
         type: 'exchange',
         status: 'completed',
-        amount: 1000,
+        amount: Money.of('1000', 'USDC'),
         currency: 'USDC',
         timestamp: new Date().getTime() - 1000 * 60 * 60, // 1 hour ago
-        fee: 2.5
+        fee: Money.of('2.5', 'USDC')
       },
       {
         id: '4',
         type: 'stake',
         status: 'completed',
-        amount: 32,
+        amount: Money.of('32', 'ETH'),
         currency: 'ETH',
         timestamp: new Date().getTime() - 1000 * 60 * 60 * 24, // 1 day ago
-        fee: 0
+        fee: Money.of('0', 'ETH')
       },
       {
         id: '5',
         type: 'reward',
         status: 'completed',
-        amount: 0.01,
+        amount: Money.of('0.01', 'ETH'),
         currency: 'ETH',
         timestamp: new Date().getTime() - 1000 * 60 * 60 * 48, // 2 days ago
-        fee: 0
+        fee: Money.of('0', 'ETH')
       }
     ];
 
     this._transactionHistory.set(mockTransactions);
+    await this.bookTransactions(mockTransactions);
+  }
+
+  private async bookTransactions(transactions: Transaction[]) {
+    try {
+      for (const transaction of transactions) {
+        if (transaction.status !== 'completed') continue;
+
+        const postings = this.postingsFor(transaction);
+        if (!postings.length) continue;
+
+        // Keyed by transaction id, so reloading the history never double-books
+        await this.ledger.post({
+          idempotencyKey: `wallet:${transaction.id}`,
+          type: transaction.type === 'reward' ? 'payment' : 'transfer',
+          postings,
+          occurredAt: new Date(transaction.timestamp).toISOString(),
+          metadata: { walletTransactionType: transaction.type }
+        });
+      }
+
+      this._balances.set(await this.ledger.balances('asset:wallet:'));
+    } catch (error) {
+      console.error('Failed to book wallet transactions:', error);
+    }
+  }
+
+  private postingsFor(transaction: Transaction): Posting[] {
+    const { amount, fee } = transaction;
+    const move = (debit: string, credit: string, value: Money): Posting[] => [
+      { account: debit, direction: 'debit', amount: value },
+      { account: credit, direction: 'credit', amount: value }
+    ];
+
+    // An exchange only records the currency it was paid in, so just its fee is booked
+    const principal: Record<Transaction['type'], Posting[]> = {
+      receive: move(WALLET, EXTERNAL, amount),
+      send: move(EXTERNAL, WALLET, amount),
+      stake: move(STAKED, WALLET, amount),
+      unstake: move(WALLET, STAKED, amount),
+      reward: move(WALLET, REWARDS, amount),
+      exchange: []
+    };
+
+    return [
+      ...(amount.isPositive() ? principal[transaction.type] : []),
+      ...(fee.isPositive() ? move(FEES, WALLET, fee) : [])
+    ];
   }
 
   // Add more wallet-related methods here
 }
 
-export const walletService = new WalletService(); 
\ No newline at end of file
+export const walletService = new WalletService(ledger); 
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { Money } from '@tiktok-toe/shared/ledger';
+
 export type TransactionType = 'send' | 'receive' | 'exchange' | 'stake' | 'unstake' | 'reward';
 export type TransactionStatus = 'pending' | 'completed' | 'failed';
 
@@ -5,9 +7,9 @@ export interface Transaction {
   id: string;
   type: TransactionType;
   status: TransactionStatus;
-  amount: number;
+  amount: Money;
   currency: string;
   timestamp: number;
-  fee: number;
+  fee: Money;
   metadata?: Record<string, any>;
 } 
\ No newline at end of file
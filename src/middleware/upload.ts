@@ -1,8 +1,13 @@
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
 import { Bucket, Storage } from '@google-cloud/storage';
-import { NextFunction, Request } from 'express';
-import multer, { FileFilterCallback, Multer } from 'multer';
+import { MediaInfo, validateMedia } from '@lena/moderation/media';
+import { NextFunction, Request, Response } from 'express';
 
 import { config } from '../config';
+import { createTusHandler } from '../services/uploads/tusHandler';
+import { FileUploadStore } from '../services/uploads/uploadStore';
 
 // Initialize Google Cloud Storage
 const storage: Storage = new Storage({
@@ -12,69 +17,106 @@ const storage: Storage = new Storage({
 
 const bucket: Bucket = storage.bucket(config.gcp.storageBucket);
 
-// Configure multer storage as a constant
-const multerStorage: multer.StorageEngine = multer.memoryStorage();
+// Chunks land on local disk until the upload is complete, never in memory
+export const uploadStore = new FileUploadStore(
+  process.env.UPLOAD_DIR ?? path.join(process.cwd(), 'uploads', 'videos')
+);
 
-// Configure file filter for video uploads, we need to check the types
-const fileFilter = (file: Express.Multer.File, cb: FileFilterCallback) => {
+// Creation-time check for video uploads, we need to check the types
+const validateVideoMetadata = (metadata: Record<string, string>) => {
   // Accept video files only
-  if (file.mimetype.startsWith('video/')) {
-    cb(null, true);
-  } else {
-    cb(new Error('Only video files are allowed'));
+  if (!metadata.filetype?.startsWith('video/')) {
+    return 'Only video files are allowed';
   }
+  return undefined;
 };
 
-// Configure upload middleware
-const upload: Multer = multer({
-  storage: multerStorage, // Correctly using the constant
-  fileFilter: fileFilter,
-  limits: {
-    fileSize: 100 * 1024 * 1024, // 100MB max file size
-  },
+// Configure the tus resumable upload endpoint
+export const videoUpload = createTusHandler({
+  store: uploadStore,
+  basePath: '/api/videos/uploads',
+  maxSize: 2 * 1024 * 1024 * 1024, // 2GB max file size
+  validateMetadata: validateVideoMetadata,
 });
 
-// Middleware to handle file upload to Google Cloud Storage
+// Abandoned uploads are swept hourly
+setInterval(() => {
+  videoUpload.removeExpired().catch(error => {
+    console.error('Failed to remove expired uploads:', error);
+  });
+}, 60 * 60 * 1000).unref();
+
+// Middleware to check a finished upload is really the video it claims to be
+export const validateVideoUpload = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.upload) {
+      throw new Error('No file uploaded');
+    }
+
+    const { id, size, metadata } = req.upload;
+    const result = await validateMedia(
+      { size, read: (offset, length) => uploadStore.readRange(id, offset, length) },
+      {
+        declaredType: metadata.filetype,
+        allowedKinds: ['video'],
+      }
+    );
+
+    if (!result.valid) {
+      await uploadStore.remove(id);
+      return res.status(422).json({ error: 'Invalid video file', reasons: result.reasons });
+    }
+
+    req.media = result.info;
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+// Middleware to move a finished upload to Google Cloud Storage
 export const uploadToGCS = async (
-  req: Request, next: NextFunction
+  req: Request,
+  _res: Response,
+  next: NextFunction
 ) => {
   try {
-    if (!req.file) {
+    if (!req.upload) {
       throw new Error('No file uploaded');
     }
 
-    const blob = bucket.file(`videos/${Date.now()}-${req.file.originalname}`);
-    const blobStream = blob.createWriteStream({
-      resumable: false,
-      metadata: {
-        contentType: req.file.mimetype,
-      },
-    });
-
-    blobStream.on('error', err => {
-      next(err);
-    });
-
-    blobStream.on('finish', () => {
-      const publicUrl = `https://storage.googleapis.com/${bucket.name}/${blob.name}`;
-      req.fileUrl = publicUrl;
-      next();
-    });
-
-    blobStream.end(req.file.buffer);
+    const { id, metadata } = req.upload;
+    const filename = path.basename(metadata.filename ?? id);
+    const blob = bucket.file(`videos/${Date.now()}-${filename}`);
+
+    await pipeline(
+      uploadStore.read(id),
+      blob.createWriteStream({
+        resumable: true,
+        metadata: {
+          contentType: metadata.filetype,
+        },
+      })
+    );
+    await uploadStore.remove(id);
+
+    req.fileUrl = `https://storage.googleapis.com/${bucket.name}/${blob.name}`;
+    next();
   } catch (error) {
     next(error);
   }
 };
 
-// Export configured multer middleware
-export const videoUpload = upload.single('video');
-
-// Extend Express Request interface to include fileUrl
+// Extend Express Request interface to include fileUrl and the sniffed media info
 declare global {
   namespace Express {
     interface Request {
       fileUrl?: string;
+      media?: MediaInfo;
     }
   }
 }
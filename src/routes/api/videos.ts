@@ -12,7 +12,7 @@ import {
   getComments,
 } from '../../controllers/videos';
 import { requireAuth } from '../../middleware/requireAuth';
-import { upload } from '../../middleware/upload';
+import { uploadToGCS, validateVideoUpload, videoUpload } from '../../middleware/upload';
 import { validateRequest } from '../../middleware/validateRequest';
 
 const router = express.Router();
@@ -35,14 +35,41 @@ const commentValidation = [
 ];
 
 // Video routes
+// Uploads use the tus resumable protocol: POST creates the upload with the
+// video fields in Upload-Metadata, PATCH streams chunks, and the final chunk
+// hands the finished file to uploadVideo.
+router.options('/', videoUpload.options);
 router.post(
   '/',
   requireAuth,
-  upload.single('video'),
+  videoUpload.requireTusVersion,
+  videoUpload.parseMetadata,
   videoValidation,
   validateRequest,
+  videoUpload.create
+);
+router.options('/uploads/:id', videoUpload.options);
+router.head(
+  '/uploads/:id',
+  requireAuth,
+  videoUpload.requireTusVersion,
+  videoUpload.head
+);
+router.patch(
+  '/uploads/:id',
+  requireAuth,
+  videoUpload.requireTusVersion,
+  videoUpload.patch,
+  validateVideoUpload,
+  uploadToGCS,
   uploadVideo
 );
+router.delete(
+  '/uploads/:id',
+  requireAuth,
+  videoUpload.requireTusVersion,
+  videoUpload.terminate
+);
 router.get('/feed', getFeedVideos);
 router.get('/:id', getVideoById);
 router.post('/:id/like', requireAuth, likeVideo);
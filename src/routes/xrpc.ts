@@ -0,0 +1,68 @@
+import { Router } from 'express';
+
+import {
+  FeedGenerator,
+  FeedGeneratorError,
+  feedGenerator,
+} from '../services/feeds/FeedGenerator';
+
+export function createFeedGeneratorRouter(generator: FeedGenerator) {
+  const router = Router();
+
+  // did:web resolution for the generator's service DID
+  router.get('/.well-known/did.json', (_req, res) => {
+    if (!generator.serviceDid.startsWith('did:web:')) {
+      return res.sendStatus(404);
+    }
+    const hostname = generator.serviceDid.slice('did:web:'.length);
+    return res.json({
+      '@context': ['https://www.w3.org/ns/did/v1'],
+      id: generator.serviceDid,
+      service: [
+        {
+          id: '#bsky_fg',
+          type: 'BskyFeedGenerator',
+          serviceEndpoint: `https://${hostname}`,
+        },
+      ],
+    });
+  });
+
+  router.get('/xrpc/app.bsky.feed.describeFeedGenerator', (_req, res) => {
+    res.json(generator.describeFeedGenerator());
+  });
+
+  router.get('/xrpc/app.bsky.feed.getFeedSkeleton', (req, res) => {
+    const { feed, limit, cursor } = req.query;
+    if (typeof feed !== 'string') {
+      return res
+        .status(400)
+        .json({ error: 'InvalidRequest', message: 'feed parameter is required' });
+    }
+
+    try {
+      return res.json(
+        generator.getFeedSkeleton({
+          feed,
+          limit: typeof limit === 'string' ? Number(limit) : undefined,
+          cursor: typeof cursor === 'string' ? cursor : undefined,
+        })
+      );
+    } catch (error) {
+      if (error instanceof FeedGeneratorError) {
+        return res
+          .status(error.status)
+          .json({ error: error.error, message: error.message });
+      }
+      return res
+        .status(500)
+        .json({ error: 'InternalServerError', message: 'Failed to build feed' });
+    }
+  });
+
+  return router;
+}
+
+// Skeletons are only as good as the index behind them, so whatever mounts this
+// router should also call startFeedIndexer()
+export default createFeedGeneratorRouter(feedGenerator);
@@ -4,6 +4,20 @@ import { Datastore } from '@google-cloud/datastore';
 import { config } from '../config';
 
 import { completeAnalytics } from './completeAnalytics';
+import { analyzeExperiment, comparisonKey } from './experiments/analysis';
+import {
+  AudienceFilter,
+  ExperimentLayer,
+  LayerAllocation,
+  decideAssignment,
+  validateLayerAllocation,
+} from './experiments/assignment';
+import { BigQueryExperimentDataSource } from './experiments/bigQueryDataSource';
+import {
+  ExperimentDataSource,
+  ExperimentObservation,
+  LocalExperimentDataSource,
+} from './experiments/dataSource';
 import { performanceMonitoring } from './performanceMonitoring';
 
 interface Experiment {
@@ -13,6 +27,10 @@ interface Experiment {
   status: 'draft' | 'running' | 'paused' | 'completed';
   startDate: string;
   endDate?: string;
+  /** Hash salt for bucketing; defaults to the experiment id */
+  salt?: string;
+  /** Makes the experiment mutually exclusive with others in the same layer */
+  layer?: LayerAllocation;
   variants: Array<{
     id: string;
     name: string;
@@ -20,12 +38,11 @@ interface Experiment {
     weight: number;
     config: Record<string, any>;
   }>;
+  /** Variant every other variant is compared with; defaults to the first */
+  controlVariantId?: string;
   targetAudience: {
-    filters: Array<{
-      field: string;
-      operator: 'equals' | 'contains' | 'gt' | 'lt' | 'between';
-      value: any;
-    }>;
+    filters: AudienceFilter[];
+    /** Share of eligible users enrolled, 0-100; safe to raise while running */
     percentage: number;
   };
   metrics: Array<{
@@ -44,11 +61,23 @@ interface Experiment {
           value: number;
           confidence: number;
           improvement?: number;
+          /** Fixed-horizon p-value, for reference only */
+          pValue?: number;
+          /** Always-valid mSPRT p-value; a running minimum across analyses */
+          sequentialPValue?: number;
+          adjustedPValue?: number;
+          confidenceInterval?: [number, number];
+          significant?: boolean;
         }
       >;
     }>;
     winner?: string;
     confidence: number;
+    sampleRatio?: {
+      pValue: number;
+      mismatch: boolean;
+    };
+    analyzedAt?: string;
   };
 }
 
@@ -57,7 +86,11 @@ interface ExperimentAssignment {
   experimentId: string;
   variantId: string;
   timestamp: string;
+  /** First time the user actually saw the experiment; analysis only counts exposed users */
+  exposedAt?: string;
   converted: boolean;
+  /** Pre-exposure metric values, used for CUPED variance reduction */
+  covariates?: Record<string, number>;
   events: Array<{
     type: string;
     timestamp: string;
@@ -70,9 +103,11 @@ export class ABTestingService {
   private datastore: Datastore;
   private bigquery: BigQuery;
   private experiments: Map<string, Experiment>;
+  private layers: Map<string, ExperimentLayer>;
   private assignments: Map<string, ExperimentAssignment>;
+  private dataSource: ExperimentDataSource;
   private readonly ANALYSIS_INTERVAL = 3600000; // 1 hour
-  private readonly CONFIDENCE_THRESHOLD = 0.95;
+  private readonly SIGNIFICANCE_LEVEL = 0.05;
 
   private constructor() {
     this.datastore = new Datastore({
@@ -84,7 +119,15 @@ export class ABTestingService {
       keyFilename: config.gcp.keyFile,
     });
     this.experiments = new Map();
+    this.layers = new Map();
     this.assignments = new Map();
+    this.dataSource =
+      process.env.EXPERIMENT_ANALYSIS_SOURCE === 'local'
+        ? new LocalExperimentDataSource(() => this.localObservations())
+        : new BigQueryExperimentDataSource(
+            this.bigquery,
+            `${config.gcp.projectId}.analytics`
+          );
 
     this.initializeService();
   }
@@ -101,6 +144,30 @@ export class ABTestingService {
     this.startPeriodicAnalysis();
   }
 
+  setDataSource(dataSource: ExperimentDataSource): void {
+    this.dataSource = dataSource;
+  }
+
+  // Layer Management
+  async createLayer(params: Omit<ExperimentLayer, 'id'>): Promise<ExperimentLayer> {
+    if (params.holdoutPercentage < 0 || params.holdoutPercentage > 100) {
+      throw new Error('Holdout percentage must be between 0 and 100');
+    }
+
+    const layer: ExperimentLayer = {
+      ...params,
+      id: crypto.randomUUID(),
+    };
+
+    await this.datastore.save({
+      key: this.datastore.key(['ExperimentLayer', layer.id]),
+      data: layer,
+    });
+    this.layers.set(layer.id, layer);
+
+    return layer;
+  }
+
   // Experiment Management
   async createExperiment(
     params: Omit<Experiment, 'id' | 'status' | 'results'>
@@ -170,18 +237,45 @@ export class ABTestingService {
     });
   }
 
+  async updateTrafficPercentage(
+    experimentId: string,
+    percentage: number
+  ): Promise<void> {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) {
+      throw new Error('Experiment not found');
+    }
+    if (percentage < 0 || percentage > 100) {
+      throw new Error('Traffic percentage must be between 0 and 100');
+    }
+
+    // Bucketing is monotonic in the percentage, so a ramp never reshuffles
+    // users who are already enrolled
+    experiment.targetAudience.percentage = percentage;
+    await this.persistExperiment(experiment);
+  }
+
   // Variant Assignment
+  /**
+   * Returns the user's variant, or null when the user is not enrolled
+   * (outside the audience, held out, in another experiment of the layer, or
+   * beyond the traffic ramp). Assignment is not exposure: call logExposure
+   * when the user actually sees the variant.
+   */
   async assignVariant(params: {
     userId: string;
     experimentId: string;
-  }): Promise<string> {
+    attributes?: Record<string, unknown>;
+    /** Pre-experiment values of the experiment's metrics, if known */
+    covariates?: Record<string, number>;
+  }): Promise<string | null> {
     const experiment = this.experiments.get(params.experimentId);
     if (!experiment || experiment.status !== 'running') {
       throw new Error('Experiment not running');
     }
 
-    // Check if user is already assigned
-    const existingAssignment = this.getAssignment(
+    // Stored assignments stay sticky even if weights change mid-experiment
+    const existingAssignment = await this.getAssignment(
       params.userId,
       params.experimentId
     );
@@ -189,19 +283,24 @@ export class ABTestingService {
       return existingAssignment.variantId;
     }
 
-    // Check if user matches target audience
-    if (!this.matchesTargetAudience(params.userId, experiment.targetAudience)) {
-      throw new Error('User does not match target audience');
+    const decision = decideAssignment(
+      experiment,
+      params.userId,
+      params.attributes,
+      experiment.layer && this.layers.get(experiment.layer.layerId)
+    );
+    if (!decision.enrolled) {
+      return null;
     }
 
-    // Randomly assign variant based on weights
-    const variantId = this.selectVariant(experiment.variants);
+    const variantId = decision.variantId;
     const assignment: ExperimentAssignment = {
       userId: params.userId,
       experimentId: params.experimentId,
       variantId,
       timestamp: new Date().toISOString(),
       converted: false,
+      covariates: params.covariates,
       events: [],
     };
 
@@ -229,6 +328,41 @@ export class ABTestingService {
     return variantId;
   }
 
+  async logExposure(params: {
+    userId: string;
+    experimentId: string;
+  }): Promise<void> {
+    const assignment = await this.getAssignment(
+      params.userId,
+      params.experimentId
+    );
+    if (!assignment) {
+      throw new Error('No experiment assignment found');
+    }
+
+    // Only the first exposure matters for analysis
+    if (assignment.exposedAt) {
+      return;
+    }
+
+    assignment.exposedAt = new Date().toISOString();
+    await this.persistAssignment(assignment);
+
+    await completeAnalytics.trackEvent({
+      type: 'experiment_exposure',
+      userId: params.userId,
+      data: {
+        experimentId: params.experimentId,
+        variantId: assignment.variantId,
+      },
+      metadata: {
+        service: 'ab-testing',
+        environment: config.app.env,
+        version: '1.0.0',
+      },
+    });
+  }
+
   // Event Tracking
   async trackEvent(params: {
     userId: string;
@@ -236,7 +370,10 @@ export class ABTestingService {
     type: string;
     data: Record<string, any>;
   }): Promise<void> {
-    const assignment = this.getAssignment(params.userId, params.experimentId);
+    const assignment = await this.getAssignment(
+      params.userId,
+      params.experimentId
+    );
     if (!assignment) {
       throw new Error('No experiment assignment found');
     }
@@ -273,7 +410,10 @@ export class ABTestingService {
     experimentId: string;
     data?: Record<string, any>;
   }): Promise<void> {
-    const assignment = this.getAssignment(params.userId, params.experimentId);
+    const assignment = await this.getAssignment(
+      params.userId,
+      params.experimentId
+    );
     if (!assignment) {
       throw new Error('No experiment assignment found');
     }
@@ -343,6 +483,28 @@ export class ABTestingService {
     if (!experiment.metrics.some(m => m.priority === 'primary')) {
       throw new Error('At least one primary metric is required');
     }
+
+    if (
+      experiment.controlVariantId &&
+      !experiment.variants.some(v => v.id === experiment.controlVariantId)
+    ) {
+      throw new Error('Control variant not found');
+    }
+
+    // Validate layer allocation against the other live experiments in the layer
+    if (experiment.layer) {
+      const layer = this.layers.get(experiment.layer.layerId);
+      if (!layer) {
+        throw new Error('Layer not found');
+      }
+      validateLayerAllocation(
+        experiment,
+        layer,
+        Array.from(this.experiments.values()).filter(
+          e => e.status !== 'completed'
+        )
+      );
+    }
   }
 
   private async persistExperiment(experiment: Experiment): Promise<void> {
@@ -367,6 +529,13 @@ export class ABTestingService {
   }
 
   private async loadExperiments(): Promise<void> {
+    const [layers] = await this.datastore.runQuery(
+      this.datastore.createQuery('ExperimentLayer')
+    );
+    layers.forEach((layer: ExperimentLayer) => {
+      this.layers.set(layer.id, layer);
+    });
+
     const query = this.datastore.createQuery('Experiment');
     const [experiments] = await this.datastore.runQuery(query);
 
@@ -375,91 +544,129 @@ export class ABTestingService {
     });
   }
 
-  private getAssignment(
+  private async getAssignment(
     userId: string,
     experimentId: string
-  ): ExperimentAssignment | undefined {
-    return this.assignments.get(this.getAssignmentKey(userId, experimentId));
+  ): Promise<ExperimentAssignment | undefined> {
+    const assignmentKey = this.getAssignmentKey(userId, experimentId);
+    const cached = this.assignments.get(assignmentKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Another instance (or this one, before a restart) may have assigned the user
+    const [stored] = await this.datastore.get(
+      this.datastore.key(['ExperimentAssignment', assignmentKey])
+    );
+    if (stored) {
+      this.assignments.set(assignmentKey, stored);
+    }
+    return stored;
   }
 
   private getAssignmentKey(userId: string, experimentId: string): string {
     return `${userId}:${experimentId}`;
   }
 
-  private matchesTargetAudience(
-    _userId: string,
-    _targetAudience: Experiment['targetAudience']
-  ): boolean {
-    // Implementation would depend on user data structure and available attributes
-    return true; // Placeholder
-  }
-
-  private selectVariant(variants: Experiment['variants']): string {
-    const random = Math.random();
-    let cumulativeWeight = 0;
-
-    for (const variant of variants) {
-      cumulativeWeight += variant.weight;
-      if (random <= cumulativeWeight) {
-        return variant.id;
+  /** Observations from assignments cached on this instance, for local analysis */
+  private *localObservations(): Iterable<ExperimentObservation> {
+    for (const assignment of this.assignments.values()) {
+      const experiment = this.experiments.get(assignment.experimentId);
+      if (!experiment) continue;
+
+      const metrics: Record<string, number> = {};
+      for (const metric of experiment.metrics) {
+        metrics[metric.name] =
+          metric.type === 'conversion'
+            ? Number(assignment.converted)
+            : assignment.events
+                .filter(event => event.type === metric.name)
+                .reduce(
+                  (sum, event) => sum + (Number(event.data.value) || 0),
+                  0
+                );
       }
-    }
 
-    return variants[variants.length - 1].id;
+      yield {
+        experimentId: assignment.experimentId,
+        userId: assignment.userId,
+        variantId: assignment.variantId,
+        exposed: Boolean(assignment.exposedAt),
+        metrics,
+        covariates: assignment.covariates,
+      };
+    }
   }
 
   private async analyzeExperiment(experiment: Experiment): Promise<void> {
     try {
-      const query = `
-        SELECT
-          variantId,
-          COUNT(DISTINCT userId) as users,
-          COUNT(DISTINCT CASE WHEN converted THEN userId END) as conversions,
-          AVG(CASE WHEN converted THEN 1 ELSE 0 END) as conversion_rate
-        FROM \`${config.gcp.projectId}.analytics.experiment_assignments\`
-        WHERE experimentId = @experimentId
-        GROUP BY variantId
-      `;
-
-      const [rows] = await this.bigquery.query({
-        query,
-        params: { experimentId: experiment.id },
+      // Always-valid p-values only ever decrease; carry the previous minimum forward
+      const previousSequentialPValues: Record<string, number> = {};
+      for (const variant of experiment.results?.variants ?? []) {
+        for (const [metric, result] of Object.entries(variant.metrics)) {
+          if (result.sequentialPValue !== undefined) {
+            previousSequentialPValues[comparisonKey(variant.id, metric)] =
+              result.sequentialPValue;
+          }
+        }
+      }
+
+      const analysis = await analyzeExperiment(experiment, this.dataSource, {
+        alpha: this.SIGNIFICANCE_LEVEL,
+        previousSequentialPValues,
       });
 
-      const controlVariant = rows[0];
       const results: Experiment['results'] = {
-        sampleSize: rows.reduce((sum: number, row: any) => sum + row.users, 0),
-        variants: rows.map((row: any) => ({
-          id: row.variantId,
-          metrics: {
-            conversion_rate: {
-              value: row.conversion_rate,
-              confidence: this.calculateConfidence(row, controlVariant),
-              improvement:
-                row === controlVariant
-                  ? 0
-                  : ((row.conversion_rate - controlVariant.conversion_rate) /
-                      controlVariant.conversion_rate) *
-                    100,
-            },
-          },
+        sampleSize: analysis.sampleSize,
+        variants: experiment.variants.map(variant => ({
+          id: variant.id,
+          metrics: Object.fromEntries(
+            Object.entries(analysis.means[variant.id] ?? {}).map(
+              ([metric, value]) => {
+                const comparison = analysis.comparisons.find(
+                  c => c.variantId === variant.id && c.metric === metric
+                );
+                if (!comparison) {
+                  return [metric, { value, confidence: 0 }];
+                }
+                return [
+                  metric,
+                  {
+                    value,
+                    confidence: 1 - comparison.adjustedPValue,
+                    improvement:
+                      comparison.relativeLift === undefined
+                        ? undefined
+                        : comparison.relativeLift * 100,
+                    pValue: comparison.pValue,
+                    sequentialPValue: comparison.sequentialPValue,
+                    adjustedPValue: comparison.adjustedPValue,
+                    confidenceInterval: comparison.confidenceInterval,
+                    significant: comparison.significant,
+                  },
+                ];
+              }
+            )
+          ),
         })),
-        confidence: 0,
+        winner: analysis.winner,
+        confidence: analysis.confidence,
+        sampleRatio: {
+          pValue: analysis.sampleRatio.pValue,
+          mismatch: analysis.sampleRatio.mismatch,
+        },
+        analyzedAt: new Date().toISOString(),
       };
 
-      // Find winner if confidence threshold is met
-      const significantVariants = results.variants.filter(
-        v => v.metrics.conversion_rate.confidence > this.CONFIDENCE_THRESHOLD
-      );
-
-      if (significantVariants.length > 0) {
-        results.winner = significantVariants.reduce((a, b) =>
-          a.metrics.conversion_rate.value > b.metrics.conversion_rate.value
-            ? a
-            : b
-        ).id;
-        results.confidence = Math.max(
-          ...significantVariants.map(v => v.metrics.conversion_rate.confidence)
+      if (analysis.sampleRatio.mismatch) {
+        performanceMonitoring.recordError(
+          new Error('Sample ratio mismatch'),
+          {
+            operation: 'analyzeExperiment',
+            experimentId: experiment.id,
+            observed: analysis.sampleRatio.observed,
+            expected: analysis.sampleRatio.expected,
+          }
         );
       }
 
@@ -473,21 +680,6 @@ export class ABTestingService {
     }
   }
 
-  private calculateConfidence(variant: any, control: any): number {
-    // Implementation of statistical significance calculation
-    // This is a simplified version - in practice, you'd want to use a proper statistical library
-    const p1 = variant.conversion_rate;
-    const p2 = control.conversion_rate;
-    const n1 = variant.users;
-    const n2 = control.users;
-
-    const se = Math.sqrt((p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2);
-    const z = Math.abs(p1 - p2) / se;
-
-    // Convert z-score to confidence level
-    return 0.5 * (1 + Math.erf(z / Math.sqrt(2)));
-  }
-
   private startPeriodicAnalysis(): void {
     setInterval(async () => {
       const runningExperiments = Array.from(this.experiments.values()).filter(
@@ -498,11 +690,9 @@ export class ABTestingService {
         try {
           await this.analyzeExperiment(experiment);
 
-          // Auto-stop experiment if it has reached conclusive results
-          if (
-            experiment.results?.winner &&
-            experiment.results.confidence > this.CONFIDENCE_THRESHOLD
-          ) {
+          // Sequential p-values stay valid under repeated peeking, and a
+          // winner is never declared while the sample ratio is off
+          if (experiment.results?.winner) {
             await this.stopExperiment(experiment.id);
           }
         } catch (error) {
@@ -8,6 +8,8 @@ import { atproto } from './atproto';
 interface ModAction {
   type: 'warn' | 'mute' | 'block' | 'report';
   targetDid: string;
+  // Kept so whoever took the action can't review an appeal against it
+  moderatorDid?: string;
   reason: string;
   duration?: number; // in hours
   evidence?: {
@@ -128,12 +130,13 @@ class AdminService {
         await client.query(
           `
           INSERT INTO mod_actions 
-          (type, target_did, reason, duration, evidence, created_at)
-          VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)
+          (type, target_did, moderator_did, reason, duration, evidence, created_at)
+          VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
         `,
           [
             action.type,
             action.targetDid,
+            action.moderatorDid,
             action.reason,
             action.duration,
             action.evidence,
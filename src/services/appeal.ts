@@ -1,9 +1,20 @@
 import { RichText } from '@atproto/api';
 import { BskyAgent } from '@atproto/api';
-import { AppBskyFeedPost } from '@atproto/api';
+import {
+  AppealConflictError,
+  AppealWorkflow,
+  type AppealAuditExport,
+  type AppealEvent,
+  type AppealFilter,
+  type AppealPriority,
+  type AppealRecord,
+  type AppealStore,
+  type Reviewer,
+  type SlaBreach,
+} from '@lena/moderation/appeals';
 
 import { appealConfig } from '../config/appeal';
-import { query, transaction } from '../db';
+import { query } from '../db';
 import { Logger } from '../utils/logger';
 
 import { atproto } from './atproto';
@@ -38,11 +49,16 @@ export interface Appeal {
   reason: string;
   evidence?: AppealEvidence;
   status: 'pending' | 'approved' | 'denied';
-  reviewer_id?: string;
-  review_reason?: string;
-  review_action?: string;
+  state: AppealRecord['state'];
+  priority: AppealPriority;
+  assignee_id?: string;
+  level: 1 | 2;
+  decision?: 'approved' | 'denied';
+  decision_reason?: string;
+  decided_by?: string;
+  deadline_at?: string;
   created_at: string;
-  reviewed_at?: string;
+  updated_at?: string;
   action_type?: string;
   action_reason?: string;
   action_date?: string;
@@ -56,21 +72,229 @@ export interface AppealStats {
   pending_appeals: number;
   approved_appeals: number;
   denied_appeals: number;
+  escalated_appeals: number;
+  breached_appeals: number;
   avg_review_time: number;
 }
 
+const APPEAL_COLUMNS = [
+  'action_id',
+  'user_id',
+  'reason',
+  'evidence',
+  'status',
+  'state',
+  'priority',
+  'skills',
+  'conflicted_ids',
+  'assignee_id',
+  'level',
+  'decision',
+  'decision_reason',
+  'decided_by',
+  'escalation_reason',
+  'state_entered_at',
+  'deadline_at',
+  'breached_at',
+  'created_at',
+  'updated_at',
+  'version',
+];
+
+/**
+ * Appeals in the `appeals` table with their audit trail in
+ * `appeal_events`. The legacy status column is kept in step so existing
+ * reports keep working.
+ */
+class PostgresAppealStore implements AppealStore {
+  async create(appeal: AppealRecord): Promise<void> {
+    const values = toRow(appeal);
+    await query(
+      `
+      INSERT INTO appeals (id, ${APPEAL_COLUMNS.join(', ')})
+      VALUES ($1, ${APPEAL_COLUMNS.map((_, i) => `$${i + 2}`).join(', ')})
+    `,
+      [appeal.id, ...values]
+    );
+  }
+
+  async get(id: string): Promise<AppealRecord | null> {
+    const {
+      rows: [row],
+    } = await query(`SELECT * FROM appeals WHERE id = $1`, [id]);
+    return row ? fromRow(row) : null;
+  }
+
+  async update(appeal: AppealRecord, expectedVersion: number): Promise<void> {
+    const values = toRow(appeal);
+    const { rowCount } = await query(
+      `
+      UPDATE appeals
+      SET ${APPEAL_COLUMNS.map((column, i) => `${column} = $${i + 3}`).join(', ')}
+      WHERE id = $1 AND version = $2
+    `,
+      [appeal.id, expectedVersion, ...values]
+    );
+
+    if (rowCount === 0) {
+      throw new AppealConflictError(appeal.id);
+    }
+  }
+
+  async list(filter: AppealFilter = {}): Promise<AppealRecord[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.states) {
+      params.push(filter.states);
+      conditions.push(`state = ANY($${params.length})`);
+    }
+    for (const [column, value] of [
+      ['action_id', filter.subjectId],
+      ['user_id', filter.appellantId],
+      ['assignee_id', filter.assigneeId],
+    ]) {
+      if (value) {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    const { rows } = await query(
+      `
+      SELECT * FROM appeals
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at ASC
+    `,
+      params
+    );
+    return rows.map(fromRow);
+  }
+
+  async appendEvent(event: AppealEvent): Promise<void> {
+    await query(
+      `
+      INSERT INTO appeal_events (
+        id,
+        appeal_id,
+        type,
+        from_state,
+        to_state,
+        actor_id,
+        details,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `,
+      [
+        event.id,
+        event.appealId,
+        event.type,
+        event.from,
+        event.to,
+        event.actorId,
+        event.details ? JSON.stringify(event.details) : null,
+        event.at,
+      ]
+    );
+  }
+
+  async events(appealId: string): Promise<AppealEvent[]> {
+    const { rows } = await query(
+      `SELECT * FROM appeal_events WHERE appeal_id = $1 ORDER BY seq ASC`,
+      [appealId]
+    );
+    return rows.map((row: any) => ({
+      id: row.id,
+      appealId: row.appeal_id,
+      type: row.type,
+      from: row.from_state ?? undefined,
+      to: row.to_state ?? undefined,
+      actorId: row.actor_id ?? undefined,
+      at: new Date(row.created_at),
+      details: row.details ?? undefined,
+    }));
+  }
+}
+
+function toRow(appeal: AppealRecord): any[] {
+  const status =
+    appeal.state === 'final' && appeal.decision ? appeal.decision : 'pending';
+
+  return [
+    appeal.subjectId,
+    appeal.appellantId,
+    appeal.reason,
+    appeal.evidence ? JSON.stringify(appeal.evidence) : null,
+    status,
+    appeal.state,
+    appeal.priority,
+    appeal.skills,
+    appeal.conflictedIds,
+    appeal.assigneeId ?? null,
+    appeal.level,
+    appeal.decision ?? null,
+    appeal.decisionReason ?? null,
+    appeal.decidedBy ?? null,
+    appeal.escalationReason ?? null,
+    appeal.stateEnteredAt,
+    appeal.deadlineAt ?? null,
+    appeal.breachedAt ?? null,
+    appeal.createdAt,
+    appeal.updatedAt,
+    appeal.version,
+  ];
+}
+
+function fromRow(row: any): AppealRecord {
+  return {
+    id: row.id,
+    subjectId: row.action_id,
+    appellantId: row.user_id,
+    reason: row.reason,
+    evidence: row.evidence ?? undefined,
+    state: row.state,
+    priority: row.priority,
+    skills: row.skills ?? [],
+    conflictedIds: row.conflicted_ids ?? [],
+    assigneeId: row.assignee_id ?? undefined,
+    level: row.level,
+    decision: row.decision ?? undefined,
+    decisionReason: row.decision_reason ?? undefined,
+    decidedBy: row.decided_by ?? undefined,
+    escalationReason: row.escalation_reason ?? undefined,
+    stateEnteredAt: new Date(row.state_entered_at),
+    deadlineAt: row.deadline_at ? new Date(row.deadline_at) : undefined,
+    breachedAt: row.breached_at ? new Date(row.breached_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    version: row.version,
+  };
+}
+
+const HOUR = 60 * 60 * 1000;
+
 class AppealService {
   private static instance: AppealService;
   private agent: BskyAgent;
   private logger: Logger;
-  private readonly appealQueue: Map<string, Appeal>;
-  private readonly maxQueueSize: number;
+  private readonly workflow: AppealWorkflow;
+  private slaTimer?: NodeJS.Timeout;
 
   private constructor(agent: BskyAgent, logger: Logger) {
     this.agent = agent;
     this.logger = logger;
-    this.appealQueue = new Map();
-    this.maxQueueSize = appealConfig.maxQueueSize || 1000;
+    this.workflow = new AppealWorkflow({
+      store: new PostgresAppealStore(),
+      reviewers: () => this.getReviewers(),
+      sla: Object.fromEntries(
+        Object.entries(appealConfig.slaHours).map(([state, hours]) => [
+          state,
+          hours * HOUR,
+        ])
+      ),
+      onBreach: breach => this.alertBreach(breach),
+      onFinal: appeal => this.applyFinalDecision(appeal),
+    });
   }
 
   public static getInstance(agent: BskyAgent, logger: Logger): AppealService {
@@ -82,173 +306,101 @@ class AppealService {
 
   async submitAppeal(appeal: AppealRequest): Promise<{ id: string }> {
     try {
-      const result = await transaction(async client => {
-        // Check if user has unknown pending appeals
-        const {
-          rows: [pendingAppeal],
-        } = await client.query<{ id: string }>(
-          `
-          SELECT id FROM appeals
-          WHERE user_id = $1 AND status = 'pending'
-          LIMIT 1
-        `,
-          [appeal.userId]
-        );
+      const {
+        rows: [pendingAppeal],
+      } = await query(
+        `
+        SELECT id FROM appeals
+        WHERE user_id = $1 AND state <> 'final'
+        LIMIT 1
+      `,
+        [appeal.userId]
+      );
 
-        if (pendingAppeal) {
-          throw new Error('You already have a pending appeal');
-        }
-
-        // Create appeal record
-        const {
-          rows: [newAppeal],
-        } = await client.query<{ id: string }>(
-          `
-          INSERT INTO appeals (
-            action_id,
-            user_id,
-            reason,
-            evidence,
-            status,
-            created_at
-          ) VALUES ($1, $2, $3, $4, 'pending', CURRENT_TIMESTAMP)
-          RETURNING id
-        `,
-          [
-            appeal.actionId,
-            appeal.userId,
-            appeal.reason,
-            appeal.evidence ? JSON.stringify(appeal.evidence) : null,
-          ]
-        );
+      if (pendingAppeal) {
+        throw new Error('You already have a pending appeal');
+      }
 
-        // Store in queue
-        if (this.appealQueue.size >= this.maxQueueSize) {
-          const firstKey = this.appealQueue.keys().next().value;
-          this.appealQueue.delete(firstKey);
-        }
-        this.appealQueue.set(newAppeal.id, {
-          id: newAppeal.id,
-          action_id: appeal.actionId,
-          user_id: appeal.userId,
-          reason: appeal.reason,
-          evidence: appeal.evidence,
-          status: 'pending',
-          created_at: new Date().toISOString(),
-        });
+      const {
+        rows: [action],
+      } = await query(`SELECT moderator_did FROM mod_actions WHERE id = $1`, [
+        appeal.actionId,
+      ]);
 
-        // Notify admins via AT Protocol
-        const text = `New appeal submitted for review\nAppeal ID: ${newAppeal.id}\nUser: ${appeal.userId}`;
-        const richText = new RichText({ text });
-        await richText.detectFacets(this.agent);
-
-        await this.agent.app.bsky.feed.post.create(
-          { repo: process.env.ADMIN_DID as string },
-          {
-            text: richText.text,
-            facets: richText.facets,
-            createdAt: new Date().toISOString(),
-          }
-        );
+      if (!action) {
+        throw new Error('Moderation action not found');
+      }
 
-        return newAppeal;
+      const submitted = await this.workflow.submit({
+        subjectId: appeal.actionId,
+        appellantId: appeal.userId,
+        reason: appeal.reason,
+        evidence: appeal.evidence,
+        conflictedIds: action.moderator_did ? [action.moderator_did] : [],
       });
 
-      return result;
+      // Notify admins via AT Protocol
+      await this.post(
+        process.env.ADMIN_DID as string,
+        `New appeal submitted for review\nAppeal ID: ${submitted.id}\nUser: ${appeal.userId}`
+      );
+
+      return { id: submitted.id };
     } catch (error) {
       this.logger.error('Error submitting appeal:', error);
       throw error;
     }
   }
 
+  async triageAppeal(
+    appealId: string,
+    triagedBy: string,
+    triage: { priority?: AppealPriority; skills?: string[] } = {}
+  ): Promise<AppealRecord> {
+    try {
+      return await this.workflow.triage(appealId, triagedBy, triage);
+    } catch (error) {
+      this.logger.error('Error triaging appeal:', error);
+      throw error;
+    }
+  }
+
+  // Without a reviewer, the best free one is picked
+  async assignAppeal(
+    appealId: string,
+    assignedBy: string,
+    reviewerId?: string
+  ): Promise<AppealRecord> {
+    try {
+      return await this.workflow.assign(appealId, assignedBy, reviewerId);
+    } catch (error) {
+      this.logger.error('Error assigning appeal:', error);
+      throw error;
+    }
+  }
+
   async reviewAppeal(review: AppealReview): Promise<boolean> {
     try {
-      await transaction(async client => {
-        // Update appeal status
-        const {
-          rows: [appeal],
-        } = await client.query<Appeal>(
-          `
-          UPDATE appeals
-          SET 
-            status = $1,
-            reviewer_id = $2,
-            review_reason = $3,
-            review_action = $4,
-            reviewed_at = CURRENT_TIMESTAMP
-          WHERE id = $5
-          RETURNING *
-        `,
-          [
-            review.decision === 'approved' ? 'approved' : 'denied',
-            review.reviewerId,
-            review.reason,
-            review.actionTaken,
-            review.appealId,
-          ]
-        );
+      const appeal = await this.workflow.decide(
+        review.appealId,
+        review.reviewerId,
+        review.decision,
+        review.reason
+      );
 
-        if (!appeal) {
-          throw new Error('Appeal not found');
-        }
-
-        // If approved, reverse the original action
-        if (review.decision === 'approved') {
-          const {
-            rows: [action],
-          } = await client.query<{
-            id: string;
-            type: string;
-            target_did: string;
-          }>(
-            `
-            SELECT * FROM mod_actions WHERE id = $1
-          `,
-            [appeal.action_id]
-          );
-
-          if (action) {
-            switch (action.type) {
-              case 'block':
-                await this.agent.app.bsky.actor.block.delete({
-                  subject: action.target_did,
-                });
-                break;
-
-              case 'mute':
-                await this.agent.app.bsky.actor.mute.delete({
-                  actor: action.target_did,
-                });
-                break;
-            }
-          }
-        }
-
-        // Notify user via AT Protocol
-        const text = `Appeal ${review.appealId} has been ${review.decision}.\nReason: ${review.reason}`;
-        const richText = new RichText({ text });
-        await richText.detectFacets(this.agent);
-
-        await this.agent.app.bsky.feed.post.create(
-          { repo: appeal.user_id },
-          {
-            text: richText.text,
-            facets: richText.facets,
-            createdAt: new Date().toISOString(),
-          }
+      if (review.actionTaken) {
+        await this.workflow.addNote(
+          appeal.id,
+          review.reviewerId,
+          `Action taken: ${review.actionTaken}`
         );
+      }
 
-        // Update appeal status in queue
-        const updatedAppeal: Appeal = {
-          ...this.appealQueue.get(review.appealId),
-          status: review.decision === 'approved' ? 'approved' : 'denied',
-          reviewer_id: review.reviewerId,
-          review_reason: review.reason,
-          review_action: review.actionTaken,
-          reviewed_at: new Date().toISOString(),
-        };
-        this.appealQueue.set(review.appealId, updatedAppeal);
-      });
+      // Notify user via AT Protocol
+      await this.post(
+        appeal.appellantId,
+        `Appeal ${appeal.id} has been ${review.decision}.\nReason: ${review.reason}\nYou can ask for a second review until ${appeal.deadlineAt?.toISOString()}.`
+      );
 
       return true;
     } catch (error) {
@@ -257,19 +409,72 @@ class AppealService {
     }
   }
 
+  async escalateAppeal(
+    appealId: string,
+    userId: string,
+    reason: string
+  ): Promise<AppealRecord> {
+    try {
+      return await this.workflow.escalate(appealId, userId, reason);
+    } catch (error) {
+      this.logger.error('Error escalating appeal:', error);
+      throw error;
+    }
+  }
+
+  // The appellant accepting a decision, or the second-level reviewer deciding an escalated appeal
+  async finalizeAppeal(
+    appealId: string,
+    actorId: string,
+    review?: { decision: 'approved' | 'denied'; reason: string }
+  ): Promise<AppealRecord> {
+    try {
+      return await this.workflow.finalize(appealId, actorId, review);
+    } catch (error) {
+      this.logger.error('Error finalizing appeal:', error);
+      throw error;
+    }
+  }
+
+  async exportAuditTrail(appealId: string): Promise<AppealAuditExport> {
+    try {
+      return await this.workflow.exportAudit(appealId);
+    } catch (error) {
+      this.logger.error('Appeal audit export failed', { appealId, error });
+      throw error;
+    }
+  }
+
+  startSlaMonitor(): void {
+    if (this.slaTimer) return;
+
+    this.slaTimer = setInterval(async () => {
+      try {
+        await this.workflow.checkSla();
+      } catch (error) {
+        this.logger.error('Error checking appeal SLAs:', error);
+      }
+    }, appealConfig.slaCheckIntervalMinutes * 60 * 1000);
+  }
+
+  stopSlaMonitor(): void {
+    clearInterval(this.slaTimer);
+    this.slaTimer = undefined;
+  }
+
   async getAppealsByUser(userId: string): Promise<Appeal[]> {
     try {
-      const { rows } = await query<Appeal>(
+      const { rows } = await query(
         `
-        SELECT 
+        SELECT
           a.*,
           ma.type as action_type,
           ma.reason as action_reason,
           ma.created_at as action_date,
           bu.handle as reviewer_handle
         FROM appeals a
-        LEFT JOIN mod_actions ma ON a.action_id = ma.id
-        LEFT JOIN beta_users bu ON a.reviewer_id = bu.did
+        LEFT JOIN mod_actions ma ON a.action_id = ma.id::text
+        LEFT JOIN beta_users bu ON a.decided_by = bu.did
         WHERE a.user_id = $1
         ORDER BY a.created_at DESC
       `,
@@ -283,10 +488,12 @@ class AppealService {
     }
   }
 
-  async getPendingAppeals(): Promise<Appeal[]> {
+  // Appeals that haven't been decided yet, optionally only a reviewer's own
+  async getPendingAppeals(assigneeId?: string): Promise<Appeal[]> {
     try {
-      const { rows } = await query<Appeal>(`
-        SELECT 
+      const { rows } = await query(
+        `
+        SELECT
           a.*,
           ma.type as action_type,
           ma.reason as action_reason,
@@ -294,11 +501,14 @@ class AppealService {
           bu.handle as user_handle,
           bu.at_handle as user_at_handle
         FROM appeals a
-        LEFT JOIN mod_actions ma ON a.action_id = ma.id
+        LEFT JOIN mod_actions ma ON a.action_id = ma.id::text
         LEFT JOIN beta_users bu ON a.user_id = bu.did
-        WHERE a.status = 'pending'
-        ORDER BY a.created_at ASC
-      `);
+        WHERE a.state IN ('submitted', 'triaged', 'in_review', 'escalated')
+          AND ($1::text IS NULL OR a.assignee_id = $1)
+        ORDER BY a.deadline_at ASC NULLS LAST, a.created_at ASC
+      `,
+        [assigneeId ?? null]
+      );
 
       return rows;
     } catch (error) {
@@ -309,13 +519,19 @@ class AppealService {
 
   async getAppealStats(): Promise<AppealStats> {
     try {
-      const { rows } = await query<AppealStats>(`
+      const { rows } = await query(`
         SELECT
           COUNT(*) as total_appeals,
-          COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending_appeals,
-          COUNT(CASE WHEN status = 'approved' THEN 1 END) as approved_appeals,
-          COUNT(CASE WHEN status = 'denied' THEN 1 END) as denied_appeals,
-          AVG(EXTRACT(EPOCH FROM (reviewed_at - created_at))/3600)::numeric(10,2) as avg_review_time
+          COUNT(CASE WHEN state <> 'final' THEN 1 END) as pending_appeals,
+          COUNT(CASE WHEN state = 'final' AND decision = 'approved' THEN 1 END) as approved_appeals,
+          COUNT(CASE WHEN state = 'final' AND decision = 'denied' THEN 1 END) as denied_appeals,
+          COUNT(CASE WHEN level = 2 THEN 1 END) as escalated_appeals,
+          COUNT(CASE WHEN breached_at IS NOT NULL THEN 1 END) as breached_appeals,
+          AVG(
+            CASE WHEN state = 'final'
+            THEN EXTRACT(EPOCH FROM (updated_at - created_at))/3600
+            END
+          )::numeric(10,2) as avg_review_time
         FROM appeals
       `);
 
@@ -326,9 +542,9 @@ class AppealService {
     }
   }
 
-  async getAppeal(appealId: string): Promise<Appeal | null> {
+  async getAppeal(appealId: string): Promise<AppealRecord | null> {
     try {
-      const appeal = this.appealQueue.get(appealId);
+      const appeal = await this.workflow.get(appealId);
       if (!appeal) {
         this.logger.warn('Appeal not found', { appealId });
         return null;
@@ -340,105 +556,121 @@ class AppealService {
     }
   }
 
-  async getUserAppeals(userId: string): Promise<Appeal[]> {
+  private async getReviewers(): Promise<Reviewer[]> {
+    const { rows } = await query(
+      `SELECT did, skills, level, active, max_load FROM appeal_reviewers`
+    );
+    return rows.map((row: any) => ({
+      id: row.did,
+      skills: row.skills ?? [],
+      level: row.level,
+      active: row.active,
+      maxLoad: row.max_load ?? undefined,
+    }));
+  }
+
+  private async alertBreach(breach: SlaBreach): Promise<void> {
+    this.logger.warn('Appeal SLA breached', {
+      appealId: breach.appeal.id,
+      state: breach.state,
+      assigneeId: breach.appeal.assigneeId,
+      overdueHours: Math.round(breach.overdueBy / HOUR),
+    });
+
     try {
-      return Array.from(this.appealQueue.values())
-        .filter(appeal => appeal.user_id === userId)
-        .sort(
-          (a, b) =>
-            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        );
+      await this.post(
+        process.env.ADMIN_DID as string,
+        `Appeal ${breach.appeal.id} is overdue in ${breach.state}${breach.appeal.assigneeId ? ` (assigned to ${breach.appeal.assigneeId})` : ' and unassigned'}`
+      );
     } catch (error) {
-      this.logger.error('User appeals retrieval failed', { userId, error });
-      throw new Error(`Failed to get user appeals: ${error.message}`);
+      this.logger.error('Appeal SLA alert failed', {
+        appealId: breach.appeal.id,
+        error,
+      });
     }
   }
 
-  async updateAppealStatus(
-    appealId: string,
-    status: 'approved' | 'denied',
-    adminNotes?: string
-  ): Promise<Appeal> {
-    try {
-      const appeal = await this.getAppeal(appealId);
-      if (!appeal) {
-        throw new Error('Appeal not found');
-      }
-
-      const updatedAppeal: Appeal = {
-        ...appeal,
-        status,
-        admin_notes: adminNotes,
-        updated_at: new Date().toISOString(),
-      };
+  private async applyFinalDecision(appeal: AppealRecord): Promise<void> {
+    if (appeal.decision === 'approved') {
+      await this.reverseAction(appeal);
+    }
 
-      this.appealQueue.set(appealId, updatedAppeal);
+    await this.post(
+      appeal.appellantId,
+      `Appeal ${appeal.id} is final: ${appeal.decision}.\nReason: ${appeal.decisionReason}`
+    );
+  }
 
-      // If appeal is approved, restore content
-      if (status === 'approved') {
-        await this.handleApprovedAppeal(appeal);
+  private async reverseAction(appeal: AppealRecord): Promise<void> {
+    try {
+      const {
+        rows: [action],
+      } = await query(`SELECT * FROM mod_actions WHERE id = $1`, [
+        appeal.subjectId,
+      ]);
+
+      if (!action) {
+        this.logger.warn('Appealed action not found', {
+          appealId: appeal.id,
+          actionId: appeal.subjectId,
+        });
+        return;
       }
 
-      // Log status update
-      this.logger.info('Appeal status updated', {
-        appealId,
-        oldStatus: appeal.status,
-        newStatus: status,
-      });
+      switch (action.type) {
+        case 'block':
+          await this.agent.app.bsky.actor.block.delete({
+            subject: action.target_did,
+          });
+          break;
 
-      return updatedAppeal;
-    } catch (error) {
-      this.logger.error('Appeal status update failed', {
-        appealId,
-        status,
-        error,
-      });
-      throw new Error(`Failed to update appeal status: ${error.message}`);
-    }
-  }
+        case 'mute':
+          await this.agent.app.bsky.actor.mute.delete({
+            actor: action.target_did,
+          });
+          break;
 
-  private async handleApprovedAppeal(appeal: Appeal): Promise<void> {
-    try {
-      switch (appeal.action_type) {
         case 'post_removal':
           await this.restorePost(appeal);
           break;
+
         case 'account_suspension':
           await this.restoreAccount(appeal);
           break;
+
         case 'strike':
           await this.removeStrike(appeal);
           break;
+
         default:
-          this.logger.warn('Unknown appeal type', { type: appeal.action_type });
+          this.logger.warn('Unknown appeal type', { type: action.type });
       }
     } catch (error) {
       this.logger.error('Appeal approval handling failed', {
         appealId: appeal.id,
-        type: appeal.action_type,
         error,
       });
       throw error;
     }
   }
 
-  private async restorePost(appeal: Appeal): Promise<void> {
+  private async restorePost(appeal: AppealRecord): Promise<void> {
     try {
       // Get original post data from evidence
-      const postData = JSON.parse(appeal.evidence || '{}');
+      const postData = (appeal.evidence ?? {}) as any;
       if (!postData.uri || !postData.record) {
         throw new Error('Invalid post data in evidence');
       }
 
       // Restore the post using AT Protocol
       await this.agent.api.app.bsky.feed.post.create(
-        { did: appeal.user_id },
+        { did: appeal.appellantId },
         postData.record
       );
 
       this.logger.info('Post restored', {
         appealId: appeal.id,
-        userId: appeal.user_id,
+        userId: appeal.appellantId,
         postUri: postData.uri,
       });
     } catch (error) {
@@ -450,13 +682,13 @@ class AppealService {
     }
   }
 
-  private async restoreAccount(appeal: Appeal): Promise<void> {
+  private async restoreAccount(appeal: AppealRecord): Promise<void> {
     try {
       // Implement account restoration logic using AT Protocol
       // This will depend on your specific implementation
       this.logger.info('Account restored', {
         appealId: appeal.id,
-        userId: appeal.user_id,
+        userId: appeal.appellantId,
       });
     } catch (error) {
       this.logger.error('Account restoration failed', {
@@ -467,13 +699,13 @@ class AppealService {
     }
   }
 
-  private async removeStrike(appeal: Appeal): Promise<void> {
+  private async removeStrike(appeal: AppealRecord): Promise<void> {
     try {
       // Implement strike removal logic
       // This will depend on your strike system implementation
       this.logger.info('Strike removed', {
         appealId: appeal.id,
-        userId: appeal.user_id,
+        userId: appeal.appellantId,
       });
     } catch (error) {
       this.logger.error('Strike removal failed', {
@@ -484,38 +716,18 @@ class AppealService {
     }
   }
 
-  async getPendingAppeals(): Promise<Appeal[]> {
-    try {
-      return Array.from(this.appealQueue.values())
-        .filter(appeal => appeal.status === 'pending')
-        .sort(
-          (a, b) =>
-            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-        );
-    } catch (error) {
-      this.logger.error('Pending appeals retrieval failed', { error });
-      throw new Error(`Failed to get pending appeals: ${error.message}`);
-    }
-  }
+  private async post(repo: string, text: string): Promise<void> {
+    const richText = new RichText({ text });
+    await richText.detectFacets(this.agent);
 
-  async getAppealsStats(): Promise<{
-    total: number;
-    pending: number;
-    approved: number;
-    rejected: number;
-  }> {
-    try {
-      const appeals = Array.from(this.appealQueue.values());
-      return {
-        total: appeals.length,
-        pending: appeals.filter(a => a.status === 'pending').length,
-        approved: appeals.filter(a => a.status === 'approved').length,
-        rejected: appeals.filter(a => a.status === 'denied').length,
-      };
-    } catch (error) {
-      this.logger.error('Appeals stats retrieval failed', { error });
-      throw new Error(`Failed to get appeals stats: ${error.message}`);
-    }
+    await this.agent.app.bsky.feed.post.create(
+      { repo },
+      {
+        text: richText.text,
+        facets: richText.facets,
+        createdAt: new Date().toISOString(),
+      }
+    );
   }
 }
 
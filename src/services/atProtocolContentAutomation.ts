@@ -1,5 +1,16 @@
 import { BskyAgent } from '@atproto/api';
 
+import {
+  nextOccurrence,
+  previewOccurrences,
+  validateSchedule,
+} from './scheduling/schedule';
+import {
+  ScheduleRunner,
+  ScheduleRunnerOptions,
+  ScheduleTarget,
+} from './scheduling/ScheduleRunner';
+
 export interface ContentTemplate {
   uri: string;
   cid: string;
@@ -24,11 +35,18 @@ export interface ContentSchedule {
   templateUri: string;
   frequency: 'once' | 'daily' | 'weekly' | 'monthly';
   schedule: {
+    /** DTSTART; a floating time like `2024-03-10T09:00` is read in `timeZone` */
     startDate: string;
     endDate?: string;
     time?: string;
     daysOfWeek?: number[];
     daysOfMonth?: number[];
+    /** RFC 5545 RRULE, e.g. `FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1`; overrides `frequency` */
+    rrule?: string;
+    /** IANA time zone the rule is evaluated in, defaults to UTC */
+    timeZone?: string;
+    /** Occurrences to skip; bare dates skip the whole local day */
+    exdates?: string[];
   };
   variables: Record<string, unknown>;
   status: 'active' | 'paused' | 'completed' | 'error';
@@ -77,7 +95,7 @@ export interface ContentOptimization {
   }>;
 }
 
-export class ATProtocolContentAutomation {
+export class ATProtocolContentAutomation implements ScheduleTarget {
   private agent: BskyAgent;
 
   constructor(agent: BskyAgent) {
@@ -148,6 +166,7 @@ export class ATProtocolContentAutomation {
 
     // Validate variables match template requirements
     this.validateTemplateVariables(template, params.variables);
+    validateSchedule(params);
 
     const record = {
       $type: 'app.bsky.commerce.contentSchedule',
@@ -195,6 +214,99 @@ export class ATProtocolContentAutomation {
     };
   }
 
+  public previewSchedule(params: {
+    frequency: ContentSchedule['frequency'];
+    schedule: ContentSchedule['schedule'];
+    count?: number;
+    after?: string;
+  }): string[] {
+    validateSchedule(params);
+    return previewOccurrences(
+      params,
+      params.count ?? 10,
+      params.after ? new Date(params.after) : new Date()
+    ).map(occurrence => occurrence.toISOString());
+  }
+
+  // Scheduled publishing, driven by ScheduleRunner
+  public startScheduleRunner(
+    options: Omit<ScheduleRunnerOptions, 'target'>
+  ): ScheduleRunner {
+    const runner = new ScheduleRunner({ ...options, target: this });
+    runner.start();
+    return runner;
+  }
+
+  public async listActiveSchedules(): Promise<ContentSchedule[]> {
+    const schedules: ContentSchedule[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.agent.api.com.atproto.repo.listRecords({
+        repo: this.agent.session?.did ?? '',
+        collection: 'app.bsky.commerce.contentSchedule',
+        limit: 100,
+        cursor,
+      });
+      for (const record of response.data.records) {
+        const schedule = {
+          ...(record.value as ContentSchedule),
+          uri: record.uri,
+          cid: record.cid,
+        };
+        if (schedule.status === 'active') schedules.push(schedule);
+      }
+      cursor = response.data.cursor;
+    } while (cursor);
+
+    return schedules;
+  }
+
+  public async publishScheduledRun(
+    schedule: ContentSchedule,
+    occurrence: Date
+  ): Promise<{ uri: string; cid: string }> {
+    const { content } = await this.generateContent({
+      templateUri: schedule.templateUri,
+      variables: schedule.variables,
+    });
+
+    const response = await this.agent.api.com.atproto.repo.createRecord({
+      repo: this.agent.session?.did ?? '',
+      collection: 'app.bsky.feed.post',
+      record: {
+        $type: 'app.bsky.feed.post',
+        text: content,
+        createdAt: new Date().toISOString(),
+        via: {
+          schedule: schedule.uri,
+          occurrence: occurrence.toISOString(),
+        },
+      },
+    });
+
+    return { uri: response.data.uri, cid: response.data.cid };
+  }
+
+  public async recordScheduleRun(
+    scheduleUri: string,
+    update: Pick<ContentSchedule, 'lastRun' | 'nextRun' | 'status'>
+  ): Promise<void> {
+    const current = await this.getSchedule(scheduleUri);
+    if (!current) throw new Error('Schedule not found');
+
+    await this.agent.api.com.atproto.repo.putRecord({
+      repo: this.agent.session?.did ?? '',
+      collection: 'app.bsky.commerce.contentSchedule',
+      rkey: scheduleUri.split('/').pop() ?? '',
+      record: {
+        ...current,
+        ...update,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+  }
+
   // Content Generation
   public async generateContent(params: {
     templateUri: string;
@@ -376,84 +488,8 @@ export class ATProtocolContentAutomation {
   private calculateNextRun(
     schedule: ContentSchedule['schedule'],
     frequency: ContentSchedule['frequency']
-  ): string {
-    const now = new Date();
-    const start = new Date(schedule.startDate);
-
-    if (start > now) return start.toISOString();
-
-    switch (frequency) {
-      case 'once':
-        return schedule.startDate;
-
-      case 'daily': {
-        const tomorrow = new Date(now);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        tomorrow.setHours(
-          schedule.time ? parseInt(schedule.time.split(':')[0]) : 0,
-          schedule.time ? parseInt(schedule.time.split(':')[1]) : 0,
-          0,
-          0
-        );
-        return tomorrow.toISOString();
-      }
-
-      case 'weekly': {
-        if (!schedule.daysOfWeek?.length) return start.toISOString();
-        const nextWeekday = this.getNextWeekday(now, schedule.daysOfWeek);
-        if (schedule.time) {
-          const [hours, minutes] = schedule.time.split(':').map(Number);
-          nextWeekday.setHours(hours, minutes, 0, 0);
-        }
-        return nextWeekday.toISOString();
-      }
-
-      case 'monthly': {
-        if (!schedule.daysOfMonth?.length) return start.toISOString();
-        const nextMonthDay = this.getNextMonthDay(now, schedule.daysOfMonth);
-        if (schedule.time) {
-          const [hours, minutes] = schedule.time.split(':').map(Number);
-          nextMonthDay.setHours(hours, minutes, 0, 0);
-        }
-        return nextMonthDay.toISOString();
-      }
-
-      default:
-        return start.toISOString();
-    }
-  }
-
-  private getNextWeekday(from: Date, daysOfWeek: number[]): Date {
-    const sorted = [...daysOfWeek].sort((a, b) => a - b);
-    const today = from.getDay();
-
-    // Find next day in the current week
-    const nextDay = sorted.find(day => day > today);
-    const daysToAdd =
-      nextDay !== undefined ? nextDay - today : 7 - today + sorted[0];
-
-    const result = new Date(from);
-    result.setDate(result.getDate() + daysToAdd);
-    return result;
-  }
-
-  private getNextMonthDay(from: Date, daysOfMonth: number[]): Date {
-    const sorted = [...daysOfMonth].sort((a, b) => a - b);
-    const today = from.getDate();
-
-    // Find next day in the current month
-    const nextDay = sorted.find(day => day > today);
-    if (nextDay !== undefined) {
-      const result = new Date(from);
-      result.setDate(nextDay);
-      return result;
-    }
-
-    // Move to first available day of next month
-    const result = new Date(from);
-    result.setMonth(result.getMonth() + 1);
-    result.setDate(sorted[0]);
-    return result;
+  ): string | undefined {
+    return nextOccurrence({ schedule, frequency }, new Date())?.toISOString();
   }
 
   private async applyOptimizations(
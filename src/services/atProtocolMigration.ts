@@ -4,6 +4,13 @@ import { RichText } from '@atproto/api';
 import { config } from '../config';
 
 import { ATProtoService } from './atProtocolIntegration';
+import {
+  BlobRef,
+  ItemError,
+  MigrationTarget,
+  TikTokImporter,
+  TikTokImportOptions,
+} from './migration/TikTokImporter';
 
 export interface MigrationRecord {
   $type: string;
@@ -19,6 +26,7 @@ export interface MigrationRecord {
     optimizeContent: boolean;
     scheduleContent: boolean;
     crossPostToTikTok: boolean;
+    importLikes?: boolean;
   };
   status: 'pending' | 'in_progress' | 'completed' | 'failed';
   progress: {
@@ -31,6 +39,11 @@ export interface MigrationRecord {
     followersImported: number;
     engagementMetricsImported: boolean;
     scheduledPosts: number;
+    likesImported?: number;
+    /** Follows and likes whose target doesn't exist on this network */
+    skipped?: number;
+    /** Items that failed and will be retried when the import is resumed */
+    failed?: number;
   };
   error?: string;
   startedAt: string;
@@ -72,9 +85,19 @@ const MIGRATION_COLLECTION = 'app.bsky.migration.record';
 
 export class ATProtocolMigrationService {
   private atProto: ATProtoService;
+  private importer: TikTokImporter;
 
-  constructor(atProto: ATProtoService) {
+  constructor(atProto: ATProtoService, importOptions: TikTokImportOptions = {}) {
     this.atProto = atProto;
+    const target: MigrationTarget = {
+      uploadBlob: (bytes, mimeType) => this.uploadBlob(bytes, mimeType),
+      putRecord: (collection, rkey, record) =>
+        this.putRecord(collection, rkey, record),
+      resolveHandle: handle => this.resolveHandle(handle),
+      updateProgress: (migrationUri, record) =>
+        this.updateMigrationProgress(migrationUri, record),
+    };
+    this.importer = new TikTokImporter(target, importOptions);
   }
 
   async startMigration(params: {
@@ -116,6 +139,24 @@ export class ATProtocolMigrationService {
     }
   }
 
+  /**
+   * Imports a zipped TikTok "Download your data" archive into the migration's
+   * target repo. Safe to call again with the same archive after a crash or
+   * failure: already written items are skipped.
+   */
+  async importTikTokExport(
+    migration: MigrationRecord,
+    archive: Uint8Array
+  ): Promise<MigrationRecord> {
+    try {
+      return await this.importer.run(migration, archive);
+    } catch (error) {
+      const errorMessage = `Failed to import TikTok export for user ${migration.sourceUsername}: ${(error as Error).message}`;
+      console.error(errorMessage, error);
+      throw new MigrationError(errorMessage);
+    }
+  }
+
   private async createMigrationRecord(
     record: Omit<MigrationRecord, 'uri' | 'cid'>
   ): Promise<{ uri: string; cid: string }> {
@@ -245,4 +286,95 @@ export class ATProtocolMigrationService {
       completedAt: new Date().toISOString(),
     });
   }
+
+  private async uploadBlob(bytes: Uint8Array, mimeType: string): Promise<BlobRef> {
+    const session = this.atProto.getSession();
+    if (!session) {
+      throw new AuthenticationError('Not logged in');
+    }
+
+    const response = await fetch(
+      `${config.atProtocol.server}/xrpc/com.atproto.repo.uploadBlob`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.accessJwt}`,
+          'Content-Type': mimeType,
+        },
+        body: bytes,
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const errorDetails = JSON.stringify(errorData);
+      // Rejected media (too large, unsupported type) only fails this video
+      if (response.status === 400 || response.status === 413) {
+        throw new ItemError(`Media upload rejected. Details: ${errorDetails}`);
+      }
+      throw new NetworkError(
+        `Failed to upload blob. Status: ${response.status}. Details: ${errorDetails}`,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    return data.blob;
+  }
+
+  private async putRecord(
+    collection: string,
+    rkey: string,
+    record: Record<string, unknown>
+  ): Promise<{ uri: string; cid: string }> {
+    const session = this.atProto.getSession();
+    if (!session) {
+      throw new AuthenticationError('Not logged in');
+    }
+
+    const response = await fetch(
+      `${config.atProtocol.server}/xrpc/com.atproto.repo.putRecord`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.accessJwt}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ repo: session.did, collection, rkey, record }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const errorDetails = JSON.stringify(errorData);
+      if (response.status === 400) {
+        throw new ItemError(`Record rejected. Details: ${errorDetails}`);
+      }
+      throw new NetworkError(
+        `Failed to write ${collection} record. Status: ${response.status}. Details: ${errorDetails}`,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    return { uri: data.uri, cid: data.cid };
+  }
+
+  private async resolveHandle(handle: string): Promise<string | undefined> {
+    const response = await fetch(
+      `${config.atProtocol.server}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`
+    );
+    // Unknown handles come back as 400 InvalidRequest
+    if (response.status === 400) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new NetworkError(
+        `Failed to resolve handle ${handle}. Status: ${response.status}`,
+        response.status
+      );
+    }
+    const data = await response.json();
+    return data.did;
+  }
 }
@@ -1,4 +1,12 @@
 import { BskyAgent } from '@atproto/api';
+import {
+  Ledger,
+  Money,
+  accounts,
+  type JournalEntry,
+} from '@tiktok-toe/shared/ledger';
+
+import { ledger } from './ledger';
 
 export interface PaymentMethod {
   $type: string;
@@ -19,7 +27,8 @@ export interface Transaction {
   cid: string;
   type: 'payment' | 'refund' | 'payout' | 'transfer';
   status: 'pending' | 'completed' | 'failed' | 'cancelled';
-  amount: number;
+  // Exact decimal string, e.g. "12.50"
+  amount: string;
   currency: string;
   fromDid: string;
   toDid: string;
@@ -84,11 +93,20 @@ export interface PaymentAnalytics {
   >;
 }
 
+const PROVIDER = 'atproto';
+
 export class ATProtocolPayment {
   private agent: BskyAgent;
+  private ledger: Ledger;
+  private feeBasisPoints: number;
 
-  constructor(agent: BskyAgent) {
+  constructor(
+    agent: BskyAgent,
+    options: { ledger?: Ledger; feeBasisPoints?: number } = {}
+  ) {
     this.agent = agent;
+    this.ledger = options.ledger ?? ledger;
+    this.feeBasisPoints = options.feeBasisPoints ?? 0;
   }
 
   // Payment Method Management
@@ -102,7 +120,7 @@ export class ATProtocolPayment {
       $type: 'app.bsky.commerce.paymentMethod',
       type: params.type,
       provider: params.provider,
-      status: 'active',
+      status: 'active' as const,
       metadata: params.metadata,
       createdAt: new Date().toISOString(),
     };
@@ -149,8 +167,7 @@ export class ATProtocolPayment {
   // Transaction Processing
   public async createTransaction(params: {
     type: Transaction['type'];
-    amount: number;
-    currency: string;
+    amount: Money;
     fromDid: string;
     toDid: string;
     reference?: Transaction['reference'];
@@ -167,10 +184,16 @@ export class ATProtocolPayment {
       }
     }
 
+    if (!params.amount.isPositive()) {
+      throw new Error('Transaction amount must be positive');
+    }
+
     const record = {
       $type: 'app.bsky.commerce.transaction',
       ...params,
-      status: 'pending',
+      amount: params.amount.toString(),
+      currency: params.amount.currency,
+      status: 'pending' as const,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -200,9 +223,9 @@ export class ATProtocolPayment {
     const record = {
       $type: 'app.bsky.commerce.payoutAccount',
       ...params,
-      status: 'pending',
+      status: 'pending' as const,
       verification: {
-        status: 'pending',
+        status: 'pending' as const,
         requiredDocs: this.getRequiredDocs(params.type),
         submittedDocs: [],
       },
@@ -237,8 +260,9 @@ export class ATProtocolPayment {
     const updatedAccount = {
       ...account,
       verification: {
+        requiredDocs: account.verification?.requiredDocs ?? [],
         ...account.verification,
-        status: 'pending',
+        status: 'pending' as const,
         submittedDocs: params.documents.map(doc => doc.type),
       },
       updatedAt: new Date().toISOString(),
@@ -306,12 +330,26 @@ export class ATProtocolPayment {
   private async processTransaction(
     transaction: Transaction
   ): Promise<Transaction> {
+    let hold: JournalEntry | null = null;
+
     try {
+      // Money leaving a balance is booked up front, so a concurrent payout
+      // can't spend it while the provider call is in flight
+      if (transaction.type !== 'payment') {
+        hold = await this.bookTransaction(transaction);
+      }
+
       // Process payment through appropriate provider
       // This is where you'd integrate with payment processors
       const success = await this.processPaymentWithProvider(transaction);
 
-      const updatedTransaction = {
+      if (success && transaction.type === 'payment') {
+        await this.settle(transaction, await this.bookTransaction(transaction));
+      } else if (!success && hold) {
+        await this.releaseHold(transaction, hold);
+      }
+
+      const updatedTransaction: Transaction = {
         ...transaction,
         status: success ? 'completed' : 'failed',
         updatedAt: new Date().toISOString(),
@@ -327,7 +365,9 @@ export class ATProtocolPayment {
       return updatedTransaction;
     } catch (error) {
       // Handle processing error
-      const failedTransaction = {
+      if (hold) await this.releaseHold(transaction, hold);
+
+      const failedTransaction: Transaction = {
         ...transaction,
         status: 'failed',
         metadata: {
@@ -348,6 +388,66 @@ export class ATProtocolPayment {
     }
   }
 
+  // The record URI doubles as the idempotency key, so reprocessing a
+  // transaction never books it twice
+  private async bookTransaction(transaction: Transaction): Promise<JournalEntry> {
+    const amount = Money.of(transaction.amount, transaction.currency);
+    const common = {
+      idempotencyKey: transaction.uri,
+      amount,
+      metadata: { transactionUri: transaction.uri },
+    };
+
+    switch (transaction.type) {
+      case 'payment':
+        return this.ledger.recordPayment({
+          ...common,
+          creatorId: transaction.toDid,
+          feeBasisPoints: this.feeBasisPoints,
+          provider: PROVIDER,
+        });
+      case 'payout':
+        return this.ledger.recordPayout({
+          ...common,
+          creatorId: transaction.fromDid,
+          provider: PROVIDER,
+        });
+      case 'transfer':
+        return this.ledger.transfer({
+          ...common,
+          fromCreatorId: transaction.fromDid,
+          toCreatorId: transaction.toDid,
+        });
+      case 'refund': {
+        const original = transaction.reference
+          ? await this.ledger.getEntryByIdempotencyKey(transaction.reference.uri)
+          : null;
+        if (!original) throw new Error('Refund must reference a booked payment');
+
+        return this.ledger.recordRefund({ ...common, entryId: original.id });
+      }
+    }
+  }
+
+  // The provider reports a payment as completed once the charge has
+  // cleared, so the creator's share becomes available for payout
+  private async settle(transaction: Transaction, payment: JournalEntry): Promise<void> {
+    const pending = accounts.creatorPending(transaction.toDid);
+    const share = payment.postings.find(posting => posting.account === pending);
+    if (!share) return;
+
+    await this.ledger.settle({
+      idempotencyKey: `${transaction.uri}#settlement`,
+      creatorId: transaction.toDid,
+      amount: share.amount,
+      metadata: { transactionUri: transaction.uri, entryId: payment.id },
+    });
+  }
+
+  private async releaseHold(transaction: Transaction, hold: JournalEntry): Promise<void> {
+    await this.ledger.reverse(hold.id, `${transaction.uri}#reversal`, 'Transaction failed');
+  }
+
   private async processPaymentWithProvider(
     _transaction: Transaction
   ): Promise<boolean> {
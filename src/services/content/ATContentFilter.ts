@@ -1,5 +1,12 @@
 import { BskyAgent } from '@atproto/api';
 import { PubSub } from '@google-cloud/pubsub';
+import {
+  PolicyEngine,
+  type Condition,
+  type ModerationSubject,
+  type PolicyDefinition,
+  type RuleMetrics,
+} from '@lena/moderation/policy';
 
 import { ContentModerationService } from '../moderation/ContentModerationService';
 
@@ -12,6 +19,8 @@ interface FilterRule {
     categories?: string[];
     threshold?: number;
   };
+  // Policy condition, used instead of criteria when present
+  condition?: Condition;
 }
 
 interface FilterResult {
@@ -26,7 +35,9 @@ export class ATContentFilter {
   private agent: BskyAgent;
   private moderationService: ContentModerationService;
   private pubsub: PubSub;
+  private policyEngine = new PolicyEngine();
   private readonly RECORD_NAMESPACE = 'app.bsky.filter';
+  private readonly POLICY_ID = 'at-content-filter';
 
   constructor(agent: BskyAgent) {
     this.agent = agent;
@@ -96,76 +107,48 @@ export class ATContentFilter {
   }): Promise<FilterResult[]> {
     try {
       const rules = await this.getFilterRules();
+      await this.syncPolicy(rules);
+
       const results: FilterResult[] = [];
+      const types = (['text', 'image', 'video'] as const).filter(
+        type => content[type] && rules.some(rule => rule.type === type)
+      );
 
-      for (const rule of rules) {
-        let matched = false;
-        let confidence = 0;
-        let categories: string[] = [];
-        let reasons: string[] = [];
-
-        switch (rule.type) {
-          case 'text':
-            if (content.text && rule.criteria.keywords) {
-              const textAnalysis = await this.moderationService.moderateText(
-                content.text
-              );
-              matched = this.matchesTextCriteria(
-                content.text,
-                rule.criteria,
-                textAnalysis
-              );
-              confidence = textAnalysis.confidence;
-              categories = textAnalysis.categories;
-              reasons = textAnalysis.reasons || [];
-            }
-            break;
-
-          case 'image':
-            if (content.image) {
-              const imageAnalysis = await this.moderationService.moderateImage(
-                content.image
-              );
-              matched = this.matchesMediaCriteria(imageAnalysis, rule.criteria);
-              confidence = imageAnalysis.confidence;
-              categories = imageAnalysis.categories;
-              reasons = imageAnalysis.reasons || [];
-            }
-            break;
-
-          case 'video':
-            if (content.video) {
-              const videoAnalysis = await this.moderationService.moderateVideo(
-                content.video
-              );
-              matched = this.matchesMediaCriteria(videoAnalysis, rule.criteria);
-              confidence = videoAnalysis.confidence;
-              categories = videoAnalysis.categories;
-              reasons = videoAnalysis.reasons || [];
-            }
-            break;
-        }
+      for (const type of types) {
+        const analysis = await this.analyze(type, content[type]!);
+        const subject: ModerationSubject = {
+          id: crypto.randomUUID(),
+          type,
+          text: content.text,
+          author: { id: this.agent.session?.did ?? 'anonymous' },
+          // Each flagged category becomes a score rules can compare against
+          signals: Object.fromEntries(
+            analysis.categories.map((category: string) => [category, analysis.confidence])
+          ),
+        };
+
+        const decision = await this.policyEngine.evaluate(subject, this.POLICY_ID);
+
+        for (const match of decision.matches) {
+          const rule = rules.find(candidate => candidate.id === match.ruleId);
+          if (!rule) continue;
 
-        if (matched) {
-          results.push({
+          const result: FilterResult = {
             ruleId: rule.id,
             action: rule.action,
-            confidence,
-            categories,
-            reasons,
-          });
+            confidence: analysis.confidence,
+            categories: analysis.categories,
+            reasons: [...(analysis.reasons || []), ...match.evidence],
+          };
+          results.push(result);
 
           // Publish filter match event
           await this.publishFilterEvent({
-            ruleId: rule.id,
-            action: rule.action,
+            ...result,
             content: {
               type: rule.type,
               ...content,
             },
-            confidence,
-            categories,
-            reasons,
           });
         }
       }
@@ -177,39 +160,56 @@ export class ATContentFilter {
     }
   }
 
-  private matchesTextCriteria(
-    text: string,
-    criteria: FilterRule['criteria'],
-    analysis: any
-  ): boolean {
-    if (criteria.keywords) {
-      const lowercaseText = text.toLowerCase();
-      const hasKeyword = criteria.keywords.some(keyword =>
-        lowercaseText.includes(keyword.toLowerCase())
-      );
-      if (hasKeyword) return true;
-    }
+  getRuleMetrics(): RuleMetrics[] {
+    return this.policyEngine.getMetrics(this.POLICY_ID);
+  }
 
-    if (criteria.categories && criteria.threshold) {
-      const matchesCategory = criteria.categories.some(category =>
-        analysis.categories.includes(category)
-      );
-      return matchesCategory && analysis.confidence >= criteria.threshold;
+  private async analyze(type: FilterRule['type'], value: string): Promise<any> {
+    switch (type) {
+      case 'text':
+        return this.moderationService.moderateText(value);
+      case 'image':
+        return this.moderationService.moderateImage(value);
+      case 'video':
+        return this.moderationService.moderateVideo(value);
     }
+  }
 
-    return false;
+  // Rules live in the user's repo, so a new policy version is published whenever they change
+  private async syncPolicy(rules: FilterRule[]): Promise<void> {
+    const definition: PolicyDefinition = {
+      id: this.POLICY_ID,
+      rules: rules.map(rule => ({
+        id: rule.id,
+        when: { all: [{ field: 'type', eq: rule.type }, this.toCondition(rule)] },
+        action: rule.action,
+        severity: rule.action === 'block' ? 'high' : 'medium',
+      })),
+    };
+
+    const active = this.policyEngine.getActivePolicy(this.POLICY_ID);
+    if (!active || JSON.stringify(active.rules) !== JSON.stringify(definition.rules)) {
+      await this.policyEngine.publish(definition, this.agent.session?.did);
+    }
   }
 
-  private matchesMediaCriteria(
-    analysis: any,
-    criteria: FilterRule['criteria']
-  ): boolean {
-    if (!criteria.categories || !criteria.threshold) return false;
+  private toCondition(rule: FilterRule): Condition {
+    if (rule.condition) return rule.condition;
+
+    const { keywords, categories, threshold } = rule.criteria;
+    const conditions: Condition[] = [];
+
+    if (rule.type === 'text' && keywords?.length) {
+      conditions.push({ field: 'text', keywords });
+    }
+    if (categories?.length && threshold) {
+      conditions.push(
+        ...categories.map(category => ({ field: `signals.${category}`, gte: threshold }))
+      );
+    }
 
-    const matchesCategory = criteria.categories.some(category =>
-      analysis.categories.includes(category)
-    );
-    return matchesCategory && analysis.confidence >= criteria.threshold;
+    // A rule with no usable criteria never matches
+    return conditions.length ? { any: conditions } : { not: { field: 'type', exists: true } };
   }
 
   private async publishFilterEvent(event: any): Promise<void> {
@@ -0,0 +1,299 @@
+import { ExperimentDataSource, MetricQuery, MetricStats } from './dataSource';
+import {
+  CorrectionMethod,
+  adjustPValues,
+  chiSquareSurvival,
+  studentTCdf,
+} from './statistics';
+
+export interface AnalyzableExperiment {
+  id: string;
+  /** Defaults to the first variant */
+  controlVariantId?: string;
+  variants: Array<{ id: string; weight: number }>;
+  metrics: Array<MetricQuery & { priority: 'primary' | 'secondary' }>;
+}
+
+export interface AnalysisOptions {
+  /** Family-wise (or FDR, for Benjamini-Hochberg) error rate */
+  alpha?: number;
+  correction?: CorrectionMethod;
+  /** SRM alarms below this p-value; kept strict because SRM tests run continuously */
+  srmThreshold?: number;
+  /**
+   * Standard deviation of the mSPRT mixing distribution, in units of the
+   * metric's per-user standard deviation. Roughly the effect size the test
+   * is tuned to detect fastest.
+   */
+  mixingEffectSize?: number;
+  /**
+   * Always-valid p-values from the previous analysis, keyed by comparisonKey.
+   * Sequential p-values are a running minimum, so each run builds on the last.
+   */
+  previousSequentialPValues?: Record<string, number>;
+}
+
+export interface SampleRatioCheck {
+  observed: Record<string, number>;
+  expected: Record<string, number>;
+  statistic: number;
+  pValue: number;
+  mismatch: boolean;
+}
+
+export interface MetricComparison {
+  variantId: string;
+  metric: string;
+  controlMean: number;
+  variantMean: number;
+  effect: number;
+  /** Effect relative to the control mean; undefined when the control mean is 0 */
+  relativeLift?: number;
+  standardError: number;
+  degreesOfFreedom: number;
+  /** Fixed-horizon Welch (or z, for conversions) p-value; only valid at a pre-planned sample size */
+  pValue: number;
+  /** mSPRT always-valid p-value; safe to check at any time */
+  sequentialPValue: number;
+  /** Sequential p-value corrected for multiple comparisons */
+  adjustedPValue: number;
+  /** Always-valid confidence interval for the effect */
+  confidenceInterval: [number, number];
+  cuped: boolean;
+  significant: boolean;
+}
+
+export interface ExperimentAnalysis {
+  sampleSize: number;
+  controlVariantId: string;
+  sampleRatio: SampleRatioCheck;
+  /** Metric means per variant, CUPED-adjusted where possible */
+  means: Record<string, Record<string, number>>;
+  comparisons: MetricComparison[];
+  winner?: string;
+  confidence: number;
+}
+
+interface GroupEstimate {
+  n: number;
+  mean: number;
+  variance: number;
+}
+
+export function comparisonKey(variantId: string, metric: string): string {
+  return `${variantId}:${metric}`;
+}
+
+function sampleVariance(n: number, sum: number, sumSquares: number): number {
+  return n > 1 ? Math.max(0, (sumSquares - (sum * sum) / n) / (n - 1)) : 0;
+}
+
+function hasCovariate(stats: MetricStats): stats is Required<MetricStats> {
+  return stats.preSum !== undefined && stats.preSumSquares !== undefined && stats.crossSum !== undefined;
+}
+
+/**
+ * CUPED (Deng et al., 2013): subtract the part of each metric explained by
+ * its pre-experiment value. θ is pooled across both groups so the
+ * adjustment itself can't create a difference.
+ */
+function cupedEstimates(control: Required<MetricStats>, variant: Required<MetricStats>): [GroupEstimate, GroupEstimate] {
+  const n = control.n + variant.n;
+  const preMean = (control.preSum + variant.preSum) / n;
+  const postMean = (control.sum + variant.sum) / n;
+  const covariance = (control.crossSum + variant.crossSum - n * preMean * postMean) / (n - 1);
+  const preVariance = sampleVariance(n, control.preSum + variant.preSum, control.preSumSquares + variant.preSumSquares);
+  const theta = preVariance > 0 ? covariance / preVariance : 0;
+
+  const adjust = (group: Required<MetricStats>): GroupEstimate => {
+    const mean = group.sum / group.n;
+    const groupPreMean = group.preSum / group.n;
+    const groupCovariance = group.n > 1 ? (group.crossSum - group.n * mean * groupPreMean) / (group.n - 1) : 0;
+    const variance =
+      sampleVariance(group.n, group.sum, group.sumSquares) -
+      2 * theta * groupCovariance +
+      theta * theta * sampleVariance(group.n, group.preSum, group.preSumSquares);
+    return { n: group.n, mean: mean - theta * (groupPreMean - preMean), variance: Math.max(0, variance) };
+  };
+  return [adjust(control), adjust(variant)];
+}
+
+function plainEstimate(stats: MetricStats): GroupEstimate {
+  return { n: stats.n, mean: stats.sum / stats.n, variance: sampleVariance(stats.n, stats.sum, stats.sumSquares) };
+}
+
+export function sampleRatioCheck(
+  variants: AnalyzableExperiment['variants'],
+  observed: Record<string, number>,
+  threshold: number
+): SampleRatioCheck {
+  const total = variants.reduce((sum, variant) => sum + (observed[variant.id] ?? 0), 0);
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const expected: Record<string, number> = {};
+  let statistic = 0;
+
+  for (const variant of variants) {
+    const expectedCount = (total * variant.weight) / totalWeight;
+    expected[variant.id] = expectedCount;
+    if (expectedCount > 0) {
+      statistic += ((observed[variant.id] ?? 0) - expectedCount) ** 2 / expectedCount;
+    }
+  }
+
+  const pValue = total > 0 && variants.length > 1 ? chiSquareSurvival(statistic, variants.length - 1) : 1;
+  return { observed, expected, statistic, pValue, mismatch: pValue < threshold };
+}
+
+/**
+ * mSPRT with a normal mixing distribution (Johari et al., "Always Valid
+ * Inference", 2017). Returns the always-valid p-value and confidence
+ * interval half-width for an effect estimate with variance `variance`.
+ */
+function mixtureSequentialTest(effect: number, variance: number, mixingVariance: number, alpha: number) {
+  if (variance <= 0 || mixingVariance <= 0) {
+    return { pValue: effect === 0 ? 1 : 0, halfWidth: 0 };
+  }
+  const total = variance + mixingVariance;
+  const logLikelihoodRatio =
+    0.5 * Math.log(variance / total) + (mixingVariance * effect * effect) / (2 * variance * total);
+  const halfWidth = Math.sqrt(((variance * total) / mixingVariance) * (Math.log(total / variance) - 2 * Math.log(alpha)));
+  return { pValue: Math.min(1, Math.exp(-logLikelihoodRatio)), halfWidth };
+}
+
+function compare(
+  metric: MetricQuery,
+  variantId: string,
+  control: MetricStats,
+  variant: MetricStats,
+  options: Required<Omit<AnalysisOptions, 'previousSequentialPValues' | 'srmThreshold' | 'correction'>> &
+    Pick<AnalysisOptions, 'previousSequentialPValues'>
+): Omit<MetricComparison, 'adjustedPValue' | 'significant'> {
+  const cuped = hasCovariate(control) && hasCovariate(variant);
+  const [c, v] = cuped ? cupedEstimates(control, variant) : [plainEstimate(control), plainEstimate(variant)];
+
+  const effect = v.mean - c.mean;
+  const controlTerm = c.variance / c.n;
+  const variantTerm = v.variance / v.n;
+  const variance = controlTerm + variantTerm;
+  const standardError = Math.sqrt(variance);
+
+  // Conversions are means of 0/1 values: large-sample z. Continuous metrics get Welch-Satterthwaite
+  const degreesOfFreedom =
+    metric.type === 'conversion' || variance === 0
+      ? Infinity
+      : (variance * variance) / (controlTerm ** 2 / (c.n - 1) + variantTerm ** 2 / (v.n - 1));
+
+  const pValue =
+    standardError > 0
+      ? 2 * (1 - studentTCdf(Math.abs(effect) / standardError, degreesOfFreedom))
+      : effect === 0
+        ? 1
+        : 0;
+
+  const pooledVariance = ((c.n - 1) * c.variance + (v.n - 1) * v.variance) / Math.max(1, c.n + v.n - 2);
+  const sequential = mixtureSequentialTest(
+    effect,
+    variance,
+    options.mixingEffectSize ** 2 * pooledVariance,
+    options.alpha
+  );
+  const previous = options.previousSequentialPValues?.[comparisonKey(variantId, metric.name)] ?? 1;
+
+  return {
+    variantId,
+    metric: metric.name,
+    controlMean: c.mean,
+    variantMean: v.mean,
+    effect,
+    relativeLift: c.mean !== 0 ? effect / Math.abs(c.mean) : undefined,
+    standardError,
+    degreesOfFreedom,
+    pValue,
+    sequentialPValue: Math.min(previous, sequential.pValue),
+    confidenceInterval: [effect - sequential.halfWidth, effect + sequential.halfWidth],
+    cuped,
+  };
+}
+
+/**
+ * Compares every variant with the control on every metric. Decisions use the
+ * always-valid sequential p-values, corrected across all comparisons, so the
+ * analysis can run on a schedule without inflating false positives. A
+ * sample-ratio mismatch blocks every decision: it means assignment or
+ * logging is broken and the metrics can't be trusted.
+ */
+export async function analyzeExperiment(
+  experiment: AnalyzableExperiment,
+  source: ExperimentDataSource,
+  options: AnalysisOptions = {}
+): Promise<ExperimentAnalysis> {
+  const alpha = options.alpha ?? 0.05;
+  const controlVariantId = experiment.controlVariantId ?? experiment.variants[0]?.id;
+  if (!controlVariantId || !experiment.variants.some(variant => variant.id === controlVariantId)) {
+    throw new Error('Experiment has no control variant');
+  }
+
+  const counts = await source.variantCounts(experiment.id);
+  const sampleRatio = sampleRatioCheck(experiment.variants, counts, options.srmThreshold ?? 0.001);
+
+  const means: Record<string, Record<string, number>> = {};
+  const comparisons: Array<Omit<MetricComparison, 'adjustedPValue' | 'significant'>> = [];
+
+  for (const metric of experiment.metrics) {
+    const stats = await source.metricStats(experiment.id, metric);
+    const control = stats[controlVariantId];
+
+    for (const variant of experiment.variants) {
+      const variantStats = stats[variant.id];
+      if (variantStats && variantStats.n > 0) {
+        (means[variant.id] ??= {})[metric.name] = variantStats.sum / variantStats.n;
+      }
+      if (variant.id === controlVariantId || !control || !variantStats || control.n < 2 || variantStats.n < 2) {
+        continue;
+      }
+      const comparison = compare(metric, variant.id, control, variantStats, {
+        alpha,
+        mixingEffectSize: options.mixingEffectSize ?? 0.1,
+        previousSequentialPValues: options.previousSequentialPValues,
+      });
+      comparisons.push(comparison);
+      (means[variant.id] ??= {})[metric.name] = comparison.variantMean;
+      (means[controlVariantId] ??= {})[metric.name] = comparison.controlMean;
+    }
+  }
+
+  const adjusted = adjustPValues(
+    comparisons.map(comparison => comparison.sequentialPValue),
+    options.correction ?? 'holm'
+  );
+  const results: MetricComparison[] = comparisons.map((comparison, index) => ({
+    ...comparison,
+    adjustedPValue: adjusted[index]!,
+    significant: !sampleRatio.mismatch && adjusted[index]! < alpha,
+  }));
+
+  // A winner must significantly improve a primary metric and not significantly hurt any
+  const primary = new Set(experiment.metrics.filter(metric => metric.priority === 'primary').map(metric => metric.name));
+  let winner: MetricComparison | undefined;
+  for (const variant of experiment.variants) {
+    const primaryResults = results.filter(result => result.variantId === variant.id && primary.has(result.metric));
+    const improves = primaryResults.filter(result => result.significant && result.effect > 0);
+    const harms = primaryResults.some(result => result.significant && result.effect < 0);
+    if (harms || improves.length === 0) continue;
+
+    const best = improves.reduce((a, b) => ((a.relativeLift ?? a.effect) >= (b.relativeLift ?? b.effect) ? a : b));
+    if (!winner || (best.relativeLift ?? best.effect) > (winner.relativeLift ?? winner.effect)) {
+      winner = best;
+    }
+  }
+
+  return {
+    sampleSize: Object.values(counts).reduce((sum, count) => sum + count, 0),
+    controlVariantId,
+    sampleRatio,
+    means,
+    comparisons: results,
+    winner: winner?.variantId,
+    confidence: winner ? 1 - winner.adjustedPValue : 0,
+  };
+}
@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+
+/** Resolution of every hash-based split: 10000 buckets is 0.01% granularity */
+export const BUCKET_COUNT = 10_000;
+
+export interface AudienceFilter {
+  /** Attribute name; dotted paths reach into nested attributes */
+  field: string;
+  operator: 'equals' | 'contains' | 'gt' | 'lt' | 'between';
+  value: any;
+}
+
+/**
+ * A namespace of mutually exclusive experiments. Each user hashes to one
+ * bucket in the layer and can only be enrolled in the experiment that owns
+ * it; experiments in different layers are assigned independently.
+ */
+export interface ExperimentLayer {
+  id: string;
+  name: string;
+  /** Changing the salt reshuffles every user in the layer */
+  salt?: string;
+  /** Percentage (0-100) of users held out of every experiment in the layer */
+  holdoutPercentage: number;
+}
+
+export interface LayerAllocation {
+  layerId: string;
+  /** Half-open bucket range [start, end) owned within the layer */
+  start: number;
+  end: number;
+}
+
+export interface AssignableExperiment {
+  id: string;
+  salt?: string;
+  layer?: LayerAllocation;
+  variants: Array<{ id: string; weight: number }>;
+  targetAudience: {
+    filters: AudienceFilter[];
+    /** Traffic ramp, 0-100; raising it only ever adds users */
+    percentage: number;
+  };
+}
+
+export type AssignmentDecision =
+  | { enrolled: true; variantId: string }
+  | { enrolled: false; reason: 'audience' | 'holdout' | 'layer' | 'traffic' };
+
+export function bucketFor(salt: string, unitId: string): number {
+  const digest = createHash('sha256').update(`${salt}:${unitId}`).digest();
+  return digest.readUInt32BE(0) % BUCKET_COUNT;
+}
+
+function attributeAt(attributes: Record<string, unknown>, field: string): unknown {
+  let value: unknown = attributes;
+  for (const key of field.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function comparable(value: unknown): number | string | undefined {
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (value instanceof Date) return value.getTime();
+  return undefined;
+}
+
+export function matchesFilter(filter: AudienceFilter, attributes: Record<string, unknown>): boolean {
+  const actual = attributeAt(attributes, filter.field);
+  if (actual === undefined || actual === null) return false;
+
+  switch (filter.operator) {
+    case 'equals':
+      return actual === filter.value;
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(filter.value);
+      return typeof actual === 'string' && actual.includes(String(filter.value));
+    case 'gt':
+    case 'lt': {
+      const left = comparable(actual);
+      const right = comparable(filter.value);
+      if (left === undefined || right === undefined || typeof left !== typeof right) return false;
+      return filter.operator === 'gt' ? left > right : left < right;
+    }
+    case 'between': {
+      const [low, high] = Array.isArray(filter.value) ? filter.value.map(comparable) : [];
+      const value = comparable(actual);
+      if (value === undefined || low === undefined || high === undefined) return false;
+      if (typeof value !== typeof low || typeof value !== typeof high) return false;
+      return value >= low && value <= high;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Decides a user's variant from hashes alone, so every instance agrees and
+ * nothing depends on stored state. Eligibility (layer, holdout, traffic) and
+ * variant choice use independent hashes: ramping traffic or resizing a layer
+ * never moves an enrolled user to a different variant.
+ */
+export function decideAssignment(
+  experiment: AssignableExperiment,
+  userId: string,
+  attributes: Record<string, unknown> = {},
+  layer?: ExperimentLayer
+): AssignmentDecision {
+  if (!experiment.targetAudience.filters.every(filter => matchesFilter(filter, attributes))) {
+    return { enrolled: false, reason: 'audience' };
+  }
+
+  if (experiment.layer) {
+    if (!layer || layer.id !== experiment.layer.layerId) {
+      throw new Error(`Layer ${experiment.layer.layerId} not found`);
+    }
+    const bucket = bucketFor(`layer:${layer.salt ?? layer.id}`, userId);
+    if (bucket < layer.holdoutPercentage * (BUCKET_COUNT / 100)) {
+      return { enrolled: false, reason: 'holdout' };
+    }
+    if (bucket < experiment.layer.start || bucket >= experiment.layer.end) {
+      return { enrolled: false, reason: 'layer' };
+    }
+  }
+
+  const salt = experiment.salt ?? experiment.id;
+  if (bucketFor(`${salt}:traffic`, userId) >= experiment.targetAudience.percentage * (BUCKET_COUNT / 100)) {
+    return { enrolled: false, reason: 'traffic' };
+  }
+
+  const point = bucketFor(`${salt}:variant`, userId) / BUCKET_COUNT;
+  let cumulativeWeight = 0;
+  for (const variant of experiment.variants) {
+    cumulativeWeight += variant.weight;
+    if (point < cumulativeWeight) {
+      return { enrolled: true, variantId: variant.id };
+    }
+  }
+  return { enrolled: true, variantId: experiment.variants[experiment.variants.length - 1]!.id };
+}
+
+/**
+ * Throws if an experiment's layer allocation is out of range, overlaps the
+ * layer's holdout or overlaps another live experiment in the same layer.
+ */
+export function validateLayerAllocation(
+  experiment: AssignableExperiment,
+  layer: ExperimentLayer,
+  others: AssignableExperiment[]
+): void {
+  const allocation = experiment.layer;
+  if (!allocation) return;
+
+  if (
+    !Number.isInteger(allocation.start) ||
+    !Number.isInteger(allocation.end) ||
+    allocation.start < 0 ||
+    allocation.end > BUCKET_COUNT ||
+    allocation.start >= allocation.end
+  ) {
+    throw new Error(`Layer allocation must be a bucket range within 0-${BUCKET_COUNT}`);
+  }
+  if (allocation.start < layer.holdoutPercentage * (BUCKET_COUNT / 100)) {
+    throw new Error('Layer allocation overlaps the layer holdout');
+  }
+
+  const conflict = others.find(
+    other =>
+      other.id !== experiment.id &&
+      other.layer?.layerId === allocation.layerId &&
+      other.layer.start < allocation.end &&
+      allocation.start < other.layer.end
+  );
+  if (conflict) {
+    throw new Error(`Layer allocation overlaps experiment ${conflict.id}`);
+  }
+}
@@ -0,0 +1,83 @@
+import { BigQuery } from '@google-cloud/bigquery';
+
+import { ExperimentDataSource, MetricQuery, MetricStats } from './dataSource';
+
+/**
+ * Reads analysis inputs from the analytics dataset. Aggregation happens in
+ * BigQuery; only per-variant sufficient statistics come back.
+ *
+ * Expects `experiment_assignments` (one row per user, with `converted` and
+ * `exposedAt`) and `experiment_metrics` (one row per user and metric, with
+ * an optional pre-exposure `preValue` for CUPED).
+ */
+export class BigQueryExperimentDataSource implements ExperimentDataSource {
+  constructor(
+    private bigquery: BigQuery,
+    private dataset: string
+  ) {}
+
+  async variantCounts(experimentId: string): Promise<Record<string, number>> {
+    const [rows] = await this.bigquery.query({
+      query: `
+        SELECT variantId, COUNT(DISTINCT userId) AS users
+        FROM \`${this.dataset}.experiment_assignments\`
+        WHERE experimentId = @experimentId
+          AND exposedAt IS NOT NULL
+        GROUP BY variantId
+      `,
+      params: { experimentId },
+    });
+
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+      counts[row.variantId] = Number(row.users);
+    }
+    return counts;
+  }
+
+  async metricStats(experimentId: string, metric: MetricQuery): Promise<Record<string, MetricStats>> {
+    // Conversions come straight from the assignment; other metrics default to 0 for users without a row
+    const valueExpression =
+      metric.type === 'conversion' ? 'IF(a.converted, 1, 0)' : 'COALESCE(m.value, 0)';
+
+    const [rows] = await this.bigquery.query({
+      query: `
+        SELECT
+          a.variantId,
+          COUNT(*) AS n,
+          SUM(${valueExpression}) AS sum,
+          SUM(POW(${valueExpression}, 2)) AS sumSquares,
+          COUNTIF(m.preValue IS NULL) AS missingCovariates,
+          SUM(m.preValue) AS preSum,
+          SUM(POW(m.preValue, 2)) AS preSumSquares,
+          SUM(${valueExpression} * m.preValue) AS crossSum
+        FROM \`${this.dataset}.experiment_assignments\` a
+        LEFT JOIN \`${this.dataset}.experiment_metrics\` m
+          ON m.experimentId = a.experimentId
+          AND m.userId = a.userId
+          AND m.metric = @metric
+        WHERE a.experimentId = @experimentId
+          AND a.exposedAt IS NOT NULL
+        GROUP BY a.variantId
+      `,
+      params: { experimentId, metric: metric.name },
+    });
+
+    const stats: Record<string, MetricStats> = {};
+    for (const row of rows) {
+      const entry: MetricStats = {
+        n: Number(row.n),
+        sum: Number(row.sum),
+        sumSquares: Number(row.sumSquares),
+      };
+      // CUPED needs a covariate for every user
+      if (Number(row.missingCovariates) === 0) {
+        entry.preSum = Number(row.preSum);
+        entry.preSumSquares = Number(row.preSumSquares);
+        entry.crossSum = Number(row.crossSum);
+      }
+      stats[row.variantId] = entry;
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Sufficient statistics for one metric in one variant. `pre*` fields hold
+ * the same metric measured before exposure and enable CUPED; they are
+ * omitted when no pre-period data exists.
+ */
+export interface MetricStats {
+  n: number;
+  sum: number;
+  sumSquares: number;
+  preSum?: number;
+  preSumSquares?: number;
+  /** Sum of metric × pre-period metric */
+  crossSum?: number;
+}
+
+export interface MetricQuery {
+  name: string;
+  type: 'conversion' | 'revenue' | 'engagement' | 'custom';
+}
+
+/**
+ * Where experiment analysis reads its numbers. Only exposed users count.
+ */
+export interface ExperimentDataSource {
+  /** Exposed users per variant id */
+  variantCounts(experimentId: string): Promise<Record<string, number>>;
+  /** Metric statistics per variant id */
+  metricStats(experimentId: string, metric: MetricQuery): Promise<Record<string, MetricStats>>;
+}
+
+export interface ExperimentObservation {
+  experimentId: string;
+  userId: string;
+  variantId: string;
+  exposed: boolean;
+  /** Metric values for the user; missing metrics count as zero */
+  metrics: Record<string, number>;
+  /** Pre-exposure values of the same metrics, for CUPED */
+  covariates?: Record<string, number>;
+}
+
+/**
+ * Computes statistics in memory from per-user observations, for tests,
+ * local development and deployments without BigQuery.
+ */
+export class LocalExperimentDataSource implements ExperimentDataSource {
+  constructor(private observations: () => Iterable<ExperimentObservation>) {}
+
+  private *exposed(experimentId: string) {
+    for (const observation of this.observations()) {
+      if (observation.experimentId === experimentId && observation.exposed) yield observation;
+    }
+  }
+
+  async variantCounts(experimentId: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const observation of this.exposed(experimentId)) {
+      counts[observation.variantId] = (counts[observation.variantId] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  async metricStats(experimentId: string, metric: MetricQuery): Promise<Record<string, MetricStats>> {
+    const stats: Record<string, MetricStats> = {};
+    const withCovariates = new Set<string>();
+    const withoutCovariates = new Set<string>();
+
+    for (const observation of this.exposed(experimentId)) {
+      const value = observation.metrics[metric.name] ?? 0;
+      const pre = observation.covariates?.[metric.name];
+      const entry = (stats[observation.variantId] ??= { n: 0, sum: 0, sumSquares: 0 });
+
+      entry.n++;
+      entry.sum += value;
+      entry.sumSquares += value * value;
+      if (pre === undefined) {
+        withoutCovariates.add(observation.variantId);
+      } else {
+        withCovariates.add(observation.variantId);
+        entry.preSum = (entry.preSum ?? 0) + pre;
+        entry.preSumSquares = (entry.preSumSquares ?? 0) + pre * pre;
+        entry.crossSum = (entry.crossSum ?? 0) + value * pre;
+      }
+    }
+
+    // CUPED needs a covariate for every user; drop partial pre-period data
+    for (const [variantId, entry] of Object.entries(stats)) {
+      if (withoutCovariates.has(variantId) || !withCovariates.has(variantId)) {
+        delete entry.preSum;
+        delete entry.preSumSquares;
+        delete entry.crossSum;
+      }
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Distribution functions for experiment analysis. Implementations follow
+ * Numerical Recipes (3rd ed.), ch. 6, and are accurate to ~1e-7, well past
+ * what significance decisions need.
+ */
+
+const EPSILON = 1e-12;
+const MAX_ITERATIONS = 300;
+
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const result =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+    );
+  return x >= 0 ? result : 2 - result;
+}
+
+export function normalCdf(x: number): number {
+  return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+/** Inverse of normalCdf (Acklam's algorithm, refined with one Newton step) */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  let x: number;
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    x =
+      (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+      ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+    if (p > 1 - low) x = -x;
+  } else {
+    const q = p - 0.5;
+    const r = q * q;
+    x =
+      ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q) /
+      (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+  }
+
+  const error = normalCdf(x) - p;
+  return x - error * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+}
+
+function logGamma(x: number): number {
+  const coefficients = [
+    57.1562356658629235, -59.5979603554754912, 14.1360979747417471, -0.491913816097620199,
+    0.339946499848118887e-4, 0.465236289270485756e-4, -0.983744753048795646e-4, 0.158088703224912494e-3,
+    -0.210264441724104883e-3, 0.217439618115212643e-3, -0.164318106536763890e-3, 0.844182239838527433e-4,
+    -0.261908384015814087e-4, 0.368991826595316234e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.2421875;
+  const t = (x + 0.5) * Math.log(tmp) - tmp;
+  let series = 0.999999999999997092;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return t + Math.log((2.5066282746310005 * series) / x);
+}
+
+/** Continued fraction for the incomplete beta function (modified Lentz) */
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+/** Regularized incomplete beta function I_x(a, b) */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+export function studentTCdf(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(degreesOfFreedom)) return normalCdf(t);
+  const tail = 0.5 * incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+/** Regularized upper incomplete gamma function Q(a, x) */
+export function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logFront = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    // Series for the lower function P(a, x)
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n <= MAX_ITERATIONS; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+    }
+    return 1 - sum * Math.exp(logFront);
+  }
+
+  // Continued fraction for Q(a, x)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(logFront) * h;
+}
+
+/** Survival function of the chi-square distribution */
+export function chiSquareSurvival(statistic: number, degreesOfFreedom: number): number {
+  return upperIncompleteGamma(degreesOfFreedom / 2, statistic / 2);
+}
+
+export type CorrectionMethod = 'holm' | 'bonferroni' | 'benjamini-hochberg';
+
+/**
+ * Adjusts p-values for multiple comparisons, returning them in input order.
+ * Holm and Bonferroni control the family-wise error rate; Benjamini-Hochberg
+ * controls the false discovery rate.
+ */
+export function adjustPValues(pValues: number[], method: CorrectionMethod): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  if (method === 'bonferroni') {
+    return pValues.map(p => Math.min(1, p * m));
+  }
+
+  if (method === 'holm') {
+    let running = 0;
+    order.forEach(({ p, index }, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      adjusted[index] = running;
+    });
+    return adjusted;
+  }
+
+  let running = 1;
+  for (let rank = m - 1; rank >= 0; rank--) {
+    const { p, index } = order[rank]!;
+    running = Math.min(running, (p * m) / (rank + 1));
+    adjusted[index] = Math.min(1, running);
+  }
+  return adjusted;
+}
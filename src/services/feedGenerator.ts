@@ -1,5 +1,8 @@
 import { BskyAgent, AppBskyFeedDefs, RichText } from '@atproto/api';
 
+import { FeedFilter, LegacyFeedFilters, validateFilter, isFeedFilter } from './feeds/feedFilters';
+import { FeedGenerator, feedGenerator } from './feeds/FeedGenerator';
+
 export interface CustomFeed {
   uri: string;
   cid: string;
@@ -10,23 +13,29 @@ export interface CustomFeed {
 
 export class FeedGeneratorService {
   private agent: BskyAgent;
+  private generator: FeedGenerator;
 
-  constructor(agent: BskyAgent) {
+  constructor(agent: BskyAgent, generator: FeedGenerator = feedGenerator) {
     this.agent = agent;
+    this.generator = generator;
   }
 
   // Create a custom feed
   public async createCustomFeed(
     name: string,
     description: string,
-    filters: {
-      keywords?: string[];
-      users?: string[];
-      languages?: string[];
-    }
+    filters: LegacyFeedFilters | FeedFilter
   ): Promise<CustomFeed> {
+    // Reject bad definitions before they are published to the repo
+    if (isFeedFilter(filters)) {
+      validateFilter(filters);
+    }
+
     // AT Protocol feed generation
     const record = {
+      did: this.generator.serviceDid,
+      displayName: name,
+      description,
       feed: {
         name,
         description,
@@ -41,6 +50,9 @@ export class FeedGeneratorService {
       record,
     });
 
+    // Our own generator serves the skeleton for this record
+    await this.generator.registerFeedRecord(response.data.uri, record);
+
     return {
       uri: response.data.uri,
       cid: response.data.cid,
@@ -0,0 +1,179 @@
+import path from 'path';
+
+import {
+  FeedDefinitionStore,
+  FileFeedDefinitionStore,
+  MemoryFeedDefinitionStore,
+} from './definitionStore';
+import {
+  FeedFilter,
+  LegacyFeedFilters,
+  evaluateFilter,
+  fromLegacyFilters,
+  isFeedFilter,
+  oldestAcceptable,
+  validateFilter,
+} from './feedFilters';
+import { FeedPostStore } from './postStore';
+
+export interface FeedDefinition {
+  uri: string;
+  name: string;
+  description?: string;
+  filter: FeedFilter;
+}
+
+export interface SkeletonFeedPost {
+  post: string;
+}
+
+export interface FeedSkeleton {
+  feed: SkeletonFeedPost[];
+  cursor?: string;
+}
+
+export interface FeedGeneratorDescription {
+  did: string;
+  feeds: { uri: string }[];
+  links?: { privacyPolicy?: string; termsOfService?: string };
+}
+
+// XRPC errors carry a machine-readable name alongside the HTTP status
+export class FeedGeneratorError extends Error {
+  constructor(
+    public error: 'UnknownFeed' | 'InvalidRequest',
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'FeedGeneratorError';
+  }
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+export class FeedGenerator {
+  private feeds: Map<string, FeedDefinition> = new Map();
+
+  constructor(
+    public readonly serviceDid: string,
+    public readonly store: FeedPostStore = new FeedPostStore(),
+    private links?: FeedGeneratorDescription['links'],
+    private definitions: FeedDefinitionStore = new MemoryFeedDefinitionStore()
+  ) {}
+
+  /**
+   * Restores the feeds registered before a restart. A stored filter that no
+   * longer validates is skipped rather than taking every other feed down.
+   */
+  async load() {
+    for (const definition of await this.definitions.load()) {
+      try {
+        validateFilter(definition.filter);
+        this.feeds.set(definition.uri, definition);
+      } catch (error) {
+        console.error(`Skipping stored feed ${definition.uri}:`, error);
+      }
+    }
+  }
+
+  async registerFeed(definition: FeedDefinition) {
+    validateFilter(definition.filter);
+    await this.definitions.save(definition);
+    this.feeds.set(definition.uri, definition);
+  }
+
+  /**
+   * Registers a feed from an `app.bsky.feed.generator` record as written by
+   * FeedGeneratorService, accepting both the legacy keyword/user/language blob
+   * and full filter expressions.
+   */
+  async registerFeedRecord(
+    uri: string,
+    record: {
+      displayName?: string;
+      description?: string;
+      feed?: { name?: string; description?: string; filters?: FeedFilter | LegacyFeedFilters };
+    }
+  ) {
+    const filters = record.feed?.filters ?? {};
+    await this.registerFeed({
+      uri,
+      name: record.displayName ?? record.feed?.name ?? uri,
+      description: record.description ?? record.feed?.description,
+      filter: isFeedFilter(filters) ? filters : fromLegacyFilters(filters),
+    });
+  }
+
+  async unregisterFeed(uri: string): Promise<boolean> {
+    await this.definitions.delete(uri);
+    return this.feeds.delete(uri);
+  }
+
+  getFeedDefinition(uri: string): FeedDefinition | undefined {
+    return this.feeds.get(uri);
+  }
+
+  describeFeedGenerator(): FeedGeneratorDescription {
+    return {
+      did: this.serviceDid,
+      feeds: Array.from(this.feeds.keys()).map(uri => ({ uri })),
+      ...(this.links ? { links: this.links } : {}),
+    };
+  }
+
+  getFeedSkeleton(params: { feed: string; limit?: number; cursor?: string }, now = Date.now()): FeedSkeleton {
+    const definition = this.feeds.get(params.feed);
+    if (!definition) {
+      throw new FeedGeneratorError('UnknownFeed', `Unknown feed: ${params.feed}`);
+    }
+
+    const limit = params.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new FeedGeneratorError('InvalidRequest', `limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    const before = params.cursor ? this.decodeCursor(params.cursor) : undefined;
+    const oldest = oldestAcceptable(definition.filter, now);
+    const feed: SkeletonFeedPost[] = [];
+    let last: { sortAt: number; cid: string } | undefined;
+
+    for (const post of this.store.scan(before)) {
+      if (post.sortAt < oldest) break;
+      if (!evaluateFilter(definition.filter, post, now)) continue;
+
+      feed.push({ post: post.uri });
+      last = post;
+      if (feed.length === limit) break;
+    }
+
+    // A short page means history is exhausted, so clients stop paginating
+    return {
+      feed,
+      cursor: feed.length === limit && last ? this.encodeCursor(last) : undefined,
+    };
+  }
+
+  private encodeCursor(post: { sortAt: number; cid: string }): string {
+    return `${post.sortAt}::${post.cid}`;
+  }
+
+  private decodeCursor(cursor: string): { sortAt: number; cid: string } {
+    const [sortAt, cid] = cursor.split('::');
+    const timestamp = Number(sortAt);
+    if (!cid || !Number.isFinite(timestamp)) {
+      throw new FeedGeneratorError('InvalidRequest', 'Malformed cursor');
+    }
+    return { sortAt: timestamp, cid };
+  }
+}
+
+export const feedGenerator = new FeedGenerator(
+  process.env.FEEDGEN_SERVICE_DID || 'did:web:localhost',
+  new FeedPostStore(),
+  undefined,
+  new FileFeedDefinitionStore(
+    process.env.FEEDGEN_FEEDS_PATH ?? path.join(process.cwd(), 'data', 'feedgen', 'feeds.json')
+  )
+);
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import type { FeedDefinition } from './FeedGenerator';
+
+/**
+ * Where registered feeds are kept, so the generator keeps serving them
+ * after a restart instead of answering UnknownFeed until they are
+ * published again.
+ */
+export interface FeedDefinitionStore {
+  load(): Promise<FeedDefinition[]>;
+  save(definition: FeedDefinition): Promise<void>;
+  delete(uri: string): Promise<void>;
+}
+
+export class MemoryFeedDefinitionStore implements FeedDefinitionStore {
+  private definitions: Map<string, FeedDefinition> = new Map();
+
+  async load() {
+    return Array.from(this.definitions.values());
+  }
+
+  async save(definition: FeedDefinition) {
+    this.definitions.set(definition.uri, definition);
+  }
+
+  async delete(uri: string) {
+    this.definitions.delete(uri);
+  }
+}
+
+export class FileFeedDefinitionStore implements FeedDefinitionStore {
+  // Writes are chained so concurrent registrations can't drop each other
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async load(): Promise<FeedDefinition[]> {
+    try {
+      const { feeds } = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return Array.isArray(feeds) ? feeds : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  save(definition: FeedDefinition): Promise<void> {
+    return this.update(feeds => [...feeds.filter(feed => feed.uri !== definition.uri), definition]);
+  }
+
+  delete(uri: string): Promise<void> {
+    return this.update(feeds => feeds.filter(feed => feed.uri !== uri));
+  }
+
+  private update(change: (feeds: FeedDefinition[]) => FeedDefinition[]): Promise<void> {
+    const next = this.writing.then(async () => {
+      const feeds = change(await this.load());
+      // Write-then-rename so a crash mid-write never leaves a corrupt file behind
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify({ feeds }, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,194 @@
+import { IndexedPost } from './postStore';
+
+export type FeedFilter =
+  | { type: 'and'; filters: FeedFilter[] }
+  | { type: 'or'; filters: FeedFilter[] }
+  | { type: 'not'; filter: FeedFilter }
+  | { type: 'keywords'; keywords: string[]; match?: 'any' | 'all' }
+  | { type: 'hashtags'; hashtags: string[] }
+  | { type: 'users'; users: string[] }
+  | { type: 'languages'; languages: string[] }
+  | { type: 'hasMedia'; value: boolean }
+  | { type: 'isReply'; value: boolean }
+  | {
+      type: 'engagement';
+      minLikes?: number;
+      minReposts?: number;
+      minReplies?: number;
+      minScore?: number;
+    }
+  | { type: 'timeWindow'; maxAgeHours?: number; since?: string; until?: string };
+
+// The shape FeedGeneratorService has always written into generator records
+export interface LegacyFeedFilters {
+  keywords?: string[];
+  users?: string[];
+  languages?: string[];
+}
+
+export class InvalidFeedFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFeedFilterError';
+  }
+}
+
+export function isFeedFilter(value: unknown): value is FeedFilter {
+  return typeof value === 'object' && value !== null && 'type' in value;
+}
+
+export function fromLegacyFilters(filters: LegacyFeedFilters): FeedFilter {
+  const clauses: FeedFilter[] = [];
+  if (filters.keywords?.length) {
+    clauses.push({ type: 'keywords', keywords: filters.keywords });
+  }
+  if (filters.users?.length) {
+    clauses.push({ type: 'users', users: filters.users });
+  }
+  if (filters.languages?.length) {
+    clauses.push({ type: 'languages', languages: filters.languages });
+  }
+  return { type: 'and', filters: clauses };
+}
+
+export function validateFilter(filter: FeedFilter, depth = 0): void {
+  if (depth > 16) {
+    throw new InvalidFeedFilterError('Feed filter is nested too deeply');
+  }
+
+  switch (filter.type) {
+    case 'and':
+    case 'or':
+      if (!Array.isArray(filter.filters)) {
+        throw new InvalidFeedFilterError(`"${filter.type}" filter requires a filters array`);
+      }
+      filter.filters.forEach(child => validateFilter(child, depth + 1));
+      break;
+    case 'not':
+      validateFilter(filter.filter, depth + 1);
+      break;
+    case 'keywords':
+      if (!filter.keywords?.length) {
+        throw new InvalidFeedFilterError('"keywords" filter requires at least one keyword');
+      }
+      break;
+    case 'hashtags':
+      if (!filter.hashtags?.length) {
+        throw new InvalidFeedFilterError('"hashtags" filter requires at least one hashtag');
+      }
+      break;
+    case 'users':
+    case 'languages': {
+      const values = filter.type === 'users' ? filter.users : filter.languages;
+      if (!values?.length) {
+        throw new InvalidFeedFilterError(`"${filter.type}" filter requires at least one value`);
+      }
+      break;
+    }
+    case 'hasMedia':
+    case 'isReply':
+      if (typeof filter.value !== 'boolean') {
+        throw new InvalidFeedFilterError(`"${filter.type}" filter requires a boolean value`);
+      }
+      break;
+    case 'engagement':
+      break;
+    case 'timeWindow':
+      if (filter.since && isNaN(Date.parse(filter.since))) {
+        throw new InvalidFeedFilterError(`Invalid "since" date: ${filter.since}`);
+      }
+      if (filter.until && isNaN(Date.parse(filter.until))) {
+        throw new InvalidFeedFilterError(`Invalid "until" date: ${filter.until}`);
+      }
+      break;
+    default:
+      throw new InvalidFeedFilterError(
+        `Unknown feed filter type: ${(filter as { type: string }).type}`
+      );
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function containsKeyword(text: string, keyword: string): boolean {
+  // Whole-word match so "art" doesn't pull in every post mentioning "start"
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}])`, 'iu');
+  return pattern.test(text);
+}
+
+export function engagementScore(post: IndexedPost): number {
+  return post.likeCount + post.repostCount * 2 + post.replyCount * 3;
+}
+
+export function evaluateFilter(filter: FeedFilter, post: IndexedPost, now = Date.now()): boolean {
+  switch (filter.type) {
+    case 'and':
+      return filter.filters.every(child => evaluateFilter(child, post, now));
+    case 'or':
+      return filter.filters.some(child => evaluateFilter(child, post, now));
+    case 'not':
+      return !evaluateFilter(filter.filter, post, now);
+    case 'keywords': {
+      const matches = (keyword: string) => containsKeyword(post.text, keyword);
+      return filter.match === 'all'
+        ? filter.keywords.every(matches)
+        : filter.keywords.some(matches);
+    }
+    case 'hashtags': {
+      const wanted = filter.hashtags.map(tag => tag.replace(/^#/, '').toLowerCase());
+      return post.hashtags.some(tag => wanted.includes(tag));
+    }
+    case 'users':
+      return filter.users.some(user => user === post.author || user === post.authorHandle);
+    case 'languages':
+      // Posts without declared languages are only excluded once we know better
+      return post.langs.length === 0 || post.langs.some(lang =>
+        filter.languages.some(wanted =>
+          wanted.toLowerCase() === lang.split('-')[0]!.toLowerCase()
+        )
+      );
+    case 'hasMedia':
+      return post.hasMedia === filter.value;
+    case 'isReply':
+      return Boolean(post.replyParent) === filter.value;
+    case 'engagement':
+      return (
+        post.likeCount >= (filter.minLikes ?? 0) &&
+        post.repostCount >= (filter.minReposts ?? 0) &&
+        post.replyCount >= (filter.minReplies ?? 0) &&
+        engagementScore(post) >= (filter.minScore ?? 0)
+      );
+    case 'timeWindow': {
+      const createdAt = Date.parse(post.createdAt);
+      if (filter.maxAgeHours !== undefined && now - createdAt > filter.maxAgeHours * 3600000) {
+        return false;
+      }
+      if (filter.since && createdAt < Date.parse(filter.since)) return false;
+      if (filter.until && createdAt > Date.parse(filter.until)) return false;
+      return true;
+    }
+  }
+}
+
+/**
+ * Earliest createdAt a filter can possibly accept, so skeleton scans can stop
+ * walking back through history once they pass it.
+ */
+export function oldestAcceptable(filter: FeedFilter, now = Date.now()): number {
+  switch (filter.type) {
+    case 'and':
+      return Math.max(-Infinity, ...filter.filters.map(child => oldestAcceptable(child, now)));
+    case 'or':
+      return filter.filters.length === 0
+        ? -Infinity
+        : Math.min(...filter.filters.map(child => oldestAcceptable(child, now)));
+    case 'timeWindow': {
+      const bounds = [-Infinity];
+      if (filter.maxAgeHours !== undefined) bounds.push(now - filter.maxAgeHours * 3600000);
+      if (filter.since) bounds.push(Date.parse(filter.since));
+      return Math.max(...bounds);
+    }
+    default:
+      return -Infinity;
+  }
+}
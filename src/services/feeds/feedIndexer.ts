@@ -0,0 +1,181 @@
+import path from 'path';
+
+import { Subscription } from 'rxjs';
+
+import { logger } from '../../utils/logger';
+import {
+  FirehoseConsumer,
+  FirehoseEvent,
+  FirehoseOptions,
+  RepoOp,
+} from '../firehose/FirehoseConsumer';
+import { FileCursorStore } from '../firehose/cursorStore';
+
+import { FeedGenerator, feedGenerator } from './FeedGenerator';
+import { Engagement, IngestedPost } from './postStore';
+
+const INDEXED_COLLECTIONS: Record<string, Engagement | 'post'> = {
+  'app.bsky.feed.post': 'post',
+  'app.bsky.feed.like': 'like',
+  'app.bsky.feed.repost': 'repost',
+};
+
+type Fields = Record<string, unknown>;
+
+const asFields = (value: unknown): Fields | undefined =>
+  typeof value === 'object' && value !== null ? (value as Fields) : undefined;
+
+const uriOf = (value: unknown): string | undefined => {
+  const uri = asFields(value)?.uri;
+  return typeof uri === 'string' ? uri : undefined;
+};
+
+const stringsOf = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+function featuresOf(value: unknown): Array<{ $type: string; tag?: string }> {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    const feature = asFields(item);
+    const type = feature?.$type;
+    if (typeof type !== 'string') return [];
+    return [{ $type: type, tag: typeof feature?.tag === 'string' ? feature.tag : undefined }];
+  });
+}
+
+/**
+ * Narrows a post record from the firehose to what the post store indexes.
+ * Records are whatever the author's client wrote, so anything malformed is
+ * dropped rather than trusted.
+ */
+export function toIngestedPost(repo: string, op: RepoOp): IngestedPost | undefined {
+  const record = op.record;
+  if (!record || typeof record.text !== 'string' || !op.cid) return undefined;
+
+  const reply = asFields(record.reply);
+  const parent = uriOf(reply?.parent);
+  const root = uriOf(reply?.root);
+  const embedType = asFields(record.embed)?.$type;
+
+  const facets = Array.isArray(record.facets)
+    ? record.facets.map(facet => ({ features: featuresOf(asFields(facet)?.features) }))
+    : undefined;
+
+  return {
+    uri: op.uri,
+    cid: op.cid,
+    author: repo,
+    text: record.text,
+    langs: stringsOf(record.langs),
+    facets,
+    embed: typeof embedType === 'string' ? { $type: embedType } : undefined,
+    reply: parent && root ? { parent: { uri: parent }, root: { uri: root } } : undefined,
+    // The store falls back to the index time when this doesn't parse
+    createdAt: typeof record.createdAt === 'string' ? record.createdAt : '',
+  };
+}
+
+/**
+ * Keeps the feed generator's post store current from the firehose: posts
+ * are indexed and removed as they're written and deleted, and likes and
+ * reposts count towards their subject's engagement.
+ */
+export class FeedIndexer {
+  private firehose: FirehoseConsumer;
+  private subscription?: Subscription;
+
+  constructor(
+    private generator: FeedGenerator,
+    options: FirehoseOptions = {}
+  ) {
+    this.firehose = new FirehoseConsumer({
+      collections: Object.keys(INDEXED_COLLECTIONS),
+      ...options,
+    });
+  }
+
+  // Restores the registered feeds, then resumes the firehose from its saved cursor
+  public async start() {
+    await this.generator.load();
+    if (!this.subscription) {
+      this.subscription = this.firehose.events.subscribe((event: FirehoseEvent) =>
+        this.handleEvent(event)
+      );
+    }
+    await this.firehose.start();
+  }
+
+  public async stop() {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+    await this.firehose.stop();
+  }
+
+  public handleEvent(event: FirehoseEvent) {
+    if (event.type !== 'commit') return;
+
+    for (const op of event.ops) {
+      const kind = INDEXED_COLLECTIONS[op.collection];
+      if (!kind) continue;
+
+      if (kind === 'post') {
+        this.indexPost(event.repo, op);
+      } else if (op.action === 'create') {
+        // Deletes carry no record, so there's no subject to take the like or repost back from
+        const subject = uriOf(op.record?.subject);
+        if (subject) this.generator.store.recordEngagement(subject, kind);
+      }
+    }
+  }
+
+  private indexPost(repo: string, op: RepoOp) {
+    if (op.action === 'delete') {
+      this.generator.store.remove(op.uri);
+      return;
+    }
+
+    const post = toIngestedPost(repo, op);
+    if (post) {
+      this.generator.store.ingest(post);
+    }
+  }
+}
+
+export const feedIndexer = new FeedIndexer(feedGenerator, {
+  cursorStore: new FileCursorStore(
+    process.env.FEEDGEN_CURSOR_PATH ?? path.join(process.cwd(), 'data', 'feedgen', 'cursor.json')
+  ),
+});
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+function stopOnSignal(signal: NodeJS.Signals) {
+  stopFeedIndexer()
+    .catch(error => logger.error('Failed to stop feed indexer:', error))
+    // Re-raise so the process still exits as it would have without the handler
+    .finally(() => process.kill(process.pid, signal));
+}
+
+/**
+ * Starts the shared indexer for a server that serves feed skeletons and stops
+ * it again on SIGTERM or SIGINT, so the firehose cursor is saved on the way out.
+ */
+export async function startFeedIndexer() {
+  for (const signal of SHUTDOWN_SIGNALS) {
+    process.removeListener(signal, stopOnSignal);
+    process.once(signal, stopOnSignal);
+  }
+
+  try {
+    await feedIndexer.start();
+  } catch (error) {
+    logger.error('Failed to start feed indexer:', error);
+  }
+}
+
+export async function stopFeedIndexer() {
+  for (const signal of SHUTDOWN_SIGNALS) {
+    process.removeListener(signal, stopOnSignal);
+  }
+  await feedIndexer.stop();
+}
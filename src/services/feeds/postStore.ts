@@ -0,0 +1,180 @@
+export interface IngestedPost {
+  uri: string;
+  cid: string;
+  author: string;
+  authorHandle?: string;
+  text: string;
+  langs?: string[];
+  facets?: Array<{ features: Array<{ $type: string; tag?: string }> }>;
+  embed?: { $type: string };
+  reply?: { parent: { uri: string }; root: { uri: string } };
+  createdAt: string;
+}
+
+export interface IndexedPost {
+  uri: string;
+  cid: string;
+  author: string;
+  authorHandle?: string;
+  text: string;
+  langs: string[];
+  hashtags: string[];
+  hasMedia: boolean;
+  replyParent?: string;
+  createdAt: string;
+  indexedAt: string;
+  sortAt: number;
+  likeCount: number;
+  repostCount: number;
+  replyCount: number;
+}
+
+export type Engagement = 'like' | 'repost' | 'reply';
+
+const MEDIA_EMBEDS = [
+  'app.bsky.embed.images',
+  'app.bsky.embed.video',
+  'app.bsky.embed.recordWithMedia',
+];
+
+function compareKeys(a: { sortAt: number; cid: string }, b: { sortAt: number; cid: string }) {
+  return a.sortAt - b.sortAt || (a.cid < b.cid ? -1 : a.cid > b.cid ? 1 : 0);
+}
+
+function extractHashtags(post: IngestedPost): string[] {
+  const tags = new Set<string>();
+  for (const facet of post.facets ?? []) {
+    for (const feature of facet.features) {
+      if (feature.$type === 'app.bsky.richtext.facet#tag' && feature.tag) {
+        tags.add(feature.tag.toLowerCase());
+      }
+    }
+  }
+  // Older clients don't emit tag facets, so fall back to the text itself
+  for (const match of post.text.matchAll(/(?:^|\s)#([\p{L}\p{N}_]+)/gu)) {
+    tags.add(match[1]!.toLowerCase());
+  }
+  return Array.from(tags);
+}
+
+/**
+ * In-memory index of ingested posts, ordered the way feed skeletons are served:
+ * newest first by min(createdAt, indexedAt), ties broken by CID.
+ */
+export class FeedPostStore {
+  private posts: Map<string, IndexedPost> = new Map();
+  private ordered: IndexedPost[] = [];
+  private pendingEngagement: Map<string, Record<Engagement, number>> = new Map();
+
+  constructor(private maxPosts = 100000) {}
+
+  get size(): number {
+    return this.posts.size;
+  }
+
+  get(uri: string): IndexedPost | undefined {
+    return this.posts.get(uri);
+  }
+
+  ingest(post: IngestedPost, indexedAt = new Date()): IndexedPost {
+    this.remove(post.uri);
+
+    // A future-dated createdAt must not pin a post to the top of every feed
+    const createdAt = Date.parse(post.createdAt);
+    const sortAt = Math.min(isNaN(createdAt) ? Infinity : createdAt, indexedAt.getTime());
+    const pending = this.pendingEngagement.get(post.uri);
+    this.pendingEngagement.delete(post.uri);
+
+    const indexed: IndexedPost = {
+      uri: post.uri,
+      cid: post.cid,
+      author: post.author,
+      authorHandle: post.authorHandle,
+      text: post.text,
+      langs: post.langs ?? [],
+      hashtags: extractHashtags(post),
+      hasMedia: MEDIA_EMBEDS.includes(post.embed?.$type ?? ''),
+      replyParent: post.reply?.parent.uri,
+      createdAt: isNaN(createdAt) ? indexedAt.toISOString() : post.createdAt,
+      indexedAt: indexedAt.toISOString(),
+      sortAt,
+      likeCount: pending?.like ?? 0,
+      repostCount: pending?.repost ?? 0,
+      replyCount: pending?.reply ?? 0,
+    };
+
+    this.posts.set(indexed.uri, indexed);
+    this.ordered.splice(this.insertionPoint(indexed), 0, indexed);
+
+    if (indexed.replyParent) {
+      this.recordEngagement(indexed.replyParent, 'reply', 1);
+    }
+
+    while (this.ordered.length > this.maxPosts) {
+      const oldest = this.ordered.shift()!;
+      this.posts.delete(oldest.uri);
+    }
+
+    return indexed;
+  }
+
+  remove(uri: string): boolean {
+    const post = this.posts.get(uri);
+    if (!post) return false;
+
+    this.posts.delete(uri);
+    const index = this.insertionPoint(post);
+    if (this.ordered[index]?.uri === uri) {
+      this.ordered.splice(index, 1);
+    }
+    if (post.replyParent) {
+      this.recordEngagement(post.replyParent, 'reply', -1);
+    }
+    return true;
+  }
+
+  recordEngagement(subjectUri: string, kind: Engagement, delta = 1) {
+    const post = this.posts.get(subjectUri);
+    if (post) {
+      const field = `${kind}Count` as const;
+      post[field] = Math.max(0, post[field] + delta);
+      return;
+    }
+
+    // Likes can arrive before the post itself when ingesting out of order
+    const pending = this.pendingEngagement.get(subjectUri) ?? { like: 0, repost: 0, reply: 0 };
+    pending[kind] = Math.max(0, pending[kind] + delta);
+    this.pendingEngagement.delete(subjectUri);
+    this.pendingEngagement.set(subjectUri, pending);
+    if (this.pendingEngagement.size > this.maxPosts) {
+      this.pendingEngagement.delete(this.pendingEngagement.keys().next().value!);
+    }
+  }
+
+  /**
+   * Walks posts from newest to oldest, starting strictly after `before` when given.
+   */
+  *scan(before?: { sortAt: number; cid: string }): Generator<IndexedPost> {
+    let index = before ? this.insertionPoint(before) - 1 : this.ordered.length - 1;
+    for (; index >= 0; index--) {
+      yield this.ordered[index]!;
+    }
+  }
+
+  clear() {
+    this.posts.clear();
+    this.ordered = [];
+    this.pendingEngagement.clear();
+  }
+
+  private insertionPoint(key: { sortAt: number; cid: string }): number {
+    let low = 0;
+    let high = this.ordered.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareKeys(this.ordered[mid]!, key) < 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
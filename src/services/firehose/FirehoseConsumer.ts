@@ -0,0 +1,319 @@
+import { Subject } from 'rxjs';
+import WebSocket from 'ws';
+
+import { readCar } from './car';
+import { CID, decodeCbor, decodeCborSequence } from './cbor';
+import { CursorStore, MemoryCursorStore } from './cursorStore';
+
+export interface RepoOp {
+  action: 'create' | 'update' | 'delete';
+  collection: string;
+  rkey: string;
+  uri: string;
+  cid?: string;
+  record?: Record<string, unknown>;
+}
+
+export type FirehoseEvent =
+  | { type: 'commit'; seq: number; repo: string; rev: string; time: string; tooBig: boolean; ops: RepoOp[] }
+  | { type: 'identity'; seq: number; did: string; handle?: string; time: string }
+  | { type: 'handle'; seq: number; did: string; handle: string; time: string }
+  | { type: 'tombstone'; seq: number; did: string; time: string }
+  | { type: 'account'; seq: number; did: string; active: boolean; status?: string; time: string }
+  | { type: 'info'; name: string; message?: string };
+
+export interface FirehoseSocket {
+  binaryType?: string;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  close(): void;
+}
+
+export type SocketFactory = (url: string) => FirehoseSocket;
+
+export interface FirehoseOptions {
+  service?: string;
+  collections?: string[];
+  dids?: string[];
+  cursorStore?: CursorStore;
+  createSocket?: SocketFactory;
+  minReconnectDelay?: number;
+  maxReconnectDelay?: number;
+  cursorSaveInterval?: number;
+}
+
+export class FirehoseError extends Error {
+  constructor(
+    public error: string,
+    message?: string
+  ) {
+    super(message ?? error);
+    this.name = 'FirehoseError';
+  }
+}
+
+// Node has no global WebSocket before v22, so the default is the ws client
+const defaultSocketFactory: SocketFactory = url => new WebSocket(url) as unknown as FirehoseSocket;
+
+function toBytes(data: unknown): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  throw new FirehoseError('InvalidFrame', 'Firehose frames must be binary');
+}
+
+/**
+ * Consumer for com.atproto.sync.subscribeRepos. Decodes frames, filters
+ * commits by collection and repo DID, and persists the last processed seq so
+ * a restart resumes where it left off.
+ */
+export class FirehoseConsumer {
+  private eventSubject = new Subject<FirehoseEvent>();
+  private socket?: FirehoseSocket;
+  private cursor?: number;
+  private unsavedEvents = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimeout?: NodeJS.Timeout;
+  private running = false;
+  private collections?: Set<string>;
+  private dids: Set<string>;
+  private cursorStore: CursorStore;
+  private createSocket: SocketFactory;
+
+  constructor(private options: FirehoseOptions = {}) {
+    this.collections = options.collections ? new Set(options.collections) : undefined;
+    this.dids = new Set(options.dids ?? []);
+    this.cursorStore = options.cursorStore ?? new MemoryCursorStore();
+    this.createSocket = options.createSocket ?? defaultSocketFactory;
+  }
+
+  public get events() {
+    return this.eventSubject.asObservable();
+  }
+
+  public get currentCursor() {
+    return this.cursor;
+  }
+
+  public addDid(did: string) {
+    this.dids.add(did);
+  }
+
+  public removeDid(did: string) {
+    this.dids.delete(did);
+  }
+
+  public async start() {
+    if (this.running) return;
+    this.running = true;
+    this.cursor = await this.cursorStore.load();
+    this.connect();
+  }
+
+  public async stop() {
+    this.running = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+    this.socket?.close();
+    this.socket = undefined;
+    await this.flushCursor();
+  }
+
+  /**
+   * Decodes and dispatches a single frame. Exposed so recorded frames can be
+   * replayed without a socket.
+   */
+  public handleFrame(data: unknown): FirehoseEvent | undefined {
+    const [header, body] = decodeCborSequence(toBytes(data)) as [
+      { op: number; t?: string },
+      Record<string, any>,
+    ];
+
+    if (header.op === -1) {
+      throw new FirehoseError(body.error, body.message);
+    }
+
+    // Replays after a reconnect can overlap what we already handled
+    const seq = typeof body.seq === 'number' ? body.seq : undefined;
+    if (seq !== undefined && this.cursor !== undefined && seq <= this.cursor) {
+      return undefined;
+    }
+
+    const event = this.parseMessage(header.t, body);
+    if (seq !== undefined) {
+      this.cursor = seq;
+      this.unsavedEvents++;
+    }
+
+    if (event) {
+      this.eventSubject.next(event);
+    }
+    return event;
+  }
+
+  private parseMessage(type: string | undefined, body: Record<string, any>): FirehoseEvent | undefined {
+    switch (type) {
+      case '#commit':
+        return this.parseCommit(body);
+      case '#identity':
+        return this.matchesDid(body.did)
+          ? { type: 'identity', seq: body.seq, did: body.did, handle: body.handle, time: body.time }
+          : undefined;
+      case '#handle':
+        return this.matchesDid(body.did)
+          ? { type: 'handle', seq: body.seq, did: body.did, handle: body.handle, time: body.time }
+          : undefined;
+      case '#tombstone':
+        return this.matchesDid(body.did)
+          ? { type: 'tombstone', seq: body.seq, did: body.did, time: body.time }
+          : undefined;
+      case '#account':
+        return this.matchesDid(body.did)
+          ? {
+              type: 'account',
+              seq: body.seq,
+              did: body.did,
+              active: body.active,
+              status: body.status,
+              time: body.time,
+            }
+          : undefined;
+      case '#info':
+        return { type: 'info', name: body.name, message: body.message };
+      default:
+        // Unknown message types are skipped so new relay features don't break us
+        return undefined;
+    }
+  }
+
+  private parseCommit(body: Record<string, any>): FirehoseEvent | undefined {
+    if (!this.matchesDid(body.repo)) return undefined;
+
+    const ops: RepoOp[] = [];
+    let blocks: Map<string, Uint8Array> | undefined;
+
+    for (const op of body.ops as Array<{ action: RepoOp['action']; path: string; cid: CID | null }>) {
+      const [collection, rkey] = op.path.split('/');
+      if (!collection || !rkey) continue;
+      if (this.collections && !this.collections.has(collection)) continue;
+
+      const repoOp: RepoOp = {
+        action: op.action,
+        collection,
+        rkey,
+        uri: `at://${body.repo}/${op.path}`,
+        cid: op.cid?.toString(),
+      };
+
+      // tooBig commits ship without blocks; consumers must fetch the record themselves
+      if (op.cid && op.action !== 'delete' && !body.tooBig) {
+        blocks ??= readCar(body.blocks).blocks;
+        const block = blocks.get(op.cid.toString());
+        if (block) {
+          repoOp.record = decodeCbor(block) as Record<string, unknown>;
+        }
+      }
+      ops.push(repoOp);
+    }
+
+    if (ops.length === 0) return undefined;
+
+    return {
+      type: 'commit',
+      seq: body.seq,
+      repo: body.repo,
+      rev: body.rev,
+      time: body.time,
+      tooBig: Boolean(body.tooBig),
+      ops,
+    };
+  }
+
+  private matchesDid(did: string): boolean {
+    return this.dids.size === 0 || this.dids.has(did);
+  }
+
+  private connect() {
+    const service = this.options.service ?? 'wss://bsky.network';
+    const url = new URL('/xrpc/com.atproto.sync.subscribeRepos', service);
+    if (this.cursor !== undefined) {
+      url.searchParams.set('cursor', String(this.cursor));
+    }
+
+    let socket: FirehoseSocket;
+    try {
+      socket = this.createSocket(url.toString());
+    } catch (error) {
+      console.error('Error opening firehose connection:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onmessage = event => {
+      this.reconnectAttempts = 0;
+      try {
+        this.handleFrame(event.data);
+        if (this.unsavedEvents >= (this.options.cursorSaveInterval ?? 100)) {
+          void this.flushCursor();
+        }
+      } catch (error) {
+        this.handleFrameError(socket, error);
+      }
+    };
+    socket.onerror = error => {
+      console.error('Firehose connection error:', error);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      void this.flushCursor();
+      if (this.running) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private handleFrameError(socket: FirehoseSocket, error: unknown) {
+    if (error instanceof FirehoseError) {
+      // The relay no longer has our cursor (or it is ahead of it): start from live
+      if (error.error === 'FutureCursor' || error.error === 'OutdatedCursor') {
+        this.cursor = undefined;
+      }
+      console.error(`Firehose error frame ${error.error}:`, error.message);
+      socket.close();
+      return;
+    }
+    // A single undecodable frame is skipped rather than tearing down the stream
+    console.error('Error decoding firehose frame:', error);
+  }
+
+  private scheduleReconnect() {
+    const min = this.options.minReconnectDelay ?? 1000;
+    const max = this.options.maxReconnectDelay ?? 60000;
+    const delay = Math.min(max, min * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+
+    // Jitter keeps a fleet of consumers from reconnecting in lockstep
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = undefined;
+      if (this.running) this.connect();
+    }, delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private async flushCursor() {
+    if (this.cursor === undefined || this.unsavedEvents === 0) return;
+    this.unsavedEvents = 0;
+    try {
+      await this.cursorStore.save(this.cursor);
+    } catch (error) {
+      console.error('Error saving firehose cursor:', error);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { CID, CborDecodeError, cidLength, decodeCbor, readVarint } from './cbor';
+
+export interface CarFile {
+  roots: CID[];
+  blocks: Map<string, Uint8Array>;
+}
+
+/**
+ * Reads a CARv1 archive, as carried in the `blocks` field of commit events.
+ * Blocks are keyed by the string form of their CID.
+ */
+export function readCar(bytes: Uint8Array): CarFile {
+  const [headerLength, headerVarintLength] = readVarint(bytes, 0);
+  let position = headerVarintLength + headerLength;
+  if (position > bytes.length) {
+    throw new CborDecodeError('Truncated CAR header');
+  }
+
+  const header = decodeCbor(bytes.subarray(headerVarintLength, position)) as {
+    version?: number;
+    roots?: CID[];
+  };
+  if (header?.version !== 1) {
+    throw new CborDecodeError(`Unsupported CAR version ${header?.version}`);
+  }
+
+  const blocks = new Map<string, Uint8Array>();
+  while (position < bytes.length) {
+    const [sectionLength, sectionVarintLength] = readVarint(bytes, position);
+    const start = position + sectionVarintLength;
+    const end = start + sectionLength;
+    if (end > bytes.length) {
+      throw new CborDecodeError('Truncated CAR section');
+    }
+
+    const length = cidLength(bytes, start);
+    const cid = new CID(bytes.slice(start, start + length));
+    blocks.set(cid.toString(), bytes.subarray(start + length, end));
+    position = end;
+  }
+
+  return { roots: header.roots ?? [], blocks };
+}
@@ -0,0 +1,236 @@
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export class CborDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborDecodeError';
+  }
+}
+
+/**
+ * Content identifier as it appears in DAG-CBOR (tag 42) and CAR sections.
+ * Only what the firehose needs: byte equality and the base32 string form.
+ */
+export class CID {
+  constructor(public readonly bytes: Uint8Array) {}
+
+  toString(): string {
+    // Multibase base32, the form CIDv1 takes in lexicon JSON and API responses
+    let bits = 0;
+    let value = 0;
+    let output = 'b';
+    for (const byte of this.bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+export function readVarint(bytes: Uint8Array, offset: number): [value: number, length: number] {
+  let value = 0;
+  let shift = 0;
+  let position = offset;
+  for (;;) {
+    if (position >= bytes.length) {
+      throw new CborDecodeError('Truncated varint');
+    }
+    const byte = bytes[position++]!;
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+    if (shift > 49) {
+      throw new CborDecodeError('Varint too long');
+    }
+  }
+  return [value, position - offset];
+}
+
+/**
+ * Length in bytes of the binary CID starting at `offset`.
+ */
+export function cidLength(bytes: Uint8Array, offset: number): number {
+  // CIDv0: a bare sha2-256 multihash
+  if (bytes[offset] === 0x12 && bytes[offset + 1] === 0x20) {
+    return 34;
+  }
+  let position = offset;
+  const [, versionLength] = readVarint(bytes, position);
+  position += versionLength;
+  const [, codecLength] = readVarint(bytes, position);
+  position += codecLength;
+  const [, hashCodeLength] = readVarint(bytes, position);
+  position += hashCodeLength;
+  const [digestLength, digestLengthLength] = readVarint(bytes, position);
+  position += digestLengthLength + digestLength;
+  if (position > bytes.length) {
+    throw new CborDecodeError('Truncated CID');
+  }
+  return position - offset;
+}
+
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+class Decoder {
+  private view: DataView;
+  position: number;
+
+  constructor(private bytes: Uint8Array, offset = 0) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.position = offset;
+  }
+
+  decode(depth = 0): unknown {
+    if (depth > 64) {
+      throw new CborDecodeError('CBOR nesting too deep');
+    }
+
+    const initial = this.readByte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      return this.decodeSimple(info);
+    }
+
+    const argument = this.readArgument(info);
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+        return this.readBytes(argument).slice();
+      case 3:
+        return textDecoder.decode(this.readBytes(argument));
+      case 4: {
+        const items: unknown[] = [];
+        for (let i = 0; i < argument; i++) {
+          items.push(this.decode(depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < argument; i++) {
+          const key = this.decode(depth + 1);
+          if (typeof key !== 'string') {
+            throw new CborDecodeError('DAG-CBOR map keys must be strings');
+          }
+          map[key] = this.decode(depth + 1);
+        }
+        return map;
+      }
+      case 6: {
+        const value = this.decode(depth + 1);
+        if (argument !== 42 || !(value instanceof Uint8Array) || value[0] !== 0) {
+          throw new CborDecodeError(`Unsupported CBOR tag ${argument}`);
+        }
+        // Tag 42 wraps the binary CID behind a 0x00 multibase prefix
+        return new CID(value.subarray(1));
+      }
+      default:
+        throw new CborDecodeError(`Unknown CBOR major type ${major}`);
+    }
+  }
+
+  private decodeSimple(info: number): unknown {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25: {
+        const half = this.view.getUint16(this.advance(2));
+        const exponent = (half >> 10) & 0x1f;
+        const mantissa = half & 0x3ff;
+        const sign = half & 0x8000 ? -1 : 1;
+        if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+        if (exponent === 31) return mantissa ? NaN : sign * Infinity;
+        return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+      }
+      case 26:
+        return this.view.getFloat32(this.advance(4));
+      case 27:
+        return this.view.getFloat64(this.advance(8));
+      default:
+        throw new CborDecodeError(`Unsupported CBOR simple value ${info}`);
+    }
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        return this.readByte();
+      case 25:
+        return this.view.getUint16(this.advance(2));
+      case 26:
+        return this.view.getUint32(this.advance(4));
+      case 27: {
+        const value = this.view.getBigUint64(this.advance(8));
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new CborDecodeError('CBOR integer exceeds safe range');
+        }
+        return Number(value);
+      }
+      default:
+        // DAG-CBOR forbids indefinite lengths
+        throw new CborDecodeError(`Unsupported CBOR length encoding ${info}`);
+    }
+  }
+
+  private readByte(): number {
+    return this.bytes[this.advance(1)]!;
+  }
+
+  private readBytes(length: number): Uint8Array {
+    const start = this.advance(length);
+    return this.bytes.subarray(start, start + length);
+  }
+
+  private advance(length: number): number {
+    const start = this.position;
+    if (start + length > this.bytes.length) {
+      throw new CborDecodeError('Unexpected end of CBOR input');
+    }
+    this.position += length;
+    return start;
+  }
+}
+
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const decoder = new Decoder(bytes);
+  const value = decoder.decode();
+  if (decoder.position !== bytes.length) {
+    throw new CborDecodeError('Trailing bytes after CBOR value');
+  }
+  return value;
+}
+
+/**
+ * Decodes consecutive CBOR values, as in a firehose frame (header then body).
+ */
+export function decodeCborSequence(bytes: Uint8Array): unknown[] {
+  const decoder = new Decoder(bytes);
+  const values: unknown[] = [];
+  while (decoder.position < bytes.length) {
+    values.push(decoder.decode());
+  }
+  return values;
+}
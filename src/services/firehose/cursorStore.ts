@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface CursorStore {
+  load(): Promise<number | undefined>;
+  save(cursor: number): Promise<void>;
+}
+
+export class MemoryCursorStore implements CursorStore {
+  constructor(private cursor?: number) {}
+
+  async load() {
+    return this.cursor;
+  }
+
+  async save(cursor: number) {
+    this.cursor = cursor;
+  }
+}
+
+export class FileCursorStore implements CursorStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<number | undefined> {
+    try {
+      const { cursor } = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return typeof cursor === 'number' ? cursor : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(cursor: number) {
+    // Write-then-rename so a crash mid-write never leaves a corrupt cursor behind
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify({ cursor, savedAt: new Date().toISOString() }));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  DuplicateEntryError,
+  Ledger,
+  fromRecord,
+  toRecord,
+  type JournalEntry,
+  type JournalFilter,
+  type JournalStore,
+} from '@tiktok-toe/shared/ledger';
+
+import { query, transaction } from '../db';
+
+/**
+ * Journal entries in `ledger_entries`, with one row per posting in
+ * `ledger_postings` so entries can be looked up by account. Both are
+ * written in one transaction; the unique index on `idempotency_key`
+ * settles races between processes.
+ */
+export class PostgresJournalStore implements JournalStore {
+  async append(entry: JournalEntry): Promise<void> {
+    const record = toRecord(entry);
+
+    const inserted = await transaction(async client => {
+      const { rowCount } = await client.query(
+        `
+        INSERT INTO ledger_entries (
+          id,
+          idempotency_key,
+          type,
+          postings,
+          occurred_at,
+          related_entry_id,
+          description,
+          metadata
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (idempotency_key) DO NOTHING
+      `,
+        [
+          record.id,
+          record.idempotencyKey,
+          record.type,
+          JSON.stringify(record.postings),
+          record.occurredAt,
+          record.relatedEntryId ?? null,
+          record.description ?? null,
+          record.metadata ? JSON.stringify(record.metadata) : null,
+        ]
+      );
+      if (rowCount === 0) return false;
+
+      for (const posting of record.postings) {
+        await client.query(
+          `
+          INSERT INTO ledger_postings (entry_id, account, direction, amount, currency)
+          VALUES ($1, $2, $3, $4, $5)
+        `,
+          [
+            record.id,
+            posting.account,
+            posting.direction,
+            posting.amount.amount,
+            posting.amount.currency,
+          ]
+        );
+      }
+      return true;
+    });
+
+    if (!inserted) {
+      throw new DuplicateEntryError(entry.idempotencyKey);
+    }
+  }
+
+  async findById(id: string): Promise<JournalEntry | null> {
+    const {
+      rows: [row],
+    } = await query(`SELECT * FROM ledger_entries WHERE id = $1`, [id]);
+    return row ? fromRow(row) : null;
+  }
+
+  async findByIdempotencyKey(key: string): Promise<JournalEntry | null> {
+    const {
+      rows: [row],
+    } = await query(`SELECT * FROM ledger_entries WHERE idempotency_key = $1`, [
+      key,
+    ]);
+    return row ? fromRow(row) : null;
+  }
+
+  async list(filter: JournalFilter = {}): Promise<JournalEntry[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.relatedEntryId) {
+      params.push(filter.relatedEntryId);
+      conditions.push(`related_entry_id = $${params.length}`);
+    }
+    if (filter.accountPrefix) {
+      params.push(`${filter.accountPrefix.replace(/[\\%_]/g, '\\$&')}%`);
+      conditions.push(
+        `id IN (SELECT entry_id FROM ledger_postings WHERE account LIKE $${params.length})`
+      );
+    }
+
+    const { rows } = await query(
+      `
+      SELECT * FROM ledger_entries
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY occurred_at ASC
+    `,
+      params
+    );
+    return rows.map(fromRow);
+  }
+}
+
+function fromRow(row: any): JournalEntry {
+  return fromRecord({
+    id: row.id,
+    idempotencyKey: row.idempotency_key,
+    type: row.type,
+    postings: row.postings,
+    occurredAt: new Date(row.occurred_at).toISOString(),
+    relatedEntryId: row.related_entry_id ?? undefined,
+    description: row.description ?? undefined,
+    metadata: row.metadata ?? undefined,
+  });
+}
+
+// One instance per process, so its posting queue covers every caller
+export const ledger = new Ledger({ store: new PostgresJournalStore() });
@@ -1,9 +1,12 @@
 import { PubSub } from '@google-cloud/pubsub';
 import { Storage } from '@google-cloud/storage';
+import type { MediaHash } from '@lena/moderation/hashing';
+import { blobSource, validateMedia } from '@lena/moderation/media';
 
 import { config } from '../config';
 
 import { completeAnalytics } from './completeAnalytics';
+import { mediaHashing } from './mediaHashing';
 import { performanceMonitoring } from './performanceMonitoring';
 
 interface MediaConfig {
@@ -111,8 +114,28 @@ export class MediaHandlerService {
       // Validate file
       await this.validateFile(file);
 
+      // Refuse re-uploads of media we've removed before storing anything.
+      // Media that can't be hashed is let through unchecked rather than
+      // failing the upload.
+      let mediaHash: MediaHash | null = null;
+      try {
+        mediaHash = await mediaHashing.hashFile(file);
+      } catch (error) {
+        performanceMonitoring.recordError(error as Error, {
+          operation: 'hashMedia',
+          fileType: file.type,
+          fileSize: file.size,
+        });
+      }
+      if (mediaHash && (await mediaHashing.findMatch(mediaHash))) {
+        throw new Error('Media matches content that was removed');
+      }
+
       // Generate unique ID
       const mediaId = crypto.randomUUID();
+      if (mediaHash) {
+        await mediaHashing.recordUpload(mediaId, mediaHash);
+      }
 
       // Upload original file
       const bucket = this.storage.bucket(config.gcp.storageBucket);
@@ -204,8 +227,13 @@ export class MediaHandlerService {
     }
   }
 
-  async deleteMedia(mediaId: string): Promise<void> {
+  // A reason marks a takedown, which also puts the media on the hash list
+  async deleteMedia(mediaId: string, reason?: string): Promise<void> {
     try {
+      if (reason) {
+        await mediaHashing.enqueueRemoved({ sourceId: mediaId, reason });
+      }
+
       const bucket = this.storage.bucket(config.gcp.storageBucket);
 
       // Delete all files in the media directory
@@ -219,7 +247,7 @@ export class MediaHandlerService {
       // Track deletion
       await completeAnalytics.trackEvent({
         type: 'media_deleted',
-        data: { mediaId },
+        data: { mediaId, reason },
         metadata: {
           service: 'media-handler',
           environment: config.app.env,
@@ -243,6 +271,15 @@ export class MediaHandlerService {
     if (!this.config.allowedTypes.includes(file.type)) {
       throw new Error('File type not supported');
     }
+
+    // The declared type is only a claim; check the bytes agree with it
+    const result = await validateMedia(blobSource(file), {
+      declaredType: file.type,
+      allowedTypes: this.config.allowedTypes,
+    });
+    if (!result.valid) {
+      throw new Error(`Invalid media file: ${result.reasons.map(reason => reason.message).join('; ')}`);
+    }
   }
 
   private async processImage(file: File, mediaId: string): Promise<void> {
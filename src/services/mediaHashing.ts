@@ -0,0 +1,265 @@
+import { Storage, type File as StorageFile } from '@google-cloud/storage';
+import {
+  MediaHashList,
+  RemovedMediaQueue,
+  fingerprintAudio,
+  hashImage,
+  hashVideoFrames,
+  type GrayscaleImage,
+  type HashListEntry,
+  type HashListStore,
+  type HashMatch,
+  type MediaHash,
+  type RemovedMedia,
+  type RemovedMediaStore,
+} from '@lena/moderation/hashing';
+
+const HASH_LIST_PREFIX = 'moderation/hash-list/';
+const REMOVAL_QUEUE_PREFIX = 'moderation/removal-queue/';
+const UPLOAD_HASH_PREFIX = 'moderation/upload-hashes/';
+// Video is sampled once a second and shrunk to this size before hashing
+const VIDEO_FRAME_SIZE = 64;
+const AUDIO_SAMPLE_RATE = 11025;
+
+/**
+ * Hash list entries as one JSON object each, next to the analysis audit
+ * trail. The list is read in full at startup and then kept in memory.
+ */
+class GcsHashListStore implements HashListStore {
+  constructor(private storage: Storage) {}
+
+  async add(entry: HashListEntry): Promise<void> {
+    await this.bucket().file(`${HASH_LIST_PREFIX}${entry.id}.json`).save(JSON.stringify(entry));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.bucket()
+      .file(`${HASH_LIST_PREFIX}${id}.json`)
+      .delete({ ignoreNotFound: true });
+  }
+
+  async list(): Promise<HashListEntry[]> {
+    const [files] = await this.bucket().getFiles({ prefix: HASH_LIST_PREFIX });
+    return Promise.all(
+      files.map(async (file: StorageFile) => {
+        const [content] = await file.download();
+        const entry = JSON.parse(content.toString());
+        return { ...entry, addedAt: new Date(entry.addedAt) };
+      })
+    );
+  }
+
+  private bucket() {
+    return this.storage.bucket(process.env.GCP_STORAGE_BUCKET || '');
+  }
+}
+
+// Takedowns waiting to be hashed, so a restart picks them up again
+class GcsRemovedMediaStore implements RemovedMediaStore {
+  constructor(private storage: Storage) {}
+
+  async add(item: RemovedMedia): Promise<void> {
+    await this.file(item.sourceId).save(JSON.stringify(item));
+  }
+
+  async remove(sourceId: string): Promise<void> {
+    await this.file(sourceId).delete({ ignoreNotFound: true });
+  }
+
+  async list(): Promise<RemovedMedia[]> {
+    const [files] = await this.bucket().getFiles({ prefix: REMOVAL_QUEUE_PREFIX });
+    return Promise.all(
+      files.map(async (file: StorageFile) => {
+        const [content] = await file.download();
+        return JSON.parse(content.toString());
+      })
+    );
+  }
+
+  private file(sourceId: string) {
+    return this.bucket().file(
+      `${REMOVAL_QUEUE_PREFIX}${encodeURIComponent(sourceId)}.json`
+    );
+  }
+
+  private bucket() {
+    return this.storage.bucket(process.env.GCP_STORAGE_BUCKET || '');
+  }
+}
+
+// The parts of a fluent-ffmpeg command used to decode media to raw samples
+interface FfmpegCommand {
+  noAudio(): FfmpegCommand;
+  noVideo(): FfmpegCommand;
+  videoFilters(...filters: string[]): FfmpegCommand;
+  audioChannels(channels: number): FfmpegCommand;
+  audioFrequency(frequency: number): FfmpegCommand;
+  format(format: string): FfmpegCommand;
+  on(event: 'error', listener: (error: Error) => void): FfmpegCommand;
+  pipe(): NodeJS.ReadableStream;
+}
+
+class MediaHashingService {
+  private storage: Storage;
+  private hashList: MediaHashList;
+  private removedMedia: RemovedMediaQueue;
+  private loaded: Promise<void>;
+  private static instance: MediaHashingService;
+
+  private constructor() {
+    this.storage = new Storage();
+    this.hashList = new MediaHashList({
+      store: new GcsHashListStore(this.storage),
+    });
+    this.removedMedia = new RemovedMediaQueue(
+      this.hashList,
+      (item: RemovedMedia) => this.getUploadHashes(item.sourceId),
+      { store: new GcsRemovedMediaStore(this.storage) }
+    );
+    // Until the list loads (or if it can't), lookups just find nothing
+    this.loaded = this.hashList
+      .load()
+      .catch((error: unknown) => console.error('Hash list load error:', error));
+    // After the list, so takedowns already on it aren't added twice
+    this.loaded
+      .then(() => this.removedMedia.restore())
+      .catch((error: unknown) =>
+        console.error('Removed media queue restore error:', error)
+      );
+  }
+
+  public static getInstance(): MediaHashingService {
+    if (!MediaHashingService.instance) {
+      MediaHashingService.instance = new MediaHashingService();
+    }
+    return MediaHashingService.instance;
+  }
+
+  async hashFile(file: File): Promise<MediaHash | null> {
+    const buffer = Buffer.from(await file.arrayBuffer());
+    if (file.type.startsWith('image/')) return this.hashImage(buffer);
+
+    const isVideo = file.type.startsWith('video/');
+    if (!isVideo && !file.type.startsWith('audio/')) return null;
+
+    const fs = require('fs').promises;
+    const inputPath = `/tmp/${crypto.randomUUID()}_hash_input`;
+    await fs.writeFile(inputPath, buffer);
+    try {
+      return isVideo
+        ? await this.hashVideo(inputPath)
+        : await this.hashAudio(inputPath);
+    } finally {
+      await fs.unlink(inputPath).catch(() => {});
+    }
+  }
+
+  async hashImage(buffer: Buffer): Promise<MediaHash> {
+    const sharp = require('sharp');
+    const { data, info } = await sharp(buffer)
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return hashImage({ width: info.width, height: info.height, data });
+  }
+
+  async hashVideo(inputPath: string): Promise<MediaHash> {
+    const raw = await this.decode(inputPath, command =>
+      command
+        .noAudio()
+        .videoFilters(
+          'fps=1',
+          `scale=${VIDEO_FRAME_SIZE}:${VIDEO_FRAME_SIZE}`,
+          'format=gray'
+        )
+        .format('rawvideo')
+    );
+
+    const frameSize = VIDEO_FRAME_SIZE * VIDEO_FRAME_SIZE;
+    const frames: GrayscaleImage[] = [];
+    for (let offset = 0; offset + frameSize <= raw.length; offset += frameSize) {
+      frames.push({
+        width: VIDEO_FRAME_SIZE,
+        height: VIDEO_FRAME_SIZE,
+        data: raw.subarray(offset, offset + frameSize),
+      });
+    }
+    return hashVideoFrames(frames);
+  }
+
+  async hashAudio(inputPath: string): Promise<MediaHash> {
+    const raw = await this.decode(inputPath, command =>
+      command
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(AUDIO_SAMPLE_RATE)
+        .format('f32le')
+    );
+
+    // Copy so the samples start on a 4-byte boundary
+    const samples = new Float32Array(
+      Uint8Array.from(raw).buffer,
+      0,
+      raw.length >> 2
+    );
+    return fingerprintAudio(samples, AUDIO_SAMPLE_RATE);
+  }
+
+  async findMatch(hash: MediaHash): Promise<HashMatch | null> {
+    await this.loaded;
+    return this.hashList.match(hash)[0] ?? null;
+  }
+
+  // Kept so media can be added to the list if it's taken down later
+  async recordUpload(mediaId: string, hash: MediaHash): Promise<void> {
+    await this.bucket()
+      .file(`${UPLOAD_HASH_PREFIX}${mediaId}.json`)
+      .save(JSON.stringify([hash]));
+  }
+
+  /**
+   * Queue removed media for the hash list. Without hashes, the ones
+   * recorded when the media was uploaded are used. If the queue can't be
+   * saved the item is still hashed, it just won't survive a restart.
+   */
+  async enqueueRemoved(item: RemovedMedia): Promise<void> {
+    await this.removedMedia
+      .enqueue(item)
+      .catch((error: unknown) =>
+        console.error('Removed media queue save error:', error)
+      );
+  }
+
+  private async getUploadHashes(mediaId: string): Promise<MediaHash[]> {
+    const file = this.bucket().file(`${UPLOAD_HASH_PREFIX}${mediaId}.json`);
+    const [exists] = await file.exists();
+    if (!exists) return [];
+
+    const [content] = await file.download();
+    return JSON.parse(content.toString());
+  }
+
+  private decode(
+    inputPath: string,
+    configure: (command: FfmpegCommand) => FfmpegCommand
+  ): Promise<Buffer> {
+    const ffmpeg: (input: string) => FfmpegCommand = require('fluent-ffmpeg');
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const output = configure(ffmpeg(inputPath))
+        .on('error', reject)
+        .pipe();
+
+      output.on('data', (chunk: Buffer) => chunks.push(chunk));
+      output.on('end', () => resolve(Buffer.concat(chunks)));
+      output.on('error', reject);
+    });
+  }
+
+  private bucket() {
+    return this.storage.bucket(process.env.GCP_STORAGE_BUCKET || '');
+  }
+}
+
+export const mediaHashing = MediaHashingService.getInstance();
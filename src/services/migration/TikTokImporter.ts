@@ -0,0 +1,375 @@
+import { RichText } from '@atproto/api';
+
+import type { MigrationRecord } from '../atProtocolMigration';
+
+import { CheckpointStore, ImportCheckpoint, MemoryCheckpointStore } from './checkpointStore';
+import {
+  TikTokExport,
+  TikTokSkippedEntry,
+  TikTokVideo,
+  TikTokVideoRef,
+  parseTikTokExport,
+} from './tiktokExport';
+import { readZip } from './zip';
+
+const TID_ALPHABET = '234567abcdefghijklmnopqrstuvwxyz';
+const MAX_POST_GRAPHEMES = 300;
+const MENTION_FEATURE = 'app.bsky.richtext.facet#mention';
+
+export interface BlobRef {
+  $type: 'blob';
+  ref: { $link: string };
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * The writes an import needs from the user's PDS. Implemented by
+ * ATProtocolMigrationService; kept narrow so imports can be replayed in tests.
+ */
+export interface MigrationTarget {
+  uploadBlob(data: Uint8Array, mimeType: string): Promise<BlobRef>;
+  putRecord(
+    collection: string,
+    rkey: string,
+    record: Record<string, unknown>
+  ): Promise<{ uri: string; cid: string }>;
+  resolveHandle(handle: string): Promise<string | undefined>;
+  updateProgress(migrationUri: string, record: Omit<MigrationRecord, 'uri' | 'cid'>): Promise<void>;
+}
+
+export interface TikTokImportOptions {
+  checkpoints?: CheckpointStore;
+  /** Downloads a video that isn't bundled in the archive */
+  fetchMedia?: (video: TikTokVideo) => Promise<{ data: Uint8Array; mimeType: string }>;
+  /** Maps a TikTok username onto a DID on our network */
+  resolveAccount?: (username: string) => Promise<string | undefined>;
+  /** Finds our copy of a TikTok video someone else imported, for likes */
+  resolvePost?: (video: TikTokVideoRef) => Promise<{ uri: string; cid: string } | undefined>;
+  handleDomain?: string;
+  /** Progress is written to the migration record every N items */
+  progressInterval?: number;
+}
+
+export class ItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ItemError';
+  }
+}
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Record keys are TIDs derived from the original timestamp and the source
+ * item, so re-running an interrupted import overwrites instead of duplicating.
+ */
+export function deterministicTid(isoDate: string, seed: string): string {
+  const hash = hashString(seed);
+  const micros = BigInt(Date.parse(isoDate)) * 1000n + BigInt(hash % 1000);
+  let value = (micros << 10n) | BigInt(hash & 0x3ff);
+  let tid = '';
+  for (let i = 0; i < 13; i++) {
+    tid = TID_ALPHABET[Number(value & 31n)] + tid;
+    value >>= 5n;
+  }
+  return tid;
+}
+
+function truncateGraphemes(text: string, max: number): string {
+  const segments = Array.from(new Intl.Segmenter().segment(text), segment => segment.segment);
+  return segments.length <= max ? text : `${segments.slice(0, max - 1).join('').trimEnd()}…`;
+}
+
+// The checkpoint key the entry would have had, if its section is being imported
+function skippedKey(entry: TikTokSkippedEntry, options: MigrationRecord['options']): string | undefined {
+  switch (entry.section) {
+    case 'videos':
+      return options.importVideos ? `video:${entry.id}` : undefined;
+    case 'following':
+      return options.importFollowers ? `follow:${entry.id.toLowerCase()}` : undefined;
+    default:
+      return options.importLikes !== false ? `like:${entry.id}` : undefined;
+  }
+}
+
+async function defaultFetchMedia(video: TikTokVideo) {
+  const response = await fetch(video.link);
+  const mimeType = response.headers.get('content-type')?.split(';')[0] ?? '';
+  // Newer exports link to the share page rather than the file
+  if (!response.ok || !mimeType.startsWith('video/')) {
+    throw new ItemError(`Media for video ${video.id} is unavailable (${response.status} ${mimeType})`);
+  }
+  return { data: new Uint8Array(await response.arrayBuffer()), mimeType };
+}
+
+/**
+ * Replays a TikTok data export into the user's repo: videos become posts,
+ * the following list becomes follows and likes/favourites become likes where
+ * the target video exists here. Progress is checkpointed per item.
+ */
+export class TikTokImporter {
+  private checkpoints: CheckpointStore;
+  private progressInterval: number;
+
+  constructor(
+    private target: MigrationTarget,
+    private options: TikTokImportOptions = {}
+  ) {
+    this.checkpoints = options.checkpoints ?? new MemoryCheckpointStore();
+    this.progressInterval = options.progressInterval ?? 10;
+  }
+
+  async run(migration: MigrationRecord, archive: Uint8Array): Promise<MigrationRecord> {
+    const { uri, cid, ...initial } = migration;
+    const record: Omit<MigrationRecord, 'uri' | 'cid'> = structuredClone(initial);
+    if (record.status === 'completed') {
+      return migration;
+    }
+
+    const checkpoint: ImportCheckpoint = (await this.checkpoints.load(uri)) ?? {
+      migrationUri: uri,
+      completed: [],
+      failures: {},
+      posts: {},
+      updatedAt: new Date().toISOString(),
+    };
+    const completed = new Set(checkpoint.completed);
+    if (checkpoint.results) {
+      record.results = checkpoint.results;
+    }
+
+    const save = async () => {
+      checkpoint.completed = [...completed];
+      checkpoint.results = record.results;
+      checkpoint.updatedAt = new Date().toISOString();
+      await this.checkpoints.save(checkpoint);
+    };
+    const report = (currentStep: string, current: number) => {
+      record.status = 'in_progress';
+      record.progress = { ...record.progress, current, currentStep };
+      record.results.failed = Object.keys(checkpoint.failures).length;
+      return this.target.updateProgress(uri, record);
+    };
+
+    try {
+      delete record.error;
+      await report('Reading archive', 0);
+      const data = parseTikTokExport(readZip(archive));
+
+      // Entries the archive couldn't describe are flagged alongside the other failures
+      for (const entry of data.skipped) {
+        const key = skippedKey(entry, record.options);
+        if (key && !completed.has(key)) {
+          checkpoint.failures[key] = entry.reason;
+        }
+      }
+
+      const steps = this.plan(data, record.options);
+      record.progress.total = steps.reduce((sum, step) => sum + step.items.length, 0);
+
+      let current = 0;
+      for (const step of steps) {
+        await report(step.label, current);
+        for (const item of step.items) {
+          current++;
+          if (!completed.has(item.key)) {
+            try {
+              await item.run(record, checkpoint);
+              completed.add(item.key);
+              delete checkpoint.failures[item.key];
+            } catch (error) {
+              if (!(error instanceof ItemError)) throw error;
+              checkpoint.failures[item.key] = error.message;
+            }
+            await save();
+          }
+          if (current % this.progressInterval === 0) {
+            await report(step.label, current);
+          }
+        }
+      }
+
+      record.status = 'completed';
+      record.progress = { ...record.progress, current, currentStep: 'Completed' };
+      record.results.failed = Object.keys(checkpoint.failures).length;
+      record.completedAt = new Date().toISOString();
+      await this.target.updateProgress(uri, record);
+      if (record.results.failed === 0) {
+        await this.checkpoints.clear(uri);
+      }
+    } catch (error) {
+      // The checkpoint stays behind so the next run resumes after the last written item
+      await save().catch(() => undefined);
+      record.status = 'failed';
+      record.error = (error as Error).message;
+      await this.target.updateProgress(uri, record).catch(updateError => {
+        console.error('Failed to record migration failure:', updateError);
+      });
+      throw error;
+    }
+
+    return { ...record, uri, cid };
+  }
+
+  private plan(data: TikTokExport, options: MigrationRecord['options']) {
+    type Step = {
+      label: string;
+      items: Array<{
+        key: string;
+        run: (record: Omit<MigrationRecord, 'uri' | 'cid'>, checkpoint: ImportCheckpoint) => Promise<void>;
+      }>;
+    };
+    const steps: Step[] = [];
+
+    if (options.importVideos) {
+      // Oldest first so the imported feed reads in the original order
+      const videos = [...data.videos].sort((a, b) => a.date.localeCompare(b.date));
+      steps.push({
+        label: 'Importing videos',
+        items: videos.map(video => ({
+          key: `video:${video.id}`,
+          run: async (record, checkpoint) => {
+            checkpoint.posts[video.id] = await this.importVideo(video, data, options);
+            record.results.videosImported++;
+            record.results.engagementMetricsImported ||= options.importAnalytics;
+          },
+        })),
+      });
+    }
+
+    if (options.importFollowers) {
+      steps.push({
+        label: 'Importing following list',
+        items: data.following.map(user => ({
+          key: `follow:${user.username.toLowerCase()}`,
+          run: async record => {
+            const did = await this.resolveAccount(user.username);
+            if (!did) {
+              record.results.skipped = (record.results.skipped ?? 0) + 1;
+              return;
+            }
+            await this.target.putRecord('app.bsky.graph.follow', deterministicTid(user.date, user.username), {
+              $type: 'app.bsky.graph.follow',
+              subject: did,
+              createdAt: options.preserveMetadata ? user.date : new Date().toISOString(),
+            });
+            record.results.followersImported++;
+          },
+        })),
+      });
+    }
+
+    // Favourites have no equivalent here, so they fold into likes
+    const liked = new Map<string, TikTokVideoRef>();
+    for (const ref of [...data.likes, ...data.favorites]) {
+      const id = ref.id ?? ref.link;
+      if (!liked.has(id)) liked.set(id, ref);
+    }
+    if (options.importLikes !== false && liked.size > 0) {
+      steps.push({
+        label: 'Importing likes',
+        items: [...liked.entries()].map(([id, ref]) => ({
+          key: `like:${id}`,
+          run: async (record, checkpoint) => {
+            const subject = (ref.id && checkpoint.posts[ref.id]) || (await this.options.resolvePost?.(ref));
+            if (!subject) {
+              record.results.skipped = (record.results.skipped ?? 0) + 1;
+              return;
+            }
+            await this.target.putRecord('app.bsky.feed.like', deterministicTid(ref.date, id), {
+              $type: 'app.bsky.feed.like',
+              subject,
+              createdAt: options.preserveMetadata ? ref.date : new Date().toISOString(),
+            });
+            record.results.likesImported = (record.results.likesImported ?? 0) + 1;
+          },
+        })),
+      });
+    }
+
+    return steps;
+  }
+
+  private async importVideo(
+    video: TikTokVideo,
+    data: TikTokExport,
+    options: MigrationRecord['options']
+  ): Promise<{ uri: string; cid: string }> {
+    const bundled = data.media.get(video.id);
+    const media = bundled
+      ? { data: bundled, mimeType: 'video/mp4' }
+      : await (this.options.fetchMedia ?? defaultFetchMedia)(video).catch(error => {
+          throw error instanceof ItemError ? error : new ItemError((error as Error).message);
+        });
+
+    // A video the PDS rejects is recorded as failed rather than ending the import
+    try {
+      const blob = await this.target.uploadBlob(media.data, media.mimeType);
+
+      const rt = new RichText({ text: truncateGraphemes(video.caption, MAX_POST_GRAPHEMES) });
+      rt.detectFacetsWithoutResolution();
+      await this.resolveMentions(rt);
+
+      const post: Record<string, unknown> = {
+        $type: 'app.bsky.feed.post',
+        text: rt.text,
+        facets: rt.facets,
+        embed: { $type: 'app.bsky.embed.video', video: blob },
+        createdAt: options.preserveMetadata ? video.date : new Date().toISOString(),
+      };
+      if (options.preserveMetadata) {
+        post.via = {
+          source: 'tiktok',
+          id: video.id,
+          ...(options.importAnalytics ? { likes: video.likes } : {}),
+        };
+      }
+
+      return await this.target.putRecord('app.bsky.feed.post', deterministicTid(video.date, video.id), post);
+    } catch (error) {
+      throw error instanceof ItemError
+        ? error
+        : new ItemError(`Video ${video.id} could not be posted: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Detection without resolution leaves the handle where a mention's DID
+   * belongs. Mentions are resolved like followed accounts; ones that don't
+   * resolve are dropped so the post record stays valid.
+   */
+  private async resolveMentions(rt: RichText): Promise<void> {
+    const facets: NonNullable<RichText['facets']> = [];
+    for (const facet of rt.facets ?? []) {
+      const features: typeof facet.features = [];
+      for (const feature of facet.features) {
+        if (feature.$type !== MENTION_FEATURE) {
+          features.push(feature);
+          continue;
+        }
+        const did = await this.resolveAccount(String(feature.did));
+        if (did) features.push({ ...feature, did });
+      }
+      if (features.length > 0) facets.push({ ...facet, features });
+    }
+    rt.facets = facets.length > 0 ? facets : undefined;
+  }
+
+  private async resolveAccount(username: string): Promise<string | undefined> {
+    if (this.options.resolveAccount) {
+      return this.options.resolveAccount(username);
+    }
+    const handle = username.includes('.')
+      ? username
+      : `${username}.${this.options.handleDomain ?? 'bsky.social'}`;
+    return this.target.resolveHandle(handle.toLowerCase());
+  }
+}
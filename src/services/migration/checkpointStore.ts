@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import type { MigrationRecord } from '../atProtocolMigration';
+
+export interface ImportCheckpoint {
+  migrationUri: string;
+  /** Keys of items that were written, e.g. `video:7123` or `follow:alice` */
+  completed: string[];
+  /** Failure reason per item key; failed items are retried on resume */
+  failures: Record<string, string>;
+  /** Our post for each imported TikTok video id, so likes can point at it */
+  posts: Record<string, { uri: string; cid: string }>;
+  /** Counters as of the last written item; the migration record may lag behind */
+  results?: MigrationRecord['results'];
+  updatedAt: string;
+}
+
+export interface CheckpointStore {
+  load(migrationUri: string): Promise<ImportCheckpoint | undefined>;
+  save(checkpoint: ImportCheckpoint): Promise<void>;
+  clear(migrationUri: string): Promise<void>;
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, ImportCheckpoint>();
+
+  async load(migrationUri: string) {
+    const checkpoint = this.checkpoints.get(migrationUri);
+    return checkpoint && structuredClone(checkpoint);
+  }
+
+  async save(checkpoint: ImportCheckpoint) {
+    this.checkpoints.set(checkpoint.migrationUri, structuredClone(checkpoint));
+  }
+
+  async clear(migrationUri: string) {
+    this.checkpoints.delete(migrationUri);
+  }
+}
+
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private directory: string) {}
+
+  private fileFor(migrationUri: string) {
+    return path.join(this.directory, `${encodeURIComponent(migrationUri)}.json`);
+  }
+
+  async load(migrationUri: string): Promise<ImportCheckpoint | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(migrationUri), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(checkpoint: ImportCheckpoint) {
+    // Write-then-rename so a crash mid-write never leaves a corrupt checkpoint behind
+    const filePath = this.fileFor(checkpoint.migrationUri);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(checkpoint));
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  async clear(migrationUri: string) {
+    await fs.rm(this.fileFor(migrationUri), { force: true });
+  }
+}
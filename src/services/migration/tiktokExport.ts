@@ -0,0 +1,283 @@
+export interface TikTokVideo {
+  id: string;
+  date: string;
+  link: string;
+  caption: string;
+  likes: number;
+}
+
+export interface TikTokVideoRef {
+  id?: string;
+  date: string;
+  link: string;
+}
+
+export interface TikTokUserRef {
+  username: string;
+  date: string;
+}
+
+/** An entry left out of the export because it couldn't be read */
+export interface TikTokSkippedEntry {
+  section: 'videos' | 'likes' | 'favorites' | 'following';
+  /** Video id (or link) or username, whichever the entry has */
+  id: string;
+  reason: string;
+}
+
+export interface TikTokExport {
+  format: 'json' | 'txt';
+  profile: {
+    username?: string;
+    bio?: string;
+  };
+  videos: TikTokVideo[];
+  likes: TikTokVideoRef[];
+  favorites: TikTokVideoRef[];
+  following: TikTokUserRef[];
+  skipped: TikTokSkippedEntry[];
+  /** Media files bundled in the archive, keyed by video id */
+  media: Map<string, Uint8Array>;
+}
+
+export class TikTokExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TikTokExportError';
+  }
+}
+
+type Entry = Record<string, string>;
+
+const MEDIA_EXTENSIONS = /\.(mp4|mov|webm)$/i;
+
+// Exports have used several key spellings over the years; normalise them once
+const FIELD_ALIASES: Record<string, string> = {
+  date: 'date',
+  link: 'link',
+  videolink: 'link',
+  videourl: 'link',
+  url: 'link',
+  username: 'username',
+  title: 'caption',
+  caption: 'caption',
+  description: 'caption',
+  likes: 'likes',
+  'like(s)': 'likes',
+};
+
+function normaliseEntry(raw: Record<string, unknown>): Entry {
+  const entry: Entry = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = FIELD_ALIASES[key.toLowerCase().replace(/[\s_]/g, '')];
+    if (field && value !== null && value !== undefined) {
+      entry[field] = String(value).trim();
+    }
+  }
+  return entry;
+}
+
+/**
+ * TikTok stamps everything as "YYYY-MM-DD HH:mm:ss" in UTC.
+ */
+export function parseTikTokDate(value: string | undefined): string {
+  if (!value) {
+    throw new TikTokExportError('Missing date');
+  }
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TikTokExportError(`Invalid date "${value}"`);
+  }
+  return date.toISOString();
+}
+
+export function videoIdFromLink(link: string): string | undefined {
+  return link.match(/\/video\/(\d+)/)?.[1] ?? link.match(/[?&](?:item_id|video_id)=(\d+)/)?.[1];
+}
+
+function toVideo(entry: Entry): TikTokVideo | undefined {
+  if (!entry.link) return undefined;
+  return {
+    id: videoIdFromLink(entry.link) ?? entry.link,
+    date: parseTikTokDate(entry.date),
+    link: entry.link,
+    caption: entry.caption ?? '',
+    likes: Number.parseInt(entry.likes ?? '0', 10) || 0,
+  };
+}
+
+function toVideoRef(entry: Entry): TikTokVideoRef | undefined {
+  if (!entry.link) return undefined;
+  return { id: videoIdFromLink(entry.link), date: parseTikTokDate(entry.date), link: entry.link };
+}
+
+function toUserRef(entry: Entry): TikTokUserRef | undefined {
+  if (!entry.username) return undefined;
+  return { username: entry.username.replace(/^@/, ''), date: parseTikTokDate(entry.date) };
+}
+
+function entryId(entry: Entry): string {
+  if (entry.username) return entry.username.replace(/^@/, '');
+  return entry.link ? (videoIdFromLink(entry.link) ?? entry.link) : '';
+}
+
+/**
+ * Maps a section's entries, setting aside any the export got wrong (such
+ * as a malformed date) so one bad entry doesn't sink the whole archive.
+ */
+function collect<T>(
+  entries: Entry[],
+  map: (entry: Entry) => T | undefined,
+  section: TikTokSkippedEntry['section'],
+  skipped: TikTokSkippedEntry[]
+): T[] {
+  const items: T[] = [];
+  for (const entry of entries) {
+    try {
+      const item = map(entry);
+      if (item !== undefined) items.push(item);
+    } catch (error) {
+      if (!(error instanceof TikTokExportError)) throw error;
+      skipped.push({ section, id: entryId(entry), reason: error.message });
+    }
+  }
+  return items;
+}
+
+function findList(root: unknown, paths: string[][]): Entry[] {
+  for (const path of paths) {
+    let node: unknown = root;
+    for (const key of path) {
+      node = node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined;
+    }
+    if (Array.isArray(node)) {
+      return node.filter(item => item && typeof item === 'object').map(normaliseEntry);
+    }
+  }
+  return [];
+}
+
+function parseJsonExport(data: Record<string, any>): Omit<TikTokExport, 'media'> {
+  const profile = data.Profile?.['Profile Information']?.ProfileMap ?? {};
+  const skipped: TikTokSkippedEntry[] = [];
+  return {
+    format: 'json',
+    profile: { username: profile.userName, bio: profile.bioDescription },
+    videos: collect(
+      findList(data, [
+        ['Video', 'Videos', 'VideoList'],
+        ['Post', 'Posts', 'VideoList'],
+      ]),
+      toVideo,
+      'videos',
+      skipped
+    ),
+    likes: collect(
+      findList(data, [
+        ['Activity', 'Like List', 'ItemFavoriteList'],
+        ['Likes and Favorites', 'Like List', 'ItemFavoriteList'],
+      ]),
+      toVideoRef,
+      'likes',
+      skipped
+    ),
+    favorites: collect(
+      findList(data, [
+        ['Activity', 'Favorite Videos', 'FavoriteVideoList'],
+        ['Likes and Favorites', 'Favorite Videos', 'FavoriteVideoList'],
+      ]),
+      toVideoRef,
+      'favorites',
+      skipped
+    ),
+    following: collect(
+      findList(data, [
+        ['Activity', 'Following List', 'Following'],
+        ['Profile And Settings', 'Following', 'Following'],
+      ]),
+      toUserRef,
+      'following',
+      skipped
+    ),
+    skipped,
+  };
+}
+
+/**
+ * TXT exports are blank-line separated blocks of "Key: value" lines.
+ */
+function parseTxtBlocks(text: string): Entry[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map(block => {
+      const raw: Record<string, string> = {};
+      for (const line of block.split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+          raw[line.slice(0, separator)] = line.slice(separator + 1);
+        }
+      }
+      return normaliseEntry(raw);
+    })
+    .filter(entry => Object.keys(entry).length > 0);
+}
+
+function parseTxtExport(texts: Map<string, string>): Omit<TikTokExport, 'media'> {
+  const blocksFor = (...names: string[]) => {
+    for (const [path, text] of texts) {
+      const base = path.split('/').pop()!.toLowerCase();
+      if (names.includes(base)) return parseTxtBlocks(text);
+    }
+    return [];
+  };
+
+  const profile = blocksFor('profile info.txt', 'profile information.txt')[0];
+  const skipped: TikTokSkippedEntry[] = [];
+  return {
+    format: 'txt',
+    profile: { username: profile?.username },
+    videos: collect(blocksFor('videos.txt', 'posts.txt', 'video.txt'), toVideo, 'videos', skipped),
+    likes: collect(blocksFor('like list.txt', 'likes.txt'), toVideoRef, 'likes', skipped),
+    favorites: collect(blocksFor('favorite videos.txt', 'favorites.txt'), toVideoRef, 'favorites', skipped),
+    following: collect(blocksFor('following list.txt', 'following.txt'), toUserRef, 'following', skipped),
+    skipped,
+  };
+}
+
+/**
+ * Parses the files of a TikTok "Download your data" archive. Both the JSON
+ * (single user_data.json) and TXT (one file per section) variants are
+ * accepted; the format is detected from the archive contents.
+ */
+export function parseTikTokExport(files: Map<string, Uint8Array>): TikTokExport {
+  const decoder = new TextDecoder();
+  const media = new Map<string, Uint8Array>();
+  const texts = new Map<string, string>();
+  let json: Record<string, any> | undefined;
+
+  for (const [path, bytes] of files) {
+    const base = path.split('/').pop() ?? path;
+    if (base.startsWith('.') || path.startsWith('__MACOSX/')) continue;
+
+    if (MEDIA_EXTENSIONS.test(base)) {
+      media.set(base.replace(MEDIA_EXTENSIONS, ''), bytes);
+    } else if (base.toLowerCase().endsWith('.json') && !json) {
+      try {
+        json = JSON.parse(decoder.decode(bytes));
+      } catch (error) {
+        throw new TikTokExportError(`Could not parse ${path}: ${(error as Error).message}`);
+      }
+    } else if (base.toLowerCase().endsWith('.txt')) {
+      texts.set(path, decoder.decode(bytes));
+    }
+  }
+
+  if (json) {
+    return { ...parseJsonExport(json), media };
+  }
+  if (texts.size > 0) {
+    return { ...parseTxtExport(texts), media };
+  }
+  throw new TikTokExportError('Archive does not contain a TikTok data export');
+}
@@ -0,0 +1,121 @@
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of at most 64KiB, so scan backwards
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipError('Not a zip archive');
+}
+
+/**
+ * Reads every file entry of a zip archive into memory, keyed by its path.
+ * Supports the stored and deflate methods, which is what platform data
+ * exports use; directories are skipped.
+ */
+export function readZip(bytes: Uint8Array, maxEntrySize = 512 * 1024 * 1024): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 22) {
+    throw new ZipError('Not a zip archive');
+  }
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError('Corrupt central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const expectedCrc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) {
+      throw new ZipError(`Encrypted entry ${name} is not supported`);
+    }
+    if (size > maxEntrySize) {
+      throw new ZipError(`Entry ${name} exceeds the ${maxEntrySize} byte limit`);
+    }
+    if (localOffset + 30 > view.byteLength || view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new ZipError(`Corrupt local header for ${name}`);
+    }
+
+    // Sizes come from the central directory; local headers may defer them to a data descriptor
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (compressed.length !== compressedSize) {
+      throw new ZipError(`Truncated entry ${name}`);
+    }
+
+    let data: Uint8Array;
+    if (method === 0) {
+      data = compressed;
+    } else if (method === 8) {
+      try {
+        data = inflateRawSync(compressed, { maxOutputLength: maxEntrySize });
+      } catch (error) {
+        throw new ZipError(`Could not inflate ${name}: ${(error as Error).message}`);
+      }
+    } else {
+      throw new ZipError(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    if (data.length !== size || crc32(data) !== expectedCrc) {
+      throw new ZipError(`Checksum mismatch for ${name}`);
+    }
+    files.set(name, data);
+  }
+
+  return files;
+}
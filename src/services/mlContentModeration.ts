@@ -3,8 +3,10 @@ import { LanguageServiceClient } from '@google-cloud/language';
 import { Storage } from '@google-cloud/storage';
 import { VideoIntelligenceServiceClient } from '@google-cloud/video-intelligence';
 import { ImageAnnotatorClient } from '@google-cloud/vision';
+import type { MediaHash } from '@lena/moderation/hashing';
 
 import { atproto } from './atproto';
+import { mediaHashing } from './mediaHashing';
 
 interface ContentAnalysisResult {
   id: string;
@@ -148,6 +150,31 @@ class MLContentModerationService {
     contentUri: string
   ): Promise<ContentAnalysisResult> {
     try {
+      // Re-uploads of images we already removed are blocked without asking Vision
+      const imageHash = await this.hashImage(imageUrl);
+      const knownMatch = imageHash && (await mediaHashing.findMatch(imageHash));
+      if (knownMatch) {
+        const result: ContentAnalysisResult = {
+          id: crypto.randomUUID(),
+          contentType: 'image',
+          contentUri,
+          timestamp: new Date().toISOString(),
+          scores: {},
+          labels: [
+            {
+              name: 'known_removed_media',
+              confidence: knownMatch.similarity,
+              category: knownMatch.entry.reason || 'hash-match',
+            },
+          ],
+          moderationDecision: 'block',
+          confidence: knownMatch.similarity,
+        };
+
+        await this.storeAnalysisResult(result);
+        return result;
+      }
+
       const [_result] = await this.visionClient.safeSearchDetection(imageUrl);
       const [labelResult] = await this.visionClient.labelDetection(imageUrl);
 
@@ -162,6 +189,15 @@ class MLContentModerationService {
 
       const moderationDecision = this.determineModeration(scores);
 
+      // Blocked images go on the hash list so they can't simply be posted again
+      if (moderationDecision.action === 'block' && imageHash) {
+        mediaHashing.enqueueRemoved({
+          sourceId: contentUri,
+          reason: 'ml_block',
+          hashes: [imageHash],
+        });
+      }
+
       const result: ContentAnalysisResult = {
         id: crypto.randomUUID(),
         contentType: 'image',
@@ -227,6 +263,31 @@ class MLContentModerationService {
     }
   }
 
+  // Hashing needs the bytes locally; failing to get them shouldn't stop the Vision checks
+  private async hashImage(imageUrl: string): Promise<MediaHash | null> {
+    try {
+      const gcsPath = /^gs:\/\/([^/]+)\/(.+)$/.exec(imageUrl);
+      if (gcsPath) {
+        const [content] = await this.storage
+          .bucket(gcsPath[1])
+          .file(gcsPath[2])
+          .download();
+        return await mediaHashing.hashImage(content);
+      }
+
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`Image download failed with ${response.status}`);
+      }
+      return await mediaHashing.hashImage(
+        Buffer.from(await response.arrayBuffer())
+      );
+    } catch (error) {
+      console.error('Image hashing error:', error);
+      return null;
+    }
+  }
+
   private async analyzeToxicity(
     text: string
   ): Promise<ContentAnalysisResult['scores']> {
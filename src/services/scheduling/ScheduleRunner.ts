@@ -0,0 +1,155 @@
+import type { ContentSchedule } from '../atProtocolContentAutomation';
+
+import { ScheduleRun, ScheduleRunState, ScheduleRunStore } from './runStore';
+import { nextOccurrence, occurrencesBetween } from './schedule';
+
+/**
+ * What the runner needs from the schedule owner. ATProtocolContentAutomation
+ * implements this against the creator's repo.
+ */
+export interface ScheduleTarget {
+  listActiveSchedules(): Promise<ContentSchedule[]>;
+  publishScheduledRun(schedule: ContentSchedule, occurrence: Date): Promise<{ uri: string }>;
+  recordScheduleRun(
+    scheduleUri: string,
+    update: Pick<ContentSchedule, 'lastRun' | 'nextRun' | 'status'>
+  ): Promise<void>;
+}
+
+export interface ScheduleRunnerOptions {
+  target: ScheduleTarget;
+  store: ScheduleRunStore;
+  /**
+   * How late a run may be and still publish, in ms. Older occurrences found
+   * after downtime are recorded as missed instead of flooding followers with
+   * a backlog of posts.
+   */
+  misfireGrace?: number;
+  /** Poll interval in ms */
+  interval?: number;
+  /** Runs kept per schedule */
+  historySize?: number;
+  now?: () => Date;
+}
+
+const DEFAULT_MISFIRE_GRACE = 15 * 60 * 1000;
+const DEFAULT_INTERVAL = 60 * 1000;
+const DEFAULT_HISTORY_SIZE = 100;
+
+/**
+ * Publishes due schedule occurrences. Progress is saved to the run store after
+ * every occurrence, so a restart picks up exactly where the last run stopped.
+ */
+export class ScheduleRunner {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  private now: () => Date;
+
+  constructor(private options: ScheduleRunnerOptions) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  public start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error('Schedule runner tick failed:', error);
+      });
+    }, this.options.interval ?? DEFAULT_INTERVAL);
+    this.timer.unref();
+    // Catch up on anything that came due while we were down
+    void this.tick().catch(error => {
+      console.error('Schedule runner tick failed:', error);
+    });
+  }
+
+  public stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Processes every active schedule once and returns the runs recorded.
+   */
+  public async tick(): Promise<ScheduleRun[]> {
+    // A slow publish must not let the next poll post the same occurrence twice
+    if (this.ticking) return [];
+    this.ticking = true;
+
+    try {
+      const runs: ScheduleRun[] = [];
+      const now = this.now();
+      for (const schedule of await this.options.target.listActiveSchedules()) {
+        try {
+          runs.push(...(await this.runSchedule(schedule, now)));
+        } catch (error) {
+          console.error(`Schedule ${schedule.uri} failed:`, error);
+        }
+      }
+      return runs;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runSchedule(schedule: ContentSchedule, now: Date): Promise<ScheduleRun[]> {
+    const { target, store } = this.options;
+    const misfireGrace = this.options.misfireGrace ?? DEFAULT_MISFIRE_GRACE;
+    const state: ScheduleRunState = (await store.load(schedule.uri)) ?? {
+      scheduleUri: schedule.uri,
+      runs: [],
+      updatedAt: now.toISOString(),
+    };
+
+    const last = state.lastOccurrence ?? schedule.lastRun;
+    const due = occurrencesBetween(schedule, last ? new Date(last) : undefined, now);
+    const runs: ScheduleRun[] = [];
+
+    for (const occurrence of due) {
+      const run: ScheduleRun = { occurrence: occurrence.toISOString(), status: 'missed', at: now.toISOString() };
+
+      if (now.getTime() - occurrence.getTime() <= misfireGrace) {
+        try {
+          const post = await target.publishScheduledRun(schedule, occurrence);
+          run.status = 'published';
+          run.postUri = post.uri;
+        } catch (error) {
+          // Leave lastOccurrence alone so the next tick retries while still within grace
+          run.status = 'failed';
+          run.error = error instanceof Error ? error.message : String(error);
+          await this.saveRun(state, run, now);
+          runs.push(run);
+          console.error(`Failed to publish ${schedule.uri} for ${run.occurrence}:`, error);
+          break;
+        }
+      }
+
+      state.lastOccurrence = run.occurrence;
+      await this.saveRun(state, run, now);
+      runs.push(run);
+    }
+
+    // A failed occurrence is still the next one to run
+    const failed = runs.find(run => run.status === 'failed');
+    const next = failed ? new Date(failed.occurrence) : nextOccurrence(schedule, now);
+    const update = {
+      lastRun: state.lastOccurrence,
+      nextRun: next?.toISOString(),
+      status: next ? schedule.status : ('completed' as const),
+    };
+    if (
+      update.lastRun !== schedule.lastRun ||
+      update.nextRun !== schedule.nextRun ||
+      update.status !== schedule.status
+    ) {
+      await target.recordScheduleRun(schedule.uri, update);
+    }
+    return runs;
+  }
+
+  private async saveRun(state: ScheduleRunState, run: ScheduleRun, now: Date) {
+    state.runs = [run, ...state.runs].slice(0, this.options.historySize ?? DEFAULT_HISTORY_SIZE);
+    state.updatedAt = now.toISOString();
+    await this.options.store.save(state);
+  }
+}
@@ -0,0 +1,329 @@
+import {
+  WallTime,
+  epochToWallTime,
+  fromWallTime,
+  toWallTime,
+  wallTimeToEpoch,
+} from './timezone';
+
+export type Frequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY';
+
+export interface WeekdayRule {
+  /** 0 = Sunday, as in Date#getDay */
+  weekday: number;
+  /** Ordinal within the month or year, e.g. 2 for the second Monday or -1 for the last */
+  n?: number;
+}
+
+/**
+ * A parsed RFC 5545 RRULE. BYSECOND, BYYEARDAY, BYWEEKNO and sub-daily
+ * frequencies are not supported; scheduled posts don't need them.
+ */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  /** Raw UNTIL value; floating values are read in the schedule's zone */
+  until?: string;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  bySetPos?: number[];
+  weekStart: number;
+}
+
+export interface ParsedDateTime {
+  instant: Date;
+  wall: WallTime;
+  /** A bare date such as an all-day EXDATE */
+  dateOnly: boolean;
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Frequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY'];
+// Rules like FEB 30 never match; stop looking rather than spin forever
+const MAX_EMPTY_PERIODS = 5000;
+
+function parseIntegers(key: string, value: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(',').map(part => {
+    const number = Number(part);
+    const magnitude = Math.abs(number);
+    if (!/^[+-]?\d+$/.test(part) || (number < 0 && !allowNegative) || magnitude < min || magnitude > max) {
+      throw new RecurrenceRuleError(`Invalid ${key} value: ${part}`);
+    }
+    return number;
+  });
+}
+
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new RecurrenceRuleError(`Malformed RRULE part: ${part}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceRuleError(`Unsupported FREQ: ${parts.get('FREQ') ?? '(missing)'}`);
+  }
+  const rule: RecurrenceRule = { freq, interval: 1, weekStart: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntegers(key, value, 1, 10_000)[0]!;
+        break;
+      case 'COUNT':
+        rule.count = parseIntegers(key, value, 1, 100_000)[0]!;
+        break;
+      case 'UNTIL':
+        parseDateTime(value, 'UTC');
+        rule.until = value;
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(part => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part);
+          const n = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || n === 0 || (n !== undefined && Math.abs(n) > 53)) {
+            throw new RecurrenceRuleError(`Invalid BYDAY value: ${part}`);
+          }
+          return { weekday: WEEKDAYS.indexOf(match[2]!), n };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegers(key, value, 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegers(key, value, 1, 12);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntegers(key, value, 0, 23).sort((a, b) => a - b);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntegers(key, value, 0, 59).sort((a, b) => a - b);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegers(key, value, 1, 366, true);
+        break;
+      case 'WKST':
+        rule.weekStart = WEEKDAYS.indexOf(value);
+        if (rule.weekStart === -1) {
+          throw new RecurrenceRuleError(`Invalid WKST value: ${value}`);
+        }
+        break;
+      default:
+        throw new RecurrenceRuleError(`Unsupported RRULE part: ${key}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.byMonthDay && rule.freq === 'WEEKLY') {
+    throw new RecurrenceRuleError('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+  }
+  if (rule.byDay?.some(day => day.n !== undefined) && (rule.freq === 'WEEKLY' || rule.freq === 'DAILY')) {
+    throw new RecurrenceRuleError('Ordinal BYDAY values need FREQ=MONTHLY or FREQ=YEARLY');
+  }
+  return rule;
+}
+
+/**
+ * Parses the date-time forms schedules use: RFC 5545 basic
+ * (`20240310T090000Z`), ISO 8601 with an offset, or a floating ISO date-time
+ * or date that is read as wall time in `timeZone`.
+ */
+export function parseDateTime(value: string, timeZone: string): ParsedDateTime {
+  const match =
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value) ??
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z)?)?$/.exec(value);
+
+  if (match) {
+    const wall: WallTime = {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: Number(match[4] ?? 0),
+      minute: Number(match[5] ?? 0),
+      second: Number(match[6] ?? 0),
+    };
+    const epoch = wallTimeToEpoch(wall);
+    if (Number.isNaN(epoch) || epochToWallTime(epoch).day !== wall.day) {
+      throw new RecurrenceRuleError(`Invalid date-time: ${value}`);
+    }
+    if (match[7]) {
+      return { instant: new Date(epoch), wall: toWallTime(new Date(epoch), timeZone), dateOnly: false };
+    }
+    return { instant: fromWallTime(wall, timeZone), wall, dateOnly: match[4] === undefined };
+  }
+
+  const instant = new Date(value);
+  if (Number.isNaN(instant.getTime())) {
+    throw new RecurrenceRuleError(`Invalid date-time: ${value}`);
+  }
+  return { instant, wall: toWallTime(instant, timeZone), dateOnly: false };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Local-midnight epochs of every day in the period'th period after dtstart */
+function periodDays(rule: RecurrenceRule, dtstart: WallTime, period: number): number[] {
+  const step = period * rule.interval;
+  const range = (start: number, count: number) => Array.from({ length: count }, (_, i) => start + i * DAY);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [Date.UTC(dtstart.year, dtstart.month - 1, dtstart.day + step)];
+    case 'WEEKLY': {
+      const day = Date.UTC(dtstart.year, dtstart.month - 1, dtstart.day);
+      const weekStart = day - ((new Date(day).getUTCDay() - rule.weekStart + 7) % 7) * DAY;
+      return range(weekStart + step * 7 * DAY, 7);
+    }
+    case 'MONTHLY': {
+      const first = new Date(Date.UTC(dtstart.year, dtstart.month - 1 + step, 1));
+      return range(first.getTime(), daysInMonth(first.getUTCFullYear(), first.getUTCMonth() + 1));
+    }
+    case 'YEARLY': {
+      const year = dtstart.year + step;
+      return range(Date.UTC(year, 0, 1), (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY);
+    }
+  }
+}
+
+function matchesWeekday(rule: RecurrenceRule, date: Date): boolean {
+  const weekday = date.getUTCDay();
+  return rule.byDay!.some(day => {
+    if (day.weekday !== weekday) return false;
+    if (day.n === undefined) return true;
+
+    // Ordinals count within the month, or within the year for YEARLY without BYMONTH
+    const withinYear = rule.freq === 'YEARLY' && !rule.byMonth;
+    const year = date.getUTCFullYear();
+    const index = withinYear
+      ? (date.getTime() - Date.UTC(year, 0, 1)) / DAY
+      : date.getUTCDate() - 1;
+    const length = withinYear
+      ? (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY
+      : daysInMonth(year, date.getUTCMonth() + 1);
+    return day.n > 0 ? Math.floor(index / 7) + 1 === day.n : -(Math.floor((length - 1 - index) / 7) + 1) === day.n;
+  });
+}
+
+function periodCandidates(rule: RecurrenceRule, dtstart: WallTime, period: number): number[] {
+  const days = periodDays(rule, dtstart, period).filter(epoch => {
+    const date = new Date(epoch);
+    const month = date.getUTCMonth() + 1;
+    const monthDay = date.getUTCDate();
+
+    if (rule.byMonth && !rule.byMonth.includes(month)) return false;
+    if (rule.byMonthDay) {
+      const fromEnd = monthDay - daysInMonth(date.getUTCFullYear(), month) - 1;
+      if (!rule.byMonthDay.includes(monthDay) && !rule.byMonthDay.includes(fromEnd)) return false;
+    }
+    if (rule.byDay && !matchesWeekday(rule, date)) return false;
+
+    // Without day selectors the rule repeats on DTSTART's weekday, day or date
+    if (!rule.byDay && !rule.byMonthDay) {
+      if (rule.freq === 'WEEKLY' && date.getUTCDay() !== new Date(wallTimeToEpoch(dtstart)).getUTCDay()) return false;
+      if ((rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && monthDay !== dtstart.day) return false;
+      if (rule.freq === 'YEARLY' && !rule.byMonth && month !== dtstart.month) return false;
+    }
+    return true;
+  });
+
+  const hours = rule.byHour ?? [dtstart.hour];
+  const minutes = rule.byMinute ?? [dtstart.minute];
+  const candidates: number[] = [];
+  for (const day of days) {
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        candidates.push(day + ((hour * 60 + minute) * 60 + dtstart.second) * 1000);
+      }
+    }
+  }
+
+  if (!rule.bySetPos) return candidates;
+  const selected = rule.bySetPos
+    .map(position => candidates[position > 0 ? position - 1 : candidates.length + position])
+    .filter((epoch): epoch is number => epoch !== undefined);
+  return [...new Set(selected)].sort((a, b) => a - b);
+}
+
+export interface ExpansionOptions {
+  dtstart: WallTime;
+  timeZone: string;
+  exdates?: string[];
+  /** Only yield occurrences strictly after this instant */
+  after?: Date;
+}
+
+/**
+ * Yields the rule's occurrences in order as instants. Expansion happens in
+ * wall time and each occurrence is resolved in the zone separately, so a
+ * 09:00 post stays at 09:00 local across DST changes. COUNT is applied
+ * before EXDATE, as RFC 5545 specifies.
+ */
+export function* expandRRule(rule: RecurrenceRule, options: ExpansionOptions): Generator<Date> {
+  const { dtstart, timeZone } = options;
+  const start = wallTimeToEpoch(dtstart);
+  // Zone offsets are under a day, so wall times this far back are certainly before `after`
+  const skipBefore = options.after ? options.after.getTime() - DAY : -Infinity;
+  const until = rule.until !== undefined ? parseDateTime(rule.until, timeZone).instant.getTime() : undefined;
+
+  const excludedInstants = new Set<number>();
+  const excludedDays = new Set<number>();
+  for (const value of options.exdates ?? []) {
+    const exdate = parseDateTime(value, timeZone);
+    if (exdate.dateOnly) {
+      excludedDays.add(Date.UTC(exdate.wall.year, exdate.wall.month - 1, exdate.wall.day));
+    } else {
+      excludedInstants.add(exdate.instant.getTime());
+    }
+  }
+
+  let emitted = 0;
+  let emptyPeriods = 0;
+  for (let period = 0; ; period++) {
+    const candidates = periodCandidates(rule, dtstart, period).filter(local => local >= start);
+    if (candidates.length === 0) {
+      if (++emptyPeriods > MAX_EMPTY_PERIODS) return;
+      continue;
+    }
+    emptyPeriods = 0;
+
+    for (const local of candidates) {
+      if (local < skipBefore) {
+        // Still counted, so COUNT holds no matter where iteration starts
+        emitted++;
+        if (rule.count !== undefined && emitted > rule.count) return;
+        continue;
+      }
+      const instant = fromWallTime(epochToWallTime(local), timeZone);
+      if (until !== undefined && instant.getTime() > until) return;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+      emitted++;
+
+      if (excludedInstants.has(instant.getTime()) || excludedDays.has(local - (local % DAY))) continue;
+      if (options.after && instant <= options.after) continue;
+      yield instant;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface ScheduleRun {
+  /** The occurrence this run was for, not when it happened */
+  occurrence: string;
+  status: 'published' | 'missed' | 'failed';
+  at: string;
+  postUri?: string;
+  error?: string;
+}
+
+export interface ScheduleRunState {
+  scheduleUri: string;
+  /** Latest occurrence that was published or recorded as missed */
+  lastOccurrence?: string;
+  /** Most recent runs first */
+  runs: ScheduleRun[];
+  updatedAt: string;
+}
+
+export interface ScheduleRunStore {
+  load(scheduleUri: string): Promise<ScheduleRunState | undefined>;
+  save(state: ScheduleRunState): Promise<void>;
+}
+
+export class MemoryScheduleRunStore implements ScheduleRunStore {
+  private states = new Map<string, ScheduleRunState>();
+
+  async load(scheduleUri: string) {
+    const state = this.states.get(scheduleUri);
+    return state && structuredClone(state);
+  }
+
+  async save(state: ScheduleRunState) {
+    this.states.set(state.scheduleUri, structuredClone(state));
+  }
+}
+
+export class FileScheduleRunStore implements ScheduleRunStore {
+  constructor(private directory: string) {}
+
+  private fileFor(scheduleUri: string) {
+    return path.join(this.directory, `${encodeURIComponent(scheduleUri)}.json`);
+  }
+
+  async load(scheduleUri: string): Promise<ScheduleRunState | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(scheduleUri), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(state: ScheduleRunState) {
+    // Write-then-rename so a crash mid-write can't lose the record of what was already posted
+    const filePath = this.fileFor(state.scheduleUri);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(state));
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+}
@@ -0,0 +1,104 @@
+import type { ContentSchedule } from '../atProtocolContentAutomation';
+
+import { RecurrenceRule, RecurrenceRuleError, expandRRule, parseDateTime, parseRRule } from './rrule';
+import { TimeZoneError, isValidTimeZone } from './timezone';
+
+type SchedulePattern = Pick<ContentSchedule, 'frequency' | 'schedule'>;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Bounds how many occurrences one catch-up or preview may walk through
+const MAX_OCCURRENCES = 10_000;
+
+/**
+ * Builds the equivalent RRULE for schedules created before `rrule` existed.
+ */
+function legacyRRule({ frequency, schedule }: SchedulePattern): string {
+  const [hour, minute] = (schedule.time ?? '').split(':').map(Number);
+  const parts: string[] = [];
+
+  switch (frequency) {
+    case 'once':
+      return 'FREQ=DAILY;COUNT=1';
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      if (schedule.daysOfWeek?.length) parts.push(`BYDAY=${schedule.daysOfWeek.map(day => WEEKDAYS[day]).join(',')}`);
+      break;
+    case 'monthly':
+      parts.push('FREQ=MONTHLY');
+      if (schedule.daysOfMonth?.length) parts.push(`BYMONTHDAY=${schedule.daysOfMonth.join(',')}`);
+      break;
+  }
+  if (schedule.time) parts.push(`BYHOUR=${hour}`, `BYMINUTE=${minute}`);
+  return parts.join(';');
+}
+
+function resolve(pattern: SchedulePattern) {
+  const { schedule } = pattern;
+  const timeZone = schedule.timeZone ?? 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    throw new TimeZoneError(timeZone);
+  }
+
+  const rule: RecurrenceRule = parseRRule(schedule.rrule ?? legacyRRule(pattern));
+  if (schedule.endDate && rule.until === undefined && rule.count === undefined) {
+    rule.until = schedule.endDate;
+  }
+  return {
+    rule,
+    timeZone,
+    dtstart: parseDateTime(schedule.startDate, timeZone).wall,
+  };
+}
+
+/**
+ * Throws a RecurrenceRuleError or TimeZoneError if the schedule can't be
+ * expanded.
+ */
+export function validateSchedule(pattern: SchedulePattern): void {
+  const { rule, timeZone } = resolve(pattern);
+  for (const exdate of pattern.schedule.exdates ?? []) {
+    parseDateTime(exdate, timeZone);
+  }
+  if (rule.until !== undefined) {
+    parseDateTime(rule.until, timeZone);
+  }
+}
+
+export function* scheduleOccurrences(pattern: SchedulePattern, after?: Date): Generator<Date> {
+  const { rule, timeZone, dtstart } = resolve(pattern);
+  let count = 0;
+  for (const occurrence of expandRRule(rule, { dtstart, timeZone, exdates: pattern.schedule.exdates, after })) {
+    if (++count > MAX_OCCURRENCES) {
+      throw new RecurrenceRuleError(`Schedule has more than ${MAX_OCCURRENCES} occurrences in range`);
+    }
+    yield occurrence;
+  }
+}
+
+/**
+ * Occurrences strictly after `after` and no later than `until`.
+ */
+export function occurrencesBetween(pattern: SchedulePattern, after: Date | undefined, until: Date): Date[] {
+  const occurrences: Date[] = [];
+  for (const occurrence of scheduleOccurrences(pattern, after)) {
+    if (occurrence > until) break;
+    occurrences.push(occurrence);
+  }
+  return occurrences;
+}
+
+export function nextOccurrence(pattern: SchedulePattern, after: Date): Date | undefined {
+  return scheduleOccurrences(pattern, after).next().value ?? undefined;
+}
+
+export function previewOccurrences(pattern: SchedulePattern, count: number, after = new Date()): Date[] {
+  const occurrences: Date[] = [];
+  for (const occurrence of scheduleOccurrences(pattern, after)) {
+    if (occurrences.length >= count) break;
+    occurrences.push(occurrence);
+  }
+  return occurrences;
+}
@@ -0,0 +1,113 @@
+/**
+ * Wall-clock time in some time zone, with no offset attached. Months are
+ * 1-based.
+ */
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export class TimeZoneError extends Error {
+  constructor(timeZone: string) {
+    super(`Unknown time zone: ${timeZone}`);
+    this.name = 'TimeZoneError';
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new TimeZoneError(timeZone);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Treats a wall time as if it were UTC, which makes calendar arithmetic
+ * (adding days, finding weekdays) free of DST effects.
+ */
+export function wallTimeToEpoch(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+export function epochToWallTime(epoch: number): WallTime {
+  const date = new Date(epoch);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+export function toWallTime(instant: Date, timeZone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year!,
+    month: parts.month!,
+    day: parts.day!,
+    hour: parts.hour!,
+    minute: parts.minute!,
+    second: parts.second!,
+  };
+}
+
+function offsetAt(epoch: number, timeZone: string): number {
+  const instant = Math.floor(epoch / 1000) * 1000;
+  return wallTimeToEpoch(toWallTime(new Date(instant), timeZone)) - instant;
+}
+
+/**
+ * Resolves a wall time in a zone to an instant, following RFC 5545 for DST
+ * transitions: a time skipped by a spring-forward gap is shifted forward by
+ * the gap, and a time that occurs twice in a fall-back overlap resolves to
+ * the first occurrence.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const local = wallTimeToEpoch(wall);
+  // Zones never change offset twice within two days, so these bracket any transition
+  const before = offsetAt(local - DAY, timeZone);
+  const after = offsetAt(local + DAY, timeZone);
+
+  const candidates = [...new Set([before, after])]
+    .map(offset => local - offset)
+    .filter(epoch => wallTimeToEpoch(toWallTime(new Date(epoch), timeZone)) === local)
+    .sort((a, b) => a - b);
+
+  return new Date(candidates[0] ?? local - before);
+}
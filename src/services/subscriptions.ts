@@ -1,14 +1,22 @@
+import { BskyAgent, AtUri, AppBskyFeedPost } from '@atproto/api';
+import { ReplaySubject, Subscription } from 'rxjs';
+
+import { logger } from '../utils/logger';
 import {
-  BskyAgent,
-  AtUri,
-  AppBskyFeedPost,
-  AppBskyNotificationListNotifications,
-} from '@atproto/api';
-import { ReplaySubject } from 'rxjs';
+  FirehoseConsumer,
+  FirehoseEvent,
+  FirehoseOptions,
+  RepoOp,
+} from './firehose/FirehoseConsumer';
 
 export interface NotificationUpdate {
   type: 'notification';
-  notification: AppBskyNotificationListNotifications.Notification;
+  reason: 'like' | 'repost' | 'follow' | 'reply' | 'mention' | 'quote';
+  author: string;
+  uri: string;
+  cid?: string;
+  reasonSubject?: string;
+  record: Record<string, unknown>;
 }
 
 export interface PostUpdate {
@@ -18,17 +26,40 @@ export interface PostUpdate {
   cid: string;
 }
 
-export type Update = NotificationUpdate | PostUpdate;
+export interface IdentityUpdate {
+  type: 'identity';
+  did: string;
+  handle?: string;
+}
+
+export interface TombstoneUpdate {
+  type: 'tombstone';
+  did: string;
+}
+
+export type Update = NotificationUpdate | PostUpdate | IdentityUpdate | TombstoneUpdate;
+
+const SUBSCRIBED_COLLECTIONS = [
+  'app.bsky.feed.post',
+  'app.bsky.feed.like',
+  'app.bsky.feed.repost',
+  'app.bsky.graph.follow',
+];
 
 export class SubscriptionService {
   private agent: BskyAgent;
   private updateSubject = new ReplaySubject<Update>(100);
-  private notificationCursor?: string;
-  private pollInterval = 5000; // 5 seconds
-  private pollTimeout?: NodeJS.Timeout;
+  private firehose: FirehoseConsumer;
+  private firehoseSubscription?: Subscription;
+  private profiles = new Set<string>();
 
-  constructor(agent: BskyAgent) {
+  constructor(agent: BskyAgent, options: FirehoseOptions = {}) {
     this.agent = agent;
+    // Interactions with our own posts can come from any repo, so no DID filter here
+    this.firehose = new FirehoseConsumer({
+      collections: SUBSCRIBED_COLLECTIONS,
+      ...options,
+    });
   }
 
   public get updates() {
@@ -36,81 +67,113 @@ export class SubscriptionService {
   }
 
   public async start() {
-    await this.pollNotifications();
-    this.schedulePoll();
+    if (!this.firehoseSubscription) {
+      this.firehoseSubscription = this.firehose.events.subscribe((event: FirehoseEvent) =>
+        this.handleEvent(event)
+      );
+    }
+    await this.firehose.start();
   }
 
-  public stop() {
-    if (this.pollTimeout) {
-      clearTimeout(this.pollTimeout);
-      this.pollTimeout = undefined;
-    }
+  public async stop() {
+    this.firehoseSubscription?.unsubscribe();
+    this.firehoseSubscription = undefined;
+    await this.firehose.stop();
   }
 
-  private schedulePoll() {
-    this.pollTimeout = setTimeout(async () => {
-      await this.pollNotifications();
-      this.schedulePoll();
-    }, this.pollInterval);
+  public async subscribeToProfile(did: string) {
+    this.profiles.add(did);
   }
 
-  private async pollNotifications() {
-    try {
-      const response = await this.agent.listNotifications({
-        cursor: this.notificationCursor,
-        limit: 20,
-      });
+  public unsubscribeFromProfile(did: string) {
+    this.profiles.delete(did);
+  }
+
+  private handleEvent(event: FirehoseEvent) {
+    switch (event.type) {
+      case 'commit':
+        for (const op of event.ops) {
+          if (op.action === 'create' && op.record) {
+            this.handleCreate(event.repo, op);
+          }
+        }
+        break;
+      case 'identity':
+      case 'handle':
+        if (this.profiles.has(event.did)) {
+          this.updateSubject.next({ type: 'identity', did: event.did, handle: event.handle });
+        }
+        break;
+      case 'tombstone':
+        if (this.profiles.has(event.did)) {
+          this.updateSubject.next({ type: 'tombstone', did: event.did });
+        }
+        break;
+      case 'info':
+        logger.info(`Firehose info ${event.name}:`, event.message);
+        break;
+    }
+  }
 
-      if (!response.success) return;
+  private handleCreate(repo: string, op: RepoOp) {
+    const record = op.record as Record<string, any>;
 
-      // Update cursor for next poll
-      this.notificationCursor = response.data.cursor;
+    if (op.collection === 'app.bsky.feed.post' && this.profiles.has(repo)) {
+      this.updateSubject.next({
+        type: 'post',
+        post: record as AppBskyFeedPost.Record,
+        uri: new AtUri(op.uri),
+        cid: op.cid ?? '',
+      });
+    }
 
-      // Emit new notifications
-      for (const notification of response.data.notifications) {
-        this.updateSubject.next({
-          type: 'notification',
-          notification,
-        });
-      }
-    } catch (error) {
-      console.error('Error polling notifications:', error);
+    const notification = this.toNotification(repo, op, record);
+    if (notification) {
+      this.updateSubject.next(notification);
     }
   }
 
-  public async subscribeToProfile(did: string) {
-    try {
-      const response = await this.agent.getAuthorFeed(did, { limit: 1 });
-      if (!response.success) return;
-
-      // Store the latest post for future comparison
-      let latestPostCid = response.data.feed[0]?.post.cid;
-
-      // Set up polling for this profile
-      const pollProfile = async () => {
-        try {
-          const newResponse = await this.agent.getAuthorFeed(did, { limit: 1 });
-          if (!newResponse.success) return;
-
-          const newPost = newResponse.data.feed[0]?.post;
-          if (newPost && newPost.cid !== latestPostCid) {
-            latestPostCid = newPost.cid;
-            this.updateSubject.next({
-              type: 'post',
-              post: newPost.record as AppBskyFeedPost.Record,
-              uri: new AtUri(newPost.uri),
-              cid: newPost.cid,
-            });
-          }
-        } catch (error) {
-          console.error('Error polling profile:', error);
+  // Mirrors the reasons listNotifications reports, derived from raw records
+  private toNotification(
+    author: string,
+    op: RepoOp,
+    record: Record<string, any>
+  ): NotificationUpdate | undefined {
+    const self = this.agent.session?.did;
+    if (!self || author === self) return undefined;
+
+    const base = { type: 'notification' as const, author, uri: op.uri, cid: op.cid, record };
+    const isOurs = (uri?: string) => typeof uri === 'string' && uri.startsWith(`at://${self}/`);
+
+    switch (op.collection) {
+      case 'app.bsky.feed.like':
+        return isOurs(record.subject?.uri)
+          ? { ...base, reason: 'like', reasonSubject: record.subject.uri }
+          : undefined;
+      case 'app.bsky.feed.repost':
+        return isOurs(record.subject?.uri)
+          ? { ...base, reason: 'repost', reasonSubject: record.subject.uri }
+          : undefined;
+      case 'app.bsky.graph.follow':
+        return record.subject === self ? { ...base, reason: 'follow' } : undefined;
+      case 'app.bsky.feed.post': {
+        if (isOurs(record.reply?.parent?.uri)) {
+          return { ...base, reason: 'reply', reasonSubject: record.reply.parent.uri };
         }
-      };
-
-      // Poll every 10 seconds
-      setInterval(pollProfile, 10000);
-    } catch (error) {
-      console.error('Error subscribing to profile:', error);
+        const embedded = record.embed?.record?.uri ?? record.embed?.record?.record?.uri;
+        if (isOurs(embedded)) {
+          return { ...base, reason: 'quote', reasonSubject: embedded };
+        }
+        const mentioned = (record.facets ?? []).some((facet: any) =>
+          facet.features?.some(
+            (feature: any) =>
+              feature.$type === 'app.bsky.richtext.facet#mention' && feature.did === self
+          )
+        );
+        return mentioned ? { ...base, reason: 'mention' } : undefined;
+      }
+      default:
+        return undefined;
     }
   }
 }
@@ -0,0 +1,276 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import {
+  ChunkChecksum,
+  UploadChecksumError,
+  UploadInfo,
+  UploadNotFoundError,
+  UploadSizeError,
+  UploadStore,
+} from './uploadStore';
+
+export const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = 'creation,termination,expiration,checksum';
+const CHECKSUM_ALGORITHMS: ChunkChecksum['algorithm'][] = ['sha1', 'sha256', 'md5'];
+
+export interface TusOptions {
+  store: UploadStore;
+  /** Public path uploads live under; the Location header is built from it */
+  basePath: string;
+  maxSize: number;
+  /** How long an unfinished upload is kept, in milliseconds */
+  expiresIn?: number;
+  /** Rejects uploads at creation time, e.g. by content type */
+  validateMetadata?: (metadata: Record<string, string>) => string | undefined;
+}
+
+export class TusError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TusError';
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      upload?: UploadInfo;
+    }
+  }
+}
+
+/**
+ * Upload-Metadata is a comma separated list of `key base64(value)` pairs.
+ */
+export function parseUploadMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(',')) {
+    const [key, value, ...rest] = pair.trim().split(' ');
+    if (!key || rest.length > 0 || key in metadata) {
+      throw new TusError(400, 'Invalid Upload-Metadata header');
+    }
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  }
+  return metadata;
+}
+
+function serializeUploadMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value, 'utf8').toString('base64')}`)
+    .join(',');
+}
+
+function parseChecksum(header: string | undefined): ChunkChecksum | undefined {
+  if (!header) return undefined;
+  const [algorithm, digest] = header.split(' ');
+  if (!CHECKSUM_ALGORITHMS.includes(algorithm as ChunkChecksum['algorithm']) || !digest) {
+    throw new TusError(400, `Unsupported checksum algorithm ${algorithm}`);
+  }
+  return { algorithm: algorithm as ChunkChecksum['algorithm'], digest };
+}
+
+function parseNonNegativeInteger(value: string | undefined, header: string): number {
+  if (!value || !/^\d+$/.test(value)) {
+    throw new TusError(400, `Invalid ${header} header`);
+  }
+  return Number(value);
+}
+
+function setCommonHeaders(res: Response, upload?: UploadInfo) {
+  res.setHeader('Tus-Resumable', TUS_VERSION);
+  if (upload) {
+    res.setHeader('Upload-Expires', new Date(upload.expiresAt).toUTCString());
+  }
+}
+
+function sendError(res: Response, error: unknown) {
+  if (error instanceof TusError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  if (error instanceof UploadNotFoundError) {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof UploadChecksumError) {
+    // 460 Checksum Mismatch is defined by the tus checksum extension
+    return res.status(460).json({ error: error.message });
+  }
+  if (error instanceof UploadSizeError) {
+    return res.status(413).json({ error: error.message });
+  }
+  console.error('Upload request failed:', error);
+  return res.status(500).json({ error: 'Upload failed' });
+}
+
+/**
+ * Express handlers implementing the tus 1.0 core protocol plus the
+ * creation, termination, expiration and checksum extensions. PATCH calls
+ * `next()` once the final chunk lands, with `req.upload` set, so the route can
+ * hand the finished file to the rest of the pipeline.
+ */
+export function createTusHandler(options: TusOptions) {
+  const { store, basePath, maxSize } = options;
+  const expiresIn = options.expiresIn ?? 24 * 60 * 60 * 1000;
+  // One writer per upload; a second PATCH while the first is streaming would corrupt offsets
+  const locks = new Set<string>();
+
+  const requireTusVersion: RequestHandler = (req, res, next) => {
+    if (req.method !== 'OPTIONS' && req.header('Tus-Resumable') !== TUS_VERSION) {
+      res.setHeader('Tus-Version', TUS_VERSION);
+      return res.status(412).json({ error: 'Unsupported Tus-Resumable version' });
+    }
+    return next();
+  };
+
+  const loadUpload = async (req: Request): Promise<UploadInfo> => {
+    const upload = await store.get(req.params.id!);
+    // Another user's upload is indistinguishable from a missing one
+    if (!upload || (upload.owner && upload.owner !== req.currentUser?.id)) {
+      throw new TusError(404, 'Upload not found');
+    }
+    if (new Date(upload.expiresAt) <= new Date()) {
+      await store.remove(upload.id);
+      throw new TusError(410, 'Upload expired');
+    }
+    return upload;
+  };
+
+  const capabilities: RequestHandler = (_req, res) => {
+    setCommonHeaders(res);
+    res.setHeader('Tus-Version', TUS_VERSION);
+    res.setHeader('Tus-Extension', TUS_EXTENSIONS);
+    res.setHeader('Tus-Max-Size', String(maxSize));
+    res.setHeader('Tus-Checksum-Algorithm', CHECKSUM_ALGORITHMS.join(','));
+    res.status(204).end();
+  };
+
+  /**
+   * Exposes Upload-Metadata as `req.body` so the route's usual body
+   * validators run before any bytes are accepted.
+   */
+  const parseMetadata: RequestHandler = (req, res, next) => {
+    try {
+      req.body = parseUploadMetadata(req.header('Upload-Metadata'));
+      next();
+    } catch (error) {
+      setCommonHeaders(res);
+      sendError(res, error);
+    }
+  };
+
+  const create: RequestHandler = async (req, res) => {
+    setCommonHeaders(res);
+    try {
+      if (req.header('Upload-Defer-Length')) {
+        throw new TusError(400, 'Deferred upload length is not supported');
+      }
+      const size = parseNonNegativeInteger(req.header('Upload-Length'), 'Upload-Length');
+      if (size > maxSize) {
+        throw new TusError(413, `Upload exceeds the maximum size of ${maxSize} bytes`);
+      }
+      const metadata = parseUploadMetadata(req.header('Upload-Metadata'));
+      const rejection = options.validateMetadata?.(metadata);
+      if (rejection) {
+        throw new TusError(415, rejection);
+      }
+
+      const now = new Date();
+      const upload = await store.create({
+        size,
+        metadata,
+        owner: req.currentUser?.id,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + expiresIn).toISOString(),
+      });
+
+      setCommonHeaders(res, upload);
+      res.setHeader('Location', `${basePath}/${upload.id}`);
+      res.status(201).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+  const head: RequestHandler = async (req, res) => {
+    setCommonHeaders(res);
+    try {
+      const upload = await loadUpload(req);
+      setCommonHeaders(res, upload);
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Upload-Offset', String(upload.offset));
+      res.setHeader('Upload-Length', String(upload.size));
+      if (Object.keys(upload.metadata).length > 0) {
+        res.setHeader('Upload-Metadata', serializeUploadMetadata(upload.metadata));
+      }
+      res.status(200).end();
+    } catch (error) {
+      // HEAD responses carry no body, only the status
+      res.status(error instanceof TusError ? error.status : 500).end();
+    }
+  };
+
+  const patch = async (req: Request, res: Response, next: NextFunction) => {
+    setCommonHeaders(res);
+    let locked: string | undefined;
+    try {
+      if (req.header('Content-Type') !== 'application/offset+octet-stream') {
+        throw new TusError(415, 'Content-Type must be application/offset+octet-stream');
+      }
+      const offset = parseNonNegativeInteger(req.header('Upload-Offset'), 'Upload-Offset');
+      const checksum = parseChecksum(req.header('Upload-Checksum'));
+      const upload = await loadUpload(req);
+      if (locks.has(upload.id)) {
+        throw new TusError(423, 'Upload is locked by another request');
+      }
+      if (offset !== upload.offset) {
+        throw new TusError(409, `Upload-Offset ${offset} does not match current offset ${upload.offset}`);
+      }
+
+      locks.add(upload.id);
+      locked = upload.id;
+      const updated = await store.write(upload.id, offset, req, checksum);
+
+      setCommonHeaders(res, updated);
+      res.setHeader('Upload-Offset', String(updated.offset));
+      if (updated.offset === updated.size) {
+        req.upload = updated;
+        req.body = { ...updated.metadata };
+        return next();
+      }
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    } finally {
+      if (locked) locks.delete(locked);
+    }
+  };
+
+  const terminate: RequestHandler = async (req, res) => {
+    setCommonHeaders(res);
+    try {
+      const upload = await loadUpload(req);
+      if (locks.has(upload.id)) {
+        throw new TusError(423, 'Upload is locked by another request');
+      }
+      await store.remove(upload.id);
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+  return {
+    requireTusVersion,
+    options: capabilities,
+    parseMetadata,
+    create,
+    head,
+    patch,
+    terminate,
+    removeExpired: (now?: Date) => store.removeExpired(now),
+  };
+}
@@ -0,0 +1,188 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export interface UploadInfo {
+  id: string;
+  size: number;
+  offset: number;
+  metadata: Record<string, string>;
+  owner?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ChunkChecksum {
+  algorithm: 'sha1' | 'sha256' | 'md5';
+  /** Base64 digest of the chunk, as sent in Upload-Checksum */
+  digest: string;
+}
+
+export class UploadNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Upload ${id} not found`);
+    this.name = 'UploadNotFoundError';
+  }
+}
+
+export class UploadChecksumError extends Error {
+  constructor(id: string) {
+    super(`Checksum mismatch for chunk of upload ${id}`);
+    this.name = 'UploadChecksumError';
+  }
+}
+
+export class UploadSizeError extends Error {
+  constructor(id: string, size: number) {
+    super(`Chunk would exceed the declared length of ${size} bytes for upload ${id}`);
+    this.name = 'UploadSizeError';
+  }
+}
+
+/**
+ * Backend that resumable uploads stream into. Writes must be atomic with
+ * respect to checksums: a chunk that fails verification leaves the offset
+ * where it was.
+ */
+export interface UploadStore {
+  create(info: Omit<UploadInfo, 'id' | 'offset'>): Promise<UploadInfo>;
+  get(id: string): Promise<UploadInfo | undefined>;
+  write(id: string, offset: number, source: Readable, checksum?: ChunkChecksum): Promise<UploadInfo>;
+  read(id: string): Readable;
+  readRange(id: string, offset: number, length: number): Promise<Uint8Array>;
+  remove(id: string): Promise<void>;
+  removeExpired(now?: Date): Promise<string[]>;
+}
+
+const UPLOAD_ID = /^[0-9a-f-]{36}$/;
+
+export class FileUploadStore implements UploadStore {
+  constructor(private directory: string) {}
+
+  private dataPath(id: string) {
+    // Ids come from URLs; never let one escape the upload directory
+    if (!UPLOAD_ID.test(id)) {
+      throw new UploadNotFoundError(id);
+    }
+    return path.join(this.directory, id);
+  }
+
+  private infoPath(id: string) {
+    return `${this.dataPath(id)}.json`;
+  }
+
+  private async saveInfo(info: UploadInfo) {
+    const infoPath = this.infoPath(info.id);
+    await fs.writeFile(`${infoPath}.tmp`, JSON.stringify(info));
+    await fs.rename(`${infoPath}.tmp`, infoPath);
+  }
+
+  async create(info: Omit<UploadInfo, 'id' | 'offset'>): Promise<UploadInfo> {
+    const upload: UploadInfo = { ...info, id: randomUUID(), offset: 0 };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.dataPath(upload.id), new Uint8Array(0));
+    await this.saveInfo(upload);
+    return upload;
+  }
+
+  async get(id: string): Promise<UploadInfo | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.infoPath(id), 'utf8'));
+    } catch (error) {
+      if (error instanceof UploadNotFoundError || (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(id: string, offset: number, source: Readable, checksum?: ChunkChecksum): Promise<UploadInfo> {
+    const info = await this.get(id);
+    if (!info) {
+      throw new UploadNotFoundError(id);
+    }
+
+    const dataPath = this.dataPath(id);
+    const hash = checksum ? createHash(checksum.algorithm) : undefined;
+    let received = 0;
+    const meter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (offset + received > info.size) {
+          callback(new UploadSizeError(id, info.size));
+          return;
+        }
+        hash?.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    let failure: unknown;
+    try {
+      await pipeline(source, meter, createWriteStream(dataPath, { flags: 'r+', start: offset }));
+      if (hash && hash.digest('base64') !== checksum!.digest) {
+        failure = new UploadChecksumError(id);
+      }
+    } catch (error) {
+      failure = error;
+    }
+
+    if (failure && (checksum || failure instanceof UploadSizeError)) {
+      // Verified chunks are all-or-nothing, so roll back whatever reached disk
+      await fs.truncate(dataPath, offset);
+      throw failure;
+    }
+
+    // An interrupted unverified chunk keeps the bytes that made it, as tus allows
+    info.offset = (await fs.stat(dataPath)).size;
+    await this.saveInfo(info);
+    if (failure) {
+      throw failure;
+    }
+    return info;
+  }
+
+  read(id: string): Readable {
+    return createReadStream(this.dataPath(id));
+  }
+
+  async readRange(id: string, offset: number, length: number): Promise<Uint8Array> {
+    const file = await fs.open(this.dataPath(id), 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await file.read(buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  }
+
+  async remove(id: string) {
+    await fs.rm(this.dataPath(id), { force: true });
+    await fs.rm(this.infoPath(id), { force: true });
+  }
+
+  async removeExpired(now = new Date()): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const removed: string[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const id = entry.slice(0, -'.json'.length);
+      const info = await this.get(id);
+      if (info && new Date(info.expiresAt) <= now) {
+        await this.remove(id);
+        removed.push(id);
+      }
+    }
+    return removed;
+  }
+}
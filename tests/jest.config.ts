@@ -21,7 +21,10 @@ const config: Config.InitialOptions = {
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
-    '^@tests/(.*)$': '<rootDir>/tests/$1'
+    '^@tests/(.*)$': '<rootDir>/tests/$1',
+    // Workspace packages are tested against their source, not their build
+    '^@lena/moderation/(.*)$': '<rootDir>/packages/moderation/src/$1',
+    '^@tiktok-toe/shared/ledger$': '<rootDir>/packages/shared/src/services/ledger'
   },
 
   // Coverage configuration
@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ATProtocolContentAutomation, ContentSchedule } from '../../src/services/atProtocolContentAutomation';
+import { RecurrenceRuleError } from '../../src/services/scheduling/rrule';
+import { ScheduleRunner, ScheduleTarget } from '../../src/services/scheduling/ScheduleRunner';
+import { FileScheduleRunStore, MemoryScheduleRunStore } from '../../src/services/scheduling/runStore';
+import { previewOccurrences } from '../../src/services/scheduling/schedule';
+import { TimeZoneError } from '../../src/services/scheduling/timezone';
+
+jest.mock('@atproto/api', () => ({ BskyAgent: jest.fn() }), { virtual: true });
+
+const pattern = (schedule: Partial<ContentSchedule['schedule']>, frequency: ContentSchedule['frequency'] = 'daily') => ({
+  frequency,
+  schedule: { startDate: '2024-01-01T00:00', ...schedule },
+});
+
+const preview = (schedule: Partial<ContentSchedule['schedule']>, count: number, after = '2000-01-01T00:00:00Z') =>
+  previewOccurrences(pattern(schedule), count, new Date(after)).map(date => date.toISOString());
+
+describe('content schedule recurrence', () => {
+  it('keeps local wall time across DST changes', () => {
+    expect(
+      preview({ startDate: '2024-03-09T09:00', rrule: 'FREQ=DAILY', timeZone: 'America/New_York' }, 3)
+    ).toEqual(['2024-03-09T14:00:00.000Z', '2024-03-10T13:00:00.000Z', '2024-03-11T13:00:00.000Z']);
+  });
+
+  it('shifts times in a DST gap forward and picks the first of repeated times', () => {
+    expect(
+      preview({ startDate: '2024-03-09T02:30', rrule: 'FREQ=DAILY;COUNT=3', timeZone: 'America/New_York' }, 5)
+    ).toEqual(['2024-03-09T07:30:00.000Z', '2024-03-10T07:30:00.000Z', '2024-03-11T06:30:00.000Z']);
+    expect(
+      preview({ startDate: '2024-11-03T01:30', rrule: 'FREQ=DAILY;COUNT=1', timeZone: 'America/New_York' }, 5)
+    ).toEqual(['2024-11-03T05:30:00.000Z']);
+  });
+
+  it('supports BYSETPOS and ordinal weekdays', () => {
+    expect(
+      preview(
+        {
+          startDate: '2024-01-01T17:00',
+          rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+          timeZone: 'Europe/London',
+        },
+        4
+      )
+    ).toEqual([
+      '2024-01-31T17:00:00.000Z',
+      '2024-02-29T17:00:00.000Z',
+      '2024-03-29T17:00:00.000Z',
+      '2024-04-30T16:00:00.000Z',
+    ]);
+    expect(preview({ startDate: '2024-01-01T12:00', rrule: 'FREQ=MONTHLY;BYDAY=2TU' }, 2)).toEqual([
+      '2024-01-09T12:00:00.000Z',
+      '2024-02-13T12:00:00.000Z',
+    ]);
+    expect(preview({ startDate: '2024-01-01T12:00', rrule: 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH' }, 2)).toEqual([
+      '2024-11-28T12:00:00.000Z',
+      '2025-11-27T12:00:00.000Z',
+    ]);
+    expect(preview({ startDate: '2024-01-31T08:00', rrule: 'FREQ=MONTHLY;BYMONTHDAY=-1' }, 2)).toEqual([
+      '2024-01-31T08:00:00.000Z',
+      '2024-02-29T08:00:00.000Z',
+    ]);
+  });
+
+  it('applies COUNT before EXDATE and stops at UNTIL', () => {
+    expect(
+      preview(
+        {
+          startDate: '2024-01-01T10:00',
+          rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+          exdates: ['2024-01-03T10:00'],
+        },
+        10
+      )
+    ).toEqual(['2024-01-01T10:00:00.000Z', '2024-01-08T10:00:00.000Z', '2024-01-10T10:00:00.000Z']);
+
+    expect(
+      preview(
+        { startDate: '2024-01-01T10:00', rrule: 'FREQ=DAILY;UNTIL=20240103T235959Z', exdates: ['2024-01-02'] },
+        10
+      )
+    ).toEqual(['2024-01-01T10:00:00.000Z', '2024-01-03T10:00:00.000Z']);
+  });
+
+  it('only previews occurrences after the given time', () => {
+    expect(
+      preview({ startDate: '2020-01-01T06:00', rrule: 'FREQ=DAILY;COUNT=2000' }, 2, '2024-06-01T12:00:00Z')
+    ).toEqual(['2024-06-02T06:00:00.000Z', '2024-06-03T06:00:00.000Z']);
+    expect(preview({ startDate: '2020-01-01T06:00', rrule: 'FREQ=DAILY;COUNT=10' }, 2, '2024-06-01T12:00:00Z')).toEqual(
+      []
+    );
+  });
+
+  it('converts legacy frequencies and validates through the service', () => {
+    const automation = new ATProtocolContentAutomation({} as never);
+    expect(
+      automation.previewSchedule({
+        frequency: 'weekly',
+        schedule: { startDate: '2024-01-01', time: '09:30', daysOfWeek: [1, 3], timeZone: 'Asia/Tokyo' },
+        count: 3,
+        after: '2023-12-31T00:00:00Z',
+      })
+    ).toEqual(['2024-01-01T00:30:00.000Z', '2024-01-03T00:30:00.000Z', '2024-01-08T00:30:00.000Z']);
+
+    expect(() =>
+      automation.previewSchedule({ frequency: 'daily', schedule: { startDate: '2024-01-01', rrule: 'FREQ=HOURLY' } })
+    ).toThrow(RecurrenceRuleError);
+    expect(() =>
+      automation.previewSchedule({
+        frequency: 'daily',
+        schedule: { startDate: '2024-01-01', rrule: 'FREQ=DAILY;COUNT=2;UNTIL=20240105T000000Z' },
+      })
+    ).toThrow(RecurrenceRuleError);
+    expect(() =>
+      automation.previewSchedule({ frequency: 'daily', schedule: { startDate: '2024-01-01', timeZone: 'Mars/Olympus' } })
+    ).toThrow(TimeZoneError);
+  });
+});
+
+describe('ScheduleRunner', () => {
+  const schedule = (overrides: Partial<ContentSchedule['schedule']> = {}): ContentSchedule => ({
+    uri: 'at://did:plc:creator/app.bsky.commerce.contentSchedule/1',
+    cid: 'cid',
+    name: 'Daily tip',
+    templateUri: 'at://did:plc:creator/app.bsky.commerce.contentTemplate/1',
+    frequency: 'daily',
+    schedule: { startDate: '2024-01-01T09:00', rrule: 'FREQ=DAILY', ...overrides },
+    variables: {},
+    status: 'active',
+  });
+
+  const fakeTarget = (schedules: ContentSchedule[]) => {
+    const published: string[] = [];
+    const target = {
+      published,
+      fail: false,
+      listActiveSchedules: jest.fn(async () => schedules),
+      publishScheduledRun: jest.fn(async (_schedule: ContentSchedule, occurrence: Date) => {
+        if (target.fail) throw new Error('PDS unavailable');
+        published.push(occurrence.toISOString());
+        return { uri: `at://post/${published.length}` };
+      }),
+      recordScheduleRun: jest.fn(async (_uri: string, update: Pick<ContentSchedule, 'lastRun' | 'nextRun' | 'status'>) => {
+        Object.assign(schedules[0]!, update);
+      }),
+    };
+    return target satisfies ScheduleTarget;
+  };
+
+  it('publishes due runs and records misses after downtime', async () => {
+    const target = fakeTarget([schedule()]);
+    const store = new MemoryScheduleRunStore();
+    const runner = new ScheduleRunner({ target, store, now: () => new Date('2024-01-05T09:05:00Z') });
+
+    const runs = await runner.tick();
+    expect(runs.map(run => run.status)).toEqual(['missed', 'missed', 'missed', 'missed', 'published']);
+    expect(target.published).toEqual(['2024-01-05T09:00:00.000Z']);
+    expect(target.recordScheduleRun).toHaveBeenCalledWith(schedule().uri, {
+      lastRun: '2024-01-05T09:00:00.000Z',
+      nextRun: '2024-01-06T09:00:00.000Z',
+      status: 'active',
+    });
+
+    // Nothing new is due on the next poll
+    expect(await runner.tick()).toEqual([]);
+    expect(target.published).toHaveLength(1);
+  });
+
+  it('retries failed publishes without skipping the occurrence', async () => {
+    const target = fakeTarget([schedule()]);
+    let now = new Date('2024-01-01T09:01:00Z');
+    const runner = new ScheduleRunner({ target, store: new MemoryScheduleRunStore(), now: () => now });
+
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    target.fail = true;
+    expect((await runner.tick()).map(run => run.status)).toEqual(['failed']);
+    expect(target.recordScheduleRun).toHaveBeenLastCalledWith(expect.any(String), {
+      lastRun: undefined,
+      nextRun: '2024-01-01T09:00:00.000Z',
+      status: 'active',
+    });
+    consoleError.mockRestore();
+
+    target.fail = false;
+    now = new Date('2024-01-01T09:02:00Z');
+    expect((await runner.tick()).map(run => run.status)).toEqual(['published']);
+    expect(target.published).toEqual(['2024-01-01T09:00:00.000Z']);
+  });
+
+  it('resumes from the durable run store and completes finished schedules', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'schedule-runs-'));
+    try {
+      const schedules = [schedule({ rrule: 'FREQ=DAILY;COUNT=2' })];
+      const target = fakeTarget(schedules);
+      const now = () => new Date('2024-01-01T09:00:30Z');
+
+      await new ScheduleRunner({ target, store: new FileScheduleRunStore(directory), now }).tick();
+      expect(target.published).toEqual(['2024-01-01T09:00:00.000Z']);
+
+      // A restarted process with a stale schedule record must not post again
+      schedules[0]!.lastRun = undefined;
+      await new ScheduleRunner({ target, store: new FileScheduleRunStore(directory), now }).tick();
+      expect(target.published).toHaveLength(1);
+
+      const later = () => new Date('2024-01-02T09:00:10Z');
+      await new ScheduleRunner({ target, store: new FileScheduleRunStore(directory), now: later }).tick();
+      expect(target.published).toEqual(['2024-01-01T09:00:00.000Z', '2024-01-02T09:00:00.000Z']);
+      expect(schedules[0]).toMatchObject({ status: 'completed', nextRun: undefined });
+
+      const state = await new FileScheduleRunStore(directory).load(schedules[0]!.uri);
+      expect(state?.runs.map(run => run.postUri)).toEqual(['at://post/2', 'at://post/1']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
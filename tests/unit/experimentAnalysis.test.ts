@@ -0,0 +1,170 @@
+import { AnalyzableExperiment, analyzeExperiment, sampleRatioCheck } from '../../src/services/experiments/analysis';
+import { ExperimentObservation, LocalExperimentDataSource } from '../../src/services/experiments/dataSource';
+import {
+  adjustPValues,
+  chiSquareSurvival,
+  normalCdf,
+  normalQuantile,
+  studentTCdf,
+} from '../../src/services/experiments/statistics';
+
+// Deterministic PRNG (mulberry32) so simulated experiments are reproducible
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(next: () => number) {
+  return () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next());
+}
+
+const experiment = (metrics: AnalyzableExperiment['metrics']): AnalyzableExperiment => ({
+  id: 'exp',
+  variants: [
+    { id: 'control', weight: 0.5 },
+    { id: 'treatment', weight: 0.5 },
+  ],
+  metrics,
+});
+
+const observe = (
+  variantId: string,
+  metrics: Record<string, number>,
+  covariates?: Record<string, number>
+): ExperimentObservation => ({
+  experimentId: 'exp',
+  userId: `${variantId}-${Math.random()}`,
+  variantId,
+  exposed: true,
+  metrics,
+  covariates,
+});
+
+describe('experiment statistics', () => {
+  it('matches reference distribution values', () => {
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 6);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.001)).toBeCloseTo(-3.090232, 5);
+    expect(studentTCdf(2.228139, 10)).toBeCloseTo(0.975, 5);
+    expect(studentTCdf(-2.228139, 10)).toBeCloseTo(0.025, 5);
+    expect(chiSquareSurvival(3.841459, 1)).toBeCloseTo(0.05, 5);
+    expect(chiSquareSurvival(5.991465, 2)).toBeCloseTo(0.05, 5);
+  });
+
+  it('adjusts p-values for multiple comparisons', () => {
+    const pValues = [0.01, 0.04, 0.03];
+    expect(adjustPValues(pValues, 'bonferroni')).toEqual([0.03, 0.12, 0.09]);
+    adjustPValues(pValues, 'holm').forEach((p, i) => expect(p).toBeCloseTo([0.03, 0.06, 0.06][i]!, 10));
+    adjustPValues(pValues, 'benjamini-hochberg').forEach((p, i) => expect(p).toBeCloseTo([0.03, 0.04, 0.04][i]!, 10));
+  });
+
+  it('flags sample ratio mismatch', () => {
+    const variants = experiment([]).variants;
+    expect(sampleRatioCheck(variants, { control: 5020, treatment: 4980 }, 0.001).mismatch).toBe(false);
+    const skewed = sampleRatioCheck(variants, { control: 5000, treatment: 4600 }, 0.001);
+    expect(skewed.statistic).toBeCloseTo(16.667, 2);
+    expect(skewed.mismatch).toBe(true);
+  });
+});
+
+describe('experiment analysis', () => {
+  it('runs Welch’s t-test on continuous metrics', async () => {
+    // Welch's original worked example: t = -2.46, ν ≈ 24.99, p ≈ 0.021
+    const a = [27.5, 21.0, 19.0, 23.6, 17.0, 17.9, 16.9, 20.1, 21.9, 22.6, 23.1, 19.6, 19.0, 21.7, 21.4];
+    const b = [27.1, 22.0, 20.8, 23.4, 23.4, 23.5, 25.8, 22.0, 24.8, 20.2, 21.9, 22.1, 22.9, 20.5, 24.4];
+    const observations = [
+      ...a.map(value => observe('control', { time: value })),
+      ...b.map(value => observe('treatment', { time: value })),
+    ];
+
+    const analysis = await analyzeExperiment(
+      experiment([{ name: 'time', type: 'engagement', priority: 'primary' }]),
+      new LocalExperimentDataSource(() => observations)
+    );
+    const [comparison] = analysis.comparisons;
+
+    expect(comparison!.effect / comparison!.standardError).toBeCloseTo(2.46, 2);
+    expect(comparison!.degreesOfFreedom).toBeCloseTo(24.99, 1);
+    expect(comparison!.pValue).toBeCloseTo(0.021, 3);
+    // The always-valid p-value pays for optional stopping
+    expect(comparison!.sequentialPValue).toBeGreaterThan(comparison!.pValue);
+  });
+
+  it('declares a winner on a clear conversion lift and never on an A/A test', async () => {
+    const next = random(42);
+    const simulate = (treatmentRate: number) =>
+      Array.from({ length: 20_000 }, (_, i) => {
+        const variantId = i % 2 ? 'treatment' : 'control';
+        const rate = variantId === 'treatment' ? treatmentRate : 0.1;
+        return observe(variantId, { signup: next() < rate ? 1 : 0 });
+      });
+    const metrics: AnalyzableExperiment['metrics'] = [{ name: 'signup', type: 'conversion', priority: 'primary' }];
+
+    const lift = simulate(0.13);
+    const winning = await analyzeExperiment(experiment(metrics), new LocalExperimentDataSource(() => lift));
+    expect(winning.winner).toBe('treatment');
+    expect(winning.confidence).toBeGreaterThan(0.95);
+    const [low, high] = winning.comparisons[0]!.confidenceInterval;
+    expect(low).toBeGreaterThan(0);
+    expect(high).toBeGreaterThan(winning.comparisons[0]!.effect);
+
+    // Peek after every 1000 users: the always-valid p-value must not cross alpha
+    const null_ = simulate(0.1);
+    let previous: Record<string, number> = {};
+    for (let seen = 1000; seen <= null_.length; seen += 1000) {
+      const analysis = await analyzeExperiment(
+        experiment(metrics),
+        new LocalExperimentDataSource(() => null_.slice(0, seen)),
+        { previousSequentialPValues: previous }
+      );
+      const comparison = analysis.comparisons[0]!;
+      expect(comparison.sequentialPValue).toBeLessThanOrEqual(previous['treatment:signup'] ?? 1);
+      previous = { 'treatment:signup': comparison.sequentialPValue };
+      expect(analysis.winner).toBeUndefined();
+    }
+  });
+
+  it('reduces variance with CUPED when pre-period data exists', async () => {
+    const noise = gaussian(random(7));
+    const observations: ExperimentObservation[] = [];
+    for (let i = 0; i < 4000; i++) {
+      const variantId = i % 2 ? 'treatment' : 'control';
+      const pre = 10 + 3 * noise();
+      const post = pre + noise() + (variantId === 'treatment' ? 0.2 : 0);
+      observations.push(observe(variantId, { watch: post }, { watch: pre }));
+    }
+    const metrics: AnalyzableExperiment['metrics'] = [{ name: 'watch', type: 'engagement', priority: 'primary' }];
+
+    const adjusted = await analyzeExperiment(experiment(metrics), new LocalExperimentDataSource(() => observations));
+    const withoutCovariates = observations.map(({ covariates: _, ...rest }) => rest);
+    const plain = await analyzeExperiment(experiment(metrics), new LocalExperimentDataSource(() => withoutCovariates));
+
+    expect(adjusted.comparisons[0]!.cuped).toBe(true);
+    expect(plain.comparisons[0]!.cuped).toBe(false);
+    expect(adjusted.comparisons[0]!.standardError).toBeLessThan(plain.comparisons[0]!.standardError / 2);
+    expect(adjusted.comparisons[0]!.effect).toBeCloseTo(0.2, 1);
+    expect(adjusted.winner).toBe('treatment');
+  });
+
+  it('withholds decisions when the sample ratio is off and ignores unexposed users', async () => {
+    const observations = [
+      ...Array.from({ length: 6000 }, (_, i) => observe('control', { signup: i % 10 === 0 ? 1 : 0 })),
+      ...Array.from({ length: 4000 }, (_, i) => observe('treatment', { signup: i % 4 === 0 ? 1 : 0 })),
+      { ...observe('treatment', { signup: 1 }), exposed: false },
+    ];
+    const analysis = await analyzeExperiment(
+      experiment([{ name: 'signup', type: 'conversion', priority: 'primary' }]),
+      new LocalExperimentDataSource(() => observations)
+    );
+
+    expect(analysis.sampleSize).toBe(10_000);
+    expect(analysis.sampleRatio.mismatch).toBe(true);
+    expect(analysis.comparisons[0]!.adjustedPValue).toBeLessThan(0.05);
+    expect(analysis.comparisons[0]!.significant).toBe(false);
+    expect(analysis.winner).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  AssignableExperiment,
+  ExperimentLayer,
+  bucketFor,
+  decideAssignment,
+  matchesFilter,
+  validateLayerAllocation,
+} from '../../src/services/experiments/assignment';
+
+const users = Array.from({ length: 4000 }, (_, i) => `did:plc:user${i}`);
+
+const experiment = (overrides: Partial<AssignableExperiment> = {}): AssignableExperiment => ({
+  id: 'exp-feed-ranking',
+  variants: [
+    { id: 'control', weight: 0.5 },
+    { id: 'treatment', weight: 0.5 },
+  ],
+  targetAudience: { filters: [], percentage: 100 },
+  ...overrides,
+});
+
+const variantOf = (exp: AssignableExperiment, userId: string, layer?: ExperimentLayer) => {
+  const decision = decideAssignment(exp, userId, {}, layer);
+  return decision.enrolled ? decision.variantId : undefined;
+};
+
+describe('experiment assignment', () => {
+  it('assigns deterministically and in proportion to variant weights', () => {
+    const exp = experiment({
+      variants: [
+        { id: 'control', weight: 0.8 },
+        { id: 'treatment', weight: 0.2 },
+      ],
+    });
+    const first = users.map(user => variantOf(exp, user));
+    const second = users.map(user => variantOf(exp, user));
+    expect(second).toEqual(first);
+
+    const treated = first.filter(variant => variant === 'treatment').length / users.length;
+    expect(treated).toBeGreaterThan(0.17);
+    expect(treated).toBeLessThan(0.23);
+  });
+
+  it('reshuffles only when the salt changes', () => {
+    const original = users.map(user => variantOf(experiment(), user));
+    const resalted = users.map(user => variantOf(experiment({ salt: 'rerun-2' }), user));
+    const moved = original.filter((variant, i) => variant !== resalted[i]).length;
+    expect(moved).toBeGreaterThan(users.length * 0.4);
+    expect(bucketFor('a', 'user')).toBe(bucketFor('a', 'user'));
+  });
+
+  it('ramps traffic without moving enrolled users', () => {
+    const at10 = users.map(user => variantOf(experiment({ targetAudience: { filters: [], percentage: 10 } }), user));
+    const at50 = users.map(user => variantOf(experiment({ targetAudience: { filters: [], percentage: 50 } }), user));
+
+    const enrolled10 = at10.filter(Boolean).length;
+    expect(enrolled10 / users.length).toBeCloseTo(0.1, 1);
+    expect(at50.filter(Boolean).length / users.length).toBeCloseTo(0.5, 1);
+    at10.forEach((variant, i) => {
+      if (variant) expect(at50[i]).toBe(variant);
+    });
+  });
+
+  it('keeps experiments in a layer mutually exclusive and honours the holdout', () => {
+    const layer: ExperimentLayer = { id: 'feed', name: 'Feed', holdoutPercentage: 10 };
+    const a = experiment({ id: 'a', layer: { layerId: 'feed', start: 1000, end: 5500 } });
+    const b = experiment({ id: 'b', layer: { layerId: 'feed', start: 5500, end: 10_000 } });
+
+    let heldOut = 0;
+    for (const user of users) {
+      const inA = decideAssignment(a, user, {}, layer);
+      const inB = decideAssignment(b, user, {}, layer);
+      expect(inA.enrolled && inB.enrolled).toBe(false);
+      if (!inA.enrolled && inA.reason === 'holdout') {
+        heldOut++;
+        expect(inB).toEqual({ enrolled: false, reason: 'holdout' });
+      } else {
+        expect(inA.enrolled || inB.enrolled).toBe(true);
+      }
+    }
+    expect(heldOut / users.length).toBeCloseTo(0.1, 1);
+
+    expect(() => validateLayerAllocation(b, layer, [a])).not.toThrow();
+    expect(() =>
+      validateLayerAllocation(experiment({ id: 'c', layer: { layerId: 'feed', start: 5000, end: 6000 } }), layer, [a, b])
+    ).toThrow('overlaps experiment a');
+    expect(() =>
+      validateLayerAllocation(experiment({ id: 'c', layer: { layerId: 'feed', start: 500, end: 900 } }), layer, [])
+    ).toThrow('holdout');
+  });
+
+  it('evaluates audience filters against user attributes', () => {
+    const attributes = {
+      country: 'NZ',
+      followers: 1200,
+      interests: ['music', 'cooking'],
+      profile: { joinedAt: '2023-05-01' },
+    };
+    expect(matchesFilter({ field: 'country', operator: 'equals', value: 'NZ' }, attributes)).toBe(true);
+    expect(matchesFilter({ field: 'interests', operator: 'contains', value: 'music' }, attributes)).toBe(true);
+    expect(matchesFilter({ field: 'followers', operator: 'gt', value: 1000 }, attributes)).toBe(true);
+    expect(matchesFilter({ field: 'followers', operator: 'lt', value: 1000 }, attributes)).toBe(false);
+    expect(
+      matchesFilter({ field: 'profile.joinedAt', operator: 'between', value: ['2023-01-01', '2023-12-31'] }, attributes)
+    ).toBe(true);
+    expect(matchesFilter({ field: 'followers', operator: 'gt', value: '1000' }, attributes)).toBe(false);
+    expect(matchesFilter({ field: 'missing', operator: 'equals', value: undefined }, attributes)).toBe(false);
+
+    const targeted = experiment({
+      targetAudience: { filters: [{ field: 'country', operator: 'equals', value: 'NZ' }], percentage: 100 },
+    });
+    expect(decideAssignment(targeted, users[0]!, attributes).enrolled).toBe(true);
+    expect(decideAssignment(targeted, users[0]!, { country: 'AU' })).toEqual({ enrolled: false, reason: 'audience' });
+  });
+});
@@ -0,0 +1,350 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { FileFeedDefinitionStore } from '../../src/services/feeds/definitionStore';
+import { FeedGenerator, FeedGeneratorError } from '../../src/services/feeds/FeedGenerator';
+import {
+  FeedIndexer,
+  feedIndexer,
+  startFeedIndexer,
+  stopFeedIndexer,
+} from '../../src/services/feeds/feedIndexer';
+import { FeedPostStore, IngestedPost } from '../../src/services/feeds/postStore';
+import type { FirehoseEvent, RepoOp } from '../../src/services/firehose/FirehoseConsumer';
+import { logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const NOW = Date.parse('2024-06-01T12:00:00.000Z');
+
+const post = (id: number, overrides: Partial<IngestedPost> = {}): IngestedPost => ({
+  uri: `at://did:plc:author${id % 3}/app.bsky.feed.post/${id}`,
+  cid: `bafy${id.toString().padStart(4, '0')}`,
+  author: `did:plc:author${id % 3}`,
+  text: `post number ${id}`,
+  langs: ['en'],
+  createdAt: new Date(NOW - (100 - id) * 60000).toISOString(),
+  ...overrides,
+});
+
+describe('FeedGenerator', () => {
+  let store: FeedPostStore;
+  let generator: FeedGenerator;
+
+  beforeEach(() => {
+    store = new FeedPostStore();
+    generator = new FeedGenerator('did:web:feeds.example.com', store);
+    for (let id = 1; id <= 30; id++) {
+      store.ingest(post(id), new Date(NOW));
+    }
+  });
+
+  describe('registerFeedRecord', () => {
+    it('should evaluate legacy keyword/user/language filters', async () => {
+      store.ingest(post(31, { text: 'Skateboarding at the park', langs: ['en-US'] }), new Date(NOW));
+      store.ingest(post(32, { text: 'Skateboarding en el parque', langs: ['es'] }), new Date(NOW));
+
+      await generator.registerFeedRecord('at://did:plc:me/app.bsky.feed.generator/skate', {
+        feed: { name: 'Skate', filters: { keywords: ['skateboarding'], languages: ['en'] } },
+      });
+
+      const skeleton = generator.getFeedSkeleton(
+        { feed: 'at://did:plc:me/app.bsky.feed.generator/skate' },
+        NOW
+      );
+      expect(skeleton.feed).toEqual([{ post: post(31).uri }]);
+    });
+
+    it('should reject unknown filter types', async () => {
+      await expect(
+        generator.registerFeedRecord('at://feed', {
+          feed: { filters: { type: 'bogus' } as any },
+        })
+      ).rejects.toThrow('Unknown feed filter type: bogus');
+    });
+  });
+
+  describe('getFeedSkeleton', () => {
+    it('should paginate newest-first with cursors', async () => {
+      await generator.registerFeed({
+        uri: 'at://feed/all',
+        name: 'All',
+        filter: { type: 'and', filters: [] },
+      });
+
+      const first = generator.getFeedSkeleton({ feed: 'at://feed/all', limit: 10 }, NOW);
+      const second = generator.getFeedSkeleton(
+        { feed: 'at://feed/all', limit: 10, cursor: first.cursor },
+        NOW
+      );
+      const third = generator.getFeedSkeleton(
+        { feed: 'at://feed/all', limit: 20, cursor: second.cursor },
+        NOW
+      );
+
+      expect(first.feed[0]).toEqual({ post: post(30).uri });
+      expect(second.feed[0]).toEqual({ post: post(20).uri });
+      expect(third.feed).toHaveLength(10);
+      expect(third.cursor).toBeUndefined();
+    });
+
+    it('should combine boolean, engagement and time-window filters', async () => {
+      // 29 qualifies, 28 is by an excluded author, 9 is too old and 27 has too few likes
+      store.recordEngagement(post(29).uri, 'like', 5);
+      store.recordEngagement(post(28).uri, 'like', 5);
+      store.recordEngagement(post(9).uri, 'like', 5);
+      store.recordEngagement(post(27).uri, 'like', 2);
+
+      await generator.registerFeed({
+        uri: 'at://feed/hot',
+        name: 'Hot',
+        filter: {
+          type: 'and',
+          filters: [
+            { type: 'engagement', minLikes: 3 },
+            { type: 'timeWindow', maxAgeHours: 1.5 },
+            { type: 'not', filter: { type: 'users', users: ['did:plc:author1'] } },
+          ],
+        },
+      });
+
+      const skeleton = generator.getFeedSkeleton({ feed: 'at://feed/hot' }, NOW);
+      expect(skeleton.feed).toEqual([{ post: post(29).uri }]);
+    });
+
+    it('should count replies and honour deletions', async () => {
+      store.ingest(
+        post(40, {
+          reply: { parent: { uri: post(30).uri }, root: { uri: post(30).uri } },
+        }),
+        new Date(NOW)
+      );
+      await generator.registerFeed({
+        uri: 'at://feed/discussed',
+        name: 'Discussed',
+        filter: {
+          type: 'and',
+          filters: [
+            { type: 'engagement', minReplies: 1 },
+            { type: 'isReply', value: false },
+          ],
+        },
+      });
+
+      expect(generator.getFeedSkeleton({ feed: 'at://feed/discussed' }, NOW).feed).toEqual([
+        { post: post(30).uri },
+      ]);
+
+      store.remove(post(40).uri);
+      expect(generator.getFeedSkeleton({ feed: 'at://feed/discussed' }, NOW).feed).toEqual([]);
+    });
+
+    it('should match hashtags from facets and text', async () => {
+      store.ingest(post(50, { text: 'Sunset #Photography' }), new Date(NOW));
+      store.ingest(
+        post(51, {
+          text: 'tagged via facet',
+          facets: [{ features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'photography' }] }],
+        }),
+        new Date(NOW)
+      );
+      await generator.registerFeed({
+        uri: 'at://feed/photos',
+        name: 'Photos',
+        filter: { type: 'hashtags', hashtags: ['#photography'] },
+      });
+
+      expect(generator.getFeedSkeleton({ feed: 'at://feed/photos' }, NOW).feed).toHaveLength(2);
+    });
+
+    it('should reject unknown feeds and malformed cursors', async () => {
+      expect(() => generator.getFeedSkeleton({ feed: 'at://missing' })).toThrow(FeedGeneratorError);
+
+      await generator.registerFeed({
+        uri: 'at://feed/all',
+        name: 'All',
+        filter: { type: 'and', filters: [] },
+      });
+      expect(() =>
+        generator.getFeedSkeleton({ feed: 'at://feed/all', cursor: 'garbage' })
+      ).toThrow('Malformed cursor');
+    });
+  });
+
+  describe('describeFeedGenerator', () => {
+    it('should list registered feeds', async () => {
+      await generator.registerFeed({ uri: 'at://feed/a', name: 'A', filter: { type: 'and', filters: [] } });
+
+      expect(generator.describeFeedGenerator()).toEqual({
+        did: 'did:web:feeds.example.com',
+        feeds: [{ uri: 'at://feed/a' }],
+      });
+    });
+  });
+
+  describe('feed persistence', () => {
+    let directory: string;
+
+    const persistentGenerator = (filePath: string) =>
+      new FeedGenerator('did:web:feeds.example.com', store, undefined, new FileFeedDefinitionStore(filePath));
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'feedgen-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should serve registered feeds again after a restart', async () => {
+      const filePath = path.join(directory, 'feeds.json');
+      const persistent = persistentGenerator(filePath);
+      await Promise.all([
+        persistent.registerFeed({ uri: 'at://feed/a', name: 'A', filter: { type: 'and', filters: [] } }),
+        persistent.registerFeed({ uri: 'at://feed/b', name: 'B', filter: { type: 'and', filters: [] } }),
+      ]);
+      await persistent.unregisterFeed('at://feed/a');
+
+      const restarted = persistentGenerator(filePath);
+      await restarted.load();
+
+      expect(restarted.describeFeedGenerator().feeds).toEqual([{ uri: 'at://feed/b' }]);
+      expect(restarted.getFeedSkeleton({ feed: 'at://feed/b', limit: 1 }, NOW).feed).toEqual([
+        { post: post(30).uri },
+      ]);
+    });
+
+    it('should not store feeds that fail validation', async () => {
+      const filePath = path.join(directory, 'feeds.json');
+      const persistent = persistentGenerator(filePath);
+
+      await expect(
+        persistent.registerFeed({
+          uri: 'at://feed/bad',
+          name: 'Bad',
+          filter: { type: 'bogus' } as any,
+        })
+      ).rejects.toThrow('Unknown feed filter type: bogus');
+      await expect(new FileFeedDefinitionStore(filePath).load()).resolves.toEqual([]);
+    });
+  });
+
+  describe('FeedIndexer', () => {
+    let indexer: FeedIndexer;
+
+    const commit = (repo: string, ...ops: RepoOp[]): FirehoseEvent => ({
+      type: 'commit',
+      seq: 1,
+      repo,
+      rev: 'rev',
+      time: new Date(NOW).toISOString(),
+      tooBig: false,
+      ops,
+    });
+
+    const postOp = (rkey: string, record: Record<string, unknown>): RepoOp => ({
+      action: 'create',
+      collection: 'app.bsky.feed.post',
+      rkey,
+      uri: `at://did:plc:writer/app.bsky.feed.post/${rkey}`,
+      cid: `bafy${rkey}`,
+      record,
+    });
+
+    beforeEach(async () => {
+      store.clear();
+      indexer = new FeedIndexer(generator);
+      await generator.registerFeed({
+        uri: 'at://feed/all',
+        name: 'All',
+        filter: { type: 'and', filters: [] },
+      });
+    });
+
+    it('should index posts from the firehose and drop deleted ones', () => {
+      const record = { text: 'First #news', createdAt: new Date(NOW).toISOString(), langs: ['en'] };
+      indexer.handleEvent(commit('did:plc:writer', postOp('1', record)));
+
+      expect(store.get('at://did:plc:writer/app.bsky.feed.post/1')).toMatchObject({
+        author: 'did:plc:writer',
+        hashtags: ['news'],
+        langs: ['en'],
+      });
+
+      indexer.handleEvent(
+        commit('did:plc:writer', {
+          action: 'delete',
+          collection: 'app.bsky.feed.post',
+          rkey: '1',
+          uri: 'at://did:plc:writer/app.bsky.feed.post/1',
+        })
+      );
+      expect(generator.getFeedSkeleton({ feed: 'at://feed/all' }, NOW).feed).toEqual([]);
+    });
+
+    it('should count likes and reposts towards their subject', () => {
+      const subject = 'at://did:plc:writer/app.bsky.feed.post/1';
+      const engagement = (collection: string): RepoOp => ({
+        action: 'create',
+        collection,
+        rkey: 'e',
+        uri: `at://did:plc:fan/${collection}/e`,
+        record: { subject: { uri: subject } },
+      });
+
+      indexer.handleEvent(
+        commit('did:plc:writer', postOp('1', { text: 'Hello', createdAt: new Date(NOW).toISOString() }))
+      );
+      indexer.handleEvent(
+        commit('did:plc:fan', engagement('app.bsky.feed.like'), engagement('app.bsky.feed.repost'))
+      );
+
+      expect(store.get(subject)).toMatchObject({ likeCount: 1, repostCount: 1 });
+    });
+
+    it('should skip malformed records', () => {
+      indexer.handleEvent(
+        commit(
+          'did:plc:writer',
+          postOp('1', { text: 42 }),
+          postOp('2', {
+            text: 'Odd reply',
+            reply: { parent: 'not a ref' },
+            facets: [{ features: 'nope' }],
+          })
+        )
+      );
+
+      expect(store.get('at://did:plc:writer/app.bsky.feed.post/1')).toBeUndefined();
+      expect(store.get('at://did:plc:writer/app.bsky.feed.post/2')).toMatchObject({
+        replyParent: undefined,
+        hashtags: [],
+      });
+    });
+  });
+
+  describe('startFeedIndexer', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should log a failed start and stop the indexer on shutdown', async () => {
+      const listeners = process.listenerCount('SIGTERM');
+      const failure = new Error('relay unreachable');
+      jest.spyOn(feedIndexer, 'start').mockRejectedValue(failure);
+      const stop = jest.spyOn(feedIndexer, 'stop').mockResolvedValue();
+
+      await startFeedIndexer();
+      await startFeedIndexer();
+
+      expect(logger.error).toHaveBeenCalledWith('Failed to start feed indexer:', failure);
+      expect(process.listenerCount('SIGTERM')).toBe(listeners + 1);
+
+      await stopFeedIndexer();
+
+      expect(stop).toHaveBeenCalled();
+      expect(process.listenerCount('SIGTERM')).toBe(listeners);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+
+import {
+  FirehoseConsumer,
+  FirehoseError,
+  FirehoseEvent,
+  FirehoseSocket,
+} from '../../src/services/firehose/FirehoseConsumer';
+import { MemoryCursorStore } from '../../src/services/firehose/cursorStore';
+import { SubscriptionService, Update } from '../../src/services/subscriptions';
+import { logger } from '../../src/utils/logger';
+
+import recordedFrames from './fixtures/firehose-frames.json';
+
+jest.mock(
+  '@atproto/api',
+  () => ({
+    AtUri: class {
+      constructor(public href: string) {}
+    },
+  }),
+  { virtual: true }
+);
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const frame = (name: string) => {
+  const recorded = recordedFrames.find(f => f.name === name);
+  if (!recorded) throw new Error(`Missing fixture ${name}`);
+  return new Uint8Array(Buffer.from(recorded.frame, 'base64'));
+};
+
+class FakeSocket implements FirehoseSocket {
+  binaryType?: string;
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {}
+
+  emit(data: Uint8Array) {
+    this.onmessage?.({ data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.({});
+  }
+}
+
+describe('FirehoseConsumer', () => {
+  let sockets: FakeSocket[];
+  let events: FirehoseEvent[];
+
+  const createConsumer = (options = {}) => {
+    const consumer = new FirehoseConsumer({
+      service: 'wss://relay.test',
+      createSocket: url => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+      minReconnectDelay: 10,
+      maxReconnectDelay: 40,
+      ...options,
+    });
+    consumer.events.subscribe(event => events.push(event));
+    return consumer;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sockets = [];
+    events = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should decode commit records from the CAR blocks', () => {
+    const consumer = createConsumer();
+    const event = consumer.handleFrame(frame('alice posts'));
+
+    expect(event).toMatchObject({
+      type: 'commit',
+      seq: 100,
+      repo: 'did:plc:alice',
+      ops: [
+        {
+          action: 'create',
+          collection: 'app.bsky.feed.post',
+          rkey: '3kpost1',
+          uri: 'at://did:plc:alice/app.bsky.feed.post/3kpost1',
+          record: { $type: 'app.bsky.feed.post', text: 'hello firehose', langs: ['en'] },
+        },
+        { action: 'update', collection: 'app.bsky.actor.profile' },
+      ],
+    });
+    expect((event as any).ops[0].cid).toMatch(/^bafyrei/);
+  });
+
+  it('should filter commits by collection and DID', () => {
+    const consumer = createConsumer({
+      collections: ['app.bsky.feed.post'],
+      dids: ['did:plc:alice'],
+    });
+
+    const posted = consumer.handleFrame(frame('alice posts'));
+    expect(posted?.type === 'commit' && posted.ops.map(op => op.collection)).toEqual([
+      'app.bsky.feed.post',
+    ]);
+    expect(consumer.handleFrame(frame('bob likes alice'))).toBeUndefined();
+
+    // Filtered events still advance the cursor
+    expect(consumer.currentCursor).toBe(101);
+  });
+
+  it('should surface identity, handle, tombstone and info events', () => {
+    const consumer = createConsumer();
+    ['alice identity', 'bob handle', 'carol tombstone', 'outdated cursor info'].forEach(name =>
+      consumer.handleFrame(frame(name))
+    );
+
+    expect(events).toEqual([
+      { type: 'identity', seq: 104, did: 'did:plc:alice', handle: 'alice.example.com', time: expect.any(String) },
+      { type: 'handle', seq: 105, did: 'did:plc:bob', handle: 'bob.test', time: expect.any(String) },
+      { type: 'tombstone', seq: 106, did: 'did:plc:carol', time: expect.any(String) },
+      { type: 'info', name: 'OutdatedCursor', message: expect.any(String) },
+    ]);
+  });
+
+  it('should emit ops without records for tooBig commits', () => {
+    const consumer = createConsumer();
+    const event = consumer.handleFrame(frame('too big commit'));
+
+    expect(event).toMatchObject({ type: 'commit', tooBig: true });
+    expect((event as any).ops[0].record).toBeUndefined();
+  });
+
+  it('should skip frames at or before the current cursor', () => {
+    const consumer = createConsumer();
+    consumer.handleFrame(frame('bob likes alice'));
+
+    expect(consumer.handleFrame(frame('alice posts'))).toBeUndefined();
+    expect(events).toHaveLength(1);
+  });
+
+  it('should raise error frames', () => {
+    const consumer = createConsumer();
+    expect(() => consumer.handleFrame(frame('future cursor error'))).toThrow(FirehoseError);
+  });
+
+  it('should resume from the persisted cursor and save progress on stop', async () => {
+    const cursorStore = new MemoryCursorStore(99);
+    const consumer = createConsumer({ cursorStore });
+
+    await consumer.start();
+    expect(sockets[0]!.url).toBe(
+      'wss://relay.test/xrpc/com.atproto.sync.subscribeRepos?cursor=99'
+    );
+
+    sockets[0]!.emit(frame('alice posts'));
+    sockets[0]!.emit(frame('bob likes alice'));
+    await consumer.stop();
+
+    expect(await cursorStore.load()).toBe(101);
+  });
+
+  it('should reconnect with backoff from the last cursor', async () => {
+    const consumer = createConsumer();
+    await consumer.start();
+    sockets[0]!.emit(frame('alice posts'));
+
+    sockets[0]!.close();
+    expect(sockets).toHaveLength(1);
+
+    jest.advanceTimersByTime(10);
+    expect(sockets).toHaveLength(2);
+    expect(sockets[1]!.url).toContain('cursor=100');
+
+    // Without a successful message the next delay doubles
+    sockets[1]!.close();
+    jest.advanceTimersByTime(9);
+    expect(sockets).toHaveLength(2);
+    jest.advanceTimersByTime(11);
+    expect(sockets).toHaveLength(3);
+
+    await consumer.stop();
+  });
+
+  it('should drop the cursor and reconnect live on FutureCursor', async () => {
+    const consumer = createConsumer({ cursorStore: new MemoryCursorStore(500) });
+    await consumer.start();
+
+    sockets[0]!.emit(frame('future cursor error'));
+    expect(sockets[0]!.closed).toBe(true);
+
+    jest.advanceTimersByTime(10);
+    expect(sockets[1]!.url).not.toContain('cursor=');
+
+    await consumer.stop();
+  });
+
+  it('should connect over ws when no socket factory is given', async () => {
+    jest.useRealTimers();
+    const server = new WebSocketServer({ port: 0 });
+    await new Promise(resolve => server.once('listening', resolve));
+    server.on('connection', socket => socket.send(frame('alice posts')));
+
+    const consumer = new FirehoseConsumer({ service: `ws://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    const received = new Promise<FirehoseEvent>(resolve => consumer.events.subscribe(resolve));
+    await consumer.start();
+
+    try {
+      expect(await received).toMatchObject({ type: 'commit', seq: 100 });
+    } finally {
+      await consumer.stop();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('SubscriptionService', () => {
+  it('should turn firehose commits into post and notification updates', async () => {
+    const sockets: FakeSocket[] = [];
+    const agent = { session: { did: 'did:plc:alice' } } as any;
+    const service = new SubscriptionService(agent, {
+      createSocket: url => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+    });
+    const updates: Update[] = [];
+    service.updates.subscribe(update => updates.push(update));
+
+    await service.subscribeToProfile('did:plc:alice');
+    await service.start();
+    ['alice posts', 'bob likes alice', 'carol follows alice', 'carol tombstone'].forEach(name =>
+      sockets[0]!.emit(frame(name))
+    );
+    await service.stop();
+
+    expect(updates.map(update => update.type)).toEqual(['post', 'notification', 'notification']);
+    expect(updates[1]).toMatchObject({
+      reason: 'like',
+      author: 'did:plc:bob',
+      reasonSubject: 'at://did:plc:alice/app.bsky.feed.post/3kpost1',
+    });
+    expect(updates[2]).toMatchObject({ reason: 'follow', author: 'did:plc:carol' });
+  });
+
+  it('should log firehose info messages rather than emitting them', async () => {
+    const sockets: FakeSocket[] = [];
+    const service = new SubscriptionService({ session: { did: 'did:plc:alice' } } as any, {
+      createSocket: url => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+    });
+    const updates: Update[] = [];
+    service.updates.subscribe(update => updates.push(update));
+
+    await service.start();
+    sockets[0]!.emit(frame('outdated cursor info'));
+    await service.stop();
+
+    expect(updates).toEqual([]);
+    expect(logger.info).toHaveBeenCalledWith('Firehose info OutdatedCursor:', expect.any(String));
+  });
+});
@@ -0,0 +1,160 @@
+import { mediaHandler } from '../../src/services/mediaHandler';
+import { mediaHashing } from '../../src/services/mediaHashing';
+import { performanceMonitoring } from '../../src/services/performanceMonitoring';
+
+const saved: string[] = [];
+const published: Array<Record<string, unknown>> = [];
+
+jest.mock(
+  '@google-cloud/storage',
+  () => ({
+    Storage: class {
+      bucket() {
+        return {
+          file: (path: string) => ({
+            save: async () => {
+              saved.push(path);
+            },
+            getSignedUrl: async () => [`https://storage.test/${path}`],
+          }),
+          deleteFiles: async () => undefined,
+        };
+      }
+    },
+  }),
+  { virtual: true }
+);
+
+jest.mock(
+  '@google-cloud/pubsub',
+  () => ({
+    PubSub: class {
+      topic() {
+        return {
+          publish: async (data: Buffer) => {
+            published.push(JSON.parse(data.toString()));
+          },
+          subscription: () => ({ on: () => undefined }),
+        };
+      }
+    },
+  }),
+  { virtual: true }
+);
+
+jest.mock('../../src/config', () => ({
+  config: { gcp: { storageBucket: 'media' }, app: { env: 'test' } },
+}));
+
+jest.mock('../../src/services/completeAnalytics', () => ({
+  completeAnalytics: { trackEvent: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../src/services/performanceMonitoring', () => ({
+  performanceMonitoring: { recordError: jest.fn() },
+}));
+
+jest.mock('../../src/services/mediaHashing', () => ({
+  mediaHashing: {
+    hashFile: jest.fn(),
+    findMatch: jest.fn(),
+    recordUpload: jest.fn(),
+    enqueueRemoved: jest.fn(),
+  },
+}));
+
+const hashing = mediaHashing as jest.Mocked<typeof mediaHashing>;
+const imageHash = { kind: 'image' as const, phash: '0f0f0f0f0f0f0f0f', dhash: 'f0f0f0f0f0f0f0f0' };
+
+const u32be = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+
+const pngChunk = (type: string, data: Buffer) =>
+  Buffer.concat([u32be(data.length), Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+
+const pngFile = () =>
+  new File(
+    [
+      Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', Buffer.concat([u32be(32), u32be(16), Buffer.from([8, 6, 0, 0, 0])])),
+        pngChunk('IDAT', Buffer.alloc(10)),
+        pngChunk('IEND', Buffer.alloc(0)),
+      ]),
+    ],
+    'photo.png',
+    { type: 'image/png' }
+  );
+
+describe('media upload', () => {
+  beforeEach(() => {
+    saved.length = 0;
+    published.length = 0;
+    jest.clearAllMocks();
+    hashing.findMatch.mockResolvedValue(null);
+  });
+
+  it('stores the original and records its hash', async () => {
+    hashing.hashFile.mockResolvedValue(imageHash);
+
+    const media = await mediaHandler.uploadMedia(pngFile());
+
+    expect(hashing.recordUpload).toHaveBeenCalledWith(media.id, imageHash);
+    expect(saved).toEqual([`media/original/${media.id}/photo.png`]);
+    expect(published).toMatchObject([{ eventType: 'media_uploaded', mediaId: media.id }]);
+  });
+
+  it('refuses media matching the hash list before storing anything', async () => {
+    hashing.hashFile.mockResolvedValue(imageHash);
+    hashing.findMatch.mockResolvedValue({
+      entry: { id: 'entry-1', hash: imageHash, sourceId: 'removed-1', addedAt: new Date() },
+      similarity: 1,
+      distance: 0,
+    });
+
+    await expect(mediaHandler.uploadMedia(pngFile())).rejects.toThrow(
+      'Media matches content that was removed'
+    );
+    expect(hashing.recordUpload).not.toHaveBeenCalled();
+    expect(saved).toEqual([]);
+    expect(published).toEqual([]);
+  });
+
+  it('uploads media that cannot be hashed without checking it', async () => {
+    hashing.hashFile.mockRejectedValue(new Error('ffmpeg exited with code 1'));
+
+    const media = await mediaHandler.uploadMedia(pngFile());
+
+    expect(performanceMonitoring.recordError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'ffmpeg exited with code 1' }),
+      expect.objectContaining({ operation: 'hashMedia' })
+    );
+    expect(hashing.findMatch).not.toHaveBeenCalled();
+    expect(hashing.recordUpload).not.toHaveBeenCalled();
+    expect(saved).toEqual([`media/original/${media.id}/photo.png`]);
+  });
+
+  it('uploads media of a kind that is not hashed', async () => {
+    hashing.hashFile.mockResolvedValue(null);
+
+    const media = await mediaHandler.uploadMedia(pngFile());
+
+    expect(hashing.findMatch).not.toHaveBeenCalled();
+    expect(saved).toEqual([`media/original/${media.id}/photo.png`]);
+  });
+
+  it('queues taken down media for the hash list', async () => {
+    await mediaHandler.deleteMedia('media-1', 'copyright');
+
+    expect(hashing.enqueueRemoved).toHaveBeenCalledWith({ sourceId: 'media-1', reason: 'copyright' });
+  });
+
+  it('does not queue media deleted without a reason', async () => {
+    await mediaHandler.deleteMedia('media-1');
+
+    expect(hashing.enqueueRemoved).not.toHaveBeenCalled();
+  });
+});
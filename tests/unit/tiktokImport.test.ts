@@ -0,0 +1,404 @@
+import { deflateRawSync } from 'zlib';
+
+import type { MigrationRecord } from '../../src/services/atProtocolMigration';
+import { MemoryCheckpointStore } from '../../src/services/migration/checkpointStore';
+import { parseTikTokExport } from '../../src/services/migration/tiktokExport';
+import {
+  ItemError,
+  MigrationTarget,
+  TikTokImporter,
+  deterministicTid,
+} from '../../src/services/migration/TikTokImporter';
+import { ZipError, crc32, readZip } from '../../src/services/migration/zip';
+
+jest.mock(
+  '@atproto/api',
+  () => ({
+    RichText: class {
+      facets?: unknown[];
+      constructor(public props: { text: string }) {}
+      get text() {
+        return this.props.text;
+      }
+      // Same shapes as the real detection: a mention holds the handle, not a DID
+      detectFacetsWithoutResolution() {
+        const text = this.props.text;
+        const facets = [];
+        for (const match of text.matchAll(/(^|\s)(@([a-z0-9-]+\.[a-z0-9.-]*[a-z])|#(\w+))/gi)) {
+          const byteStart = Buffer.byteLength(text.slice(0, match.index! + match[1]!.length));
+          facets.push({
+            ...(match[3] ? { $type: 'app.bsky.richtext.facet' } : {}),
+            index: { byteStart, byteEnd: byteStart + Buffer.byteLength(match[2]!) },
+            features: [
+              match[3]
+                ? { $type: 'app.bsky.richtext.facet#mention', did: match[3] }
+                : { $type: 'app.bsky.richtext.facet#tag', tag: match[4] },
+            ],
+          });
+        }
+        this.facets = facets.length > 0 ? facets : undefined;
+      }
+    },
+  }),
+  { virtual: true }
+);
+
+function buildZip(entries: Record<string, string | Uint8Array>): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const data = typeof content === 'string' ? Buffer.from(content) : Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, directory, end]));
+}
+
+const userData = {
+  Profile: { 'Profile Information': { ProfileMap: { userName: 'dancer', bioDescription: 'hi' } } },
+  Video: {
+    Videos: {
+      VideoList: [
+        { Date: '2023-05-02 10:00:00', Link: 'https://www.tiktokv.com/share/video/222/', Likes: '7', Title: 'second #dance' },
+        { Date: '2023-05-01 09:30:00', Link: 'https://www.tiktokv.com/share/video/111/', Likes: '42', Title: 'first' },
+      ],
+    },
+  },
+  Activity: {
+    'Following List': {
+      Following: [
+        { Date: '2023-01-01 00:00:00', UserName: 'friend' },
+        { Date: '2023-01-02 00:00:00', UserName: 'stranger' },
+      ],
+    },
+    'Like List': {
+      ItemFavoriteList: [
+        { Date: '2023-06-01 00:00:00', Link: 'https://www.tiktokv.com/share/video/111/' },
+        { Date: '2023-06-02 00:00:00', Link: 'https://www.tiktokv.com/share/video/999/' },
+      ],
+    },
+    'Favorite Videos': {
+      FavoriteVideoList: [{ Date: '2023-06-03 00:00:00', Link: 'https://www.tiktokv.com/share/video/111/' }],
+    },
+  },
+};
+
+const migration: MigrationRecord = {
+  $type: 'app.bsky.migration.record',
+  uri: 'at://did:plc:me/app.bsky.migration.record/1',
+  cid: 'bafymigration',
+  sourceUsername: 'dancer',
+  targetDid: 'did:plc:me',
+  options: {
+    importVideos: true,
+    importFollowers: true,
+    importAnalytics: true,
+    preserveMetadata: true,
+    optimizeContent: false,
+    scheduleContent: false,
+    crossPostToTikTok: false,
+  },
+  status: 'pending',
+  progress: { current: 0, total: 100, currentStep: 'Initializing migration' },
+  results: { videosImported: 0, followersImported: 0, engagementMetricsImported: false, scheduledPosts: 0 },
+  startedAt: '2024-01-01T00:00:00.000Z',
+};
+
+function createTarget() {
+  const records = new Map<string, Record<string, any>>();
+  const progress: Array<Omit<MigrationRecord, 'uri' | 'cid'>> = [];
+  const target: jest.Mocked<MigrationTarget> = {
+    uploadBlob: jest.fn(async (data, mimeType) => ({
+      $type: 'blob' as const,
+      ref: { $link: `blob${data.length}` },
+      mimeType,
+      size: data.length,
+    })),
+    putRecord: jest.fn(async (collection, rkey, record) => {
+      const uri = `at://did:plc:me/${collection}/${rkey}`;
+      records.set(uri, record);
+      return { uri, cid: `cid-${rkey}` };
+    }),
+    resolveHandle: jest.fn(async handle => (handle === 'friend.bsky.social' ? 'did:plc:friend' : undefined)),
+    updateProgress: jest.fn(async (_uri, record) => {
+      progress.push(structuredClone(record));
+    }),
+  };
+  return { target, records, progress };
+}
+
+const fetchMedia = jest.fn(async () => ({ data: new Uint8Array([1, 2, 3]), mimeType: 'video/mp4' }));
+
+describe('TikTok export import', () => {
+  beforeEach(() => {
+    fetchMedia.mockClear();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('readZip', () => {
+    it('should round-trip deflated entries and skip directories', () => {
+      const files = readZip(buildZip({ 'dir/': '', 'dir/a.txt': 'hello', 'b.bin': new Uint8Array([0, 255]) }));
+      expect([...files.keys()]).toEqual(['dir/a.txt', 'b.bin']);
+      expect(Buffer.from(files.get('dir/a.txt')!).toString()).toBe('hello');
+    });
+
+    it('should reject corrupted data', () => {
+      const zip = buildZip({ 'a.txt': 'hello world' });
+      // First byte of the deflated payload, after the 30-byte header and name
+      zip[35] ^= 0xff;
+      expect(() => readZip(zip)).toThrow(ZipError);
+      expect(() => readZip(new Uint8Array(40))).toThrow('Not a zip archive');
+    });
+  });
+
+  describe('parseTikTokExport', () => {
+    it('should parse the JSON variant', () => {
+      const data = parseTikTokExport(readZip(buildZip({ 'user_data.json': JSON.stringify(userData) })));
+
+      expect(data.format).toBe('json');
+      expect(data.profile).toEqual({ username: 'dancer', bio: 'hi' });
+      expect(data.videos[0]).toEqual({
+        id: '222',
+        date: '2023-05-02T10:00:00.000Z',
+        link: 'https://www.tiktokv.com/share/video/222/',
+        caption: 'second #dance',
+        likes: 7,
+      });
+      expect(data.following.map(user => user.username)).toEqual(['friend', 'stranger']);
+      expect(data.likes).toHaveLength(2);
+      expect(data.favorites[0]!.id).toBe('111');
+    });
+
+    it('should parse the TXT variant', () => {
+      const data = parseTikTokExport(
+        readZip(
+          buildZip({
+            'TikTok_Data/Videos/Videos.txt':
+              'Date: 2023-05-01 09:30:00\r\nVideo Link: https://www.tiktokv.com/share/video/111/\r\nLike(s): 42\r\n\r\n',
+            'TikTok_Data/Activity/Following List.txt':
+              'Date: 2023-01-01 00:00:00\nUsername: friend\n\nDate: 2023-01-02 00:00:00\nUsername: @stranger\n',
+            'TikTok_Data/Activity/Like List.txt': 'Date: 2023-06-01 00:00:00\nLink: https://www.tiktokv.com/share/video/111/\n',
+          })
+        )
+      );
+
+      expect(data.format).toBe('txt');
+      expect(data.videos).toEqual([expect.objectContaining({ id: '111', likes: 42, caption: '' })]);
+      expect(data.following.map(user => user.username)).toEqual(['friend', 'stranger']);
+      expect(data.likes[0]).toEqual({
+        id: '111',
+        date: '2023-06-01T00:00:00.000Z',
+        link: 'https://www.tiktokv.com/share/video/111/',
+      });
+    });
+
+    it('should set aside entries with malformed dates instead of failing the archive', () => {
+      const data = parseTikTokExport(
+        readZip(
+          buildZip({
+            'TikTok_Data/Videos/Videos.txt':
+              'Date: yesterday\nVideo Link: https://www.tiktokv.com/share/video/111/\n\n' +
+              'Date: 2023-05-02 10:00:00\nVideo Link: https://www.tiktokv.com/share/video/222/\n',
+            'TikTok_Data/Activity/Following List.txt': 'Username: @friend\n',
+          })
+        )
+      );
+
+      expect(data.videos.map(video => video.id)).toEqual(['222']);
+      expect(data.following).toEqual([]);
+      expect(data.skipped).toEqual([
+        { section: 'videos', id: '111', reason: 'Invalid date "yesterday"' },
+        { section: 'following', id: 'friend', reason: 'Missing date' },
+      ]);
+    });
+  });
+
+  describe('TikTokImporter', () => {
+    const archive = buildZip({ 'user_data.json': JSON.stringify(userData) });
+
+    it('should import videos, follows and likes and report progress', async () => {
+      const { target, records, progress } = createTarget();
+      const importer = new TikTokImporter(target, { fetchMedia });
+
+      const result = await importer.run(migration, archive);
+
+      expect(result.status).toBe('completed');
+      expect(result.results).toMatchObject({
+        videosImported: 2,
+        followersImported: 1,
+        likesImported: 1,
+        engagementMetricsImported: true,
+        skipped: 2,
+        failed: 0,
+      });
+      expect(progress[0]!.progress.currentStep).toBe('Reading archive');
+      expect(progress.at(-1)).toMatchObject({ status: 'completed', progress: { current: 6, total: 6 } });
+
+      const posts = [...records.values()].filter(record => record.$type === 'app.bsky.feed.post');
+      expect(posts.map(post => post.text)).toEqual(['first', 'second #dance']);
+      expect(posts[1]).toMatchObject({
+        createdAt: '2023-05-02T10:00:00.000Z',
+        facets: [
+          {
+            index: { byteStart: 7, byteEnd: 13 },
+            features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'dance' }],
+          },
+        ],
+        embed: { $type: 'app.bsky.embed.video', video: { mimeType: 'video/mp4' } },
+        via: { source: 'tiktok', id: '222', likes: 7 },
+      });
+
+      const like = [...records.values()].find(record => record.$type === 'app.bsky.feed.like');
+      expect(like!.subject.uri).toBe(`at://did:plc:me/app.bsky.feed.post/${deterministicTid('2023-05-01T09:30:00.000Z', '111')}`);
+      expect(target.putRecord).toHaveBeenCalledWith(
+        'app.bsky.graph.follow',
+        expect.any(String),
+        expect.objectContaining({ subject: 'did:plc:friend' })
+      );
+    });
+
+    it('should resume after a crash without rewriting finished items', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      const { target } = createTarget();
+      target.resolveHandle.mockRejectedValueOnce(new Error('PDS unavailable'));
+
+      const importer = new TikTokImporter(target, { fetchMedia, checkpoints });
+      await expect(importer.run(migration, archive)).rejects.toThrow('PDS unavailable');
+      expect(target.updateProgress.mock.calls.at(-1)![1]).toMatchObject({
+        status: 'failed',
+        error: 'PDS unavailable',
+      });
+      expect((await checkpoints.load(migration.uri))!.completed).toEqual(['video:111', 'video:222']);
+
+      target.putRecord.mockClear();
+      const result = await importer.run({ ...migration, status: 'failed' }, archive);
+
+      expect(result.status).toBe('completed');
+      expect(result.error).toBeUndefined();
+      expect(result.results.videosImported).toBe(2);
+      expect(target.putRecord).not.toHaveBeenCalledWith('app.bsky.feed.post', expect.anything(), expect.anything());
+      expect(await checkpoints.load(migration.uri)).toBeUndefined();
+    });
+
+    it('should record unavailable media and retry it on the next run', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      const { target } = createTarget();
+      const flakyMedia = jest
+        .fn()
+        .mockRejectedValueOnce(new ItemError('Media for video 111 is unavailable'))
+        .mockImplementation(fetchMedia);
+
+      const importer = new TikTokImporter(target, { fetchMedia: flakyMedia, checkpoints });
+      const first = await importer.run(migration, archive);
+
+      expect(first.status).toBe('completed');
+      expect(first.results).toMatchObject({ videosImported: 1, failed: 1 });
+      expect((await checkpoints.load(migration.uri))!.failures).toEqual({
+        'video:111': 'Media for video 111 is unavailable',
+      });
+
+      const second = await importer.run({ ...migration, status: 'failed' }, archive);
+      expect(second.results).toMatchObject({ videosImported: 2, failed: 0 });
+    });
+
+    it('should record a video the PDS rejects and retry it on the next run', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      const { target } = createTarget();
+      target.putRecord.mockRejectedValueOnce(new Error('Record/text must not be longer than 3000 bytes'));
+
+      const importer = new TikTokImporter(target, { fetchMedia, checkpoints });
+      const first = await importer.run(migration, archive);
+
+      expect(first.status).toBe('completed');
+      expect(first.results).toMatchObject({ videosImported: 1, followersImported: 1, failed: 1 });
+      expect((await checkpoints.load(migration.uri))!.failures).toEqual({
+        'video:111': 'Video 111 could not be posted: Record/text must not be longer than 3000 bytes',
+      });
+
+      const second = await importer.run({ ...migration, status: 'failed' }, archive);
+      expect(second.results).toMatchObject({ videosImported: 2, failed: 0 });
+    });
+
+    it('should resolve caption mentions to DIDs and drop unknown ones', async () => {
+      const { target, records } = createTarget();
+      const mentions = structuredClone(userData);
+      mentions.Video.Videos.VideoList[0]!.Title = 'duet with @friend.bsky.social and @user.name #dance';
+
+      const importer = new TikTokImporter(target, { fetchMedia });
+      const result = await importer.run(migration, buildZip({ 'user_data.json': JSON.stringify(mentions) }));
+
+      expect(result.results).toMatchObject({ videosImported: 2, failed: 0 });
+      expect(target.resolveHandle).toHaveBeenCalledWith('user.name');
+      const post = [...records.values()].find(record => record.via?.id === '222');
+      expect(post!.facets).toEqual([
+        {
+          $type: 'app.bsky.richtext.facet',
+          index: { byteStart: 10, byteEnd: 29 },
+          features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:friend' }],
+        },
+        {
+          index: { byteStart: 45, byteEnd: 51 },
+          features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'dance' }],
+        },
+      ]);
+    });
+
+    it('should flag entries with malformed dates as failed and import the rest', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      const { target } = createTarget();
+      const malformed = structuredClone(userData);
+      malformed.Video.Videos.VideoList[0]!.Date = '2023-13-45 25:00:00';
+
+      const importer = new TikTokImporter(target, { fetchMedia, checkpoints });
+      const result = await importer.run(migration, buildZip({ 'user_data.json': JSON.stringify(malformed) }));
+
+      expect(result.status).toBe('completed');
+      expect(result.results).toMatchObject({ videosImported: 1, followersImported: 1, failed: 1 });
+      expect((await checkpoints.load(migration.uri))!.failures).toEqual({
+        'video:222': 'Invalid date "2023-13-45 25:00:00"',
+      });
+    });
+
+    it('should generate stable, sortable record keys', () => {
+      const earlier = deterministicTid('2023-05-01T09:30:00.000Z', '111');
+      expect(earlier).toMatch(/^[234567a-z]{13}$/);
+      expect(deterministicTid('2023-05-01T09:30:00.000Z', '111')).toBe(earlier);
+      expect(deterministicTid('2023-05-02T10:00:00.000Z', '222') > earlier).toBe(true);
+    });
+  });
+});
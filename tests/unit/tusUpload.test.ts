@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import express from 'express';
+
+import { TUS_VERSION, createTusHandler } from '../../src/services/uploads/tusHandler';
+import { FileUploadStore } from '../../src/services/uploads/uploadStore';
+
+const encode = (value: string) => Buffer.from(value).toString('base64');
+
+describe('tus upload endpoint', () => {
+  let directory: string;
+  let store: FileUploadStore;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+  let completed: Array<{ id: string; body: unknown; offset: number }>;
+
+  const tusHeaders = (headers: Record<string, string> = {}) => ({
+    'Tus-Resumable': TUS_VERSION,
+    ...headers,
+  });
+
+  const createUpload = async (length: number, metadata = `filetype ${encode('video/mp4')},title ${encode('Clip')}`) => {
+    const response = await fetch(`${baseUrl}/videos`, {
+      method: 'POST',
+      headers: tusHeaders({ 'Upload-Length': String(length), 'Upload-Metadata': metadata }),
+    });
+    return response;
+  };
+
+  const patch = (location: string, offset: number, body: Buffer, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${location}`, {
+      method: 'PATCH',
+      headers: tusHeaders({
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(offset),
+        ...headers,
+      }),
+      body,
+    });
+
+  const head = (location: string) => fetch(`${baseUrl}${location}`, { method: 'HEAD', headers: tusHeaders() });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tus-'));
+    store = new FileUploadStore(directory);
+    completed = [];
+
+    const tus = createTusHandler({
+      store,
+      basePath: '/videos/uploads',
+      maxSize: 1024,
+      expiresIn: 60_000,
+      validateMetadata: metadata =>
+        metadata.filetype?.startsWith('video/') ? undefined : 'Only video files are allowed',
+    });
+    const app = express();
+    app.options('/videos', tus.options);
+    app.post('/videos', tus.requireTusVersion, tus.create);
+    app.head('/videos/uploads/:id', tus.requireTusVersion, tus.head);
+    app.patch('/videos/uploads/:id', tus.requireTusVersion, tus.patch, (req, res) => {
+      completed.push({ id: req.upload!.id, body: req.body, offset: req.upload!.offset });
+      res.status(201).json({ ok: true });
+    });
+    app.delete('/videos/uploads/:id', tus.requireTusVersion, tus.terminate);
+
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should advertise the supported extensions', async () => {
+    const response = await fetch(`${baseUrl}/videos`, { method: 'OPTIONS' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('tus-version')).toBe('1.0.0');
+    expect(response.headers.get('tus-extension')).toBe('creation,termination,expiration,checksum');
+    expect(response.headers.get('tus-max-size')).toBe('1024');
+  });
+
+  it('should resume an upload across chunks and hand off the finished file', async () => {
+    const content = Buffer.from('0123456789abcdef');
+    const created = await createUpload(content.length);
+    const location = created.headers.get('location')!;
+
+    expect(created.status).toBe(201);
+    expect(location).toMatch(/^\/videos\/uploads\/[0-9a-f-]{36}$/);
+    expect(created.headers.get('upload-expires')).toBeTruthy();
+
+    const first = await patch(location, 0, content.subarray(0, 6));
+    expect(first.status).toBe(204);
+    expect(first.headers.get('upload-offset')).toBe('6');
+
+    // A client that lost the response asks where to resume from
+    const status = await head(location);
+    expect(status.headers.get('upload-offset')).toBe('6');
+    expect(status.headers.get('upload-length')).toBe('16');
+    expect(status.headers.get('cache-control')).toBe('no-store');
+
+    const stale = await patch(location, 0, content);
+    expect(stale.status).toBe(409);
+
+    const last = await patch(location, 6, content.subarray(6));
+    expect(last.status).toBe(201);
+    expect(last.headers.get('upload-offset')).toBe('16');
+    expect(completed).toEqual([
+      { id: location.split('/').pop(), body: { filetype: 'video/mp4', title: 'Clip' }, offset: 16 },
+    ]);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of store.read(completed[0]!.id)) chunks.push(chunk as Buffer);
+    expect(Buffer.concat(chunks).equals(content)).toBe(true);
+  });
+
+  it('should verify chunk checksums and roll back mismatches', async () => {
+    const location = (await createUpload(8)).headers.get('location')!;
+    const chunk = Buffer.from('abcd');
+    const digest = createHash('sha1').update(chunk).digest('base64');
+
+    const bad = await patch(location, 0, chunk, { 'Upload-Checksum': `sha1 ${encode('nope')}` });
+    expect(bad.status).toBe(460);
+    expect((await head(location)).headers.get('upload-offset')).toBe('0');
+
+    const unsupported = await patch(location, 0, chunk, { 'Upload-Checksum': `crc32 ${digest}` });
+    expect(unsupported.status).toBe(400);
+
+    const good = await patch(location, 0, chunk, { 'Upload-Checksum': `sha1 ${digest}` });
+    expect(good.status).toBe(204);
+    expect(good.headers.get('upload-offset')).toBe('4');
+  });
+
+  it('should reject invalid creation requests', async () => {
+    expect((await createUpload(2048)).status).toBe(413);
+    expect((await createUpload(10, `filetype ${encode('text/plain')}`)).status).toBe(415);
+
+    const unversioned = await fetch(`${baseUrl}/videos`, {
+      method: 'POST',
+      headers: { 'Upload-Length': '10' },
+    });
+    expect(unversioned.status).toBe(412);
+    expect(unversioned.headers.get('tus-version')).toBe('1.0.0');
+  });
+
+  it('should not accept bytes past the declared length', async () => {
+    const location = (await createUpload(4)).headers.get('location')!;
+
+    const response = await patch(location, 0, Buffer.from('too long'));
+    expect(response.status).toBe(413);
+    expect((await head(location)).headers.get('upload-offset')).toBe('0');
+  });
+
+  it('should terminate uploads', async () => {
+    const location = (await createUpload(4)).headers.get('location')!;
+
+    const response = await fetch(`${baseUrl}${location}`, { method: 'DELETE', headers: tusHeaders() });
+    expect(response.status).toBe(204);
+    expect((await head(location)).status).toBe(404);
+  });
+
+  it('should expire abandoned uploads', async () => {
+    const location = (await createUpload(4)).headers.get('location')!;
+    const id = location.split('/').pop()!;
+
+    expect(await store.removeExpired(new Date())).toEqual([]);
+    expect(await store.removeExpired(new Date(Date.now() + 120_000))).toEqual([id]);
+    expect((await head(location)).status).toBe(404);
+  });
+});